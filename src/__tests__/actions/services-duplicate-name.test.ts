@@ -15,15 +15,20 @@ describe('Service Duplicate Name Handling - Server Actions', () => {
     from: jest.fn(),
   };
 
+  const mockUser = { id: 'user-123' };
   const mockShop = {
     id: 'shop-123',
     name: 'Test Shop',
+    owner_user_id: 'user-123',
   };
 
   beforeEach(() => {
     jest.clearAllMocks();
     (createClient as jest.Mock).mockResolvedValue(mockSupabase);
-    (ensureUserAndShop as jest.Mock).mockResolvedValue({ shop: mockShop });
+    (ensureUserAndShop as jest.Mock).mockResolvedValue({
+      user: mockUser,
+      shop: mockShop,
+    });
   });
 
   describe('addService from services.ts', () => {
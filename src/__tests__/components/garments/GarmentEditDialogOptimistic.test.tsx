@@ -105,6 +105,7 @@ const renderComponent = (garmentOverrides = {}, dialogProps = {}) => {
     updateService: jest.fn(),
     toggleServiceComplete: jest.fn(),
     markAsPickedUp: jest.fn(),
+    moveToStage: jest.fn(),
     refreshGarment: jest.fn(),
     refreshHistory: jest.fn(),
     historyKey: 0,
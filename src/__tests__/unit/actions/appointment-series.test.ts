@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ */
+
+import { createAppointment } from '@/lib/actions/appointments';
+import { createClient } from '@/lib/supabase/server';
+import { auth } from '@clerk/nextjs/server';
+import { addDays, format } from 'date-fns';
+
+jest.mock('@/lib/supabase/server');
+jest.mock('@clerk/nextjs/server');
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+jest.mock('@/lib/services/email/email-service');
+jest.mock('@/lib/services/email/email-repository');
+jest.mock('@/lib/utils/timezone-helpers', () => ({
+	getShopTimezone: jest.fn().mockResolvedValue('America/New_York'),
+}));
+
+type Row = Record<string, any>;
+
+const startDate = format(addDays(new Date(), 7), 'yyyy-MM-dd');
+const weekLater = format(addDays(new Date(), 14), 'yyyy-MM-dd');
+
+function makeSupabase(conflictDates: string[]) {
+	const inserts: Row[] = [];
+	const deletes: string[] = [];
+
+	const results: Record<string, (row?: Row) => any> = {
+		users: () => ({ data: { id: 'db-user-1' }, error: null }),
+		shops: () => ({ data: { id: 'shop-1' }, error: null }),
+		clients: () => ({
+			data: { accept_email: false, accept_sms: true },
+			error: null,
+		}),
+		shop_hours: () => ({ data: [], error: null }),
+		appointment_series: () => ({ data: { id: 'series-1' }, error: null }),
+		appointments: (row) => ({
+			data: { id: `appt-${row?.date}`, ...row, client: null },
+			error: null,
+		}),
+	};
+
+	const from = jest.fn((table: string) => {
+		let inserted: Row | undefined;
+		const result = () => results[table]?.(inserted) ?? { error: null };
+		const chain: any = {
+			select: jest.fn(() => chain),
+			eq: jest.fn(() => chain),
+			single: jest.fn(() => Promise.resolve(result())),
+			insert: jest.fn((row: Row) => {
+				inserted = row;
+				inserts.push({ table, ...row });
+				return chain;
+			}),
+			delete: jest.fn(() => {
+				deletes.push(table);
+				return chain;
+			}),
+			then: (resolve: (value: any) => void) => resolve(result()),
+		};
+		return chain;
+	});
+
+	const rpc = jest.fn((_name: string, params: Row) =>
+		Promise.resolve({
+			data: conflictDates.includes(params.p_date),
+			error: null,
+		})
+	);
+
+	return { supabase: { from, rpc }, inserts, deletes };
+}
+
+const baseData = {
+	shopId: '123e4567-e89b-12d3-a456-426614174001',
+	clientId: '123e4567-e89b-12d3-a456-426614174000',
+	date: startDate,
+	startTime: '10:00',
+	endTime: '11:00',
+	type: 'fitting' as const,
+	recurrence: { frequency: 'weekly' as const, interval: 1, count: 3 },
+};
+
+describe('createAppointment with a recurrence rule', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		(auth as unknown as jest.Mock).mockResolvedValue({ userId: 'user_123' });
+	});
+
+	it('books each occurrence in the series and reports conflicts', async () => {
+		const { supabase, inserts } = makeSupabase([weekLater]);
+		(createClient as jest.Mock).mockResolvedValue(supabase);
+
+		const result = await createAppointment(baseData);
+
+		expect(inserts[0]).toMatchObject({
+			table: 'appointment_series',
+			frequency: 'weekly',
+			interval: 1,
+			occurrence_count: 3,
+		});
+
+		const appointmentInserts = inserts.filter(
+			(i) => i.table === 'appointments'
+		);
+		expect(appointmentInserts).toHaveLength(2);
+		expect(appointmentInserts.every((i) => i.series_id === 'series-1')).toBe(
+			true
+		);
+
+		expect(result.id).toBe(`appt-${startDate}`);
+		expect(result.series?.appointments).toHaveLength(2);
+		expect(result.series?.skipped).toEqual([
+			{ date: weekLater, reason: 'This time slot is already booked' },
+		]);
+	});
+
+	it('removes the series when no occurrence can be booked', async () => {
+		const allDates = [0, 7, 14].map((days) =>
+			format(addDays(new Date(), 7 + days), 'yyyy-MM-dd')
+		);
+		const { supabase, deletes } = makeSupabase(allDates);
+		(createClient as jest.Mock).mockResolvedValue(supabase);
+
+		await expect(createAppointment(baseData)).rejects.toThrow(
+			'None of the appointments in this series could be booked'
+		);
+		expect(deletes).toEqual(['appointment_series']);
+	});
+});
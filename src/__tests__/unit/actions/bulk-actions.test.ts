@@ -0,0 +1,380 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn(),
+}));
+
+jest.mock('@/app/(app)/garments/actions/update-garment', () => ({
+	updateGarmentStage: jest.fn(),
+}));
+jest.mock('@/lib/actions/garment-pickup', () => ({
+	markGarmentAsPickedUp: jest.fn(),
+}));
+jest.mock('@/lib/actions/garment-balance-check', () => ({
+	checkGarmentBalanceStatus: jest.fn(),
+}));
+jest.mock('@/lib/actions/garment-services', () => ({
+	toggleServiceCompletion: jest.fn(),
+}));
+jest.mock('@/lib/actions/garments', () => ({
+	updateGarment: jest.fn(),
+}));
+jest.mock('@/lib/actions/orders-cancellation', () => ({
+	cancelOrder: jest.fn(),
+}));
+jest.mock('@/lib/actions/emails/invoice-emails', () => ({
+	sendPaymentRequestEmail: jest.fn(),
+}));
+jest.mock('@/lib/utils/timezone-helpers', () => ({
+	getShopTimezone: jest.fn().mockResolvedValue('America/New_York'),
+}));
+
+import {
+	bulkCancelOrders,
+	bulkChangeGarmentStage,
+	bulkCompleteGarmentServices,
+	bulkMarkGarmentsPickedUp,
+	bulkRescheduleGarments,
+	bulkSendPaymentReminders,
+} from '@/lib/actions/bulk-actions';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from '@/lib/auth/user-shop';
+import { updateGarmentStage } from '@/app/(app)/garments/actions/update-garment';
+import { markGarmentAsPickedUp } from '@/lib/actions/garment-pickup';
+import { checkGarmentBalanceStatus } from '@/lib/actions/garment-balance-check';
+import { toggleServiceCompletion } from '@/lib/actions/garment-services';
+import { updateGarment } from '@/lib/actions/garments';
+import { cancelOrder } from '@/lib/actions/orders-cancellation';
+import { sendPaymentRequestEmail } from '@/lib/actions/emails/invoice-emails';
+
+type Row = Record<string, any>;
+
+const G1 = '11111111-1111-4111-8111-111111111111';
+const G2 = '22222222-2222-4222-8222-222222222222';
+const O1 = '33333333-3333-4333-8333-333333333333';
+const O2 = '44444444-4444-4444-8444-444444444444';
+const O3 = '55555555-5555-4555-8555-555555555555';
+
+function makeSupabase(tables: Record<string, Row[]>) {
+	const inserted: Record<string, Row[]> = {};
+	const from = jest.fn((table: string) => {
+		const filters: Array<(row: Row) => boolean> = [];
+		const chain: any = {
+			select: jest.fn(() => chain),
+			eq: jest.fn((column: string, value: unknown) => {
+				filters.push((row) => row[column] === value);
+				return chain;
+			}),
+			neq: jest.fn((column: string, value: unknown) => {
+				filters.push((row) => row[column] !== value);
+				return chain;
+			}),
+			in: jest.fn((column: string, values: unknown[]) => {
+				filters.push((row) => values.includes(row[column]));
+				return chain;
+			}),
+			order: jest.fn(() => chain),
+			insert: jest.fn((rows: Row[]) => {
+				inserted[table] = [...(inserted[table] || []), ...rows];
+				return Promise.resolve({ error: null });
+			}),
+			then: (resolve: (value: any) => void) => {
+				resolve({
+					data: (tables[table] || []).filter((row) =>
+						filters.every((filter) => filter(row))
+					),
+					error: null,
+				});
+			},
+		};
+		return chain;
+	});
+
+	(createClient as jest.Mock).mockResolvedValue({ from });
+	return { inserted };
+}
+
+describe('bulk actions', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		(ensureUserAndShop as jest.Mock).mockResolvedValue({
+			user: { id: 'user-1' },
+			shop: { id: 'shop-1' },
+		});
+	});
+
+	it('rejects an empty selection', async () => {
+		const result = await bulkChangeGarmentStage([], 'In Progress');
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Select at least one item',
+		});
+	});
+
+	describe('bulkChangeGarmentStage', () => {
+		it('moves what it can and explains the rest', async () => {
+			makeSupabase({
+				garments: [
+					{
+						id: G1,
+						shop_id: 'shop-1',
+						stage: 'In Progress',
+						garment_services: [{ id: 's1', is_done: true }],
+					},
+					{
+						id: G2,
+						shop_id: 'shop-1',
+						stage: 'In Progress',
+						garment_services: [{ id: 's2', is_done: false }],
+					},
+				],
+			});
+
+			const result = await bulkChangeGarmentStage(
+				[G1, G2, O1],
+				'Ready For Pickup'
+			);
+
+			expect(result.data).toEqual([
+				{ id: G1, success: true },
+				{
+					id: G2,
+					success: false,
+					error: expect.stringContaining('Finish all services'),
+				},
+				{ id: O1, success: false, error: 'Garment not found' },
+			]);
+			expect(updateGarmentStage).toHaveBeenCalledTimes(1);
+			expect(updateGarmentStage).toHaveBeenCalledWith(
+				'shop-1',
+				G1,
+				'Ready For Pickup'
+			);
+		});
+
+		it('reports the error when the stage update throws', async () => {
+			makeSupabase({
+				garments: [
+					{ id: G1, shop_id: 'shop-1', stage: 'New', garment_services: [] },
+				],
+			});
+			(updateGarmentStage as jest.Mock).mockRejectedValue(
+				new Error('A deposit of $20.00 is due before work can start')
+			);
+
+			const result = await bulkChangeGarmentStage([G1], 'In Progress');
+
+			expect(result.data).toEqual([
+				{
+					id: G1,
+					success: false,
+					error: 'A deposit of $20.00 is due before work can start',
+				},
+			]);
+		});
+
+		it('refuses Done, which goes through pickup', async () => {
+			const result = await bulkChangeGarmentStage([G1], 'Done' as any);
+
+			expect(result.success).toBe(false);
+			expect(updateGarmentStage).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('bulkCompleteGarmentServices', () => {
+		it('finishes only the open, active services', async () => {
+			makeSupabase({
+				garments: [
+					{
+						id: G1,
+						shop_id: 'shop-1',
+						garment_services: [
+							{ id: 's1', is_done: true },
+							{ id: 's2', is_done: false },
+							{ id: 's3', is_done: false, is_removed: true },
+						],
+					},
+					{ id: G2, shop_id: 'shop-1', garment_services: [] },
+				],
+			});
+			(toggleServiceCompletion as jest.Mock).mockResolvedValue({
+				success: true,
+			});
+
+			const result = await bulkCompleteGarmentServices([G1, G2]);
+
+			expect(toggleServiceCompletion).toHaveBeenCalledTimes(1);
+			expect(toggleServiceCompletion).toHaveBeenCalledWith({
+				garmentServiceId: 's2',
+				isDone: true,
+			});
+			expect(result.data).toEqual([
+				{ id: G1, success: true },
+				{ id: G2, success: false, error: 'This garment has no services' },
+			]);
+		});
+
+		it('stops a garment at the first refused service', async () => {
+			makeSupabase({
+				garments: [
+					{
+						id: G1,
+						shop_id: 'shop-1',
+						garment_services: [
+							{ id: 's1', is_done: false },
+							{ id: 's2', is_done: false },
+						],
+					},
+				],
+			});
+			(toggleServiceCompletion as jest.Mock).mockResolvedValue({
+				success: false,
+				error: 'Cannot modify services for cancelled orders',
+			});
+
+			const result = await bulkCompleteGarmentServices([G1]);
+
+			expect(toggleServiceCompletion).toHaveBeenCalledTimes(1);
+			expect(result.data?.[0]?.error).toBe(
+				'Cannot modify services for cancelled orders'
+			);
+		});
+	});
+
+	it('reschedules through updateGarment with the shop timezone', async () => {
+		(updateGarment as jest.Mock)
+			.mockResolvedValueOnce({ success: true })
+			.mockResolvedValueOnce({ success: false, error: 'Garment not found' });
+
+		const result = await bulkRescheduleGarments([G1, G2], '2026-11-02');
+
+		expect(updateGarment).toHaveBeenCalledWith({
+			garmentId: G1,
+			updates: { dueDate: '2026-11-02' },
+			timezone: 'America/New_York',
+		});
+		expect(result.data).toEqual([
+			{ id: G1, success: true },
+			{ id: G2, success: false, error: 'Garment not found' },
+		]);
+	});
+
+	it('rejects a malformed due date', async () => {
+		const result = await bulkRescheduleGarments([G1], 'next week');
+
+		expect(result.success).toBe(false);
+		expect(updateGarment).not.toHaveBeenCalled();
+	});
+
+	it('skips pickups that would leave money owing', async () => {
+		(checkGarmentBalanceStatus as jest.Mock)
+			.mockResolvedValueOnce({
+				success: true,
+				isLastGarment: true,
+				hasOutstandingBalance: true,
+				balanceDue: 4500,
+				orderNumber: 'ORD-7',
+			})
+			.mockResolvedValueOnce({
+				success: true,
+				isLastGarment: false,
+				hasOutstandingBalance: true,
+			});
+		(markGarmentAsPickedUp as jest.Mock).mockResolvedValue({ success: true });
+
+		const result = await bulkMarkGarmentsPickedUp([G1, G2]);
+
+		expect(result.data).toEqual([
+			{
+				id: G1,
+				success: false,
+				error: 'Order ORD-7 has $45.00 due; collect it from the garment page',
+			},
+			{ id: G2, success: true },
+		]);
+		expect(markGarmentAsPickedUp).toHaveBeenCalledTimes(1);
+		expect(markGarmentAsPickedUp).toHaveBeenCalledWith({ garmentId: G2 });
+	});
+
+	it('sends reminders only for orders with an open invoice', async () => {
+		makeSupabase({
+			orders: [
+				{ id: O1, shop_id: 'shop-1', status: 'in_progress' },
+				{ id: O2, shop_id: 'shop-1', status: 'completed' },
+				{ id: O3, shop_id: 'shop-1', status: 'cancelled' },
+			],
+			invoices: [
+				{ id: 'i1', shop_id: 'shop-1', order_id: O1, status: 'pending' },
+				{ id: 'i2', shop_id: 'shop-1', order_id: O2, status: 'paid' },
+			],
+		});
+		(sendPaymentRequestEmail as jest.Mock).mockResolvedValue({
+			success: true,
+		});
+
+		const result = await bulkSendPaymentReminders([O1, O2, O3]);
+
+		expect(sendPaymentRequestEmail).toHaveBeenCalledTimes(1);
+		expect(sendPaymentRequestEmail).toHaveBeenCalledWith('i1');
+		expect(result.data).toEqual([
+			{ id: O1, success: true },
+			{ id: O2, success: false, error: 'This order is already paid' },
+			{ id: O3, success: false, error: 'This order is cancelled' },
+		]);
+	});
+
+	it('cancels through cancelOrder and notes it on each garment', async () => {
+		const { inserted } = makeSupabase({
+			orders: [
+				{
+					id: O1,
+					shop_id: 'shop-1',
+					status: 'in_progress',
+					garments: [{ id: G1 }, { id: G2 }],
+				},
+				{ id: O2, shop_id: 'shop-1', status: 'completed', garments: [] },
+			],
+		});
+		(cancelOrder as jest.Mock)
+			.mockResolvedValueOnce({ success: true })
+			.mockResolvedValueOnce({
+				success: false,
+				error:
+					'Completed orders cannot be cancelled. Use the refund process instead.',
+			});
+
+		const result = await bulkCancelOrders([O1, O2], 'Client moved away');
+
+		expect(cancelOrder).toHaveBeenCalledWith({
+			orderId: O1,
+			cancellationReason: 'Client moved away',
+		});
+		expect(result.data).toEqual([
+			{ id: O1, success: true },
+			{
+				id: O2,
+				success: false,
+				error:
+					'Completed orders cannot be cancelled. Use the refund process instead.',
+			},
+		]);
+		expect(inserted.garment_history).toEqual([
+			expect.objectContaining({
+				garment_id: G1,
+				field_name: 'order_status',
+				old_value: 'in_progress',
+				new_value: 'cancelled',
+			}),
+			expect.objectContaining({ garment_id: G2 }),
+		]);
+	});
+});
@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+// Only Clerk is faked: the bulk move and each garment's move look the user
+// and shop up the way the app does
+jest.mock('@clerk/nextjs/server', () => ({
+	auth: jest.fn().mockResolvedValue({ userId: 'clerk_user_1' }),
+	currentUser: jest.fn().mockResolvedValue({
+		emailAddresses: [{ emailAddress: 'owner@example.com' }],
+	}),
+}));
+
+import { bulkChangeGarmentStage } from '@/lib/actions/bulk-actions';
+import { createClient } from '@/lib/supabase/server';
+
+type Row = Record<string, any>;
+
+const SHOP = '11111111-1111-4111-8111-111111111111';
+const USER = '22222222-2222-4222-8222-222222222222';
+const G1 = '33333333-3333-4333-8333-333333333333';
+const G2 = '44444444-4444-4444-8444-444444444444';
+
+function makeSupabase(tables: Record<string, Row[]>) {
+	const updates: Row[] = [];
+	const inserted: Record<string, Row[]> = {};
+
+	const from = jest.fn((table: string) => {
+		const filters: Array<(row: Row) => boolean> = [];
+		const matching = () =>
+			(tables[table] || []).filter((row) =>
+				filters.every((filter) => filter(row))
+			);
+		const chain: any = {
+			select: jest.fn(() => chain),
+			eq: jest.fn((column: string, value: unknown) => {
+				filters.push((row) => row[column] === value);
+				return chain;
+			}),
+			in: jest.fn((column: string, values: unknown[]) => {
+				filters.push((row) => values.includes(row[column]));
+				return chain;
+			}),
+			maybeSingle: jest.fn(async () => ({
+				data: matching()[0] ?? null,
+				error: null,
+			})),
+			update: jest.fn((values: Row) => {
+				updates.push({ table, values });
+				return chain;
+			}),
+			insert: jest.fn(async (row: Row) => {
+				inserted[table] = [...(inserted[table] || []), row];
+				return { error: null };
+			}),
+			then: (resolve: (value: any) => void) => {
+				resolve({ data: matching(), error: null });
+			},
+		};
+		return chain;
+	});
+
+	// No Supabase auth session: the app signs users in through Clerk
+	(createClient as jest.Mock).mockResolvedValue({ from });
+	return { updates, inserted };
+}
+
+describe('bulkChangeGarmentStage', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		jest.spyOn(console, 'log').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it('moves each garment as the signed-in user', async () => {
+		const { updates, inserted } = makeSupabase({
+			users: [{ id: USER, clerk_user_id: 'clerk_user_1', shop_id: SHOP }],
+			shops: [{ id: SHOP, owner_user_id: USER }],
+			garments: [
+				{
+					id: G1,
+					shop_id: SHOP,
+					stage: 'New',
+					order_id: null,
+					garment_services: [{ id: 's1', is_done: false }],
+				},
+				{
+					id: G2,
+					shop_id: SHOP,
+					stage: 'New',
+					order_id: null,
+					garment_services: [{ id: 's2', is_done: false }],
+				},
+			],
+		});
+
+		const result = await bulkChangeGarmentStage([G1, G2], 'In Progress');
+
+		expect(result).toEqual({
+			success: true,
+			data: [
+				{ id: G1, success: true },
+				{ id: G2, success: true },
+			],
+		});
+		expect(updates).toEqual([
+			{ table: 'garments', values: { stage: 'In Progress' } },
+			{ table: 'garments', values: { stage: 'In Progress' } },
+		]);
+		expect(inserted.garment_history).toEqual([
+			expect.objectContaining({ garment_id: G1, changed_by: USER }),
+			expect.objectContaining({ garment_id: G2, changed_by: USER }),
+		]);
+	});
+});
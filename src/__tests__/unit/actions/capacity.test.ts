@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn().mockResolvedValue({
+		user: { id: 'user-1' },
+		shop: { id: 'shop-1', owner_user_id: 'user-1', timezone: 'UTC' },
+	}),
+}));
+
+jest.mock('@/lib/actions/shop-hours', () => ({
+	getShopHours: jest
+		.fn()
+		.mockResolvedValue([
+			{
+				day_of_week: 1,
+				open_time: '09:00',
+				close_time: '17:00',
+				is_closed: false,
+			},
+		]),
+}));
+
+import { getCapacityPlan } from '@/lib/actions/capacity';
+import { createClient } from '@/lib/supabase/server';
+
+function makeSupabase(tables: Record<string, any>) {
+	const from = jest.fn((table: string) => {
+		const chain: any = {
+			select: jest.fn(() => chain),
+			eq: jest.fn(() => chain),
+			not: jest.fn(() => chain),
+			neq: jest.fn(() => chain),
+			then: (resolve: (value: any) => void) =>
+				resolve({ data: tables[table] ?? [], error: null }),
+		};
+		return chain;
+	});
+
+	(createClient as jest.Mock).mockResolvedValue({ from });
+	return { from };
+}
+
+const line = (overrides: Record<string, any>) => ({
+	quantity: 1,
+	unit: 'flat_rate',
+	is_done: false,
+	is_removed: false,
+	service: { estimated_minutes: 30 },
+	...overrides,
+});
+
+describe('getCapacityPlan', () => {
+	it('totals the estimated work left on each active garment', async () => {
+		makeSupabase({
+			garments: [
+				{
+					id: 'garment-1',
+					due_date: '2026-10-23',
+					garment_services: [
+						line({ quantity: 2 }),
+						line({ is_done: true }),
+						line({ is_removed: true }),
+						line({ unit: 'hour', quantity: 1.5, service: null }),
+						line({ service: { estimated_minutes: null } }),
+					],
+				},
+				{
+					id: 'garment-2',
+					due_date: null,
+					garment_services: [line({ service: null })],
+				},
+			],
+			services: [{ id: 'svc-1', estimated_minutes: 30 }],
+		});
+
+		const result = await getCapacityPlan();
+
+		expect(result.success).toBe(true);
+		expect(result.data).toMatchObject({
+			dailyCapacityMinutes: [0, 480, 0, 0, 0, 0, 0],
+			queue: [{ dueDate: '2026-10-23', minutes: 150 }],
+			unestimatedServiceCount: 2,
+			serviceEstimates: { 'svc-1': 30 },
+		});
+	});
+});
@@ -0,0 +1,224 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn(),
+}));
+
+import {
+	getClientMergePreview,
+	getDuplicateClients,
+	mergeClients,
+} from '@/lib/actions/client-merge';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from '@/lib/auth/user-shop';
+
+type Row = Record<string, any>;
+
+function makeSupabase(
+	tables: Record<string, Row[]>,
+	rpcResult: { data: unknown; error: unknown } = {
+		data: 'merge-1',
+		error: null,
+	}
+) {
+	const from = jest.fn((table: string) => {
+		const filters: Array<(row: Row) => boolean> = [];
+		let head = false;
+		const chain: any = {
+			select: jest.fn((_columns: string, options?: { head?: boolean }) => {
+				head = !!options?.head;
+				return chain;
+			}),
+			eq: jest.fn((column: string, value: unknown) => {
+				// Joined filters like invoice.client_id are left to the fixture
+				if (!column.includes('.')) {
+					filters.push((row) => row[column] === value);
+				}
+				return chain;
+			}),
+			in: jest.fn((column: string, values: unknown[]) => {
+				filters.push((row) => values.includes(row[column]));
+				return chain;
+			}),
+			order: jest.fn(() => chain),
+			range: jest.fn(() => chain),
+			then: (resolve: (value: any) => void) => {
+				const rows = (tables[table] || []).filter((row) =>
+					filters.every((filter) => filter(row))
+				);
+				resolve(
+					head
+						? { data: null, count: rows.length, error: null }
+						: { data: rows, error: null }
+				);
+			},
+		};
+		return chain;
+	});
+	const rpc = jest.fn().mockResolvedValue(rpcResult);
+
+	(createClient as jest.Mock).mockResolvedValue({ from, rpc });
+	return { rpc };
+}
+
+const clients = [
+	{
+		id: 'c1',
+		shop_id: 'shop-1',
+		first_name: 'Jane',
+		last_name: 'Smith',
+		email: 'jane@example.com',
+		phone_number: '+12025550143',
+		created_at: '2026-01-01T00:00:00Z',
+		is_archived: false,
+	},
+	{
+		id: 'c2',
+		shop_id: 'shop-1',
+		first_name: 'Jane',
+		last_name: 'Smith',
+		email: 'jsmith@example.com',
+		phone_number: '+12025550199',
+		created_at: '2026-02-01T00:00:00Z',
+		is_archived: false,
+	},
+];
+
+const orders = [
+	{
+		shop_id: 'shop-1',
+		client_id: 'c1',
+		total_cents: 5000,
+		paid_amount_cents: 0,
+	},
+	{
+		shop_id: 'shop-1',
+		client_id: 'c2',
+		total_cents: 3000,
+		paid_amount_cents: 1000,
+	},
+];
+
+describe('client merge actions', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		(ensureUserAndShop as jest.Mock).mockResolvedValue({
+			user: { id: 'user-1' },
+			shop: { id: 'shop-1', owner_user_id: 'user-1' },
+		});
+	});
+
+	it('finds active clients with the same name', async () => {
+		makeSupabase({ clients });
+
+		const result = await getDuplicateClients();
+
+		expect(result.success).toBe(true);
+		expect(result.data).toHaveLength(1);
+		expect(result.data?.[0]?.reasons).toEqual(['name']);
+	});
+
+	it('previews what moves and the combined balance', async () => {
+		makeSupabase({
+			clients,
+			orders,
+			invoices: [
+				{
+					shop_id: 'shop-1',
+					id: 'i2',
+					client_id: 'c2',
+					invoice_number: 'INV-2',
+					order: { client_id: 'c2' },
+				},
+			],
+			payments: [{ id: 'p1' }, { id: 'p2' }],
+			appointments: [{ shop_id: 'shop-1', client_id: 'c2' }],
+		});
+
+		const result = await getClientMergePreview('c1', 'c2');
+
+		expect(result.data).toEqual({
+			moving: { orders: 1, invoices: 1, payments: 2, appointments: 1 },
+			balanceCents: { surviving: 5000, merged: 2000, combined: 7000 },
+			blockers: [],
+		});
+	});
+
+	it('merges through the database function', async () => {
+		const { rpc } = makeSupabase({ clients, orders });
+
+		const result = await mergeClients('c1', 'c2');
+
+		expect(result).toEqual({ success: true, data: { mergeId: 'merge-1' } });
+		expect(rpc).toHaveBeenCalledWith('merge_clients', {
+			p_shop_id: 'shop-1',
+			p_surviving_client_id: 'c1',
+			p_merged_client_id: 'c2',
+			p_user_id: 'user-1',
+		});
+	});
+
+	it('refuses when an invoice belongs to a different client than its order', async () => {
+		const { rpc } = makeSupabase({
+			clients,
+			orders,
+			invoices: [
+				{
+					shop_id: 'shop-1',
+					id: 'i2',
+					client_id: 'c2',
+					invoice_number: 'INV-2',
+					order: { client_id: 'c9' },
+				},
+			],
+		});
+
+		const result = await mergeClients('c1', 'c2');
+
+		expect(result.success).toBe(false);
+		expect(result.error).toContain('INV-2');
+		expect(rpc).not.toHaveBeenCalled();
+	});
+
+	it('refuses to keep an archived client', async () => {
+		const { rpc } = makeSupabase({
+			clients: [{ ...clients[0], is_archived: true }, clients[1]!],
+		});
+
+		const result = await mergeClients('c1', 'c2');
+
+		expect(result.success).toBe(false);
+		expect(rpc).not.toHaveBeenCalled();
+	});
+
+	it('passes on the database refusing the merge', async () => {
+		makeSupabase(
+			{ clients },
+			{
+				data: null,
+				error: { message: 'Merging would change the outstanding balance' },
+			}
+		);
+
+		expect(await mergeClients('c1', 'c2')).toEqual({
+			success: false,
+			error:
+				'Failed to merge clients: Merging would change the outstanding balance',
+		});
+	});
+
+	it('rejects merging a client into itself', async () => {
+		const { rpc } = makeSupabase({ clients });
+
+		expect((await mergeClients('c1', 'c1')).success).toBe(false);
+		expect(rpc).not.toHaveBeenCalled();
+	});
+});
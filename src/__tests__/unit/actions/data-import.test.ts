@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn(),
+}));
+
+import { importClients, importServices } from '@/lib/actions/data-import';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from '@/lib/auth/user-shop';
+
+type Row = Record<string, any>;
+
+function makeSupabase(tables: Record<string, Row[]>) {
+	const inserts: Row[] = [];
+
+	const from = jest.fn((table: string) => {
+		let inserting = false;
+		const chain: any = {
+			select: jest.fn(() => chain),
+			eq: jest.fn(() => chain),
+			order: jest.fn(() => chain),
+			range: jest.fn(() => chain),
+			insert: jest.fn((rows: Row[]) => {
+				inserting = true;
+				inserts.push({ table, rows });
+				return chain;
+			}),
+			then: (resolve: (value: any) => void) =>
+				resolve({ data: inserting ? null : tables[table] || [], error: null }),
+		};
+		return chain;
+	});
+
+	(createClient as jest.Mock).mockResolvedValue({ from });
+	return { inserts };
+}
+
+function signInAs(userId: string) {
+	(ensureUserAndShop as jest.Mock).mockResolvedValue({
+		user: { id: userId, role: 'seamstress' },
+		shop: { id: 'shop-1', owner_user_id: 'owner-1' },
+	});
+}
+
+const records = [
+	{
+		first_name: 'Jane',
+		last_name: 'Doe',
+		email: 'jane@example.com',
+		phone_number: '202-555-0143',
+	},
+	{
+		first_name: 'Ann',
+		last_name: 'Lee',
+		email: 'ann@example.com',
+		phone_number: '202-555-0199',
+	},
+	{ first_name: 'No', last_name: 'Email', email: '', phone_number: '' },
+];
+
+describe('importClients', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		signInAs('owner-1');
+	});
+
+	it('checks rows without saving on a dry run', async () => {
+		const { inserts } = makeSupabase({
+			clients: [{ email: 'ann@example.com', phone_number: '+12025550100' }],
+		});
+
+		const result = await importClients(records, { dryRun: true });
+
+		expect(result.success).toBe(true);
+		expect(result.data?.summary).toEqual({
+			ready: 1,
+			duplicate: 1,
+			invalid: 1,
+		});
+		expect(result.data?.imported).toBe(0);
+		expect(inserts).toHaveLength(0);
+	});
+
+	it('imports only the rows that passed', async () => {
+		const { inserts } = makeSupabase({
+			clients: [{ email: 'ann@example.com', phone_number: '+12025550100' }],
+		});
+
+		const result = await importClients(records, { dryRun: false });
+
+		expect(result.data?.imported).toBe(1);
+		expect(inserts).toEqual([
+			{
+				table: 'clients',
+				rows: [
+					expect.objectContaining({
+						shop_id: 'shop-1',
+						email: 'jane@example.com',
+						phone_number: '+12025550143',
+					}),
+				],
+			},
+		]);
+	});
+
+	it('rejects an empty file', async () => {
+		makeSupabase({});
+
+		expect(await importClients([], { dryRun: true })).toEqual({
+			success: false,
+			error: 'The file has no rows to import',
+		});
+	});
+});
+
+describe('importServices', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('is limited to people who can change service pricing', async () => {
+		signInAs('staff-1');
+		const { inserts } = makeSupabase({ services: [] });
+
+		const result = await importServices([{ name: 'Hem', price: '20' }], {
+			dryRun: false,
+		});
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Only the shop owner can change service pricing',
+		});
+		expect(inserts).toHaveLength(0);
+	});
+});
@@ -0,0 +1,258 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn().mockResolvedValue({
+		user: { id: 'user-1' },
+		shop: { id: 'shop-1', owner_user_id: 'user-1' },
+	}),
+}));
+
+import {
+	overrideDepositRequirement,
+	updateDepositSettings,
+} from '@/lib/actions/deposits';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from '@/lib/auth/user-shop';
+
+type Row = Record<string, any>;
+
+const ORDER_ID = '11111111-1111-4111-8111-111111111111';
+const SERVICE_ID = '22222222-2222-4222-8222-222222222222';
+
+function makeSupabase(tables: Record<string, () => any>) {
+	const writes: Row[] = [];
+
+	const from = jest.fn((table: string) => {
+		let write: Row | null = null;
+		const result = () =>
+			write ? { data: null, error: null } : (tables[table]?.() ?? {});
+		const chain: any = {
+			select: jest.fn(() => chain),
+			eq: jest.fn((column: string, value: unknown) => {
+				write?.filters.push(['eq', column, value]);
+				return chain;
+			}),
+			not: jest.fn((column: string, op: string, value: unknown) => {
+				write?.filters.push(['not', column, op, value]);
+				return chain;
+			}),
+			contains: jest.fn(() => chain),
+			limit: jest.fn(() => chain),
+			single: jest.fn(() => Promise.resolve(result())),
+			insert: jest.fn((row: Row) => {
+				write = { table, op: 'insert', row, filters: [] };
+				writes.push(write);
+				return chain;
+			}),
+			update: jest.fn((row: Row) => {
+				write = { table, op: 'update', row, filters: [] };
+				writes.push(write);
+				return chain;
+			}),
+			upsert: jest.fn((row: Row, options: Row) => {
+				write = { table, op: 'upsert', row, options, filters: [] };
+				writes.push(write);
+				return chain;
+			}),
+			then: (resolve: (value: any) => void) => resolve(result()),
+		};
+		return chain;
+	});
+
+	(createClient as jest.Mock).mockResolvedValue({ from });
+	return { from, writes };
+}
+
+describe('overrideDepositRequirement', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	const orderWithDeposit = (paidCents: number, overridden = false) =>
+		makeSupabase({
+			orders: () => ({
+				data: {
+					id: ORDER_ID,
+					order_number: 'ORD-1',
+					deposit_amount_cents: 5000,
+				},
+				error: null,
+			}),
+			invoices: () => ({
+				data: [
+					{
+						id: 'inv-1',
+						payments: paidCents
+							? [
+									{
+										id: 'pay-1',
+										amount_cents: paidCents,
+										refunded_amount_cents: 0,
+										status: 'completed',
+									},
+								]
+							: [],
+					},
+				],
+				error: null,
+			}),
+			payment_audit_log: () => ({
+				data: overridden ? [{ id: 'audit-1' }] : [],
+				error: null,
+			}),
+		});
+
+	it('records the override in the payment audit log', async () => {
+		const { writes } = orderWithDeposit(2000);
+
+		const result = await overrideDepositRequirement({
+			orderId: ORDER_ID,
+			reason: 'Regular client, paying at pickup',
+		});
+
+		expect(result).toEqual({ success: true });
+		expect(writes).toHaveLength(1);
+		expect(writes[0]).toMatchObject({
+			table: 'payment_audit_log',
+			op: 'insert',
+			row: {
+				action: 'deposit_override',
+				amount_cents: 3000,
+				performed_by: 'user-1',
+				reason: 'Regular client, paying at pickup',
+				metadata: {
+					order_id: ORDER_ID,
+					order_number: 'ORD-1',
+					shop_id: 'shop-1',
+					required_cents: 5000,
+					paid_cents: 2000,
+				},
+			},
+		});
+	});
+
+	it('requires a reason', async () => {
+		const { from } = orderWithDeposit(0);
+
+		const result = await overrideDepositRequirement({
+			orderId: ORDER_ID,
+			reason: '   ',
+		});
+
+		expect(result).toEqual({ success: false, error: 'A reason is required' });
+		expect(from).not.toHaveBeenCalled();
+	});
+
+	it('does not log anything when the deposit is already paid', async () => {
+		const { writes } = orderWithDeposit(5000);
+
+		const result = await overrideDepositRequirement({
+			orderId: ORDER_ID,
+			reason: 'Paid in cash',
+		});
+
+		expect(result).toEqual({ success: true });
+		expect(writes).toHaveLength(0);
+	});
+
+	it('only lets the owner waive a deposit', async () => {
+		(ensureUserAndShop as jest.Mock).mockResolvedValueOnce({
+			user: { id: 'user-2', role: 'seamstress' },
+			shop: { id: 'shop-1', owner_user_id: 'user-1' },
+		});
+		const { writes } = orderWithDeposit(0);
+
+		const result = await overrideDepositRequirement({
+			orderId: ORDER_ID,
+			reason: 'Regular client',
+		});
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Only the shop owner can waive a deposit',
+		});
+		expect(writes).toHaveLength(0);
+	});
+
+	it('does not log a second override for the same order', async () => {
+		const { writes } = orderWithDeposit(0, true);
+
+		await overrideDepositRequirement({ orderId: ORDER_ID, reason: 'Again' });
+
+		expect(writes).toHaveLength(0);
+	});
+});
+
+describe('updateDepositSettings', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('saves the shop policy and service overrides', async () => {
+		const { writes } = makeSupabase({});
+
+		const result = await updateDepositSettings({
+			type: 'percentage',
+			percent: 25,
+			serviceOverrides: [
+				{ serviceId: SERVICE_ID, type: 'fixed', fixedCents: 10000 },
+			],
+		});
+
+		expect(result).toEqual({ success: true });
+		expect(writes[0]).toMatchObject({
+			table: 'shop_settings',
+			op: 'upsert',
+			row: {
+				shop_id: 'shop-1',
+				deposit_type: 'percentage',
+				deposit_fixed_cents: 0,
+				deposit_percent: 25,
+			},
+			options: { onConflict: 'shop_id' },
+		});
+		// Services no longer in the list go back to the shop policy
+		expect(writes[1]).toMatchObject({
+			table: 'services',
+			row: { deposit_type: null },
+		});
+		expect(writes[1]!.filters).toContainEqual([
+			'not',
+			'id',
+			'in',
+			`(${SERVICE_ID})`,
+		]);
+		expect(writes[2]).toMatchObject({
+			table: 'services',
+			row: {
+				deposit_type: 'fixed',
+				deposit_fixed_cents: 10000,
+				deposit_percent: 0,
+			},
+			filters: [
+				['eq', 'id', SERVICE_ID],
+				['eq', 'shop_id', 'shop-1'],
+			],
+		});
+	});
+
+	it('rejects percentages over 100', async () => {
+		const { from } = makeSupabase({});
+
+		const result = await updateDepositSettings({
+			type: 'percentage',
+			percent: 150,
+		});
+
+		expect(result.success).toBe(false);
+		expect(from).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,361 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn().mockResolvedValue({
+		user: { id: 'user-1' },
+		shop: { id: 'shop-1', owner_user_id: 'user-1', tax_percent: 8 },
+	}),
+}));
+
+import {
+	applyDiscountToOrder,
+	createDiscount,
+	removeOrderDiscount,
+} from '@/lib/actions/discounts';
+import { createClient } from '@/lib/supabase/server';
+
+type Row = Record<string, any>;
+
+const ORDER_ID = '11111111-1111-4111-8111-111111111111';
+const HEM_ID = '22222222-2222-4222-8222-222222222222';
+
+function makeSupabase(
+	tables: Record<string, () => any>,
+	rpcResults: Record<string, any> = {},
+	failingWrites: string[] = []
+) {
+	const writes: Row[] = [];
+
+	const from = jest.fn((table: string) => {
+		let write: Row | null = null;
+		const result = () =>
+			write && write.op !== 'insert'
+				? {
+						data: null,
+						error: failingWrites.includes(table)
+							? { message: 'write failed' }
+							: null,
+					}
+				: (tables[table]?.() ?? {});
+		const chain: any = {
+			select: jest.fn(() => chain),
+			eq: jest.fn(() => chain),
+			order: jest.fn(() => chain),
+			limit: jest.fn(() => chain),
+			single: jest.fn(() => Promise.resolve(result())),
+			maybeSingle: jest.fn(() => Promise.resolve(result())),
+			insert: jest.fn((row: Row) => {
+				write = { table, op: 'insert', row };
+				writes.push(write);
+				return chain;
+			}),
+			update: jest.fn((row: Row) => {
+				write = { table, op: 'update', row };
+				writes.push(write);
+				return chain;
+			}),
+			then: (resolve: (value: any) => void) => resolve(result()),
+		};
+		return chain;
+	});
+
+	const rpc = jest.fn((name: string) =>
+		Promise.resolve(rpcResults[name] ?? { data: null, error: null })
+	);
+
+	(createClient as jest.Mock).mockResolvedValue({ from, rpc });
+	return { from, rpc, writes };
+}
+
+const discountRow = (overrides: Row = {}) => ({
+	id: 'discount-1',
+	code: 'HEM20',
+	description: null,
+	discount_type: 'percentage',
+	percent: 20,
+	amount_cents: 0,
+	service_id: HEM_ID,
+	expires_at: null,
+	usage_limit: 10,
+	times_used: 2,
+	is_active: true,
+	service: { name: 'Hemming' },
+	...overrides,
+});
+
+describe('applyDiscountToOrder', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	const orderWithDiscount = (
+		discount: Row,
+		redeemed = true,
+		{
+			payments = [],
+			failingWrites = [],
+		}: { payments?: Row[]; failingWrites?: string[] } = {}
+	) =>
+		makeSupabase(
+			{
+				orders: () => ({
+					data: { id: ORDER_ID, status: 'in_progress', discount_id: null },
+					error: null,
+				}),
+				discounts: () => ({ data: discount, error: null }),
+				garment_services: () => ({
+					data: [
+						{
+							service_id: HEM_ID,
+							quantity: 2,
+							unit_price_cents: 2500,
+							is_removed: false,
+						},
+						{
+							service_id: 'other',
+							quantity: 1,
+							unit_price_cents: 5000,
+							is_removed: false,
+						},
+						{
+							service_id: HEM_ID,
+							quantity: 1,
+							unit_price_cents: 9900,
+							is_removed: true,
+						},
+					],
+					error: null,
+				}),
+				invoices: () => ({
+					data: {
+						id: 'inv-1',
+						line_items: [
+							{
+								name: 'Hemming',
+								quantity: 2,
+								unit_price_cents: 2500,
+								line_total_cents: 5000,
+							},
+						],
+					},
+					error: null,
+				}),
+				payments: () => ({ data: payments, error: null }),
+			},
+			{ redeem_discount: { data: redeemed, error: null } },
+			failingWrites
+		);
+
+	it('recalculates tax on the discounted amount and adds an invoice line', async () => {
+		const { rpc, writes } = orderWithDiscount(discountRow());
+
+		const result = await applyDiscountToOrder({
+			orderId: ORDER_ID,
+			code: 'hem20',
+		});
+
+		// 20% of the active hemming lines only
+		expect(result).toEqual({ success: true, discountCents: 1000 });
+		expect(rpc).toHaveBeenCalledWith('redeem_discount', {
+			p_discount_id: 'discount-1',
+		});
+		expect(writes[0]).toMatchObject({
+			table: 'orders',
+			op: 'update',
+			row: {
+				discount_cents: 1000,
+				discount_id: 'discount-1',
+				discount_code: 'HEM20',
+				discount_reason: '20% off Hemming',
+				subtotal_cents: 10000,
+				tax_cents: 720,
+				total_cents: 9720,
+			},
+		});
+		expect(writes[1]).toMatchObject({
+			table: 'invoices',
+			op: 'update',
+			row: { amount_cents: 9720 },
+		});
+		expect(writes[1]!.row.line_items).toContainEqual({
+			type: 'discount',
+			name: 'Discount (HEM20)',
+			description: '20% off Hemming',
+			quantity: 1,
+			unit_price_cents: -1000,
+			line_total_cents: -1000,
+		});
+	});
+
+	it('rejects an expired code without redeeming it', async () => {
+		const { rpc, writes } = orderWithDiscount(
+			discountRow({ expires_at: '2020-01-01T00:00:00Z' })
+		);
+
+		const result = await applyDiscountToOrder({
+			orderId: ORDER_ID,
+			code: 'HEM20',
+		});
+
+		expect(result).toEqual({ success: false, error: 'HEM20 has expired' });
+		expect(rpc).not.toHaveBeenCalled();
+		expect(writes).toHaveLength(0);
+	});
+
+	it('refuses a discount that would leave the order overpaid', async () => {
+		const { rpc, writes } = orderWithDiscount(discountRow(), true, {
+			payments: [
+				{
+					id: 'pay-1',
+					amount_cents: 10720,
+					refunded_amount_cents: 0,
+					status: 'completed',
+					payment_type: 'stripe',
+				},
+			],
+		});
+
+		const result = await applyDiscountToOrder({
+			orderId: ORDER_ID,
+			code: 'HEM20',
+		});
+
+		expect(result.success).toBe(false);
+		expect(result.error).toMatch(/already been paid/);
+		expect(rpc).not.toHaveBeenCalled();
+		expect(writes).toHaveLength(0);
+	});
+
+	it('gives the use back when the order could not be saved', async () => {
+		const { rpc } = orderWithDiscount(discountRow(), true, {
+			failingWrites: ['orders'],
+		});
+
+		const result = await applyDiscountToOrder({
+			orderId: ORDER_ID,
+			code: 'HEM20',
+		});
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Failed to apply discount',
+		});
+		expect(rpc).toHaveBeenCalledWith('release_discount', {
+			p_discount_id: 'discount-1',
+		});
+	});
+
+	it('does not change the order when the usage limit was reached meanwhile', async () => {
+		const { writes } = orderWithDiscount(discountRow(), false);
+
+		const result = await applyDiscountToOrder({
+			orderId: ORDER_ID,
+			code: 'HEM20',
+		});
+
+		expect(result).toEqual({
+			success: false,
+			error: 'HEM20 can no longer be used',
+		});
+		expect(writes).toHaveLength(0);
+	});
+});
+
+describe('removeOrderDiscount', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	const orderWithCode = (failingWrites: string[] = []) =>
+		makeSupabase(
+			{
+				orders: () => ({
+					data: { id: ORDER_ID, discount_id: 'discount-1' },
+					error: null,
+				}),
+				garment_services: () => ({ data: [], error: null }),
+				invoices: () => ({ data: null, error: null }),
+			},
+			{},
+			failingWrites
+		);
+
+	it('gives the code its use back once the order is saved', async () => {
+		const { rpc } = orderWithCode();
+
+		const result = await removeOrderDiscount(ORDER_ID);
+
+		expect(result).toEqual({ success: true });
+		expect(rpc).toHaveBeenCalledWith('release_discount', {
+			p_discount_id: 'discount-1',
+		});
+	});
+
+	it('keeps the use when the order could not be saved', async () => {
+		const { rpc } = orderWithCode(['orders']);
+
+		const result = await removeOrderDiscount(ORDER_ID);
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Failed to remove discount',
+		});
+		expect(rpc).not.toHaveBeenCalledWith('release_discount', expect.anything());
+	});
+});
+
+describe('createDiscount', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('stores the code upper-case', async () => {
+		const { writes } = makeSupabase({
+			discounts: () => ({
+				data: discountRow({ code: 'SPRING10', service_id: null }),
+				error: null,
+			}),
+		});
+
+		const result = await createDiscount({
+			code: 'spring10',
+			type: 'fixed',
+			amountCents: 1000,
+		});
+
+		expect(result.success).toBe(true);
+		expect(writes[0]).toMatchObject({
+			table: 'discounts',
+			op: 'insert',
+			row: {
+				shop_id: 'shop-1',
+				code: 'SPRING10',
+				discount_type: 'fixed',
+				amount_cents: 1000,
+				percent: 0,
+				service_id: null,
+				usage_limit: null,
+			},
+		});
+	});
+
+	it('requires an amount', async () => {
+		const { from } = makeSupabase({});
+
+		const result = await createDiscount({ code: 'FREE', type: 'percentage' });
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Enter the discount amount',
+		});
+		expect(from).not.toHaveBeenCalled();
+	});
+});
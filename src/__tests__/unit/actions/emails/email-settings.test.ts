@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+
+const mockUpdateUserEmailSettings = jest.fn();
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+jest.mock('@clerk/nextjs/server', () => ({ auth: jest.fn() }));
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn().mockResolvedValue({}),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn(),
+}));
+
+jest.mock('@/lib/services/email/email-repository', () => ({
+	EmailRepository: jest.fn().mockImplementation(() => ({
+		updateUserEmailSettings: mockUpdateUserEmailSettings,
+	})),
+}));
+
+import { updateUserEmailSettings } from '@/lib/actions/emails/email-settings';
+import { ensureUserAndShop } from '@/lib/auth/user-shop';
+
+const SHOP = { id: 'shop-1', owner_user_id: 'user-1' };
+const SETTINGS = {
+	receive_appointment_notifications: false,
+	email_signature: 'Thanks!',
+	reply_to_email: 'owner@example.com',
+};
+
+describe('updateUserEmailSettings', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('only lets the owner change email settings', async () => {
+		(ensureUserAndShop as jest.Mock).mockResolvedValue({
+			user: { id: 'user-2', role: 'seamstress' },
+			shop: SHOP,
+		});
+
+		const result = await updateUserEmailSettings(SETTINGS);
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Only the shop owner can change shop settings',
+		});
+		expect(mockUpdateUserEmailSettings).not.toHaveBeenCalled();
+	});
+
+	it('saves the settings for the owner', async () => {
+		(ensureUserAndShop as jest.Mock).mockResolvedValue({
+			user: { id: 'user-1' },
+			shop: SHOP,
+		});
+
+		const result = await updateUserEmailSettings(SETTINGS);
+
+		expect(result).toEqual({ success: true });
+		expect(mockUpdateUserEmailSettings).toHaveBeenCalledWith(SETTINGS);
+	});
+});
@@ -0,0 +1,339 @@
+/**
+ * @jest-environment node
+ */
+
+const mockSendGarmentReadyEmail = jest.fn();
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn().mockResolvedValue({
+		user: { id: 'user-1' },
+		shop: { id: 'shop-1', name: 'Stitch Shop', business_name: null },
+	}),
+}));
+
+jest.mock('@/lib/actions/invoice-sync', () => ({
+	getInvoiceBalance: jest.fn(),
+}));
+
+jest.mock('@/lib/services/email/email-service', () => ({
+	EmailService: jest.fn().mockImplementation(() => ({
+		sendGarmentReadyEmail: mockSendGarmentReadyEmail,
+	})),
+}));
+
+import { sendGarmentReadyNotification } from '@/lib/actions/emails/garment-ready-emails';
+import { createClient } from '@/lib/supabase/server';
+import { getInvoiceBalance } from '@/lib/actions/invoice-sync';
+
+type Row = Record<string, any>;
+
+const client = {
+	id: 'client-1',
+	first_name: 'Jane',
+	last_name: 'Doe',
+	email: 'jane@example.com',
+	phone_number: '2127365000',
+	accept_email: true,
+	accept_sms: false,
+};
+
+function makeSupabase({
+	garment,
+	garments,
+	paymentLinks = [],
+	statusTokens = [],
+	readyLogs = [],
+}: {
+	garment: Row;
+	garments: Row[];
+	paymentLinks?: Row[];
+	statusTokens?: Row[];
+	readyLogs?: Row[];
+}) {
+	const insertedLinks: Row[] = [];
+	const insertedStatusTokens: Row[] = [];
+
+	const chain = (result: () => any, inserted: Row[] = insertedLinks) => {
+		const builder: any = {
+			select: jest.fn(() => builder),
+			eq: jest.fn(() => builder),
+			is: jest.fn(() => builder),
+			neq: jest.fn(() => builder),
+			contains: jest.fn(() => builder),
+			gt: jest.fn(() => builder),
+			order: jest.fn(() => builder),
+			limit: jest.fn(() => Promise.resolve(result())),
+			single: jest.fn(() => Promise.resolve(result())),
+			insert: jest.fn((row: Row) => {
+				inserted.push(row);
+				return Promise.resolve({ error: null });
+			}),
+		};
+		return builder;
+	};
+
+	const supabase = {
+		from: jest.fn((table: string) => {
+			if (table === 'garments') {
+				return chain(() => ({ data: garment, error: null }));
+			}
+			if (table === 'orders') {
+				return chain(() => ({
+					data: {
+						id: 'order-1',
+						order_number: 'ORD-1042',
+						client,
+						garments,
+					},
+					error: null,
+				}));
+			}
+			if (table === 'email_logs') {
+				return chain(() => ({ data: readyLogs, error: null }));
+			}
+			if (table === 'order_status_tokens') {
+				return chain(
+					() => ({ data: statusTokens, error: null }),
+					insertedStatusTokens
+				);
+			}
+			return chain(() => ({ data: paymentLinks, error: null }));
+		}),
+	};
+
+	return { supabase, insertedLinks, insertedStatusTokens };
+}
+
+describe('sendGarmentReadyNotification', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		mockSendGarmentReadyEmail.mockResolvedValue({
+			success: true,
+			logId: 'log-1',
+		});
+		(getInvoiceBalance as jest.Mock).mockResolvedValue({
+			success: true,
+			balance: { invoiceId: 'invoice-1', balanceDue: 0 },
+		});
+	});
+
+	it('notifies about the single garment while others are still in progress', async () => {
+		const garment = {
+			id: 'g-1',
+			name: 'Wedding Dress',
+			stage: 'Ready For Pickup',
+			order_id: 'order-1',
+		};
+		const { supabase } = makeSupabase({
+			garment,
+			garments: [garment, { id: 'g-2', name: 'Suit', stage: 'In Progress' }],
+		});
+		(createClient as jest.Mock).mockResolvedValue(supabase);
+
+		const result = await sendGarmentReadyNotification('g-1');
+
+		expect(result).toEqual({
+			success: true,
+			data: { scope: 'garment', logId: 'log-1' },
+		});
+		expect(mockSendGarmentReadyEmail).toHaveBeenCalledWith(
+			expect.objectContaining({
+				scope: 'garment',
+				orderId: 'order-1',
+				garments: [{ id: 'g-1', name: 'Wedding Dress' }],
+				balanceDue: undefined,
+				paymentLink: undefined,
+			})
+		);
+	});
+
+	it('sends one order-level notification once every garment is ready', async () => {
+		const garment = {
+			id: 'g-2',
+			name: 'Suit',
+			stage: 'Ready For Pickup',
+			order_id: 'order-1',
+		};
+		const { supabase } = makeSupabase({
+			garment,
+			garments: [
+				{ id: 'g-1', name: 'Wedding Dress', stage: 'Ready For Pickup' },
+				garment,
+				{ id: 'g-3', name: 'Scarf', stage: 'Done' },
+			],
+		});
+		(createClient as jest.Mock).mockResolvedValue(supabase);
+
+		await sendGarmentReadyNotification('g-2');
+
+		expect(mockSendGarmentReadyEmail).toHaveBeenCalledWith(
+			expect.objectContaining({
+				scope: 'order',
+				garments: [
+					{ id: 'g-1', name: 'Wedding Dress' },
+					{ id: 'g-2', name: 'Suit' },
+				],
+			})
+		);
+	});
+
+	it('only announces the last garment when earlier ones had their own notice', async () => {
+		const garment = {
+			id: 'g-2',
+			name: 'Suit',
+			stage: 'Ready For Pickup',
+			order_id: 'order-1',
+		};
+		const { supabase } = makeSupabase({
+			garment,
+			garments: [
+				{ id: 'g-1', name: 'Wedding Dress', stage: 'Ready For Pickup' },
+				garment,
+			],
+			readyLogs: [{ id: 'log-g-1' }],
+		});
+		(createClient as jest.Mock).mockResolvedValue(supabase);
+
+		const result = await sendGarmentReadyNotification('g-2');
+
+		expect(result.data?.scope).toBe('garment');
+		expect(mockSendGarmentReadyEmail).toHaveBeenCalledTimes(1);
+		expect(mockSendGarmentReadyEmail).toHaveBeenCalledWith(
+			expect.objectContaining({
+				scope: 'garment',
+				garments: [{ id: 'g-2', name: 'Suit' }],
+			})
+		);
+	});
+
+	it('includes the balance and reuses an active payment link', async () => {
+		(getInvoiceBalance as jest.Mock).mockResolvedValue({
+			success: true,
+			balance: { invoiceId: 'invoice-1', balanceDue: 8500 },
+		});
+		const garment = {
+			id: 'g-1',
+			name: 'Wedding Dress',
+			stage: 'Ready For Pickup',
+			order_id: 'order-1',
+		};
+		const { supabase, insertedLinks } = makeSupabase({
+			garment,
+			garments: [garment],
+			paymentLinks: [{ url: 'https://hemsy.app/pay/existing' }],
+		});
+		(createClient as jest.Mock).mockResolvedValue(supabase);
+
+		await sendGarmentReadyNotification('g-1');
+
+		expect(mockSendGarmentReadyEmail).toHaveBeenCalledWith(
+			expect.objectContaining({
+				balanceDue: '$85.00',
+				paymentLink: 'https://hemsy.app/pay/existing',
+			})
+		);
+		expect(insertedLinks).toHaveLength(0);
+	});
+
+	it('creates a payment link when the invoice has none', async () => {
+		(getInvoiceBalance as jest.Mock).mockResolvedValue({
+			success: true,
+			balance: { invoiceId: 'invoice-1', balanceDue: 2000 },
+		});
+		const garment = {
+			id: 'g-1',
+			name: 'Wedding Dress',
+			stage: 'Ready For Pickup',
+			order_id: 'order-1',
+		};
+		const { supabase, insertedLinks } = makeSupabase({
+			garment,
+			garments: [garment],
+		});
+		(createClient as jest.Mock).mockResolvedValue(supabase);
+
+		await sendGarmentReadyNotification('g-1');
+
+		expect(insertedLinks).toHaveLength(1);
+		expect(insertedLinks[0]).toMatchObject({
+			invoice_id: 'invoice-1',
+			status: 'active',
+		});
+		expect(mockSendGarmentReadyEmail).toHaveBeenCalledWith(
+			expect.objectContaining({
+				balanceDue: '$20.00',
+				paymentLink: insertedLinks[0]!.url,
+			})
+		);
+	});
+
+	it('links to the order status page, reusing an active status token', async () => {
+		const garment = {
+			id: 'g-1',
+			name: 'Wedding Dress',
+			stage: 'Ready For Pickup',
+			order_id: 'order-1',
+		};
+		const { supabase, insertedStatusTokens } = makeSupabase({
+			garment,
+			garments: [garment],
+			statusTokens: [{ token: 'a'.repeat(64) }],
+		});
+		(createClient as jest.Mock).mockResolvedValue(supabase);
+
+		await sendGarmentReadyNotification('g-1');
+
+		expect(insertedStatusTokens).toHaveLength(0);
+		expect(mockSendGarmentReadyEmail).toHaveBeenCalledWith(
+			expect.objectContaining({
+				orderStatusLink: expect.stringMatching(
+					new RegExp(`/status/${'a'.repeat(64)}$`)
+				),
+			})
+		);
+	});
+
+	it('creates an order status token when the order has none', async () => {
+		const garment = {
+			id: 'g-1',
+			name: 'Wedding Dress',
+			stage: 'Ready For Pickup',
+			order_id: 'order-1',
+		};
+		const { supabase, insertedStatusTokens } = makeSupabase({
+			garment,
+			garments: [garment],
+		});
+		(createClient as jest.Mock).mockResolvedValue(supabase);
+
+		await sendGarmentReadyNotification('g-1');
+
+		expect(insertedStatusTokens).toHaveLength(1);
+		expect(insertedStatusTokens[0]).toMatchObject({
+			order_id: 'order-1',
+			shop_id: 'shop-1',
+			created_by: 'user-1',
+		});
+		expect(insertedStatusTokens[0]!.token).toMatch(/^[a-f0-9]{64}$/);
+	});
+
+	it('does nothing for garments that are not ready', async () => {
+		const garment = {
+			id: 'g-1',
+			name: 'Wedding Dress',
+			stage: 'In Progress',
+			order_id: 'order-1',
+		};
+		const { supabase } = makeSupabase({ garment, garments: [garment] });
+		(createClient as jest.Mock).mockResolvedValue(supabase);
+
+		const result = await sendGarmentReadyNotification('g-1');
+
+		expect(result.success).toBe(false);
+		expect(mockSendGarmentReadyEmail).not.toHaveBeenCalled();
+	});
+});
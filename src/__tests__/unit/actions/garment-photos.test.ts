@@ -0,0 +1,229 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn(),
+}));
+
+import {
+	addGarmentPhoto,
+	removeGarmentPhoto,
+	reorderGarmentPhotos,
+} from '@/lib/actions/garment-photos';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from '@/lib/auth/user-shop';
+
+type Row = Record<string, any>;
+
+const GARMENT_ID = '11111111-1111-4111-8111-111111111111';
+const PHOTO_ID = '22222222-2222-4222-8222-222222222222';
+const OTHER_PHOTO_ID = '33333333-3333-4333-8333-333333333333';
+
+const shopGarment = { id: GARMENT_ID, orders: { shop_id: 'shop-1' } };
+
+function photoRow(overrides: Row = {}) {
+	return {
+		id: PHOTO_ID,
+		garment_id: GARMENT_ID,
+		image_cloud_id: 'garments/one',
+		photo_url: 'https://res.cloudinary.com/demo/garments/one.jpg',
+		tag: 'before',
+		caption: null,
+		position: 0,
+		is_cover: false,
+		taken_at: '2026-10-19T12:00:00Z',
+		...overrides,
+	};
+}
+
+/**
+ * Selects on a table return its responses in order. Writes are recorded.
+ */
+function makeSupabase(responses: Record<string, any[]>) {
+	const writes: Row[] = [];
+
+	const from = jest.fn((table: string) => {
+		let op = 'select';
+		let written: Row | null = null;
+		const filters: Row = {};
+		const result = () => {
+			if (op === 'insert') return { data: written, error: null };
+			if (op !== 'select') return { data: null, error: null };
+			const queue = responses[table] || [];
+			return { data: queue.length ? queue.shift() : null, error: null };
+		};
+		const write = (kind: string, row: Row | null) => {
+			op = kind;
+			written = row && { ...row };
+			writes.push({ table, op: kind, row, filters });
+			return chain;
+		};
+		const chain: any = {
+			select: jest.fn(() => chain),
+			eq: jest.fn((column: string, value: unknown) => {
+				filters[column] = value;
+				return chain;
+			}),
+			order: jest.fn(() => chain),
+			limit: jest.fn(() => chain),
+			insert: jest.fn((row: Row) =>
+				write('insert', {
+					id: PHOTO_ID,
+					is_cover: false,
+					taken_at: '2026-10-19T12:00:00Z',
+					...row,
+				})
+			),
+			update: jest.fn((row: Row) => write('update', row)),
+			delete: jest.fn(() => write('delete', null)),
+			single: jest.fn(() => Promise.resolve(result())),
+			maybeSingle: jest.fn(() => Promise.resolve(result())),
+			then: (resolve: (value: any) => void) => resolve(result()),
+		};
+		return chain;
+	});
+
+	(createClient as jest.Mock).mockResolvedValue({ from });
+	return { writes };
+}
+
+describe('garment photos', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		(ensureUserAndShop as jest.Mock).mockResolvedValue({
+			user: { id: 'user-1' },
+			shop: { id: 'shop-1' },
+		});
+	});
+
+	it("makes a garment's first photo its cover", async () => {
+		const { writes } = makeSupabase({
+			garments: [shopGarment],
+			garment_photos: [[]],
+		});
+
+		const result = await addGarmentPhoto({
+			garmentId: GARMENT_ID,
+			imageCloudId: 'garments/one',
+			photoUrl: 'https://res.cloudinary.com/demo/garments/one.jpg',
+			tag: 'fitting',
+			caption: 'Pinned hem',
+		});
+
+		expect(result.success).toBe(true);
+		expect(result.data).toMatchObject({ tag: 'fitting', isCover: true });
+		expect(writes).toContainEqual(
+			expect.objectContaining({
+				table: 'garments',
+				op: 'update',
+				row: expect.objectContaining({
+					image_cloud_id: 'garments/one',
+					photo_url: 'https://res.cloudinary.com/demo/garments/one.jpg',
+				}),
+			})
+		);
+		expect(writes).toContainEqual(
+			expect.objectContaining({
+				table: 'garment_history',
+				row: expect.objectContaining({
+					field_name: 'photos',
+					change_type: 'photo_added',
+					new_value: {
+						tag: 'During fitting',
+						caption: 'Pinned hem',
+						image_cloud_id: 'garments/one',
+					},
+				}),
+			})
+		);
+	});
+
+	it('adds later photos after the others without changing the cover', async () => {
+		const { writes } = makeSupabase({
+			garments: [shopGarment],
+			garment_photos: [
+				[
+					{ position: 0, is_cover: true },
+					{ position: 3, is_cover: false },
+				],
+			],
+		});
+
+		const result = await addGarmentPhoto({
+			garmentId: GARMENT_ID,
+			imageCloudId: 'garments/two',
+			photoUrl: 'https://res.cloudinary.com/demo/garments/two.jpg',
+		});
+
+		expect(result.data).toMatchObject({ position: 4, isCover: false });
+		expect(writes.some((w) => w.table === 'garments')).toBe(false);
+	});
+
+	it("won't add photos to another shop's garment", async () => {
+		const { writes } = makeSupabase({
+			garments: [{ id: GARMENT_ID, orders: { shop_id: 'shop-2' } }],
+		});
+
+		const result = await addGarmentPhoto({
+			garmentId: GARMENT_ID,
+			imageCloudId: 'garments/one',
+			photoUrl: 'https://res.cloudinary.com/demo/garments/one.jpg',
+		});
+
+		expect(result).toEqual({ success: false, error: 'Garment not found' });
+		expect(writes).toHaveLength(0);
+	});
+
+	it('hands the cover to the next photo when the cover is removed', async () => {
+		const next = photoRow({
+			id: OTHER_PHOTO_ID,
+			image_cloud_id: 'garments/two',
+			photo_url: 'https://res.cloudinary.com/demo/garments/two.jpg',
+			position: 1,
+		});
+		const { writes } = makeSupabase({
+			garments: [shopGarment],
+			garment_photos: [photoRow({ is_cover: true }), next],
+		});
+
+		const result = await removeGarmentPhoto(PHOTO_ID);
+
+		expect(result.success).toBe(true);
+		expect(result.cover).toMatchObject({
+			id: OTHER_PHOTO_ID,
+			imageCloudId: 'garments/two',
+			isCover: true,
+		});
+		expect(writes).toContainEqual(
+			expect.objectContaining({
+				table: 'garments',
+				row: expect.objectContaining({ image_cloud_id: 'garments/two' }),
+			})
+		);
+		expect(writes).toContainEqual(
+			expect.objectContaining({
+				table: 'garment_history',
+				row: expect.objectContaining({ change_type: 'photo_removed' }),
+			})
+		);
+	});
+
+	it("rejects an order that doesn't match the garment's photos", async () => {
+		const { writes } = makeSupabase({
+			garments: [shopGarment],
+			garment_photos: [[{ id: PHOTO_ID }, { id: OTHER_PHOTO_ID }]],
+		});
+
+		const result = await reorderGarmentPhotos(GARMENT_ID, [PHOTO_ID]);
+
+		expect(result.success).toBe(false);
+		expect(writes).toHaveLength(0);
+	});
+});
@@ -0,0 +1,166 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn(),
+}));
+
+import {
+	createClientMeasurement,
+	createMeasurementField,
+} from '@/lib/actions/measurements';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from '@/lib/auth/user-shop';
+
+type Row = Record<string, any>;
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const FIELD_ID = '22222222-2222-4222-8222-222222222222';
+
+function makeSupabase(tables: Record<string, any>) {
+	const inserts: Row[] = [];
+
+	const from = jest.fn((table: string) => {
+		let inserted: Row | null = null;
+		const result = () => ({
+			data: inserted ?? tables[table] ?? null,
+			error: null,
+		});
+		const chain: any = {
+			select: jest.fn(() => chain),
+			eq: jest.fn(() => chain),
+			order: jest.fn(() => chain),
+			insert: jest.fn((row: Row) => {
+				inserted = {
+					id: 'record-1',
+					created_at: '2026-10-19T12:00:00Z',
+					...row,
+				};
+				inserts.push({ table, row });
+				return chain;
+			}),
+			single: jest.fn(() => Promise.resolve(result())),
+			maybeSingle: jest.fn(() => Promise.resolve(result())),
+			then: (resolve: (value: any) => void) => resolve(result()),
+		};
+		return chain;
+	});
+
+	(createClient as jest.Mock).mockResolvedValue({ from });
+	return { from, inserts };
+}
+
+function signInAs(userId: string) {
+	(ensureUserAndShop as jest.Mock).mockResolvedValue({
+		user: { id: userId, role: 'seamstress' },
+		shop: { id: 'shop-1', owner_user_id: 'owner-1' },
+	});
+}
+
+describe('client measurements', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		signInAs('owner-1');
+	});
+
+	it("records values for the shop's fields only", async () => {
+		const { inserts } = makeSupabase({
+			clients: { id: CLIENT_ID },
+			measurement_fields: [{ id: FIELD_ID, label: 'Wrist' }],
+		});
+
+		const result = await createClientMeasurement({
+			clientId: CLIENT_ID,
+			measuredOn: '2026-10-19',
+			unit: 'cm',
+			values: { waist: 76, [FIELD_ID]: 16, unknown: 3 },
+		});
+
+		expect(result.success).toBe(true);
+		expect(inserts).toEqual([
+			{
+				table: 'client_measurements',
+				row: expect.objectContaining({
+					shop_id: 'shop-1',
+					client_id: CLIENT_ID,
+					unit: 'cm',
+					values: { waist: 76, [FIELD_ID]: 16 },
+					created_by: 'owner-1',
+				}),
+			},
+		]);
+		expect(result.data).toMatchObject({
+			clientId: CLIENT_ID,
+			measuredOn: '2026-10-19',
+			values: { waist: 76, [FIELD_ID]: 16 },
+		});
+	});
+
+	it("won't record measurements for another shop's client", async () => {
+		const { inserts } = makeSupabase({ clients: null });
+
+		const result = await createClientMeasurement({
+			clientId: CLIENT_ID,
+			measuredOn: '2026-10-19',
+			unit: 'in',
+			values: { waist: 30 },
+		});
+
+		expect(result).toEqual({ success: false, error: 'Client not found' });
+		expect(inserts).toHaveLength(0);
+	});
+
+	it('rejects negative measurements', async () => {
+		makeSupabase({});
+
+		const result = await createClientMeasurement({
+			clientId: CLIENT_ID,
+			measuredOn: '2026-10-19',
+			unit: 'in',
+			values: { waist: -2 },
+		});
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Measurements must be greater than zero',
+		});
+	});
+});
+
+describe('measurement fields', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('lets the owner add a field', async () => {
+		signInAs('owner-1');
+		makeSupabase({});
+
+		const result = await createMeasurementField('  Wrist ');
+
+		expect(result).toEqual({
+			success: true,
+			data: { key: 'record-1', label: 'Wrist', custom: true },
+		});
+	});
+
+	it("doesn't let staff add fields", async () => {
+		signInAs('staff-1');
+		const { inserts } = makeSupabase({});
+
+		const result = await createMeasurementField('Wrist');
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Only the shop owner can change shop settings',
+		});
+		expect(inserts).toHaveLength(0);
+	});
+});
@@ -0,0 +1,253 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('next/navigation', () => ({
+	notFound: jest.fn(() => {
+		throw new Error('NEXT_NOT_FOUND');
+	}),
+	redirect: jest.fn((url: string) => {
+		throw new Error(`NEXT_REDIRECT:${url}`);
+	}),
+}));
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/admin', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn().mockResolvedValue({
+		user: { id: 'user-1' },
+		shop: { id: 'shop-1', name: 'Stitch Shop' },
+	}),
+}));
+
+import {
+	getOrderStatusByToken,
+	getOrderStatusLink,
+	payOrderStatusBalance,
+	revokeOrderStatusLinks,
+} from '@/lib/actions/order-status';
+import { createClient } from '@/lib/supabase/server';
+import { createClient as createAdminClient } from '@/lib/supabase/admin';
+
+type Row = Record<string, any>;
+
+const TOKEN = 'b'.repeat(64);
+
+const order = {
+	id: 'order-1',
+	order_number: 'ORD-1042',
+	order_due_date: '2026-11-01',
+	status: 'in_progress',
+	total_cents: 12000,
+	client: { first_name: 'Jane' },
+	shop: {
+		id: 'shop-1',
+		name: 'Stitch Shop',
+		business_name: 'Stitch & Co',
+		email: 'shop@example.com',
+		phone_number: '555-0123',
+		mailing_address: '1 Main St',
+	},
+	garments: [
+		{
+			id: 'g-2',
+			name: 'Suit',
+			stage: 'In Progress',
+			due_date: '2026-10-30',
+			created_at: '2026-10-02T00:00:00Z',
+			image_cloud_id: null,
+			photo_url: 'https://example.com/suit.jpg',
+			garment_services: [
+				{ name: 'Hem', quantity: 1, unit: 'item', is_removed: false },
+				{ name: 'Taper', quantity: 1, unit: 'item', is_removed: true },
+			],
+		},
+		{
+			id: 'g-1',
+			name: 'Wedding Dress',
+			stage: 'Ready For Pickup',
+			due_date: null,
+			created_at: '2026-10-01T00:00:00Z',
+			image_cloud_id: null,
+			photo_url: null,
+			garment_services: [],
+		},
+	],
+	invoices: [
+		{
+			id: 'invoice-1',
+			amount_cents: 12000,
+			status: 'partially_paid',
+			payments: [
+				{
+					amount_cents: 5000,
+					refunded_amount_cents: 1000,
+					status: 'completed',
+				},
+				{ amount_cents: 3000, refunded_amount_cents: 0, status: 'failed' },
+			],
+		},
+	],
+};
+
+function makeSupabase(tables: Record<string, () => any>) {
+	const updates: Row[] = [];
+	const inserts: Row[] = [];
+
+	const from = jest.fn((table: string) => {
+		const result = () => tables[table]?.() ?? { data: null, error: null };
+		const chain: any = {
+			select: jest.fn(() => chain),
+			eq: jest.fn(() => chain),
+			neq: jest.fn(() => chain),
+			is: jest.fn(() => chain),
+			gt: jest.fn(() => chain),
+			order: jest.fn(() => chain),
+			limit: jest.fn(() => chain),
+			single: jest.fn(() => Promise.resolve(result())),
+			maybeSingle: jest.fn(() => Promise.resolve(result())),
+			update: jest.fn((row: Row) => {
+				updates.push({ table, ...row });
+				return chain;
+			}),
+			insert: jest.fn((row: Row) => {
+				inserts.push({ table, ...row });
+				return Promise.resolve({ error: null });
+			}),
+			then: (resolve: (value: any) => void) => resolve(result()),
+		};
+		return chain;
+	});
+
+	return { supabase: { from }, updates, inserts };
+}
+
+const activeToken = () => ({
+	data: {
+		order_id: 'order-1',
+		shop_id: 'shop-1',
+		expires_at: new Date(Date.now() + 86_400_000).toISOString(),
+		revoked_at: null,
+	},
+	error: null,
+});
+
+describe('order status portal actions', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('returns garments, stages, services and balance for a valid token', async () => {
+		const { supabase } = makeSupabase({
+			order_status_tokens: activeToken,
+			orders: () => ({ data: order, error: null }),
+		});
+		(createAdminClient as jest.Mock).mockReturnValue(supabase);
+
+		const status = await getOrderStatusByToken(TOKEN);
+
+		expect(status.orderNumber).toBe('ORD-1042');
+		expect(status.shop.name).toBe('Stitch & Co');
+		expect(status.garments.map((g) => g.name)).toEqual([
+			'Wedding Dress',
+			'Suit',
+		]);
+		expect(status.garments[1]).toMatchObject({
+			stage: 'In Progress',
+			stageLabel: 'In Progress',
+			stageColor: '#F3C165',
+			photoUrl: 'https://example.com/suit.jpg',
+			services: [{ name: 'Hem', quantity: 1, unit: 'item' }],
+		});
+		expect(status.paidCents).toBe(4000);
+		expect(status.balanceDueCents).toBe(8000);
+		expect(status.canPay).toBe(true);
+	});
+
+	it.each([
+		['revoked', { revoked_at: '2026-10-01T00:00:00Z' }],
+		['expired', { expires_at: '2020-01-01T00:00:00Z' }],
+	])('404s for %s tokens', async (_label, override) => {
+		const { supabase } = makeSupabase({
+			order_status_tokens: () => ({
+				data: { ...activeToken().data, ...override },
+				error: null,
+			}),
+			orders: () => ({ data: order, error: null }),
+		});
+		(createAdminClient as jest.Mock).mockReturnValue(supabase);
+
+		await expect(getOrderStatusByToken(TOKEN)).rejects.toThrow(
+			'NEXT_NOT_FOUND'
+		);
+	});
+
+	it('404s for malformed tokens without querying', async () => {
+		const { supabase } = makeSupabase({});
+		(createAdminClient as jest.Mock).mockReturnValue(supabase);
+
+		await expect(getOrderStatusByToken('not-a-token')).rejects.toThrow(
+			'NEXT_NOT_FOUND'
+		);
+		expect(supabase.from).not.toHaveBeenCalled();
+	});
+
+	it('sends the client to the existing payment link flow', async () => {
+		const { supabase } = makeSupabase({
+			order_status_tokens: activeToken,
+			invoices: () => ({
+				data: { id: 'invoice-1', status: 'partially_paid' },
+				error: null,
+			}),
+			payment_links: () => ({
+				data: [{ url: 'https://hemsy.app/pay/existing-token' }],
+				error: null,
+			}),
+		});
+		(createAdminClient as jest.Mock).mockReturnValue(supabase);
+
+		await expect(payOrderStatusBalance(TOKEN)).rejects.toThrow(
+			'NEXT_REDIRECT:/pay/existing-token'
+		);
+	});
+
+	it('creates a status link for one of the shop orders', async () => {
+		const { supabase, inserts } = makeSupabase({
+			orders: () => ({ data: { id: 'order-1' }, error: null }),
+			order_status_tokens: () => ({ data: [], error: null }),
+		});
+		(createClient as jest.Mock).mockResolvedValue(supabase);
+
+		const result = await getOrderStatusLink('order-1');
+
+		expect(result.success).toBe(true);
+		expect(inserts[0]).toMatchObject({
+			table: 'order_status_tokens',
+			order_id: 'order-1',
+			shop_id: 'shop-1',
+			created_by: 'user-1',
+		});
+		expect(result.url).toMatch(new RegExp(`/status/${inserts[0]!.token}$`));
+	});
+
+	it('revokes active status links for the order', async () => {
+		const { supabase, updates } = makeSupabase({
+			order_status_tokens: () => ({ error: null }),
+		});
+		(createClient as jest.Mock).mockResolvedValue(supabase);
+
+		const result = await revokeOrderStatusLinks('order-1');
+
+		expect(result).toEqual({ success: true });
+		expect(updates[0]).toMatchObject({
+			table: 'order_status_tokens',
+			revoked_at: expect.any(String),
+		});
+	});
+});
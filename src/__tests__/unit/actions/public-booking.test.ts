@@ -0,0 +1,326 @@
+/**
+ * @jest-environment node
+ */
+
+const mockSendAppointmentEmail = jest.fn();
+
+jest.mock('@/lib/supabase/admin', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/services/email/email-service', () => ({
+	EmailService: jest.fn().mockImplementation(() => ({
+		sendAppointmentEmail: mockSendAppointmentEmail,
+	})),
+}));
+
+import {
+	createPublicBooking,
+	getPublicBookingShop,
+	getPublicBookingSlots,
+} from '@/lib/actions/public-booking';
+import { createClient } from '@/lib/supabase/admin';
+import { EmailService } from '@/lib/services/email/email-service';
+
+type Row = Record<string, any>;
+
+const shop = {
+	id: 'shop-1',
+	owner_user_id: 'owner-1',
+	name: 'Stitch Shop',
+	business_name: 'Stitch & Co',
+	email: 'shop@example.com',
+	phone_number: '555-0123',
+	mailing_address: '1 Main St',
+	timezone: 'America/New_York',
+	booking_slug: 'stitch-co',
+	online_booking_enabled: true,
+};
+
+// Wednesday
+const BOOKING_DATE = '2026-10-21';
+
+function makeSupabase({
+	shopRow = shop,
+	appointments = [],
+	clientsByEmail = [],
+	clientsByPhone = [],
+	bookingError = null,
+}: {
+	shopRow?: Row | null;
+	appointments?: Row[];
+	clientsByEmail?: Row[];
+	clientsByPhone?: Row[];
+	bookingError?: Row | null;
+} = {}) {
+	const inserted: Record<string, Row[]> = { clients: [], appointments: [] };
+	const emailPatterns: string[] = [];
+
+	const builder = (table: string) => {
+		const state: { filters: string[]; inserting?: Row } = { filters: [] };
+		const result = () => {
+			switch (table) {
+				case 'shops':
+					return {
+						data: shopRow,
+						error: shopRow ? null : { code: 'PGRST116' },
+					};
+				case 'shop_hours':
+					// No saved hours: defaults apply (Mon-Fri 9-5)
+					return { data: [], error: null };
+				case 'calendar_settings':
+					return {
+						data: {
+							buffer_time_minutes: 15,
+							default_appointment_duration: 30,
+							allow_overlapping_appointments: false,
+						},
+						error: null,
+					};
+				case 'appointments':
+					return { data: appointments, error: null };
+				case 'clients':
+					if (state.inserting)
+						return { data: { id: 'client-new' }, error: null };
+					return {
+						data: state.filters.includes('ilike')
+							? clientsByEmail
+							: clientsByPhone,
+						error: null,
+					};
+				default:
+					return { data: null, error: null };
+			}
+		};
+
+		const chain: any = {
+			select: jest.fn(() => chain),
+			eq: jest.fn(() => chain),
+			order: jest.fn(() => chain),
+			ilike: jest.fn((_column: string, pattern: string) => {
+				state.filters.push('ilike');
+				emailPatterns.push(pattern);
+				return chain;
+			}),
+			in: jest.fn(() => chain),
+			limit: jest.fn(() => Promise.resolve(result())),
+			single: jest.fn(() => Promise.resolve(result())),
+			maybeSingle: jest.fn(() => Promise.resolve(result())),
+			insert: jest.fn((row: Row) => {
+				state.inserting = row;
+				inserted[table]?.push(row);
+				return chain;
+			}),
+			then: (resolve: (value: any) => void) => resolve(result()),
+		};
+		return chain;
+	};
+
+	const supabase = {
+		from: jest.fn((table: string) => builder(table)),
+		rpc: jest.fn((fn: string, args: Row) => {
+			if (fn !== 'book_appointment_slot') {
+				return Promise.resolve({ data: null, error: null });
+			}
+			if (bookingError) {
+				return Promise.resolve({ data: null, error: bookingError });
+			}
+			inserted.appointments!.push(args);
+			return Promise.resolve({ data: { id: 'appt-1' }, error: null });
+		}),
+	};
+	return { supabase, inserted, emailPatterns };
+}
+
+const bookingInput = {
+	slug: 'stitch-co',
+	date: BOOKING_DATE,
+	startTime: '14:00',
+	type: 'fitting' as const,
+	firstName: 'Jane',
+	lastName: 'Doe',
+	email: 'Jane@Example.com',
+	phone: '(212) 736-5000',
+};
+
+describe('public booking actions', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		jest.useFakeTimers({ now: new Date('2026-10-19T14:00:00Z') });
+		mockSendAppointmentEmail.mockResolvedValue({ success: true });
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('returns public shop details for an enabled booking slug', async () => {
+		const { supabase } = makeSupabase();
+		(createClient as jest.Mock).mockReturnValue(supabase);
+
+		const result = await getPublicBookingShop('stitch-co');
+
+		expect(result.success).toBe(true);
+		expect(result.data).toMatchObject({
+			slug: 'stitch-co',
+			name: 'Stitch & Co',
+			timezone: 'America/New_York',
+			appointmentDuration: 30,
+		});
+	});
+
+	it('treats unknown or disabled slugs as not found', async () => {
+		const { supabase } = makeSupabase({ shopRow: null });
+		(createClient as jest.Mock).mockReturnValue(supabase);
+
+		const result = await getPublicBookingShop('missing-shop');
+
+		expect(result).toEqual({ success: false, error: 'Booking page not found' });
+	});
+
+	it('excludes booked times and their buffer from open slots', async () => {
+		const { supabase } = makeSupabase({
+			appointments: [
+				{ start_time: '10:00', end_time: '10:30', status: 'confirmed' },
+				{ start_time: '13:00', end_time: '13:30', status: 'canceled' },
+			],
+		});
+		(createClient as jest.Mock).mockReturnValue(supabase);
+
+		const result = await getPublicBookingSlots('stitch-co', BOOKING_DATE);
+
+		expect(result.success).toBe(true);
+		expect(result.data).toContain('09:00');
+		expect(result.data).not.toContain('09:45');
+		expect(result.data).not.toContain('10:00');
+		expect(result.data).not.toContain('10:30');
+		expect(result.data).toContain('10:45');
+		// Canceled appointments don't block the slot
+		expect(result.data).toContain('13:00');
+		// Last slot must end by closing time
+		expect(result.data).toContain('16:30');
+		expect(result.data).not.toContain('16:45');
+	});
+
+	it('returns no slots on closed days', async () => {
+		const { supabase } = makeSupabase();
+		(createClient as jest.Mock).mockReturnValue(supabase);
+
+		const result = await getPublicBookingSlots('stitch-co', '2026-10-25');
+
+		expect(result).toEqual({ success: true, data: [] });
+	});
+
+	it('creates a new client and a pending appointment, then sends the scheduled email', async () => {
+		const { supabase, inserted } = makeSupabase();
+		(createClient as jest.Mock).mockReturnValue(supabase);
+
+		const result = await createPublicBooking(bookingInput);
+
+		expect(result).toEqual({
+			success: true,
+			data: {
+				appointmentId: 'appt-1',
+				date: BOOKING_DATE,
+				startTime: '14:00',
+			},
+		});
+		expect(inserted.clients?.[0]).toMatchObject({
+			shop_id: 'shop-1',
+			email: 'jane@example.com',
+			phone_number: '+12127365000',
+			accept_email: true,
+			accept_sms: false,
+		});
+		expect(inserted.appointments?.[0]).toMatchObject({
+			p_shop_id: 'shop-1',
+			p_client_id: 'client-new',
+			p_date: BOOKING_DATE,
+			p_start_time: '14:00',
+			p_end_time: '14:30',
+			p_start_at: '2026-10-21T18:00:00.000Z',
+			p_end_at: '2026-10-21T18:30:00.000Z',
+			p_type: 'fitting',
+			p_status: 'pending',
+			p_allow_overlap: false,
+		});
+		expect(EmailService).toHaveBeenCalledWith(supabase, 'owner-1');
+		expect(mockSendAppointmentEmail).toHaveBeenCalledWith(
+			'appt-1',
+			'appointment_scheduled'
+		);
+	});
+
+	it('books existing clients without creating a duplicate', async () => {
+		const { supabase, inserted } = makeSupabase({
+			clientsByEmail: [{ id: 'client-1' }],
+		});
+		(createClient as jest.Mock).mockReturnValue(supabase);
+
+		const result = await createPublicBooking(bookingInput);
+
+		expect(result.success).toBe(true);
+		expect(inserted.clients).toHaveLength(0);
+		expect(inserted.appointments?.[0]).toMatchObject({
+			p_client_id: 'client-1',
+		});
+	});
+
+	it('matches the email literally rather than as a pattern', async () => {
+		const { supabase, emailPatterns } = makeSupabase();
+		(createClient as jest.Mock).mockReturnValue(supabase);
+
+		await createPublicBooking({ ...bookingInput, email: '____@gmail.com' });
+
+		expect(emailPatterns).toEqual(['\\_\\_\\_\\_@gmail.com']);
+	});
+
+	it('does not attach a booking to another client by phone number alone', async () => {
+		const { supabase, inserted } = makeSupabase({
+			clientsByPhone: [{ id: 'client-1' }],
+		});
+		(createClient as jest.Mock).mockReturnValue(supabase);
+
+		const result = await createPublicBooking(bookingInput);
+
+		expect(result.success).toBe(true);
+		expect(inserted.clients).toHaveLength(1);
+		expect(inserted.clients?.[0]!.notes).toMatch(/existing client/);
+		expect(inserted.appointments?.[0]).toMatchObject({
+			p_client_id: 'client-new',
+		});
+	});
+
+	it('reports the slot as taken when another booking gets it first', async () => {
+		const { supabase } = makeSupabase({
+			bookingError: { code: 'P0001', message: 'Time slot conflict detected' },
+		});
+		(createClient as jest.Mock).mockReturnValue(supabase);
+
+		const result = await createPublicBooking(bookingInput);
+
+		expect(result).toEqual({
+			success: false,
+			error: 'This time is no longer available. Please choose another time.',
+		});
+		expect(mockSendAppointmentEmail).not.toHaveBeenCalled();
+	});
+
+	it('rejects a slot that is no longer open', async () => {
+		const { supabase, inserted } = makeSupabase({
+			appointments: [
+				{ start_time: '14:00', end_time: '14:30', status: 'pending' },
+			],
+		});
+		(createClient as jest.Mock).mockReturnValue(supabase);
+
+		const result = await createPublicBooking(bookingInput);
+
+		expect(result).toEqual({
+			success: false,
+			error: 'This time is no longer available. Please choose another time.',
+		});
+		expect(inserted.appointments).toHaveLength(0);
+		expect(mockSendAppointmentEmail).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,164 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn().mockResolvedValue({
+		user: { id: 'user-1' },
+		shop: { id: 'shop-1', owner_user_id: 'user-1' },
+	}),
+}));
+
+import {
+	startServiceTimer,
+	stopServiceTimer,
+} from '@/lib/actions/service-timers';
+import { createClient } from '@/lib/supabase/server';
+
+type Row = Record<string, any>;
+
+const SERVICE_ID = '22222222-2222-4222-8222-222222222222';
+const NOW = new Date('2026-10-19T15:00:00Z');
+
+function makeSupabase(
+	tables: Record<string, () => any>,
+	deleted: Row[] = [{ id: 'timer-1' }]
+) {
+	const writes: Row[] = [];
+
+	const from = jest.fn((table: string) => {
+		let write: Row | null = null;
+		const result = () => {
+			if (write?.op === 'delete') return { data: deleted, error: null };
+			if (write) return { data: null, error: null };
+			return tables[table]?.() ?? { data: null, error: null };
+		};
+		const chain: any = {
+			select: jest.fn(() => chain),
+			eq: jest.fn(() => chain),
+			maybeSingle: jest.fn(() => Promise.resolve(result())),
+			insert: jest.fn((row: Row) => {
+				write = { table, op: 'insert', row };
+				writes.push(write);
+				return chain;
+			}),
+			delete: jest.fn(() => {
+				write = { table, op: 'delete' };
+				writes.push(write);
+				return chain;
+			}),
+			then: (resolve: (value: any) => void) => resolve(result()),
+		};
+		return chain;
+	});
+
+	(createClient as jest.Mock).mockResolvedValue({ from });
+	return { from, writes };
+}
+
+const timerRow = (minutesAgo: number) => ({
+	id: 'timer-1',
+	user_id: 'user-1',
+	service_id: SERVICE_ID,
+	started_at: new Date(NOW.getTime() - minutesAgo * 60 * 1000).toISOString(),
+	garment_service: {
+		id: SERVICE_ID,
+		name: 'Hemming',
+		garment_id: 'garment-1',
+		garments: { id: 'garment-1', name: 'Blue dress' },
+	},
+});
+
+describe('service timers', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		jest.useFakeTimers().setSystemTime(NOW);
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('refuses to start a second timer while one is running', async () => {
+		const { writes } = makeSupabase({
+			garment_services: () => ({
+				data: {
+					id: SERVICE_ID,
+					name: 'Hemming',
+					is_removed: false,
+					garments: { id: 'garment-1', shop_id: 'shop-1', stage: 'Working' },
+				},
+				error: null,
+			}),
+			garment_service_timers: () => ({ data: timerRow(10), error: null }),
+		});
+
+		const result = await startServiceTimer(SERVICE_ID);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toMatch(/already running on Hemming/);
+		expect(writes).toHaveLength(0);
+	});
+
+	it('logs the elapsed minutes when stopped', async () => {
+		const { writes } = makeSupabase({
+			garment_service_timers: () => ({ data: timerRow(25), error: null }),
+		});
+
+		const result = await stopServiceTimer();
+
+		expect(result).toEqual({
+			success: true,
+			data: {
+				serviceId: SERVICE_ID,
+				serviceName: 'Hemming',
+				garmentId: 'garment-1',
+				minutes: 25,
+				capped: false,
+			},
+		});
+		expect(writes[1]).toEqual({
+			table: 'garment_service_time_entries',
+			op: 'insert',
+			row: {
+				service_id: SERVICE_ID,
+				minutes: 25,
+				logged_at: NOW.toISOString(),
+				created_by: 'user-1',
+			},
+		});
+	});
+
+	it("caps a forgotten timer at the shop's limit", async () => {
+		const { writes } = makeSupabase({
+			garment_service_timers: () => ({ data: timerRow(600), error: null }),
+			shop_settings: () => ({ data: { max_timer_minutes: 120 }, error: null }),
+		});
+
+		const result = await stopServiceTimer();
+
+		expect(result.data).toMatchObject({ minutes: 120, capped: true });
+		expect(writes[1]!.row).toMatchObject({
+			minutes: 120,
+			logged_at: '2026-10-19T07:00:00.000Z',
+		});
+	});
+
+	it('does not log time twice when the timer was stopped elsewhere', async () => {
+		const { writes } = makeSupabase(
+			{ garment_service_timers: () => ({ data: timerRow(25), error: null }) },
+			[]
+		);
+
+		const result = await stopServiceTimer();
+
+		expect(result).toEqual({ success: false, error: 'No timer is running' });
+		expect(writes.map((w) => w.op)).toEqual(['delete']);
+	});
+});
@@ -37,6 +37,7 @@ describe('Shop Actions', () => {
       const mockUser = createMockUser({ id: 'user-123' });
       const mockShop = createMockShop({
         id: 'shop-123',
+        owner_user_id: 'user-123',
         name: 'Test Shop',
         business_name: 'Test Business',
         email: 'test@example.com',
@@ -75,6 +76,7 @@ describe('Shop Actions', () => {
       const mockUser = createMockUser({ id: 'user-123' });
       const mockShop = createMockShop({
         id: 'shop-123',
+        owner_user_id: 'user-123',
         name: 'Test Shop',
         trial_countdown_enabled: null,
         business_name: null,
@@ -116,7 +118,10 @@ describe('Shop Actions', () => {
   describe('updateShopBusinessInfo', () => {
     it('should update shop business information successfully', async () => {
       const mockUser = createMockUser({ id: 'user-123' });
-      const mockShop = createMockShop({ id: 'shop-123' });
+      const mockShop = createMockShop({
+        id: 'shop-123',
+        owner_user_id: 'user-123',
+      });
       const updateData = {
         business_name: 'Updated Business',
         email: 'updated@example.com',
@@ -164,7 +169,10 @@ describe('Shop Actions', () => {
 
     it('should handle database errors', async () => {
       const mockUser = createMockUser({ id: 'user-123' });
-      const mockShop = createMockShop({ id: 'shop-123' });
+      const mockShop = createMockShop({
+        id: 'shop-123',
+        owner_user_id: 'user-123',
+      });
       const updateData = {
         business_name: 'Updated Business',
         email: 'updated@example.com',
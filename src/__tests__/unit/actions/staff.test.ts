@@ -0,0 +1,224 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn(),
+}));
+
+const mockSend = jest.fn().mockResolvedValue({ success: true });
+jest.mock('@/lib/services/email/resend-client', () => ({
+	getResendClient: () => ({ send: mockSend }),
+}));
+
+import {
+	assignGarment,
+	inviteStaffMember,
+	removeStaffMember,
+} from '@/lib/actions/staff';
+import { ensureUserAndShop } from '@/lib/auth/user-shop';
+import { createClient } from '@/lib/supabase/server';
+
+type Row = Record<string, any>;
+
+const GARMENT_ID = '11111111-1111-4111-8111-111111111111';
+const STAFF_ID = '22222222-2222-4222-8222-222222222222';
+
+const shop = {
+	id: 'shop-1',
+	owner_user_id: 'owner-1',
+	name: 'Stitch Shop',
+	business_name: null,
+	email: 'shop@example.com',
+};
+
+function actAs(user: Row) {
+	(ensureUserAndShop as jest.Mock).mockResolvedValue({ user, shop });
+}
+
+function makeSupabase(tables: Record<string, () => any>) {
+	const writes: Row[] = [];
+
+	const from = jest.fn((table: string) => {
+		let write: Row | null = null;
+		const result = () =>
+			write && write.op !== 'insert' && !write.selected
+				? { data: null, error: null }
+				: (tables[table]?.() ?? { data: null, error: null });
+		const chain: any = {
+			select: jest.fn(() => {
+				if (write) write.selected = true;
+				return chain;
+			}),
+			eq: jest.fn(() => chain),
+			is: jest.fn(() => chain),
+			not: jest.fn(() => chain),
+			ilike: jest.fn(() => chain),
+			limit: jest.fn(() => chain),
+			single: jest.fn(() => Promise.resolve(result())),
+			maybeSingle: jest.fn(() => Promise.resolve(result())),
+			insert: jest.fn((row: Row) => {
+				write = { table, op: 'insert', row };
+				writes.push(write);
+				return chain;
+			}),
+			update: jest.fn((row: Row) => {
+				write = { table, op: 'update', row };
+				writes.push(write);
+				return chain;
+			}),
+			then: (resolve: (value: any) => void) => resolve(result()),
+		};
+		return chain;
+	});
+
+	(createClient as jest.Mock).mockResolvedValue({ from });
+	return { from, writes };
+}
+
+describe('inviteStaffMember', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('only lets the owner invite staff', async () => {
+		actAs({ id: 'staff-1', role: 'front_desk' });
+		const { from } = makeSupabase({});
+
+		const result = await inviteStaffMember({
+			email: 'new@example.com',
+			role: 'seamstress',
+		});
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Only the shop owner can manage staff',
+		});
+		expect(from).not.toHaveBeenCalled();
+		expect(mockSend).not.toHaveBeenCalled();
+	});
+
+	it('stores the invitation and emails a sign-up link', async () => {
+		actAs({ id: 'owner-1', role: 'owner' });
+		const { writes } = makeSupabase({
+			staff_invitations: () => ({
+				data: {
+					id: 'invite-1',
+					email: 'new@example.com',
+					role: 'seamstress',
+					expires_at: '2026-11-02T00:00:00Z',
+					created_at: '2026-10-19T00:00:00Z',
+				},
+				error: null,
+			}),
+		});
+
+		const result = await inviteStaffMember({
+			email: ' New@Example.com ',
+			role: 'seamstress',
+		});
+
+		expect(result.success).toBe(true);
+		expect(writes[0]).toMatchObject({
+			table: 'staff_invitations',
+			op: 'insert',
+			row: {
+				shop_id: 'shop-1',
+				email: 'new@example.com',
+				role: 'seamstress',
+				invited_by_user_id: 'owner-1',
+			},
+		});
+		expect(mockSend).toHaveBeenCalledWith(
+			expect.objectContaining({
+				to: 'new@example.com',
+				subject: "You're invited to join Stitch Shop on Hemsy",
+				text: expect.stringContaining('/sign-up'),
+			})
+		);
+	});
+
+	it('rejects people who already belong to a shop', async () => {
+		actAs({ id: 'owner-1', role: 'owner' });
+		const { writes } = makeSupabase({
+			users: () => ({
+				data: { id: 'user-9', shop_id: 'other-shop' },
+				error: null,
+			}),
+		});
+
+		const result = await inviteStaffMember({
+			email: 'taken@example.com',
+			role: 'front_desk',
+		});
+
+		expect(result).toEqual({
+			success: false,
+			error: 'This person already belongs to another shop',
+		});
+		expect(writes).toHaveLength(0);
+	});
+});
+
+describe('removeStaffMember', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('cannot remove the owner', async () => {
+		actAs({ id: 'owner-1', role: 'owner' });
+		const { from } = makeSupabase({});
+
+		const result = await removeStaffMember('owner-1');
+
+		expect(result).toEqual({
+			success: false,
+			error: "The owner can't be removed",
+		});
+		expect(from).not.toHaveBeenCalled();
+	});
+});
+
+describe('assignGarment', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('only assigns to members of the shop', async () => {
+		actAs({ id: 'staff-1', role: 'seamstress' });
+		const { writes } = makeSupabase({
+			users: () => ({ data: null, error: null }),
+		});
+
+		const result = await assignGarment(GARMENT_ID, STAFF_ID);
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Staff member not found',
+		});
+		expect(writes).toHaveLength(0);
+	});
+
+	it('lets any staff member assign work', async () => {
+		actAs({ id: 'staff-1', role: 'seamstress' });
+		const { writes } = makeSupabase({
+			users: () => ({ data: { id: STAFF_ID }, error: null }),
+			garments: () => ({ data: [{ id: GARMENT_ID }], error: null }),
+		});
+
+		const result = await assignGarment(GARMENT_ID, STAFF_ID);
+
+		expect(result).toEqual({ success: true });
+		expect(writes[0]).toMatchObject({
+			table: 'garments',
+			op: 'update',
+			row: { assigned_to: STAFF_ID },
+		});
+	});
+});
@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn(),
+}));
+
+jest.mock('@/lib/actions/payment-audit', () => ({
+	logPaymentAction: jest.fn(),
+}));
+
+import { moveOverpaymentToCredit } from '@/lib/actions/store-credit';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from '@/lib/auth/user-shop';
+import { logPaymentAction } from '@/lib/actions/payment-audit';
+
+const INVOICE = '11111111-1111-4111-8111-111111111111';
+
+function makeSupabase(rpcResult: { data: any; error: any }) {
+	const rpc = jest.fn().mockResolvedValue(rpcResult);
+	const chain: any = {
+		select: jest.fn(() => chain),
+		eq: jest.fn(() => chain),
+		single: jest.fn().mockResolvedValue({
+			data: { id: INVOICE, order_id: 'order-1' },
+			error: null,
+		}),
+	};
+	(createClient as jest.Mock).mockResolvedValue({
+		from: jest.fn(() => chain),
+		rpc,
+	});
+	return { rpc };
+}
+
+describe('moveOverpaymentToCredit', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		(ensureUserAndShop as jest.Mock).mockResolvedValue({
+			user: { id: 'user-1' },
+			shop: { id: 'shop-1', owner_user_id: 'user-1' },
+		});
+	});
+
+	it('moves the overpayment in one call and audits each refund', async () => {
+		const { rpc } = makeSupabase({
+			data: [
+				{ payment_id: 'payment-2', refund_id: 'refund-2', amount_cents: 300 },
+				{ payment_id: 'payment-1', refund_id: 'refund-1', amount_cents: 200 },
+			],
+			error: null,
+		});
+
+		const result = await moveOverpaymentToCredit(INVOICE, 500);
+
+		expect(result).toEqual({ success: true });
+		expect(rpc).toHaveBeenCalledTimes(1);
+		expect(rpc).toHaveBeenCalledWith('move_overpayment_to_credit', {
+			p_invoice_id: INVOICE,
+			p_amount_cents: 500,
+			p_user_id: 'user-1',
+		});
+		expect(logPaymentAction).toHaveBeenCalledWith('payment-2', 'refunded', {
+			refund_id: 'refund-2',
+			amount_cents: 300,
+			refund_method: 'store_credit',
+		});
+		expect(logPaymentAction).toHaveBeenCalledTimes(2);
+	});
+
+	it('refuses more than was overpaid', async () => {
+		makeSupabase({
+			data: null,
+			error: { message: 'Amount is more than the 500 overpaid' },
+		});
+
+		const result = await moveOverpaymentToCredit(INVOICE, 5000);
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Only what was overpaid on this invoice can move to credit',
+		});
+		expect(logPaymentAction).not.toHaveBeenCalled();
+	});
+
+	it('only lets the owner move an overpayment', async () => {
+		(ensureUserAndShop as jest.Mock).mockResolvedValue({
+			user: { id: 'user-2', role: 'seamstress' },
+			shop: { id: 'shop-1', owner_user_id: 'user-1' },
+		});
+		const { rpc } = makeSupabase({ data: [], error: null });
+
+		const result = await moveOverpaymentToCredit(INVOICE, 500);
+
+		expect(result.success).toBe(false);
+		expect(rpc).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+
+const mockAccountsCreate = jest.fn();
+
+jest.mock('stripe', () =>
+	jest.fn().mockImplementation(() => ({
+		accounts: {
+			create: (...args: unknown[]) => mockAccountsCreate(...args),
+		},
+	}))
+);
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+jest.mock('@clerk/nextjs/server', () => ({ auth: jest.fn() }));
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/admin', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn(),
+}));
+
+import {
+	clearConnectAccount,
+	createConnectAccount,
+} from '@/lib/actions/stripe-connect';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from '@/lib/auth/user-shop';
+
+const SHOP = { id: 'shop-1', owner_user_id: 'user-1' };
+
+describe('Stripe Connect settings', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		(ensureUserAndShop as jest.Mock).mockResolvedValue({
+			user: { id: 'user-2', role: 'seamstress' },
+			shop: SHOP,
+		});
+	});
+
+	it('only lets the owner create the Connect account', async () => {
+		const result = await createConnectAccount({
+			email: 'staff@example.com',
+			country: 'US',
+			business_type: 'individual',
+		});
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Only the shop owner can change shop settings',
+		});
+		expect(mockAccountsCreate).not.toHaveBeenCalled();
+		expect(createClient).not.toHaveBeenCalled();
+	});
+
+	it('only lets the owner clear the Connect account', async () => {
+		const result = await clearConnectAccount();
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Only the shop owner can change shop settings',
+		});
+		expect(createClient).not.toHaveBeenCalled();
+	});
+
+	it('clears the Connect account for the owner', async () => {
+		(ensureUserAndShop as jest.Mock).mockResolvedValue({
+			user: { id: 'user-1' },
+			shop: SHOP,
+		});
+		const eq = jest.fn().mockResolvedValue({ error: null });
+		const update = jest.fn(() => ({ eq }));
+		(createClient as jest.Mock).mockResolvedValue({
+			from: jest.fn(() => ({ update })),
+		});
+
+		const result = await clearConnectAccount();
+
+		expect(result).toEqual({ success: true });
+		expect(eq).toHaveBeenCalledWith('shop_id', 'shop-1');
+	});
+});
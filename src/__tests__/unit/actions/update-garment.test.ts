@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+// Only Clerk is faked: the user and shop are looked up the way the app does
+jest.mock('@clerk/nextjs/server', () => ({
+	auth: jest.fn().mockResolvedValue({ userId: 'clerk_user_1' }),
+	currentUser: jest.fn().mockResolvedValue({
+		emailAddresses: [{ emailAddress: 'owner@example.com' }],
+	}),
+}));
+
+jest.mock('@/lib/utils/deposits', () => ({
+	getOrderDepositStatus: jest.fn(),
+	isWorkBlockedByDeposit: jest.fn().mockReturnValue(false),
+	getDepositDueMessage: jest.fn(),
+}));
+
+import { updateGarmentStage } from '@/app/(app)/garments/actions/update-garment';
+import { createClient } from '@/lib/supabase/server';
+
+const SHOP = '11111111-1111-4111-8111-111111111111';
+const GARMENT = '22222222-2222-4222-8222-222222222222';
+const USER = '33333333-3333-4333-8333-333333333333';
+
+function mockSupabase(garment: Record<string, any>) {
+	const updates: Record<string, any>[] = [];
+	const history: Record<string, any>[] = [];
+	const rows: Record<string, Record<string, any>> = {
+		users: { id: USER, clerk_user_id: 'clerk_user_1', shop_id: SHOP },
+		shops: { id: SHOP, owner_user_id: USER },
+	};
+
+	const from = jest.fn((table: string) => {
+		if (table in rows) {
+			return {
+				select: () => ({
+					eq: () => ({
+						maybeSingle: async () => ({ data: rows[table], error: null }),
+					}),
+				}),
+			};
+		}
+		if (table === 'garments') {
+			return {
+				select: () => ({
+					eq: () => ({
+						maybeSingle: async () => ({ data: garment, error: null }),
+					}),
+				}),
+				update: (values: Record<string, any>) => {
+					updates.push(values);
+					return {
+						eq: () => ({ eq: async () => ({ error: null }) }),
+					};
+				},
+			};
+		}
+		return {
+			insert: async (values: Record<string, any>) => {
+				history.push(values);
+				return { error: null };
+			},
+		};
+	});
+
+	// No Supabase auth session: the app signs users in through Clerk
+	(createClient as jest.Mock).mockResolvedValue({ from });
+
+	return { updates, history };
+}
+
+describe('updateGarmentStage', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('refuses Ready For Pickup while a service is unfinished', async () => {
+		const { updates } = mockSupabase({
+			id: GARMENT,
+			shop_id: SHOP,
+			stage: 'In Progress',
+			order_id: null,
+			garment_services: [
+				{ id: 's1', is_done: true, is_removed: false },
+				{ id: 's2', is_done: false, is_removed: false },
+			],
+		});
+
+		await expect(
+			updateGarmentStage(SHOP, GARMENT, 'Ready For Pickup')
+		).rejects.toThrow(
+			'Finish all services before marking the garment ready for pickup'
+		);
+		expect(updates).toHaveLength(0);
+	});
+
+	it('moves a garment with every service finished to Ready For Pickup', async () => {
+		const { updates, history } = mockSupabase({
+			id: GARMENT,
+			shop_id: SHOP,
+			stage: 'In Progress',
+			order_id: null,
+			garment_services: [
+				{ id: 's1', is_done: true, is_removed: false },
+				{ id: 's2', is_done: false, is_removed: true },
+			],
+		});
+
+		await updateGarmentStage(SHOP, GARMENT, 'Ready For Pickup');
+
+		expect(updates).toEqual([{ stage: 'Ready For Pickup' }]);
+		expect(history).toEqual([
+			expect.objectContaining({
+				garment_id: GARMENT,
+				changed_by: USER,
+				old_value: 'In Progress',
+				new_value: 'Ready For Pickup',
+			}),
+		]);
+	});
+
+	it("won't move a garment for another shop", async () => {
+		const other = '44444444-4444-4444-8444-444444444444';
+		const { updates } = mockSupabase({
+			id: GARMENT,
+			shop_id: other,
+			stage: 'New',
+			order_id: null,
+			garment_services: [],
+		});
+
+		await expect(
+			updateGarmentStage(other, GARMENT, 'In Progress')
+		).rejects.toThrow('Garment not found');
+		expect(updates).toHaveLength(0);
+	});
+});
@@ -0,0 +1,274 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('next/navigation', () => ({
+	notFound: jest.fn(() => {
+		throw new Error('NEXT_NOT_FOUND');
+	}),
+	redirect: jest.fn((url: string) => {
+		throw new Error(`NEXT_REDIRECT:${url}`);
+	}),
+}));
+
+jest.mock('next/cache', () => ({ revalidatePath: jest.fn() }));
+
+jest.mock('@/lib/supabase/server', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/admin', () => ({
+	createClient: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/user-shop', () => ({
+	ensureUserAndShop: jest.fn().mockResolvedValue({
+		user: { id: 'user-1' },
+		shop: { id: 'shop-1', name: 'Stitch Shop' },
+	}),
+}));
+
+const mockSendAppointmentEmail = jest.fn();
+
+jest.mock('@/lib/services/email/email-service', () => ({
+	EmailService: jest.fn().mockImplementation(() => ({
+		sendAppointmentEmail: mockSendAppointmentEmail,
+	})),
+}));
+
+import {
+	addWaitlistEntry,
+	claimWaitlistOffer,
+	getWaitlistOfferByToken,
+} from '@/lib/actions/waitlist';
+import { createClient } from '@/lib/supabase/server';
+import { createClient as createAdminClient } from '@/lib/supabase/admin';
+
+type Row = Record<string, any>;
+
+const TOKEN = 'c'.repeat(64);
+
+const pendingOffer = () => ({
+	id: 'offer-1',
+	token: TOKEN,
+	shop_id: 'shop-1',
+	waitlist_entry_id: 'entry-1',
+	source_appointment_id: 'appt-canceled',
+	date: '2030-06-03',
+	start_time: '10:00:00',
+	end_time: '11:00:00',
+	type: 'fitting',
+	status: 'pending',
+	expires_at: '2030-06-03T14:00:00Z',
+	claimed_at: null,
+	appointment_id: null,
+	created_at: '2030-06-01T00:00:00Z',
+});
+
+function makeSupabase(params: {
+	tables: Record<string, () => any>;
+	conflict?: boolean;
+	appointmentError?: Row;
+}) {
+	const updates: Row[] = [];
+	const inserts: Row[] = [];
+
+	const from = jest.fn((table: string) => {
+		let mode: 'read' | 'update' | 'insert' = 'read';
+		const result = () => {
+			if (mode === 'update') {
+				return { data: [{ id: 'offer-1' }], error: null };
+			}
+			return params.tables[table]?.() ?? { data: null, error: null };
+		};
+		const chain: any = {
+			select: jest.fn(() => chain),
+			eq: jest.fn((column: string, value: unknown) => {
+				if (mode === 'update') {
+					updates[updates.length - 1]!.filters.push([column, value]);
+				}
+				return chain;
+			}),
+			single: jest.fn(() => Promise.resolve(result())),
+			update: jest.fn((row: Row) => {
+				mode = 'update';
+				updates.push({ table, row, filters: [] });
+				return chain;
+			}),
+			insert: jest.fn((row: Row) => {
+				mode = 'insert';
+				inserts.push({ table, ...row });
+				return chain;
+			}),
+			then: (resolve: (value: any) => void) => resolve(result()),
+		};
+		return chain;
+	});
+
+	// book_appointment_slot refuses a slot another booking already holds
+	const rpc = jest.fn((fn: string, args: Row) => {
+		if (params.conflict) {
+			return Promise.resolve({
+				data: null,
+				error: { code: 'P0001', message: 'Time slot conflict detected' },
+			});
+		}
+		if (params.appointmentError) {
+			return Promise.resolve({ data: null, error: params.appointmentError });
+		}
+		inserts.push({ table: 'appointments', fn, ...args });
+		return Promise.resolve({ data: { id: 'appt-new' }, error: null });
+	});
+
+	return { supabase: { from, rpc }, updates, inserts };
+}
+
+const claimTables = {
+	waitlist_offers: () => ({ data: pendingOffer(), error: null }),
+	shops: () => ({
+		data: {
+			id: 'shop-1',
+			owner_user_id: 'owner-1',
+			timezone: 'America/New_York',
+		},
+		error: null,
+	}),
+	waitlist_entries: () => ({
+		data: { id: 'entry-1', client_id: 'client-1' },
+		error: null,
+	}),
+};
+
+describe('waitlist actions', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		mockSendAppointmentEmail.mockResolvedValue({ success: true });
+	});
+
+	it('rejects date ranges that end before they start', async () => {
+		const result = await addWaitlistEntry({
+			clientId: '123e4567-e89b-12d3-a456-426614174000',
+			earliestDate: '2030-06-10',
+			latestDate: '2030-06-01',
+		});
+
+		expect(result.success).toBe(false);
+		expect(result.error).toMatch(/on or after the start/);
+		expect(createClient).not.toHaveBeenCalled();
+	});
+
+	it('books the slot for the first client to claim it', async () => {
+		const { supabase, updates, inserts } = makeSupabase({
+			tables: claimTables,
+		});
+		(createAdminClient as jest.Mock).mockReturnValue(supabase);
+
+		await expect(claimWaitlistOffer(TOKEN)).rejects.toThrow(
+			`NEXT_REDIRECT:/waitlist/claim/${TOKEN}`
+		);
+
+		expect(inserts[0]).toMatchObject({
+			table: 'appointments',
+			fn: 'book_appointment_slot',
+			p_shop_id: 'shop-1',
+			p_client_id: 'client-1',
+			p_date: '2030-06-03',
+			p_start_time: '10:00',
+			p_end_time: '11:00',
+			p_type: 'fitting',
+			p_status: 'confirmed',
+		});
+		expect(updates).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({
+					table: 'waitlist_offers',
+					row: expect.objectContaining({ status: 'claimed' }),
+					filters: [
+						['id', 'offer-1'],
+						['status', 'pending'],
+					],
+				}),
+				expect.objectContaining({
+					table: 'waitlist_entries',
+					row: expect.objectContaining({
+						status: 'booked',
+						booked_appointment_id: 'appt-new',
+					}),
+				}),
+				expect.objectContaining({
+					table: 'waitlist_offers',
+					row: { status: 'taken' },
+					filters: [
+						['source_appointment_id', 'appt-canceled'],
+						['status', 'pending'],
+					],
+				}),
+			])
+		);
+		expect(mockSendAppointmentEmail).toHaveBeenCalledWith(
+			'appt-new',
+			'appointment_scheduled'
+		);
+	});
+
+	it('marks the offer taken when a sibling offer booked the slot first', async () => {
+		const { supabase, updates, inserts } = makeSupabase({
+			tables: claimTables,
+			conflict: true,
+		});
+		(createAdminClient as jest.Mock).mockReturnValue(supabase);
+
+		await expect(claimWaitlistOffer(TOKEN)).rejects.toThrow('NEXT_REDIRECT');
+
+		expect(inserts).toHaveLength(0);
+		expect(updates[updates.length - 1]).toMatchObject({
+			table: 'waitlist_offers',
+			row: { status: 'taken', claimed_at: null },
+		});
+		expect(mockSendAppointmentEmail).not.toHaveBeenCalled();
+	});
+
+	it('shows pending offers whose slot has started as expired', async () => {
+		const { supabase } = makeSupabase({
+			tables: {
+				...claimTables,
+				waitlist_offers: () => ({
+					data: { ...pendingOffer(), expires_at: '2020-01-01T00:00:00Z' },
+					error: null,
+				}),
+				shops: () => ({
+					data: {
+						name: 'Stitch Shop',
+						business_name: null,
+						email: null,
+						phone_number: null,
+						mailing_address: null,
+					},
+					error: null,
+				}),
+				waitlist_entries: () => ({
+					data: { client: { first_name: 'Jane' } },
+					error: null,
+				}),
+			},
+		});
+		(createAdminClient as jest.Mock).mockReturnValue(supabase);
+
+		const offer = await getWaitlistOfferByToken(TOKEN);
+
+		expect(offer).toMatchObject({
+			status: 'expired',
+			clientFirstName: 'Jane',
+			startTime: '10:00',
+			typeLabel: 'Fitting',
+		});
+	});
+
+	it('404s for malformed tokens without querying', async () => {
+		const { supabase } = makeSupabase({ tables: {} });
+		(createAdminClient as jest.Mock).mockReturnValue(supabase);
+
+		await expect(claimWaitlistOffer('nope')).rejects.toThrow('NEXT_NOT_FOUND');
+		expect(supabase.from).not.toHaveBeenCalled();
+	});
+});
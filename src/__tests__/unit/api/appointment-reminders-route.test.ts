@@ -0,0 +1,82 @@
+/** @jest-environment node */
+
+const mockDispatchDueReminders = jest.fn();
+
+jest.mock('@/lib/supabase/admin', () => ({
+	createClient: jest.fn(() => ({})),
+}));
+
+jest.mock('@/lib/services/email/appointment-reminder-service', () => ({
+	AppointmentReminderService: jest.fn().mockImplementation(() => ({
+		dispatchDueReminders: mockDispatchDueReminders,
+	})),
+}));
+
+import { GET } from '@/app/api/appointments/reminders/route';
+
+function createRequest(headers: Record<string, string> = {}) {
+	const normalized: Record<string, string> = {};
+	for (const [k, v] of Object.entries(headers)) {
+		normalized[k.toLowerCase()] = v;
+	}
+
+	return {
+		headers: {
+			get(key: string) {
+				return normalized[key.toLowerCase()] ?? null;
+			},
+		},
+	} as unknown as Request;
+}
+
+describe('Appointment reminders route', () => {
+	const originalEnv = process.env;
+
+	beforeEach(() => {
+		process.env = { ...originalEnv, CRON_SECRET: 'cron-secret' };
+		mockDispatchDueReminders.mockReset();
+	});
+
+	afterAll(() => {
+		process.env = originalEnv;
+	});
+
+	test('returns 500 when CRON_SECRET is not configured', async () => {
+		delete process.env.CRON_SECRET;
+		const response = await GET(createRequest());
+		expect(response.status).toBe(500);
+		expect(mockDispatchDueReminders).not.toHaveBeenCalled();
+	});
+
+	test('rejects requests without the cron secret', async () => {
+		const response = await GET(
+			createRequest({ authorization: 'Bearer wrong-secret' })
+		);
+		expect(response.status).toBe(401);
+		expect(mockDispatchDueReminders).not.toHaveBeenCalled();
+	});
+
+	test('dispatches reminders and returns the summary', async () => {
+		mockDispatchDueReminders.mockResolvedValue({
+			shopsProcessed: 2,
+			sent: 3,
+			skipped: 1,
+			failed: 0,
+			results: [],
+		});
+
+		const response = await GET(
+			createRequest({ authorization: 'Bearer cron-secret' })
+		);
+		const json = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(json).toEqual({
+			success: true,
+			shopsProcessed: 2,
+			sent: 3,
+			skipped: 1,
+			failed: 0,
+		});
+	});
+});
@@ -0,0 +1,117 @@
+/** @jest-environment node */
+
+jest.mock('@/lib/supabase/admin', () => ({
+	createClient: jest.fn(),
+}));
+
+import { GET } from '@/app/api/calendar/feed/[token]/route';
+import { createClient } from '@/lib/supabase/admin';
+
+const TOKEN = 'c'.repeat(64);
+
+const shop = {
+	id: 'shop-1',
+	name: 'Stitch Shop',
+	business_name: 'Stitch & Co',
+	timezone: 'America/New_York',
+	calendar_feed_token: TOKEN,
+};
+
+const appointments = [
+	{
+		id: 'appt-1',
+		date: '2026-10-21',
+		start_time: '14:00',
+		end_time: '14:30',
+		start_at: '2026-10-21T18:00:00.000Z',
+		end_at: '2026-10-21T18:30:00.000Z',
+		type: 'fitting',
+		status: 'confirmed',
+		notes: 'Bring heels',
+		updated_at: '2026-10-19T12:00:00.000Z',
+		client: {
+			first_name: 'Jane',
+			last_name: 'Doe',
+			email: 'jane@example.com',
+			phone_number: '+12127365000',
+		},
+	},
+];
+
+function makeSupabase(shopRow: Record<string, any> | null) {
+	const filters: unknown[][] = [];
+	const from = jest.fn((table: string) => {
+		const result =
+			table === 'shops'
+				? { data: shopRow, error: null }
+				: { data: appointments, error: null };
+		const chain: any = {
+			select: jest.fn(() => chain),
+			eq: jest.fn(() => chain),
+			gte: jest.fn(() => chain),
+			lte: jest.fn(() => chain),
+			not: jest.fn((...args: unknown[]) => {
+				filters.push(args);
+				return chain;
+			}),
+			order: jest.fn(() => chain),
+			maybeSingle: jest.fn(() => Promise.resolve(result)),
+			then: (resolve: (value: any) => void) => resolve(result),
+		};
+		return chain;
+	});
+	return { supabase: { from }, filters };
+}
+
+const callFeed = (token: string) =>
+	GET(new Request(`http://localhost/api/calendar/feed/${token}`), {
+		params: Promise.resolve({ token }),
+	});
+
+describe('Calendar feed route', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+	});
+
+	it('serves the shop appointments as an ICS calendar', async () => {
+		const { supabase, filters } = makeSupabase(shop);
+		(createClient as jest.Mock).mockReturnValue(supabase);
+
+		const response = await callFeed(`${TOKEN}.ics`);
+		// Unfold 75-octet continuation lines
+		const body = (await response.text()).replace(/\r\n /g, '');
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-type')).toBe(
+			'text/calendar; charset=utf-8'
+		);
+		expect(body).toContain('METHOD:PUBLISH');
+		expect(body).toContain('X-WR-CALNAME:Stitch & Co Appointments');
+		expect(body).toContain('UID:appt-1@hemsy.app');
+		expect(body).toContain('SUMMARY:Fitting: Jane Doe');
+		expect(body).toContain('Bring heels');
+		expect(body).toContain(
+			'/appointments?view=day&date=2026-10-21&focus=appt-1'
+		);
+		expect(filters).toContainEqual(['status', 'in', '(canceled,declined)']);
+	});
+
+	it('404s for unknown tokens', async () => {
+		const { supabase } = makeSupabase(null);
+		(createClient as jest.Mock).mockReturnValue(supabase);
+
+		const response = await callFeed(TOKEN);
+
+		expect(response.status).toBe(404);
+	});
+
+	it('404s for malformed tokens without querying', async () => {
+		const { supabase } = makeSupabase(shop);
+		(createClient as jest.Mock).mockReturnValue(supabase);
+
+		const response = await callFeed('not-a-token');
+
+		expect(response.status).toBe(404);
+		expect(supabase.from).not.toHaveBeenCalled();
+	});
+});
@@ -14,6 +14,17 @@ jest.mock('next/link', () => {
   };
 });
 
+// No timer running
+jest.mock('@/providers/ServiceTimerProvider', () => ({
+  useServiceTimer: () => ({
+    timer: null,
+    lastStopped: null,
+    startTimer: jest.fn(),
+    stopTimer: jest.fn(),
+    refreshTimer: jest.fn(),
+  }),
+}));
+
 const mockGarment = {
   id: 'test-garment-id',
   name: 'Test Garment',
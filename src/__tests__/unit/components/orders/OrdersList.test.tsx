@@ -43,6 +43,9 @@ const mockInitialData: PaginatedOrders = {
 			total_cents: 5000,
 			subtotal_cents: 5000,
 			discount_cents: 0,
+			discount_code: null,
+			discount_id: null,
+			discount_reason: null,
 			tax_cents: 0,
 			notes: 'Test order 1',
 			order_due_date: '2024-01-10T00:00:00Z',
@@ -70,6 +73,9 @@ const mockInitialData: PaginatedOrders = {
 			total_cents: 7500,
 			subtotal_cents: 7500,
 			discount_cents: 0,
+			discount_code: null,
+			discount_id: null,
+			discount_reason: null,
 			tax_cents: 0,
 			notes: null,
 			order_due_date: '2024-01-15T00:00:00Z',
@@ -404,6 +410,9 @@ describe('OrdersList', () => {
 					total_cents: 5000,
 					subtotal_cents: 5000,
 					discount_cents: 0,
+					discount_code: null,
+					discount_id: null,
+					discount_reason: null,
 					tax_cents: 0,
 					notes: 'Test order 1',
 					order_due_date: null,
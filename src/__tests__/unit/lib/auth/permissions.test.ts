@@ -0,0 +1,72 @@
+import {
+	getPermissionError,
+	getStaffRole,
+	hasPermission,
+	requirePermission,
+} from '@/lib/auth/permissions';
+
+const shop = { owner_user_id: 'owner-1' };
+
+describe('getStaffRole', () => {
+	it('treats the shop owner as owner whatever users.role says', () => {
+		expect(getStaffRole({ id: 'owner-1', role: 'user' }, shop)).toBe('owner');
+	});
+
+	it('uses the staff role for everyone else', () => {
+		expect(getStaffRole({ id: 'user-2', role: 'front_desk' }, shop)).toBe(
+			'front_desk'
+		);
+	});
+
+	it('never makes a non-owner an owner', () => {
+		expect(getStaffRole({ id: 'user-2', role: 'owner' }, shop)).toBe(
+			'seamstress'
+		);
+		expect(getStaffRole({ id: 'user-2', role: 'user' }, shop)).toBe(
+			'seamstress'
+		);
+	});
+});
+
+describe('hasPermission', () => {
+	it('lets front desk staff refund but not change settings', () => {
+		expect(hasPermission('front_desk', 'issue_refunds')).toBe(true);
+		expect(hasPermission('front_desk', 'manage_settings')).toBe(false);
+	});
+
+	it('keeps waiving deposits to the owner', () => {
+		expect(hasPermission('owner', 'waive_deposits')).toBe(true);
+		expect(hasPermission('front_desk', 'waive_deposits')).toBe(false);
+		expect(hasPermission('seamstress', 'waive_deposits')).toBe(false);
+	});
+
+	it('gives seamstresses no admin permissions', () => {
+		expect(hasPermission('seamstress', 'issue_refunds')).toBe(false);
+		expect(hasPermission('seamstress', 'manage_service_pricing')).toBe(false);
+	});
+});
+
+describe('getPermissionError / requirePermission', () => {
+	const seamstress = {
+		user: { id: 'user-2', role: 'seamstress' },
+		shop,
+	};
+
+	it('explains why the action is not allowed', () => {
+		expect(getPermissionError(seamstress, 'manage_service_pricing')).toBe(
+			'Only the shop owner can change service pricing'
+		);
+		expect(() => requirePermission(seamstress, 'issue_refunds')).toThrow(
+			"You don't have permission to issue refunds"
+		);
+	});
+
+	it('allows the owner everything', () => {
+		expect(
+			getPermissionError(
+				{ user: { id: 'owner-1', role: 'owner' }, shop },
+				'manage_staff'
+			)
+		).toBeNull();
+	});
+});
@@ -0,0 +1,244 @@
+const mockSendAppointmentEmail = jest.fn();
+
+jest.mock('@/lib/services/email/email-service', () => ({
+	EmailService: jest.fn().mockImplementation(() => ({
+		sendAppointmentEmail: mockSendAppointmentEmail,
+	})),
+}));
+
+import { AppointmentReminderService } from '@/lib/services/email/appointment-reminder-service';
+import { EmailService } from '@/lib/services/email/email-service';
+
+type Row = Record<string, any>;
+
+/**
+ * Minimal in-memory stand-in for the Supabase query builder, supporting just
+ * the filters the reminder service uses.
+ */
+function makeFakeSupabase(tables: { shops: Row[]; appointments: Row[] }) {
+	function builder(table: keyof typeof tables) {
+		const filters: Array<(row: Row) => boolean> = [];
+		let updates: Row | null = null;
+
+		const run = () => {
+			const rows = tables[table].filter((row) => filters.every((f) => f(row)));
+			if (updates) {
+				rows.forEach((row) => Object.assign(row, updates));
+			}
+			return { data: rows.map((row) => ({ ...row })), error: null };
+		};
+
+		const chain: any = {
+			select: jest.fn(() => chain),
+			update: jest.fn((values: Row) => {
+				updates = values;
+				return chain;
+			}),
+			eq: jest.fn((column: string, value: any) => {
+				filters.push((row) => row[column] === value);
+				return chain;
+			}),
+			in: jest.fn((column: string, values: any[]) => {
+				filters.push((row) => values.includes(row[column]));
+				return chain;
+			}),
+			or: jest.fn((expression: string) => {
+				if (expression === 'reminder_sent.is.null,reminder_sent.eq.false') {
+					filters.push((row) => !row.reminder_sent);
+				}
+				return chain;
+			}),
+			gt: jest.fn((column: string, value: string) => {
+				filters.push((row) => row[column] > value);
+				return chain;
+			}),
+			lte: jest.fn((column: string, value: string) => {
+				filters.push((row) => row[column] <= value);
+				return chain;
+			}),
+			order: jest.fn(() => Promise.resolve(run())),
+			then: (resolve: any, reject: any) =>
+				Promise.resolve(run()).then(resolve, reject),
+		};
+
+		return chain;
+	}
+
+	return { from: jest.fn((table: keyof typeof tables) => builder(table)) };
+}
+
+function makeAppointment(overrides: Row = {}): Row {
+	return {
+		id: 'appt-1',
+		shop_id: 'shop-1',
+		status: 'confirmed',
+		reminder_sent: false,
+		start_at: '2025-03-11T15:00:00.000Z',
+		client: { email: 'jane@example.com', accept_email: true },
+		...overrides,
+	};
+}
+
+describe('AppointmentReminderService', () => {
+	const NOW = new Date('2025-03-10T16:00:00.000Z');
+
+	const shop = {
+		id: 'shop-1',
+		owner_user_id: 'owner-1',
+		calendar_settings: { send_reminders: true, reminder_hours_before: 24 },
+	};
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+		jest.setSystemTime(NOW);
+		mockSendAppointmentEmail.mockReset();
+		mockSendAppointmentEmail.mockResolvedValue({
+			success: true,
+			logId: 'log-1',
+		});
+		(EmailService as unknown as jest.Mock).mockClear();
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('sends reminders only for appointments inside the reminder window', async () => {
+		const appointments = [
+			makeAppointment({ id: 'in-window' }),
+			makeAppointment({ id: 'too-far', start_at: '2025-03-11T16:00:01.000Z' }),
+			makeAppointment({
+				id: 'already-started',
+				start_at: '2025-03-10T15:59:00.000Z',
+			}),
+		];
+		const supabase = makeFakeSupabase({ shops: [shop], appointments });
+
+		const summary = await new AppointmentReminderService(
+			supabase as any
+		).dispatchDueReminders();
+
+		expect(summary).toMatchObject({ shopsProcessed: 1, sent: 1, failed: 0 });
+		expect(mockSendAppointmentEmail).toHaveBeenCalledTimes(1);
+		expect(mockSendAppointmentEmail).toHaveBeenCalledWith(
+			'in-window',
+			'appointment_reminder',
+			{ reminder_for: '2025-03-11T15:00:00.000Z' }
+		);
+		expect(EmailService).toHaveBeenCalledWith(supabase, 'owner-1');
+		expect(appointments[0]!.reminder_sent).toBe(true);
+		expect(appointments[1]!.reminder_sent).toBe(false);
+	});
+
+	it('picks up an appointment once the clock moves into its window', async () => {
+		const appointments = [
+			makeAppointment({ start_at: '2025-03-11T18:00:00.000Z' }),
+		];
+		const supabase = makeFakeSupabase({ shops: [shop], appointments });
+		const service = new AppointmentReminderService(supabase as any);
+
+		expect((await service.dispatchDueReminders()).sent).toBe(0);
+
+		jest.setSystemTime(new Date('2025-03-10T18:30:00.000Z'));
+
+		expect((await service.dispatchDueReminders()).sent).toBe(1);
+	});
+
+	it('never sends the same reminder twice', async () => {
+		const appointments = [makeAppointment()];
+		const supabase = makeFakeSupabase({ shops: [shop], appointments });
+		const service = new AppointmentReminderService(supabase as any);
+
+		await service.dispatchDueReminders();
+		const second = await service.dispatchDueReminders();
+
+		expect(second.sent).toBe(0);
+		expect(mockSendAppointmentEmail).toHaveBeenCalledTimes(1);
+	});
+
+	it('respects the client email preference', async () => {
+		const appointments = [
+			makeAppointment({
+				client: { email: 'jane@example.com', accept_email: false },
+			}),
+		];
+		const supabase = makeFakeSupabase({ shops: [shop], appointments });
+
+		const summary = await new AppointmentReminderService(
+			supabase as any
+		).dispatchDueReminders();
+
+		expect(summary.skipped).toBe(1);
+		expect(summary.results[0]!.reason).toBe('Client opted out');
+		expect(mockSendAppointmentEmail).not.toHaveBeenCalled();
+		expect(appointments[0]!.reminder_sent).toBe(false);
+	});
+
+	it('ignores canceled appointments and shops with reminders disabled', async () => {
+		const disabledShop = {
+			id: 'shop-2',
+			owner_user_id: 'owner-2',
+			calendar_settings: { send_reminders: false, reminder_hours_before: 24 },
+		};
+		const appointments = [
+			makeAppointment({ id: 'canceled', status: 'canceled' }),
+			makeAppointment({ id: 'disabled-shop', shop_id: 'shop-2' }),
+		];
+		const supabase = makeFakeSupabase({
+			shops: [shop, disabledShop],
+			appointments,
+		});
+
+		const summary = await new AppointmentReminderService(
+			supabase as any
+		).dispatchDueReminders();
+
+		expect(summary.shopsProcessed).toBe(1);
+		expect(mockSendAppointmentEmail).not.toHaveBeenCalled();
+	});
+
+	it('uses the default 24 hour window when a shop has no calendar settings', async () => {
+		const appointments = [makeAppointment()];
+		const supabase = makeFakeSupabase({
+			shops: [{ ...shop, calendar_settings: null }],
+			appointments,
+		});
+
+		const summary = await new AppointmentReminderService(
+			supabase as any
+		).dispatchDueReminders();
+
+		expect(summary.sent).toBe(1);
+	});
+
+	it('releases the claim when sending fails so the next run retries', async () => {
+		mockSendAppointmentEmail.mockResolvedValueOnce({
+			success: false,
+			error: 'Resend down',
+		});
+		const appointments = [makeAppointment()];
+		const supabase = makeFakeSupabase({ shops: [shop], appointments });
+		const service = new AppointmentReminderService(supabase as any);
+
+		const first = await service.dispatchDueReminders();
+		expect(first.failed).toBe(1);
+		expect(first.results[0]!.reason).toBe('Resend down');
+		expect(appointments[0]!.reminder_sent).toBe(false);
+
+		const second = await service.dispatchDueReminders();
+		expect(second.sent).toBe(1);
+	});
+
+	it('does not mark reminders sent when delivery is blocked', async () => {
+		mockSendAppointmentEmail.mockResolvedValueOnce({ success: true });
+		const appointments = [makeAppointment()];
+		const supabase = makeFakeSupabase({ shops: [shop], appointments });
+
+		const summary = await new AppointmentReminderService(
+			supabase as any
+		).dispatchDueReminders();
+
+		expect(summary.skipped).toBe(1);
+		expect(appointments[0]!.reminder_sent).toBe(false);
+	});
+});
@@ -0,0 +1,166 @@
+// Ensure email sending is enabled for these tests
+jest.mock('@/lib/config/email.config', () => ({
+	__esModule: true,
+	emailConfig: {
+		sender: { address: 'test@hemsy.app', name: 'Hemsy Test' },
+		features: { previewMode: true, enabled: true },
+		urls: {
+			app: 'http://localhost:3000',
+			confirmation: 'http://localhost:3000/confirm',
+		},
+	},
+}));
+
+const mockSend = jest.fn();
+jest.mock('@/lib/services/email/resend-client', () => ({
+	getResendClient: () => ({ send: mockSend }),
+}));
+
+jest.mock('@/lib/services/email/react-email-renderer', () => ({
+	ReactEmailRenderer: jest.fn().mockImplementation(() => ({
+		render: jest.fn().mockResolvedValue({
+			subject: 'Your order is ready for pickup at Stitch Shop',
+			html: '<p>ready</p>',
+			text: 'ready',
+		}),
+	})),
+}));
+
+import { EmailService } from '@/lib/services/email/email-service';
+import type { GarmentReadyNotification } from '@/types/email';
+
+function makeSupabase(existingLogs: any[]) {
+	const emailLogsChain: any = {
+		select: jest.fn().mockReturnThis(),
+		eq: jest.fn().mockReturnThis(),
+		contains: jest.fn().mockReturnThis(),
+		limit: jest.fn().mockResolvedValue({ data: existingLogs }),
+		insert: jest.fn().mockReturnThis(),
+		update: jest.fn().mockReturnThis(),
+		single: jest.fn().mockResolvedValue({ data: { id: 'log-1' }, error: null }),
+	};
+	const signaturesChain: any = {
+		select: jest.fn().mockReturnThis(),
+		eq: jest.fn().mockReturnThis(),
+		single: jest.fn().mockResolvedValue({ data: null, error: null }),
+	};
+
+	return {
+		emailLogsChain,
+		supabase: {
+			from: jest.fn((table: string) =>
+				table === 'email_logs' ? emailLogsChain : signaturesChain
+			),
+		} as any,
+	};
+}
+
+const notification: GarmentReadyNotification = {
+	scope: 'order',
+	orderId: 'order-1',
+	orderNumber: 'ORD-1042',
+	garments: [
+		{ id: 'g-1', name: 'Wedding Dress' },
+		{ id: 'g-2', name: 'Suit' },
+	],
+	client: {
+		id: 'client-1',
+		first_name: 'Jane',
+		last_name: 'Doe',
+		email: 'jane@example.com',
+		phone_number: '2127365000',
+		accept_email: true,
+		accept_sms: false,
+	},
+	shop: { id: 'shop-1', name: 'Stitch Shop', email: 'shop@example.com' },
+	balanceDue: '$85.00',
+	paymentLink: 'https://hemsy.app/pay/abc',
+};
+
+describe('EmailService.sendGarmentReadyEmail', () => {
+	beforeEach(() => {
+		mockSend.mockReset().mockResolvedValue({
+			success: true,
+			messageId: 'resend-1',
+		});
+	});
+
+	it('sends the email and logs it against the order', async () => {
+		const { supabase, emailLogsChain } = makeSupabase([]);
+		const service = new EmailService(supabase, 'user-1');
+
+		const result = await service.sendGarmentReadyEmail(notification, {
+			channels: ['email'],
+		});
+
+		expect(result).toEqual({ success: true, logId: 'log-1' });
+		expect(emailLogsChain.contains).toHaveBeenCalledWith('metadata', {
+			order_id: 'order-1',
+			ready_scope: 'order',
+		});
+		expect(emailLogsChain.insert).toHaveBeenCalledWith(
+			expect.objectContaining({
+				email_type: 'garment_ready_for_pickup',
+				recipient_email: 'jane@example.com',
+				metadata: expect.objectContaining({
+					order_id: 'order-1',
+					ready_scope: 'order',
+					garment_ids: ['g-1', 'g-2'],
+					balance_due: '$85.00',
+				}),
+			})
+		);
+		expect(mockSend).toHaveBeenCalledWith(
+			expect.objectContaining({
+				to: 'jane@example.com',
+				replyTo: 'shop@example.com',
+			})
+		);
+	});
+
+	it('does not send twice for the same order', async () => {
+		const { supabase } = makeSupabase([{ id: 'existing-log' }]);
+		const service = new EmailService(supabase, 'user-1');
+
+		const result = await service.sendGarmentReadyEmail(notification, {
+			channels: ['email'],
+		});
+
+		expect(result).toEqual({ success: true, logId: 'existing-log' });
+		expect(mockSend).not.toHaveBeenCalled();
+	});
+
+	it('dedupes single-garment notifications by garment', async () => {
+		const { supabase, emailLogsChain } = makeSupabase([]);
+		const service = new EmailService(supabase, 'user-1');
+
+		await service.sendGarmentReadyEmail(
+			{
+				...notification,
+				scope: 'garment',
+				garments: [{ id: 'g-1', name: 'Wedding Dress' }],
+			},
+			{ channels: ['email'] }
+		);
+
+		expect(emailLogsChain.contains).toHaveBeenCalledWith('metadata', {
+			garment_id: 'g-1',
+		});
+	});
+
+	it('respects the client email opt-out', async () => {
+		const { supabase } = makeSupabase([]);
+		const service = new EmailService(supabase, 'user-1');
+
+		const result = await service.sendGarmentReadyEmail(
+			{
+				...notification,
+				client: { ...notification.client, accept_email: false },
+			},
+			{ channels: ['email'] }
+		);
+
+		expect(result).toEqual({ success: true });
+		expect(mockSend).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,108 @@
+import { EmailService } from '@/lib/services/email/email-service';
+
+describe('EmailService - .ics attachments', () => {
+	const appointmentData = {
+		id: 'appt-1',
+		type: 'fitting',
+		date: '2026-10-21',
+		start_time: '14:00',
+		end_time: '14:30',
+		start_at: '2026-10-21T18:00:00.000Z',
+		end_at: '2026-10-21T18:30:00.000Z',
+		updated_at: '2026-10-19T12:00:00.000Z',
+		client: {
+			first_name: 'Jane',
+			last_name: 'Doe',
+			email: 'client@example.com',
+		},
+		shop: {
+			name: 'Stitch & Co',
+			email: 'shop@example.com',
+			mailing_address: '1 Main St',
+			timezone: 'America/New_York',
+		},
+	};
+	const rendered = { subject: 'subj', body: 'body' };
+
+	function makeService() {
+		const emailService = new EmailService({} as any, 'owner-user-id');
+		const send = jest
+			.fn()
+			.mockResolvedValue({ success: true, messageId: 'id' });
+		(emailService as any).resendClient = { send };
+		(emailService as any).repository = {
+			getUserEmailSettings: jest
+				.fn()
+				.mockResolvedValue({ receive_appointment_notifications: false }),
+		};
+		return { emailService, send };
+	}
+
+	// Unfold 75-octet continuation lines so assertions can match whole properties
+	function attachmentText(payload: any): string {
+		return payload.attachments[0].content
+			.toString('utf-8')
+			.replace(/\r\n /g, '');
+	}
+
+	it.each(['appointment_scheduled', 'appointment_rescheduled'])(
+		'attaches a REQUEST invite to %s emails',
+		async (emailType) => {
+			const { emailService, send } = makeService();
+
+			await (emailService as any).sendEmails(
+				emailType,
+				appointmentData,
+				rendered
+			);
+
+			const payload = send.mock.calls[0][0];
+			expect(payload.attachments[0]).toMatchObject({
+				filename: 'appointment.ics',
+				contentType: 'text/calendar; charset=utf-8; method=REQUEST',
+			});
+			const ics = attachmentText(payload);
+			expect(ics).toContain('METHOD:REQUEST');
+			expect(ics).toContain('UID:appt-1@hemsy.app');
+			expect(ics).toContain('DTSTART:20261021T180000Z');
+			expect(ics).toContain('SUMMARY:Fitting with Stitch & Co');
+			expect(ics).toContain('LOCATION:1 Main St');
+			expect(ics).toContain(
+				'ATTENDEE;CN="Jane Doe";ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:client@example.com'
+			);
+		}
+	);
+
+	it('attaches a METHOD:CANCEL update to cancellation emails', async () => {
+		const { emailService, send } = makeService();
+
+		await (emailService as any).sendEmails(
+			'appointment_canceled',
+			{ ...appointmentData, updated_at: '2026-10-20T12:00:00.000Z' },
+			rendered
+		);
+
+		const payload = send.mock.calls[0][0];
+		expect(payload.attachments[0].filename).toBe('cancellation.ics');
+		const ics = attachmentText(payload);
+		expect(ics).toContain('METHOD:CANCEL');
+		expect(ics).toContain('STATUS:CANCELLED');
+		expect(ics).toContain('UID:appt-1@hemsy.app');
+		// Higher sequence than the original invite so calendars apply it
+		expect(ics).toContain(
+			`SEQUENCE:${Math.floor(Date.parse('2026-10-20T12:00:00.000Z') / 1000)}`
+		);
+	});
+
+	it('does not attach an invite to other appointment emails', async () => {
+		const { emailService, send } = makeService();
+
+		await (emailService as any).sendEmails(
+			'appointment_reminder',
+			appointmentData,
+			rendered
+		);
+
+		expect(send.mock.calls[0][0].attachments).toBeUndefined();
+	});
+});
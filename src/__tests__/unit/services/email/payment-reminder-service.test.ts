@@ -0,0 +1,452 @@
+const mockCreatePaymentLink = jest.fn();
+
+jest.mock('@/lib/utils/payment-links', () => ({
+	createPaymentLink: (...args: unknown[]) => mockCreatePaymentLink(...args),
+}));
+
+import { PaymentReminderService } from '@/lib/services/email/payment-reminder-service';
+
+type Row = Record<string, any>;
+
+interface Tables {
+	shop_settings: Row[];
+	payment_reminder_steps: Row[];
+	invoices: Row[];
+	garments: Row[];
+	garment_history: Row[];
+	payment_reminder_pauses: Row[];
+	payment_reminders: Row[];
+	email_logs: Row[];
+}
+
+/**
+ * Minimal in-memory stand-in for the Supabase query builder. Joined rows are
+ * stored pre-joined, and payment_reminders enforces the claim index.
+ */
+function makeFakeSupabase(tables: Tables) {
+	function builder(table: keyof Tables) {
+		const filters: Array<(row: Row) => boolean> = [];
+		let updates: Row | null = null;
+		let inserted: Row[] | null = null;
+
+		const run = () => {
+			if (inserted) {
+				const rows = inserted;
+				if (table === 'payment_reminders') {
+					const clash = rows.some((row) =>
+						tables.payment_reminders.some(
+							(existing) =>
+								existing.invoice_id === row.invoice_id &&
+								(existing.installment_id ?? null) ===
+									(row.installment_id ?? null) &&
+								existing.days_after === row.days_after &&
+								existing.status !== 'failed'
+						)
+					);
+					if (clash) {
+						return { data: null, error: { code: '23505' } };
+					}
+				}
+				const created = rows.map((row, i) => ({
+					id: `${table}-${tables[table].length + i + 1}`,
+					...row,
+				}));
+				tables[table].push(...created);
+				return { data: created, error: null };
+			}
+
+			const rows = tables[table].filter((row) => filters.every((f) => f(row)));
+			if (updates) {
+				rows.forEach((row) => Object.assign(row, updates));
+			}
+			return { data: rows.map((row) => ({ ...row })), error: null };
+		};
+
+		const chain: any = {
+			select: jest.fn(() => chain),
+			insert: jest.fn((values: Row | Row[]) => {
+				inserted = Array.isArray(values) ? values : [values];
+				return chain;
+			}),
+			update: jest.fn((values: Row) => {
+				updates = values;
+				return chain;
+			}),
+			eq: jest.fn((column: string, value: any) => {
+				filters.push((row) => row[column] === value);
+				return chain;
+			}),
+			in: jest.fn((column: string, values: any[]) => {
+				filters.push((row) => values.includes(row[column]));
+				return chain;
+			}),
+			is: jest.fn((column: string, value: null) => {
+				filters.push((row) => (row[column] ?? null) === value);
+				return chain;
+			}),
+			order: jest.fn(() => chain),
+			single: jest.fn(() => {
+				const { data, error } = run();
+				return Promise.resolve({ data: data?.[0] ?? null, error });
+			}),
+			then: (resolve: any, reject: any) =>
+				Promise.resolve(run()).then(resolve, reject),
+		};
+
+		return chain;
+	}
+
+	return { from: jest.fn((table: keyof Tables) => builder(table)) };
+}
+
+const shop = {
+	id: 'shop-1',
+	name: 'Hemsy Tailoring',
+	business_name: null,
+	email: 'shop@example.com',
+	phone_number: '555-0100',
+	timezone: 'UTC',
+	owner_user_id: 'owner-1',
+};
+
+const steps = [
+	{
+		id: 'step-3',
+		shop_id: 'shop-1',
+		days_after: 3,
+		subject: 'Invoice {invoice_number} is overdue',
+		body: 'Hi {client_name}, {balance_due} is due: {payment_link}',
+	},
+	{
+		id: 'step-7',
+		shop_id: 'shop-1',
+		days_after: 7,
+		subject: 'Second notice for {invoice_number}',
+		body: 'Pay {balance_due} here: {payment_link}',
+	},
+];
+
+function makeInvoice(overrides: Row = {}): Row {
+	return {
+		id: 'inv-1',
+		shop_id: 'shop-1',
+		status: 'partially_paid',
+		invoice_number: 'INV-001',
+		amount_cents: 10000,
+		due_date: '2025-03-06',
+		order_id: 'order-1',
+		client_id: 'client-1',
+		payment_reminders_stopped_at: null,
+		client: {
+			first_name: 'Jane',
+			last_name: 'Doe',
+			email: 'jane@example.com',
+			accept_email: true,
+		},
+		order: { order_number: 'ORD-001' },
+		payments: [
+			{
+				amount_cents: 4000,
+				refunded_amount_cents: 0,
+				status: 'completed',
+				payment_type: 'deposit',
+			},
+		],
+		payment_reminders: [],
+		...overrides,
+	};
+}
+
+function makeTables(overrides: Partial<Tables> = {}): Tables {
+	return {
+		shop_settings: [
+			{ shop_id: 'shop-1', payment_reminders_enabled: true, shop },
+		],
+		payment_reminder_steps: steps.map((step) => ({ ...step })),
+		invoices: [makeInvoice()],
+		garments: [],
+		garment_history: [],
+		payment_reminder_pauses: [],
+		payment_reminders: [],
+		email_logs: [],
+		...overrides,
+	};
+}
+
+describe('PaymentReminderService', () => {
+	const NOW = new Date('2025-03-10T16:00:00.000Z');
+	const mockSend = jest.fn();
+	const resendClient = { send: mockSend } as any;
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+		jest.setSystemTime(NOW);
+		mockSend.mockReset();
+		mockSend.mockResolvedValue({ success: true, messageId: 'msg-1' });
+		mockCreatePaymentLink.mockReset();
+		mockCreatePaymentLink.mockResolvedValue({
+			url: 'https://hemsy.app/pay/fresh-token',
+		});
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('sends the due step with the balance and a fresh payment link', async () => {
+		const tables = makeTables();
+		const supabase = makeFakeSupabase(tables);
+
+		const summary = await new PaymentReminderService(
+			supabase as any,
+			resendClient
+		).dispatchDueReminders();
+
+		expect(summary).toMatchObject({ shopsProcessed: 1, sent: 1, failed: 0 });
+		expect(mockCreatePaymentLink).toHaveBeenCalledWith(supabase, 'inv-1');
+		expect(mockSend).toHaveBeenCalledWith({
+			to: 'jane@example.com',
+			subject: 'Invoice INV-001 is overdue',
+			text: 'Hi Jane Doe, $60.00 is due: https://hemsy.app/pay/fresh-token',
+			from: expect.stringContaining('Hemsy Tailoring <'),
+			replyTo: 'shop@example.com',
+		});
+		expect(tables.payment_reminders).toEqual([
+			expect.objectContaining({
+				invoice_id: 'inv-1',
+				days_after: 3,
+				status: 'sent',
+				balance_cents: 6000,
+				payment_link_url: 'https://hemsy.app/pay/fresh-token',
+			}),
+		]);
+		expect(tables.email_logs).toEqual([
+			expect.objectContaining({
+				email_type: 'payment_reminder',
+				created_by: 'owner-1',
+			}),
+		]);
+	});
+
+	it('counts overdue from the first pickup when there is no due date', async () => {
+		const tables = makeTables({
+			invoices: [makeInvoice({ due_date: null })],
+			garments: [
+				{ id: 'g-1', order_id: 'order-1', stage: 'Done' },
+				{ id: 'g-2', order_id: 'order-1', stage: 'Ready For Pickup' },
+			],
+			garment_history: [
+				{
+					garment_id: 'g-1',
+					field_name: 'stage',
+					new_value: 'Ready For Pickup',
+					changed_at: '2025-02-20T12:00:00.000Z',
+				},
+				{
+					garment_id: 'g-1',
+					field_name: 'stage',
+					new_value: 'Done',
+					changed_at: '2025-03-02T12:00:00.000Z',
+				},
+			],
+		});
+
+		const summary = await new PaymentReminderService(
+			makeFakeSupabase(tables) as any,
+			resendClient
+		).dispatchDueReminders();
+
+		expect(summary.results).toEqual([
+			expect.objectContaining({ outcome: 'sent', daysAfter: 7 }),
+		]);
+	});
+
+	it('does not send a step twice or remind invoices that are paid up', async () => {
+		const tables = makeTables({
+			invoices: [
+				makeInvoice({
+					payment_reminders: [
+						{ days_after: 7, status: 'sent', installment_id: null },
+					],
+				}),
+				makeInvoice({
+					id: 'inv-2',
+					payments: [
+						{
+							amount_cents: 10000,
+							refunded_amount_cents: 0,
+							status: 'completed',
+							payment_type: 'remainder',
+						},
+					],
+				}),
+				makeInvoice({ id: 'inv-3', due_date: '2025-03-09' }),
+			],
+		});
+
+		const summary = await new PaymentReminderService(
+			makeFakeSupabase(tables) as any,
+			resendClient
+		).dispatchDueReminders();
+
+		expect(summary.results).toEqual([]);
+		expect(mockSend).not.toHaveBeenCalled();
+	});
+
+	it('skips paused clients without claiming the step', async () => {
+		const tables = makeTables({
+			payment_reminder_pauses: [{ shop_id: 'shop-1', client_id: 'client-1' }],
+		});
+
+		const summary = await new PaymentReminderService(
+			makeFakeSupabase(tables) as any,
+			resendClient
+		).dispatchDueReminders();
+
+		expect(summary.results).toEqual([
+			expect.objectContaining({
+				outcome: 'skipped',
+				reason: 'Reminders paused',
+			}),
+		]);
+		expect(tables.payment_reminders).toEqual([]);
+	});
+
+	it('drops steps that were already due when a payment came in', async () => {
+		const tables = makeTables({
+			invoices: [
+				makeInvoice({ payment_reminders_stopped_at: '2025-03-09T10:00:00Z' }),
+			],
+		});
+
+		const summary = await new PaymentReminderService(
+			makeFakeSupabase(tables) as any,
+			resendClient
+		).dispatchDueReminders();
+
+		expect(summary.sent).toBe(0);
+		expect(mockSend).not.toHaveBeenCalled();
+	});
+
+	it('sends steps that come due after a partial payment', async () => {
+		const tables = makeTables({
+			invoices: [
+				makeInvoice({ payment_reminders_stopped_at: '2025-03-08T10:00:00Z' }),
+			],
+		});
+
+		const summary = await new PaymentReminderService(
+			makeFakeSupabase(tables) as any,
+			resendClient
+		).dispatchDueReminders();
+
+		expect(summary.results).toEqual([
+			expect.objectContaining({ outcome: 'sent', daysAfter: 3 }),
+		]);
+	});
+
+	it('chases each late installment through the schedule', async () => {
+		const tables = makeTables({
+			invoices: [
+				makeInvoice({
+					amount_cents: 9000,
+					due_date: '2025-04-01',
+					invoice_installments: [
+						{
+							id: 'inst-1',
+							sequence: 1,
+							amount_cents: 3000,
+							due_date: '2025-02-01',
+						},
+						{
+							id: 'inst-2',
+							sequence: 2,
+							amount_cents: 3000,
+							due_date: '2025-03-05',
+						},
+						{
+							id: 'inst-3',
+							sequence: 3,
+							amount_cents: 3000,
+							due_date: '2025-04-01',
+						},
+					],
+					payments: [
+						{
+							amount_cents: 3000,
+							refunded_amount_cents: 0,
+							status: 'completed',
+							payment_type: 'remainder',
+						},
+					],
+					// Installment 1 was paid after being chased
+					payment_reminders_stopped_at: '2025-02-10T10:00:00Z',
+					payment_reminders: [
+						{ days_after: 3, status: 'sent', installment_id: 'inst-1' },
+						{ days_after: 7, status: 'sent', installment_id: 'inst-1' },
+					],
+				}),
+			],
+		});
+
+		const summary = await new PaymentReminderService(
+			makeFakeSupabase(tables) as any,
+			resendClient
+		).dispatchDueReminders();
+
+		expect(summary.results).toEqual([
+			expect.objectContaining({ outcome: 'sent', daysAfter: 3 }),
+		]);
+		expect(tables.payment_reminders).toEqual([
+			expect.objectContaining({ installment_id: 'inst-2', days_after: 3 }),
+		]);
+	});
+
+	it('skips a step another run already claimed', async () => {
+		const tables = makeTables({
+			payment_reminders: [
+				{ id: 'claim', invoice_id: 'inv-1', days_after: 3, status: 'sending' },
+			],
+		});
+
+		const summary = await new PaymentReminderService(
+			makeFakeSupabase(tables) as any,
+			resendClient
+		).dispatchDueReminders();
+
+		expect(summary.results).toEqual([
+			expect.objectContaining({
+				outcome: 'skipped',
+				reason: 'Already claimed',
+			}),
+		]);
+		expect(mockSend).not.toHaveBeenCalled();
+	});
+
+	it('marks a failed send so the next run can retry it', async () => {
+		mockSend.mockResolvedValueOnce({ success: false, error: 'Bounced' });
+		const tables = makeTables();
+		const service = new PaymentReminderService(
+			makeFakeSupabase(tables) as any,
+			resendClient
+		);
+
+		const first = await service.dispatchDueReminders();
+
+		expect(first.results).toEqual([
+			expect.objectContaining({ outcome: 'failed', reason: 'Bounced' }),
+		]);
+		expect(tables.payment_reminders[0]).toMatchObject({
+			status: 'failed',
+			error: 'Bounced',
+		});
+
+		const second = await service.dispatchDueReminders();
+
+		expect(second.sent).toBe(1);
+		expect(tables.payment_reminders.map((r) => r.status)).toEqual([
+			'failed',
+			'sent',
+		]);
+	});
+});
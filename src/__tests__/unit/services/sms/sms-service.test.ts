@@ -0,0 +1,203 @@
+jest.mock('@/lib/config/sms.config', () => ({
+	smsConfig: {
+		provider: 'fake',
+		twilio: {
+			accountSid: null,
+			authToken: null,
+			fromNumber: null,
+			messagingServiceSid: null,
+		},
+		features: { previewMode: false, enabled: true },
+		dev: { overrideRecipient: null },
+	},
+}));
+
+const mockCreateSmsLog = jest.fn();
+const mockUpdateSmsLog = jest.fn();
+const mockFindExistingLog = jest.fn();
+
+jest.mock('@/lib/services/sms/sms-repository', () => ({
+	SmsRepository: jest.fn().mockImplementation(() => ({
+		createSmsLog: mockCreateSmsLog,
+		updateSmsLog: mockUpdateSmsLog,
+		findExistingLog: mockFindExistingLog,
+	})),
+}));
+
+import { SmsService } from '@/lib/services/sms/sms-service';
+import { FakeSmsProvider } from '@/lib/services/sms/fake-sms-provider';
+import { setSmsProvider } from '@/lib/services/sms/sms-client';
+import {
+	renderSmsTemplate,
+	SMS_OPT_OUT_FOOTER,
+} from '@/lib/services/sms/sms-templates';
+import { smsConfig } from '@/lib/config/sms.config';
+import type { SmsRecipient } from '@/types/sms';
+
+describe('SmsService', () => {
+	const provider = new FakeSmsProvider();
+	const client: SmsRecipient = {
+		id: 'client-1',
+		first_name: 'Jane',
+		last_name: 'Doe',
+		phone_number: '(212) 736-5000',
+		accept_sms: true,
+	};
+	const data = {
+		client_name: 'Jane Doe',
+		shop_name: 'Stitch Shop',
+		appointment_time: 'Monday, March 10, 2025 at 2:00 PM',
+	};
+
+	beforeEach(() => {
+		provider.reset();
+		setSmsProvider(provider);
+		(smsConfig.features as { enabled: boolean }).enabled = true;
+		mockCreateSmsLog.mockReset().mockResolvedValue('sms-log-1');
+		mockUpdateSmsLog.mockReset().mockResolvedValue(undefined);
+		mockFindExistingLog.mockReset().mockResolvedValue(null);
+	});
+
+	it('sends the rendered template and records a sent log', async () => {
+		const service = new SmsService({} as any, 'user-1');
+
+		const result = await service.sendToClient(
+			client,
+			'appointment_reminder',
+			data,
+			{ metadata: { appointment_id: 'appt-1' } }
+		);
+
+		expect(result).toEqual({
+			success: true,
+			messageId: 'fake_sms_1',
+			logId: 'sms-log-1',
+		});
+		expect(provider.lastMessage()).toMatchObject({
+			to: '+12127365000',
+			body: renderSmsTemplate('appointment_reminder', data),
+		});
+		expect(mockCreateSmsLog).toHaveBeenCalledWith(
+			expect.objectContaining({
+				sms_type: 'appointment_reminder',
+				recipient_phone: '+12127365000',
+				status: 'pending',
+				metadata: { client_id: 'client-1', appointment_id: 'appt-1' },
+			})
+		);
+		expect(mockUpdateSmsLog).toHaveBeenCalledWith(
+			'sms-log-1',
+			expect.objectContaining({
+				status: 'sent',
+				provider_message_id: 'fake_sms_1',
+			})
+		);
+	});
+
+	it('does not text clients who have not opted in', async () => {
+		const service = new SmsService({} as any, 'user-1');
+
+		const result = await service.sendToClient(
+			{ ...client, accept_sms: false },
+			'appointment_scheduled',
+			data
+		);
+
+		expect(result).toEqual({ success: true });
+		expect(provider.messages).toHaveLength(0);
+		expect(mockCreateSmsLog).not.toHaveBeenCalled();
+	});
+
+	it('does nothing when SMS sending is disabled', async () => {
+		(smsConfig.features as { enabled: boolean }).enabled = false;
+		const service = new SmsService({} as any, 'user-1');
+
+		const result = await service.sendToClient(
+			client,
+			'appointment_scheduled',
+			data
+		);
+
+		expect(result).toEqual({ success: true });
+		expect(provider.messages).toHaveLength(0);
+	});
+
+	it('rejects invalid phone numbers', async () => {
+		const service = new SmsService({} as any, 'user-1');
+
+		const result = await service.sendToClient(
+			{ ...client, phone_number: '123' },
+			'appointment_scheduled',
+			data
+		);
+
+		expect(result.success).toBe(false);
+		expect(provider.messages).toHaveLength(0);
+	});
+
+	it('skips the send when a matching log already exists', async () => {
+		mockFindExistingLog.mockResolvedValue('existing-log');
+		const service = new SmsService({} as any, 'user-1');
+
+		const result = await service.sendToClient(
+			client,
+			'appointment_reminder',
+			data,
+			{ dedupe: { appointment_id: 'appt-1' } }
+		);
+
+		expect(result).toEqual({ success: true, logId: 'existing-log' });
+		expect(mockFindExistingLog).toHaveBeenCalledWith('appointment_reminder', {
+			appointment_id: 'appt-1',
+		});
+		expect(provider.messages).toHaveLength(0);
+	});
+
+	it('marks the log failed when the provider errors', async () => {
+		provider.failNext('Carrier rejected');
+		const service = new SmsService({} as any, 'user-1');
+
+		const result = await service.sendToClient(client, 'payment_link', {
+			...data,
+			amount: '$45.00',
+			payment_link: 'https://pay.example.com/abc',
+		});
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Carrier rejected',
+			logId: 'sms-log-1',
+		});
+		expect(mockUpdateSmsLog).toHaveBeenCalledWith(
+			'sms-log-1',
+			expect.objectContaining({
+				status: 'failed',
+				last_error: 'Carrier rejected',
+			})
+		);
+	});
+});
+
+describe('renderSmsTemplate', () => {
+	it('includes the opt-out footer on every message', () => {
+		const body = renderSmsTemplate('garment_ready_for_pickup', {
+			client_name: 'Jane Doe',
+			shop_name: 'Stitch Shop',
+			garment_name: 'Wedding Dress',
+		});
+
+		expect(body).toContain('Hi Jane');
+		expect(body).toContain('Wedding Dress');
+		expect(body.endsWith(SMS_OPT_OUT_FOOTER)).toBe(true);
+	});
+
+	it('mentions the previous time for reschedules when known', () => {
+		const body = renderSmsTemplate('appointment_rescheduled', {
+			shop_name: 'Stitch Shop',
+			previous_time: 'Monday 2:00 PM',
+			appointment_time: 'Tuesday 3:00 PM',
+		});
+
+		expect(body).toContain('from Monday 2:00 PM to Tuesday 3:00 PM');
+	});
+});
@@ -0,0 +1,145 @@
+import {
+	buildWeeklyWorkload,
+	estimateServiceMinutes,
+	getDailyCapacityMinutes,
+	getWeekLoadWith,
+	suggestDueDate,
+} from '@/lib/utils/capacity-planning';
+
+// Monday
+const MONDAY = '2026-10-19';
+// Mon-Fri, 8 hours
+const WEEKDAYS = [0, 480, 480, 480, 480, 480, 0];
+
+describe('getDailyCapacityMinutes', () => {
+	it('uses open hours and skips closed days', () => {
+		expect(
+			getDailyCapacityMinutes([
+				{
+					day_of_week: 1,
+					open_time: '09:00:00',
+					close_time: '17:30:00',
+					is_closed: false,
+				},
+				{
+					day_of_week: 2,
+					open_time: '09:00',
+					close_time: '17:00',
+					is_closed: true,
+				},
+			])
+		).toEqual([0, 510, 0, 0, 0, 0, 0]);
+	});
+});
+
+describe('estimateServiceMinutes', () => {
+	it('multiplies the catalog estimate by quantity', () => {
+		expect(
+			estimateServiceMinutes({
+				quantity: 3,
+				unit: 'flat_rate',
+				estimatedMinutes: 20,
+			})
+		).toBe(60);
+	});
+
+	it('falls back to the hours of hourly services', () => {
+		expect(
+			estimateServiceMinutes({
+				quantity: 2,
+				unit: 'hour',
+				estimatedMinutes: null,
+			})
+		).toBe(120);
+	});
+
+	it('is null without an estimate', () => {
+		expect(
+			estimateServiceMinutes({
+				quantity: 1,
+				unit: 'flat_rate',
+				estimatedMinutes: null,
+			})
+		).toBeNull();
+	});
+});
+
+describe('suggestDueDate', () => {
+	it('is today when nothing is queued', () => {
+		expect(suggestDueDate([], WEEKDAYS, MONDAY, 120)).toBe(MONDAY);
+	});
+
+	it('waits for work due sooner but not for work due later', () => {
+		const queue = [
+			{ dueDate: '2026-10-20', minutes: 900 },
+			{ dueDate: '2026-11-30', minutes: 10000 },
+			{ dueDate: null, minutes: 10000 },
+		];
+
+		// 1020 minutes needed; Mon-Tue give 960
+		expect(suggestDueDate(queue, WEEKDAYS, MONDAY, 120)).toBe('2026-10-21');
+	});
+
+	it('counts overdue work and skips closed days', () => {
+		const queue = [{ dueDate: '2026-10-01', minutes: 480 }];
+
+		expect(suggestDueDate(queue, WEEKDAYS, '2026-10-23', 60)).toBe(
+			'2026-10-26'
+		);
+	});
+
+	it('is null when the shop has no working hours', () => {
+		expect(suggestDueDate([], [0, 0, 0, 0, 0, 0, 0], MONDAY, 60)).toBeNull();
+	});
+});
+
+describe('buildWeeklyWorkload', () => {
+	it('books work in the week it is due, overdue work in this week', () => {
+		const weeks = buildWeeklyWorkload(
+			[
+				{ dueDate: '2026-10-01', minutes: 600 },
+				{ dueDate: '2026-10-23', minutes: 300 },
+				{ dueDate: '2026-10-27', minutes: 120 },
+				{ dueDate: null, minutes: 999 },
+			],
+			WEEKDAYS,
+			// Wednesday: three working days left this week
+			'2026-10-21',
+			2
+		);
+
+		expect(weeks).toEqual([
+			{
+				weekStart: MONDAY,
+				weekEnd: '2026-10-25',
+				capacityMinutes: 1440,
+				bookedMinutes: 900,
+				overloaded: false,
+			},
+			{
+				weekStart: '2026-10-26',
+				weekEnd: '2026-11-01',
+				capacityMinutes: 2400,
+				bookedMinutes: 120,
+				overloaded: false,
+			},
+		]);
+	});
+});
+
+describe('getWeekLoadWith', () => {
+	it('flags a week the new work would overload', () => {
+		const queue = [{ dueDate: '2026-10-29', minutes: 2300 }];
+
+		expect(
+			getWeekLoadWith(queue, WEEKDAYS, MONDAY, '2026-10-28', 60).overloaded
+		).toBe(false);
+		expect(
+			getWeekLoadWith(queue, WEEKDAYS, MONDAY, '2026-10-28', 180)
+		).toMatchObject({
+			weekStart: '2026-10-26',
+			bookedMinutes: 2480,
+			overloaded: true,
+		});
+	});
+});
@@ -0,0 +1,105 @@
+import {
+	calculateOutstandingBalance,
+	editDistance,
+	findDuplicateClients,
+	normalizeName,
+	type DuplicateCandidate,
+} from '@/lib/utils/client-duplicates';
+
+function client(
+	id: string,
+	overrides: Partial<DuplicateCandidate> = {}
+): DuplicateCandidate {
+	return {
+		id,
+		first_name: 'Jane',
+		last_name: 'Smith',
+		email: `${id}@example.com`,
+		phone_number: '',
+		created_at: `2026-01-0${id.slice(-1)}T00:00:00Z`,
+		...overrides,
+	};
+}
+
+describe('normalizeName', () => {
+	it('drops accents, punctuation and case', () => {
+		expect(normalizeName("  José  O'Neil ")).toBe('jose oneil');
+	});
+});
+
+describe('editDistance', () => {
+	it('counts single-character edits', () => {
+		expect(editDistance('smith', 'smyth')).toBe(1);
+		expect(editDistance('jane', 'jane')).toBe(0);
+		expect(editDistance('', 'abc')).toBe(3);
+	});
+});
+
+describe('findDuplicateClients', () => {
+	it('matches phone numbers written differently', () => {
+		const pairs = findDuplicateClients([
+			client('c1', { phone_number: '(202) 555-0143' }),
+			client('c2', { first_name: 'J', phone_number: '+1 202 555 0143' }),
+		]);
+
+		expect(pairs).toHaveLength(1);
+		expect(pairs[0]?.reasons).toContain('phone');
+	});
+
+	it('matches emails regardless of case', () => {
+		const pairs = findDuplicateClients([
+			client('c1', { first_name: 'Ann', email: 'Jane@Example.com' }),
+			client('c2', { first_name: 'Bo', email: 'jane@example.com ' }),
+		]);
+
+		expect(pairs[0]?.reasons).toEqual(['email']);
+	});
+
+	it('matches the same name and names a typo apart', () => {
+		const pairs = findDuplicateClients([
+			client('c1'),
+			client('c2'),
+			client('c3', { last_name: 'Smyth' }),
+		]);
+
+		const reasons = Object.fromEntries(
+			pairs.map((p) => [`${p.clients[0].id}:${p.clients[1].id}`, p.reasons])
+		);
+		expect(reasons['c1:c2']).toEqual(['name']);
+		expect(reasons['c1:c3']).toEqual(['similar_name']);
+	});
+
+	it('ignores different people and blank details', () => {
+		expect(
+			findDuplicateClients([
+				client('c1', { first_name: 'Jane', last_name: 'Doe' }),
+				client('c2', { first_name: 'John', last_name: 'Lee', email: '' }),
+				client('c3', { first_name: 'Mary', last_name: 'Lee', email: '' }),
+			])
+		).toEqual([]);
+	});
+
+	it('puts the older record first and the surest matches at the top', () => {
+		const pairs = findDuplicateClients([
+			client('c4', { last_name: 'Smyth' }),
+			client('c3', { first_name: 'Ann', phone_number: '202-555-0143' }),
+			client('c1', { first_name: 'Bo', phone_number: '202-555-0143' }),
+			client('c2'),
+		]);
+
+		expect(pairs[0]?.clients.map((c) => c.id)).toEqual(['c1', 'c3']);
+		expect(pairs[1]?.clients.map((c) => c.id)).toEqual(['c2', 'c4']);
+	});
+});
+
+describe('calculateOutstandingBalance', () => {
+	it('sums what is owed per order without letting credits offset', () => {
+		expect(
+			calculateOutstandingBalance([
+				{ total_cents: 5000, paid_amount_cents: 2000 },
+				{ total_cents: 1000, paid_amount_cents: 1500 },
+				{ total_cents: 800, paid_amount_cents: null },
+			])
+		).toBe(3800);
+	});
+});
@@ -0,0 +1,161 @@
+import {
+	applyColumnMapping,
+	buildImportErrorReport,
+	checkClientImport,
+	checkServiceImport,
+	getMissingMappings,
+	guessColumnMapping,
+	summarizeImport,
+} from '@/lib/utils/csv-import';
+import { parseCsv } from '@/lib/utils/csv';
+
+describe('guessColumnMapping', () => {
+	it('matches common header names', () => {
+		const mapping = guessColumnMapping('clients', [
+			'Name',
+			'E-mail',
+			'Mobile',
+			'Notes',
+		]);
+
+		expect(mapping).toMatchObject({
+			full_name: 0,
+			email: 1,
+			phone_number: 2,
+			notes: 3,
+			first_name: null,
+		});
+		expect(getMissingMappings('clients', mapping)).toEqual([]);
+	});
+
+	it('lists required fields without a column', () => {
+		const mapping = guessColumnMapping('services', ['Service', 'Qty']);
+
+		expect(getMissingMappings('services', mapping).map((f) => f.key)).toEqual([
+			'price',
+		]);
+	});
+});
+
+describe('checkClientImport', () => {
+	const existing = [{ email: 'ann@example.com', phone_number: '+12025550188' }];
+
+	it('normalizes phones and emails, and flags duplicates', () => {
+		const records = applyColumnMapping(
+			[
+				['Jane Doe', 'JANE@example.com', '(202) 555-0143'],
+				['Ann Lee', 'ann@example.com', '202-555-0199'],
+				['Bob Ray', 'bob@example.com', '202 555 0188'],
+				['Jane D', 'jane@example.com', '202 555 0177'],
+			],
+			{ full_name: 0, email: 1, phone_number: 2 }
+		);
+
+		const results = checkClientImport(records, existing);
+
+		expect(results[0]).toMatchObject({
+			line: 2,
+			status: 'ready',
+			data: {
+				first_name: 'Jane',
+				last_name: 'Doe',
+				email: 'jane@example.com',
+				phone_number: '+12025550143',
+				accept_email: true,
+				accept_sms: false,
+			},
+		});
+		expect(results.slice(1).map((r) => r.status)).toEqual([
+			'duplicate',
+			'duplicate',
+			'duplicate',
+		]);
+		expect(summarizeImport(results)).toEqual({
+			ready: 1,
+			duplicate: 3,
+			invalid: 0,
+		});
+	});
+
+	it('explains what is wrong with a row', () => {
+		const [result] = checkClientImport(
+			[{ full_name: 'Cher', email: 'not-an-email', phone_number: '12' }],
+			[]
+		);
+
+		expect(result).toMatchObject({
+			status: 'invalid',
+			errors: [
+				'Last name is required',
+				'Invalid email address',
+				'Invalid phone number',
+			],
+		});
+	});
+});
+
+describe('checkServiceImport', () => {
+	it('parses prices and units', () => {
+		const [hem, alter, bad] = checkServiceImport(
+			[
+				{ name: 'Hem', price: '$1,200.50', unit: 'hourly' },
+				{ name: 'Alter', price: '25', quantity: '2', estimated_minutes: '45' },
+				{ name: 'Hem', price: 'free', unit: 'week' },
+			],
+			[]
+		);
+
+		expect(hem?.data).toEqual({
+			name: 'Hem',
+			default_unit_price_cents: 120050,
+			default_unit: 'hour',
+			default_qty: 1,
+			description: null,
+			estimated_minutes: null,
+		});
+		expect(alter?.data).toMatchObject({
+			default_unit: 'flat_rate',
+			default_qty: 2,
+			estimated_minutes: 45,
+		});
+		expect(bad?.errors).toEqual([
+			'Price must be an amount like 25.00',
+			'Unit must be flat rate, hour or day',
+		]);
+	});
+
+	it('flags names the shop already uses', () => {
+		const [result] = checkServiceImport(
+			[{ name: 'hem', price: '10' }],
+			[{ name: 'Hem' }]
+		);
+
+		expect(result?.status).toBe('duplicate');
+	});
+});
+
+describe('buildImportErrorReport', () => {
+	it('lists the rows that were not imported with their problems', () => {
+		const results = checkServiceImport(
+			[
+				{ name: 'Hem', price: '10' },
+				{ name: '', price: '10' },
+			],
+			[]
+		);
+
+		const [header, row, ...rest] = parseCsv(
+			buildImportErrorReport('services', results)
+		);
+
+		expect(header?.slice(0, 4)).toEqual(['Line', 'Status', 'Problems', 'Name']);
+		expect(row?.slice(0, 5)).toEqual([
+			'3',
+			'Invalid',
+			'Name is required',
+			'',
+			'10',
+		]);
+		expect(rest).toEqual([]);
+	});
+});
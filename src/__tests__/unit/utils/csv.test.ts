@@ -0,0 +1,49 @@
+import { parseCsv, toCsv } from '@/lib/utils/csv';
+
+describe('parseCsv', () => {
+	it('reads quoted cells with commas, quotes and line breaks', () => {
+		const text =
+			'Name,Notes\r\n"Doe, Jane","Said ""hi""\nthen left"\r\nSam,\r\n';
+
+		expect(parseCsv(text)).toEqual([
+			['Name', 'Notes'],
+			['Doe, Jane', 'Said "hi"\nthen left'],
+			['Sam', ''],
+		]);
+	});
+
+	it('drops a leading BOM and blank lines', () => {
+		expect(parseCsv('\uFEFFa,b\n\n,\n1,2')).toEqual([
+			['a', 'b'],
+			['1', '2'],
+		]);
+	});
+});
+
+describe('toCsv', () => {
+	it('quotes cells that need it and leaves empty values blank', () => {
+		expect(
+			toCsv(
+				['Name', 'Notes'],
+				[
+					['Doe, Jane', null],
+					['Sam', 'a "b"'],
+				]
+			)
+		).toBe('Name,Notes\r\n"Doe, Jane",\r\nSam,"a ""b"""');
+	});
+
+	it('stops spreadsheets reading cells as formulas', () => {
+		expect(toCsv(['A'], [['=SUM(A1)'], ['@cmd'], ['+1 (555) 010-2030']])).toBe(
+			"A\r\n'=SUM(A1)\r\n'@cmd\r\n+1 (555) 010-2030"
+		);
+	});
+
+	it('round-trips through parseCsv', () => {
+		const rows = [['a,b', 'line\nbreak', '"quoted"']];
+		expect(parseCsv(toCsv(['x', 'y', 'z'], rows))).toEqual([
+			['x', 'y', 'z'],
+			...rows,
+		]);
+	});
+});
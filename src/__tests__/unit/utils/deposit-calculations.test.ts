@@ -0,0 +1,118 @@
+import {
+	NO_DEPOSIT_POLICY,
+	calculateRequiredDeposit,
+	toDepositRule,
+	type DepositPolicy,
+} from '@/lib/utils/deposit-calculations';
+
+const policy = (overrides: Partial<DepositPolicy>): DepositPolicy => ({
+	...NO_DEPOSIT_POLICY,
+	...overrides,
+});
+
+describe('calculateRequiredDeposit', () => {
+	const lines = [
+		{ serviceId: 'hem', quantity: 1, unitPriceCents: 4000 },
+		{ serviceId: 'dress', quantity: 2, unitPriceCents: 3000 },
+	];
+
+	it('requires nothing without a policy', () => {
+		expect(calculateRequiredDeposit(NO_DEPOSIT_POLICY, lines, 10000)).toBe(0);
+	});
+
+	it('takes a percentage of the order total including tax', () => {
+		expect(
+			calculateRequiredDeposit(
+				policy({ type: 'percentage', percent: 50 }),
+				lines,
+				10800
+			)
+		).toBe(5400);
+	});
+
+	it('charges the shop fixed amount once per order', () => {
+		expect(
+			calculateRequiredDeposit(
+				policy({ type: 'fixed', fixedCents: 2500 }),
+				lines,
+				10000
+			)
+		).toBe(2500);
+	});
+
+	it('caps a fixed deposit at the order total', () => {
+		expect(
+			calculateRequiredDeposit(
+				policy({ type: 'fixed', fixedCents: 50000 }),
+				lines,
+				10000
+			)
+		).toBe(10000);
+	});
+
+	it('applies service overrides to their own lines only', () => {
+		const withOverride = policy({
+			type: 'percentage',
+			percent: 25,
+			serviceOverrides: {
+				dress: { type: 'percentage', percent: 100, fixedCents: 0 },
+			},
+		});
+
+		// 25% of the $40 hem plus all of the $60 of dress work
+		expect(calculateRequiredDeposit(withOverride, lines, 10000)).toBe(7000);
+	});
+
+	it('lets a service opt out of the shop policy', () => {
+		const optOut = policy({
+			type: 'percentage',
+			percent: 50,
+			serviceOverrides: {
+				hem: { type: 'none', fixedCents: 0, percent: 0 },
+			},
+		});
+
+		expect(calculateRequiredDeposit(optOut, lines, 10000)).toBe(3000);
+	});
+
+	it('spreads discounts across lines by their share of the subtotal', () => {
+		const withOverride = policy({
+			serviceOverrides: {
+				hem: { type: 'percentage', percent: 100, fixedCents: 0 },
+			},
+		});
+
+		// Total is half the subtotal, so the hem line's share is $20
+		expect(calculateRequiredDeposit(withOverride, lines, 5000)).toBe(2000);
+	});
+
+	it('requires nothing for an empty or free order', () => {
+		const percent = policy({ type: 'percentage', percent: 50 });
+		expect(calculateRequiredDeposit(percent, [], 0)).toBe(0);
+		expect(
+			calculateRequiredDeposit(percent, [{ quantity: 1, unitPriceCents: 0 }], 0)
+		).toBe(0);
+	});
+});
+
+describe('toDepositRule', () => {
+	it('reads numeric percent columns returned as strings', () => {
+		expect(
+			toDepositRule({
+				deposit_type: 'percentage',
+				deposit_fixed_cents: 0,
+				deposit_percent: '33.50',
+			})
+		).toEqual({ type: 'percentage', fixedCents: 0, percent: 33.5 });
+	});
+
+	it('falls back to no deposit for unknown types', () => {
+		expect(
+			toDepositRule({
+				deposit_type: 'bogus',
+				deposit_fixed_cents: null,
+				deposit_percent: null,
+			})
+		).toEqual({ type: 'none', fixedCents: 0, percent: 0 });
+	});
+});
@@ -0,0 +1,122 @@
+import {
+	calculateDiscountCents,
+	calculateOrderTotals,
+	describeDiscount,
+	getDiscountUnavailableReason,
+	type Discount,
+} from '@/lib/utils/discount-calculations';
+
+const discount = (overrides: Partial<Discount>): Discount => ({
+	id: 'discount-1',
+	code: 'SPRING10',
+	description: null,
+	type: 'percentage',
+	percent: 10,
+	amountCents: 0,
+	serviceId: null,
+	expiresAt: null,
+	usageLimit: null,
+	timesUsed: 0,
+	isActive: true,
+	...overrides,
+});
+
+describe('calculateDiscountCents', () => {
+	const lines = [
+		{ serviceId: 'hem', quantity: 1, unitPriceCents: 4000 },
+		{ serviceId: 'dress', quantity: 2, unitPriceCents: 3000 },
+	];
+
+	it('takes a percentage of the whole order', () => {
+		expect(calculateDiscountCents(discount({ percent: 10 }), lines)).toBe(1000);
+	});
+
+	it('only discounts lines for the discount service', () => {
+		expect(
+			calculateDiscountCents(
+				discount({ percent: 50, serviceId: 'dress' }),
+				lines
+			)
+		).toBe(3000);
+	});
+
+	it('takes a fixed amount once', () => {
+		expect(
+			calculateDiscountCents(
+				discount({ type: 'fixed', amountCents: 1500 }),
+				lines
+			)
+		).toBe(1500);
+	});
+
+	it('caps a fixed amount at the eligible amount', () => {
+		expect(
+			calculateDiscountCents(
+				discount({ type: 'fixed', amountCents: 5000, serviceId: 'hem' }),
+				lines
+			)
+		).toBe(4000);
+	});
+
+	it('is zero when no lines match the service', () => {
+		expect(calculateDiscountCents(discount({ serviceId: 'coat' }), lines)).toBe(
+			0
+		);
+	});
+});
+
+describe('calculateOrderTotals', () => {
+	it('calculates tax after the discount', () => {
+		expect(calculateOrderTotals(10000, 2000, 8)).toEqual({
+			subtotalCents: 10000,
+			discountCents: 2000,
+			afterDiscountCents: 8000,
+			taxCents: 640,
+			totalCents: 8640,
+		});
+	});
+
+	it('never discounts more than the subtotal', () => {
+		const totals = calculateOrderTotals(3000, 5000, 8);
+
+		expect(totals.discountCents).toBe(3000);
+		expect(totals.totalCents).toBe(0);
+	});
+});
+
+describe('getDiscountUnavailableReason', () => {
+	const now = new Date('2026-10-19T12:00:00Z');
+
+	it('allows an active discount', () => {
+		expect(getDiscountUnavailableReason(discount({}), now)).toBeNull();
+	});
+
+	it('rejects inactive, expired and used-up discounts', () => {
+		expect(
+			getDiscountUnavailableReason(discount({ isActive: false }), now)
+		).toBe('SPRING10 is no longer active');
+		expect(
+			getDiscountUnavailableReason(
+				discount({ expiresAt: '2026-10-18T23:59:59Z' }),
+				now
+			)
+		).toBe('SPRING10 has expired');
+		expect(
+			getDiscountUnavailableReason(
+				discount({ usageLimit: 5, timesUsed: 5 }),
+				now
+			)
+		).toBe('SPRING10 has reached its usage limit');
+	});
+});
+
+describe('describeDiscount', () => {
+	it('names the service for per-service discounts', () => {
+		expect(describeDiscount(discount({ serviceName: 'Hemming' }))).toBe(
+			'10% off Hemming'
+		);
+		expect(
+			describeDiscount(discount({ type: 'fixed', amountCents: 1500 }))
+		).toBe('$15.00 off order');
+	});
+});
@@ -0,0 +1,50 @@
+import { movePhoto, toGarmentPhoto } from '@/lib/utils/garment-photos';
+
+describe('movePhoto', () => {
+	const ids = ['a', 'b', 'c', 'd'];
+
+	it('moves a photo earlier', () => {
+		expect(movePhoto(ids, 'c', 1)).toEqual(['a', 'c', 'b', 'd']);
+	});
+
+	it('moves a photo later', () => {
+		expect(movePhoto(ids, 'a', 2)).toEqual(['b', 'c', 'a', 'd']);
+	});
+
+	it('keeps moves within the gallery', () => {
+		expect(movePhoto(ids, 'a', -1)).toEqual(ids);
+		expect(movePhoto(ids, 'b', 10)).toEqual(['a', 'c', 'd', 'b']);
+	});
+
+	it('ignores unknown photos', () => {
+		expect(movePhoto(ids, 'z', 0)).toBe(ids);
+	});
+});
+
+describe('toGarmentPhoto', () => {
+	it('treats an unknown tag as a before photo', () => {
+		const photo = toGarmentPhoto({
+			id: 'photo-1',
+			garment_id: 'garment-1',
+			image_cloud_id: 'garments/one',
+			photo_url: 'https://example.com/one.jpg',
+			tag: 'during',
+			caption: null,
+			position: 2,
+			is_cover: true,
+			taken_at: '2026-10-19T12:00:00Z',
+		});
+
+		expect(photo).toEqual({
+			id: 'photo-1',
+			garmentId: 'garment-1',
+			imageCloudId: 'garments/one',
+			photoUrl: 'https://example.com/one.jpg',
+			tag: 'before',
+			caption: null,
+			position: 2,
+			isCover: true,
+			takenAt: '2026-10-19T12:00:00Z',
+		});
+	});
+});
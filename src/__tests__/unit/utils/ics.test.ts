@@ -0,0 +1,67 @@
+import {
+	buildIcsCalendar,
+	escapeIcsText,
+	foldIcsLine,
+	getAppointmentUtcRange,
+} from '@/lib/utils/ics';
+
+describe('ics utils', () => {
+	it('escapes commas, semicolons, backslashes and newlines', () => {
+		expect(escapeIcsText('Hem, taper; back\\seam\nbring shoes')).toBe(
+			'Hem\\, taper\\; back\\\\seam\\nbring shoes'
+		);
+	});
+
+	it('folds long lines at 75 octets without splitting characters', () => {
+		const line = `DESCRIPTION:${'é'.repeat(80)}`;
+		const folded = foldIcsLine(line);
+		const encoder = new TextEncoder();
+
+		for (const part of folded.split('\r\n')) {
+			expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+		}
+		expect(folded.replace(/\r\n /g, '')).toBe(line);
+	});
+
+	it('builds a CRLF calendar with UTC event times', () => {
+		const ics = buildIcsCalendar({
+			method: 'PUBLISH',
+			name: 'Stitch & Co Appointments',
+			now: new Date('2026-10-19T12:00:00Z'),
+			events: [
+				{
+					uid: 'appt-1@hemsy.app',
+					start: new Date('2026-10-21T18:00:00Z'),
+					end: new Date('2026-10-21T18:30:00Z'),
+					summary: 'Fitting: Jane Doe',
+					description: 'Bring shoes',
+				},
+			],
+		});
+
+		expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+		expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+		expect(ics).toContain('METHOD:PUBLISH\r\n');
+		expect(ics).toContain('DTSTAMP:20261019T120000Z\r\n');
+		expect(ics).toContain('DTSTART:20261021T180000Z\r\n');
+		expect(ics).toContain('DTEND:20261021T183000Z\r\n');
+		expect(ics).toContain('DESCRIPTION:Bring shoes\r\n');
+	});
+
+	it('falls back to local date/time in the shop timezone without start_at', () => {
+		const { start, end } = getAppointmentUtcRange(
+			{
+				id: 'appt-1',
+				date: '2026-10-21',
+				start_time: '14:00:00',
+				end_time: '14:30:00',
+				type: 'fitting',
+				status: 'confirmed',
+			},
+			'America/New_York'
+		);
+
+		expect(start.toISOString()).toBe('2026-10-21T18:00:00.000Z');
+		expect(end.toISOString()).toBe('2026-10-21T18:30:00.000Z');
+	});
+});
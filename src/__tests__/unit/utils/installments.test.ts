@@ -0,0 +1,86 @@
+import {
+	getInstallmentPlanError,
+	getInstallmentStatuses,
+	splitIntoInstallments,
+} from '@/lib/utils/installments';
+
+const plan = [
+	{ id: 'c', sequence: 3, amount_cents: 30000, due_date: '2026-12-01' },
+	{ id: 'a', sequence: 1, amount_cents: 30000, due_date: '2026-10-01' },
+	{ id: 'b', sequence: 2, amount_cents: 30000, due_date: '2026-11-01' },
+];
+
+describe('installment utils', () => {
+	describe('getInstallmentStatuses', () => {
+		it('covers installments in order with what has been paid', () => {
+			const result = getInstallmentStatuses(plan, 45000, '2026-10-15');
+
+			expect(result.map((i) => i.id)).toEqual(['a', 'b', 'c']);
+			expect(result.map((i) => i.status)).toEqual(['paid', 'due', 'due']);
+			expect(result[1]).toMatchObject({
+				paidCents: 15000,
+				remainingCents: 15000,
+			});
+			expect(result[2]).toMatchObject({ paidCents: 0, remainingCents: 30000 });
+		});
+
+		it('marks unpaid installments late after their due date', () => {
+			const result = getInstallmentStatuses(plan, 30000, '2026-11-02');
+
+			expect(result.map((i) => i.status)).toEqual(['paid', 'late', 'due']);
+		});
+
+		it('is not late on the due date itself', () => {
+			const result = getInstallmentStatuses(plan, 0, '2026-10-01');
+
+			expect(result[0]!.status).toBe('due');
+		});
+
+		it('treats a negative net paid amount as nothing paid', () => {
+			const result = getInstallmentStatuses(plan, -500, '2026-09-01');
+
+			expect(result.every((i) => i.paidCents === 0)).toBe(true);
+		});
+	});
+
+	describe('splitIntoInstallments', () => {
+		it('puts odd cents on the first installment', () => {
+			expect(splitIntoInstallments(100000, 3)).toEqual([33334, 33333, 33333]);
+		});
+
+		it('returns nothing for no installments', () => {
+			expect(splitIntoInstallments(100000, 0)).toEqual([]);
+		});
+	});
+
+	describe('getInstallmentPlanError', () => {
+		const drafts = [
+			{ amountCents: 40000, dueDate: '2026-10-01' },
+			{ amountCents: 40000, dueDate: '2026-11-01' },
+		];
+
+		it('accepts a plan that adds up with ascending dates', () => {
+			expect(getInstallmentPlanError(drafts, 80000)).toBeNull();
+		});
+
+		it('needs at least two installments', () => {
+			expect(getInstallmentPlanError(drafts.slice(0, 1), 40000)).toMatch(
+				/between 2 and 12/
+			);
+		});
+
+		it('needs the installments to add up to the invoice total', () => {
+			expect(getInstallmentPlanError(drafts, 90000)).toBe(
+				'Installments must add up to the invoice total'
+			);
+		});
+
+		it('needs each installment due after the one before it', () => {
+			const sameDay = [drafts[0]!, { ...drafts[1]!, dueDate: '2026-10-01' }];
+
+			expect(getInstallmentPlanError(sameDay, 80000)).toBe(
+				'Each installment must be due after the one before it'
+			);
+		});
+	});
+});
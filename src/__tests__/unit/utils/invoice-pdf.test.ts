@@ -0,0 +1,243 @@
+import {
+	buildInvoicePdf,
+	calculateInvoicePdfTotals,
+	getInvoicePdfFilename,
+	getInvoicePdfLineItems,
+	getReceiptPayment,
+	type InvoicePdfInvoice,
+} from '@/lib/utils/invoice-pdf';
+
+const shop = {
+	name: 'stitch',
+	business_name: 'Stitch & Co',
+	email: 'hello@stitch.co',
+	phone_number: '555-0100',
+	mailing_address: '1 Main St, Springfield',
+	timezone: 'America/New_York',
+};
+
+function makeInvoice(
+	overrides: Partial<InvoicePdfInvoice> = {}
+): InvoicePdfInvoice {
+	return {
+		invoice_number: 'INV-0042',
+		amount_cents: 9720,
+		created_at: '2026-10-19T02:00:00Z',
+		due_date: '2026-11-01',
+		line_items: [
+			{
+				name: 'Hem trousers',
+				quantity: 2,
+				unit_price_cents: 2500,
+				line_total_cents: 5000,
+			},
+			{
+				name: 'Take in waist',
+				description: 'Left side only',
+				quantity: 1,
+				unit_price_cents: 5000,
+				line_total_cents: 5000,
+			},
+			{
+				name: 'Discount (FALL10)',
+				quantity: 1,
+				unit_price_cents: -1000,
+				line_total_cents: -1000,
+				type: 'discount',
+			},
+		],
+		client: {
+			first_name: 'Ada',
+			last_name: 'Lovelace',
+			email: 'ada@example.com',
+		},
+		order: { order_number: 'ORD-7', tax_cents: 720 },
+		payments: [],
+		...overrides,
+	};
+}
+
+function makePayment(overrides: Record<string, unknown> = {}) {
+	return {
+		id: 'p1',
+		amount_cents: 5000,
+		refunded_amount_cents: 0,
+		status: 'completed',
+		payment_method: 'cash',
+		payment_type: 'deposit',
+		processed_at: '2026-10-20T15:00:00Z',
+		...overrides,
+	};
+}
+
+describe('invoice pdf', () => {
+	it('reads line items and skips malformed entries', () => {
+		expect(
+			getInvoicePdfLineItems([
+				{ name: 'Hem', quantity: 2, unit_price_cents: 1500 },
+				'oops',
+				null,
+			])
+		).toEqual([
+			{
+				name: 'Hem',
+				description: undefined,
+				quantity: 2,
+				unitPriceCents: 1500,
+				lineTotalCents: 3000,
+				isDiscount: false,
+			},
+		]);
+		expect(getInvoicePdfLineItems({})).toEqual([]);
+	});
+
+	it('shows tax when the amount includes the order tax', () => {
+		const totals = calculateInvoicePdfTotals(makeInvoice());
+
+		expect(totals).toMatchObject({
+			subtotalCents: 10000,
+			discounts: [{ label: 'Discount (FALL10)', amountCents: -1000 }],
+			taxCents: 720,
+			adjustmentCents: 0,
+			totalCents: 9720,
+			balanceCents: 9720,
+		});
+	});
+
+	it('leaves tax out when the amount is just the lines', () => {
+		const totals = calculateInvoicePdfTotals(
+			makeInvoice({ amount_cents: 9000 })
+		);
+
+		expect(totals.taxCents).toBe(0);
+		expect(totals.adjustmentCents).toBe(0);
+	});
+
+	it('nets refunds out of payments and ignores failed ones', () => {
+		const totals = calculateInvoicePdfTotals(
+			makeInvoice({
+				payments: [
+					makePayment({
+						status: 'partially_refunded',
+						refunded_amount_cents: 1000,
+					}),
+					makePayment({ id: 'p2', amount_cents: 2000, status: 'failed' }),
+					makePayment({
+						id: 'p3',
+						amount_cents: -1000,
+						payment_type: 'refund',
+					}),
+				],
+			})
+		);
+
+		expect(totals.paidCents).toBe(5000);
+		expect(totals.refundedCents).toBe(1000);
+		expect(totals.balanceCents).toBe(5720);
+	});
+
+	it('picks the requested payment, or the latest, for a receipt', () => {
+		const invoice = makeInvoice({
+			payments: [
+				makePayment(),
+				makePayment({ id: 'p2', processed_at: '2026-10-25T15:00:00Z' }),
+				makePayment({ id: 'p3', status: 'pending' }),
+			],
+		});
+
+		expect(getReceiptPayment(invoice)?.id).toBe('p2');
+		expect(getReceiptPayment(invoice, 'p1')?.id).toBe('p1');
+		expect(getReceiptPayment(invoice, 'p3')).toBeUndefined();
+	});
+
+	it('renders the invoice and its totals', () => {
+		const output = buildInvoicePdf({
+			invoice: makeInvoice(),
+			shop,
+			kind: 'invoice',
+		}).toString('latin1');
+
+		expect(output.startsWith('%PDF-1.4')).toBe(true);
+		for (const text of [
+			'Stitch & Co',
+			'INVOICE',
+			'INV-0042',
+			'Ada Lovelace',
+			'Hem trousers',
+			'Left side only',
+			'Discount \\(FALL10\\)',
+			'-$10.00',
+			'Tax',
+			'$97.20',
+			'Balance due',
+			// Due dates are calendar dates, not shifted by the timezone
+			'November 1, 2026',
+			// Timestamps are shown in the shop's timezone
+			'October 18, 2026',
+		]) {
+			expect(output).toContain(`(${text}) Tj`);
+		}
+	});
+
+	it('renders a receipt for a payment', () => {
+		const payment = makePayment({ payment_method: 'stripe' });
+		const output = buildInvoicePdf({
+			invoice: makeInvoice({ payments: [payment] }),
+			shop,
+			kind: 'receipt',
+			payment,
+		}).toString('latin1');
+
+		for (const text of ['RECEIPT', 'Amount paid', '$50.00', 'Card']) {
+			expect(output).toContain(`(${text}) Tj`);
+		}
+		expect(output).not.toContain('(Due) Tj');
+	});
+
+	it('shows a tip as its own line, outside the balance', () => {
+		const payment = makePayment({ payment_method: 'stripe', tip_cents: 900 });
+		const invoice = makeInvoice({ payments: [payment] });
+
+		const totals = calculateInvoicePdfTotals(invoice);
+		expect(totals.paidCents).toBe(5000);
+		expect(totals.tipsCents).toBe(900);
+		expect(totals.balanceCents).toBe(4720);
+
+		const output = buildInvoicePdf({
+			invoice,
+			shop,
+			kind: 'receipt',
+			payment,
+		}).toString('latin1');
+
+		for (const text of ['Tip', '$9.00', 'Total charged', '$59.00', 'Tips']) {
+			expect(output).toContain(`(${text}) Tj`);
+		}
+	});
+
+	it('moves long invoices onto more pages', () => {
+		const lineItems = Array.from({ length: 60 }, (_, index) => ({
+			name: `Service ${index + 1}`,
+			quantity: 1,
+			unit_price_cents: 100,
+			line_total_cents: 100,
+		}));
+		const output = buildInvoicePdf({
+			invoice: makeInvoice({ line_items: lineItems, amount_cents: 6000 }),
+			shop,
+			kind: 'invoice',
+		}).toString('latin1');
+
+		expect(output).toMatch(/\/Count [2-9]/);
+		expect(output).toContain('(Service 60) Tj');
+	});
+
+	it('names the file after the invoice number', () => {
+		expect(
+			getInvoicePdfFilename({ invoice_number: 'INV-0042' }, 'invoice')
+		).toBe('invoice-INV-0042.pdf');
+		expect(
+			getInvoicePdfFilename({ invoice_number: 'INV/0042' }, 'receipt')
+		).toBe('receipt-INV0042.pdf');
+	});
+});
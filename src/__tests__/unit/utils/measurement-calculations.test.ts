@@ -0,0 +1,114 @@
+import {
+	buildMeasurementSnapshot,
+	compareMeasurements,
+	convertMeasurement,
+	getMeasurementFields,
+	parseMeasurementSnapshot,
+	toMeasurementRecord,
+} from '@/lib/utils/measurement-calculations';
+
+const fields = getMeasurementFields([{ id: 'field-1', label: 'Wrist' }]);
+
+describe('convertMeasurement', () => {
+	it('converts between inches and centimeters to one decimal', () => {
+		expect(convertMeasurement(34.5, 'in', 'cm')).toBe(87.6);
+		expect(convertMeasurement(87.6, 'cm', 'in')).toBe(34.5);
+		expect(convertMeasurement(30, 'in', 'in')).toBe(30);
+	});
+});
+
+describe('compareMeasurements', () => {
+	it('lists changed, added and removed fields in the newer unit', () => {
+		const changes = compareMeasurements(
+			{ unit: 'in', values: { waist: 30, hips: 40, neck: 15 } },
+			{ unit: 'cm', values: { waist: 78.7, hips: 101.6, 'field-1': 16 } },
+			fields
+		);
+
+		expect(changes).toEqual([
+			{
+				key: 'neck',
+				label: 'Neck',
+				previous: 38.1,
+				current: null,
+				difference: null,
+			},
+			{
+				key: 'waist',
+				label: 'Waist',
+				previous: 76.2,
+				current: 78.7,
+				difference: 2.5,
+			},
+			{
+				key: 'field-1',
+				label: 'Wrist',
+				previous: null,
+				current: 16,
+				difference: null,
+			},
+		]);
+	});
+});
+
+describe('buildMeasurementSnapshot', () => {
+	it('labels values in field order and drops removed fields', () => {
+		expect(
+			buildMeasurementSnapshot(
+				{
+					measuredOn: '2026-10-19',
+					unit: 'in',
+					values: { 'field-1': 6.5, waist: 30, 'removed-field': 3 },
+					notes: 'Second fitting',
+				},
+				fields
+			)
+		).toEqual({
+			measuredOn: '2026-10-19',
+			unit: 'in',
+			values: [
+				{ label: 'Waist', value: 30 },
+				{ label: 'Wrist', value: 6.5 },
+			],
+			notes: 'Second fitting',
+		});
+	});
+});
+
+describe('toMeasurementRecord', () => {
+	it('keeps only numeric values', () => {
+		expect(
+			toMeasurementRecord({
+				id: 'record-1',
+				client_id: 'client-1',
+				measured_on: '2026-10-19',
+				unit: 'cm',
+				values: { waist: 76, hips: 'wide' },
+				notes: null,
+				created_at: '2026-10-19T12:00:00Z',
+			}).values
+		).toEqual({ waist: 76 });
+	});
+});
+
+describe('parseMeasurementSnapshot', () => {
+	it('is null for garments without a snapshot', () => {
+		expect(parseMeasurementSnapshot(null)).toBeNull();
+		expect(parseMeasurementSnapshot({ unit: 'in' })).toBeNull();
+	});
+
+	it('reads a stored snapshot', () => {
+		expect(
+			parseMeasurementSnapshot({
+				measuredOn: '2026-10-19',
+				unit: 'in',
+				values: [{ label: 'Waist', value: 30 }],
+			})
+		).toEqual({
+			measuredOn: '2026-10-19',
+			unit: 'in',
+			values: [{ label: 'Waist', value: 30 }],
+			notes: null,
+		});
+	});
+});
@@ -0,0 +1,92 @@
+import {
+	DEFAULT_PAYMENT_REMINDER_STEPS,
+	getDaysBetween,
+	getDueReminderStep,
+	getOverdueSince,
+	PAYMENT_REMINDER_VARIABLES,
+	renderPaymentReminder,
+} from '@/lib/utils/payment-reminders';
+
+describe('payment reminder utils', () => {
+	describe('getOverdueSince', () => {
+		it('uses the earlier of the due date and the shop-local pickup day', () => {
+			// 02:00 UTC on the 6th is still the 5th in New York
+			expect(
+				getOverdueSince({
+					dueDate: '2025-03-10',
+					pickedUpAt: '2025-03-06T02:00:00.000Z',
+					timezone: 'America/New_York',
+				})
+			).toBe('2025-03-05');
+
+			expect(
+				getOverdueSince({
+					dueDate: '2025-03-01',
+					pickedUpAt: '2025-03-06T02:00:00.000Z',
+					timezone: 'UTC',
+				})
+			).toBe('2025-03-01');
+		});
+
+		it('is null with no due date and no pickup', () => {
+			expect(
+				getOverdueSince({
+					dueDate: null,
+					pickedUpAt: undefined,
+					timezone: 'UTC',
+				})
+			).toBeNull();
+		});
+	});
+
+	it('counts whole days across a month boundary and DST change', () => {
+		expect(getDaysBetween('2025-02-26', '2025-03-12')).toBe(14);
+		expect(getDaysBetween('2025-03-12', '2025-03-10')).toBe(-2);
+	});
+
+	describe('getDueReminderStep', () => {
+		const steps = [{ days_after: 3 }, { days_after: 7 }, { days_after: 14 }];
+
+		it('returns the latest step the invoice is overdue enough for', () => {
+			expect(getDueReminderStep(steps, 2, [])).toBeNull();
+			expect(getDueReminderStep(steps, 3, [])).toEqual({ days_after: 3 });
+			// Skips the 3 day step instead of sending both
+			expect(getDueReminderStep(steps, 9, [])).toEqual({ days_after: 7 });
+		});
+
+		it('does not repeat a step or go back to an earlier one', () => {
+			expect(getDueReminderStep(steps, 9, [7])).toBeNull();
+			expect(getDueReminderStep(steps, 15, [7])).toEqual({ days_after: 14 });
+			expect(getDueReminderStep(steps, 15, [14])).toBeNull();
+		});
+
+		it('skips steps that were due when the client last paid', () => {
+			expect(getDueReminderStep(steps, 9, [], 8)).toBeNull();
+			expect(getDueReminderStep(steps, 9, [], 5)).toEqual({ days_after: 7 });
+			// Paid before the invoice was overdue
+			expect(getDueReminderStep(steps, 3, [], -4)).toEqual({ days_after: 3 });
+		});
+	});
+
+	it('fills known variables and leaves unknown ones as typed', () => {
+		expect(
+			renderPaymentReminder(
+				{
+					subject: 'Invoice {invoice_number}',
+					body: 'Hi {client_name} {oops}',
+				},
+				{ invoice_number: 'INV-1', client_name: 'Jane' }
+			)
+		).toEqual({ subject: 'Invoice INV-1', body: 'Hi Jane {oops}' });
+	});
+
+	it('only uses documented variables in the default steps', () => {
+		const known = new Set(PAYMENT_REMINDER_VARIABLES.map((v) => v.key));
+		for (const step of DEFAULT_PAYMENT_REMINDER_STEPS) {
+			const used = `${step.subject} ${step.body}`.match(/\{(\w+)\}/g) || [];
+			for (const placeholder of used) {
+				expect(known).toContain(placeholder.slice(1, -1));
+			}
+		}
+	});
+});
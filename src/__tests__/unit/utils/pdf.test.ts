@@ -0,0 +1,61 @@
+import { measurePdfText, PdfDocument, wrapPdfText } from '@/lib/utils/pdf';
+
+describe('pdf utils', () => {
+	it('measures text with the Helvetica widths', () => {
+		// H is 722, i is 222
+		expect(measurePdfText('Hi', 10)).toBeCloseTo(9.44);
+		expect(measurePdfText('Hi', 10, 'bold')).toBeGreaterThan(
+			measurePdfText('Hi', 10)
+		);
+	});
+
+	it('wraps on spaces and cuts words too long for a line', () => {
+		const lines = wrapPdfText('Hem trousers and take in the waist', 80, 10);
+
+		expect(lines.length).toBeGreaterThan(1);
+		expect(lines.join(' ')).toBe('Hem trousers and take in the waist');
+		for (const line of lines) {
+			expect(measurePdfText(line, 10)).toBeLessThanOrEqual(80);
+		}
+
+		const cut = wrapPdfText('W'.repeat(30), 50, 10);
+		expect(cut.join('')).toBe('W'.repeat(30));
+		expect(cut.length).toBeGreaterThan(1);
+	});
+
+	it('writes a PDF whose xref offsets point at its objects', () => {
+		const pdf = new PdfDocument();
+		pdf.text('Hemsy (alterations) \\ café', 50, 50, { font: 'bold' });
+		pdf.line(50, 60, 300, 60);
+		pdf.addPage();
+		pdf.text('Page two', 50, 50);
+
+		const output = pdf.toBuffer().toString('latin1');
+
+		expect(output.startsWith('%PDF-1.4')).toBe(true);
+		expect(output.trimEnd().endsWith('%%EOF')).toBe(true);
+		expect(output).toContain('/Count 2');
+		expect(output).toContain('(Hemsy \\(alterations\\) \\\\ caf\\351) Tj');
+
+		const xrefOffset = Number(/startxref\n(\d+)/.exec(output)?.[1]);
+		expect(output.slice(xrefOffset).startsWith('xref')).toBe(true);
+		const entries = output
+			.slice(xrefOffset)
+			.split('\n')
+			.slice(3)
+			.filter((line) => line.endsWith(' n '));
+		entries.forEach((entry, index) => {
+			const offset = Number(entry.slice(0, 10));
+			expect(output.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+		});
+	});
+
+	it('replaces characters the standard fonts cannot draw', () => {
+		const pdf = new PdfDocument();
+		pdf.text('Hem ✂ “done”', 50, 50);
+
+		expect(pdf.toBuffer().toString('latin1')).toContain(
+			'(Hem ? \\223done\\224) Tj'
+		);
+	});
+});
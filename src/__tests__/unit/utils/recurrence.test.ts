@@ -0,0 +1,63 @@
+import {
+	MAX_SERIES_OCCURRENCES,
+	addDaysToDateString,
+	daysBetweenDateStrings,
+	describeRecurrence,
+	generateOccurrenceDates,
+} from '@/lib/utils/recurrence';
+
+describe('recurrence utils', () => {
+	it('adds days across month and DST boundaries', () => {
+		expect(addDaysToDateString('2026-10-30', 3)).toBe('2026-11-02');
+		expect(addDaysToDateString('2026-03-07', 1)).toBe('2026-03-08');
+		expect(addDaysToDateString('2026-03-02', -7)).toBe('2026-02-23');
+	});
+
+	it('counts days between dates', () => {
+		expect(daysBetweenDateStrings('2026-10-19', '2026-11-02')).toBe(14);
+		expect(daysBetweenDateStrings('2026-11-02', '2026-10-19')).toBe(-14);
+	});
+
+	it('generates every-2-weeks occurrences by count', () => {
+		expect(
+			generateOccurrenceDates('2026-10-19', {
+				frequency: 'weekly',
+				interval: 2,
+				count: 4,
+			})
+		).toEqual(['2026-10-19', '2026-11-02', '2026-11-16', '2026-11-30']);
+	});
+
+	it('stops at the end date inclusively', () => {
+		expect(
+			generateOccurrenceDates('2026-10-19', {
+				frequency: 'daily',
+				interval: 3,
+				endDate: '2026-10-25',
+			})
+		).toEqual(['2026-10-19', '2026-10-22', '2026-10-25']);
+	});
+
+	it('caps long series', () => {
+		expect(
+			generateOccurrenceDates('2026-10-19', {
+				frequency: 'daily',
+				interval: 1,
+				endDate: '2030-01-01',
+			})
+		).toHaveLength(MAX_SERIES_OCCURRENCES);
+	});
+
+	it('describes rules', () => {
+		expect(
+			describeRecurrence({ frequency: 'weekly', interval: 2, count: 4 })
+		).toBe('Every 2 weeks, 4 times');
+		expect(
+			describeRecurrence({
+				frequency: 'daily',
+				interval: 1,
+				endDate: '2026-12-01',
+			})
+		).toBe('Every day until 2026-12-01');
+	});
+});
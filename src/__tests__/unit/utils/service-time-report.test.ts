@@ -0,0 +1,89 @@
+import {
+	buildServiceTimeReport,
+	calculateHourlyRateCents,
+	type TimedGarmentService,
+} from '@/lib/utils/service-time-report';
+
+const row = (overrides: Partial<TimedGarmentService>): TimedGarmentService => ({
+	serviceId: 'hem',
+	name: 'Hemming',
+	quantity: 1,
+	lineTotalCents: 3000,
+	loggedMinutes: 30,
+	estimatedMinutesPerUnit: 20,
+	...overrides,
+});
+
+describe('calculateHourlyRateCents', () => {
+	it('scales revenue to an hour of logged work', () => {
+		expect(calculateHourlyRateCents(3000, 30)).toBe(6000);
+	});
+
+	it('is null without logged time', () => {
+		expect(calculateHourlyRateCents(3000, 0)).toBeNull();
+	});
+});
+
+describe('buildServiceTimeReport', () => {
+	it('totals jobs per catalog service and compares against the estimate', () => {
+		const report = buildServiceTimeReport([
+			row({ loggedMinutes: 30 }),
+			row({ quantity: 2, lineTotalCents: 6000, loggedMinutes: 50 }),
+		]);
+
+		expect(report.services).toEqual([
+			expect.objectContaining({
+				serviceId: 'hem',
+				jobCount: 2,
+				unitCount: 3,
+				loggedMinutes: 80,
+				estimatedMinutes: 60,
+				varianceMinutes: 20,
+				averageMinutesPerUnit: 27,
+				revenueCents: 9000,
+				effectiveHourlyRateCents: 6750,
+			}),
+		]);
+	});
+
+	it('groups one-off services by name and leaves them without an estimate', () => {
+		const report = buildServiceTimeReport([
+			row({ serviceId: null, name: 'Patch', estimatedMinutesPerUnit: null }),
+			row({ serviceId: null, name: 'patch ', estimatedMinutesPerUnit: null }),
+		]);
+
+		expect(report.services).toHaveLength(1);
+		expect(report.services[0]).toMatchObject({
+			jobCount: 2,
+			estimatedMinutes: null,
+			varianceMinutes: null,
+		});
+	});
+
+	it('lists services earning less than the overall rate', () => {
+		const report = buildServiceTimeReport([
+			// $60/hr
+			row({ serviceId: 'hem', lineTotalCents: 3000, loggedMinutes: 30 }),
+			// $20/hr
+			row({
+				serviceId: 'zip',
+				name: 'Zipper',
+				lineTotalCents: 2000,
+				loggedMinutes: 60,
+			}),
+			// $120/hr
+			row({
+				serviceId: 'button',
+				name: 'Buttons',
+				lineTotalCents: 2000,
+				loggedMinutes: 10,
+			}),
+		]);
+
+		// $70 over 100 minutes
+		expect(report.overallHourlyRateCents).toBe(4200);
+		expect(report.underpriced.map((s) => s.serviceId)).toEqual(['zip']);
+		// 60 minutes per unit at $42/hr
+		expect(report.underpriced[0]!.suggestedUnitPriceCents).toBe(4200);
+	});
+});
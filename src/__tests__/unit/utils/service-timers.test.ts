@@ -0,0 +1,48 @@
+import {
+	calculateTimerResult,
+	formatTimerElapsed,
+	isTimerExpired,
+} from '@/lib/utils/service-timers';
+
+const START = '2026-10-19T09:00:00.000Z';
+const at = (minutes: number) =>
+	new Date(new Date(START).getTime() + minutes * 60 * 1000);
+
+describe('calculateTimerResult', () => {
+	it('rounds to the nearest minute', () => {
+		expect(calculateTimerResult(START, at(12.4), 480)).toEqual({
+			minutes: 12,
+			endedAt: at(12.4),
+			capped: false,
+		});
+	});
+
+	it('logs at least one minute', () => {
+		expect(calculateTimerResult(START, at(0.1), 480).minutes).toBe(1);
+	});
+
+	it('ends a timer left running at the limit', () => {
+		expect(calculateTimerResult(START, at(900), 480)).toEqual({
+			minutes: 480,
+			endedAt: at(480),
+			capped: true,
+		});
+	});
+});
+
+describe('isTimerExpired', () => {
+	it('expires once the limit is reached', () => {
+		expect(isTimerExpired(START, at(479), 480)).toBe(false);
+		expect(isTimerExpired(START, at(480), 480)).toBe(true);
+	});
+});
+
+describe('formatTimerElapsed', () => {
+	it('shows minutes and seconds under an hour', () => {
+		expect(formatTimerElapsed(245)).toBe('4:05');
+	});
+
+	it('adds hours after an hour', () => {
+		expect(formatTimerElapsed(3845)).toBe('1:04:05');
+	});
+});
@@ -0,0 +1,115 @@
+import {
+	calculateCreditBalance,
+	generateGiftCardCode,
+	issueStoreCredit,
+	normalizeGiftCardCode,
+} from '@/lib/utils/store-credit';
+
+describe('store credit utils', () => {
+	describe('calculateCreditBalance', () => {
+		const now = new Date('2025-06-01T12:00:00.000Z');
+
+		it('sums what is left on issue entries', () => {
+			expect(
+				calculateCreditBalance(
+					[
+						{ entry_type: 'issue', remaining_cents: 2500, expires_at: null },
+						{ entry_type: 'issue', remaining_cents: 0, expires_at: null },
+						{ entry_type: 'apply', remaining_cents: null, expires_at: null },
+						{
+							entry_type: 'issue',
+							remaining_cents: 1000,
+							expires_at: '2025-07-01T00:00:00.000Z',
+						},
+					],
+					now
+				)
+			).toBe(3500);
+		});
+
+		it('leaves out credit that expired but was not written off yet', () => {
+			expect(
+				calculateCreditBalance(
+					[
+						{
+							entry_type: 'issue',
+							remaining_cents: 4000,
+							expires_at: '2025-05-31T23:59:59.000Z',
+						},
+						{ entry_type: 'issue', remaining_cents: 500, expires_at: null },
+					],
+					now
+				)
+			).toBe(500);
+		});
+
+		it('is 0 with no entries', () => {
+			expect(calculateCreditBalance([], now)).toBe(0);
+		});
+	});
+
+	describe('gift card codes', () => {
+		it('generates readable codes without look-alike characters', () => {
+			for (let i = 0; i < 20; i++) {
+				const code = generateGiftCardCode();
+				expect(code).toMatch(/^HMSY-[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+				expect(code.slice(5)).not.toMatch(/[01IO]/);
+			}
+		});
+
+		it('normalizes case and spacing', () => {
+			expect(normalizeGiftCardCode(' hmsy-7kq2 -xw4p ')).toBe('HMSY-7KQ2-XW4P');
+		});
+	});
+
+	describe('issueStoreCredit', () => {
+		it('inserts an issue entry with all of it remaining', async () => {
+			const single = jest
+				.fn()
+				.mockResolvedValue({ data: { id: 'entry-1' }, error: null });
+			const insert = jest.fn(() => ({ select: () => ({ single }) }));
+			const supabase = { from: jest.fn(() => ({ insert })) } as any;
+
+			const entry = await issueStoreCredit(supabase, {
+				shopId: 'shop-1',
+				clientId: 'client-1',
+				amountCents: 1500,
+				reason: 'Refund from invoice INV-1',
+				refundId: 'refund-1',
+			});
+
+			expect(entry).toEqual({ id: 'entry-1' });
+			expect(supabase.from).toHaveBeenCalledWith('store_credit_entries');
+			expect(insert).toHaveBeenCalledWith(
+				expect.objectContaining({
+					shop_id: 'shop-1',
+					client_id: 'client-1',
+					entry_type: 'issue',
+					amount_cents: 1500,
+					remaining_cents: 1500,
+					refund_id: 'refund-1',
+					expires_at: null,
+				})
+			);
+		});
+
+		it('throws when the insert fails', async () => {
+			const single = jest
+				.fn()
+				.mockResolvedValue({ data: null, error: { message: 'nope' } });
+			const supabase = {
+				from: () => ({ insert: () => ({ select: () => ({ single }) }) }),
+			} as any;
+			jest.spyOn(console, 'error').mockImplementation(() => {});
+
+			await expect(
+				issueStoreCredit(supabase, {
+					shopId: 'shop-1',
+					clientId: 'client-1',
+					amountCents: 100,
+					reason: 'Goodwill',
+				})
+			).rejects.toThrow('Failed to add store credit');
+		});
+	});
+});
@@ -0,0 +1,38 @@
+import { calculateTipCents, getTipBaseCents } from '@/lib/utils/tips';
+
+describe('tip utils', () => {
+	describe('getTipBaseCents', () => {
+		it('takes the payment share of tax off', () => {
+			// $108 invoice with $8 tax, paying half
+			expect(getTipBaseCents(5400, 10800, 800)).toBe(5000);
+			expect(getTipBaseCents(10800, 10800, 800)).toBe(10000);
+		});
+
+		it('uses the whole amount when there is no tax', () => {
+			expect(getTipBaseCents(5000, 10000, 0)).toBe(5000);
+			expect(getTipBaseCents(5000, 10000, null)).toBe(5000);
+		});
+	});
+
+	describe('calculateTipCents', () => {
+		it('rounds percentage tips to the cent', () => {
+			expect(calculateTipCents(10000, { kind: 'percent', percent: 18 })).toBe(
+				1800
+			);
+			expect(calculateTipCents(3333, { kind: 'percent', percent: 15 })).toBe(
+				500
+			);
+		});
+
+		it('uses custom amounts as given and never goes negative', () => {
+			expect(calculateTipCents(10000, { kind: 'custom', cents: 725 })).toBe(
+				725
+			);
+			expect(calculateTipCents(10000, { kind: 'custom', cents: -100 })).toBe(0);
+		});
+
+		it('is 0 with no tip', () => {
+			expect(calculateTipCents(10000, { kind: 'none' })).toBe(0);
+		});
+	});
+});
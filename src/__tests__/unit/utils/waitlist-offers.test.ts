@@ -0,0 +1,196 @@
+/**
+ * @jest-environment node
+ */
+
+const mockSendWaitlistOfferEmail = jest.fn();
+
+jest.mock('@/lib/services/email/email-service', () => ({
+	EmailService: jest.fn().mockImplementation(() => ({
+		sendWaitlistOfferEmail: mockSendWaitlistOfferEmail,
+	})),
+}));
+
+import { offerFreedSlotToWaitlist } from '@/lib/utils/waitlist-offers';
+
+type Row = Record<string, any>;
+
+const futureStart = new Date(Date.now() + 3 * 86_400_000);
+const futureDate = futureStart.toISOString().slice(0, 10);
+
+const canceledAppointment = {
+	id: 'appt-1',
+	shop_id: 'shop-1',
+	client_id: 'client-canceled',
+	date: futureDate,
+	start_time: '10:00:00',
+	end_time: '11:00:00',
+	start_at: futureStart.toISOString(),
+	type: 'fitting',
+	status: 'canceled',
+	shop: {
+		id: 'shop-1',
+		name: 'Stitch Shop',
+		business_name: null,
+		email: 'shop@example.com',
+		phone_number: '555-0123',
+		mailing_address: null,
+		owner_user_id: 'owner-1',
+		timezone: 'America/New_York',
+	},
+};
+
+const client = (id: string) => ({
+	id,
+	first_name: 'Jane',
+	last_name: id,
+	email: `${id}@example.com`,
+	phone_number: '555-0100',
+	accept_email: true,
+	accept_sms: false,
+});
+
+function makeSupabase(params: {
+	appointment: Row;
+	entries: Row[];
+	duplicateEntryIds?: string[];
+}) {
+	const inserts: Row[] = [];
+
+	const from = jest.fn((table: string) => {
+		let inserted: Row | undefined;
+		const result = () => {
+			if (table === 'appointments') {
+				return { data: params.appointment, error: null };
+			}
+			if (table === 'waitlist_entries') {
+				return { data: params.entries, error: null };
+			}
+			if (params.duplicateEntryIds?.includes(inserted?.waitlist_entry_id)) {
+				return { data: null, error: { code: '23505' } };
+			}
+			return {
+				data: { id: `offer-${inserted?.waitlist_entry_id}` },
+				error: null,
+			};
+		};
+		const chain: any = {
+			select: jest.fn(() => chain),
+			eq: jest.fn(() => chain),
+			lte: jest.fn(() => chain),
+			gte: jest.fn(() => chain),
+			order: jest.fn(() => chain),
+			single: jest.fn(() => Promise.resolve(result())),
+			insert: jest.fn((row: Row) => {
+				inserted = row;
+				inserts.push({ table, ...row });
+				return chain;
+			}),
+			then: (resolve: (value: any) => void) => resolve(result()),
+		};
+		return chain;
+	});
+
+	return { supabase: { from } as any, inserts };
+}
+
+describe('offerFreedSlotToWaitlist', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		mockSendWaitlistOfferEmail.mockResolvedValue({ success: true });
+	});
+
+	it('offers the slot to waitlisted clients wanting this type', async () => {
+		const { supabase, inserts } = makeSupabase({
+			appointment: canceledAppointment,
+			entries: [
+				{
+					id: 'entry-any',
+					client_id: 'client-a',
+					appointment_types: [],
+					client: client('client-a'),
+				},
+				{
+					id: 'entry-pickup',
+					client_id: 'client-b',
+					appointment_types: ['pickup'],
+					client: client('client-b'),
+				},
+				{
+					id: 'entry-fitting',
+					client_id: 'client-c',
+					appointment_types: ['fitting', 'pickup'],
+					client: client('client-c'),
+				},
+				{
+					id: 'entry-same-client',
+					client_id: 'client-canceled',
+					appointment_types: [],
+					client: client('client-canceled'),
+				},
+			],
+		});
+
+		const sent = await offerFreedSlotToWaitlist(supabase, 'appt-1');
+
+		expect(sent).toBe(2);
+		expect(inserts.map((i) => i.waitlist_entry_id)).toEqual([
+			'entry-any',
+			'entry-fitting',
+		]);
+		expect(inserts[0]).toMatchObject({
+			table: 'waitlist_offers',
+			source_appointment_id: 'appt-1',
+			date: futureDate,
+			type: 'fitting',
+			expires_at: futureStart.toISOString(),
+			token: expect.stringMatching(/^[a-f0-9]{64}$/),
+		});
+		expect(mockSendWaitlistOfferEmail).toHaveBeenCalledWith(
+			expect.objectContaining({
+				offerId: 'offer-entry-any',
+				appointmentType: 'Fitting',
+				claimLink: expect.stringMatching(
+					new RegExp(`/waitlist/claim/${inserts[0]!.token}$`)
+				),
+			})
+		);
+	});
+
+	it('does not offer a slot to the same entry twice', async () => {
+		const { supabase } = makeSupabase({
+			appointment: canceledAppointment,
+			entries: [
+				{
+					id: 'entry-1',
+					client_id: 'client-a',
+					appointment_types: [],
+					client: client('client-a'),
+				},
+			],
+			duplicateEntryIds: ['entry-1'],
+		});
+
+		const sent = await offerFreedSlotToWaitlist(supabase, 'appt-1');
+
+		expect(sent).toBe(0);
+		expect(mockSendWaitlistOfferEmail).not.toHaveBeenCalled();
+	});
+
+	it.each([
+		['the appointment is still active', { status: 'confirmed' }],
+		[
+			'the slot has already started',
+			{ start_at: new Date(Date.now() - 60_000).toISOString() },
+		],
+	])('skips the waitlist when %s', async (_label, override) => {
+		const { supabase } = makeSupabase({
+			appointment: { ...canceledAppointment, ...override },
+			entries: [],
+		});
+
+		const sent = await offerFreedSlotToWaitlist(supabase, 'appt-1');
+
+		expect(sent).toBe(0);
+		expect(supabase.from).not.toHaveBeenCalledWith('waitlist_entries');
+	});
+});
@@ -1,10 +1,19 @@
 'use client';
 
 import { useState } from 'react';
-import { Box, Typography, Button } from '@mui/material';
+import {
+	Box,
+	Typography,
+	Button,
+	FormControl,
+	InputLabel,
+	Select,
+	MenuItem,
+} from '@mui/material';
 import { CalendarWithQuery } from '@/components/appointments/CalendarWithQuery';
 import { AppointmentDetailsDialog } from '@/components/appointments/AppointmentDetailsDialog';
 import { AppointmentDialog } from '@/components/appointments/AppointmentDialog';
+import { WaitlistDialog } from '@/components/appointments/WaitlistDialog';
 import type { ShopHours, Appointment } from '@/types';
 import { useSearchParams } from 'next/navigation';
 import { parseISO, isValid } from 'date-fns';
@@ -12,6 +21,7 @@ import { parseLocalDateFromYYYYMMDD } from '@/lib/utils/date';
 import { useAppointments } from '@/providers/AppointmentProvider';
 import { RemixIcon } from '@/components/dashboard/common/RemixIcon';
 import { actionButtonStyle } from '@/constants/buttonStyles';
+import type { RecurrenceRule, SeriesScope } from '@/lib/utils/recurrence';
 
 interface AppointmentsClientProps {
 	shopId: string;
@@ -21,12 +31,14 @@ interface AppointmentsClientProps {
 		default_appointment_duration: number;
 		allow_overlapping_appointments: boolean;
 	};
+	staffMembers: Array<{ id: string; name: string }>;
 }
 
 export function AppointmentsClient({
 	shopId,
 	shopHours,
 	calendarSettings,
+	staffMembers,
 }: AppointmentsClientProps) {
 	const search = useSearchParams();
 	const { state } = useAppointments();
@@ -38,6 +50,10 @@ export function AppointmentsClient({
 		| 'list';
 	const dateParam = search.get('date');
 	const focusParam = search.get('focus') || undefined;
+	const waitlistParam = search.get('waitlist');
+	const [staffFilter, setStaffFilter] = useState<string>('');
+	// Single-person shops don't need assignment
+	const hasStaff = staffMembers.length > 1;
 
 	// State for dialogs
 	const [selectedAppointment, setSelectedAppointment] =
@@ -48,6 +64,9 @@ export function AppointmentsClient({
 	const [createDialogOpen, setCreateDialogOpen] = useState(false);
 	const [createDialogDate, setCreateDialogDate] = useState<Date | null>(null);
 	const [createDialogTime, setCreateDialogTime] = useState<string | null>(null);
+	const [waitlistDialogOpen, setWaitlistDialogOpen] = useState(
+		waitlistParam === 'open'
+	);
 
 	// Robustly parse date-only strings as local dates to avoid off-by-one timezone shifts
 	let parsedDate = new Date();
@@ -109,6 +128,8 @@ export function AppointmentsClient({
 		notes?: string;
 		sendEmail?: boolean;
 		timezone?: string;
+		recurrence?: RecurrenceRule;
+		assignedTo?: string | null;
 	}) => {
 		const result = await createAppointment(shopId, {
 			shopId: shopId,
@@ -119,6 +140,8 @@ export function AppointmentsClient({
 			type: data.type,
 			notes: data.notes || '',
 			sendEmail: data.sendEmail || false,
+			...(data.recurrence && { recurrence: data.recurrence }),
+			...(data.assignedTo !== undefined && { assignedTo: data.assignedTo }),
 		});
 
 		if (result.success) {
@@ -143,6 +166,8 @@ export function AppointmentsClient({
 		status?: string;
 		sendEmail?: boolean;
 		timezone?: string;
+		scope?: SeriesScope;
+		assignedTo?: string | null;
 	}) => {
 		if (!selectedAppointment) return;
 
@@ -163,6 +188,8 @@ export function AppointmentsClient({
 				| 'no_show'
 				| undefined,
 			sendEmail: data.sendEmail || false,
+			...(data.scope && { scope: data.scope }),
+			...(data.assignedTo !== undefined && { assignedTo: data.assignedTo }),
 		});
 
 		if (result.success) {
@@ -192,20 +219,54 @@ export function AppointmentsClient({
 					<Typography variant="h2" component="h1">
 						Appointments
 					</Typography>
-					<Button
-						variant="contained"
-						onClick={handleScheduleAppointment}
-						sx={{
-							borderRadius: 1,
-							textTransform: 'none',
-							fontWeight: 600,
-							px: 3,
-							...actionButtonStyle,
-						}}
-					>
-						<RemixIcon name="ri-calendar-line" size={18} color="inherit" />
-						<Box component="span">Schedule Appointment</Box>
-					</Button>
+					<Box sx={{ display: 'flex', gap: 1 }}>
+						{hasStaff && (
+							<FormControl size="small" sx={{ minWidth: 180 }}>
+								<InputLabel id="staff-filter-label">Staff</InputLabel>
+								<Select
+									labelId="staff-filter-label"
+									label="Staff"
+									value={staffFilter}
+									onChange={(e) => setStaffFilter(e.target.value)}
+								>
+									<MenuItem value="">Everyone</MenuItem>
+									{staffMembers.map((member) => (
+										<MenuItem key={member.id} value={member.id}>
+											{member.name}
+										</MenuItem>
+									))}
+								</Select>
+							</FormControl>
+						)}
+						<Button
+							variant="outlined"
+							onClick={() => setWaitlistDialogOpen(true)}
+							sx={{
+								borderRadius: 1,
+								textTransform: 'none',
+								fontWeight: 600,
+								px: 3,
+								...actionButtonStyle,
+							}}
+						>
+							<RemixIcon name="ri-user-follow-line" size={18} color="inherit" />
+							<Box component="span">Waitlist</Box>
+						</Button>
+						<Button
+							variant="contained"
+							onClick={handleScheduleAppointment}
+							sx={{
+								borderRadius: 1,
+								textTransform: 'none',
+								fontWeight: 600,
+								px: 3,
+								...actionButtonStyle,
+							}}
+						>
+							<RemixIcon name="ri-calendar-line" size={18} color="inherit" />
+							<Box component="span">Schedule Appointment</Box>
+						</Button>
+					</Box>
 				</Box>
 
 				<CalendarWithQuery
@@ -217,6 +278,7 @@ export function AppointmentsClient({
 					onAppointmentClick={handleAppointmentClick}
 					onDateClick={handleTimeSlotClick}
 					{...(focusParam && { focusAppointmentId: focusParam })}
+					{...(staffFilter && { staffUserId: staffFilter })}
 				/>
 
 				{/* Appointment Details Dialog */}
@@ -247,6 +309,8 @@ export function AppointmentsClient({
 						existingAppointments={existingAppointments}
 						calendarSettings={calendarSettings}
 						onUpdate={handleUpdateAppointment}
+						allowRecurrence
+						{...(hasStaff && { staffMembers })}
 					/>
 				)}
 
@@ -265,8 +329,15 @@ export function AppointmentsClient({
 						selectedDate={createDialogDate}
 						selectedTime={createDialogTime}
 						onCreate={handleCreateAppointment}
+						allowRecurrence
+						{...(hasStaff && { staffMembers })}
 					/>
 				)}
+
+				<WaitlistDialog
+					open={waitlistDialogOpen}
+					onClose={() => setWaitlistDialogOpen(false)}
+				/>
 			</Box>
 		</Box>
 	);
@@ -11,6 +11,7 @@ import { auth } from '@clerk/nextjs/server';
 import { AppointmentsClient } from './AppointmentsClient';
 import { getShopHours } from '@/lib/actions/shop-hours';
 import { getCalendarSettings } from '@/lib/actions/calendar-settings';
+import { getStaffMembers } from '@/lib/actions/staff';
 
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
@@ -32,8 +33,8 @@ async function getShopId() {
 
   const { data: shopData, error: shopError } = await supabase
     .from('shops')
-    .select('id')
-    .eq('owner_user_id', userData.id)
+    .select('id, users!users_shop_id_fkey!inner(id)')
+    .eq('users.id', userData.id)
     .single();
 
   if (shopError || !shopData) redirect('/onboarding');
@@ -46,9 +47,10 @@ export default async function AppointmentsPage() {
   const shopId = await getShopId();
 
   // Fetch only the necessary initial data (not appointments)
-  const [rawShopHours, calendarSettings] = await Promise.all([
+  const [rawShopHours, calendarSettings, staffResult] = await Promise.all([
     getShopHours(),
     getCalendarSettings(),
+    getStaffMembers(),
   ]);
 
   const shopHours: ShopHours[] = (rawShopHours as any[]).map((h) => ({
@@ -66,11 +68,17 @@ export default async function AppointmentsPage() {
       (calendarSettings as any).allow_overlapping_appointments ?? false,
   } as const;
 
+  const staffMembers = (staffResult.data || []).map(({ id, name }) => ({
+    id,
+    name,
+  }));
+
   return (
     <AppointmentsClient
       shopId={shopId}
       shopHours={shopHours}
       calendarSettings={normalizedCalendarSettings}
+      staffMembers={staffMembers}
     />
   );
 }
@@ -51,8 +51,8 @@ export default async function ClientAppointmentsPaginatedPage({
     .single();
   const { data: shopData } = await supabase
     .from('shops')
-    .select('id')
-    .eq('owner_user_id', userData!.id)
+    .select('id, users!users_shop_id_fkey!inner(id)')
+    .eq('users.id', userData!.id)
     .single();
   if (!shopData?.id) notFound();
 
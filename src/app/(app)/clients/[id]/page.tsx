@@ -36,6 +36,7 @@ import ClientDetailTabs from '@/components/clients/ClientDetailTabs';
 import ClientProfileCard from '@/components/clients/ClientProfileCard';
 import ClientEditDialog from '@/components/clients/ClientEditDialog';
 import ClientCommunicationPreferencesModal from '@/components/clients/ClientCommunicationPreferencesModal';
+import ClientStoreCreditCard from '@/components/clients/ClientStoreCreditCard';
 import Button from '@mui/material/Button';
 import { createClient } from '@/lib/supabase/server';
 import { auth } from '@clerk/nextjs/server';
@@ -85,8 +86,8 @@ export default async function ClientDetailPage({
 
 		const { data: shopData } = await supabase
 			.from('shops')
-			.select('id')
-			.eq('owner_user_id', userData.id)
+			.select('id, users!users_shop_id_fkey!inner(id)')
+			.eq('users.id', userData.id)
 			.single();
 
 		// Fetch shop hours, calendar settings, next appointment, ready for pickup count, active orders count, and outstanding balance
@@ -361,6 +362,11 @@ export default async function ClientDetailPage({
 								</Card>
 							</Box>
 
+							{/* Store Credit */}
+							<Box sx={{ mt: 3 }}>
+								<ClientStoreCreditCard clientId={client.id} />
+							</Box>
+
 							{/* Mailing Address */}
 							{client.mailing_address && (
 								<Box sx={{ mt: 3 }}>
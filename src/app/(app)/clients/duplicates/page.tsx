@@ -0,0 +1,50 @@
+import { Alert, Box, Button, Typography } from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import Link from 'next/link';
+import {
+	getDuplicateClients,
+	getRecentClientMerges,
+} from '@/lib/actions/client-merge';
+import ClientDuplicatesList from '@/components/clients/ClientDuplicatesList';
+
+// Force dynamic rendering since this page uses authentication
+export const dynamic = 'force-dynamic';
+
+export default async function ClientDuplicatesPage() {
+	const [duplicates, merges] = await Promise.all([
+		getDuplicateClients(),
+		getRecentClientMerges(),
+	]);
+
+	return (
+		<Box sx={{ p: 3 }}>
+			<Box sx={{ mt: 2, mb: 4 }}>
+				<Button
+					component={Link}
+					href="/clients"
+					startIcon={<ArrowBackIcon />}
+					sx={{ mb: 2 }}
+				>
+					Clients
+				</Button>
+				<Typography variant="h2" component="h1" gutterBottom>
+					Duplicate Clients
+				</Typography>
+				<Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+					Clients that share a phone number or email, or have the same or a very
+					similar name. Merging moves everything to the record you keep and
+					archives the other one.
+				</Typography>
+
+				{duplicates.success ? (
+					<ClientDuplicatesList
+						pairs={duplicates.data || []}
+						merges={merges.data || []}
+					/>
+				) : (
+					<Alert severity="error">{duplicates.error}</Alert>
+				)}
+			</Box>
+		</Box>
+	);
+}
@@ -1,4 +1,5 @@
-import { Typography, Box } from '@mui/material';
+import { Typography, Box, Button } from '@mui/material';
+import Link from 'next/link';
 import { Suspense } from 'react';
 import AddClientCtas from '@/components/clients/AddClientCtas';
 import ClientsListWrapper from './ClientsListWrapper';
@@ -23,7 +24,12 @@ export default function ClientsPage() {
 					<Typography variant="h2" component="h1">
 						Clients
 					</Typography>
-					<AddClientCtas />
+					<Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+						<Button component={Link} href="/clients/duplicates">
+							Find Duplicates
+						</Button>
+						<AddClientCtas />
+					</Box>
 				</Box>
 
 				{/* Clients List with pagination - shows skeleton while loading */}
@@ -10,6 +10,7 @@ import GarmentHistorySection from './GarmentHistorySection';
 import ReadyForPickupBanner from '@/components/garments/ReadyForPickupBanner';
 import CancelledOrderBanner from '@/components/garments/CancelledOrderBanner';
 import BalanceConfirmationDialog from '@/components/garments/BalanceConfirmationDialog';
+import DepositRequiredDialog from '@/components/garments/DepositRequiredDialog';
 import { useGarment } from '@/contexts/GarmentContext';
 import GarmentCompletionCelebration from '@/components/garments/GarmentCompletionCelebration';
 
@@ -51,6 +52,9 @@ export default function GarmentDetailContent({
 		closeBalanceDialog,
 		handlePickupWithoutPayment,
 		handlePaymentAndPickup,
+		depositBlock,
+		closeDepositDialog,
+		overrideDepositAndContinue,
 	} = useGarment();
 
 	return (
@@ -126,6 +130,18 @@ export default function GarmentDetailContent({
 					clientEmail={balanceCheckData.clientEmail}
 				/>
 			)}
+
+			{/* Deposit Required Dialog */}
+			{depositBlock && (
+				<DepositRequiredDialog
+					open
+					onClose={closeDepositDialog}
+					onOverride={overrideDepositAndContinue}
+					orderId={depositBlock.orderId}
+					requiredCents={depositBlock.requiredCents}
+					outstandingCents={depositBlock.outstandingCents}
+				/>
+			)}
 		</>
 	);
 }
@@ -12,6 +12,9 @@ import Grid from '@mui/material/Grid2';
 import GarmentDetailClient from './GarmentDetailClient';
 import GarmentServicesManager from '@/components/garments/GarmentServicesManager';
 import GarmentTimeTracker from '@/components/garments/GarmentTimeTracker';
+import GarmentAssignments from '@/components/garments/GarmentAssignments';
+import GarmentMeasurements from '@/components/garments/GarmentMeasurements';
+import GarmentPhotoGallery from '@/components/garments/GarmentPhotoGallery';
 import { useGarment } from '@/contexts/GarmentContext';
 import Link from 'next/link';
 import { formatDateSafe } from '@/lib/utils/date-time-utils';
@@ -140,6 +143,9 @@ export default function GarmentRightColumn({
 				<GarmentServicesManager />
 			</Box>
 
+			{/* Staff Assignment */}
+			<GarmentAssignments />
+
 			{/* Time Tracker */}
 			<Box sx={{ mb: 3 }}>
 				<GarmentTimeTracker
@@ -151,6 +157,12 @@ export default function GarmentRightColumn({
 				/>
 			</Box>
 
+			{/* Photos */}
+			<GarmentPhotoGallery />
+
+			{/* Measurements */}
+			<GarmentMeasurements />
+
 			{/* Notes */}
 			{garment.notes && (
 				<Card sx={{ mb: 3 }}>
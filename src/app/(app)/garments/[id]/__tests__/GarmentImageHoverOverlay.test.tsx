@@ -52,12 +52,14 @@ const mockGarmentContext = {
   updateGarmentIcon: jest.fn(),
   updateGarmentPhoto: jest.fn(),
   deleteGarmentPhoto: jest.fn(),
+  syncCoverPhoto: jest.fn(),
   addService: jest.fn(),
   removeService: jest.fn(),
   restoreService: jest.fn(),
   updateService: jest.fn(),
   toggleServiceComplete: jest.fn(),
   markAsPickedUp: jest.fn(),
+  moveToStage: jest.fn(),
   refreshGarment: jest.fn(),
   refreshHistory: jest.fn(),
   historyKey: 0,
@@ -67,6 +69,9 @@ const mockGarmentContext = {
   balanceDialogOpen: false,
   balanceCheckData: null,
   closeBalanceDialog: jest.fn(),
+  depositBlock: null,
+  closeDepositDialog: jest.fn(),
+  overrideDepositAndContinue: jest.fn(),
   handlePickupWithoutPayment: jest.fn(),
   handlePaymentAndPickup: jest.fn(),
   balanceStatus: null,
@@ -2,7 +2,14 @@
 
 import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from '@/lib/auth/user-shop';
 import type { GarmentStage } from '@/types';
+import {
+  getDepositDueMessage,
+  getOrderDepositStatus,
+  isWorkBlockedByDeposit,
+} from '@/lib/utils/deposits';
+import { getStageMoveError } from '@/lib/utils/garmentStageCalculator';
 
 const UpdateStageSchema = z.object({
   shopId: z.string().uuid(),
@@ -26,16 +33,16 @@ export async function updateGarmentStage(
     stage,
   });
 
-  // Get the current user ID
-  const { data: userData, error: userError } = await supabase.auth.getUser();
-  if (userError || !userData?.user?.id) {
-    throw new Error('User not authenticated');
-  }
+  // Users sign in through Clerk, so the user and their shop come from there
+  const { user, shop } = await ensureUserAndShop();
+  if (sId !== shop.id) throw new Error('Garment not found');
 
   // Ensure garment belongs to shop and update
   const { data: current, error: fetchError } = await supabase
     .from('garments')
-    .select('id, shop_id, stage')
+    .select(
+      'id, shop_id, stage, order_id, garment_services(id, is_done, is_removed)'
+    )
     .eq('id', gId)
     .maybeSingle();
 
@@ -44,6 +51,26 @@ export async function updateGarmentStage(
   if (!current || current.shop_id !== sId) throw new Error('Garment not found');
   if (current.stage === s) return;
 
+  // The same rules the garment page applies, so other callers can't skip them
+  const moveError = getStageMoveError(
+    current.stage || 'New',
+    s,
+    (current.garment_services || []).map((service) => ({
+      id: service.id,
+      is_done: !!service.is_done,
+      is_removed: !!service.is_removed,
+    }))
+  );
+  if (moveError) throw new Error(moveError);
+
+  // Work can't start on a new garment until the order's deposit is paid
+  if (current.stage === 'New' && current.order_id) {
+    const deposit = await getOrderDepositStatus(supabase, current.order_id);
+    if (isWorkBlockedByDeposit(deposit)) {
+      throw new Error(getDepositDueMessage(deposit));
+    }
+  }
+
   const { error } = await supabase
     .from('garments')
     .update({ stage: s })
@@ -58,7 +85,7 @@ export async function updateGarmentStage(
     .from('garment_history')
     .insert({
       garment_id: gId,
-      changed_by: userData.user.id,
+      changed_by: user.id,
       field_name: 'stage',
       old_value: current.stage,
       new_value: s,
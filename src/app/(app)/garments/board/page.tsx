@@ -0,0 +1,56 @@
+import { Box, Button, Typography } from '@mui/material';
+import ViewListIcon from '@mui/icons-material/ViewList';
+import Link from 'next/link';
+import { ensureUserAndShop } from '@/lib/actions/users';
+import { getGarmentsPaginated } from '@/lib/actions/garments-paginated';
+import GarmentBoard from '@/components/garments/GarmentBoard';
+import { GARMENT_STAGES } from '@/constants/garmentStages';
+
+export const dynamic = 'force-dynamic';
+
+// Cards loaded per column; Done only shows the latest few
+const COLUMN_LIMIT = 100;
+const DONE_LIMIT = 20;
+
+export default async function GarmentBoardPage() {
+	const { shop } = await ensureUserAndShop();
+
+	const columns = await Promise.all(
+		GARMENT_STAGES.map(({ name }) =>
+			getGarmentsPaginated({
+				shopId: shop.id,
+				stage: name,
+				limit: name === 'Done' ? DONE_LIMIT : COLUMN_LIMIT,
+				sortField: name === 'Done' ? 'created_at' : 'due_date',
+				sortOrder: name === 'Done' ? 'desc' : 'asc',
+				includeCancelled: false,
+				onlyCancelled: false,
+			})
+		)
+	);
+
+	return (
+		<Box sx={{ p: 3 }}>
+			<Box
+				sx={{
+					display: 'flex',
+					justifyContent: 'space-between',
+					alignItems: 'center',
+					mb: 3,
+				}}
+			>
+				<Typography variant="h2" component="h1">
+					Garment Board
+				</Typography>
+				<Button component={Link} href="/garments" startIcon={<ViewListIcon />}>
+					List View
+				</Button>
+			</Box>
+			<GarmentBoard
+				shopId={shop.id}
+				garments={columns.flatMap((column) => column.garments)}
+				stageCounts={columns[0]?.stageCounts || {}}
+			/>
+		</Box>
+	);
+}
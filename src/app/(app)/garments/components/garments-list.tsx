@@ -1,9 +1,10 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import Grid2 from '@mui/material/Grid2';
-import { Box, Typography } from '@mui/material';
+import { Box, Checkbox, Typography } from '@mui/material';
 import GarmentCard from '@/components/garments/GarmentCard';
+import GarmentBulkActions from '@/components/garments/GarmentBulkActions';
 import { InfiniteScrollTrigger } from '@/components/common/InfiniteScrollTrigger';
 import type { GarmentListItem } from '@/lib/actions/garments-paginated';
 import GarmentCardSkeletonGrid from '@/components/garments/GarmentCardSkeleton';
@@ -16,6 +17,8 @@ interface GarmentsListProps {
   onStageUpdate?: (garmentId: string, newStage: string) => void;
   totalCount?: number | undefined;
   error?: Error | null;
+  // Called after a bulk action so the list can reload
+  onBulkComplete?: () => void;
 }
 
 export default function GarmentsList({
@@ -25,7 +28,26 @@ export default function GarmentsList({
   onLoadMore,
   totalCount,
   error,
+  onBulkComplete,
 }: GarmentsListProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const selected = garments.filter((g) => selectedIds.has(g.id));
+
+  const toggleSelected = (garmentId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(garmentId)) next.delete(garmentId);
+      else next.add(garmentId);
+      return next;
+    });
+  };
+
+  // Failed garments stay selected so they can be fixed and retried
+  const handleBulkFinished = (failedIds: string[]) => {
+    setSelectedIds(new Set(failedIds));
+    onBulkComplete?.();
+  };
+
   return (
     <Box
       sx={{
@@ -44,7 +66,23 @@ export default function GarmentsList({
       >
         {garments.map((g) => (
           <Grid2 key={g.id} size={{ xs: 4, sm: 4, md: 4, lg: 4 }}>
-            <GarmentCard garment={g as any} orderId={g.order_id} />
+            <Box sx={{ position: 'relative' }}>
+              <GarmentCard garment={g as any} orderId={g.order_id} />
+              <Checkbox
+                size="small"
+                checked={selectedIds.has(g.id)}
+                onChange={() => toggleSelected(g.id)}
+                inputProps={{ 'aria-label': `Select ${g.name}` }}
+                sx={{
+                  position: 'absolute',
+                  top: 8,
+                  right: 8,
+                  p: 0.5,
+                  bgcolor: 'background.paper',
+                  '&:hover': { bgcolor: 'background.paper' },
+                }}
+              />
+            </Box>
           </Grid2>
         ))}
       </Grid2>
@@ -69,6 +107,14 @@ export default function GarmentsList({
         />
       )}
 
+      <GarmentBulkActions
+        selected={selected}
+        total={garments.length}
+        onSelectAll={() => setSelectedIds(new Set(garments.map((g) => g.id)))}
+        onClear={() => setSelectedIds(new Set())}
+        onFinished={handleBulkFinished}
+      />
+
       {!garments.length && (
         <Box sx={{ textAlign: 'center', py: 6 }}>
           <Typography variant="body1" color="text.secondary">
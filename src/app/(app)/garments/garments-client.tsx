@@ -39,6 +39,7 @@ import StageBox from '@/components/garments/StageBox';
 import { GARMENT_STAGES } from '@/constants/garmentStages';
 import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
 import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import ViewKanbanIcon from '@mui/icons-material/ViewKanban';
 import Grid2 from '@mui/material/Grid2';
 import { groupGarmentsByClientName } from '@/utils/garments-sort';
 import GarmentCardSkeletonGrid from '@/components/garments/GarmentCardSkeleton';
@@ -54,10 +55,13 @@ interface GarmentsClientProps {
   initialData: PaginatedGarmentsResponse;
   stageCounts: Record<string, number>;
   shopId: string;
+  // Shop staff for the assignee filter
+  staffMembers?: Array<{ id: string; name: string }>;
   initialFilters: {
     stage?: GarmentStage;
     search?: string;
     filter?: 'due-today' | 'overdue';
+    assignee?: string;
     sortField: SortField;
     sortOrder: 'asc' | 'desc';
   };
@@ -74,6 +78,7 @@ export default function GarmentsClient({
   initialData,
   stageCounts,
   shopId,
+  staffMembers = [],
   initialFilters,
 }: GarmentsClientProps) {
   const router = useRouter();
@@ -110,6 +115,7 @@ export default function GarmentsClient({
     if (initialFilters.stage)
       qs.set('stage', stageToParam[initialFilters.stage]);
     if (initialFilters.filter) qs.set('filter', initialFilters.filter);
+    if (initialFilters.assignee) qs.set('assignee', initialFilters.assignee);
     if (initialFilters.search) qs.set('search', initialFilters.search);
     return qs.toString();
   });
@@ -125,6 +131,7 @@ export default function GarmentsClient({
     initialData.hasMore,
     initialFilters.stage,
     initialFilters.search,
+    initialFilters.assignee,
     initialFilters.sortField,
     initialFilters.sortOrder,
   ]);
@@ -140,6 +147,8 @@ export default function GarmentsClient({
         current.set('stage', stageToParam[initialFilters.stage]);
       if (initialFilters.filter && !current.has('filter'))
         current.set('filter', initialFilters.filter);
+      if (initialFilters.assignee && !current.has('assignee'))
+        current.set('assignee', initialFilters.assignee);
       if (initialFilters.search && !current.has('search'))
         current.set('search', initialFilters.search);
 
@@ -173,11 +182,13 @@ export default function GarmentsClient({
     if (initialFilters.stage)
       qs.set('stage', stageToParam[initialFilters.stage]);
     if (initialFilters.filter) qs.set('filter', initialFilters.filter);
+    if (initialFilters.assignee) qs.set('assignee', initialFilters.assignee);
     if (initialFilters.search) qs.set('search', initialFilters.search);
     setCurrentQueryString(qs.toString());
   }, [
     initialFilters.stage,
     initialFilters.filter,
+    initialFilters.assignee,
     initialFilters.sortField,
     initialFilters.sortOrder,
     initialFilters.search,
@@ -227,6 +238,7 @@ export default function GarmentsClient({
         ...(initialFilters.stage && { stage: initialFilters.stage }),
         ...(initialFilters.search && { search: initialFilters.search }),
         ...(initialFilters.filter && { filter: initialFilters.filter }),
+        ...(initialFilters.assignee && { assignee: initialFilters.assignee }),
       };
 
       const result = await loadMoreGarments(params);
@@ -421,6 +433,33 @@ export default function GarmentsClient({
                 <MenuItem value="overdue">Overdue</MenuItem>
               </Select>
             </FormControl>
+            {staffMembers.length > 1 && (
+              <FormControl size="small" sx={{ minWidth: 160 }}>
+                <InputLabel id="assignee-label">Assigned To</InputLabel>
+                <Select
+                  labelId="assignee-label"
+                  label="Assigned To"
+                  value={initialFilters.assignee || 'all'}
+                  onChange={(e) => {
+                    const value = e.target.value as string;
+                    updateFilters({
+                      assignee: value === 'all' ? undefined : value,
+                      cursor: undefined,
+                    });
+                  }}
+                  MenuProps={{
+                    disableScrollLock: true,
+                  }}
+                >
+                  <MenuItem value="all">Everyone</MenuItem>
+                  {staffMembers.map((member) => (
+                    <MenuItem key={member.id} value={member.id}>
+                      {member.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
             <FormControl size="small" sx={{ minWidth: 180 }}>
               <InputLabel id="sort-label">Sort By</InputLabel>
               <Select
@@ -464,6 +503,15 @@ export default function GarmentsClient({
                 )}
               </IconButton>
             </Tooltip>
+            <Tooltip title="Board view">
+              <IconButton
+                size="small"
+                onClick={() => router.push('/garments/board')}
+                aria-label="Board view"
+              >
+                <ViewKanbanIcon />
+              </IconButton>
+            </Tooltip>
           </Box>
         </Box>
       </Box>
@@ -556,6 +604,7 @@ export default function GarmentsClient({
           onLoadMore={onLoadMore}
           totalCount={initialData.totalCount}
           error={loadError}
+          onBulkComplete={() => router.refresh()}
         />
       )}
     </Box>
@@ -3,6 +3,7 @@ import { ensureUserAndShop } from '@/lib/actions/users';
 import GarmentsClient from './garments-client';
 import Loading from './loading';
 import { getGarmentsPaginated } from '@/lib/actions/garments-paginated';
+import { getStaffMembers } from '@/lib/actions/staff';
 import type { GarmentStage } from '@/types';
 type SortField =
   | 'created_at'
@@ -20,6 +21,7 @@ interface PageProps {
     sort?: string;
     order?: 'asc' | 'desc';
     filter?: string;
+    assignee?: string;
   }>;
 }
 
@@ -40,15 +42,23 @@ export default async function GarmentsPage({ searchParams }: PageProps) {
     sortField: (sp.sort || 'created_at') as any,
     sortOrder: (sp.order || 'desc') as 'asc' | 'desc',
     filter: sp.filter as 'due-today' | 'overdue' | undefined,
+    assignee: sp.assignee,
   };
 
-  const initialData = await getGarmentsPaginated({
-    shopId: shop.id,
-    ...filters,
-    limit: 20,
-    includeCancelled: false,
-    onlyCancelled: false,
-  });
+  const [initialData, staffResult] = await Promise.all([
+    getGarmentsPaginated({
+      shopId: shop.id,
+      ...filters,
+      limit: 20,
+      includeCancelled: false,
+      onlyCancelled: false,
+    }),
+    getStaffMembers(),
+  ]);
+  const staffMembers = (staffResult.data || []).map(({ id, name }) => ({
+    id,
+    name,
+  }));
 
   // compute stageCounts from first page if provided; fallback to zeros
   const stageCounts =
@@ -66,11 +76,13 @@ export default async function GarmentsPage({ searchParams }: PageProps) {
         initialData={initialData}
         stageCounts={stageCounts}
         shopId={shop.id}
+        staffMembers={staffMembers}
         initialFilters={{
           // Only include optional fields if defined to satisfy exactOptionalPropertyTypes
           ...(filters.stage ? { stage: filters.stage as GarmentStage } : {}),
           ...(filters.search ? { search: filters.search as string } : {}),
           ...(filters.filter ? { filter: filters.filter } : {}),
+          ...(filters.assignee ? { assignee: filters.assignee } : {}),
           sortField: filters.sortField as SortField,
           sortOrder: filters.sortOrder,
         }}
@@ -29,6 +29,7 @@ import {
 } from '@mui/material';
 import Grid from '@mui/material/Grid2';
 import PrintIcon from '@mui/icons-material/Print';
+import PictureAsPdfIcon from '@mui/icons-material/PictureAsPdf';
 import SendIcon from '@mui/icons-material/Send';
 import PaymentIcon from '@mui/icons-material/Payment';
 import LinkIcon from '@mui/icons-material/Link';
@@ -55,6 +56,8 @@ import {
 import { restoreRemovedService } from '@/lib/actions/garments';
 import PaymentManagement from '@/components/invoices/PaymentManagement';
 import InvoiceLineItems from '@/components/invoices/InvoiceLineItems';
+import PaymentReminderHistory from '@/components/invoices/PaymentReminderHistory';
+import InstallmentPlanCard from '@/components/invoices/InstallmentPlanCard';
 import {
 	formatCurrency,
 	formatDate,
@@ -374,6 +377,22 @@ export default function InvoiceDetailClient({
 						>
 							Print
 						</Button>
+						<Button
+							variant="outlined"
+							startIcon={<PictureAsPdfIcon />}
+							href={`/api/invoices/${invoiceId}/pdf`}
+						>
+							Download PDF
+						</Button>
+						{totalPaid > 0 && (
+							<Button
+								variant="outlined"
+								startIcon={<PictureAsPdfIcon />}
+								href={`/api/invoices/${invoiceId}/pdf?type=receipt`}
+							>
+								Download Receipt
+							</Button>
+						)}
 						{invoice.status === 'pending' && (
 							<>
 								<Button
@@ -707,6 +726,19 @@ export default function InvoiceDetailClient({
 								</CardContent>
 							</Card>
 						)}
+
+						{/* Installment Payment Plan */}
+						<InstallmentPlanCard
+							invoiceId={invoice.id}
+							invoiceStatus={invoice.status}
+							onPlanChange={fetchInvoice}
+						/>
+
+						{/* Overdue Payment Reminders */}
+						<PaymentReminderHistory
+							invoiceId={invoice.id}
+							lastPaymentAt={invoice.payment_reminders_stopped_at}
+						/>
 					</Grid>
 				</Grid>
 
@@ -1,6 +1,7 @@
 import { ReactNode } from 'react';
 import { ResponsiveNav } from '@/components/layout/ResponsiveNav';
 import { AppointmentProvider } from '@/providers/AppointmentProvider';
+import { ServiceTimerProvider } from '@/providers/ServiceTimerProvider';
 import { ensureUserAndShop } from '@/lib/auth/user-shop';
 import { redirect } from 'next/navigation';
 import { preloadAllStaticData } from '@/lib/actions/static-data-cache';
@@ -26,7 +27,9 @@ export default async function AppLayout({ children }: { children: ReactNode }) {
 
   return (
     <AppointmentProvider shopId={userWithShop.shop.id}>
-      <ResponsiveNav>{children}</ResponsiveNav>
+      <ServiceTimerProvider>
+        <ResponsiveNav>{children}</ResponsiveNav>
+      </ServiceTimerProvider>
     </AppointmentProvider>
   );
 }
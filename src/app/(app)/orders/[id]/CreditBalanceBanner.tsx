@@ -1,23 +1,47 @@
 'use client';
 
 import { useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { Box } from '@mui/material';
 import { Warning as WarningIcon } from '@mui/icons-material';
+import toast from 'react-hot-toast';
 import { AlertCard } from '@/components/dashboard/alerts/AlertCard';
+import { moveOverpaymentToCredit } from '@/lib/actions/store-credit';
 
 interface CreditBalanceBannerProps {
   creditAmountFormatted: string;
+  // Overpayment on the invoice, which can be moved to store credit
+  creditAmountCents?: number;
+  invoiceId?: string | undefined;
 }
 
 export default function CreditBalanceBanner({
   creditAmountFormatted,
+  creditAmountCents,
+  invoiceId,
 }: CreditBalanceBannerProps) {
+  const router = useRouter();
   const [isDismissed, setIsDismissed] = useState(false);
+  const [isMoving, setIsMoving] = useState(false);
 
   if (isDismissed) {
     return null;
   }
 
+  const handleMoveToCredit = async () => {
+    if (!invoiceId || !creditAmountCents || isMoving) return;
+
+    setIsMoving(true);
+    const result = await moveOverpaymentToCredit(invoiceId, creditAmountCents);
+    if (result.success) {
+      toast.success(`${creditAmountFormatted} moved to store credit`);
+      router.refresh();
+    } else {
+      toast.error(result.error || 'Failed to move overpayment to credit');
+    }
+    setIsMoving(false);
+  };
+
   return (
     <Box sx={{ mb: 3 }}>
       <AlertCard
@@ -25,7 +49,9 @@ export default function CreditBalanceBanner({
         title="Refund Required"
         description={`Customer has overpaid by ${creditAmountFormatted}`}
         severity="warning"
-        showAction={false}
+        showAction={!!invoiceId && !!creditAmountCents}
+        onAction={handleMoveToCredit}
+        actionLabel={isMoving ? 'Moving...' : 'Move to Store Credit'}
         onDismiss={() => setIsDismissed(true)}
       />
     </Box>
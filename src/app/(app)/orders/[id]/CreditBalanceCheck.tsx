@@ -14,6 +14,7 @@ interface CreditBalanceCheckProps {
   payments: PaymentInfo[];
   discountCents: number;
   taxCents: number;
+  invoiceId?: string | undefined;
 }
 
 function formatUSD(cents: number) {
@@ -29,6 +30,7 @@ export default function CreditBalanceCheck({
   payments,
   discountCents,
   taxCents,
+  invoiceId,
 }: CreditBalanceCheckProps) {
   // Calculate active total from garment services (excluding soft-deleted)
   const activeServicesSubtotal = garmentServices
@@ -50,7 +52,11 @@ export default function CreditBalanceCheck({
   if (calcPaymentStatus === 'overpaid') {
     const creditAmount = -amountDue; // amountDue is negative when overpaid
     return (
-      <CreditBalanceBanner creditAmountFormatted={formatUSD(creditAmount)} />
+      <CreditBalanceBanner
+        creditAmountFormatted={formatUSD(creditAmount)}
+        creditAmountCents={creditAmount}
+        invoiceId={invoiceId}
+      />
     );
   }
 
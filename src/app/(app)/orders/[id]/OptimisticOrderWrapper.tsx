@@ -66,6 +66,8 @@ interface OptimisticOrderWrapperProps {
 	orderTotal: number;
 	orderSubtotal: number;
 	discountCents: number;
+	discountCode?: string | null;
+	discountReason?: string | null;
 	taxCents: number;
 }
 
@@ -118,6 +120,8 @@ export default function OptimisticOrderWrapper({
 	orderTotal,
 	orderSubtotal,
 	discountCents,
+	discountCode,
+	discountReason,
 	taxCents,
 }: OptimisticOrderWrapperProps) {
 	const router = useRouter();
@@ -234,6 +238,8 @@ export default function OptimisticOrderWrapper({
 			// Pass order pricing details
 			orderSubtotal={orderSubtotal}
 			discountCents={discountCents}
+			discountCode={discountCode}
+			discountReason={discountReason}
 			taxCents={taxCents}
 		/>
 	);
@@ -1,12 +1,21 @@
 'use client';
 
-import { Box, Card, CardContent, Typography, Alert } from '@mui/material';
+import {
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Typography,
+	Alert,
+} from '@mui/material';
+import LocalOfferIcon from '@mui/icons-material/LocalOffer';
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import toast from 'react-hot-toast';
 import EnhancedInvoiceLineItems from '@/components/invoices/EnhancedInvoiceLineItems';
 import PaymentManagement from '@/components/invoices/PaymentManagement';
 import RecordPaymentDialog from '@/components/orders/RecordPaymentDialog';
+import ApplyDiscountDialog from '@/components/orders/ApplyDiscountDialog';
 import {
 	calculatePaymentStatus,
 	type PaymentInfo,
@@ -97,6 +106,8 @@ interface OrderServicesAndPaymentsProps {
 	isPending?: boolean;
 	orderSubtotal?: number;
 	discountCents?: number;
+	discountCode?: string | null | undefined;
+	discountReason?: string | null | undefined;
 	taxCents?: number;
 }
 
@@ -114,10 +125,15 @@ export default function OrderServicesAndPayments({
 	isPending,
 	orderSubtotal,
 	discountCents,
+	discountCode,
+	discountReason,
 	taxCents,
 }: OrderServicesAndPaymentsProps) {
 	const router = useRouter();
 	const [paymentDialogOpen, setPaymentDialogOpen] = useState(false);
+	const [discountDialogOpen, setDiscountDialogOpen] = useState(false);
+	const orderId = garmentServices[0]?.garments?.order_id;
+	const canApplyDiscount = !!orderId && orderStatus !== 'cancelled';
 
 	// Restoring services is disabled on the orders page; use the garment page instead.
 
@@ -174,9 +190,25 @@ export default function OrderServicesAndPayments({
 			{lineItems.length > 0 && (
 				<Card sx={{ mb: 4 }}>
 					<CardContent>
-						<Typography variant="h6" gutterBottom>
-							All Services for this Order
-						</Typography>
+						<Box
+							sx={{
+								display: 'flex',
+								justifyContent: 'space-between',
+								alignItems: 'center',
+								mb: 1,
+							}}
+						>
+							<Typography variant="h6">All Services for this Order</Typography>
+							{canApplyDiscount && (
+								<Button
+									size="small"
+									startIcon={<LocalOfferIcon />}
+									onClick={() => setDiscountDialogOpen(true)}
+								>
+									{discountCents ? 'Change Discount' : 'Apply Discount'}
+								</Button>
+							)}
+						</Box>
 						{!invoice && amountDue > 0 && (
 							<Alert severity="info" sx={{ mb: 2 }}>
 								<Typography variant="body2">
@@ -197,11 +229,11 @@ export default function OrderServicesAndPayments({
 							paidAt={paidAt}
 							// Only allow recording payment if invoice exists
 							onRecordPayment={invoice ? handleRecordPayment : undefined}
-							{...(garmentServices[0]?.garments?.order_id && {
-								orderId: garmentServices[0].garments.order_id,
-							})}
+							{...(orderId && { orderId })}
 							orderSubtotal={orderSubtotal}
 							discountCents={discountCents}
+							discountCode={discountCode}
+							discountReason={discountReason}
 							taxCents={taxCents}
 						/>
 					</CardContent>
@@ -245,6 +277,22 @@ export default function OrderServicesAndPayments({
 				/>
 			)}
 
+			{canApplyDiscount && (
+				<ApplyDiscountDialog
+					open={discountDialogOpen}
+					onClose={() => setDiscountDialogOpen(false)}
+					onUpdated={() => {
+						setDiscountDialogOpen(false);
+						router.refresh();
+					}}
+					orderId={orderId}
+					currentDiscount={{
+						discountCents: discountCents || 0,
+						code: discountCode,
+					}}
+				/>
+			)}
+
 			{/* Record Payment Dialog */}
 			{invoice && (
 				<RecordPaymentDialog
@@ -66,7 +66,7 @@ export default async function OrderDetailPage({
 	const { data: order } = (await supabase
 		.from('orders')
 		.select(
-			'id, client_id, status, order_due_date, subtotal_cents, discount_cents, tax_cents, total_cents, created_at, order_number, is_paid, paid_at, paid_amount_cents, notes'
+			'id, client_id, status, order_due_date, subtotal_cents, discount_cents, discount_code, discount_reason, tax_cents, total_cents, created_at, order_number, is_paid, paid_at, paid_amount_cents, notes'
 		)
 		.eq('id', id)
 		.single()) as {
@@ -410,6 +410,7 @@ export default async function OrderDetailPage({
 					payments={(paymentHistory as PaymentInfo[]) || []}
 					discountCents={order?.discount_cents || 0}
 					taxCents={order?.tax_cents || 0}
+					invoiceId={invoice?.id}
 				/>
 
 				{/* Condensed Order Overview */}
@@ -599,6 +600,8 @@ export default async function OrderDetailPage({
 					orderTotal={activeTotal}
 					orderSubtotal={activeSubtotal}
 					discountCents={order?.discount_cents || 0}
+					discountCode={order?.discount_code ?? null}
+					discountReason={order?.discount_reason ?? null}
 					taxCents={order?.tax_cents || 0}
 				/>
 			</Box>
@@ -4,20 +4,24 @@ import { Container, Typography, Box } from '@mui/material';
 import Link from 'next/link';
 import { OrderFlowProvider } from '@/contexts/OrderFlowContext';
 import OrderFlowStepper from '@/components/orders/OrderFlowStepper';
+import type { DepositPolicy } from '@/lib/utils/deposit-calculations';
 
 interface NewOrderClientProps {
 	initialClientId?: string | undefined;
 	taxPercent: number;
+	depositPolicy?: DepositPolicy | undefined;
 }
 
 export default function NewOrderClient({
 	initialClientId,
 	taxPercent,
+	depositPolicy,
 }: NewOrderClientProps) {
 	return (
 		<OrderFlowProvider
 			{...(initialClientId ? { initialClientId } : {})}
 			taxPercent={taxPercent}
+			{...(depositPolicy ? { depositPolicy } : {})}
 		>
 			<Container maxWidth="lg">
 				<Box
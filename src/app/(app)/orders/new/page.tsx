@@ -3,7 +3,10 @@ import { Container, Typography, Box, Skeleton } from '@mui/material';
 import Link from 'next/link';
 import { OrderFlowProvider } from '@/contexts/OrderFlowContext';
 import OrderFlowStepper from '@/components/orders/OrderFlowStepper';
-import { getShopTaxPercent } from '@/lib/actions/shop-settings';
+import {
+	getShopDepositPolicy,
+	getShopTaxPercent,
+} from '@/lib/actions/shop-settings';
 import NewOrderClient from './NewOrderClient';
 
 // Server Component - fetches data
@@ -13,7 +16,10 @@ export default async function NewOrderPage({
 	searchParams: Promise<{ clientId?: string }>;
 }) {
 	// Fetch tax percent on server (Next.js 15 best practice)
-	const taxPercent = await getShopTaxPercent();
+	const [taxPercent, depositPolicy] = await Promise.all([
+		getShopTaxPercent(),
+		getShopDepositPolicy(),
+	]);
 	const params = await searchParams;
 	const clientId = params.clientId;
 
@@ -22,6 +28,7 @@ export default async function NewOrderPage({
 			<NewOrderClient
 				initialClientId={clientId || undefined}
 				taxPercent={taxPercent}
+				depositPolicy={depositPolicy}
 			/>
 		</Suspense>
 	);
@@ -1,6 +1,8 @@
 import { Container, Box, Alert } from '@mui/material';
 import ServicesClient from '@/components/services/ServicesClient';
 import { fetchAllServices } from '@/lib/actions/services';
+import { ensureUserAndShop } from '@/lib/actions/users';
+import { getPermissionError } from '@/lib/auth/permissions';
 import { Service } from '@/lib/utils/serviceUtils';
 import type { ServiceUnitType } from '@/lib/utils/serviceUnitTypes';
 
@@ -8,7 +10,10 @@ import type { ServiceUnitType } from '@/lib/utils/serviceUnitTypes';
 export const dynamic = 'force-dynamic';
 
 export default async function ServicesPage() {
-  const result = await fetchAllServices();
+  const [result, userWithShop] = await Promise.all([
+    fetchAllServices(),
+    ensureUserAndShop(),
+  ]);
 
   if (!result.success) {
     console.error('Error loading services:', result.error);
@@ -31,7 +36,18 @@ export default async function ServicesPage() {
     default_unit_price_cents: s.default_unit_price_cents ?? 0,
     frequently_used: !!s.frequently_used,
     frequently_used_position: s.frequently_used_position ?? null,
+    estimated_minutes: s.estimated_minutes ?? null,
   }));
 
-  return <ServicesClient initialServices={services} />;
+  const showTimeReport = !getPermissionError(
+    userWithShop,
+    'manage_service_pricing'
+  );
+
+  return (
+    <ServicesClient
+      initialServices={services}
+      showTimeReport={showTimeReport}
+    />
+  );
 }
@@ -28,10 +28,23 @@ import {
 	Payment as PaymentIcon,
 	Save as SaveIcon,
 	AccountBalance as StripeIcon,
+	Group as GroupIcon,
+	ImportExport as ImportExportIcon,
 } from '@mui/icons-material';
 import { useState, useTransition } from 'react';
 import { WorkingHoursSettings } from '@/components/appointments/WorkingHoursSettings';
 import { CalendarSettings } from '@/components/appointments/CalendarSettings';
+import { OnlineBookingSettings } from '@/components/appointments/OnlineBookingSettings';
+import { CalendarFeedSettings } from '@/components/appointments/CalendarFeedSettings';
+import { DepositPolicySettings } from '@/components/payments/DepositPolicySettings';
+import { DiscountCodeSettings } from '@/components/payments/DiscountCodeSettings';
+import { PaymentReminderSettings } from '@/components/payments/PaymentReminderSettings';
+import { GiftCardSettings } from '@/components/payments/GiftCardSettings';
+import { StaffSettings } from '@/components/staff/StaffSettings';
+import { TimeTrackingSettings } from '@/components/garments/TimeTrackingSettings';
+import { MeasurementFieldsSettings } from '@/components/clients/MeasurementFieldsSettings';
+import { DataImportWizard } from '@/components/data/DataImportWizard';
+import { DataExportSettings } from '@/components/data/DataExportSettings';
 import { EmailSettingsSection } from './components/emails/EmailSettingsSection';
 import { updateShopBusinessInfo } from '@/lib/actions/shops';
 import { useToast } from '@/hooks/useToast';
@@ -145,6 +158,8 @@ export function SettingsClient({
 						<Tab icon={<EmailIcon />} label="Emails" />
 						<Tab icon={<StripeIcon />} label="Stripe Connect" />
 						<Tab icon={<PaymentIcon />} label="Billing" />
+						<Tab icon={<GroupIcon />} label="Staff" />
+						<Tab icon={<ImportExportIcon />} label="Import & Export" />
 					</Tabs>
 
 					<TabPanel value={tabValue} index={0}>
@@ -361,6 +376,13 @@ export function SettingsClient({
 								</Box>
 							</>
 						)}
+
+						{/* Measurement Fields */}
+						<Card sx={{ mt: 3 }}>
+							<CardContent>
+								<MeasurementFieldsSettings />
+							</CardContent>
+						</Card>
 					</TabPanel>
 
 					<TabPanel value={tabValue} index={1}>
@@ -373,6 +395,16 @@ export function SettingsClient({
 							{/* Calendar Settings */}
 							<CalendarSettings />
 						</Box>
+
+						<Box sx={{ p: 3, mt: 1 }}>
+							{/* Online Booking */}
+							<OnlineBookingSettings />
+						</Box>
+
+						<Box sx={{ p: 3, mt: 1 }}>
+							{/* Calendar Subscription */}
+							<CalendarFeedSettings />
+						</Box>
 					</TabPanel>
 
 					<TabPanel value={tabValue} index={2}>
@@ -410,6 +442,34 @@ export function SettingsClient({
 								</Typography>
 							</CardContent>
 						</Card>
+
+						{/* Deposit Policy */}
+						<Card sx={{ mt: 3 }}>
+							<CardContent>
+								<DepositPolicySettings />
+							</CardContent>
+						</Card>
+
+						{/* Discount Codes */}
+						<Card sx={{ mt: 3 }}>
+							<CardContent>
+								<DiscountCodeSettings />
+							</CardContent>
+						</Card>
+
+						{/* Gift Cards */}
+						<Card sx={{ mt: 3 }}>
+							<CardContent>
+								<GiftCardSettings />
+							</CardContent>
+						</Card>
+
+						{/* Overdue Payment Reminders */}
+						<Card sx={{ mt: 3 }}>
+							<CardContent>
+								<PaymentReminderSettings />
+							</CardContent>
+						</Card>
 					</TabPanel>
 
 					<TabPanel value={tabValue} index={4}>
@@ -442,6 +502,36 @@ export function SettingsClient({
 							</CardContent>
 						</Card>
 					</TabPanel>
+
+					<TabPanel value={tabValue} index={5}>
+						{/* Staff */}
+						<Card>
+							<CardContent>
+								<StaffSettings />
+							</CardContent>
+						</Card>
+
+						{/* Time Tracking */}
+						<Card sx={{ mt: 3 }}>
+							<CardContent>
+								<TimeTrackingSettings />
+							</CardContent>
+						</Card>
+					</TabPanel>
+
+					<TabPanel value={tabValue} index={6}>
+						<Card>
+							<CardContent>
+								<DataImportWizard />
+							</CardContent>
+						</Card>
+
+						<Card sx={{ mt: 3 }}>
+							<CardContent>
+								<DataExportSettings />
+							</CardContent>
+						</Card>
+					</TabPanel>
 				</Paper>
 			</Box>
 		</Box>
@@ -36,6 +36,8 @@ const CLIENT_EMAIL_TYPES = [
 	'payment_received',
 	'invoice_sent',
 	'appointment_no_show',
+	'garment_ready_for_pickup',
+	'waitlist_slot_offer',
 ] as const;
 
 // Email types that are sent to seamstresses
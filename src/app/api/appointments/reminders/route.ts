@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/admin';
+import { AppointmentReminderService } from '@/lib/services/email/appointment-reminder-service';
+
+// Scheduled job: needs Node.js runtime and must never be cached
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function isAuthorized(request: Request, secret: string): boolean {
+	return request.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+/**
+ * Dispatches due appointment reminders for every shop.
+ * Intended to be called by a scheduler (Vercel Cron sends
+ * `Authorization: Bearer $CRON_SECRET` automatically).
+ */
+export async function GET(request: Request) {
+	const secret = process.env.CRON_SECRET;
+	if (!secret) {
+		return NextResponse.json(
+			{ error: 'Missing CRON_SECRET in environment' },
+			{ status: 500 }
+		);
+	}
+
+	if (!isAuthorized(request, secret)) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const supabase = createClient();
+		const service = new AppointmentReminderService(supabase);
+		const summary = await service.dispatchDueReminders();
+
+		return NextResponse.json({
+			success: true,
+			shopsProcessed: summary.shopsProcessed,
+			sent: summary.sent,
+			skipped: summary.skipped,
+			failed: summary.failed,
+		});
+	} catch (error) {
+		console.error('Appointment reminder job failed:', error);
+		return NextResponse.json(
+			{ error: 'Internal server error' },
+			{ status: 500 }
+		);
+	}
+}
+
+export const POST = GET;
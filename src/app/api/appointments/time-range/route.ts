@@ -63,9 +63,9 @@ export async function GET(request: NextRequest) {
 
     const { data: shopData, error: shopError } = await supabase
       .from('shops')
-      .select('id')
+      .select('id, users!users_shop_id_fkey!inner(id)')
       .eq('id', shopId)
-      .eq('owner_user_id', userData.id)
+      .eq('users.id', userData.id)
       .single();
 
     if (shopError || !shopData) {
@@ -116,6 +116,7 @@ export async function GET(request: NextRequest) {
       status: apt.status,
       notes: apt.notes,
       reminder_sent: apt.reminder_sent,
+      assigned_to: apt.assigned_to,
       created_at: apt.created_at,
       updated_at: apt.updated_at,
       ...(includeClient && apt.client
@@ -203,9 +204,9 @@ export async function POST(request: NextRequest) {
           // Verify shop ownership
           const { data: shopData, error: shopError } = await supabase
             .from('shops')
-            .select('id')
+            .select('id, users!users_shop_id_fkey!inner(id)')
             .eq('id', range.shopId)
-            .eq('owner_user_id', userData.id)
+            .eq('users.id', userData.id)
             .single();
 
           if (shopError || !shopData) {
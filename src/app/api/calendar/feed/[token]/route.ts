@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/admin';
+import { getShopDisplayName } from '@/lib/utils/shop';
+import {
+	buildIcsCalendar,
+	getAppointmentSequence,
+	getAppointmentTypeLabel,
+	getAppointmentUid,
+	getAppointmentUrl,
+	getAppointmentUtcRange,
+	type IcsEvent,
+} from '@/lib/utils/ics';
+
+// Calendar apps poll this feed; always serve fresh data
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Window of appointments included in the feed, relative to today
+const FEED_DAYS_BEHIND = 30;
+const FEED_DAYS_AHEAD = 180;
+
+const TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+function offsetDate(days: number): string {
+	const date = new Date();
+	date.setUTCDate(date.getUTCDate() + days);
+	return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Per-shop ICS subscription feed. The token in the URL is the only
+ * credential, so unknown tokens get a bare 404.
+ */
+export async function GET(
+	_request: Request,
+	{ params }: { params: Promise<{ token: string }> }
+) {
+	// Calendar apps often want the URL to end in .ics
+	const token = (await params).token.replace(/\.ics$/, '');
+	if (!TOKEN_PATTERN.test(token)) {
+		return new NextResponse('Not found', { status: 404 });
+	}
+
+	try {
+		const supabase = createClient();
+
+		const { data: shop } = await supabase
+			.from('shops')
+			.select('*')
+			.eq('calendar_feed_token', token)
+			.maybeSingle();
+
+		if (!shop) {
+			return new NextResponse('Not found', { status: 404 });
+		}
+
+		const { data: appointments, error } = await supabase
+			.from('appointments')
+			.select('*, client:clients(first_name, last_name, email, phone_number)')
+			.eq('shop_id', shop.id)
+			.gte('date', offsetDate(-FEED_DAYS_BEHIND))
+			.lte('date', offsetDate(FEED_DAYS_AHEAD))
+			.not('status', 'in', '(canceled,declined)')
+			.order('date', { ascending: true });
+
+		if (error) throw error;
+
+		const timezone = shop.timezone || 'UTC';
+		const events: IcsEvent[] = (appointments || []).map((appointment) => {
+			const { start, end } = getAppointmentUtcRange(appointment, timezone);
+			const clientName = appointment.client
+				? `${appointment.client.first_name} ${appointment.client.last_name}`
+				: 'Client';
+			const description = [
+				appointment.client?.phone_number,
+				appointment.client?.email,
+				appointment.notes,
+			]
+				.filter(Boolean)
+				.join('\n');
+
+			return {
+				uid: getAppointmentUid(appointment.id),
+				start,
+				end,
+				summary: `${getAppointmentTypeLabel(appointment.type)}: ${clientName}`,
+				description: description || undefined,
+				url: getAppointmentUrl(appointment),
+				status: appointment.status === 'pending' ? 'TENTATIVE' : 'CONFIRMED',
+				sequence: getAppointmentSequence(appointment),
+			};
+		});
+
+		const ics = buildIcsCalendar({
+			method: 'PUBLISH',
+			name: `${getShopDisplayName(shop)} Appointments`,
+			timezone,
+			events,
+		});
+
+		return new NextResponse(ics, {
+			status: 200,
+			headers: {
+				'Content-Type': 'text/calendar; charset=utf-8',
+				'Content-Disposition': 'inline; filename="hemsy-appointments.ics"',
+				'Cache-Control': 'private, no-store',
+			},
+		});
+	} catch (error) {
+		console.error('Calendar feed failed:', error);
+		return new NextResponse('Internal server error', { status: 500 });
+	}
+}
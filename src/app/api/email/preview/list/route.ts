@@ -48,6 +48,18 @@ export async function GET() {
 			name: 'Appointment No Show',
 			description: 'Sent when a client misses their appointment',
 		},
+		{
+			type: 'garment_ready_for_pickup',
+			name: 'Ready for Pickup',
+			description:
+				'Sent when garments are ready, with the balance due and a payment link',
+		},
+		{
+			type: 'waitlist_slot_offer',
+			name: 'Waitlist Opening',
+			description:
+				'Sent to waitlisted clients when a matching appointment slot frees up',
+		},
 		{
 			type: 'appointment_confirmed',
 			name: 'Appointment Confirmed (Seamstress)',
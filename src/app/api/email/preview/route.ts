@@ -128,6 +128,25 @@ function getSampleData(emailType: EmailType) {
 				payment_link: 'https://payments.hemsy.app/pay/sample-invoice-payment',
 			};
 
+		case 'garment_ready_for_pickup':
+			return {
+				...baseData,
+				garment_name: 'Wedding Dress, Suit Jacket',
+				garment_names: ['Wedding Dress', 'Suit Jacket'],
+				order_number: 'ORD-1042',
+				balance_due: '$85.00',
+				payment_link: 'https://payments.hemsy.app/pay/sample-payment-link',
+				order_status_link: 'https://hemsy.app/status/sample-status-token',
+			};
+
+		case 'waitlist_slot_offer':
+			return {
+				...baseData,
+				appointment_time: 'Thursday, March 15 at 2:00 PM',
+				appointment_type: 'Fitting',
+				claim_link: 'https://hemsy.app/waitlist/claim/sample-claim-token',
+			};
+
 		case 'appointment_no_show':
 			return {
 				...baseData,
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from '@/lib/auth/user-shop';
+import { getPermissionError } from '@/lib/auth/permissions';
+import { buildShopExport, isExportKind } from '@/lib/utils/data-export';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const IdsSchema = z.array(z.string().uuid()).min(1);
+
+/**
+ * Downloads the shop's clients, services, orders or payments as CSV.
+ * Orders take an optional comma-separated ?ids= to export a selection.
+ */
+export async function GET(
+	request: Request,
+	{ params }: { params: Promise<{ kind: string }> }
+) {
+	const { kind } = await params;
+	if (!isExportKind(kind)) {
+		return NextResponse.json({ error: 'Not found' }, { status: 404 });
+	}
+
+	const idsParam = new URL(request.url).searchParams.get('ids');
+	let ids: string[] | undefined;
+	if (idsParam !== null) {
+		const parsed = IdsSchema.safeParse(idsParam.split(','));
+		if (kind !== 'orders' || !parsed.success) {
+			return NextResponse.json({ error: 'Invalid ids' }, { status: 400 });
+		}
+		ids = parsed.data;
+	}
+
+	let userWithShop;
+	try {
+		userWithShop = await ensureUserAndShop();
+	} catch {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const permissionError = getPermissionError(userWithShop, 'export_data');
+	if (permissionError) {
+		return NextResponse.json({ error: permissionError }, { status: 403 });
+	}
+
+	try {
+		const supabase = await createClient();
+		const csv = await buildShopExport(
+			supabase,
+			userWithShop.shop.id,
+			kind,
+			ids
+		);
+		const date = new Date().toISOString().slice(0, 10);
+
+		return new NextResponse(csv, {
+			status: 200,
+			headers: {
+				'Content-Type': 'text/csv; charset=utf-8',
+				'Content-Disposition': `attachment; filename="hemsy-${kind}-${date}.csv"`,
+				'Cache-Control': 'private, no-store',
+			},
+		});
+	} catch (error) {
+		console.error(`Failed to export ${kind}:`, error);
+		return NextResponse.json({ error: 'Failed to export' }, { status: 500 });
+	}
+}
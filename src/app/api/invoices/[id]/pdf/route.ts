@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ensureUserAndShop } from '@/lib/auth/user-shop';
+import { getInvoiceById } from '@/lib/actions/invoices';
+import { getShopBusinessInfo } from '@/lib/actions/shops';
+import {
+	buildInvoicePdf,
+	getInvoicePdfFilename,
+	getReceiptPayment,
+} from '@/lib/utils/invoice-pdf';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const QuerySchema = z.object({
+	type: z.enum(['invoice', 'receipt']).default('invoice'),
+	paymentId: z.string().uuid().optional(),
+});
+
+/**
+ * Downloads an invoice as a PDF. ?type=receipt gives a receipt for the
+ * payment in ?paymentId=, or for the latest payment.
+ */
+export async function GET(
+	request: Request,
+	{ params }: { params: Promise<{ id: string }> }
+) {
+	const { id } = await params;
+	const searchParams = new URL(request.url).searchParams;
+	const query = QuerySchema.safeParse({
+		type: searchParams.get('type') ?? undefined,
+		paymentId: searchParams.get('paymentId') ?? undefined,
+	});
+	if (!z.string().uuid().safeParse(id).success || !query.success) {
+		return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+	}
+
+	try {
+		await ensureUserAndShop();
+	} catch {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	let invoice;
+	try {
+		invoice = await getInvoiceById(id);
+	} catch {
+		return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+	}
+
+	const { type, paymentId } = query.data;
+	const payment =
+		type === 'receipt' ? getReceiptPayment(invoice, paymentId) : undefined;
+	if (type === 'receipt' && !payment) {
+		return NextResponse.json({ error: 'Payment not found' }, { status: 404 });
+	}
+
+	try {
+		const businessInfo = await getShopBusinessInfo();
+		const pdf = buildInvoicePdf({
+			invoice,
+			shop: businessInfo.success ? businessInfo.data : invoice.shop,
+			kind: type,
+			payment,
+		});
+
+		return new NextResponse(new Uint8Array(pdf), {
+			status: 200,
+			headers: {
+				'Content-Type': 'application/pdf',
+				'Content-Disposition': `attachment; filename="${getInvoicePdfFilename(invoice, type)}"`,
+				'Cache-Control': 'private, no-store',
+			},
+		});
+	} catch (error) {
+		console.error('Failed to build invoice PDF:', error);
+		return NextResponse.json(
+			{ error: 'Failed to build the PDF' },
+			{ status: 500 }
+		);
+	}
+}
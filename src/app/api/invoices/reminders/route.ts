@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/admin';
+import { PaymentReminderService } from '@/lib/services/email/payment-reminder-service';
+import { InstallmentReminderService } from '@/lib/services/email/installment-reminder-service';
+
+// Scheduled job: needs Node.js runtime and must never be cached
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function isAuthorized(request: Request, secret: string): boolean {
+	return request.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+/**
+ * Sends due overdue-payment reminders for every shop that has them on, and
+ * payment links for installments coming due on payment plans.
+ * Intended to be called once a day by a scheduler (Vercel Cron sends
+ * `Authorization: Bearer $CRON_SECRET` automatically).
+ */
+export async function GET(request: Request) {
+	const secret = process.env.CRON_SECRET;
+	if (!secret) {
+		return NextResponse.json(
+			{ error: 'Missing CRON_SECRET in environment' },
+			{ status: 500 }
+		);
+	}
+
+	if (!isAuthorized(request, secret)) {
+		return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const supabase = createClient();
+		const service = new PaymentReminderService(supabase);
+		const summary = await service.dispatchDueReminders();
+		const installmentSummary = await new InstallmentReminderService(
+			supabase
+		).dispatchUpcomingReminders();
+
+		return NextResponse.json({
+			success: true,
+			shopsProcessed: summary.shopsProcessed,
+			sent: summary.sent,
+			skipped: summary.skipped,
+			failed: summary.failed,
+			installments: {
+				sent: installmentSummary.sent,
+				skipped: installmentSummary.skipped,
+				failed: installmentSummary.failed,
+			},
+		});
+	} catch (error) {
+		console.error('Payment reminder job failed:', error);
+		return NextResponse.json(
+			{ error: 'Internal server error' },
+			{ status: 500 }
+		);
+	}
+}
+
+export const POST = GET;
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getPaymentLinkByToken } from '@/lib/actions/invoices';
+import {
+	buildInvoicePdf,
+	getInvoicePdfFilename,
+	getReceiptPayment,
+} from '@/lib/utils/invoice-pdf';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const TypeSchema = z.enum(['invoice', 'receipt']).default('invoice');
+
+/**
+ * Public download of the invoice behind a payment link, or with
+ * ?type=receipt a receipt for its latest payment. The link's token is the
+ * only credential, as on the payment page itself.
+ */
+export async function GET(
+	request: Request,
+	{ params }: { params: Promise<{ token: string }> }
+) {
+	const { token } = await params;
+	const type = TypeSchema.safeParse(
+		new URL(request.url).searchParams.get('type') ?? undefined
+	);
+	if (!type.success) {
+		return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+	}
+
+	const paymentLink = await getPaymentLinkByToken(token);
+	if (!paymentLink?.invoice) {
+		return NextResponse.json(
+			{ error: 'This payment link is invalid or has expired' },
+			{ status: 404 }
+		);
+	}
+
+	const { invoice } = paymentLink;
+	const payment =
+		type.data === 'receipt' ? getReceiptPayment(invoice) : undefined;
+	if (type.data === 'receipt' && !payment) {
+		return NextResponse.json(
+			{ error: 'No payments have been made' },
+			{ status: 404 }
+		);
+	}
+
+	try {
+		const pdf = buildInvoicePdf({
+			invoice,
+			shop: invoice.shop,
+			kind: type.data,
+			payment,
+		});
+
+		return new NextResponse(new Uint8Array(pdf), {
+			status: 200,
+			headers: {
+				'Content-Type': 'application/pdf',
+				'Content-Disposition': `attachment; filename="${getInvoicePdfFilename(invoice, type.data)}"`,
+				'Cache-Control': 'private, no-store',
+			},
+		});
+	} catch (error) {
+		console.error('Failed to build invoice PDF:', error);
+		return NextResponse.json(
+			{ error: 'Failed to build the PDF' },
+			{ status: 500 }
+		);
+	}
+}
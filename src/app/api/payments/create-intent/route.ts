@@ -6,6 +6,7 @@ const CreateIntentSchema = z.object({
   invoiceId: z.string().uuid(),
   paymentType: z.enum(['remainder', 'custom']),
   amountCents: z.number().int().positive().optional(),
+  tipCents: z.number().int().min(0).optional(),
   metadata: z.record(z.string()).optional(),
 });
 
@@ -18,6 +19,7 @@ export async function POST(request: NextRequest) {
       invoiceId: validated.invoiceId,
       paymentType: validated.paymentType,
       amountCents: validated.amountCents,
+      tipCents: validated.tipCents,
     });
 
     if (result.success && result.data) {
@@ -25,6 +27,7 @@ export async function POST(request: NextRequest) {
         clientSecret: result.data.clientSecret,
         paymentIntentId: result.data.paymentIntentId,
         amountCents: result.data.amountCents,
+        tipCents: result.data.tipCents,
       });
     } else {
       return NextResponse.json(
@@ -0,0 +1,327 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+	Container,
+	Typography,
+	Box,
+	Card,
+	CardContent,
+	Button,
+	Alert,
+	CircularProgress,
+	TextField,
+	FormControl,
+	InputLabel,
+	Select,
+	MenuItem,
+	FormControlLabel,
+	Checkbox,
+	ToggleButton,
+	ToggleButtonGroup,
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
+import dayjs, { Dayjs } from 'dayjs';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import {
+	createPublicBooking,
+	getPublicBookingSlots,
+	type PublicBookingShop,
+} from '@/lib/actions/public-booking';
+import { to12HourFormat } from '@/lib/utils/calendar';
+
+const APPOINTMENT_TYPES = [
+	{ value: 'consultation', label: 'Consultation' },
+	{ value: 'fitting', label: 'Fitting' },
+	{ value: 'pickup', label: 'Pickup' },
+	{ value: 'delivery', label: 'Delivery' },
+	{ value: 'other', label: 'Other' },
+] as const;
+
+type AppointmentTypeValue = (typeof APPOINTMENT_TYPES)[number]['value'];
+
+interface PublicBookingClientProps {
+	shop: PublicBookingShop;
+}
+
+export default function PublicBookingClient({
+	shop,
+}: PublicBookingClientProps) {
+	const [date, setDate] = useState<Dayjs | null>(null);
+	const [slots, setSlots] = useState<string[]>([]);
+	const [slotsLoading, setSlotsLoading] = useState(false);
+	const [startTime, setStartTime] = useState<string | null>(null);
+	const [type, setType] = useState<AppointmentTypeValue>('consultation');
+	const [firstName, setFirstName] = useState('');
+	const [lastName, setLastName] = useState('');
+	const [email, setEmail] = useState('');
+	const [phone, setPhone] = useState('');
+	const [notes, setNotes] = useState('');
+	const [acceptSms, setAcceptSms] = useState(false);
+	const [submitting, setSubmitting] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [booked, setBooked] = useState<{
+		date: string;
+		startTime: string;
+	} | null>(null);
+
+	const dateString = date ? date.format('YYYY-MM-DD') : null;
+
+	useEffect(() => {
+		if (!dateString) return;
+
+		let cancelled = false;
+		setSlotsLoading(true);
+		setStartTime(null);
+		getPublicBookingSlots(shop.slug, dateString).then((result) => {
+			if (cancelled) return;
+			if (result.success) {
+				setSlots(result.data || []);
+				setError(null);
+			} else {
+				setSlots([]);
+				setError(result.error || 'Failed to load available times');
+			}
+			setSlotsLoading(false);
+		});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [shop.slug, dateString]);
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!dateString || !startTime) return;
+
+		setSubmitting(true);
+		setError(null);
+
+		const result = await createPublicBooking({
+			slug: shop.slug,
+			date: dateString,
+			startTime,
+			type,
+			firstName,
+			lastName,
+			email,
+			phone,
+			notes: notes || undefined,
+			acceptSms,
+		});
+
+		if (result.success && result.data) {
+			setBooked(result.data);
+		} else {
+			setError(result.error || 'Failed to book appointment');
+			// The slot may have just been taken; refresh the list
+			const refreshed = await getPublicBookingSlots(shop.slug, dateString);
+			if (refreshed.success) {
+				setSlots(refreshed.data || []);
+				if (!refreshed.data?.includes(startTime)) {
+					setStartTime(null);
+				}
+			}
+		}
+		setSubmitting(false);
+	};
+
+	if (booked) {
+		return (
+			<Container maxWidth="sm" sx={{ py: 8 }}>
+				<Box display="flex" flexDirection="column" alignItems="center" gap={3}>
+					<CheckCircleIcon color="success" sx={{ fontSize: 64 }} />
+					<Typography component="h1" variant="h4" textAlign="center">
+						Request received
+					</Typography>
+					<Alert
+						severity="success"
+						data-testid="booking-success"
+						sx={{ width: '100%' }}
+					>
+						Your appointment with {shop.name} on{' '}
+						{dayjs(booked.date).format('dddd, MMMM D, YYYY')} at{' '}
+						{to12HourFormat(booked.startTime)} is pending. Check your email for
+						a link to confirm it.
+					</Alert>
+				</Box>
+			</Container>
+		);
+	}
+
+	const today = dayjs().startOf('day');
+	const canSubmit =
+		!!dateString &&
+		!!startTime &&
+		!!firstName.trim() &&
+		!!lastName.trim() &&
+		!!email.trim() &&
+		!!phone.trim() &&
+		!submitting;
+
+	return (
+		<Container maxWidth="sm" sx={{ py: 6 }}>
+			<Typography component="h1" variant="h4" gutterBottom>
+				Book with {shop.name}
+			</Typography>
+			{(shop.mailingAddress || shop.phoneNumber) && (
+				<Typography variant="body2" color="text.secondary" gutterBottom>
+					{[shop.mailingAddress, shop.phoneNumber].filter(Boolean).join(' · ')}
+				</Typography>
+			)}
+
+			{error && (
+				<Alert severity="error" sx={{ my: 2 }} data-testid="booking-error">
+					{error}
+				</Alert>
+			)}
+
+			<Card sx={{ mt: 3 }}>
+				<CardContent>
+					<Box
+						component="form"
+						onSubmit={handleSubmit}
+						sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}
+					>
+						<FormControl fullWidth>
+							<InputLabel>Appointment type</InputLabel>
+							<Select
+								value={type}
+								label="Appointment type"
+								onChange={(e) =>
+									setType(e.target.value as AppointmentTypeValue)
+								}
+								MenuProps={{
+									disableScrollLock: true,
+								}}
+							>
+								{APPOINTMENT_TYPES.map((t) => (
+									<MenuItem key={t.value} value={t.value}>
+										{t.label}
+									</MenuItem>
+								))}
+							</Select>
+						</FormControl>
+
+						<LocalizationProvider dateAdapter={AdapterDayjs}>
+							<DatePicker
+								label="Date"
+								value={date}
+								format="dddd, MMMM D, YYYY"
+								minDate={today}
+								maxDate={today.add(shop.maxDaysAhead, 'day')}
+								onChange={(newValue) =>
+									setDate(newValue ? dayjs(newValue) : null)
+								}
+								slotProps={{ textField: { fullWidth: true } }}
+							/>
+						</LocalizationProvider>
+
+						{dateString && (
+							<Box>
+								<Typography variant="subtitle2" gutterBottom>
+									Available times ({shop.appointmentDuration} min)
+								</Typography>
+								{slotsLoading ? (
+									<CircularProgress size={24} />
+								) : slots.length === 0 ? (
+									<Typography variant="body2" color="text.secondary">
+										No times are available on this day. Please pick another
+										date.
+									</Typography>
+								) : (
+									<ToggleButtonGroup
+										exclusive
+										value={startTime}
+										onChange={(_, value: string | null) => setStartTime(value)}
+										sx={{ flexWrap: 'wrap', gap: 1 }}
+									>
+										{slots.map((slot) => (
+											<ToggleButton
+												key={slot}
+												value={slot}
+												size="small"
+												sx={{
+													border: 1,
+													borderColor: 'divider',
+													borderRadius: '4px !important',
+												}}
+											>
+												{to12HourFormat(slot)}
+											</ToggleButton>
+										))}
+									</ToggleButtonGroup>
+								)}
+							</Box>
+						)}
+
+						<Box sx={{ display: 'flex', gap: 2 }}>
+							<TextField
+								fullWidth
+								required
+								label="First name"
+								value={firstName}
+								onChange={(e) => setFirstName(e.target.value)}
+							/>
+							<TextField
+								fullWidth
+								required
+								label="Last name"
+								value={lastName}
+								onChange={(e) => setLastName(e.target.value)}
+							/>
+						</Box>
+						<TextField
+							fullWidth
+							required
+							type="email"
+							label="Email"
+							value={email}
+							onChange={(e) => setEmail(e.target.value)}
+						/>
+						<TextField
+							fullWidth
+							required
+							type="tel"
+							label="Phone"
+							value={phone}
+							onChange={(e) => setPhone(e.target.value)}
+						/>
+						<FormControlLabel
+							control={
+								<Checkbox
+									checked={acceptSms}
+									onChange={(e) => setAcceptSms(e.target.checked)}
+								/>
+							}
+							label="Text me about this appointment"
+						/>
+						<TextField
+							fullWidth
+							multiline
+							minRows={2}
+							label="Notes (optional)"
+							value={notes}
+							onChange={(e) => setNotes(e.target.value)}
+						/>
+
+						<Button
+							type="submit"
+							variant="contained"
+							size="large"
+							disabled={!canSubmit}
+						>
+							{submitting ? (
+								<CircularProgress size={24} />
+							) : (
+								'Request appointment'
+							)}
+						</Button>
+					</Box>
+				</CardContent>
+			</Card>
+		</Container>
+	);
+}
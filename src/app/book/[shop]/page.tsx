@@ -0,0 +1,24 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getPublicBookingShop } from '@/lib/actions/public-booking';
+import PublicBookingClient from './PublicBookingClient';
+
+export const metadata: Metadata = {
+	title: 'Book an Appointment | Hemsy',
+	description: 'Pick a time that works for you',
+};
+
+interface PageProps {
+	params: Promise<{ shop: string }>;
+}
+
+export default async function PublicBookingPage({ params }: PageProps) {
+	const { shop: slug } = await params;
+
+	const result = await getPublicBookingShop(slug);
+	if (!result.success || !result.data) {
+		notFound();
+	}
+
+	return <PublicBookingClient shop={result.data} />;
+}
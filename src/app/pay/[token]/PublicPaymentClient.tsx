@@ -20,7 +20,20 @@ import { createPaymentIntent } from '@/lib/actions/payments';
 import { formatCurrency, formatDate } from '@/lib/utils/formatting';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import ErrorIcon from '@mui/icons-material/Error';
+import PictureAsPdfIcon from '@mui/icons-material/PictureAsPdf';
 import { getShopDisplayName } from '@/lib/utils/shop';
+import {
+  calculateTipCents,
+  getTipBaseCents,
+  type TipChoice,
+} from '@/lib/utils/tips';
+import TipSelector from '@/components/payments/TipSelector';
+import InstallmentSchedule from '@/components/invoices/InstallmentSchedule';
+import {
+  getInstallmentStatuses,
+  type Installment,
+} from '@/lib/utils/installments';
+import { formatInTimezone } from '@/lib/utils/date-time-utc';
 
 // NOTE: This component requires @stripe/react-stripe-js and @stripe/stripe-js
 // import { loadStripe } from '@stripe/stripe-js';
@@ -40,6 +53,8 @@ export default function PublicPaymentClient({
   const [paymentIntent, setPaymentIntent] = useState<string | null>(null);
   const [creatingIntent, setCreatingIntent] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [tip, setTip] = useState<TipChoice>({ kind: 'none' });
+  const [intentTipCents, setIntentTipCents] = useState(0);
 
   useEffect(() => {
     fetchPaymentLink();
@@ -69,8 +84,7 @@ export default function PublicPaymentClient({
         return;
       }
 
-      // Create payment intent
-      await createNewPaymentIntent(data.invoice);
+      // The payment intent is created once the client has picked a tip
     } catch (error) {
       console.error('Error fetching payment link:', error);
       setError('Unable to load payment information. Please try again.');
@@ -79,7 +93,12 @@ export default function PublicPaymentClient({
     }
   };
 
-  const createNewPaymentIntent = async (invoice: any) => {
+  const createNewPaymentIntent = async (
+    invoice: any,
+    tipCents: number,
+    // Set for installment links, which pay part of the balance
+    amountCents?: number
+  ) => {
     setCreatingIntent(true);
     try {
       const totalPaid =
@@ -91,16 +110,19 @@ export default function PublicPaymentClient({
       const hasDeposit = invoice.deposit_amount_cents > 0;
 
       const paymentType: 'remainder' | 'custom' =
-        totalPaid > 0 ? 'custom' : 'remainder';
+        totalPaid > 0 || amountCents ? 'custom' : 'remainder';
 
       const result = await createPaymentIntent({
         invoiceId: invoice.id,
         paymentType,
+        ...(amountCents ? { amountCents } : {}),
         returnUrl: `${window.location.origin}/pay/${token}/success`,
+        tipCents,
       });
 
       if (result.success && result.data) {
         setPaymentIntent(result.data.clientSecret);
+        setIntentTipCents(result.data.tipCents);
       } else {
         setError(
           result.error || 'Failed to initialize payment. Please try again.'
@@ -125,7 +147,13 @@ export default function PublicPaymentClient({
     }
   }, []);
 
-  if (loading || creatingIntent) {
+  const handleTipChange = (choice: TipChoice) => {
+    setTip(choice);
+    // A different tip changes the amount, so the card form starts over
+    setPaymentIntent(null);
+  };
+
+  if (loading) {
     return (
       <Container maxWidth="sm">
         <Box
@@ -193,6 +221,30 @@ export default function PublicPaymentClient({
               <Typography variant="body2" color="text.secondary">
                 Invoice #{invoice.invoice_number}
               </Typography>
+              <Box
+                sx={{
+                  display: 'flex',
+                  gap: 1,
+                  justifyContent: 'center',
+                  flexWrap: 'wrap',
+                  mt: 3,
+                }}
+              >
+                <Button
+                  variant="outlined"
+                  startIcon={<PictureAsPdfIcon />}
+                  href={`/api/pay/${token}/pdf?type=receipt`}
+                >
+                  Download Receipt
+                </Button>
+                <Button
+                  variant="outlined"
+                  startIcon={<PictureAsPdfIcon />}
+                  href={`/api/pay/${token}/pdf`}
+                >
+                  Download Invoice
+                </Button>
+              </Box>
             </CardContent>
           </Card>
         </Box>
@@ -218,6 +270,30 @@ export default function PublicPaymentClient({
     paymentDescription = 'Remaining Balance';
   }
 
+  // Payment plans: pay what's left of the installment the link is for, or
+  // of the next unpaid one
+  const installments = getInstallmentStatuses<Installment>(
+    invoice.invoice_installments || [],
+    totalPaid,
+    formatInTimezone(new Date(), shop.timezone || 'UTC', 'yyyy-MM-dd')
+  );
+  const linkInstallment = installments.find((installment) =>
+    paymentLink.installment_id
+      ? installment.id === paymentLink.installment_id
+      : installment.status !== 'paid'
+  );
+  if (linkInstallment && linkInstallment.status !== 'paid') {
+    amountDue = Math.min(linkInstallment.remainingCents, remainingAmount);
+    paymentDescription = `Installment ${linkInstallment.sequence} of ${installments.length}`;
+  }
+
+  const tipBaseCents = getTipBaseCents(
+    amountDue,
+    invoice.amount_cents,
+    invoice.order?.tax_cents
+  );
+  const tipCents = calculateTipCents(tipBaseCents, tip);
+
   return (
     <Container maxWidth="sm">
       <Box sx={{ mt: 4, mb: 4 }}>
@@ -313,12 +389,32 @@ export default function PublicPaymentClient({
 
             <Divider sx={{ my: 1 }} />
 
+            {installments.length > 0 && (
+              <Box sx={{ mb: 1 }}>
+                <Typography variant="subtitle2">Payment Plan</Typography>
+                <InstallmentSchedule
+                  installments={installments}
+                  selectedId={linkInstallment?.id}
+                />
+                <Divider sx={{ my: 1 }} />
+              </Box>
+            )}
+
             <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
               <Typography variant="h6">{paymentDescription}</Typography>
               <Typography variant="h6" color="primary">
                 {formatCurrency(amountDue)}
               </Typography>
             </Box>
+
+            <Button
+              size="small"
+              startIcon={<PictureAsPdfIcon />}
+              href={`/api/pay/${token}/pdf`}
+              sx={{ mt: 2 }}
+            >
+              Download Invoice
+            </Button>
           </CardContent>
         </Card>
 
@@ -329,11 +425,60 @@ export default function PublicPaymentClient({
               Payment Information
             </Typography>
 
+            <Box sx={{ mb: 2 }}>
+              <TipSelector
+                baseCents={tipBaseCents}
+                value={tip}
+                onChange={handleTipChange}
+                disabled={creatingIntent}
+              />
+            </Box>
+
+            {tipCents > 0 && (
+              <Box sx={{ mb: 2 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <Typography variant="body2">{paymentDescription}</Typography>
+                  <Typography variant="body2">
+                    {formatCurrency(amountDue)}
+                  </Typography>
+                </Box>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <Typography variant="body2">Tip</Typography>
+                  <Typography variant="body2">
+                    {formatCurrency(tipCents)}
+                  </Typography>
+                </Box>
+                <Divider sx={{ my: 1 }} />
+                <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <Typography variant="subtitle1" fontWeight="medium">
+                    Total
+                  </Typography>
+                  <Typography variant="subtitle1" fontWeight="medium">
+                    {formatCurrency(amountDue + tipCents)}
+                  </Typography>
+                </Box>
+              </Box>
+            )}
+
             {!paymentIntent ? (
-              <Alert severity="error">
-                Unable to initialize payment. Please refresh the page or contact
-                support.
-              </Alert>
+              <Button
+                fullWidth
+                variant="contained"
+                size="large"
+                onClick={() =>
+                  createNewPaymentIntent(
+                    invoice,
+                    tipCents,
+                    linkInstallment ? amountDue : undefined
+                  )
+                }
+                disabled={creatingIntent}
+                startIcon={
+                  creatingIntent ? <CircularProgress size={20} /> : null
+                }
+              >
+                Continue to Payment
+              </Button>
             ) : (
               <Box>
                 <Alert severity="info" sx={{ mb: 2 }}>
@@ -347,7 +492,7 @@ export default function PublicPaymentClient({
                 {/* Uncomment after installing Stripe packages:
                 <Elements stripe={stripePromise} options={{ clientSecret: paymentIntent }}>
                   <PublicPaymentForm 
-                    amountCents={amountDue}
+                    amountCents={amountDue + intentTipCents}
                     shopName={getShopDisplayName(shop)}
                   />
                 </Elements>
@@ -0,0 +1,159 @@
+import React from 'react';
+import { Metadata } from 'next';
+import {
+	Container,
+	Box,
+	Typography,
+	Card,
+	CardContent,
+	Chip,
+	Divider,
+	Button,
+	Stack,
+} from '@mui/material';
+import {
+	getOrderStatusByToken,
+	payOrderStatusBalance,
+} from '@/lib/actions/order-status';
+import { formatCurrency, formatDate } from '@/lib/utils/formatting';
+import { safeParseDate } from '@/lib/utils/date-time-utils';
+
+export const metadata: Metadata = {
+	title: 'Order Status | Hemsy',
+	description: 'See how your order is coming along',
+};
+
+interface PageProps {
+	params: Promise<{ token: string }>;
+}
+
+export default async function OrderStatusPage({ params }: PageProps) {
+	const { token } = await params;
+
+	const status = await getOrderStatusByToken(token);
+	const payBalance = payOrderStatusBalance.bind(null, token);
+
+	return (
+		<Container maxWidth="sm" sx={{ py: 6 }}>
+			<Typography component="h1" variant="h4" gutterBottom>
+				Order {status.orderNumber}
+			</Typography>
+			<Typography color="text.secondary" gutterBottom>
+				{status.clientFirstName
+					? `Hi ${status.clientFirstName}, here's`
+					: "Here's"}{' '}
+				the latest on your order with {status.shop.name}.
+			</Typography>
+			{status.orderDueDate && (
+				<Typography variant="body2" color="text.secondary">
+					Due {formatDate(safeParseDate(status.orderDueDate))}
+				</Typography>
+			)}
+
+			<Stack spacing={2} sx={{ mt: 3 }} data-testid="order-status-garments">
+				{status.garments.map((garment) => (
+					<Card key={garment.id} variant="outlined">
+						<CardContent sx={{ display: 'flex', gap: 2 }}>
+							{garment.photoUrl && (
+								<Box
+									component="img"
+									src={garment.photoUrl}
+									alt={garment.name}
+									sx={{
+										width: 80,
+										height: 80,
+										objectFit: 'cover',
+										borderRadius: 1,
+										flexShrink: 0,
+									}}
+								/>
+							)}
+							<Box sx={{ flex: 1, minWidth: 0 }}>
+								<Box
+									sx={{
+										display: 'flex',
+										justifyContent: 'space-between',
+										alignItems: 'center',
+										gap: 1,
+									}}
+								>
+									<Typography variant="subtitle1" fontWeight={600}>
+										{garment.name}
+									</Typography>
+									<Chip
+										label={garment.stageLabel}
+										size="small"
+										sx={{ bgcolor: garment.stageColor, color: '#1a1a1a' }}
+									/>
+								</Box>
+								{garment.dueDate && (
+									<Typography variant="body2" color="text.secondary">
+										Due {formatDate(safeParseDate(garment.dueDate))}
+									</Typography>
+								)}
+								{garment.services.length > 0 && (
+									<Box component="ul" sx={{ m: 0, mt: 1, pl: 2.5 }}>
+										{garment.services.map((service, index) => (
+											<Typography
+												component="li"
+												variant="body2"
+												key={`${service.name}-${index}`}
+											>
+												{service.name}
+												{service.quantity > 1 ? ` × ${service.quantity}` : ''}
+											</Typography>
+										))}
+									</Box>
+								)}
+							</Box>
+						</CardContent>
+					</Card>
+				))}
+			</Stack>
+
+			<Card variant="outlined" sx={{ mt: 3 }}>
+				<CardContent>
+					<Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+						<Typography>Total</Typography>
+						<Typography>{formatCurrency(status.totalCents)}</Typography>
+					</Box>
+					<Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+						<Typography>Paid</Typography>
+						<Typography>{formatCurrency(status.paidCents)}</Typography>
+					</Box>
+					<Divider sx={{ my: 1 }} />
+					<Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+						<Typography fontWeight={600}>Balance due</Typography>
+						<Typography fontWeight={600} data-testid="order-status-balance">
+							{formatCurrency(status.balanceDueCents)}
+						</Typography>
+					</Box>
+
+					{status.canPay && (
+						<Box component="form" action={payBalance} sx={{ mt: 2 }}>
+							<Button type="submit" variant="contained" fullWidth>
+								Pay {formatCurrency(status.balanceDueCents)} online
+							</Button>
+						</Box>
+					)}
+				</CardContent>
+			</Card>
+
+			{(status.shop.phoneNumber || status.shop.email) && (
+				<Typography
+					variant="body2"
+					color="text.secondary"
+					textAlign="center"
+					sx={{ mt: 3 }}
+				>
+					Questions? Contact {status.shop.name}
+					{status.shop.phoneNumber ? ` at ${status.shop.phoneNumber}` : ''}
+					{status.shop.email
+						? `${status.shop.phoneNumber ? ' or ' : ' at '}${status.shop.email}`
+						: ''}
+					.
+				</Typography>
+			)}
+		</Container>
+	);
+}
@@ -0,0 +1,114 @@
+import React from 'react';
+import { Metadata } from 'next';
+import {
+	Container,
+	Typography,
+	Card,
+	CardContent,
+	Alert,
+	Box,
+	Button,
+} from '@mui/material';
+import {
+	claimWaitlistOffer,
+	getWaitlistOfferByToken,
+} from '@/lib/actions/waitlist';
+import { formatDate } from '@/lib/utils/formatting';
+import { safeParseDate } from '@/lib/utils/date-time-utils';
+import { to12HourFormat } from '@/lib/utils/calendar';
+
+export const metadata: Metadata = {
+	title: 'Appointment Opening | Hemsy',
+	description: 'Claim an appointment that just opened up',
+};
+
+interface PageProps {
+	params: Promise<{ token: string }>;
+}
+
+export default async function WaitlistClaimPage({ params }: PageProps) {
+	const { token } = await params;
+
+	const offer = await getWaitlistOfferByToken(token);
+	const claim = claimWaitlistOffer.bind(null, token);
+	const slot = `${formatDate(safeParseDate(offer.date))}, ${to12HourFormat(offer.startTime)} – ${to12HourFormat(offer.endTime)}`;
+
+	return (
+		<Container maxWidth="sm" sx={{ py: 6 }}>
+			<Typography component="h1" variant="h4" gutterBottom>
+				Appointment Opening
+			</Typography>
+			<Typography color="text.secondary" gutterBottom>
+				{offer.clientFirstName ? `Hi ${offer.clientFirstName}, an` : 'An'}{' '}
+				appointment opened up at {offer.shop.name}.
+			</Typography>
+
+			<Card variant="outlined" sx={{ mt: 3 }}>
+				<CardContent>
+					<Typography variant="subtitle1" fontWeight={600}>
+						{offer.typeLabel}
+					</Typography>
+					<Typography data-testid="waitlist-offer-slot">{slot}</Typography>
+					{offer.shop.mailingAddress && (
+						<Typography variant="body2" color="text.secondary">
+							{offer.shop.mailingAddress}
+						</Typography>
+					)}
+
+					{offer.status === 'pending' && (
+						<Box component="form" action={claim} sx={{ mt: 2 }}>
+							<Button type="submit" variant="contained" fullWidth>
+								Claim this appointment
+							</Button>
+						</Box>
+					)}
+				</CardContent>
+			</Card>
+
+			{offer.status === 'claimed' && (
+				<Alert
+					severity="success"
+					data-testid="waitlist-offer-claimed"
+					sx={{ mt: 3 }}
+				>
+					You&apos;re booked! We&apos;ve sent the details to your email.
+				</Alert>
+			)}
+			{offer.status === 'taken' && (
+				<Alert
+					severity="info"
+					data-testid="waitlist-offer-taken"
+					sx={{ mt: 3 }}
+				>
+					Sorry, someone else claimed this appointment first. You&apos;re still
+					on the waitlist for the next opening.
+				</Alert>
+			)}
+			{offer.status === 'expired' && (
+				<Alert
+					severity="info"
+					data-testid="waitlist-offer-expired"
+					sx={{ mt: 3 }}
+				>
+					This opening is no longer available.
+				</Alert>
+			)}
+
+			{(offer.shop.phoneNumber || offer.shop.email) && (
+				<Typography
+					variant="body2"
+					color="text.secondary"
+					textAlign="center"
+					sx={{ mt: 3 }}
+				>
+					Questions? Contact {offer.shop.name}
+					{offer.shop.phoneNumber ? ` at ${offer.shop.phoneNumber}` : ''}
+					{offer.shop.email
+						? `${offer.shop.phoneNumber ? ' or ' : ' at '}${offer.shop.email}`
+						: ''}
+					.
+				</Typography>
+			)}
+		</Container>
+	);
+}
@@ -11,10 +11,15 @@ import Grid from '@mui/material/Grid2';
 import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
 import { DashboardAlertsClient } from '@/components/dashboard/alerts';
 import { AppointmentsFocus } from '@/components/dashboard/todays-focus';
-import { GarmentPipeline } from '@/components/dashboard/garment-pipeline';
+import {
+	GarmentPipeline,
+	WeeklyWorkload,
+} from '@/components/dashboard/garment-pipeline';
 import { BusinessOverviewClient } from '@/components/dashboard/business-overview';
 import { ReadyForPickupSectionClient } from '@/components/dashboard/garment-pipeline/ReadyForPickupSectionClient';
 import { getDashboardDataOptimized } from '@/lib/actions/dashboard-optimized';
+import { getWaitlistCount } from '@/lib/actions/waitlist';
+import { getCapacityPlan } from '@/lib/actions/capacity';
 
 // Refined color palette
 const refinedColors = {
@@ -149,7 +154,11 @@ function DashboardLoading() {
 async function DashboardContent() {
 	try {
 		// Single optimized call that fetches all dashboard data
-		const data = await getDashboardDataOptimized();
+		const [data, waitlistCount, capacityPlan] = await Promise.all([
+			getDashboardDataOptimized(),
+			getWaitlistCount(),
+			getCapacityPlan(),
+		]);
 
 		// Transform shop hours for client components
 		const transformedShopHours = data.shopHours.map((hour) => ({
@@ -198,6 +207,7 @@ async function DashboardContent() {
 								stageCounts={data.stageCounts}
 								activeGarments={data.activeGarments}
 							/>
+							{capacityPlan.data && <WeeklyWorkload plan={capacityPlan.data} />}
 							{data.readyForPickupGarments &&
 								data.readyForPickupGarments.length > 0 && (
 									<ReadyForPickupSectionClient
@@ -217,6 +227,7 @@ async function DashboardContent() {
 							weekSummaryStats={data.weekSummaryStats}
 							shopHours={transformedShopHours}
 							calendarSettings={transformedCalendarSettings}
+							waitlistCount={waitlistCount}
 						/>
 					</Grid>
 				</Grid>
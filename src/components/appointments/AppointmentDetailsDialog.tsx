@@ -65,7 +65,11 @@ import { useMutation } from '@tanstack/react-query';
 import { appointmentKeys } from '@/lib/queries/appointment-keys';
 import { updateAppointment as updateAppointmentRefactored } from '@/lib/actions/appointments';
 import { useAppointments } from '@/providers/AppointmentProvider';
-import { AppointmentActionType } from '@/lib/reducers/appointments-reducer';
+import {
+	AppointmentActionType,
+	selectSeriesPosition,
+} from '@/lib/reducers/appointments-reducer';
+import type { SeriesScope } from '@/lib/utils/recurrence';
 import { toast } from 'react-hot-toast';
 import { useAppointmentDetailsState } from '@/components/appointments/hooks/useAppointmentDetailsState';
 import CancelConfirmationDialog from '@/components/appointments/dialogs/CancelConfirmationDialog';
@@ -142,6 +146,8 @@ export function AppointmentDetailsDialog({
 	const { updateAppointment: updateAppointmentFromContext } = useAppointments();
 	const [isUpdating, setIsUpdating] = useState(false);
 	const [isResendingConfirmation, setIsResendingConfirmation] = useState(false);
+	const [cancelScope, setCancelScope] = useState<SeriesScope>('this');
+	const seriesPosition = selectSeriesPosition(state, appointment);
 
 	// Mutation for canceling appointment
 	const cancelMutation = useMutation({
@@ -150,6 +156,7 @@ export function AppointmentDetailsDialog({
 				id,
 				status: 'canceled',
 				sendEmail: ui.cancelComms.sendEmail,
+				...(appointment.series_id && { scope: cancelScope }),
 			});
 		},
 		onMutate: async () => {
@@ -169,7 +176,25 @@ export function AppointmentDetailsDialog({
 					appointment: updatedAppointment,
 				},
 			});
-			toast.success('Appointment canceled');
+			if (updatedAppointment.series) {
+				dispatch({
+					type: AppointmentActionType.SERIES_APPOINTMENTS_UPSERTED,
+					payload: { appointments: updatedAppointment.series.appointments },
+				});
+				const canceledCount = updatedAppointment.series.appointments.length;
+				toast.success(
+					canceledCount > 1
+						? `${canceledCount} appointments canceled`
+						: 'Appointment canceled'
+				);
+				if (updatedAppointment.series.skipped.length > 0) {
+					toast.error(
+						`${updatedAppointment.series.skipped.length} appointment(s) in the series could not be canceled`
+					);
+				}
+			} else {
+				toast.success('Appointment canceled');
+			}
 			uiDispatch({ type: 'SET_SHOW_CANCEL_CONFIRM', payload: false });
 			onClose();
 		},
@@ -502,6 +527,24 @@ export function AppointmentDetailsDialog({
 											fontWeight: 500,
 										}}
 									/>
+									{appointment.series_id && (
+										<Chip
+											icon={<RemixIcon name="ri-repeat-line" size={16} />}
+											label={
+												seriesPosition
+													? `${seriesPosition.index} of ${seriesPosition.total}`
+													: 'Recurring'
+											}
+											size="small"
+											data-testid="appointment-series-chip"
+											sx={{
+												bgcolor: 'rgba(255,255,255,0.2)',
+												color: 'white',
+												fontWeight: 500,
+												'& .MuiChip-icon': { color: 'white' },
+											}}
+										/>
+									)}
 								</Stack>
 
 								{/* Quick Date/Time Info */}
@@ -1217,6 +1260,8 @@ export function AppointmentDetailsDialog({
 				}
 				onConfirm={handleConfirmCancel}
 				isPending={cancelMutation.isPending}
+				seriesScope={cancelScope}
+				onSeriesScopeChange={setCancelScope}
 			/>
 
 			{/* Reschedule confirmation dialog removed per new flow */}
@@ -32,6 +32,9 @@ import dayjs from 'dayjs';
 import { getAvailableTimeSlots, to12HourFormat } from '@/lib/utils/calendar';
 import { ClientSearchField } from './ClientSearchField';
 import ClientCreateDialog from '@/components/clients/ClientCreateDialog';
+import { RecurrenceFields } from './RecurrenceFields';
+import { SeriesScopeSelector } from './SeriesScopeSelector';
+import type { RecurrenceRule, SeriesScope } from '@/lib/utils/recurrence';
 import type { Appointment, Client } from '@/types';
 
 // Helper function to safely parse time strings from database
@@ -102,6 +105,8 @@ interface AppointmentDialogProps {
 		notes?: string;
 		sendEmail?: boolean;
 		timezone?: string;
+		recurrence?: RecurrenceRule;
+		assignedTo?: string | null;
 	}) => Promise<void>;
 	onUpdate?: (data: {
 		clientId: string;
@@ -113,9 +118,17 @@ interface AppointmentDialogProps {
 		status?: string;
 		sendEmail?: boolean;
 		timezone?: string;
+		scope?: SeriesScope;
+		assignedTo?: string | null;
 	}) => Promise<void>;
 	onDateChange?: (date: Date) => void;
 	isLoadingAppointments?: boolean;
+	// Offer repeat options on create and series scope on edit. Only set this
+	// where the handlers pass `recurrence` / `scope` through to the actions.
+	allowRecurrence?: boolean;
+	// Shop staff to assign the appointment to. The "Assigned to" field is only
+	// shown (and `assignedTo` only passed to the handlers) when this is set.
+	staffMembers?: ReadonlyArray<{ id: string; name: string }>;
 }
 
 export function AppointmentDialog({
@@ -137,8 +150,14 @@ export function AppointmentDialog({
 	onUpdate,
 	onDateChange,
 	isLoadingAppointments = false,
+	allowRecurrence = false,
+	staffMembers,
 }: AppointmentDialogProps) {
 	const [loading, setLoading] = useState(false);
+	const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+	const [seriesScope, setSeriesScope] = useState<SeriesScope>('this');
+	const showSeriesScope = allowRecurrence && !!appointment?.series_id;
+	const [assignedTo, setAssignedTo] = useState<string>('');
 	const [error, setError] = useState<string | null>(null);
 	const [selectedClient, setSelectedClient] = useState<Client | null>(null);
 	const [sendEmail, setSendEmail] = useState<boolean>(false);
@@ -186,6 +205,15 @@ export function AppointmentDialog({
 		}
 	}, [open, appointment?.id, calendarSettings.default_appointment_duration]);
 
+	// Each time the dialog opens, start from a one-off change
+	useEffect(() => {
+		if (open) {
+			setRecurrence(null);
+			setSeriesScope('this');
+			setAssignedTo(appointment?.assigned_to || '');
+		}
+	}, [open, appointment?.id, appointment?.assigned_to]);
+
 	// Load selected client for editing
 	useEffect(() => {
 		if (appointment?.client_id && appointment.client) {
@@ -290,6 +318,7 @@ export function AppointmentDialog({
 				notes?: string;
 				sendEmail?: boolean;
 				timezone?: string;
+				assignedTo?: string | null;
 			} = {
 				clientId: formData.client_id,
 				date: dayjs.isDayjs(formData.date)
@@ -306,12 +335,20 @@ export function AppointmentDialog({
 				...(formData.notes ? { notes: formData.notes } : {}),
 				sendEmail,
 				timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+				...(staffMembers ? { assignedTo: assignedTo || null } : {}),
 			};
 
 			if (appointment && onUpdate) {
-				await onUpdate({ ...data, sendEmail });
+				await onUpdate({
+					...data,
+					sendEmail,
+					...(showSeriesScope ? { scope: seriesScope } : {}),
+				});
 			} else if (!appointment && onCreate) {
-				await onCreate(data);
+				await onCreate({
+					...data,
+					...(allowRecurrence && recurrence ? { recurrence } : {}),
+				});
 			} else {
 				throw new Error('No handler provided for this action');
 			}
@@ -584,6 +621,24 @@ export function AppointmentDialog({
 						</Box>
 					</LocalizationProvider>
 
+					{/* Repeat - new appointments only */}
+					{allowRecurrence && !appointment && (
+						<RecurrenceFields
+							startDate={formData.date.format('YYYY-MM-DD')}
+							value={recurrence}
+							onChange={setRecurrence}
+						/>
+					)}
+
+					{/* Series scope - editing a recurring appointment */}
+					{showSeriesScope && (
+						<SeriesScopeSelector
+							value={seriesScope}
+							onChange={setSeriesScope}
+							label="Apply changes to"
+						/>
+					)}
+
 					{/* Type - Only show when not rescheduling */}
 					{!isReschedule && (
 						<FormControl fullWidth>
@@ -617,6 +672,29 @@ export function AppointmentDialog({
 						</FormControl>
 					)}
 
+					{/* Assigned staff member - Only show when not rescheduling */}
+					{!isReschedule && staffMembers && (
+						<FormControl fullWidth>
+							<InputLabel id="assigned-to-label">Assigned to</InputLabel>
+							<Select
+								labelId="assigned-to-label"
+								label="Assigned to"
+								value={assignedTo}
+								onChange={(e) => setAssignedTo(e.target.value)}
+								MenuProps={{
+									disableScrollLock: true,
+								}}
+							>
+								<MenuItem value="">Unassigned</MenuItem>
+								{staffMembers.map((member) => (
+									<MenuItem key={member.id} value={member.id}>
+										{member.name}
+									</MenuItem>
+								))}
+							</Select>
+						</FormControl>
+					)}
+
 					{/* Notes - Only show when not rescheduling */}
 					{!isReschedule && (
 						<TextField
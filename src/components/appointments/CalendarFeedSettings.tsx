@@ -0,0 +1,138 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+	Typography,
+	Box,
+	TextField,
+	Button,
+	Alert,
+	CircularProgress,
+	FormHelperText,
+	InputAdornment,
+	IconButton,
+	Skeleton,
+} from '@mui/material';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import {
+	getCalendarFeedUrl,
+	regenerateCalendarFeedToken,
+} from '@/lib/actions/shops';
+
+export function CalendarFeedSettings() {
+	const [loading, setLoading] = useState(true);
+	const [resetting, setResetting] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [success, setSuccess] = useState(false);
+	const [feedUrl, setFeedUrl] = useState('');
+
+	useEffect(() => {
+		async function loadFeedUrl() {
+			const result = await getCalendarFeedUrl();
+			if (result.success && result.url) {
+				setFeedUrl(result.url);
+			} else {
+				setError(result.error || 'Failed to load calendar feed link');
+			}
+			setLoading(false);
+		}
+		loadFeedUrl();
+	}, []);
+
+	const handleReset = async () => {
+		if (
+			!window.confirm(
+				'Calendars subscribed with the current link will stop updating. Reset the link?'
+			)
+		) {
+			return;
+		}
+
+		setError(null);
+		setSuccess(false);
+		setResetting(true);
+
+		const result = await regenerateCalendarFeedToken();
+
+		if (result.success && result.url) {
+			setFeedUrl(result.url);
+			setSuccess(true);
+			// Clear success message after 3 seconds
+			setTimeout(() => setSuccess(false), 3000);
+		} else {
+			setError(result.error || 'Failed to reset calendar feed link');
+		}
+		setResetting(false);
+	};
+
+	if (loading) {
+		return (
+			<Box>
+				<Skeleton variant="text" width={180} height={28} sx={{ mb: 2 }} />
+				<Skeleton
+					variant="rectangular"
+					width="100%"
+					height={56}
+					sx={{ borderRadius: 1 }}
+				/>
+			</Box>
+		);
+	}
+
+	return (
+		<Box>
+			<Typography variant="h6" gutterBottom>
+				Calendar Subscription
+			</Typography>
+
+			{error && (
+				<Alert severity="error" sx={{ mb: 2 }}>
+					{error}
+				</Alert>
+			)}
+			{success && (
+				<Alert severity="success" sx={{ mb: 2 }}>
+					Calendar feed link reset. Re-subscribe with the new link.
+				</Alert>
+			)}
+
+			<Box sx={{ mt: 2 }}>
+				<TextField
+					fullWidth
+					label="Calendar feed link"
+					value={feedUrl}
+					InputProps={{
+						readOnly: true,
+						endAdornment: (
+							<InputAdornment position="end">
+								<IconButton
+									aria-label="Copy calendar feed link"
+									onClick={() => navigator.clipboard?.writeText(feedUrl)}
+									edge="end"
+								>
+									<ContentCopyIcon />
+								</IconButton>
+							</InputAdornment>
+						),
+					}}
+				/>
+				<FormHelperText>
+					Subscribe to this link in Google Calendar, Apple Calendar or Outlook
+					to see your appointments on your phone. Keep it private: anyone with
+					the link can see your schedule.
+				</FormHelperText>
+			</Box>
+
+			<Box sx={{ mt: 3, display: 'flex', justifyContent: 'flex-end' }}>
+				<Button
+					variant="outlined"
+					color="warning"
+					onClick={handleReset}
+					disabled={resetting}
+				>
+					{resetting ? <CircularProgress size={24} /> : 'Reset Link'}
+				</Button>
+			</Box>
+		</Box>
+	);
+}
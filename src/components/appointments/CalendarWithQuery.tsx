@@ -39,6 +39,8 @@ interface CalendarWithQueryProps {
 		default_appointment_duration: number;
 	};
 	focusAppointmentId?: string;
+	// Only show appointments assigned to this staff member
+	staffUserId?: string;
 	onAppointmentClick?: (appointment: Appointment) => void;
 	onDateClick?: (date: Date, time?: string) => void;
 	onTimeSlotClick?: (date: Date, time?: string) => void;
@@ -116,6 +118,7 @@ export function CalendarWithQuery({
 	shopHours,
 	calendarSettings,
 	focusAppointmentId,
+	staffUserId,
 	onAppointmentClick,
 	onDateClick,
 }: CalendarWithQueryProps) {
@@ -266,10 +269,13 @@ export function CalendarWithQuery({
 	// Determine which appointments to show
 	// If we're loading but have cached appointments, show them to keep UI responsive
 	// Only show skeleton on initial load or when we have no data at all
-	const appointmentsToShow =
+	const loadedAppointments =
 		(isLoading || isFetching) && cachedAppointments.length > 0
 			? cachedAppointments
 			: appointments;
+	const appointmentsToShow = staffUserId
+		? loadedAppointments.filter((apt) => apt.assigned_to === staffUserId)
+		: loadedAppointments;
 
 	// Debug logging
 
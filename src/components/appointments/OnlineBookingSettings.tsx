@@ -0,0 +1,151 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+	Typography,
+	Box,
+	TextField,
+	FormControlLabel,
+	Switch,
+	Button,
+	Alert,
+	CircularProgress,
+	FormHelperText,
+	InputAdornment,
+	IconButton,
+	Skeleton,
+} from '@mui/material';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import {
+	getOnlineBookingSettings,
+	updateOnlineBookingSettings,
+} from '@/lib/actions/shops';
+
+export function OnlineBookingSettings() {
+	const [loading, setLoading] = useState(true);
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [success, setSuccess] = useState(false);
+
+	const [enabled, setEnabled] = useState(false);
+	const [slug, setSlug] = useState('');
+
+	const baseUrl =
+		typeof window !== 'undefined'
+			? window.location.origin
+			: process.env.NEXT_PUBLIC_APP_URL || '';
+	const bookingUrl = `${baseUrl}/book/${slug}`;
+
+	useEffect(() => {
+		async function loadSettings() {
+			const result = await getOnlineBookingSettings();
+			if (result.success && result.data) {
+				setEnabled(result.data.online_booking_enabled);
+				setSlug(result.data.booking_slug);
+			} else {
+				setError(result.error || 'Failed to load online booking settings');
+			}
+			setLoading(false);
+		}
+		loadSettings();
+	}, []);
+
+	const handleSave = async () => {
+		setError(null);
+		setSuccess(false);
+		setSaving(true);
+
+		const result = await updateOnlineBookingSettings({
+			online_booking_enabled: enabled,
+			booking_slug: slug,
+		});
+
+		if (result.success) {
+			setSuccess(true);
+			// Clear success message after 3 seconds
+			setTimeout(() => setSuccess(false), 3000);
+		} else {
+			setError(result.error || 'Failed to save online booking settings');
+		}
+		setSaving(false);
+	};
+
+	if (loading) {
+		return (
+			<Box>
+				<Skeleton variant="text" width={180} height={28} sx={{ mb: 2 }} />
+				<Skeleton
+					variant="rectangular"
+					width="100%"
+					height={56}
+					sx={{ borderRadius: 1 }}
+				/>
+			</Box>
+		);
+	}
+
+	return (
+		<Box>
+			<Typography variant="h6" gutterBottom>
+				Online Booking
+			</Typography>
+
+			{error && (
+				<Alert severity="error" sx={{ mb: 2 }}>
+					{error}
+				</Alert>
+			)}
+			{success && (
+				<Alert severity="success" sx={{ mb: 2 }}>
+					Online booking settings saved successfully!
+				</Alert>
+			)}
+
+			<Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 2 }}>
+				<Box>
+					<FormControlLabel
+						control={
+							<Switch
+								checked={enabled}
+								onChange={(e) => setEnabled(e.target.checked)}
+							/>
+						}
+						label="Let clients book appointments online"
+					/>
+					<FormHelperText>
+						Clients pick an open time based on your working hours and calendar
+						settings. Bookings arrive as pending appointments and the client
+						gets the usual confirmation email.
+					</FormHelperText>
+				</Box>
+
+				<TextField
+					fullWidth
+					label="Booking link"
+					value={slug}
+					onChange={(e) => setSlug(e.target.value.toLowerCase())}
+					helperText={bookingUrl}
+					InputProps={{
+						endAdornment: (
+							<InputAdornment position="end">
+								<IconButton
+									aria-label="Copy booking link"
+									onClick={() => navigator.clipboard?.writeText(bookingUrl)}
+									edge="end"
+								>
+									<ContentCopyIcon />
+								</IconButton>
+							</InputAdornment>
+						),
+					}}
+				/>
+			</Box>
+
+			<Box sx={{ mt: 3, display: 'flex', justifyContent: 'flex-end' }}>
+				<Button variant="contained" onClick={handleSave} disabled={saving}>
+					{saving ? <CircularProgress size={24} /> : 'Save Settings'}
+				</Button>
+			</Box>
+		</Box>
+	);
+}
@@ -0,0 +1,179 @@
+'use client';
+
+import {
+	Box,
+	FormControl,
+	InputLabel,
+	MenuItem,
+	Select,
+	TextField,
+	FormHelperText,
+} from '@mui/material';
+import dayjs from 'dayjs';
+import {
+	MAX_RECURRENCE_INTERVAL,
+	MAX_SERIES_OCCURRENCES,
+	describeRecurrence,
+	generateOccurrenceDates,
+	type RecurrenceRule,
+} from '@/lib/utils/recurrence';
+
+type RepeatOption = 'none' | 'weekly' | 'daily';
+type EndOption = 'count' | 'date';
+
+interface RecurrenceFieldsProps {
+	// First occurrence (YYYY-MM-DD)
+	startDate: string;
+	value: RecurrenceRule | null;
+	onChange: (rule: RecurrenceRule | null) => void;
+}
+
+const DEFAULT_COUNT = 4;
+
+export function RecurrenceFields({
+	startDate,
+	value,
+	onChange,
+}: RecurrenceFieldsProps) {
+	const repeat: RepeatOption = value ? value.frequency : 'none';
+	const endOption: EndOption = value?.endDate ? 'date' : 'count';
+
+	const handleRepeatChange = (option: RepeatOption) => {
+		if (option === 'none') {
+			onChange(null);
+			return;
+		}
+		onChange({
+			frequency: option,
+			interval: value?.interval ?? 1,
+			...(value?.endDate
+				? { endDate: value.endDate }
+				: { count: value?.count ?? DEFAULT_COUNT }),
+		});
+	};
+
+	const handleEndOptionChange = (option: EndOption) => {
+		if (!value) return;
+		onChange(
+			option === 'date'
+				? {
+						frequency: value.frequency,
+						interval: value.interval,
+						endDate: dayjs(startDate).add(3, 'month').format('YYYY-MM-DD'),
+					}
+				: {
+						frequency: value.frequency,
+						interval: value.interval,
+						count: DEFAULT_COUNT,
+					}
+		);
+	};
+
+	const occurrenceCount = value
+		? generateOccurrenceDates(startDate, value).length
+		: 0;
+
+	return (
+		<Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+			<FormControl fullWidth>
+				<InputLabel id="repeat-label">Repeat</InputLabel>
+				<Select
+					labelId="repeat-label"
+					label="Repeat"
+					value={repeat}
+					onChange={(e) => handleRepeatChange(e.target.value as RepeatOption)}
+					MenuProps={{
+						disableScrollLock: true,
+					}}
+					data-testid="repeat-select"
+				>
+					<MenuItem value="none">Does not repeat</MenuItem>
+					<MenuItem value="weekly">Weekly</MenuItem>
+					<MenuItem value="daily">Every few days</MenuItem>
+				</Select>
+			</FormControl>
+
+			{value && (
+				<>
+					<Box sx={{ display: 'flex', gap: 2 }}>
+						<TextField
+							label={
+								value.frequency === 'weekly' ? 'Every (weeks)' : 'Every (days)'
+							}
+							type="number"
+							value={value.interval}
+							onChange={(e) =>
+								onChange({
+									...value,
+									interval: Math.min(
+										MAX_RECURRENCE_INTERVAL,
+										Math.max(1, Number(e.target.value) || 1)
+									),
+								})
+							}
+							inputProps={{ min: 1, max: MAX_RECURRENCE_INTERVAL }}
+							sx={{ flex: 1 }}
+						/>
+						<FormControl sx={{ flex: 1 }}>
+							<InputLabel id="repeat-end-label">Ends</InputLabel>
+							<Select
+								labelId="repeat-end-label"
+								label="Ends"
+								value={endOption}
+								onChange={(e) =>
+									handleEndOptionChange(e.target.value as EndOption)
+								}
+								MenuProps={{
+									disableScrollLock: true,
+								}}
+							>
+								<MenuItem value="count">After a number of visits</MenuItem>
+								<MenuItem value="date">On a date</MenuItem>
+							</Select>
+						</FormControl>
+					</Box>
+
+					{endOption === 'count' ? (
+						<TextField
+							label="Number of appointments"
+							type="number"
+							value={value.count ?? DEFAULT_COUNT}
+							onChange={(e) =>
+								onChange({
+									frequency: value.frequency,
+									interval: value.interval,
+									count: Math.min(
+										MAX_SERIES_OCCURRENCES,
+										Math.max(2, Number(e.target.value) || 2)
+									),
+								})
+							}
+							inputProps={{ min: 2, max: MAX_SERIES_OCCURRENCES }}
+						/>
+					) : (
+						<TextField
+							label="Last date"
+							type="date"
+							value={value.endDate ?? ''}
+							onChange={(e) =>
+								onChange({
+									frequency: value.frequency,
+									interval: value.interval,
+									endDate: e.target.value,
+								})
+							}
+							inputProps={{ min: startDate }}
+							InputLabelProps={{ shrink: true }}
+						/>
+					)}
+
+					<FormHelperText sx={{ mt: -1 }}>
+						{describeRecurrence(value)} ({occurrenceCount} appointment
+						{occurrenceCount === 1 ? '' : 's'}). Times that conflict with other
+						bookings or fall outside working hours are skipped.
+					</FormHelperText>
+				</>
+			)}
+		</Box>
+	);
+}
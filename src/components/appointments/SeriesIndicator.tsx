@@ -0,0 +1,26 @@
+import RepeatIcon from '@mui/icons-material/Repeat';
+import type { Appointment } from '@/types';
+
+interface SeriesIndicatorProps {
+	appointment: Pick<Appointment, 'series_id'>;
+	fontSize?: number;
+}
+
+/**
+ * Small repeat icon shown next to appointments that belong to a recurring
+ * series. Renders nothing for one-off appointments.
+ */
+export function SeriesIndicator({
+	appointment,
+	fontSize = 14,
+}: SeriesIndicatorProps) {
+	if (!appointment.series_id) return null;
+
+	return (
+		<RepeatIcon
+			titleAccess="Recurring appointment"
+			data-testid="appointment-series-indicator"
+			sx={{ fontSize, ml: 0.5, verticalAlign: 'middle', opacity: 0.8 }}
+		/>
+	);
+}
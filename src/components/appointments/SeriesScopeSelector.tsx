@@ -0,0 +1,55 @@
+'use client';
+
+import {
+	FormControl,
+	FormControlLabel,
+	FormLabel,
+	Radio,
+	RadioGroup,
+} from '@mui/material';
+import type { SeriesScope } from '@/lib/utils/recurrence';
+
+interface SeriesScopeSelectorProps {
+	value: SeriesScope;
+	onChange: (scope: SeriesScope) => void;
+	label?: string;
+	disabled?: boolean;
+}
+
+/**
+ * "This one / this and following / all" choice for recurring appointments
+ */
+export function SeriesScopeSelector({
+	value,
+	onChange,
+	label = 'This is a recurring appointment',
+	disabled = false,
+}: SeriesScopeSelectorProps) {
+	return (
+		<FormControl disabled={disabled}>
+			<FormLabel id="series-scope-label">{label}</FormLabel>
+			<RadioGroup
+				aria-labelledby="series-scope-label"
+				value={value}
+				onChange={(e) => onChange(e.target.value as SeriesScope)}
+				data-testid="series-scope"
+			>
+				<FormControlLabel
+					value="this"
+					control={<Radio size="small" />}
+					label="This appointment"
+				/>
+				<FormControlLabel
+					value="following"
+					control={<Radio size="small" />}
+					label="This and following appointments"
+				/>
+				<FormControlLabel
+					value="all"
+					control={<Radio size="small" />}
+					label="All upcoming appointments in the series"
+				/>
+			</RadioGroup>
+		</FormControl>
+	);
+}
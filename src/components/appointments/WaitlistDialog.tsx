@@ -0,0 +1,292 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+	Dialog,
+	DialogTitle,
+	DialogContent,
+	DialogActions,
+	Button,
+	Box,
+	Typography,
+	TextField,
+	FormControl,
+	InputLabel,
+	Select,
+	MenuItem,
+	Chip,
+	List,
+	ListItem,
+	ListItemText,
+	IconButton,
+	Divider,
+	CircularProgress,
+	Alert,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import { toast } from 'react-hot-toast';
+import { ClientSearchField } from './ClientSearchField';
+import {
+	addWaitlistEntry,
+	getWaitlistEntries,
+	removeWaitlistEntry,
+	type WaitlistEntry,
+} from '@/lib/actions/waitlist';
+import {
+	formatDateForDisplay,
+	getTodayString,
+} from '@/lib/utils/date-time-utils';
+import type { Client } from '@/types';
+
+const APPOINTMENT_TYPES = [
+	{ value: 'consultation', label: 'Consultation' },
+	{ value: 'fitting', label: 'Fitting' },
+	{ value: 'pickup', label: 'Pickup' },
+	{ value: 'delivery', label: 'Delivery' },
+	{ value: 'other', label: 'Other' },
+] as const;
+
+type AppointmentType = (typeof APPOINTMENT_TYPES)[number]['value'];
+
+const getTypeLabel = (type: string) =>
+	APPOINTMENT_TYPES.find((t) => t.value === type)?.label || type;
+
+interface WaitlistDialogProps {
+	open: boolean;
+	onClose: () => void;
+}
+
+export function WaitlistDialog({ open, onClose }: WaitlistDialogProps) {
+	const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+	const [loading, setLoading] = useState(false);
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [client, setClient] = useState<Client | null>(null);
+	const [earliestDate, setEarliestDate] = useState(getTodayString());
+	const [latestDate, setLatestDate] = useState(getTodayString());
+	const [types, setTypes] = useState<AppointmentType[]>([]);
+	const [notes, setNotes] = useState('');
+
+	useEffect(() => {
+		if (!open) return;
+
+		async function loadEntries() {
+			setLoading(true);
+			const result = await getWaitlistEntries();
+			if (result.success && result.data) {
+				setEntries(result.data);
+			} else {
+				setError(result.error || 'Failed to load waitlist');
+			}
+			setLoading(false);
+		}
+		loadEntries();
+	}, [open]);
+
+	const resetForm = () => {
+		setClient(null);
+		setEarliestDate(getTodayString());
+		setLatestDate(getTodayString());
+		setTypes([]);
+		setNotes('');
+	};
+
+	const handleAdd = async () => {
+		if (!client) return;
+
+		setError(null);
+		setSaving(true);
+
+		const result = await addWaitlistEntry({
+			clientId: client.id,
+			earliestDate,
+			latestDate,
+			appointmentTypes: types,
+			...(notes.trim() ? { notes: notes.trim() } : {}),
+		});
+
+		if (result.success && result.data) {
+			setEntries((prev) => [...prev, result.data!]);
+			resetForm();
+			toast.success('Added to waitlist');
+		} else {
+			setError(result.error || 'Failed to add client to waitlist');
+		}
+		setSaving(false);
+	};
+
+	const handleRemove = async (entryId: string) => {
+		const result = await removeWaitlistEntry(entryId);
+		if (result.success) {
+			setEntries((prev) => prev.filter((entry) => entry.id !== entryId));
+		} else {
+			toast.error(result.error || 'Failed to remove client from waitlist');
+		}
+	};
+
+	return (
+		<Dialog
+			open={open}
+			onClose={onClose}
+			maxWidth="sm"
+			fullWidth
+			data-testid="waitlist-dialog"
+		>
+			<DialogTitle>
+				Waitlist
+				<IconButton
+					aria-label="close"
+					onClick={onClose}
+					sx={{
+						position: 'absolute',
+						right: 8,
+						top: 8,
+						color: (theme) => theme.palette.grey[500],
+					}}
+				>
+					<CloseIcon />
+				</IconButton>
+			</DialogTitle>
+
+			<DialogContent>
+				<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+					When an appointment is canceled, matching clients are sent a link to
+					claim the open slot. The first to claim it gets the appointment.
+				</Typography>
+
+				{error && (
+					<Alert severity="error" sx={{ mb: 2 }}>
+						{error}
+					</Alert>
+				)}
+
+				{loading ? (
+					<Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+						<CircularProgress size={24} />
+					</Box>
+				) : entries.length === 0 ? (
+					<Typography color="text.secondary" sx={{ py: 2 }}>
+						No one is on the waitlist.
+					</Typography>
+				) : (
+					<List dense disablePadding data-testid="waitlist-entries">
+						{entries.map((entry) => (
+							<ListItem
+								key={entry.id}
+								disableGutters
+								secondaryAction={
+									<IconButton
+										edge="end"
+										aria-label="Remove from waitlist"
+										onClick={() => handleRemove(entry.id)}
+									>
+										<DeleteOutlineIcon />
+									</IconButton>
+								}
+							>
+								<ListItemText
+									primary={
+										entry.client
+											? `${entry.client.first_name} ${entry.client.last_name}`
+											: 'Unknown client'
+									}
+									secondary={`${formatDateForDisplay(entry.earliest_date)} – ${formatDateForDisplay(entry.latest_date)} · ${
+										entry.appointment_types.length > 0
+											? entry.appointment_types.map(getTypeLabel).join(', ')
+											: 'Any type'
+									}`}
+								/>
+							</ListItem>
+						))}
+					</List>
+				)}
+
+				<Divider sx={{ my: 2 }} />
+
+				<Typography variant="subtitle2" sx={{ mb: 2 }}>
+					Add a client
+				</Typography>
+				<Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+					<ClientSearchField value={client} onChange={setClient} />
+					<Box sx={{ display: 'flex', gap: 2 }}>
+						<TextField
+							label="Available from"
+							type="date"
+							value={earliestDate}
+							onChange={(e) => setEarliestDate(e.target.value)}
+							InputLabelProps={{ shrink: true }}
+							fullWidth
+						/>
+						<TextField
+							label="Available until"
+							type="date"
+							value={latestDate}
+							onChange={(e) => setLatestDate(e.target.value)}
+							InputLabelProps={{ shrink: true }}
+							fullWidth
+						/>
+					</Box>
+					<FormControl fullWidth>
+						<InputLabel id="waitlist-types-label">Appointment types</InputLabel>
+						<Select
+							labelId="waitlist-types-label"
+							label="Appointment types"
+							multiple
+							value={types}
+							onChange={(e) => {
+								const value = e.target.value;
+								setTypes(
+									(typeof value === 'string'
+										? value.split(',')
+										: value) as AppointmentType[]
+								);
+							}}
+							renderValue={(selected) =>
+								selected.length === 0 ? (
+									'Any type'
+								) : (
+									<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+										{selected.map((type) => (
+											<Chip
+												key={type}
+												label={getTypeLabel(type)}
+												size="small"
+											/>
+										))}
+									</Box>
+								)
+							}
+							displayEmpty
+						>
+							{APPOINTMENT_TYPES.map((type) => (
+								<MenuItem key={type.value} value={type.value}>
+									{type.label}
+								</MenuItem>
+							))}
+						</Select>
+					</FormControl>
+					<TextField
+						label="Notes"
+						value={notes}
+						onChange={(e) => setNotes(e.target.value)}
+						multiline
+						minRows={2}
+						fullWidth
+					/>
+				</Box>
+			</DialogContent>
+
+			<DialogActions>
+				<Button onClick={onClose}>Close</Button>
+				<Button
+					variant="contained"
+					onClick={handleAdd}
+					disabled={!client || saving}
+				>
+					{saving ? 'Adding...' : 'Add to waitlist'}
+				</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
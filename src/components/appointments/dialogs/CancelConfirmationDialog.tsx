@@ -18,6 +18,8 @@ import EmailIcon from '@mui/icons-material/Email';
 import SmsIcon from '@mui/icons-material/Sms';
 import type { Appointment } from '@/types';
 import type { CommunicationPreferences } from '@/components/appointments/hooks/useAppointmentDetailsState';
+import { SeriesScopeSelector } from '@/components/appointments/SeriesScopeSelector';
+import type { SeriesScope } from '@/lib/utils/recurrence';
 
 interface CancelConfirmationDialogProps {
   open: boolean;
@@ -27,6 +29,9 @@ interface CancelConfirmationDialogProps {
   setCancelComms: (prefs: CommunicationPreferences) => void;
   onConfirm: () => void;
   isPending?: boolean;
+  // Shown for recurring appointments when provided
+  seriesScope?: SeriesScope;
+  onSeriesScopeChange?: (scope: SeriesScope) => void;
 }
 
 export function CancelConfirmationDialog({
@@ -37,7 +42,11 @@ export function CancelConfirmationDialog({
   setCancelComms,
   onConfirm,
   isPending = false,
+  seriesScope = 'this',
+  onSeriesScopeChange,
 }: CancelConfirmationDialogProps) {
+  const showSeriesScope = !!appointment.series_id && !!onSeriesScopeChange;
+
   return (
     <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
       <DialogTitle>
@@ -66,6 +75,17 @@ export function CancelConfirmationDialog({
           ?
         </Typography>
 
+        {showSeriesScope && (
+          <Box sx={{ mb: 2 }}>
+            <SeriesScopeSelector
+              value={seriesScope}
+              onChange={onSeriesScopeChange}
+              label="Cancel"
+              disabled={isPending}
+            />
+          </Box>
+        )}
+
         <Box sx={{ mb: 2 }}>
           <FormControlLabel
             control={
@@ -35,6 +35,7 @@ import AddIcon from '@mui/icons-material/Add';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import type { Appointment } from '@/types';
+import { SeriesIndicator } from '../SeriesIndicator';
 import { useAppointmentsDisplay } from '@/hooks/useAppointmentDisplay';
 
 interface DayViewProps {
@@ -657,6 +658,7 @@ export function DayView({
 											{appointment.client
 												? `${appointment.client.first_name} ${appointment.client.last_name}`
 												: 'No Client'}
+											<SeriesIndicator appointment={appointment} />
 										</Typography>
 
 										{/* Time - responsive layout */}
@@ -32,6 +32,7 @@ import {
 	getDurationMinutes,
 } from '@/lib/utils/calendar';
 import type { Appointment } from '@/types';
+import { SeriesIndicator } from '../SeriesIndicator';
 
 interface ListViewProps {
 	appointments: Appointment[];
@@ -194,6 +195,7 @@ export function ListView({ appointments, onAppointmentClick }: ListViewProps) {
 											{appointment.client
 												? `${appointment.client.first_name} ${appointment.client.last_name}`
 												: 'No Client'}
+											<SeriesIndicator appointment={appointment} />
 										</Typography>
 
 										{appointment.client && (
@@ -19,6 +19,7 @@ import {
 	canCreateAppointment,
 } from '@/lib/utils/calendar';
 import type { Appointment } from '@/types';
+import { SeriesIndicator } from '../SeriesIndicator';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 
 interface MonthViewDesktopProps {
@@ -259,6 +260,7 @@ export function MonthViewDesktop({
 														{apt.client
 															? `${apt.client.first_name} ${apt.client.last_name}`
 															: 'No Client'}
+														<SeriesIndicator appointment={apt} />
 													</Typography>
 													<Typography variant="caption" display="block">
 														{formatTime(apt.start_time)} -{' '}
@@ -26,6 +26,7 @@ import {
 import AddIcon from '@mui/icons-material/Add';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import type { Appointment } from '@/types';
+import { SeriesIndicator } from '../SeriesIndicator';
 import { useAppointmentsDisplay } from '@/hooks/useAppointmentDisplay';
 
 interface WeekViewProps {
@@ -488,6 +489,7 @@ export function WeekView({
 													{appointment.client
 														? `${appointment.client.first_name} ${appointment.client.last_name}`
 														: 'No Client'}
+													<SeriesIndicator appointment={appointment} />
 												</Typography>
 
 												{/* Time caption always visible */}
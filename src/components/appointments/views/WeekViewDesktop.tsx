@@ -27,6 +27,7 @@ import {
 	canCreateAppointmentAt,
 } from '@/lib/utils/calendar';
 import type { Appointment } from '@/types';
+import { SeriesIndicator } from '../SeriesIndicator';
 import AddIcon from '@mui/icons-material/Add';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 
@@ -616,6 +617,7 @@ export function WeekViewDesktop({
 														{appointment.client
 															? `${appointment.client.first_name} ${appointment.client.last_name}`
 															: 'No Client'}
+														<SeriesIndicator appointment={appointment} />
 													</Typography>
 													<Typography
 														variant="caption"
@@ -708,6 +710,7 @@ export function WeekViewDesktop({
 															{appointment.client
 																? `${appointment.client.first_name} ${appointment.client.last_name}`
 																: 'No Client'}
+															<SeriesIndicator appointment={appointment} />
 														</Typography>
 
 														{/* Appointment type - show for all except 15-minute appointments */}
@@ -20,6 +20,10 @@ import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { updateClient } from '@/lib/actions/clients';
+import {
+	getClientPaymentRemindersPaused,
+	setClientPaymentRemindersPaused,
+} from '@/lib/actions/payment-reminders';
 import type { Tables } from '@/types/supabase-extended';
 import { useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/useToast';
@@ -27,6 +31,7 @@ import { useToast } from '@/hooks/useToast';
 const communicationSchema = z.object({
 	accept_email: z.boolean(),
 	accept_sms: z.boolean(),
+	payment_reminders_paused: z.boolean(),
 });
 
 type CommunicationFormData = z.infer<typeof communicationSchema>;
@@ -43,6 +48,8 @@ export default function ClientCommunicationPreferencesModal({
 	const [open, setOpen] = useState(false);
 	const [loading, setLoading] = useState(false);
 	const [error, setError] = useState<string | null>(null);
+	// Stored apart from the client row; loaded when the dialog opens
+	const [remindersPaused, setRemindersPaused] = useState<boolean | null>(null);
 	const router = useRouter();
 	const { showToast } = useToast();
 
@@ -51,11 +58,13 @@ export default function ClientCommunicationPreferencesModal({
 		handleSubmit,
 		formState: { errors },
 		reset,
+		setValue,
 	} = useForm<CommunicationFormData>({
 		resolver: zodResolver(communicationSchema),
 		defaultValues: {
 			accept_email: client.accept_email || false,
 			accept_sms: client.accept_sms || false,
+			payment_reminders_paused: false,
 		},
 	});
 
@@ -65,6 +74,14 @@ export default function ClientCommunicationPreferencesModal({
 		reset({
 			accept_email: client.accept_email || false,
 			accept_sms: client.accept_sms || false,
+			payment_reminders_paused: false,
+		});
+		setRemindersPaused(null);
+		getClientPaymentRemindersPaused(client.id).then((result) => {
+			if (result.success) {
+				setRemindersPaused(!!result.data);
+				setValue('payment_reminders_paused', !!result.data);
+			}
 		});
 	};
 
@@ -84,6 +101,21 @@ export default function ClientCommunicationPreferencesModal({
 				accept_sms: data.accept_sms,
 			});
 
+			if (
+				result.success &&
+				remindersPaused !== null &&
+				data.payment_reminders_paused !== remindersPaused
+			) {
+				const pauseResult = await setClientPaymentRemindersPaused(
+					client.id,
+					data.payment_reminders_paused
+				);
+				if (!pauseResult.success) {
+					setError(pauseResult.error || 'Failed to update payment reminders');
+					return;
+				}
+			}
+
 			if (result.success) {
 				setOpen(false);
 				showToast('Communication preferences updated successfully', 'success');
@@ -178,6 +210,25 @@ export default function ClientCommunicationPreferencesModal({
 								)}
 							/>
 						</Grid>
+
+						<Grid size={12}>
+							<Controller
+								name="payment_reminders_paused"
+								control={control}
+								render={({ field: { value, onChange } }) => (
+									<FormControlLabel
+										control={
+											<Switch
+												checked={value}
+												disabled={remindersPaused === null}
+												onChange={(e) => onChange(e.target.checked)}
+											/>
+										}
+										label="Pause Overdue Payment Reminders"
+									/>
+								)}
+							/>
+						</Grid>
 					</Grid>
 				</DialogContent>
 
@@ -5,6 +5,7 @@ import { Box, Tab, Tabs, Chip } from '@mui/material';
 import { useQuery } from '@tanstack/react-query';
 import { ClientAppointmentsSectionV2 } from '@/components/clients/ClientAppointmentsSectionV2';
 import ClientOrdersSection from '@/components/clients/ClientOrdersSection';
+import ClientMeasurementsSection from '@/components/clients/ClientMeasurementsSection';
 import { getClientOrders } from '@/lib/actions/clients';
 import { useInfiniteClientAppointments } from '@/lib/queries/client-appointment-queries';
 
@@ -40,9 +41,9 @@ export default function ClientDetailTabs({
 	shopHours,
 	calendarSettings,
 }: ClientDetailTabsProps) {
-	const [activeTab, setActiveTab] = useState<'orders' | 'appointments'>(
-		'orders'
-	);
+	const [activeTab, setActiveTab] = useState<
+		'orders' | 'appointments' | 'measurements'
+	>('orders');
 
 	// Get orders count
 	const { data: ordersData } = useQuery({
@@ -121,10 +122,16 @@ export default function ClientDetailTabs({
 						</Box>
 					}
 				/>
+				<Tab value="measurements" label="Measurements" />
 			</Tabs>
 
 			{activeTab === 'orders' ? (
 				<ClientOrdersSection clientId={clientId} clientName={clientName} />
+			) : activeTab === 'measurements' ? (
+				<ClientMeasurementsSection
+					clientId={clientId}
+					clientName={clientName}
+				/>
 			) : (
 				<ClientAppointmentsSectionV2
 					clientId={clientId}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Chip,
+	List,
+	ListItem,
+	ListItemText,
+	Typography,
+} from '@mui/material';
+import type { ClientMerge, DuplicateClient } from '@/lib/actions/client-merge';
+import {
+	DUPLICATE_REASON_LABELS,
+	type DuplicatePair,
+} from '@/lib/utils/client-duplicates';
+import { formatPhoneNumber } from '@/lib/utils/phone';
+import { useToast } from '@/hooks/useToast';
+import ClientMergeDialog from './ClientMergeDialog';
+
+interface ClientDuplicatesListProps {
+	pairs: DuplicatePair<DuplicateClient>[];
+	merges: ClientMerge[];
+}
+
+function ClientSummary({ client }: { client: DuplicateClient }) {
+	return (
+		<Box sx={{ flex: 1, minWidth: 0 }}>
+			<Typography
+				component={Link}
+				href={`/clients/${client.id}`}
+				variant="subtitle1"
+				sx={{ color: 'inherit' }}
+			>
+				{client.first_name} {client.last_name}
+			</Typography>
+			<Typography variant="body2" color="text.secondary" noWrap>
+				{client.email || 'No email'}
+			</Typography>
+			<Typography variant="body2" color="text.secondary">
+				{formatPhoneNumber(client.phone_number) || 'No phone'}
+			</Typography>
+			{client.created_at && (
+				<Typography variant="caption" color="text.secondary">
+					Added {format(new Date(client.created_at), 'MMM d, yyyy')}
+				</Typography>
+			)}
+		</Box>
+	);
+}
+
+/**
+ * Likely duplicate clients with a merge action for each pair, and the shop's
+ * recent merges
+ */
+export default function ClientDuplicatesList({
+	pairs: initialPairs,
+	merges,
+}: ClientDuplicatesListProps) {
+	const router = useRouter();
+	const queryClient = useQueryClient();
+	const { showToast } = useToast();
+	const [pairs, setPairs] = useState(initialPairs);
+	const [merging, setMerging] = useState<DuplicatePair<DuplicateClient> | null>(
+		null
+	);
+
+	const handleMerged = async (mergedClientId: string) => {
+		setMerging(null);
+		// The merged client is archived, so any other pair with it is moot
+		setPairs((prev) =>
+			prev.filter((pair) => !pair.clients.some((c) => c.id === mergedClientId))
+		);
+		showToast('Clients merged', 'success');
+		await queryClient.invalidateQueries({ queryKey: ['clients'] });
+		router.refresh();
+	};
+
+	return (
+		<Box>
+			{pairs.length === 0 ? (
+				<Alert severity="success" sx={{ mb: 4 }}>
+					No likely duplicates found.
+				</Alert>
+			) : (
+				<Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mb: 4 }}>
+					{pairs.map((pair) => (
+						<Card key={`${pair.clients[0].id}:${pair.clients[1].id}`}>
+							<CardContent>
+								<Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+									{pair.reasons.map((reason) => (
+										<Chip
+											key={reason}
+											size="small"
+											label={DUPLICATE_REASON_LABELS[reason]}
+											color={reason === 'similar_name' ? 'default' : 'warning'}
+										/>
+									))}
+								</Box>
+								<Box
+									sx={{
+										display: 'flex',
+										gap: 2,
+										alignItems: 'center',
+										flexWrap: { xs: 'wrap', sm: 'nowrap' },
+									}}
+								>
+									<ClientSummary client={pair.clients[0]} />
+									<ClientSummary client={pair.clients[1]} />
+									<Button variant="outlined" onClick={() => setMerging(pair)}>
+										Merge
+									</Button>
+								</Box>
+							</CardContent>
+						</Card>
+					))}
+				</Box>
+			)}
+
+			{merges.length > 0 && (
+				<Box>
+					<Typography variant="h6" gutterBottom>
+						Recent Merges
+					</Typography>
+					<List dense>
+						{merges.map((merge) => (
+							<ListItem key={merge.id} disableGutters>
+								<ListItemText
+									primary={`${merge.mergedClientName} merged into ${merge.survivingClientName}`}
+									secondary={format(
+										new Date(merge.mergedAt),
+										'MMM d, yyyy h:mm a'
+									)}
+								/>
+							</ListItem>
+						))}
+					</List>
+				</Box>
+			)}
+
+			{merging && (
+				<ClientMergeDialog
+					open
+					clients={merging.clients}
+					onClose={() => setMerging(null)}
+					onMerged={handleMerged}
+				/>
+			)}
+		</Box>
+	);
+}
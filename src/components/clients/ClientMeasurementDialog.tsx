@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+	Alert,
+	Button,
+	CircularProgress,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	InputAdornment,
+	TextField,
+	ToggleButton,
+	ToggleButtonGroup,
+} from '@mui/material';
+import Grid from '@mui/material/Grid2';
+import { format } from 'date-fns';
+import {
+	createClientMeasurement,
+	updateClientMeasurement,
+} from '@/lib/actions/measurements';
+import {
+	convertMeasurement,
+	type MeasurementField,
+	type MeasurementRecord,
+	type MeasurementUnit,
+} from '@/lib/utils/measurement-calculations';
+
+interface ClientMeasurementDialogProps {
+	open: boolean;
+	clientId: string;
+	fields: MeasurementField[];
+	// Edited when given, otherwise a new record is added
+	record?: MeasurementRecord | null;
+	// Starting values and unit for a new record, usually the latest one's
+	previous?: MeasurementRecord | null;
+	onClose: () => void;
+	onSaved: (record: MeasurementRecord) => void;
+}
+
+function toDraftValues(values: Record<string, number>) {
+	return Object.fromEntries(
+		Object.entries(values).map(([key, value]) => [key, String(value)])
+	);
+}
+
+export default function ClientMeasurementDialog({
+	open,
+	clientId,
+	fields,
+	record,
+	previous,
+	onClose,
+	onSaved,
+}: ClientMeasurementDialogProps) {
+	const [measuredOn, setMeasuredOn] = useState('');
+	const [unit, setUnit] = useState<MeasurementUnit>('in');
+	// Values as typed, by field key
+	const [values, setValues] = useState<Record<string, string>>({});
+	const [notes, setNotes] = useState('');
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!open) return;
+		const source = record ?? previous;
+		setMeasuredOn(record?.measuredOn ?? format(new Date(), 'yyyy-MM-dd'));
+		setUnit(source?.unit ?? 'in');
+		setValues(source ? toDraftValues(source.values) : {});
+		setNotes(record?.notes ?? '');
+		setError(null);
+	}, [open, record, previous]);
+
+	const handleUnitChange = (nextUnit: MeasurementUnit | null) => {
+		if (!nextUnit || nextUnit === unit) return;
+		// Convert what's been typed so switching units doesn't change the sizes
+		setValues((prev) =>
+			Object.fromEntries(
+				Object.entries(prev).map(([key, value]) => {
+					const number = parseFloat(value);
+					return [
+						key,
+						Number.isNaN(number)
+							? value
+							: String(convertMeasurement(number, unit, nextUnit)),
+					];
+				})
+			)
+		);
+		setUnit(nextUnit);
+	};
+
+	const handleSave = async () => {
+		setSaving(true);
+		setError(null);
+
+		const numericValues: Record<string, number> = {};
+		for (const [key, value] of Object.entries(values)) {
+			if (value.trim() === '') continue;
+			numericValues[key] = parseFloat(value);
+		}
+
+		const data = {
+			measuredOn,
+			unit,
+			values: numericValues,
+			...(notes.trim() && { notes }),
+		};
+		const result = record
+			? await updateClientMeasurement(record.id, data)
+			: await createClientMeasurement({ ...data, clientId });
+
+		setSaving(false);
+		if (result.success && result.data) {
+			onSaved(result.data);
+		} else {
+			setError(result.error || 'Failed to save measurements');
+		}
+	};
+
+	return (
+		<Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+			<DialogTitle>
+				{record ? 'Edit Measurements' : 'Add Measurements'}
+			</DialogTitle>
+			<DialogContent>
+				{error && (
+					<Alert severity="error" sx={{ mb: 2 }}>
+						{error}
+					</Alert>
+				)}
+				<Grid container spacing={2} sx={{ mt: 0.5 }}>
+					<Grid size={{ xs: 12, sm: 6 }}>
+						<TextField
+							fullWidth
+							type="date"
+							label="Date taken"
+							value={measuredOn}
+							onChange={(e) => setMeasuredOn(e.target.value)}
+							InputLabelProps={{ shrink: true }}
+						/>
+					</Grid>
+					<Grid size={{ xs: 12, sm: 6 }}>
+						<ToggleButtonGroup
+							exclusive
+							value={unit}
+							onChange={(_, value) => handleUnitChange(value)}
+							aria-label="Unit"
+							sx={{ height: 56 }}
+						>
+							<ToggleButton value="in">Inches</ToggleButton>
+							<ToggleButton value="cm">Centimeters</ToggleButton>
+						</ToggleButtonGroup>
+					</Grid>
+					{fields.map((field) => (
+						<Grid key={field.key} size={{ xs: 6, sm: 4, md: 3 }}>
+							<TextField
+								fullWidth
+								size="small"
+								type="number"
+								label={field.label}
+								value={values[field.key] ?? ''}
+								onChange={(e) =>
+									setValues({ ...values, [field.key]: e.target.value })
+								}
+								inputProps={{ min: 0, step: unit === 'in' ? 0.25 : 0.5 }}
+								InputProps={{
+									endAdornment: (
+										<InputAdornment position="end">{unit}</InputAdornment>
+									),
+								}}
+							/>
+						</Grid>
+					))}
+					<Grid size={12}>
+						<TextField
+							fullWidth
+							multiline
+							rows={2}
+							label="Notes (Optional)"
+							value={notes}
+							onChange={(e) => setNotes(e.target.value)}
+						/>
+					</Grid>
+				</Grid>
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={onClose} disabled={saving}>
+					Cancel
+				</Button>
+				<Button
+					variant="contained"
+					onClick={handleSave}
+					disabled={saving || !measuredOn}
+				>
+					{saving ? <CircularProgress size={24} /> : 'Save'}
+				</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
@@ -0,0 +1,291 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Chip,
+	IconButton,
+	Skeleton,
+	Stack,
+	Tooltip,
+	Typography,
+} from '@mui/material';
+import Grid from '@mui/material/Grid2';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import {
+	deleteClientMeasurement,
+	getClientMeasurements,
+} from '@/lib/actions/measurements';
+import {
+	compareMeasurements,
+	formatMeasurement,
+	type MeasurementChange,
+	type MeasurementField,
+	type MeasurementRecord,
+	type MeasurementUnit,
+} from '@/lib/utils/measurement-calculations';
+import { formatDateSafe } from '@/lib/utils/date-time-utils';
+import { showErrorToast } from '@/lib/utils/toast';
+import ClientMeasurementDialog from './ClientMeasurementDialog';
+
+interface ClientMeasurementsSectionProps {
+	clientId: string;
+	clientName: string;
+}
+
+function describeChange(change: MeasurementChange, unit: MeasurementUnit) {
+	if (change.current === null) return `${change.label} not measured`;
+	if (change.previous === null) {
+		return `${change.label} ${formatMeasurement(change.current, unit)} (new)`;
+	}
+	const sign = change.difference! > 0 ? '+' : '';
+	return `${change.label} ${sign}${formatMeasurement(change.difference!, unit)}`;
+}
+
+function MeasurementRecordCard({
+	record,
+	previous,
+	fields,
+	onEdit,
+	onDelete,
+}: {
+	record: MeasurementRecord;
+	previous: MeasurementRecord | undefined;
+	fields: MeasurementField[];
+	onEdit: () => void;
+	onDelete: () => void;
+}) {
+	const measured = fields.filter(
+		(field) => record.values[field.key] !== undefined
+	);
+	const changes = previous
+		? compareMeasurements(previous, record, fields)
+		: null;
+
+	return (
+		<Card variant="outlined">
+			<CardContent>
+				<Box
+					sx={{
+						display: 'flex',
+						justifyContent: 'space-between',
+						alignItems: 'flex-start',
+						mb: 2,
+					}}
+				>
+					<Box>
+						<Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+							{formatDateSafe(record.measuredOn)}
+						</Typography>
+						{record.notes && (
+							<Typography variant="body2" color="text.secondary">
+								{record.notes}
+							</Typography>
+						)}
+					</Box>
+					<Box>
+						<Tooltip title="Edit">
+							<IconButton
+								size="small"
+								onClick={onEdit}
+								aria-label="Edit measurements"
+							>
+								<EditIcon fontSize="small" />
+							</IconButton>
+						</Tooltip>
+						<Tooltip title="Delete">
+							<IconButton
+								size="small"
+								onClick={onDelete}
+								aria-label="Delete measurements"
+							>
+								<DeleteIcon fontSize="small" />
+							</IconButton>
+						</Tooltip>
+					</Box>
+				</Box>
+
+				{measured.length === 0 ? (
+					<Typography variant="body2" color="text.secondary">
+						No values recorded
+					</Typography>
+				) : (
+					<Grid container spacing={2}>
+						{measured.map((field) => (
+							<Grid key={field.key} size={{ xs: 6, sm: 4, md: 3 }}>
+								<Typography variant="body2" color="text.secondary">
+									{field.label}
+								</Typography>
+								<Typography variant="body1">
+									{formatMeasurement(record.values[field.key]!, record.unit)}
+								</Typography>
+							</Grid>
+						))}
+					</Grid>
+				)}
+
+				{previous && changes && (
+					<Box sx={{ mt: 2 }}>
+						<Typography variant="caption" color="text.secondary">
+							Since {formatDateSafe(previous.measuredOn)}
+						</Typography>
+						<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 0.5 }}>
+							{changes.length === 0 ? (
+								<Typography variant="body2" color="text.secondary">
+									No changes
+								</Typography>
+							) : (
+								changes.map((change) => (
+									<Chip
+										key={change.key}
+										size="small"
+										variant="outlined"
+										label={describeChange(change, record.unit)}
+									/>
+								))
+							)}
+						</Box>
+					</Box>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
+
+/**
+ * The client's measurements over time, newest first, with what changed since
+ * the fitting before
+ */
+export default function ClientMeasurementsSection({
+	clientId,
+	clientName,
+}: ClientMeasurementsSectionProps) {
+	const queryClient = useQueryClient();
+	const queryKey = ['client', clientId, 'measurements'];
+	const [dialogOpen, setDialogOpen] = useState(false);
+	const [editing, setEditing] = useState<MeasurementRecord | null>(null);
+
+	const { data, isLoading, error } = useQuery({
+		queryKey,
+		queryFn: async () => {
+			const result = await getClientMeasurements(clientId);
+			if (!result.success || !result.data) {
+				throw new Error(result.error || 'Failed to load measurements');
+			}
+			return result.data;
+		},
+		staleTime: 30 * 1000,
+		refetchOnWindowFocus: false,
+	});
+
+	const records = data?.records ?? [];
+	const fields = data?.fields ?? [];
+
+	const openDialog = (record: MeasurementRecord | null) => {
+		setEditing(record);
+		setDialogOpen(true);
+	};
+
+	const handleSaved = () => {
+		setDialogOpen(false);
+		setEditing(null);
+		queryClient.invalidateQueries({ queryKey });
+	};
+
+	const handleDelete = async (record: MeasurementRecord) => {
+		if (
+			!window.confirm(
+				`Delete the measurements from ${formatDateSafe(record.measuredOn)}? Garments they were attached to keep their copy.`
+			)
+		) {
+			return;
+		}
+		const result = await deleteClientMeasurement(record.id);
+		if (result.success) {
+			queryClient.invalidateQueries({ queryKey });
+		} else {
+			showErrorToast(result.error || 'Failed to delete measurements');
+		}
+	};
+
+	return (
+		<Box>
+			<Box
+				sx={{
+					display: 'flex',
+					justifyContent: 'space-between',
+					alignItems: 'center',
+					mb: 3,
+				}}
+			>
+				<Typography variant="h6">Measurements</Typography>
+				<Button
+					variant="contained"
+					size="small"
+					startIcon={<AddIcon />}
+					onClick={() => openDialog(null)}
+					disabled={isLoading || !!error}
+				>
+					Add Measurements
+				</Button>
+			</Box>
+
+			{isLoading ? (
+				<Stack spacing={2}>
+					{Array.from({ length: 2 }).map((_, index) => (
+						<Skeleton
+							key={index}
+							variant="rectangular"
+							height={120}
+							sx={{ borderRadius: 1 }}
+						/>
+					))}
+				</Stack>
+			) : error ? (
+				<Alert severity="error">
+					{error instanceof Error
+						? error.message
+						: 'Failed to load measurements'}
+				</Alert>
+			) : records.length === 0 ? (
+				<Typography
+					variant="body2"
+					color="text.secondary"
+					sx={{ py: 4, textAlign: 'center' }}
+				>
+					No measurements yet for {clientName}
+				</Typography>
+			) : (
+				<Stack spacing={2}>
+					{records.map((record, index) => (
+						<MeasurementRecordCard
+							key={record.id}
+							record={record}
+							previous={records[index + 1]}
+							fields={fields}
+							onEdit={() => openDialog(record)}
+							onDelete={() => handleDelete(record)}
+						/>
+					))}
+				</Stack>
+			)}
+
+			<ClientMeasurementDialog
+				open={dialogOpen}
+				clientId={clientId}
+				fields={fields}
+				record={editing}
+				previous={records[0] ?? null}
+				onClose={() => setDialogOpen(false)}
+				onSaved={handleSaved}
+			/>
+		</Box>
+	);
+}
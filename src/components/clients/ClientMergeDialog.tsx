@@ -0,0 +1,169 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+	Alert,
+	Box,
+	Button,
+	CircularProgress,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	FormControlLabel,
+	Radio,
+	RadioGroup,
+	Typography,
+} from '@mui/material';
+import {
+	getClientMergePreview,
+	mergeClients,
+	type ClientMergePreview,
+	type DuplicateClient,
+} from '@/lib/actions/client-merge';
+import { formatCentsAsCurrency } from '@/lib/utils/currency';
+import { formatPhoneNumber } from '@/lib/utils/phone';
+
+interface ClientMergeDialogProps {
+	open: boolean;
+	// Older record first; it's kept unless the user picks the other one
+	clients: [DuplicateClient, DuplicateClient];
+	onClose: () => void;
+	onMerged: (mergedClientId: string) => void;
+}
+
+function clientName(client: DuplicateClient) {
+	return `${client.first_name} ${client.last_name}`;
+}
+
+export default function ClientMergeDialog({
+	open,
+	clients,
+	onClose,
+	onMerged,
+}: ClientMergeDialogProps) {
+	const [keepId, setKeepId] = useState(clients[0].id);
+	const [preview, setPreview] = useState<ClientMergePreview | null>(null);
+	const [loading, setLoading] = useState(false);
+	const [merging, setMerging] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const keep = clients.find((c) => c.id === keepId) ?? clients[0];
+	const merge = clients.find((c) => c.id !== keep.id) ?? clients[1];
+
+	useEffect(() => {
+		if (!open) return;
+		let cancelled = false;
+
+		setLoading(true);
+		setError(null);
+		setPreview(null);
+		getClientMergePreview(keep.id, merge.id).then((result) => {
+			if (cancelled) return;
+			if (result.success && result.data) {
+				setPreview(result.data);
+			} else {
+				setError(result.error || 'Failed to check these clients');
+			}
+			setLoading(false);
+		});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [open, keep.id, merge.id]);
+
+	const handleMerge = async () => {
+		setMerging(true);
+		setError(null);
+
+		const result = await mergeClients(keep.id, merge.id);
+		if (result.success) {
+			onMerged(merge.id);
+		} else {
+			setError(result.error || 'Failed to merge clients');
+		}
+		setMerging(false);
+	};
+
+	const moving = preview?.moving;
+
+	return (
+		<Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+			<DialogTitle>Merge Clients</DialogTitle>
+			<DialogContent>
+				<Typography variant="body2" sx={{ mb: 1 }}>
+					Which record should be kept?
+				</Typography>
+				<RadioGroup value={keepId} onChange={(e) => setKeepId(e.target.value)}>
+					{clients.map((client) => (
+						<FormControlLabel
+							key={client.id}
+							value={client.id}
+							control={<Radio />}
+							label={
+								<Box>
+									<Typography variant="body1">{clientName(client)}</Typography>
+									<Typography variant="body2" color="text.secondary">
+										{[client.email, formatPhoneNumber(client.phone_number)]
+											.filter(Boolean)
+											.join(' · ')}
+									</Typography>
+								</Box>
+							}
+							sx={{ mb: 1 }}
+						/>
+					))}
+				</RadioGroup>
+
+				{loading && (
+					<Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+						<CircularProgress size={24} />
+					</Box>
+				)}
+
+				{moving && preview && (
+					<Box sx={{ mt: 1 }}>
+						<Typography variant="body2" sx={{ mb: 1 }}>
+							{moving.orders} orders, {moving.invoices} invoices,{' '}
+							{moving.payments} payments and {moving.appointments} appointments
+							move from {clientName(merge)} to {clientName(keep)}.{' '}
+							{clientName(merge)} is then archived.
+						</Typography>
+						<Typography variant="body2" color="text.secondary">
+							Outstanding balance after merging:{' '}
+							{formatCentsAsCurrency(preview.balanceCents.combined)} (
+							{formatCentsAsCurrency(preview.balanceCents.surviving)} +{' '}
+							{formatCentsAsCurrency(preview.balanceCents.merged)})
+						</Typography>
+						{preview.blockers.map((blocker) => (
+							<Alert key={blocker} severity="warning" sx={{ mt: 2 }}>
+								{blocker}
+							</Alert>
+						))}
+					</Box>
+				)}
+
+				{error && (
+					<Alert severity="error" sx={{ mt: 2 }}>
+						{error}
+					</Alert>
+				)}
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={onClose} disabled={merging}>
+					Cancel
+				</Button>
+				<Button
+					variant="contained"
+					onClick={handleMerge}
+					disabled={
+						merging || loading || !preview || preview.blockers.length > 0
+					}
+				>
+					{merging ? <CircularProgress size={24} /> : 'Merge'}
+				</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
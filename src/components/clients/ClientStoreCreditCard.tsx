@@ -0,0 +1,241 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	CircularProgress,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	Divider,
+	InputAdornment,
+	List,
+	ListItem,
+	ListItemText,
+	TextField,
+	Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import RedeemIcon from '@mui/icons-material/Redeem';
+import {
+	getClientStoreCredit,
+	issueClientCredit,
+	type ClientStoreCredit,
+} from '@/lib/actions/store-credit';
+import { dollarsToCents } from '@/lib/utils/currency';
+import { formatCurrency, formatDate } from '@/lib/utils/formatting';
+import {
+	STORE_CREDIT_ENTRY_LABELS,
+	type StoreCreditEntryType,
+} from '@/lib/utils/store-credit';
+import { useToast } from '@/hooks/useToast';
+
+interface ClientStoreCreditCardProps {
+	clientId: string;
+}
+
+/**
+ * The client's store credit balance and ledger, with a way to add credit
+ */
+export default function ClientStoreCreditCard({
+	clientId,
+}: ClientStoreCreditCardProps) {
+	const [credit, setCredit] = useState<ClientStoreCredit | null>(null);
+	const [dialogOpen, setDialogOpen] = useState(false);
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [amount, setAmount] = useState('');
+	const [reason, setReason] = useState('');
+	const [expiresOn, setExpiresOn] = useState('');
+	const { showToast } = useToast();
+
+	const loadCredit = useCallback(async () => {
+		const result = await getClientStoreCredit(clientId);
+		if (result.success && result.data) {
+			setCredit(result.data);
+		}
+	}, [clientId]);
+
+	useEffect(() => {
+		loadCredit();
+	}, [loadCredit]);
+
+	const handleOpen = () => {
+		setAmount('');
+		setReason('');
+		setExpiresOn('');
+		setError(null);
+		setDialogOpen(true);
+	};
+
+	const handleSave = async () => {
+		setSaving(true);
+		setError(null);
+
+		const result = await issueClientCredit({
+			clientId,
+			amountCents: dollarsToCents(parseFloat(amount) || 0),
+			reason,
+			// Credit lasts until the end of its expiry day
+			expiresAt: expiresOn
+				? new Date(`${expiresOn}T23:59:59`).toISOString()
+				: null,
+		});
+
+		if (result.success) {
+			showToast('Store credit added', 'success');
+			setDialogOpen(false);
+			await loadCredit();
+		} else {
+			setError(result.error || 'Failed to add store credit');
+		}
+		setSaving(false);
+	};
+
+	return (
+		<Card elevation={2}>
+			<CardContent>
+				<Box
+					sx={{
+						display: 'flex',
+						alignItems: 'center',
+						justifyContent: 'space-between',
+						mb: 1,
+					}}
+				>
+					<Typography
+						variant="h6"
+						sx={{
+							fontSize: '1rem',
+							display: 'flex',
+							alignItems: 'center',
+							gap: 1,
+						}}
+					>
+						<RedeemIcon color="primary" />
+						Store Credit
+					</Typography>
+					<Button
+						variant="outlined"
+						size="small"
+						startIcon={<AddIcon />}
+						onClick={handleOpen}
+					>
+						Add Credit
+					</Button>
+				</Box>
+				<Divider sx={{ mb: 2 }} />
+
+				{credit === null ? (
+					<Box sx={{ display: 'flex', justifyContent: 'center', py: 1 }}>
+						<CircularProgress size={24} />
+					</Box>
+				) : (
+					<>
+						<Typography variant="h5" sx={{ fontWeight: 600 }}>
+							{formatCurrency(credit.balanceCents)}
+						</Typography>
+						<Typography variant="body2" color="text.secondary">
+							Available to apply to invoices
+						</Typography>
+
+						{credit.entries.length > 0 && (
+							<List dense disablePadding sx={{ mt: 1 }}>
+								{credit.entries.map((entry) => (
+									<ListItem key={entry.id} disableGutters>
+										<ListItemText
+											primary={
+												entry.reason ||
+												STORE_CREDIT_ENTRY_LABELS[
+													entry.entry_type as StoreCreditEntryType
+												]
+											}
+											secondary={
+												formatDate(entry.created_at) +
+												(entry.entry_type === 'issue' && entry.expires_at
+													? ` · expires ${formatDate(entry.expires_at)}`
+													: '')
+											}
+										/>
+										<Typography
+											variant="body2"
+											sx={{ fontWeight: 500, ml: 1, whiteSpace: 'nowrap' }}
+											color={
+												entry.amount_cents > 0 ? 'success.main' : 'text.primary'
+											}
+										>
+											{entry.amount_cents > 0 ? '+' : '−'}
+											{formatCurrency(Math.abs(entry.amount_cents))}
+										</Typography>
+									</ListItem>
+								))}
+							</List>
+						)}
+					</>
+				)}
+			</CardContent>
+
+			<Dialog
+				open={dialogOpen}
+				onClose={() => setDialogOpen(false)}
+				maxWidth="xs"
+				fullWidth
+			>
+				<DialogTitle>Add Store Credit</DialogTitle>
+				<DialogContent>
+					{error && (
+						<Alert severity="error" sx={{ mb: 2 }}>
+							{error}
+						</Alert>
+					)}
+					<Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+						<TextField
+							label="Amount"
+							type="number"
+							value={amount}
+							onChange={(e) => setAmount(e.target.value)}
+							inputProps={{ min: 0.01, step: 0.01 }}
+							InputProps={{
+								startAdornment: (
+									<InputAdornment position="start">$</InputAdornment>
+								),
+							}}
+							required
+						/>
+						<TextField
+							label="Reason"
+							value={reason}
+							onChange={(e) => setReason(e.target.value)}
+							placeholder="e.g., Apology for a late order"
+							required
+						/>
+						<TextField
+							label="Expires On (Optional)"
+							type="date"
+							value={expiresOn}
+							onChange={(e) => setExpiresOn(e.target.value)}
+							InputLabelProps={{ shrink: true }}
+						/>
+					</Box>
+				</DialogContent>
+				<DialogActions>
+					<Button onClick={() => setDialogOpen(false)} disabled={saving}>
+						Cancel
+					</Button>
+					<Button
+						variant="contained"
+						onClick={handleSave}
+						disabled={saving || !amount || !reason.trim()}
+					>
+						{saving ? <CircularProgress size={24} /> : 'Add Credit'}
+					</Button>
+				</DialogActions>
+			</Dialog>
+		</Card>
+	);
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+	Alert,
+	Box,
+	Button,
+	Chip,
+	CircularProgress,
+	Skeleton,
+	TextField,
+	Typography,
+} from '@mui/material';
+import {
+	createMeasurementField,
+	deleteMeasurementField,
+	getMeasurementFields,
+} from '@/lib/actions/measurements';
+import type { MeasurementField } from '@/lib/utils/measurement-calculations';
+
+/**
+ * The shop's own measurement fields, recorded alongside the standard ones
+ */
+export function MeasurementFieldsSettings() {
+	const [loading, setLoading] = useState(true);
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [fields, setFields] = useState<MeasurementField[]>([]);
+	const [label, setLabel] = useState('');
+
+	useEffect(() => {
+		async function loadFields() {
+			const result = await getMeasurementFields();
+			if (result.success && result.data) {
+				setFields(result.data);
+			} else {
+				setError(result.error || 'Failed to load measurement fields');
+			}
+			setLoading(false);
+		}
+		loadFields();
+	}, []);
+
+	const handleAdd = async () => {
+		setError(null);
+		setSaving(true);
+
+		const result = await createMeasurementField(label);
+		if (result.success && result.data) {
+			setFields((prev) => [...prev, result.data!]);
+			setLabel('');
+		} else {
+			setError(result.error || 'Failed to add measurement field');
+		}
+		setSaving(false);
+	};
+
+	const handleDelete = async (field: MeasurementField) => {
+		if (
+			!window.confirm(
+				`Remove the "${field.label}" field? Values already recorded for it will no longer be shown.`
+			)
+		) {
+			return;
+		}
+		setError(null);
+
+		const result = await deleteMeasurementField(field.key);
+		if (result.success) {
+			setFields((prev) => prev.filter((f) => f.key !== field.key));
+		} else {
+			setError(result.error || 'Failed to remove measurement field');
+		}
+	};
+
+	if (loading) {
+		return (
+			<Box>
+				<Skeleton variant="text" width={180} height={28} sx={{ mb: 2 }} />
+				<Skeleton
+					variant="rectangular"
+					width="100%"
+					height={40}
+					sx={{ borderRadius: 1 }}
+				/>
+			</Box>
+		);
+	}
+
+	return (
+		<Box>
+			<Typography variant="h6" gutterBottom>
+				Measurement Fields
+			</Typography>
+			<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+				Client measurements include the standard fields below. Add your own for
+				anything else you measure.
+			</Typography>
+
+			{error && (
+				<Alert severity="error" sx={{ mb: 2 }}>
+					{error}
+				</Alert>
+			)}
+
+			<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+				{fields.map((field) =>
+					field.custom ? (
+						<Chip
+							key={field.key}
+							label={field.label}
+							color="primary"
+							variant="outlined"
+							onDelete={() => handleDelete(field)}
+						/>
+					) : (
+						<Chip key={field.key} label={field.label} />
+					)
+				)}
+			</Box>
+
+			<Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+				<TextField
+					size="small"
+					label="New field"
+					placeholder="e.g. Wrist"
+					value={label}
+					onChange={(e) => setLabel(e.target.value)}
+					sx={{ width: 240 }}
+				/>
+				<Button
+					variant="contained"
+					onClick={handleAdd}
+					disabled={saving || !label.trim()}
+				>
+					{saving ? <CircularProgress size={24} /> : 'Add Field'}
+				</Button>
+			</Box>
+		</Box>
+	);
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import {
+	Box,
+	Button,
+	CircularProgress,
+	Paper,
+	Stack,
+	Typography,
+} from '@mui/material';
+
+interface BulkActionBarProps {
+	count: number;
+	// How many could be selected; offers "Select All" while count is lower
+	total?: number;
+	noun: string;
+	busy?: boolean;
+	onSelectAll?: () => void;
+	onClear: () => void;
+	children: ReactNode;
+}
+
+/**
+ * Sticks to the bottom of the screen while items are selected and holds the
+ * actions that apply to all of them
+ */
+export function BulkActionBar({
+	count,
+	total,
+	noun,
+	busy = false,
+	onSelectAll,
+	onClear,
+	children,
+}: BulkActionBarProps) {
+	if (count === 0) return null;
+
+	return (
+		<Paper
+			elevation={6}
+			role="toolbar"
+			aria-label="Bulk actions"
+			sx={{
+				position: 'sticky',
+				bottom: 16,
+				zIndex: (theme) => theme.zIndex.appBar,
+				mt: 3,
+				px: 2,
+				py: 1.5,
+				display: 'flex',
+				flexWrap: 'wrap',
+				alignItems: 'center',
+				gap: 2,
+			}}
+		>
+			<Typography variant="subtitle1" sx={{ mr: 'auto' }}>
+				{count} {noun}
+				{count === 1 ? '' : 's'} selected
+			</Typography>
+			{busy && <CircularProgress size={20} />}
+			<Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+				{children}
+			</Stack>
+			<Box>
+				{onSelectAll && total !== undefined && count < total && (
+					<Button onClick={onSelectAll} disabled={busy}>
+						Select All ({total})
+					</Button>
+				)}
+				<Button onClick={onClear} disabled={busy}>
+					Clear
+				</Button>
+			</Box>
+		</Paper>
+	);
+}
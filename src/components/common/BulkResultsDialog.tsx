@@ -0,0 +1,62 @@
+'use client';
+
+import {
+	Alert,
+	Button,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	List,
+	ListItem,
+	ListItemText,
+} from '@mui/material';
+import type { BulkItemResult } from '@/lib/actions/bulk-actions';
+
+interface BulkResultsDialogProps {
+	open: boolean;
+	title: string;
+	results: BulkItemResult[];
+	// What to call each item, by id
+	labels: Record<string, string>;
+	onClose: () => void;
+}
+
+/**
+ * Which items of a bulk action went through and why the others didn't
+ */
+export function BulkResultsDialog({
+	open,
+	title,
+	results,
+	labels,
+	onClose,
+}: BulkResultsDialogProps) {
+	const failed = results.filter((result) => !result.success);
+	const succeeded = results.length - failed.length;
+
+	return (
+		<Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+			<DialogTitle>{title}</DialogTitle>
+			<DialogContent>
+				<Alert severity={succeeded > 0 ? 'warning' : 'error'} sx={{ mb: 2 }}>
+					{succeeded} of {results.length} done. {failed.length} didn&apos;t go
+					through and are still selected.
+				</Alert>
+				<List dense disablePadding>
+					{failed.map((result) => (
+						<ListItem key={result.id} disableGutters>
+							<ListItemText
+								primary={labels[result.id] || result.id}
+								secondary={result.error}
+							/>
+						</ListItem>
+					))}
+				</List>
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={onClose}>Close</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
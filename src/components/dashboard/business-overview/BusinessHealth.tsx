@@ -40,6 +40,8 @@ interface BusinessHealthProps {
 	rolling30DayRevenue?: number;
 	previous30DayRevenue?: number;
 	rolling30DayComparison?: number;
+	currentMonthTipsCents?: number | undefined;
+	rolling30DayTipsCents?: number | undefined;
 
 	onViewFinances?: () => void;
 	loading?: boolean;
@@ -74,6 +76,8 @@ export function BusinessHealth({
 	rolling30DayRevenue = 0,
 	previous30DayRevenue = 0,
 	rolling30DayComparison = 0,
+	currentMonthTipsCents = 0,
+	rolling30DayTipsCents = 0,
 
 	onViewFinances,
 	loading = false,
@@ -105,6 +109,8 @@ export function BusinessHealth({
 		viewMode === 'mtd' ? lastMonthRevenueCents : previous30DayRevenue;
 	const comparison =
 		viewMode === 'mtd' ? monthlyRevenueComparison : rolling30DayComparison;
+	const tipsCents =
+		viewMode === 'mtd' ? currentMonthTipsCents : rolling30DayTipsCents;
 	const periodLabel =
 		viewMode === 'mtd' ? currentPeriodLabel : rolling30DayLabel;
 	const comparisonLabel =
@@ -272,6 +278,15 @@ export function BusinessHealth({
 						vs {loading ? '...' : formatCurrency(previousRevenueCents)} (
 						{loading ? 'comparison period' : comparisonLabel})
 					</Typography>
+
+					{!loading && tipsCents > 0 && (
+						<Typography
+							variant="caption"
+							sx={{ color: refinedColors.text.secondary, display: 'block' }}
+						>
+							Plus {formatCurrency(tipsCents)} in tips
+						</Typography>
+					)}
 				</Box>
 
 				{/* Unpaid Balance Section - conditionally rendered */}
@@ -0,0 +1,109 @@
+'use client';
+
+import Link from 'next/link';
+import {
+	Box,
+	Card,
+	CardContent,
+	LinearProgress,
+	Stack,
+	Typography,
+} from '@mui/material';
+import dayjs from 'dayjs';
+import type { CapacityPlan } from '@/lib/actions/capacity';
+import { buildWeeklyWorkload } from '@/lib/utils/capacity-planning';
+
+const WEEKS_SHOWN = 4;
+
+interface WeeklyWorkloadProps {
+	plan: CapacityPlan;
+}
+
+function formatHours(minutes: number) {
+	const hours = minutes / 60;
+	return `${Number.isInteger(hours) ? hours : hours.toFixed(1)}h`;
+}
+
+/**
+ * Estimated hours of work due each week against the shop's working hours
+ */
+export function WeeklyWorkload({ plan }: WeeklyWorkloadProps) {
+	const weeks = buildWeeklyWorkload(
+		plan.queue,
+		plan.dailyCapacityMinutes,
+		plan.today,
+		WEEKS_SHOWN
+	);
+
+	return (
+		<Card elevation={0} sx={{ border: '1px solid #e0e0e0' }}>
+			<CardContent sx={{ p: 3 }}>
+				<Typography variant="h6" sx={{ mb: 1, fontWeight: 600 }}>
+					Weekly Workload
+				</Typography>
+				<Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+					Estimated hours of work due each week against your working hours.
+				</Typography>
+
+				<Stack spacing={2}>
+					{weeks.map((week, index) => {
+						const percent =
+							week.capacityMinutes > 0
+								? Math.min(
+										100,
+										(week.bookedMinutes / week.capacityMinutes) * 100
+									)
+								: week.bookedMinutes > 0
+									? 100
+									: 0;
+
+						return (
+							<Box key={week.weekStart}>
+								<Box
+									sx={{
+										display: 'flex',
+										justifyContent: 'space-between',
+										mb: 0.5,
+									}}
+								>
+									<Typography variant="body2" sx={{ fontWeight: 500 }}>
+										{index === 0
+											? 'This week'
+											: `${dayjs(week.weekStart).format('MMM D')} – ${dayjs(week.weekEnd).format('MMM D')}`}
+									</Typography>
+									<Typography
+										variant="body2"
+										color={week.overloaded ? 'error' : 'text.secondary'}
+									>
+										{formatHours(week.bookedMinutes)} booked /{' '}
+										{formatHours(week.capacityMinutes)} available
+									</Typography>
+								</Box>
+								<LinearProgress
+									variant="determinate"
+									value={percent}
+									color={week.overloaded ? 'error' : 'primary'}
+									sx={{ height: 8, borderRadius: 4 }}
+								/>
+							</Box>
+						);
+					})}
+				</Stack>
+
+				{plan.unestimatedServiceCount > 0 && (
+					<Typography
+						variant="caption"
+						color="text.secondary"
+						sx={{ display: 'block', mt: 2 }}
+					>
+						{plan.unestimatedServiceCount} open service
+						{plan.unestimatedServiceCount === 1 ? ' has' : 's have'} no time
+						estimate and{' '}
+						{plan.unestimatedServiceCount === 1 ? "isn't" : "aren't"} counted.
+						Add estimates on the <Link href="/services">Services</Link> page.
+					</Typography>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
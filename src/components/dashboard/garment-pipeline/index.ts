@@ -6,3 +6,4 @@ export { ActiveGarmentItem } from './ActiveGarmentItem';
 export { ReadyForPickupSection } from './ReadyForPickupSection';
 export { ReadyForPickupSectionClient } from './ReadyForPickupSectionClient';
 export { ReadyForPickupItem } from './ReadyForPickupItem';
+export { WeeklyWorkload } from './WeeklyWorkload';
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useMemo } from 'react';
-import { Stack, Card, CardContent, Typography } from '@mui/material';
+import { Stack, Card, CardContent, Typography, Button } from '@mui/material';
 import { NextAppointmentCard } from './NextAppointmentCard';
 import { TodaySchedule } from './TodaySchedule';
 import { WeekOverview } from './WeekOverview';
@@ -36,6 +36,8 @@ interface AppointmentsFocusProps {
     buffer_time_minutes: number;
     default_appointment_duration: number;
   };
+  // Clients waiting for an opening
+  waitlistCount?: number;
 }
 
 export function AppointmentsFocus({
@@ -48,6 +50,7 @@ export function AppointmentsFocus({
     buffer_time_minutes: 0,
     default_appointment_duration: 30,
   },
+  waitlistCount = 0,
 }: AppointmentsFocusProps) {
   const router = useRouter();
   const { updateAppointment } = useAppointments();
@@ -108,9 +111,23 @@ export function AppointmentsFocus({
       {/* Next Appointment Card */}
       <Card elevation={0} sx={{ border: '1px solid #e0e0e0' }}>
         <CardContent>
-          <Typography variant="h6" sx={{ mb: 3, fontWeight: 600 }}>
-            Appointments
-          </Typography>
+          <Stack
+            direction="row"
+            justifyContent="space-between"
+            alignItems="center"
+            sx={{ mb: 3 }}
+          >
+            <Typography variant="h6" sx={{ fontWeight: 600 }}>
+              Appointments
+            </Typography>
+            <Button
+              size="small"
+              data-testid="waitlist-count"
+              onClick={() => router.push('/appointments?waitlist=open')}
+            >
+              {waitlistCount} on waitlist
+            </Button>
+          </Stack>
 
           <NextAppointmentCard
             appointment={displayAppointment}
@@ -7,6 +7,7 @@ import {
 } from '@/lib/actions/dashboard';
 import { getShopHours } from '@/lib/actions/shop-hours';
 import { getCalendarSettings } from '@/lib/actions/calendar-settings';
+import { getWaitlistCount } from '@/lib/actions/waitlist';
 import { AppointmentsFocus } from './AppointmentsFocus';
 import { AppointmentsFocusLoading } from './AppointmentsFocusLoading';
 
@@ -19,6 +20,7 @@ async function AppointmentsFocusData() {
       weekSummaryStats,
       shopHours,
       calendarSettings,
+      waitlistCount,
     ] = await Promise.all([
       getNextAppointment(),
       getTodayAppointmentsDetailed(),
@@ -26,6 +28,7 @@ async function AppointmentsFocusData() {
       getWeekSummaryStats(),
       getShopHours(),
       getCalendarSettings(),
+      getWaitlistCount(),
     ]);
 
     // Transform shop hours to match expected type
@@ -51,6 +54,7 @@ async function AppointmentsFocusData() {
         weekSummaryStats={weekSummaryStats}
         shopHours={transformedShopHours}
         calendarSettings={transformedCalendarSettings}
+        waitlistCount={waitlistCount}
       />
     );
   } catch (error) {
@@ -215,4 +215,12 @@ describe('AppointmentsFocus - Rescheduling', () => {
       });
     });
   });
+
+  it('should show the waitlist size', () => {
+    renderWithProviders({ waitlistCount: 3 });
+
+    expect(screen.getByTestId('waitlist-count')).toHaveTextContent(
+      '3 on waitlist'
+    );
+  });
 });
@@ -0,0 +1,35 @@
+'use client';
+
+import { Box, Button, Typography } from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+import { EXPORT_KINDS, EXPORT_LABELS } from '@/lib/utils/data-export';
+
+/**
+ * CSV downloads of the shop's data
+ */
+export function DataExportSettings() {
+	return (
+		<Box>
+			<Typography variant="h6" gutterBottom>
+				Export
+			</Typography>
+			<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+				Download your shop&apos;s data as CSV files that open in any spreadsheet
+				app.
+			</Typography>
+			<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+				{EXPORT_KINDS.map((kind) => (
+					<Button
+						key={kind}
+						variant="outlined"
+						startIcon={<DownloadIcon />}
+						href={`/api/export/${kind}`}
+						download
+					>
+						{EXPORT_LABELS[kind]}
+					</Button>
+				))}
+			</Box>
+		</Box>
+	);
+}
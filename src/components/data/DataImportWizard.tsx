@@ -0,0 +1,390 @@
+'use client';
+
+import { useState } from 'react';
+import {
+	Alert,
+	Box,
+	Button,
+	Chip,
+	CircularProgress,
+	FormControl,
+	InputLabel,
+	MenuItem,
+	Select,
+	Step,
+	StepLabel,
+	Stepper,
+	Table,
+	TableBody,
+	TableCell,
+	TableContainer,
+	TableHead,
+	TableRow,
+	ToggleButton,
+	ToggleButtonGroup,
+	Typography,
+} from '@mui/material';
+import Grid from '@mui/material/Grid2';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import DownloadIcon from '@mui/icons-material/Download';
+import { importClients, importServices } from '@/lib/actions/data-import';
+import type { ImportResult } from '@/lib/actions/data-import';
+import { parseCsv } from '@/lib/utils/csv';
+import {
+	IMPORT_FIELDS,
+	MAX_IMPORT_ROWS,
+	applyColumnMapping,
+	buildImportErrorReport,
+	getMissingMappings,
+	guessColumnMapping,
+	type ColumnMapping,
+	type ImportKind,
+	type ImportRowStatus,
+} from '@/lib/utils/csv-import';
+
+const STEPS = ['Upload', 'Match columns', 'Review', 'Done'];
+
+// Rows shown in the review table
+const PREVIEW_ROWS = 100;
+
+const STATUS_CHIPS: Record<
+	ImportRowStatus,
+	{ label: string; color: 'success' | 'warning' | 'error' }
+> = {
+	ready: { label: 'Ready', color: 'success' },
+	duplicate: { label: 'Duplicate', color: 'warning' },
+	invalid: { label: 'Invalid', color: 'error' },
+};
+
+function downloadCsv(filename: string, csv: string) {
+	const url = URL.createObjectURL(
+		new Blob([csv], { type: 'text/csv;charset=utf-8' })
+	);
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = filename;
+	link.click();
+	URL.revokeObjectURL(url);
+}
+
+/**
+ * Imports clients or services from a spreadsheet: upload, match columns,
+ * check every row, then import the ones that passed
+ */
+export function DataImportWizard() {
+	const [step, setStep] = useState(0);
+	const [kind, setKind] = useState<ImportKind>('clients');
+	const [fileName, setFileName] = useState('');
+	const [headers, setHeaders] = useState<string[]>([]);
+	const [rows, setRows] = useState<string[][]>([]);
+	const [mapping, setMapping] = useState<ColumnMapping>({});
+	const [checked, setChecked] = useState<ImportResult<unknown> | null>(null);
+	const [imported, setImported] = useState(0);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const fields = IMPORT_FIELDS[kind];
+	const missing = getMissingMappings(kind, mapping);
+
+	const reset = () => {
+		setStep(0);
+		setFileName('');
+		setHeaders([]);
+		setRows([]);
+		setMapping({});
+		setChecked(null);
+		setImported(0);
+		setError(null);
+	};
+
+	const handleFile = async (file: File) => {
+		setError(null);
+		const [header, ...data] = parseCsv(await file.text());
+
+		if (!header || data.length === 0) {
+			setError('That file has no rows to import.');
+			return;
+		}
+		if (data.length > MAX_IMPORT_ROWS) {
+			setError(
+				`That file has ${data.length} rows. Split it into files of up to ${MAX_IMPORT_ROWS} rows.`
+			);
+			return;
+		}
+
+		setFileName(file.name);
+		setHeaders(header.map((h) => h.trim()));
+		setRows(data);
+		setMapping(guessColumnMapping(kind, header));
+		setStep(1);
+	};
+
+	const runImport = (dryRun: boolean) => {
+		const records = applyColumnMapping(rows, mapping);
+		return kind === 'clients'
+			? importClients(records, { dryRun })
+			: importServices(records, { dryRun });
+	};
+
+	const handleCheck = async () => {
+		setLoading(true);
+		setError(null);
+
+		const result = await runImport(true);
+		if (result.success && result.data) {
+			setChecked(result.data);
+			setStep(2);
+		} else {
+			setError(result.error || 'Failed to check the file');
+		}
+		setLoading(false);
+	};
+
+	const handleImport = async () => {
+		setLoading(true);
+		setError(null);
+
+		const result = await runImport(false);
+		if (result.success && result.data) {
+			// Rows can change status if records were added since the check
+			setChecked(result.data);
+			setImported(result.data.imported);
+			setStep(3);
+		} else {
+			setError(result.error || 'Failed to import');
+		}
+		setLoading(false);
+	};
+
+	const handleDownloadReport = () => {
+		if (!checked) return;
+		downloadCsv(
+			`${fileName.replace(/\.csv$/i, '')}-problems.csv`,
+			buildImportErrorReport(kind, checked.results)
+		);
+	};
+
+	const problemCount = checked
+		? checked.summary.duplicate + checked.summary.invalid
+		: 0;
+
+	return (
+		<Box>
+			<Typography variant="h6" gutterBottom>
+				Import
+			</Typography>
+			<Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+				Bring in clients or services from a spreadsheet saved as CSV. Nothing is
+				saved until you&apos;ve reviewed the rows.
+			</Typography>
+
+			<Stepper activeStep={step} alternativeLabel sx={{ mb: 3 }}>
+				{STEPS.map((label) => (
+					<Step key={label}>
+						<StepLabel>{label}</StepLabel>
+					</Step>
+				))}
+			</Stepper>
+
+			{error && (
+				<Alert severity="error" sx={{ mb: 2 }}>
+					{error}
+				</Alert>
+			)}
+
+			{step === 0 && (
+				<Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+					<ToggleButtonGroup
+						value={kind}
+						exclusive
+						size="small"
+						onChange={(_, value) => value && setKind(value)}
+					>
+						<ToggleButton value="clients">Clients</ToggleButton>
+						<ToggleButton value="services">Services</ToggleButton>
+					</ToggleButtonGroup>
+					<Button
+						variant="contained"
+						component="label"
+						startIcon={<UploadFileIcon />}
+					>
+						Choose CSV File
+						<input
+							type="file"
+							accept=".csv,text/csv"
+							hidden
+							onChange={(e) => {
+								const file = e.target.files?.[0];
+								if (file) handleFile(file);
+								e.target.value = '';
+							}}
+						/>
+					</Button>
+				</Box>
+			)}
+
+			{step === 1 && (
+				<Box>
+					<Typography variant="body2" sx={{ mb: 2 }}>
+						{fileName}: {rows.length} rows. Pick the column that holds each
+						field.
+					</Typography>
+					<Grid container spacing={2}>
+						{fields.map((field) => (
+							<Grid key={field.key} size={{ xs: 12, sm: 6 }}>
+								<FormControl fullWidth size="small">
+									<InputLabel>
+										{field.label}
+										{field.required ? ' *' : ''}
+									</InputLabel>
+									<Select
+										value={mapping[field.key] ?? ''}
+										label={`${field.label}${field.required ? ' *' : ''}`}
+										onChange={(e) =>
+											setMapping((prev) => ({
+												...prev,
+												[field.key]:
+													e.target.value === '' ? null : Number(e.target.value),
+											}))
+										}
+									>
+										<MenuItem value="">Don&apos;t import</MenuItem>
+										{headers.map((header, index) => (
+											<MenuItem key={index} value={index}>
+												{header || `Column ${index + 1}`}
+											</MenuItem>
+										))}
+									</Select>
+								</FormControl>
+							</Grid>
+						))}
+					</Grid>
+					{missing.length > 0 && (
+						<Alert severity="info" sx={{ mt: 2 }}>
+							Choose a column for {missing.map((f) => f.label).join(', ')}.
+						</Alert>
+					)}
+					<Box sx={{ display: 'flex', gap: 1, mt: 3 }}>
+						<Button onClick={reset}>Start Over</Button>
+						<Button
+							variant="contained"
+							onClick={handleCheck}
+							disabled={loading || missing.length > 0}
+						>
+							{loading ? <CircularProgress size={24} /> : 'Check Rows'}
+						</Button>
+					</Box>
+				</Box>
+			)}
+
+			{step === 2 && checked && (
+				<Box>
+					<Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+						<Chip
+							color="success"
+							label={`${checked.summary.ready} ready to import`}
+						/>
+						<Chip
+							color="warning"
+							label={`${checked.summary.duplicate} already exist`}
+						/>
+						<Chip
+							color="error"
+							label={`${checked.summary.invalid} with problems`}
+						/>
+					</Box>
+
+					<TableContainer sx={{ maxHeight: 400, mb: 2 }}>
+						<Table size="small" stickyHeader>
+							<TableHead>
+								<TableRow>
+									<TableCell>Line</TableCell>
+									<TableCell>Status</TableCell>
+									{fields
+										.filter((field) => mapping[field.key] != null)
+										.map((field) => (
+											<TableCell key={field.key}>{field.label}</TableCell>
+										))}
+									<TableCell>Problems</TableCell>
+								</TableRow>
+							</TableHead>
+							<TableBody>
+								{checked.results.slice(0, PREVIEW_ROWS).map((result) => (
+									<TableRow key={result.line}>
+										<TableCell>{result.line}</TableCell>
+										<TableCell>
+											<Chip
+												size="small"
+												label={STATUS_CHIPS[result.status].label}
+												color={STATUS_CHIPS[result.status].color}
+											/>
+										</TableCell>
+										{fields
+											.filter((field) => mapping[field.key] != null)
+											.map((field) => (
+												<TableCell key={field.key}>
+													{result.record[field.key]}
+												</TableCell>
+											))}
+										<TableCell>{result.errors.join('; ')}</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					</TableContainer>
+					{checked.results.length > PREVIEW_ROWS && (
+						<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+							Showing the first {PREVIEW_ROWS} of {checked.results.length} rows.
+						</Typography>
+					)}
+
+					<Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+						<Button onClick={() => setStep(1)}>Back</Button>
+						{problemCount > 0 && (
+							<Button
+								startIcon={<DownloadIcon />}
+								onClick={handleDownloadReport}
+							>
+								Download Problem Rows
+							</Button>
+						)}
+						<Button
+							variant="contained"
+							onClick={handleImport}
+							disabled={loading || checked.summary.ready === 0}
+						>
+							{loading ? (
+								<CircularProgress size={24} />
+							) : (
+								`Import ${checked.summary.ready} ${kind}`
+							)}
+						</Button>
+					</Box>
+				</Box>
+			)}
+
+			{step === 3 && (
+				<Box>
+					<Alert severity="success" sx={{ mb: 2 }}>
+						Imported {imported} {kind}.
+						{problemCount > 0 &&
+							` ${problemCount} rows were skipped; download them to fix and import again.`}
+					</Alert>
+					<Box sx={{ display: 'flex', gap: 1 }}>
+						{problemCount > 0 && (
+							<Button
+								startIcon={<DownloadIcon />}
+								onClick={handleDownloadReport}
+							>
+								Download Problem Rows
+							</Button>
+						)}
+						<Button variant="contained" onClick={reset}>
+							Import Another File
+						</Button>
+					</Box>
+				</Box>
+			)}
+		</Box>
+	);
+}
@@ -0,0 +1,185 @@
+import React from 'react';
+import { Text, Section, Link } from '@react-email/components';
+import { EmailLayout, Button } from '../components';
+
+interface GarmentReadyForPickupProps {
+	clientName: string;
+	shopName: string;
+	garmentNames: string[];
+	orderNumber?: string;
+	balanceDue?: string;
+	paymentLink?: string;
+	orderStatusLink?: string;
+	shopEmail?: string;
+	shopPhone?: string;
+	shopAddress?: string;
+	signature?: string;
+	orderId?: string;
+}
+
+export const GarmentReadyForPickup: React.FC<GarmentReadyForPickupProps> = ({
+	clientName,
+	shopName,
+	garmentNames,
+	orderNumber,
+	balanceDue,
+	paymentLink,
+	orderStatusLink,
+	shopEmail,
+	shopPhone,
+	shopAddress,
+	signature,
+	orderId,
+}) => {
+	// Generate unique content to prevent Gmail from trimming repetitive emails
+	const uniqueId = orderId
+		? orderId.slice(-8)
+		: Date.now().toString().slice(-8);
+	const referenceContent = `Reference: ${uniqueId} | Sent: ${new Date().toLocaleDateString()}`;
+	const isSingleItem = garmentNames.length === 1;
+	return (
+		<EmailLayout
+			preview={`Ready for pickup at ${shopName}`}
+			shopName={shopName}
+			shopEmail={shopEmail}
+			shopPhone={shopPhone}
+			shopAddress={shopAddress}
+			signature={signature}
+			referenceContent={referenceContent}
+		>
+			{/* Custom Header */}
+			<Section style={headerSection}>
+				<Text style={headerText}>Ready for Pickup</Text>
+			</Section>
+
+			<Text style={greeting}>Hi {clientName},</Text>
+
+			<Text style={mainText}>
+				Good news! The following {isSingleItem ? 'item is' : 'items are'} ready
+				for pickup at {shopName}
+				{orderNumber ? ` (order ${orderNumber})` : ''}:
+			</Text>
+
+			<Section style={itemsSection}>
+				{garmentNames.map((name, index) => (
+					<Text key={`${name}-${index}`} style={itemText}>
+						{name}
+					</Text>
+				))}
+			</Section>
+
+			{balanceDue && (
+				<Section style={amountSection}>
+					<Text style={amountLabel}>Balance due:</Text>
+					<Text style={amountValue}>{balanceDue}</Text>
+				</Section>
+			)}
+
+			{balanceDue && paymentLink && (
+				<Section style={buttonSection}>
+					<Button href={paymentLink} variant="primary">
+						Pay Now
+					</Button>
+				</Section>
+			)}
+
+			{orderStatusLink && (
+				<Text style={mainText}>
+					You can check on your order anytime:{' '}
+					<Link href={orderStatusLink} style={link}>
+						View order status
+					</Link>
+				</Text>
+			)}
+
+			<Text style={mainText}>
+				If you have any questions, please contact us.
+			</Text>
+
+			<Text style={closing}>Thank you</Text>
+		</EmailLayout>
+	);
+};
+
+// Styles
+const greeting = {
+	fontSize: '16px',
+	lineHeight: '24px',
+	margin: '0 0 16px 0',
+	color: '#1a1a1a',
+};
+
+const mainText = {
+	fontSize: '16px',
+	lineHeight: '24px',
+	margin: '0 0 16px 0',
+	color: '#1a1a1a',
+};
+
+const itemsSection = {
+	backgroundColor: '#eff6ff',
+	padding: '16px',
+	borderRadius: '6px',
+	margin: '24px 0',
+	border: '1px solid #3b82f6',
+};
+
+const itemText = {
+	fontSize: '16px',
+	fontWeight: 'bold',
+	color: '#1e3a8a',
+	margin: '0 0 4px 0',
+};
+
+const amountSection = {
+	backgroundColor: '#f0fdf4',
+	padding: '16px',
+	borderRadius: '6px',
+	margin: '24px 0',
+	textAlign: 'center' as const,
+	border: '1px solid #16a34a',
+};
+
+const amountLabel = {
+	fontSize: '14px',
+	color: '#15803d',
+	margin: '0 0 8px 0',
+};
+
+const amountValue = {
+	fontSize: '24px',
+	fontWeight: 'bold',
+	color: '#15803d',
+	margin: '0',
+};
+
+const link = {
+	color: '#2563eb',
+	textDecoration: 'underline',
+};
+
+const buttonSection = {
+	margin: '24px 0',
+	textAlign: 'center' as const,
+};
+
+const closing = {
+	fontSize: '16px',
+	lineHeight: '24px',
+	margin: '24px 0 0 0',
+	color: '#1a1a1a',
+};
+
+const headerSection = {
+	padding: '24px 0',
+	borderBottom: '1px solid #e6e6e6',
+	marginBottom: '24px',
+};
+
+const headerText = {
+	fontSize: '24px',
+	fontWeight: 'bold',
+	color: '#1a1a1a',
+	margin: '0',
+	textAlign: 'left' as const,
+};
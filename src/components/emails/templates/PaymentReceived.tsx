@@ -7,6 +7,9 @@ interface PaymentReceivedProps {
 	shopName: string;
 	amount: string;
 	orderDetails: string;
+	// Formatted discount amount, e.g. "-$15.00"
+	discount?: string;
+	discountLabel?: string;
 	shopEmail?: string;
 	shopPhone?: string;
 	shopAddress?: string;
@@ -19,6 +22,8 @@ export const PaymentReceived: React.FC<PaymentReceivedProps> = ({
 	shopName,
 	amount,
 	orderDetails,
+	discount,
+	discountLabel,
 	shopEmail,
 	shopPhone,
 	shopAddress,
@@ -59,6 +64,11 @@ export const PaymentReceived: React.FC<PaymentReceivedProps> = ({
 			<Section style={orderSection}>
 				<Text style={orderTitle}>Order details:</Text>
 				<Text style={orderDetailsStyle}>{orderDetails}</Text>
+				{discount && (
+					<Text style={discountStyle}>
+						{discountLabel || 'Discount'}: {discount}
+					</Text>
+				)}
 			</Section>
 
 			<Text style={mainText}>Thank you for your business!</Text>
@@ -127,6 +137,12 @@ const orderDetailsStyle = {
 	whiteSpace: 'pre-line' as const,
 };
 
+const discountStyle = {
+	fontSize: '14px',
+	color: '#15803d',
+	margin: '8px 0 0 0',
+};
+
 const closing = {
 	fontSize: '16px',
 	lineHeight: '24px',
@@ -0,0 +1,139 @@
+import React from 'react';
+import { Text, Section } from '@react-email/components';
+import { EmailLayout, Button } from '../components';
+
+interface WaitlistSlotOfferProps {
+	clientName: string;
+	shopName: string;
+	appointmentTime: string;
+	appointmentType: string;
+	claimLink: string;
+	shopEmail?: string;
+	shopPhone?: string;
+	shopAddress?: string;
+	signature?: string;
+	offerId?: string;
+}
+
+export const WaitlistSlotOffer: React.FC<WaitlistSlotOfferProps> = ({
+	clientName,
+	shopName,
+	appointmentTime,
+	appointmentType,
+	claimLink,
+	shopEmail,
+	shopPhone,
+	shopAddress,
+	signature,
+	offerId,
+}) => {
+	// Generate unique content to prevent Gmail from trimming repetitive emails
+	const uniqueId = offerId
+		? offerId.slice(-8)
+		: Date.now().toString().slice(-8);
+	const referenceContent = `Reference: ${uniqueId} | Sent: ${new Date().toLocaleDateString()}`;
+	return (
+		<EmailLayout
+			preview={`An appointment just opened up at ${shopName}`}
+			shopName={shopName}
+			shopEmail={shopEmail}
+			shopPhone={shopPhone}
+			shopAddress={shopAddress}
+			signature={signature}
+			referenceContent={referenceContent}
+		>
+			{/* Custom Header */}
+			<Section style={headerSection}>
+				<Text style={headerText}>An Opening for You</Text>
+			</Section>
+
+			<Text style={greeting}>Hi {clientName},</Text>
+
+			<Text style={mainText}>
+				An appointment just opened up at {shopName} and you&apos;re on our
+				waitlist:
+			</Text>
+
+			<Section style={slotSection}>
+				<Text style={slotType}>{appointmentType}</Text>
+				<Text style={slotTime}>{appointmentTime}</Text>
+			</Section>
+
+			<Section style={buttonSection}>
+				<Button href={claimLink} variant="primary">
+					Claim This Appointment
+				</Button>
+			</Section>
+
+			<Text style={mainText}>
+				This offer went to everyone waiting for this time, so the first to claim
+				it gets the appointment.
+			</Text>
+
+			<Text style={closing}>Thank you</Text>
+		</EmailLayout>
+	);
+};
+
+// Styles
+const greeting = {
+	fontSize: '16px',
+	lineHeight: '24px',
+	margin: '0 0 16px 0',
+	color: '#1a1a1a',
+};
+
+const mainText = {
+	fontSize: '16px',
+	lineHeight: '24px',
+	margin: '0 0 16px 0',
+	color: '#1a1a1a',
+};
+
+const slotSection = {
+	backgroundColor: '#eff6ff',
+	padding: '16px',
+	borderRadius: '6px',
+	margin: '24px 0',
+	textAlign: 'center' as const,
+	border: '1px solid #3b82f6',
+};
+
+const slotType = {
+	fontSize: '14px',
+	color: '#1e3a8a',
+	margin: '0 0 8px 0',
+};
+
+const slotTime = {
+	fontSize: '20px',
+	fontWeight: 'bold',
+	color: '#1e3a8a',
+	margin: '0',
+};
+
+const buttonSection = {
+	margin: '24px 0',
+	textAlign: 'center' as const,
+};
+
+const closing = {
+	fontSize: '16px',
+	lineHeight: '24px',
+	margin: '24px 0 0 0',
+	color: '#1a1a1a',
+};
+
+const headerSection = {
+	padding: '24px 0',
+	borderBottom: '1px solid #e6e6e6',
+	marginBottom: '24px',
+};
+
+const headerText = {
+	fontSize: '24px',
+	fontWeight: 'bold',
+	color: '#1a1a1a',
+	margin: '0',
+	textAlign: 'left' as const,
+};
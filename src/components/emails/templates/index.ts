@@ -17,3 +17,9 @@ export { PaymentLink } from './PaymentLink';
 export { PaymentLinkPreview } from './PaymentLinkPreview';
 export { PaymentReceived } from './PaymentReceived';
 export { InvoiceSent } from './InvoiceSent';
+
+// Order Templates
+export { GarmentReadyForPickup } from './GarmentReadyForPickup';
+
+// Waitlist Templates
+export { WaitlistSlotOffer } from './WaitlistSlotOffer';
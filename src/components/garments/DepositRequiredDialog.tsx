@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import {
+	Dialog,
+	DialogTitle,
+	DialogContent,
+	DialogActions,
+	Button,
+	Typography,
+	TextField,
+	Box,
+} from '@mui/material';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+import { formatCentsAsCurrency } from '@/lib/utils/currency';
+
+interface DepositRequiredDialogProps {
+	open: boolean;
+	onClose: () => void;
+	onOverride: (reason: string) => Promise<boolean>;
+	orderId: string;
+	requiredCents: number;
+	outstandingCents: number;
+}
+
+export default function DepositRequiredDialog({
+	open,
+	onClose,
+	onOverride,
+	orderId,
+	requiredCents,
+	outstandingCents,
+}: DepositRequiredDialogProps) {
+	const [reason, setReason] = useState('');
+	const [saving, setSaving] = useState(false);
+
+	const handleOverride = async () => {
+		setSaving(true);
+		const overridden = await onOverride(reason.trim());
+		setSaving(false);
+		if (overridden) {
+			setReason('');
+		}
+	};
+
+	return (
+		<Dialog
+			open={open}
+			onClose={onClose}
+			maxWidth="sm"
+			fullWidth
+			data-testid="deposit-required-dialog"
+		>
+			<DialogTitle sx={{ pb: 1 }}>
+				<Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+					<WarningAmberIcon color="warning" />
+					<Typography variant="h6">Deposit Required</Typography>
+				</Box>
+			</DialogTitle>
+
+			<DialogContent>
+				<Typography variant="body1" gutterBottom>
+					This order requires a deposit of{' '}
+					<strong>{formatCentsAsCurrency(requiredCents)}</strong> before work
+					starts. <strong>{formatCentsAsCurrency(outstandingCents)}</strong> is
+					still due.
+				</Typography>
+				<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+					Collect the deposit from the order, or start work anyway. Overrides
+					are recorded in the payment audit log.
+				</Typography>
+				<TextField
+					label="Reason for starting without the deposit"
+					value={reason}
+					onChange={(e) => setReason(e.target.value)}
+					multiline
+					minRows={2}
+					fullWidth
+				/>
+			</DialogContent>
+
+			<DialogActions sx={{ justifyContent: 'space-between', px: 3, pb: 2 }}>
+				<Button component={Link} href={`/orders/${orderId}`}>
+					Collect Deposit
+				</Button>
+				<Box sx={{ display: 'flex', gap: 1 }}>
+					<Button onClick={onClose} disabled={saving}>
+						Cancel
+					</Button>
+					<Button
+						variant="contained"
+						color="warning"
+						onClick={handleOverride}
+						disabled={!reason.trim() || saving}
+					>
+						{saving ? 'Saving...' : 'Override & Start Work'}
+					</Button>
+				</Box>
+			</DialogActions>
+		</Dialog>
+	);
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+	Card,
+	CardContent,
+	FormControl,
+	InputLabel,
+	MenuItem,
+	Select,
+	Stack,
+	Typography,
+} from '@mui/material';
+import { useGarment } from '@/contexts/GarmentContext';
+import {
+	assignGarment,
+	assignGarmentService,
+	getStaffMembers,
+	type StaffMember,
+} from '@/lib/actions/staff';
+import { showErrorToast } from '@/lib/utils/toast';
+
+/**
+ * Staff assignment for the garment and each of its services. Hidden for
+ * shops without staff.
+ */
+export default function GarmentAssignments() {
+	const { garment, refreshGarment } = useGarment();
+	const [staff, setStaff] = useState<StaffMember[]>([]);
+	const [saving, setSaving] = useState(false);
+
+	useEffect(() => {
+		getStaffMembers().then((result) => {
+			if (result.success && result.data) {
+				setStaff(result.data);
+			}
+		});
+	}, []);
+
+	if (staff.length < 2) {
+		return null;
+	}
+
+	const activeServices = garment.garment_services.filter((s) => !s.is_removed);
+
+	const handleAssign = async (
+		assign: () => Promise<{ success: boolean; error?: string }>
+	) => {
+		setSaving(true);
+		const result = await assign();
+		if (result.success) {
+			await refreshGarment();
+		} else {
+			showErrorToast(result.error || 'Failed to update assignment');
+		}
+		setSaving(false);
+	};
+
+	const renderSelect = (
+		id: string,
+		label: string,
+		value: string | null | undefined,
+		onChange: (userId: string | null) => void
+	) => (
+		<FormControl key={id} fullWidth size="small">
+			<InputLabel id={`${id}-label`}>{label}</InputLabel>
+			<Select
+				labelId={`${id}-label`}
+				label={label}
+				value={value || ''}
+				disabled={saving}
+				onChange={(e) => onChange(e.target.value || null)}
+			>
+				<MenuItem value="">Unassigned</MenuItem>
+				{staff.map((member) => (
+					<MenuItem key={member.id} value={member.id}>
+						{member.name}
+					</MenuItem>
+				))}
+			</Select>
+		</FormControl>
+	);
+
+	return (
+		<Card sx={{ mb: 3 }}>
+			<CardContent>
+				<Typography variant="h6" gutterBottom>
+					Assigned To
+				</Typography>
+				<Stack spacing={2} sx={{ mt: 2 }}>
+					{renderSelect(
+						'garment-assignee',
+						'Garment',
+						garment.assigned_to,
+						(userId) => handleAssign(() => assignGarment(garment.id, userId))
+					)}
+					{activeServices.map((service) =>
+						renderSelect(
+							`service-assignee-${service.id}`,
+							service.name,
+							service.assigned_to,
+							(userId) =>
+								handleAssign(() => assignGarmentService(service.id, userId))
+						)
+					)}
+				</Stack>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,330 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ComponentProps } from 'react';
+import Link from 'next/link';
+import {
+	DragDropContext,
+	Draggable,
+	Droppable,
+	type DropResult,
+} from '@hello-pangea/dnd';
+import { Box, Card, CardContent, Chip, Paper, Typography } from '@mui/material';
+import { GarmentProvider, useGarment } from '@/contexts/GarmentContext';
+import BalanceConfirmationDialog from '@/components/garments/BalanceConfirmationDialog';
+import { GARMENT_STAGES } from '@/constants/garmentStages';
+import type { GarmentListItem } from '@/lib/actions/garments-paginated';
+import {
+	calculateGarmentStageClient,
+	type GarmentStage,
+} from '@/lib/utils/garmentStageCalculator';
+import { formatDateSafe, isGarmentOverdue } from '@/lib/utils/date-time-utils';
+
+type MoveToStage = (stage: GarmentStage) => Promise<boolean>;
+
+interface GarmentBoardProps {
+	shopId: string;
+	garments: GarmentListItem[];
+	// Shop-wide totals per stage; columns may show fewer
+	stageCounts: Record<string, number>;
+}
+
+/**
+ * The fields GarmentContext needs, filled from a list item. Prices aren't in
+ * the list, but the board never shows them.
+ */
+function toContextGarment(
+	item: GarmentListItem
+): ComponentProps<typeof GarmentProvider>['initialGarment'] {
+	return {
+		id: item.id,
+		name: item.name,
+		due_date: item.due_date ?? null,
+		event_date: item.event_date ?? null,
+		preset_icon_key: item.preset_icon_key ?? null,
+		preset_fill_color: item.preset_fill_color ?? null,
+		preset_outline_color: null,
+		notes: null,
+		stage: item.stage,
+		photo_url: item.photo_url ?? null,
+		image_cloud_id: item.image_cloud_id ?? null,
+		created_at: item.created_at,
+		order_id: item.order_id,
+		garment_services: (item.services || []).map((service) => ({
+			id: service.id,
+			name: service.name,
+			is_done: service.is_done,
+			is_removed: !!service.is_removed,
+			quantity: 1,
+			unit: 'flat_rate',
+			unit_price_cents: 0,
+			line_total_cents: 0,
+		})),
+		totalPriceCents: 0,
+	};
+}
+
+interface BoardCardProps {
+	item: GarmentListItem;
+	onRegister: (garmentId: string, move: MoveToStage | null) => void;
+	onStageChange: (garmentId: string, stage: GarmentStage) => void;
+}
+
+function BoardCard({ item, onRegister, onStageChange }: BoardCardProps) {
+	const {
+		garment,
+		moveToStage,
+		balanceDialogOpen,
+		balanceCheckData,
+		closeBalanceDialog,
+		handlePickupWithoutPayment,
+		handlePaymentAndPickup,
+	} = useGarment();
+
+	useEffect(() => {
+		onRegister(garment.id, moveToStage);
+		return () => onRegister(garment.id, null);
+	}, [garment.id, moveToStage, onRegister]);
+
+	// The context owns the stage, including optimistic moves and rollbacks
+	useEffect(() => {
+		onStageChange(garment.id, garment.stage as GarmentStage);
+	}, [garment.id, garment.stage, onStageChange]);
+
+	// Picking up moves the card to Done, remounting it before the server
+	// answers, so a failed pickup has to be put back from here
+	const settlePickup = async (pickup: () => Promise<boolean>) => {
+		if (!(await pickup())) onStageChange(garment.id, 'Ready For Pickup');
+	};
+
+	const { completedCount, totalCount } = calculateGarmentStageClient(
+		garment.garment_services
+	);
+	const overdue = isGarmentOverdue(garment);
+
+	return (
+		<>
+			<Card variant="outlined">
+				<CardContent sx={{ p: 1.5, '&:last-child': { pb: 1.5 } }}>
+					<Typography
+						component={Link}
+						href={`/garments/${garment.id}`}
+						variant="subtitle2"
+						sx={{ color: 'inherit', textDecoration: 'none' }}
+					>
+						{garment.name || 'Untitled garment'}
+					</Typography>
+					<Typography variant="body2" color="text.secondary" noWrap>
+						{item.client_name}
+					</Typography>
+					<Box
+						sx={{
+							display: 'flex',
+							justifyContent: 'space-between',
+							alignItems: 'center',
+							mt: 1,
+						}}
+					>
+						<Typography variant="caption" color="text.secondary">
+							{completedCount}/{totalCount} services done
+						</Typography>
+						{garment.due_date && (
+							<Chip
+								size="small"
+								label={formatDateSafe(garment.due_date)}
+								color={overdue ? 'error' : 'default'}
+								variant="outlined"
+							/>
+						)}
+					</Box>
+				</CardContent>
+			</Card>
+
+			{balanceCheckData && (
+				<BalanceConfirmationDialog
+					open={balanceDialogOpen}
+					onClose={closeBalanceDialog}
+					onConfirmWithoutPayment={() =>
+						settlePickup(handlePickupWithoutPayment)
+					}
+					onPaymentSuccess={() => settlePickup(handlePaymentAndPickup)}
+					balanceDue={balanceCheckData.balanceDue}
+					orderTotal={balanceCheckData.orderTotal}
+					paidAmount={balanceCheckData.paidAmount}
+					orderNumber={balanceCheckData.orderNumber}
+					clientName={balanceCheckData.clientName}
+					orderId={garment.order_id || ''}
+					invoiceId={balanceCheckData.invoiceId}
+					clientEmail={balanceCheckData.clientEmail}
+				/>
+			)}
+		</>
+	);
+}
+
+/**
+ * Every stage side by side. Dragging a card asks its GarmentContext to move
+ * it, so the same rules as the garment page apply.
+ */
+export default function GarmentBoard({
+	shopId,
+	garments,
+	stageCounts,
+}: GarmentBoardProps) {
+	const [stages, setStages] = useState<Record<string, GarmentStage>>({});
+	const moves = useRef(new Map<string, MoveToStage>());
+
+	const handleRegister = useCallback(
+		(garmentId: string, move: MoveToStage | null) => {
+			if (move) moves.current.set(garmentId, move);
+			else moves.current.delete(garmentId);
+		},
+		[]
+	);
+
+	const handleStageChange = useCallback(
+		(garmentId: string, stage: GarmentStage) => {
+			setStages((prev) =>
+				prev[garmentId] === stage ? prev : { ...prev, [garmentId]: stage }
+			);
+		},
+		[]
+	);
+
+	// Cards change column when their context's stage changes. A card remounts
+	// in its new column, so it starts from the board's copy of the stage.
+	const boardGarments = useMemo(
+		() =>
+			garments.map((item) =>
+				stages[item.id] ? { ...item, stage: stages[item.id]! } : item
+			),
+		[garments, stages]
+	);
+
+	const columns = useMemo(() => {
+		const byStage = new Map<GarmentStage, GarmentListItem[]>(
+			GARMENT_STAGES.map((stage) => [stage.name, []])
+		);
+		for (const item of boardGarments) {
+			byStage.get(item.stage)?.push(item);
+		}
+		return byStage;
+	}, [boardGarments]);
+
+	const handleDragEnd = async ({
+		draggableId,
+		source,
+		destination,
+	}: DropResult) => {
+		if (!destination || destination.droppableId === source.droppableId) {
+			return;
+		}
+
+		const previousStage = source.droppableId as GarmentStage;
+		const moved = await moves.current.get(draggableId)?.(
+			destination.droppableId as GarmentStage
+		);
+		// The card may have remounted mid-move; put it back where it was
+		if (moved === false) handleStageChange(draggableId, previousStage);
+	};
+
+	return (
+		<DragDropContext onDragEnd={handleDragEnd}>
+			<Box
+				sx={{
+					display: 'grid',
+					gridTemplateColumns: {
+						xs: `repeat(${GARMENT_STAGES.length}, minmax(260px, 1fr))`,
+					},
+					gap: 2,
+					overflowX: 'auto',
+					pb: 2,
+				}}
+			>
+				{GARMENT_STAGES.map((stage) => {
+					const items = columns.get(stage.name) || [];
+					const total = stageCounts[stage.name] ?? items.length;
+
+					return (
+						<Paper
+							key={stage.name}
+							variant="outlined"
+							sx={{
+								borderTop: '4px solid',
+								borderTopColor: stage.color,
+								display: 'flex',
+								flexDirection: 'column',
+								minHeight: 400,
+							}}
+						>
+							<Box sx={{ p: 1.5, display: 'flex', gap: 1 }}>
+								<Typography variant="subtitle1" component="h2">
+									{stage.displayName}
+								</Typography>
+								<Typography variant="subtitle1" color="text.secondary">
+									{total}
+								</Typography>
+							</Box>
+							<Droppable droppableId={stage.name}>
+								{(provided, snapshot) => (
+									<Box
+										ref={provided.innerRef}
+										{...provided.droppableProps}
+										sx={{
+											flex: 1,
+											p: 1,
+											display: 'flex',
+											flexDirection: 'column',
+											gap: 1,
+											bgcolor: snapshot.isDraggingOver
+												? 'action.hover'
+												: 'transparent',
+										}}
+									>
+										{items.map((item, index) => (
+											<Draggable
+												key={item.id}
+												draggableId={item.id}
+												index={index}
+											>
+												{(dragProvided) => (
+													<Box
+														ref={dragProvided.innerRef}
+														{...dragProvided.draggableProps}
+														{...dragProvided.dragHandleProps}
+													>
+														<GarmentProvider
+															initialGarment={toContextGarment(item)}
+															shopId={shopId}
+															preloadBalanceStatus={false}
+														>
+															<BoardCard
+																item={item}
+																onRegister={handleRegister}
+																onStageChange={handleStageChange}
+															/>
+														</GarmentProvider>
+													</Box>
+												)}
+											</Draggable>
+										))}
+										{provided.placeholder}
+									</Box>
+								)}
+							</Droppable>
+							{total > items.length && (
+								<Typography
+									variant="caption"
+									color="text.secondary"
+									sx={{ p: 1.5 }}
+								>
+									Showing {items.length} of {total}
+								</Typography>
+							)}
+						</Paper>
+					);
+				})}
+			</Box>
+		</DragDropContext>
+	);
+}
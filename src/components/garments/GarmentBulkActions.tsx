@@ -0,0 +1,190 @@
+'use client';
+
+import { useState } from 'react';
+import {
+	Button,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	Menu,
+	MenuItem,
+	TextField,
+} from '@mui/material';
+import { BulkActionBar } from '@/components/common/BulkActionBar';
+import { BulkResultsDialog } from '@/components/common/BulkResultsDialog';
+import { useBulkAction } from '@/hooks/useBulkAction';
+import {
+	bulkChangeGarmentStage,
+	bulkCompleteGarmentServices,
+	bulkMarkGarmentsPickedUp,
+	bulkRescheduleGarments,
+} from '@/lib/actions/bulk-actions';
+import { GARMENT_STAGES, type StageConfig } from '@/constants/garmentStages';
+import type { GarmentListItem } from '@/lib/actions/garments-paginated';
+import { getTodayString } from '@/lib/utils/date-time-utils';
+
+type BulkStage = Parameters<typeof bulkChangeGarmentStage>[1];
+
+// Done is reached by marking garments picked up
+const STAGE_OPTIONS = GARMENT_STAGES.filter(
+	(stage): stage is StageConfig & { name: BulkStage } => stage.name !== 'Done'
+);
+
+interface GarmentBulkActionsProps {
+	selected: GarmentListItem[];
+	total: number;
+	onSelectAll: () => void;
+	onClear: () => void;
+	// Called after each run with the garments that failed
+	onFinished: (failedIds: string[]) => void;
+}
+
+export default function GarmentBulkActions({
+	selected,
+	total,
+	onSelectAll,
+	onClear,
+	onFinished,
+}: GarmentBulkActionsProps) {
+	const [stageAnchor, setStageAnchor] = useState<HTMLElement | null>(null);
+	const [rescheduleOpen, setRescheduleOpen] = useState(false);
+	const [dueDate, setDueDate] = useState(getTodayString());
+	const { busy, run, report, closeReport } = useBulkAction(onFinished);
+
+	const ids = selected.map((garment) => garment.id);
+	const labels = Object.fromEntries(
+		selected.map((garment) => [
+			garment.id,
+			`${garment.name || 'Untitled garment'} (${garment.client_name || 'No client'})`,
+		])
+	);
+	const garments = (count: number) =>
+		`${count} garment${count === 1 ? '' : 's'}`;
+
+	const handleStage = (stage: BulkStage) => {
+		setStageAnchor(null);
+		run(
+			'Change stage',
+			() => bulkChangeGarmentStage(ids, stage),
+			(count) => `Moved ${garments(count)} to ${stage}`
+		);
+	};
+
+	const handleReschedule = () => {
+		setRescheduleOpen(false);
+		run(
+			'Reschedule',
+			() => bulkRescheduleGarments(ids, dueDate),
+			(count) => `Rescheduled ${garments(count)}`
+		);
+	};
+
+	return (
+		<>
+			<BulkActionBar
+				count={selected.length}
+				total={total}
+				noun="garment"
+				busy={busy}
+				onSelectAll={onSelectAll}
+				onClear={onClear}
+			>
+				<Button
+					variant="outlined"
+					size="small"
+					disabled={busy}
+					onClick={(e) => setStageAnchor(e.currentTarget)}
+				>
+					Change Stage
+				</Button>
+				<Button
+					variant="outlined"
+					size="small"
+					disabled={busy}
+					onClick={() =>
+						run(
+							'Mark services done',
+							() => bulkCompleteGarmentServices(ids),
+							(count) => `Finished the services on ${garments(count)}`
+						)
+					}
+				>
+					Mark Services Done
+				</Button>
+				<Button
+					variant="outlined"
+					size="small"
+					disabled={busy}
+					onClick={() => setRescheduleOpen(true)}
+				>
+					Reschedule
+				</Button>
+				<Button
+					variant="contained"
+					size="small"
+					disabled={busy}
+					onClick={() =>
+						run(
+							'Mark picked up',
+							() => bulkMarkGarmentsPickedUp(ids),
+							(count) => `Marked ${garments(count)} as picked up`
+						)
+					}
+				>
+					Mark Picked Up
+				</Button>
+			</BulkActionBar>
+
+			<Menu
+				anchorEl={stageAnchor}
+				open={!!stageAnchor}
+				onClose={() => setStageAnchor(null)}
+			>
+				{STAGE_OPTIONS.map((stage) => (
+					<MenuItem key={stage.name} onClick={() => handleStage(stage.name)}>
+						{stage.displayName}
+					</MenuItem>
+				))}
+			</Menu>
+
+			<Dialog
+				open={rescheduleOpen}
+				onClose={() => setRescheduleOpen(false)}
+				maxWidth="xs"
+				fullWidth
+			>
+				<DialogTitle>Reschedule {garments(selected.length)}</DialogTitle>
+				<DialogContent>
+					<TextField
+						fullWidth
+						type="date"
+						label="New due date"
+						value={dueDate}
+						onChange={(e) => setDueDate(e.target.value)}
+						InputLabelProps={{ shrink: true }}
+						sx={{ mt: 1 }}
+					/>
+				</DialogContent>
+				<DialogActions>
+					<Button onClick={() => setRescheduleOpen(false)}>Cancel</Button>
+					<Button
+						variant="contained"
+						onClick={handleReschedule}
+						disabled={!dueDate}
+					>
+						Reschedule
+					</Button>
+				</DialogActions>
+			</Dialog>
+
+			<BulkResultsDialog
+				open={!!report}
+				title={report?.title || ''}
+				results={report?.results || []}
+				labels={labels}
+				onClose={closeReport}
+			/>
+		</>
+	);
+}
@@ -215,6 +215,7 @@ export default function GarmentHistory({ garmentId }: GarmentHistoryProps) {
           fill_color: 'Icon color',
           notes: 'Notes',
           stage: 'Stage',
+          order_status: 'Order status',
         };
 
         const fieldLabel = fieldLabels[entry.field_name] || entry.field_name;
@@ -38,6 +38,7 @@ import PlayCircleOutlineIcon from '@mui/icons-material/PlayCircleOutline';
 import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
 import LocalShippingIcon from '@mui/icons-material/LocalShipping';
 import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import PhotoCameraIcon from '@mui/icons-material/PhotoCamera';
 import { getGarmentHistory } from '@/lib/actions/garments';
 import { format, formatDistanceToNow } from 'date-fns';
 import { useGarment } from '@/contexts/GarmentContext';
@@ -181,6 +182,13 @@ export default function GarmentHistoryTable({
 			return <EditIcon sx={{ fontSize: 20, color: '#FF9800' }} />;
 		}
 
+		// Photo changes
+		if (field_name === 'photos') {
+			if (change_type === 'photo_removed')
+				return <RemoveIcon sx={{ fontSize: 20, color: '#F44336' }} />;
+			return <PhotoCameraIcon sx={{ fontSize: 20, color: '#2196F3' }} />;
+		}
+
 		// Field-specific changes
 		if (field_name === 'due_date' || field_name === 'event_date')
 			return <EventIcon sx={{ fontSize: 20, color: '#2196F3' }} />;
@@ -241,6 +249,7 @@ export default function GarmentHistoryTable({
 					icon: 'Icon',
 					fill_color: 'Icon color',
 					notes: 'Notes',
+					order_status: 'Order status',
 				};
 
 				const fieldLabel = fieldLabels[field_name] || field_name;
@@ -285,6 +294,36 @@ export default function GarmentHistoryTable({
 
 				return { action: 'Service updated', detail: serviceName || '' };
 
+			case 'photo_added':
+				return {
+					action: `${new_value?.tag || ''} photo added`.trim(),
+					detail: new_value?.caption || '',
+				};
+
+			case 'photo_removed':
+				return {
+					action: `${old_value?.tag || ''} photo deleted`.trim(),
+					detail: old_value?.caption || '',
+				};
+
+			case 'photo_updated':
+				return {
+					action: 'Photo updated',
+					detail:
+						old_value?.tag !== new_value?.tag
+							? `${old_value?.tag} → ${new_value?.tag}`
+							: new_value?.caption || '',
+				};
+
+			case 'photo_cover_changed':
+				return {
+					action: 'Cover photo changed',
+					detail: new_value?.caption || '',
+				};
+
+			case 'photos_reordered':
+				return { action: 'Photos reordered', detail: '' };
+
 			default:
 				return { action: 'Changes made', detail: '' };
 		}
@@ -320,6 +359,7 @@ export default function GarmentHistoryTable({
 				'service_updated',
 				'service_restored',
 			].includes(entry.change_type);
+		if (filterType === 'photos') return entry.field_name === 'photos';
 		if (filterType === 'fields')
 			return (
 				entry.change_type === 'field_update' && entry.field_name !== 'stage'
@@ -381,6 +421,7 @@ export default function GarmentHistoryTable({
 								<MenuItem value="all">All Changes</MenuItem>
 								<MenuItem value="stage">Stage Changes</MenuItem>
 								<MenuItem value="services">Service Changes</MenuItem>
+								<MenuItem value="photos">Photo Changes</MenuItem>
 								<MenuItem value="fields">Field Updates</MenuItem>
 							</Select>
 						</FormControl>
@@ -0,0 +1,53 @@
+'use client';
+
+import { Card, CardContent, Typography } from '@mui/material';
+import Grid from '@mui/material/Grid2';
+import { useGarment } from '@/contexts/GarmentContext';
+import { formatDateSafe } from '@/lib/utils/date-time-utils';
+import {
+	formatMeasurement,
+	parseMeasurementSnapshot,
+} from '@/lib/utils/measurement-calculations';
+
+/**
+ * The client measurements the garment was ordered with. Hidden when none were
+ * attached.
+ */
+export default function GarmentMeasurements() {
+	const { garment } = useGarment();
+	const snapshot = parseMeasurementSnapshot(garment.measurement_snapshot);
+
+	if (!snapshot) return null;
+
+	return (
+		<Card sx={{ mb: 3 }}>
+			<CardContent>
+				<Typography variant="h6">Measurements</Typography>
+				<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+					Taken {formatDateSafe(snapshot.measuredOn)}
+				</Typography>
+				<Grid container spacing={2}>
+					{snapshot.values.map(({ label, value }) => (
+						<Grid key={label} size={{ xs: 6, sm: 4 }}>
+							<Typography variant="body2" color="text.secondary">
+								{label}
+							</Typography>
+							<Typography variant="body1">
+								{formatMeasurement(value, snapshot.unit)}
+							</Typography>
+						</Grid>
+					))}
+				</Grid>
+				{snapshot.notes && (
+					<Typography
+						variant="body2"
+						color="text.secondary"
+						sx={{ mt: 2, whiteSpace: 'pre-wrap' }}
+					>
+						{snapshot.notes}
+					</Typography>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
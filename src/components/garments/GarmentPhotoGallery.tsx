@@ -0,0 +1,450 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Chip,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	FormControl,
+	IconButton,
+	InputLabel,
+	MenuItem,
+	Select,
+	TextField,
+	Tooltip,
+	Typography,
+} from '@mui/material';
+import Grid from '@mui/material/Grid2';
+import { CldUploadWidget } from 'next-cloudinary';
+import { format } from 'date-fns';
+import AddPhotoAlternateIcon from '@mui/icons-material/AddPhotoAlternate';
+import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import DeleteIcon from '@mui/icons-material/Delete';
+import EditIcon from '@mui/icons-material/Edit';
+import StarIcon from '@mui/icons-material/Star';
+import StarBorderIcon from '@mui/icons-material/StarBorder';
+import SafeCldImage from '@/components/ui/SafeCldImage';
+import { useGarment } from '@/contexts/GarmentContext';
+import { showErrorToast } from '@/lib/utils/toast';
+import {
+	addGarmentPhoto,
+	getGarmentPhotos,
+	removeGarmentPhoto,
+	reorderGarmentPhotos,
+	setGarmentCoverPhoto,
+	updateGarmentPhotoDetails,
+} from '@/lib/actions/garment-photos';
+import {
+	GARMENT_PHOTO_TAGS,
+	GARMENT_PHOTO_TAG_LABELS,
+	movePhoto,
+	type GarmentPhoto,
+	type GarmentPhotoTag,
+} from '@/lib/utils/garment-photos';
+
+const TAG_COLORS: Record<GarmentPhotoTag, 'default' | 'info' | 'success'> = {
+	before: 'default',
+	fitting: 'info',
+	after: 'success',
+};
+
+/**
+ * Before, fitting and after photos of the garment. The cover photo is the one
+ * shown on garment cards.
+ */
+export default function GarmentPhotoGallery() {
+	const { garment, syncCoverPhoto, refreshHistory } = useGarment();
+	const [photos, setPhotos] = useState<GarmentPhoto[] | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [uploadTag, setUploadTag] = useState<GarmentPhotoTag>('before');
+	const [isUploading, setIsUploading] = useState(false);
+	const [busy, setBusy] = useState(false);
+	const [editing, setEditing] = useState<GarmentPhoto | null>(null);
+	const [editTag, setEditTag] = useState<GarmentPhotoTag>('before');
+	const [editCaption, setEditCaption] = useState('');
+
+	// Reload when the cover changes from the photo above the gallery too
+	useEffect(() => {
+		let cancelled = false;
+		getGarmentPhotos(garment.id).then((result) => {
+			if (cancelled) return;
+			if (result.success && result.data) {
+				setPhotos(result.data);
+				setError(null);
+			} else {
+				setError(result.error || 'Failed to load photos');
+			}
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [garment.id, garment.image_cloud_id]);
+
+	const markCover = (list: GarmentPhoto[], coverId: string | null) =>
+		list.map((photo) => ({ ...photo, isCover: photo.id === coverId }));
+
+	const handleUploadSuccess = async (result: any) => {
+		if (!result?.info) return;
+
+		const added = await addGarmentPhoto({
+			garmentId: garment.id,
+			imageCloudId: result.info.public_id,
+			photoUrl: result.info.secure_url,
+			tag: uploadTag,
+		});
+		if (!added.success || !added.data) {
+			showErrorToast(added.error || 'Failed to add photo');
+			return;
+		}
+
+		const photo = added.data;
+		setPhotos((prev) => [...(prev || []), photo]);
+		if (photo.isCover) syncCoverPhoto(photo);
+		refreshHistory();
+	};
+
+	const handleMove = async (photo: GarmentPhoto, offset: number) => {
+		if (!photos) return;
+		const previous = photos;
+		const ids = movePhoto(
+			photos.map((p) => p.id),
+			photo.id,
+			photos.indexOf(photo) + offset
+		);
+		setPhotos(ids.map((id) => photos.find((p) => p.id === id)!));
+
+		setBusy(true);
+		const result = await reorderGarmentPhotos(garment.id, ids);
+		setBusy(false);
+		if (result.success) {
+			refreshHistory();
+		} else {
+			setPhotos(previous);
+			showErrorToast(result.error || 'Failed to reorder photos');
+		}
+	};
+
+	const handleSetCover = async (photo: GarmentPhoto) => {
+		setBusy(true);
+		const result = await setGarmentCoverPhoto(photo.id);
+		setBusy(false);
+		if (!result.success) {
+			showErrorToast(result.error || 'Failed to set cover photo');
+			return;
+		}
+		setPhotos((prev) => markCover(prev || [], photo.id));
+		syncCoverPhoto(photo);
+		refreshHistory();
+	};
+
+	const handleDelete = async (photo: GarmentPhoto) => {
+		if (!window.confirm('Delete this photo? This cannot be undone.')) return;
+
+		setBusy(true);
+		const result = await removeGarmentPhoto(photo.id);
+		if (!result.success) {
+			setBusy(false);
+			showErrorToast(result.error || 'Failed to delete photo');
+			return;
+		}
+
+		const deleteResponse = await fetch('/api/delete-cloudinary-image', {
+			method: 'DELETE',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ publicId: photo.imageCloudId }),
+		});
+		if (!deleteResponse.ok) {
+			console.warn('Failed to delete image from Cloudinary');
+		}
+		setBusy(false);
+
+		const remaining = (photos || []).filter((p) => p.id !== photo.id);
+		if (result.cover !== undefined) {
+			setPhotos(markCover(remaining, result.cover?.id ?? null));
+			syncCoverPhoto(result.cover);
+		} else {
+			setPhotos(remaining);
+		}
+		refreshHistory();
+	};
+
+	const openEdit = (photo: GarmentPhoto) => {
+		setEditing(photo);
+		setEditTag(photo.tag);
+		setEditCaption(photo.caption || '');
+	};
+
+	const handleSaveDetails = async () => {
+		if (!editing) return;
+
+		setBusy(true);
+		const result = await updateGarmentPhotoDetails(editing.id, {
+			tag: editTag,
+			caption: editCaption.trim() || null,
+		});
+		setBusy(false);
+		if (!result.success || !result.data) {
+			showErrorToast(result.error || 'Failed to update photo');
+			return;
+		}
+
+		const updated = result.data;
+		setPhotos((prev) =>
+			(prev || []).map((p) =>
+				p.id === updated.id ? { ...updated, isCover: p.isCover } : p
+			)
+		);
+		setEditing(null);
+		refreshHistory();
+	};
+
+	return (
+		<Card sx={{ mb: 3 }}>
+			<CardContent>
+				<Box
+					sx={{
+						display: 'flex',
+						justifyContent: 'space-between',
+						alignItems: 'center',
+						flexWrap: 'wrap',
+						gap: 2,
+						mb: 2,
+					}}
+				>
+					<Typography variant="h6">Photos</Typography>
+					<Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+						<FormControl size="small" sx={{ minWidth: 150 }}>
+							<InputLabel>Tag new photos</InputLabel>
+							<Select
+								value={uploadTag}
+								label="Tag new photos"
+								onChange={(e) =>
+									setUploadTag(e.target.value as GarmentPhotoTag)
+								}
+							>
+								{GARMENT_PHOTO_TAGS.map((tag) => (
+									<MenuItem key={tag} value={tag}>
+										{GARMENT_PHOTO_TAG_LABELS[tag]}
+									</MenuItem>
+								))}
+							</Select>
+						</FormControl>
+						<CldUploadWidget
+							uploadPreset={
+								process.env.NEXT_PUBLIC_CLOUDINARY_UPLOAD_PRESET || 'hemsy'
+							}
+							signatureEndpoint="/api/sign-cloudinary-params"
+							onSuccess={handleUploadSuccess}
+							onQueuesStart={() => setIsUploading(true)}
+							onQueuesEnd={() => setIsUploading(false)}
+							options={{
+								sources: ['local', 'camera'],
+								multiple: true,
+								maxFiles: 10,
+								clientAllowedFormats: ['image'],
+								maxImageFileSize: 10000000,
+								showAdvancedOptions: false,
+								resourceType: 'image',
+							}}
+						>
+							{({ open }) => (
+								<Button
+									variant="outlined"
+									startIcon={<AddPhotoAlternateIcon />}
+									onClick={() => open?.()}
+									disabled={isUploading || !open}
+								>
+									{isUploading ? 'Uploading...' : 'Add Photos'}
+								</Button>
+							)}
+						</CldUploadWidget>
+					</Box>
+				</Box>
+
+				{error && (
+					<Alert severity="error" sx={{ mb: 2 }}>
+						{error}
+					</Alert>
+				)}
+
+				{photos && photos.length === 0 && (
+					<Typography variant="body2" color="text.secondary">
+						No photos yet. Add photos from before, during fittings and after the
+						work is done.
+					</Typography>
+				)}
+
+				<Grid container spacing={2}>
+					{(photos || []).map((photo, index) => (
+						<Grid key={photo.id} size={{ xs: 12, sm: 6, lg: 4 }}>
+							<Box
+								sx={{
+									position: 'relative',
+									width: '100%',
+									aspectRatio: '4 / 3',
+									borderRadius: 1,
+									overflow: 'hidden',
+									bgcolor: 'grey.100',
+								}}
+							>
+								<SafeCldImage
+									src={photo.imageCloudId}
+									alt={photo.caption || garment.name}
+									fill
+									style={{ objectFit: 'cover' }}
+									sizes="(max-width: 600px) 100vw, 25vw"
+								/>
+								<Chip
+									label={GARMENT_PHOTO_TAG_LABELS[photo.tag]}
+									color={TAG_COLORS[photo.tag]}
+									size="small"
+									sx={{ position: 'absolute', top: 8, left: 8 }}
+								/>
+								{photo.isCover && (
+									<Chip
+										label="Cover"
+										color="primary"
+										size="small"
+										sx={{ position: 'absolute', top: 8, right: 8 }}
+									/>
+								)}
+							</Box>
+							{photo.caption && (
+								<Typography variant="body2" sx={{ mt: 1 }}>
+									{photo.caption}
+								</Typography>
+							)}
+							<Box
+								sx={{
+									display: 'flex',
+									alignItems: 'center',
+									justifyContent: 'space-between',
+								}}
+							>
+								<Typography variant="caption" color="text.secondary">
+									{format(new Date(photo.takenAt), 'PPp')}
+								</Typography>
+								<Box>
+									<Tooltip title="Move earlier">
+										<span>
+											<IconButton
+												size="small"
+												onClick={() => handleMove(photo, -1)}
+												disabled={busy || index === 0}
+												aria-label="Move earlier"
+											>
+												<ChevronLeftIcon fontSize="small" />
+											</IconButton>
+										</span>
+									</Tooltip>
+									<Tooltip title="Move later">
+										<span>
+											<IconButton
+												size="small"
+												onClick={() => handleMove(photo, 1)}
+												disabled={busy || index === photos!.length - 1}
+												aria-label="Move later"
+											>
+												<ChevronRightIcon fontSize="small" />
+											</IconButton>
+										</span>
+									</Tooltip>
+									<Tooltip
+										title={photo.isCover ? 'Cover photo' : 'Use as cover'}
+									>
+										<span>
+											<IconButton
+												size="small"
+												onClick={() => handleSetCover(photo)}
+												disabled={busy || photo.isCover}
+												aria-label="Use as cover"
+											>
+												{photo.isCover ? (
+													<StarIcon fontSize="small" color="primary" />
+												) : (
+													<StarBorderIcon fontSize="small" />
+												)}
+											</IconButton>
+										</span>
+									</Tooltip>
+									<Tooltip title="Edit tag and caption">
+										<IconButton
+											size="small"
+											onClick={() => openEdit(photo)}
+											disabled={busy}
+											aria-label="Edit photo"
+										>
+											<EditIcon fontSize="small" />
+										</IconButton>
+									</Tooltip>
+									<Tooltip title="Delete photo">
+										<IconButton
+											size="small"
+											onClick={() => handleDelete(photo)}
+											disabled={busy}
+											aria-label="Delete photo"
+										>
+											<DeleteIcon fontSize="small" />
+										</IconButton>
+									</Tooltip>
+								</Box>
+							</Box>
+						</Grid>
+					))}
+				</Grid>
+			</CardContent>
+
+			<Dialog
+				open={!!editing}
+				onClose={() => setEditing(null)}
+				maxWidth="xs"
+				fullWidth
+			>
+				<DialogTitle>Edit Photo</DialogTitle>
+				<DialogContent>
+					<FormControl fullWidth sx={{ mt: 1, mb: 2 }}>
+						<InputLabel>Tag</InputLabel>
+						<Select
+							value={editTag}
+							label="Tag"
+							onChange={(e) => setEditTag(e.target.value as GarmentPhotoTag)}
+						>
+							{GARMENT_PHOTO_TAGS.map((tag) => (
+								<MenuItem key={tag} value={tag}>
+									{GARMENT_PHOTO_TAG_LABELS[tag]}
+								</MenuItem>
+							))}
+						</Select>
+					</FormControl>
+					<TextField
+						label="Caption"
+						value={editCaption}
+						onChange={(e) => setEditCaption(e.target.value)}
+						fullWidth
+						multiline
+						minRows={2}
+						inputProps={{ maxLength: 500 }}
+					/>
+				</DialogContent>
+				<DialogActions>
+					<Button onClick={() => setEditing(null)}>Cancel</Button>
+					<Button
+						variant="contained"
+						onClick={handleSaveDetails}
+						disabled={busy}
+					>
+						Save
+					</Button>
+				</DialogActions>
+			</Dialog>
+		</Card>
+	);
+}
@@ -15,6 +15,8 @@ import {
 	List,
 	ListItem,
 	ListItemText,
+	Menu,
+	MenuItem,
 	Stack,
 	TextField,
 	Typography,
@@ -25,6 +27,8 @@ import EditIcon from '@mui/icons-material/Edit';
 import AccessTimeIcon from '@mui/icons-material/AccessTime';
 import ReceiptLongIcon from '@mui/icons-material/ReceiptLong';
 import CloseIcon from '@mui/icons-material/Close';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import StopIcon from '@mui/icons-material/Stop';
 import TimeLogsDialog from '@/components/garments/TimeLogsDialog';
 import {
 	getTimeEntriesForGarment,
@@ -34,6 +38,11 @@ import {
 	deleteTimeEntry,
 } from '@/lib/actions/garment-time-entries';
 import { useGarment } from '@/contexts/GarmentContext';
+import { useServiceTimer } from '@/providers/ServiceTimerProvider';
+import { useElapsedSeconds } from '@/hooks/useElapsedSeconds';
+import { formatTimerElapsed } from '@/lib/utils/service-timers';
+import { showErrorToast } from '@/lib/utils/toast';
+import type { ActiveServiceTimer } from '@/lib/actions/service-timers';
 
 interface GarmentTimeTrackerProps {
 	garmentId: string;
@@ -70,6 +79,15 @@ export default function GarmentTimeTracker({
 	// Delete loading state
 	const [deletingEntryId, setDeletingEntryId] = useState<string | null>(null);
 
+	// Live timer
+	const { timer, lastStopped, startTimer, stopTimer } = useServiceTimer();
+	const [timerMenuAnchor, setTimerMenuAnchor] = useState<HTMLElement | null>(
+		null
+	);
+	const [isTimerBusy, setIsTimerBusy] = useState(false);
+	const runningTimer =
+		timer && services.some((s) => s.id === timer.serviceId) ? timer : null;
+
 	// Clear errors when dialog opens
 	const handleOpenAddDialog = () => {
 		setIsAddOpen(true);
@@ -119,6 +137,33 @@ export default function GarmentTimeTracker({
 		// eslint-disable-next-line react-hooks/exhaustive-deps
 	}, [garmentId]);
 
+	// A timer stopped anywhere (nav bar, auto-stop) logs time on this garment
+	useEffect(() => {
+		if (lastStopped?.garmentId === garmentId) {
+			refresh();
+		}
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [lastStopped]);
+
+	const handleStartTimer = async (serviceId: string) => {
+		setTimerMenuAnchor(null);
+		setIsTimerBusy(true);
+		const result = await startTimer(serviceId);
+		if (!result.success) {
+			showErrorToast(result.error || 'Failed to start timer');
+		}
+		setIsTimerBusy(false);
+	};
+
+	const handleStopTimer = async () => {
+		setIsTimerBusy(true);
+		const result = await stopTimer();
+		if (!result.success) {
+			showErrorToast(result.error || 'Failed to stop timer');
+		}
+		setIsTimerBusy(false);
+	};
+
 	// Total time will be displayed in hours and minutes via formatMinutesHM
 
 	const handleAdd = async () => {
@@ -222,6 +267,45 @@ export default function GarmentTimeTracker({
 						>
 							View Logs
 						</Button>
+						<Button
+							startIcon={<PlayArrowIcon />}
+							variant="outlined"
+							onClick={(e) =>
+								services.length === 1 && services[0]
+									? handleStartTimer(services[0].id)
+									: setTimerMenuAnchor(e.currentTarget)
+							}
+							disabled={
+								isGarmentDone ||
+								isOrderCancelled ||
+								!!timer ||
+								isTimerBusy ||
+								services.length === 0
+							}
+							title={
+								isOrderCancelled
+									? 'Cannot track time for cancelled orders'
+									: isGarmentDone
+										? 'Cannot track time for completed garments'
+										: timer
+											? `A timer is already running on ${timer.serviceName}`
+											: undefined
+							}
+						>
+							Start Timer
+						</Button>
+						<Menu
+							anchorEl={timerMenuAnchor}
+							open={!!timerMenuAnchor}
+							onClose={() => setTimerMenuAnchor(null)}
+							disableScrollLock
+						>
+							{services.map((s) => (
+								<MenuItem key={s.id} onClick={() => handleStartTimer(s.id)}>
+									{s.name}
+								</MenuItem>
+							))}
+						</Menu>
 						<Button
 							startIcon={<AddIcon />}
 							variant="outlined"
@@ -240,6 +324,14 @@ export default function GarmentTimeTracker({
 					</Stack>
 				</Stack>
 
+				{runningTimer && (
+					<RunningTimer
+						timer={runningTimer}
+						onStop={handleStopTimer}
+						stopping={isTimerBusy}
+					/>
+				)}
+
 				{isGarmentDone ? (
 					<Typography color="text.secondary">
 						Time tracking is disabled for completed garments.
@@ -460,6 +552,50 @@ export default function GarmentTimeTracker({
 	);
 }
 
+function RunningTimer({
+	timer,
+	onStop,
+	stopping,
+}: {
+	timer: ActiveServiceTimer;
+	onStop: () => void;
+	stopping: boolean;
+}) {
+	const elapsed = useElapsedSeconds(timer.startedAt);
+
+	return (
+		<Stack
+			direction="row"
+			alignItems="center"
+			justifyContent="space-between"
+			sx={{
+				mb: 2,
+				px: 2,
+				py: 1,
+				borderRadius: 1,
+				bgcolor: 'action.hover',
+			}}
+		>
+			<Typography variant="body2">
+				Timer running on <strong>{timer.serviceName}</strong> •{' '}
+				<Box component="span" sx={{ fontVariantNumeric: 'tabular-nums' }}>
+					{formatTimerElapsed(elapsed)}
+				</Box>
+			</Typography>
+			<Button
+				size="small"
+				color="error"
+				variant="contained"
+				startIcon={stopping ? <CircularProgress size={16} /> : <StopIcon />}
+				onClick={onStop}
+				disabled={stopping}
+			>
+				Stop
+			</Button>
+		</Stack>
+	);
+}
+
 function formatMinutesHM(totalMinutes: number): string {
 	const hours = Math.floor(totalMinutes / 60);
 	const minutes = totalMinutes % 60;
@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+	Alert,
+	Box,
+	Button,
+	CircularProgress,
+	InputAdornment,
+	Skeleton,
+	TextField,
+	Typography,
+} from '@mui/material';
+import {
+	getMaxTimerMinutes,
+	updateMaxTimerMinutes,
+} from '@/lib/actions/service-timers';
+
+/**
+ * How long a forgotten service timer can run before it's stopped
+ */
+export function TimeTrackingSettings() {
+	const [loading, setLoading] = useState(true);
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [success, setSuccess] = useState(false);
+	// Hours, as typed
+	const [hours, setHours] = useState('');
+
+	useEffect(() => {
+		async function loadSettings() {
+			const result = await getMaxTimerMinutes();
+			if (result.success && result.data) {
+				setHours(String(result.data / 60));
+			} else {
+				setError(result.error || 'Failed to load timer settings');
+			}
+			setLoading(false);
+		}
+		loadSettings();
+	}, []);
+
+	const handleSave = async () => {
+		setError(null);
+		setSuccess(false);
+		setSaving(true);
+
+		const result = await updateMaxTimerMinutes(
+			Math.round((parseFloat(hours) || 0) * 60)
+		);
+
+		if (result.success) {
+			setSuccess(true);
+			// Clear success message after 3 seconds
+			setTimeout(() => setSuccess(false), 3000);
+		} else {
+			setError(result.error || 'Failed to save timer settings');
+		}
+		setSaving(false);
+	};
+
+	if (loading) {
+		return (
+			<Box>
+				<Skeleton variant="text" width={180} height={28} sx={{ mb: 2 }} />
+				<Skeleton
+					variant="rectangular"
+					width={200}
+					height={40}
+					sx={{ borderRadius: 1 }}
+				/>
+			</Box>
+		);
+	}
+
+	return (
+		<Box>
+			<Typography variant="h6" gutterBottom>
+				Time Tracking
+			</Typography>
+			<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+				Timers left running are stopped automatically and logged at this length.
+			</Typography>
+
+			{error && (
+				<Alert severity="error" sx={{ mb: 2 }}>
+					{error}
+				</Alert>
+			)}
+			{success && (
+				<Alert severity="success" sx={{ mb: 2 }}>
+					Timer settings saved successfully!
+				</Alert>
+			)}
+
+			<Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+				<TextField
+					size="small"
+					type="number"
+					label="Stop timers after"
+					value={hours}
+					onChange={(e) => setHours(e.target.value)}
+					inputProps={{ min: 0.5, max: 24, step: 0.5 }}
+					InputProps={{
+						endAdornment: <InputAdornment position="end">hours</InputAdornment>,
+					}}
+					sx={{ width: 200 }}
+				/>
+				<Button variant="contained" onClick={handleSave} disabled={saving}>
+					{saving ? <CircularProgress size={24} /> : 'Save'}
+				</Button>
+			</Box>
+		</Box>
+	);
+}
@@ -49,12 +49,14 @@ const mockGarmentContextValue = {
   updateGarmentIcon: jest.fn(),
   updateGarmentPhoto: jest.fn(),
   deleteGarmentPhoto: jest.fn(),
+  syncCoverPhoto: jest.fn(),
   addService: jest.fn(),
   removeService: jest.fn(),
   restoreService: jest.fn(),
   updateService: jest.fn(),
   toggleServiceComplete: jest.fn(),
   markAsPickedUp: jest.fn(),
+  moveToStage: jest.fn(),
   refreshGarment: jest.fn(),
   refreshHistory: jest.fn(),
   historyKey: 0,
@@ -64,6 +66,9 @@ const mockGarmentContextValue = {
   balanceDialogOpen: false,
   balanceCheckData: null,
   closeBalanceDialog: jest.fn(),
+  depositBlock: null,
+  closeDepositDialog: jest.fn(),
+  overrideDepositAndContinue: jest.fn(),
   handlePickupWithoutPayment: jest.fn(),
   handlePaymentAndPickup: jest.fn(),
   balanceStatus: null,
@@ -21,6 +21,12 @@ jest.mock('@/lib/actions/garment-time-entries', () => ({
   deleteTimeEntry: jest.fn(),
 }));
 
+// Mock the running timer
+const mockUseServiceTimer = jest.fn();
+jest.mock('@/providers/ServiceTimerProvider', () => ({
+  useServiceTimer: () => mockUseServiceTimer(),
+}));
+
 // Mock the GarmentContext
 const mockUseGarment = jest.fn();
 jest.mock('@/contexts/GarmentContext', () => ({
@@ -56,6 +62,13 @@ describe('GarmentTimeTracker', () => {
     jest.clearAllMocks();
     (getTimeEntriesForGarment as jest.Mock).mockResolvedValue(mockTimeEntries);
     (getTotalTimeForGarment as jest.Mock).mockResolvedValue(75);
+    mockUseServiceTimer.mockReturnValue({
+      timer: null,
+      lastStopped: null,
+      startTimer: jest.fn().mockResolvedValue({ success: true }),
+      stopTimer: jest.fn().mockResolvedValue({ success: true }),
+      refreshTimer: jest.fn(),
+    });
   });
 
   describe('When garment is not Done', () => {
@@ -622,4 +635,66 @@ describe('GarmentTimeTracker', () => {
       expect(addButton).not.toBeDisabled();
     });
   });
+
+  describe('Live timer', () => {
+    beforeEach(() => {
+      mockUseGarment.mockReturnValue({
+        garment: { id: 'garment-1', stage: 'In Progress' },
+      });
+    });
+
+    it('should start a timer on the chosen service', async () => {
+      const user = userEvent.setup();
+      const startTimer = jest.fn().mockResolvedValue({ success: true });
+      mockUseServiceTimer.mockReturnValue({
+        timer: null,
+        lastStopped: null,
+        startTimer,
+        stopTimer: jest.fn(),
+        refreshTimer: jest.fn(),
+      });
+
+      render(
+        <GarmentTimeTracker garmentId="garment-1" services={mockServices} />
+      );
+
+      await user.click(screen.getByRole('button', { name: /start timer/i }));
+      await user.click(screen.getByRole('menuitem', { name: 'Hemming' }));
+
+      expect(startTimer).toHaveBeenCalledWith('service-1');
+    });
+
+    it('should show the running timer and stop it', async () => {
+      const user = userEvent.setup();
+      const stopTimer = jest.fn().mockResolvedValue({ success: true });
+      mockUseServiceTimer.mockReturnValue({
+        timer: {
+          id: 'timer-1',
+          serviceId: 'service-2',
+          serviceName: 'Button Replacement',
+          garmentId: 'garment-1',
+          garmentName: 'Blue dress',
+          startedAt: new Date().toISOString(),
+          maxMinutes: 480,
+        },
+        lastStopped: null,
+        startTimer: jest.fn(),
+        stopTimer,
+        refreshTimer: jest.fn(),
+      });
+
+      render(
+        <GarmentTimeTracker garmentId="garment-1" services={mockServices} />
+      );
+
+      expect(screen.getByText(/timer running on/i)).toBeInTheDocument();
+      expect(
+        screen.getByRole('button', { name: /start timer/i })
+      ).toBeDisabled();
+
+      await user.click(screen.getByRole('button', { name: /^stop$/i }));
+
+      expect(stopTimer).toHaveBeenCalled();
+    });
+  });
 });
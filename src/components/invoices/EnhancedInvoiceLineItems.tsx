@@ -25,6 +25,7 @@ import {
 	Payment as PaymentIcon,
 } from '@mui/icons-material';
 import { formatCentsAsCurrency } from '@/lib/utils/currency';
+import { getDiscountLineLabel } from '@/lib/utils/discount-calculations';
 import { useRouter } from 'next/navigation';
 import InlinePresetSvg from '@/components/ui/InlinePresetSvg';
 import { getPresetIconUrl } from '@/utils/presetIcons';
@@ -86,6 +87,8 @@ interface EnhancedInvoiceLineItemsProps {
 	onRecordPayment?: (() => void) | undefined; // Optional callback to trigger payment recording
 	orderSubtotal?: number | undefined; // Optional subtotal for full pricing breakdown
 	discountCents?: number | undefined; // Optional discount amount
+	discountCode?: string | null | undefined; // Code the discount came from
+	discountReason?: string | null | undefined; // What the discount is for
 	taxCents?: number | undefined; // Optional tax amount
 }
 
@@ -103,6 +106,8 @@ export default function EnhancedInvoiceLineItems({
 	onRecordPayment,
 	orderSubtotal,
 	discountCents,
+	discountCode,
+	discountReason,
 	taxCents,
 }: EnhancedInvoiceLineItemsProps) {
 	const router = useRouter();
@@ -676,9 +681,16 @@ export default function EnhancedInvoiceLineItems({
 												alignItems: 'center',
 											}}
 										>
-											<Typography variant="body2" color="success.main">
-												Discount
-											</Typography>
+											<Box>
+												<Typography variant="body2" color="success.main">
+													{getDiscountLineLabel(discountCode)}
+												</Typography>
+												{discountReason && (
+													<Typography variant="caption" color="text.secondary">
+														{discountReason}
+													</Typography>
+												)}
+											</Box>
 											<Typography variant="body2" color="success.main">
 												-{formatCentsAsCurrency(discountCents!)}
 											</Typography>
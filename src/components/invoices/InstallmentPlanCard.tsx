@@ -0,0 +1,306 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	InputAdornment,
+	MenuItem,
+	TextField,
+	Typography,
+} from '@mui/material';
+import { addMonths, format } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+	getInvoiceInstallments,
+	removeInstallmentPlan,
+	saveInstallmentPlan,
+	sendInstallmentPaymentLink,
+	type InvoiceInstallmentPlan,
+} from '@/lib/actions/installments';
+import { formatCurrency } from '@/lib/utils/formatting';
+import {
+	MAX_INSTALLMENTS,
+	MIN_INSTALLMENTS,
+	getInstallmentPlanError,
+	splitIntoInstallments,
+} from '@/lib/utils/installments';
+import InstallmentSchedule from './InstallmentSchedule';
+
+interface InstallmentPlanCardProps {
+	invoiceId: string;
+	// Changes when payments do, so statuses are reloaded
+	invoiceStatus: string;
+	onPlanChange?: () => void;
+}
+
+interface DraftRow {
+	// Dollars, as typed
+	amount: string;
+	dueDate: string;
+}
+
+const COUNT_OPTIONS = Array.from(
+	{ length: MAX_INSTALLMENTS - MIN_INSTALLMENTS + 1 },
+	(_, index) => MIN_INSTALLMENTS + index
+);
+
+/**
+ * Equal monthly installments starting today
+ */
+function getDefaultRows(totalCents: number, count: number): DraftRow[] {
+	const today = new Date();
+	return splitIntoInstallments(totalCents, count).map((cents, index) => ({
+		amount: (cents / 100).toFixed(2),
+		dueDate: format(addMonths(today, index), 'yyyy-MM-dd'),
+	}));
+}
+
+function toDrafts(rows: DraftRow[]) {
+	return rows.map((row) => ({
+		amountCents: Math.round((parseFloat(row.amount) || 0) * 100),
+		dueDate: row.dueDate,
+	}));
+}
+
+/**
+ * Set up, change or remove an invoice's payment plan, and send the client a
+ * link for any unpaid installment. Renders nothing for invoices that can't
+ * have a plan.
+ */
+export default function InstallmentPlanCard({
+	invoiceId,
+	invoiceStatus,
+	onPlanChange,
+}: InstallmentPlanCardProps) {
+	const [plan, setPlan] = useState<InvoiceInstallmentPlan | null>(null);
+	const [dialogOpen, setDialogOpen] = useState(false);
+	const [rows, setRows] = useState<DraftRow[]>([]);
+	const [saving, setSaving] = useState(false);
+	const [sendingId, setSendingId] = useState<string | null>(null);
+
+	const loadPlan = async () => {
+		const result = await getInvoiceInstallments(invoiceId);
+		if (result.success && result.data) {
+			setPlan(result.data);
+		}
+	};
+
+	useEffect(() => {
+		loadPlan();
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [invoiceId, invoiceStatus]);
+
+	if (!plan) return null;
+	const hasPlan = plan.installments.length > 0;
+	if (!hasPlan && !plan.canEdit) return null;
+
+	const openEditor = () => {
+		setRows(
+			hasPlan
+				? plan.installments.map((installment) => ({
+						amount: (installment.amount_cents / 100).toFixed(2),
+						dueDate: installment.due_date,
+					}))
+				: getDefaultRows(plan.invoiceAmountCents, 3)
+		);
+		setDialogOpen(true);
+	};
+
+	const updateRow = (index: number, changes: Partial<DraftRow>) => {
+		setRows((prev) =>
+			prev.map((row, i) => (i === index ? { ...row, ...changes } : row))
+		);
+	};
+
+	const drafts = toDrafts(rows);
+	const draftTotal = drafts.reduce((sum, draft) => sum + draft.amountCents, 0);
+	const draftError = rows.some((row) => !row.dueDate)
+		? 'Each installment needs a due date'
+		: getInstallmentPlanError(drafts, plan.invoiceAmountCents);
+
+	const handleSave = async () => {
+		setSaving(true);
+		try {
+			const result = await saveInstallmentPlan({
+				invoiceId,
+				installments: drafts,
+			});
+			if (result.success) {
+				toast.success('Payment plan saved');
+				setDialogOpen(false);
+				await loadPlan();
+				onPlanChange?.();
+			} else {
+				toast.error(result.error || 'Failed to save payment plan');
+			}
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const handleRemove = async () => {
+		if (!confirm('Remove the payment plan from this invoice?')) return;
+
+		setSaving(true);
+		try {
+			const result = await removeInstallmentPlan(invoiceId);
+			if (result.success) {
+				toast.success('Payment plan removed');
+				await loadPlan();
+				onPlanChange?.();
+			} else {
+				toast.error(result.error || 'Failed to remove payment plan');
+			}
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const handleSendLink = async (installmentId: string) => {
+		setSendingId(installmentId);
+		try {
+			const result = await sendInstallmentPaymentLink(installmentId);
+			if (!result.success || !result.data) {
+				toast.error(result.error || 'Failed to send payment link');
+			} else if (result.data.emailed) {
+				toast.success('Payment link sent to client');
+			} else {
+				await navigator.clipboard?.writeText(result.data.url);
+				toast.success(
+					`${result.data.reason || 'Not emailed'}. Payment link copied to clipboard.`
+				);
+			}
+		} finally {
+			setSendingId(null);
+		}
+	};
+
+	return (
+		<Card sx={{ mt: 3 }} className="no-print">
+			<CardContent>
+				<Typography variant="h6" gutterBottom>
+					Payment Plan
+				</Typography>
+				{hasPlan ? (
+					<InstallmentSchedule
+						installments={plan.installments}
+						onSendLink={plan.canEdit ? handleSendLink : undefined}
+						sendingId={sendingId}
+					/>
+				) : (
+					<Typography variant="body2" color="text.secondary">
+						Let the client pay this invoice in installments.
+					</Typography>
+				)}
+				{plan.canEdit && (
+					<Box display="flex" gap={1} mt={2}>
+						<Button variant="outlined" size="small" onClick={openEditor}>
+							{hasPlan ? 'Edit Plan' : 'Set Up Plan'}
+						</Button>
+						{hasPlan && (
+							<Button
+								size="small"
+								color="error"
+								onClick={handleRemove}
+								disabled={saving}
+							>
+								Remove
+							</Button>
+						)}
+					</Box>
+				)}
+			</CardContent>
+
+			<Dialog
+				open={dialogOpen}
+				onClose={() => setDialogOpen(false)}
+				maxWidth="sm"
+				fullWidth
+			>
+				<DialogTitle>Payment Plan</DialogTitle>
+				<DialogContent>
+					<TextField
+						select
+						label="Installments"
+						value={rows.length}
+						onChange={(e) =>
+							setRows(
+								getDefaultRows(plan.invoiceAmountCents, Number(e.target.value))
+							)
+						}
+						size="small"
+						sx={{ mt: 1, mb: 2, width: 160 }}
+					>
+						{COUNT_OPTIONS.map((count) => (
+							<MenuItem key={count} value={count}>
+								{count}
+							</MenuItem>
+						))}
+					</TextField>
+
+					{rows.map((row, index) => (
+						<Box key={index} display="flex" gap={2} mb={2}>
+							<TextField
+								label={`Installment ${index + 1}`}
+								type="number"
+								size="small"
+								value={row.amount}
+								onChange={(e) => updateRow(index, { amount: e.target.value })}
+								inputProps={{ min: 0, step: 0.01 }}
+								InputProps={{
+									startAdornment: (
+										<InputAdornment position="start">$</InputAdornment>
+									),
+								}}
+								fullWidth
+							/>
+							<TextField
+								label="Due"
+								type="date"
+								size="small"
+								value={row.dueDate}
+								onChange={(e) => updateRow(index, { dueDate: e.target.value })}
+								InputLabelProps={{ shrink: true }}
+								fullWidth
+							/>
+						</Box>
+					))}
+
+					<Typography variant="body2" color="text.secondary">
+						{formatCurrency(draftTotal)} of{' '}
+						{formatCurrency(plan.invoiceAmountCents)}
+					</Typography>
+					{draftError && (
+						<Alert severity="warning" sx={{ mt: 2 }}>
+							{draftError}
+						</Alert>
+					)}
+					{hasPlan && (
+						<Alert severity="info" sx={{ mt: 2 }}>
+							Saving replaces the current plan. Links already sent for it will
+							stop working.
+						</Alert>
+					)}
+				</DialogContent>
+				<DialogActions>
+					<Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+					<Button
+						variant="contained"
+						onClick={handleSave}
+						disabled={saving || !!draftError}
+					>
+						Save Plan
+					</Button>
+				</DialogActions>
+			</Dialog>
+		</Card>
+	);
+}
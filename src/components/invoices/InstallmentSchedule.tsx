@@ -0,0 +1,91 @@
+'use client';
+
+import {
+	Box,
+	Button,
+	Chip,
+	List,
+	ListItem,
+	ListItemText,
+	Typography,
+} from '@mui/material';
+import { formatCurrency } from '@/lib/utils/formatting';
+import { formatDateSafeCustom } from '@/lib/utils/date-time-utils';
+import {
+	INSTALLMENT_STATUS_LABELS,
+	type InstallmentStatus,
+	type InstallmentWithStatus,
+} from '@/lib/utils/installments';
+
+interface InstallmentScheduleProps {
+	installments: InstallmentWithStatus[];
+	// Highlights the installment a payment link is for
+	selectedId?: string | null | undefined;
+	onSendLink?: ((installmentId: string) => void) | undefined;
+	sendingId?: string | null | undefined;
+}
+
+const STATUS_COLORS: Record<
+	InstallmentStatus,
+	'success' | 'error' | 'default'
+> = {
+	paid: 'success',
+	due: 'default',
+	late: 'error',
+};
+
+/**
+ * An invoice's installments in order, with what's been paid on each
+ */
+export default function InstallmentSchedule({
+	installments,
+	selectedId,
+	onSendLink,
+	sendingId,
+}: InstallmentScheduleProps) {
+	return (
+		<List dense disablePadding>
+			{installments.map((installment) => (
+				<ListItem
+					key={installment.id}
+					disableGutters
+					sx={
+						installment.id === selectedId
+							? { bgcolor: 'action.selected', borderRadius: 1, px: 1 }
+							: {}
+					}
+				>
+					<ListItemText
+						primary={`${installment.sequence}. ${formatCurrency(installment.amount_cents)} due ${formatDateSafeCustom(installment.due_date, 'MMM d, yyyy')}`}
+						secondary={
+							installment.status !== 'paid' && installment.paidCents > 0
+								? `${formatCurrency(installment.paidCents)} paid, ${formatCurrency(installment.remainingCents)} left`
+								: undefined
+						}
+					/>
+					<Box display="flex" alignItems="center" gap={1}>
+						{onSendLink && installment.status !== 'paid' && (
+							<Button
+								size="small"
+								onClick={() => onSendLink(installment.id)}
+								disabled={!!sendingId}
+							>
+								{sendingId === installment.id ? 'Sending...' : 'Send link'}
+							</Button>
+						)}
+						<Chip
+							size="small"
+							label={INSTALLMENT_STATUS_LABELS[installment.status]}
+							color={STATUS_COLORS[installment.status]}
+						/>
+					</Box>
+				</ListItem>
+			))}
+			{installments.length > 0 && (
+				<Typography variant="caption" color="text.secondary">
+					Payments count toward the earliest unpaid installment first
+				</Typography>
+			)}
+		</List>
+	);
+}
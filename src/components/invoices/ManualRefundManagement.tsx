@@ -66,16 +66,27 @@ export default function ManualRefundManagement({
 	onRefundComplete,
 	onOptimisticRefund,
 }: ManualRefundManagementProps) {
+	// Credit and gift card payments can only be refunded as store credit
+	const paidWithCredit =
+		payment.payment_method === 'store_credit' ||
+		payment.payment_method === 'gift_card';
+	const defaultRefundMethod = paidWithCredit
+		? 'store_credit'
+		: payment.payment_method === 'cash'
+			? 'cash'
+			: 'external_pos';
+
 	const [refundDialogOpen, setRefundDialogOpen] = useState(false);
 	const [refunding, setRefunding] = useState(false);
 	const [refundForm, setRefundForm] = useState({
 		amount: payment.amount_cents / 100,
 		reason: '',
 		type: 'full' as 'full' | 'partial',
-		method:
-			payment.payment_method === 'cash'
-				? 'cash'
-				: ('external_pos' as 'cash' | 'external_pos' | 'other'),
+		method: defaultRefundMethod as
+			| 'cash'
+			| 'external_pos'
+			| 'other'
+			| 'store_credit',
 	});
 
 	const canManualRefund = () => {
@@ -102,7 +113,7 @@ export default function ManualRefundManagement({
 			amount: remainingAmount,
 			reason: '',
 			type: remainingAmount === payment.amount_cents / 100 ? 'full' : 'partial',
-			method: payment.payment_method === 'cash' ? 'cash' : 'external_pos',
+			method: defaultRefundMethod,
 		});
 		setRefundDialogOpen(true);
 	};
@@ -225,6 +236,8 @@ export default function ManualRefundManagement({
 				return 'External POS Refund';
 			case 'other':
 				return 'Other Method';
+			case 'store_credit':
+				return 'Store Credit';
 			default:
 				return method;
 		}
@@ -366,13 +379,24 @@ export default function ManualRefundManagement({
 								onChange={(e) =>
 									setRefundForm((prev) => ({
 										...prev,
-										method: e.target.value as 'cash' | 'external_pos' | 'other',
+										method: e.target.value as
+											| 'cash'
+											| 'external_pos'
+											| 'other'
+											| 'store_credit',
 									}))
 								}
 							>
-								<MenuItem value="cash">Cash Refund</MenuItem>
-								<MenuItem value="external_pos">External POS Refund</MenuItem>
-								<MenuItem value="other">Other Method</MenuItem>
+								{!paidWithCredit && (
+									<MenuItem value="cash">Cash Refund</MenuItem>
+								)}
+								{!paidWithCredit && (
+									<MenuItem value="external_pos">External POS Refund</MenuItem>
+								)}
+								{!paidWithCredit && (
+									<MenuItem value="other">Other Method</MenuItem>
+								)}
+								<MenuItem value="store_credit">Store Credit</MenuItem>
 							</Select>
 						</FormControl>
 
@@ -394,14 +418,16 @@ export default function ManualRefundManagement({
 					</Box>
 
 					{/* Manual Refund Warning */}
-					<Alert severity="warning" sx={{ mt: 2 }} icon={<WarningIcon />}>
-						<Typography variant="body2">
-							<strong>Manual Refund:</strong> This will record the refund in
-							your system but will NOT process any automatic payment. You must
-							handle the actual refund to the customer separately (cash,
-							external POS system, etc.).
-						</Typography>
-					</Alert>
+					{refundForm.method !== 'store_credit' && (
+						<Alert severity="warning" sx={{ mt: 2 }} icon={<WarningIcon />}>
+							<Typography variant="body2">
+								<strong>Manual Refund:</strong> This will record the refund in
+								your system but will NOT process any automatic payment. You must
+								handle the actual refund to the customer separately (cash,
+								external POS system, etc.).
+							</Typography>
+						</Alert>
+					)}
 
 					{/* Refund Method Info */}
 					<Alert severity="info" sx={{ mt: 1 }} icon={<InfoIcon />}>
@@ -416,6 +442,8 @@ export default function ManualRefundManagement({
 								'• Process the refund through your external POS system'}
 							{refundForm.method === 'other' &&
 								'• Handle the refund using your preferred method'}
+							{refundForm.method === 'store_credit' &&
+								"• The amount is added to the client's store credit balance"}
 						</Typography>
 					</Alert>
 				</DialogContent>
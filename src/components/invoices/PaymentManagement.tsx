@@ -50,6 +50,8 @@ interface Payment {
 	payment_method: string;
 	amount_cents: number;
 	refunded_amount_cents?: number;
+	// Charged on top of amount_cents, not part of the invoice
+	tip_cents?: number | null;
 	status: string;
 	stripe_payment_intent_id?: string;
 	created_at: string;
@@ -235,6 +237,8 @@ export default function PaymentManagement({
 				return 'POS Refund';
 			case 'other':
 				return 'Other Refund';
+			case 'store_credit':
+				return 'Store Credit Refund';
 			default:
 				return method;
 		}
@@ -384,6 +388,14 @@ export default function PaymentManagement({
 																	? `− ${formatCurrency(Math.abs(payment.amount_cents))}`
 																	: `+ ${formatCurrency(payment.amount_cents)}`}
 															</Typography>
+															{!!payment.tip_cents && (
+																<Typography
+																	variant="caption"
+																	color="text.secondary"
+																>
+																	+ {formatCurrency(payment.tip_cents)} tip
+																</Typography>
+															)}
 														</Box>
 													</TableCell>
 													<TableCell>
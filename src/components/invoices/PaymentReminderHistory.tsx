@@ -0,0 +1,102 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+	Alert,
+	Box,
+	Card,
+	CardContent,
+	Chip,
+	List,
+	ListItem,
+	ListItemText,
+	Typography,
+} from '@mui/material';
+import {
+	getInvoicePaymentReminders,
+	type PaymentReminderHistoryItem,
+} from '@/lib/actions/payment-reminders';
+import { formatCurrency, formatDateTime } from '@/lib/utils/formatting';
+
+interface PaymentReminderHistoryProps {
+	invoiceId: string;
+	lastPaymentAt: string | null;
+}
+
+const STATUS_CHIPS: Record<
+	string,
+	{ label: string; color: 'success' | 'error' | 'default' }
+> = {
+	sent: { label: 'Sent', color: 'success' },
+	failed: { label: 'Failed', color: 'error' },
+	sending: { label: 'Sending', color: 'default' },
+};
+
+/**
+ * Overdue payment reminders sent for an invoice. Renders nothing until the
+ * schedule has reached the invoice.
+ */
+export default function PaymentReminderHistory({
+	invoiceId,
+	lastPaymentAt,
+}: PaymentReminderHistoryProps) {
+	const [reminders, setReminders] = useState<PaymentReminderHistoryItem[]>([]);
+	const [clientPaused, setClientPaused] = useState(false);
+
+	useEffect(() => {
+		getInvoicePaymentReminders(invoiceId).then((result) => {
+			if (result.success && result.data) {
+				setReminders(result.data.reminders);
+				setClientPaused(result.data.clientPaused);
+			}
+		});
+	}, [invoiceId]);
+
+	if (reminders.length === 0) return null;
+
+	return (
+		<Card sx={{ mt: 3 }}>
+			<CardContent>
+				<Typography variant="h6" gutterBottom>
+					Payment Reminders
+				</Typography>
+				{clientPaused && (
+					<Alert severity="warning" sx={{ mb: 1 }}>
+						Reminders are paused for this client
+					</Alert>
+				)}
+				{lastPaymentAt && (
+					<Alert severity="info" sx={{ mb: 1 }}>
+						A payment was recorded on {formatDateTime(lastPaymentAt)}. Reminders
+						due by then won&apos;t be sent; later ones will if money is still
+						owed.
+					</Alert>
+				)}
+				<List dense disablePadding>
+					{reminders.map((reminder) => {
+						const chip = STATUS_CHIPS[reminder.status] ?? STATUS_CHIPS.sending!;
+						return (
+							<ListItem key={reminder.id} disableGutters>
+								<ListItemText
+									primary={`${reminder.installment ? `Installment ${reminder.installment.sequence} · ` : ''}${reminder.days_after} days overdue · ${formatCurrency(reminder.balance_cents)} due`}
+									secondary={
+										<>
+											{formatDateTime(reminder.sent_at || reminder.created_at)}{' '}
+											to {reminder.recipient_email}
+											{reminder.error && (
+												<Box component="span" sx={{ display: 'block' }}>
+													{reminder.error}
+												</Box>
+											)}
+										</>
+									}
+								/>
+								<Chip size="small" label={chip.label} color={chip.color} />
+							</ListItem>
+						);
+					})}
+				</List>
+			</CardContent>
+		</Card>
+	);
+}
@@ -26,6 +26,7 @@ import {
 	Security as SecurityIcon,
 } from '@mui/icons-material';
 import { formatCurrency, formatDateTime } from '@/lib/utils/formatting';
+import { getDiscountLineLabel } from '@/lib/utils/discount-calculations';
 
 interface TransactionReceiptProps {
 	invoice: any;
@@ -43,6 +44,8 @@ export default function TransactionReceipt({
 	onEmailReceipt,
 }: TransactionReceiptProps) {
 	const [printing, setPrinting] = useState(false);
+	const discountCents: number = invoice?.order?.discount_cents || 0;
+	const discountLabel = getDiscountLineLabel(invoice?.order?.discount_code);
 
 	const handlePrint = () => {
 		setPrinting(true);
@@ -96,6 +99,17 @@ export default function TransactionReceipt({
             <span>${invoice.client.first_name} ${invoice.client.last_name}</span>
           </div>
           
+          ${
+						discountCents > 0
+							? `
+          <div class="row">
+            <span>${discountLabel}:</span>
+            <span>-${formatCurrency(discountCents)}</span>
+          </div>
+          `
+							: ''
+					}
+          
           <div class="line"></div>
           
           <div class="row">
@@ -190,6 +204,16 @@ export default function TransactionReceipt({
 										{invoice.client.first_name} {invoice.client.last_name}
 									</TableCell>
 								</TableRow>
+								{discountCents > 0 && (
+									<TableRow>
+										<TableCell>
+											<strong>{discountLabel}:</strong>
+										</TableCell>
+										<TableCell sx={{ color: 'success.main' }}>
+											-{formatCurrency(discountCents)}
+										</TableCell>
+									</TableRow>
+								)}
 								<TableRow>
 									<TableCell>
 										<strong>Payment Method:</strong>
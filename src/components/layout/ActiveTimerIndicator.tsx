@@ -0,0 +1,73 @@
+'use client';
+
+import { useState, type SyntheticEvent } from 'react';
+import Link from 'next/link';
+import { Box, Chip } from '@mui/material';
+import StopCircleIcon from '@mui/icons-material/StopCircle';
+import { useServiceTimer } from '@/providers/ServiceTimerProvider';
+import { useElapsedSeconds } from '@/hooks/useElapsedSeconds';
+import { formatTimerElapsed } from '@/lib/utils/service-timers';
+import { showErrorToast } from '@/lib/utils/toast';
+
+/**
+ * "Timer running" chip for the app bar. Links to the timed garment and stops
+ * the timer from its stop button.
+ */
+export function ActiveTimerIndicator({
+	compact = false,
+}: {
+	compact?: boolean;
+}) {
+	const { timer, stopTimer } = useServiceTimer();
+	const elapsed = useElapsedSeconds(timer?.startedAt);
+	const [stopping, setStopping] = useState(false);
+
+	if (!timer) return null;
+
+	const handleStop = async (event: SyntheticEvent) => {
+		// The chip is a link to the garment
+		event.preventDefault();
+		if (stopping) return;
+		setStopping(true);
+		const result = await stopTimer();
+		if (!result.success) {
+			showErrorToast(result.error || 'Failed to stop timer');
+		}
+		setStopping(false);
+	};
+
+	const time = formatTimerElapsed(elapsed);
+
+	return (
+		<Chip
+			component={Link}
+			href={`/garments/${timer.garmentId}`}
+			clickable
+			color="secondary"
+			size="small"
+			title={`Timer running: ${timer.serviceName} on ${timer.garmentName}`}
+			icon={
+				<Box
+					component="span"
+					aria-hidden="true"
+					sx={{
+						width: 8,
+						height: 8,
+						ml: '8px !important',
+						borderRadius: '50%',
+						bgcolor: 'error.main',
+						animation: 'timer-pulse 1.5s ease-in-out infinite',
+						'@keyframes timer-pulse': {
+							'0%, 100%': { opacity: 1 },
+							'50%': { opacity: 0.3 },
+						},
+					}}
+				/>
+			}
+			label={compact ? time : `${timer.serviceName} · ${time}`}
+			onDelete={handleStop}
+			deleteIcon={<StopCircleIcon aria-label="Stop timer" />}
+			sx={{ fontVariantNumeric: 'tabular-nums', maxWidth: 260 }}
+		/>
+	);
+}
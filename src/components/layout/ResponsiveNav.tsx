@@ -25,6 +25,7 @@ import { UserButton, useUser } from '@clerk/nextjs';
 import { Breadcrumbs } from './Breadcrumbs';
 import Image from 'next/image';
 import { Logo } from './Logo';
+import { ActiveTimerIndicator } from './ActiveTimerIndicator';
 
 // Icons
 import { useState } from 'react';
@@ -154,6 +155,7 @@ function MobileHeader() {
 					</Typography>
 				)}
 				<Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+					<ActiveTimerIndicator compact />
 					{user && (
 						<Typography
 							variant="body2"
@@ -278,6 +280,7 @@ function DesktopTopNav() {
 						})}
 					</Box>
 					<Box sx={{ ml: 2, display: 'flex', alignItems: 'center', gap: 1 }}>
+						<ActiveTimerIndicator />
 						{user && (
 							<Typography variant="body2" sx={{ mr: 1 }}>
 								{user.firstName && user.lastName
@@ -364,6 +367,7 @@ function TabletNav() {
 							<Logo height={28} />
 						</Box>
 						<Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+							<ActiveTimerIndicator />
 							{user && (
 								<Typography variant="body2" sx={{ mr: 1 }}>
 									{user.firstName && user.lastName
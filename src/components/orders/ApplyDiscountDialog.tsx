@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+import {
+	Dialog,
+	DialogTitle,
+	DialogContent,
+	DialogActions,
+	Button,
+	TextField,
+	Typography,
+	Alert,
+} from '@mui/material';
+import toast from 'react-hot-toast';
+import {
+	applyDiscountToOrder,
+	removeOrderDiscount,
+} from '@/lib/actions/discounts';
+import { formatCentsAsCurrency } from '@/lib/utils/currency';
+import { getDiscountLineLabel } from '@/lib/utils/discount-calculations';
+
+interface ApplyDiscountDialogProps {
+	open: boolean;
+	onClose: () => void;
+	onUpdated: () => void;
+	orderId: string;
+	currentDiscount: {
+		discountCents: number;
+		code?: string | null | undefined;
+	};
+}
+
+export default function ApplyDiscountDialog({
+	open,
+	onClose,
+	onUpdated,
+	orderId,
+	currentDiscount,
+}: ApplyDiscountDialogProps) {
+	const [code, setCode] = useState('');
+	const [error, setError] = useState<string | null>(null);
+	const [saving, setSaving] = useState(false);
+
+	const handleClose = () => {
+		setCode('');
+		setError(null);
+		onClose();
+	};
+
+	const handleApply = async () => {
+		setError(null);
+		setSaving(true);
+		const result = await applyDiscountToOrder({ orderId, code });
+		setSaving(false);
+
+		if (result.success) {
+			toast.success(
+				`Discount of ${formatCentsAsCurrency(result.discountCents || 0)} applied`
+			);
+			setCode('');
+			onUpdated();
+		} else {
+			setError(result.error || 'Failed to apply discount');
+		}
+	};
+
+	const handleRemove = async () => {
+		setError(null);
+		setSaving(true);
+		const result = await removeOrderDiscount(orderId);
+		setSaving(false);
+
+		if (result.success) {
+			toast.success('Discount removed');
+			onUpdated();
+		} else {
+			setError(result.error || 'Failed to remove discount');
+		}
+	};
+
+	return (
+		<Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+			<DialogTitle>Apply Discount</DialogTitle>
+			<DialogContent>
+				{currentDiscount.discountCents > 0 && (
+					<Alert severity="info" sx={{ mb: 2 }}>
+						{getDiscountLineLabel(currentDiscount.code)} of{' '}
+						{formatCentsAsCurrency(currentDiscount.discountCents)} is applied. A
+						new code replaces it.
+					</Alert>
+				)}
+				{error && (
+					<Alert severity="error" sx={{ mb: 2 }}>
+						{error}
+					</Alert>
+				)}
+				<TextField
+					autoFocus
+					fullWidth
+					label="Discount code"
+					value={code}
+					onChange={(e) => setCode(e.target.value.toUpperCase())}
+					sx={{ mt: 1 }}
+				/>
+				<Typography
+					variant="caption"
+					color="text.secondary"
+					sx={{ display: 'block', mt: 1 }}
+				>
+					Tax and the order total are recalculated after the discount.
+				</Typography>
+			</DialogContent>
+			<DialogActions>
+				{currentDiscount.discountCents > 0 && (
+					<Button
+						color="error"
+						onClick={handleRemove}
+						disabled={saving}
+						sx={{ mr: 'auto' }}
+					>
+						Remove Discount
+					</Button>
+				)}
+				<Button onClick={handleClose} disabled={saving}>
+					Cancel
+				</Button>
+				<Button
+					variant="contained"
+					onClick={handleApply}
+					disabled={!code.trim() || saving}
+				>
+					{saving ? 'Applying...' : 'Apply'}
+				</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
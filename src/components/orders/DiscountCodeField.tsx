@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import { Box, Button, Chip, TextField } from '@mui/material';
+import LocalOfferIcon from '@mui/icons-material/LocalOffer';
+import { findDiscountByCode } from '@/lib/actions/discounts';
+import {
+	describeDiscount,
+	type Discount,
+} from '@/lib/utils/discount-calculations';
+
+interface DiscountCodeFieldProps {
+	appliedDiscount?: Discount | undefined;
+	onApply: (discount: Discount) => void;
+	onRemove: () => void;
+}
+
+export default function DiscountCodeField({
+	appliedDiscount,
+	onApply,
+	onRemove,
+}: DiscountCodeFieldProps) {
+	const [code, setCode] = useState('');
+	const [error, setError] = useState<string | null>(null);
+	const [applying, setApplying] = useState(false);
+
+	const handleApply = async () => {
+		setError(null);
+		setApplying(true);
+		const result = await findDiscountByCode(code);
+		setApplying(false);
+
+		if (result.success && result.data) {
+			setCode('');
+			onApply(result.data);
+		} else {
+			setError(result.error || 'Discount code not found');
+		}
+	};
+
+	if (appliedDiscount) {
+		return (
+			<Chip
+				icon={<LocalOfferIcon />}
+				label={`${appliedDiscount.code} · ${describeDiscount(appliedDiscount)}`}
+				onDelete={onRemove}
+				color="success"
+				variant="outlined"
+				data-testid="applied-discount-code"
+			/>
+		);
+	}
+
+	return (
+		<Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+			<TextField
+				size="small"
+				placeholder="Discount code"
+				value={code}
+				onChange={(e) => {
+					setCode(e.target.value.toUpperCase());
+					setError(null);
+				}}
+				onKeyDown={(e) => {
+					if (e.key === 'Enter' && code.trim()) {
+						e.preventDefault();
+						handleApply();
+					}
+				}}
+				error={!!error}
+				helperText={error || ''}
+				inputProps={{ 'aria-label': 'Discount code' }}
+				sx={{ flex: 1 }}
+			/>
+			<Button
+				variant="outlined"
+				size="small"
+				onClick={handleApply}
+				disabled={!code.trim() || applying}
+				sx={{ height: 40 }}
+			>
+				{applying ? 'Checking...' : 'Apply'}
+			</Button>
+		</Box>
+	);
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Alert, Box, Button, Typography } from '@mui/material';
+import EventAvailableIcon from '@mui/icons-material/EventAvailable';
+import dayjs from 'dayjs';
+import type { GarmentDraft } from '@/contexts/OrderFlowContext';
+import { getCapacityPlan, type CapacityPlan } from '@/lib/actions/capacity';
+import {
+	estimateServiceMinutes,
+	getWeekLoadWith,
+	getWeekStart,
+	suggestDueDate,
+	type WorkloadWeek,
+} from '@/lib/utils/capacity-planning';
+import { formatDuration } from '@/lib/utils/calendar';
+
+interface DueDateGuidanceProps {
+	garment: GarmentDraft;
+	onUseDate: (date: string) => void;
+}
+
+function formatWeekWarning(week: WorkloadWeek, label: string) {
+	return `The week of ${dayjs(week.weekStart).format('MMM D')} (${label}) would have ${formatDuration(week.bookedMinutes)} of work booked against ${formatDuration(week.capacityMinutes)} of working time.`;
+}
+
+/**
+ * Earliest realistic due date for the garment given the work already queued,
+ * and warnings when the chosen dates land in an overbooked week
+ */
+export default function DueDateGuidance({
+	garment,
+	onUseDate,
+}: DueDateGuidanceProps) {
+	const [plan, setPlan] = useState<CapacityPlan | null>(null);
+
+	useEffect(() => {
+		let cancelled = false;
+		getCapacityPlan().then((result) => {
+			if (!cancelled && result.success && result.data) {
+				setPlan(result.data);
+			}
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, []);
+
+	const minutes = useMemo(
+		() =>
+			garment.services.reduce((sum, line) => {
+				const estimate = estimateServiceMinutes({
+					quantity: line.quantity,
+					unit: line.unit,
+					estimatedMinutes: line.serviceId
+						? plan?.serviceEstimates[line.serviceId]
+						: null,
+				});
+				return sum + (estimate ?? 0);
+			}, 0),
+		[garment.services, plan]
+	);
+
+	if (!plan) return null;
+
+	const { queue, dailyCapacityMinutes: capacity, today } = plan;
+	const suggested = suggestDueDate(queue, capacity, today, minutes);
+
+	const eventDate = garment.specialEvent ? garment.eventDate : undefined;
+	const dueWeek = garment.dueDate
+		? getWeekLoadWith(queue, capacity, today, garment.dueDate, minutes)
+		: null;
+	// Only checked separately when it falls in a different week
+	const eventWeek =
+		eventDate &&
+		(!dueWeek ||
+			getWeekStart(eventDate < today ? today : eventDate) !== dueWeek.weekStart)
+			? getWeekLoadWith(queue, capacity, today, eventDate, minutes)
+			: null;
+
+	const warnings: string[] = [];
+	if (suggested && garment.dueDate && garment.dueDate < suggested) {
+		warnings.push(
+			`With the work already queued, this garment realistically can't be ready before ${dayjs(suggested).format('ddd, MMM D')}.`
+		);
+	}
+	if (dueWeek?.overloaded) {
+		warnings.push(formatWeekWarning(dueWeek, 'due date'));
+	}
+	if (eventWeek?.overloaded) {
+		warnings.push(formatWeekWarning(eventWeek, 'event date'));
+	}
+
+	const canUseSuggestion =
+		!!suggested &&
+		suggested !== garment.dueDate &&
+		(!eventDate || suggested <= eventDate);
+
+	return (
+		<Box sx={{ mt: 1.5 }}>
+			{suggested ? (
+				<Box
+					sx={{
+						display: 'flex',
+						alignItems: 'center',
+						justifyContent: 'space-between',
+						gap: 1,
+						flexWrap: 'wrap',
+					}}
+				>
+					<Typography
+						variant="body2"
+						color="text.secondary"
+						sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}
+					>
+						<EventAvailableIcon fontSize="small" />
+						Earliest realistic due date:{' '}
+						<strong>{dayjs(suggested).format('ddd, MMM D')}</strong>
+						{minutes > 0
+							? ` (${formatDuration(minutes)} of work)`
+							: ' for the work already queued'}
+					</Typography>
+					{canUseSuggestion && (
+						<Button size="small" onClick={() => onUseDate(suggested)}>
+							Use this date
+						</Button>
+					)}
+				</Box>
+			) : (
+				<Typography variant="body2" color="text.secondary">
+					{capacity.some((dayMinutes) => dayMinutes > 0)
+						? 'No realistic due date within the next year.'
+						: 'Set your shop hours to get due date suggestions.'}
+				</Typography>
+			)}
+
+			{warnings.length > 0 && (
+				<Alert severity="warning" sx={{ mt: 1 }}>
+					{warnings.map((warning) => (
+						<Typography key={warning} variant="body2">
+							{warning}
+						</Typography>
+					))}
+				</Alert>
+			)}
+		</Box>
+	);
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+	Box,
+	FormControl,
+	InputLabel,
+	MenuItem,
+	Select,
+	Typography,
+} from '@mui/material';
+import { useOrderFlow, type GarmentDraft } from '@/contexts/OrderFlowContext';
+import { getClientMeasurements } from '@/lib/actions/measurements';
+import { formatDateSafe } from '@/lib/utils/date-time-utils';
+import {
+	buildMeasurementSnapshot,
+	formatMeasurement,
+	type MeasurementField,
+	type MeasurementRecord,
+} from '@/lib/utils/measurement-calculations';
+
+interface GarmentMeasurementPickerProps {
+	garment: GarmentDraft;
+	onChange: (measurementId: string | undefined) => void;
+}
+
+/**
+ * Picks one of the client's measurement records to copy onto the garment
+ */
+export default function GarmentMeasurementPicker({
+	garment,
+	onChange,
+}: GarmentMeasurementPickerProps) {
+	const { orderDraft } = useOrderFlow();
+	const clientId = orderDraft.clientId;
+	const [records, setRecords] = useState<MeasurementRecord[] | null>(null);
+	const [fields, setFields] = useState<MeasurementField[]>([]);
+
+	useEffect(() => {
+		if (!clientId) return;
+		let cancelled = false;
+		getClientMeasurements(clientId).then((result) => {
+			if (!cancelled && result.success && result.data) {
+				setRecords(result.data.records);
+				setFields(result.data.fields);
+			}
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [clientId]);
+
+	if (!records) return null;
+
+	if (records.length === 0) {
+		return (
+			<Typography variant="body2" color="text.secondary">
+				No measurements on file for this client. Add them from the client&apos;s
+				Measurements tab.
+			</Typography>
+		);
+	}
+
+	const selected = records.find(
+		(record) => record.id === garment.measurementId
+	);
+	const snapshot = selected ? buildMeasurementSnapshot(selected, fields) : null;
+
+	return (
+		<Box>
+			<FormControl fullWidth>
+				<InputLabel>Attach measurements</InputLabel>
+				<Select
+					value={selected?.id ?? ''}
+					label="Attach measurements"
+					onChange={(e) => onChange(e.target.value || undefined)}
+				>
+					<MenuItem value="">None</MenuItem>
+					{records.map((record) => (
+						<MenuItem key={record.id} value={record.id}>
+							Taken {formatDateSafe(record.measuredOn)}
+						</MenuItem>
+					))}
+				</Select>
+			</FormControl>
+			{snapshot && (
+				<Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+					{snapshot.values.length > 0
+						? snapshot.values
+								.map(
+									({ label, value }) =>
+										`${label} ${formatMeasurement(value, snapshot.unit)}`
+								)
+								.join(' · ')
+						: 'No values recorded'}
+				</Typography>
+			)}
+		</Box>
+	);
+}
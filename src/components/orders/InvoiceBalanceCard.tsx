@@ -18,6 +18,9 @@ import {
   Warning as WarningIcon,
 } from '@mui/icons-material';
 import { getInvoiceBalance } from '@/lib/actions/invoice-sync';
+import { getInvoiceInstallments } from '@/lib/actions/installments';
+import InstallmentSchedule from '@/components/invoices/InstallmentSchedule';
+import type { InstallmentWithStatus } from '@/lib/utils/installments';
 
 interface InvoiceBalanceCardProps {
   orderId: string;
@@ -43,6 +46,7 @@ export default function InvoiceBalanceCard({
   const [balance, setBalance] = useState<InvoiceBalance | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [installments, setInstallments] = useState<InstallmentWithStatus[]>([]);
 
   useEffect(() => {
     const fetchBalance = async () => {
@@ -50,6 +54,11 @@ export default function InvoiceBalanceCard({
         const result = await getInvoiceBalance(orderId);
         if (result.success && result.balance) {
           setBalance(result.balance);
+
+          const plan = await getInvoiceInstallments(result.balance.invoiceId);
+          if (plan.success && plan.data) {
+            setInstallments(plan.data.installments);
+          }
         } else {
           setError(result.error || 'Failed to load balance');
         }
@@ -206,6 +215,16 @@ export default function InvoiceBalanceCard({
           </Box>
         )}
 
+        {/* Installment Plan */}
+        {installments.length > 0 && (
+          <Box mb={2}>
+            <Typography variant="subtitle2" gutterBottom>
+              Payment Plan
+            </Typography>
+            <InstallmentSchedule installments={installments} />
+          </Box>
+        )}
+
         {/* Work Authorization Status */}
         <Alert
           severity={balance.canStartWork ? 'success' : 'warning'}
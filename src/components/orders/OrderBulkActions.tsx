@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+import {
+	Button,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogContentText,
+	DialogTitle,
+	TextField,
+} from '@mui/material';
+import { BulkActionBar } from '@/components/common/BulkActionBar';
+import { BulkResultsDialog } from '@/components/common/BulkResultsDialog';
+import { useBulkAction } from '@/hooks/useBulkAction';
+import {
+	bulkCancelOrders,
+	bulkSendPaymentReminders,
+} from '@/lib/actions/bulk-actions';
+
+interface SelectedOrder {
+	id: string;
+	order_number?: string | null;
+	client?: { first_name: string; last_name: string } | null;
+}
+
+interface OrderBulkActionsProps {
+	selected: SelectedOrder[];
+	total: number;
+	onSelectAll: () => void;
+	onClear: () => void;
+	// Called after each run with the orders that failed
+	onFinished: (failedIds: string[]) => void;
+}
+
+export default function OrderBulkActions({
+	selected,
+	total,
+	onSelectAll,
+	onClear,
+	onFinished,
+}: OrderBulkActionsProps) {
+	const [cancelOpen, setCancelOpen] = useState(false);
+	const [reason, setReason] = useState('');
+	const { busy, run, report, closeReport } = useBulkAction(onFinished);
+
+	const ids = selected.map((order) => order.id);
+	const labels = Object.fromEntries(
+		selected.map((order) => [
+			order.id,
+			`#${order.order_number || order.id.slice(0, 4)} (${
+				order.client
+					? `${order.client.first_name} ${order.client.last_name}`
+					: 'No client'
+			})`,
+		])
+	);
+	const orders = (count: number) => `${count} order${count === 1 ? '' : 's'}`;
+
+	const handleCancel = () => {
+		setCancelOpen(false);
+		run(
+			'Cancel orders',
+			() => bulkCancelOrders(ids, reason.trim() || undefined),
+			(count) => `Cancelled ${orders(count)}`
+		);
+		setReason('');
+	};
+
+	return (
+		<>
+			<BulkActionBar
+				count={selected.length}
+				total={total}
+				noun="order"
+				busy={busy}
+				onSelectAll={onSelectAll}
+				onClear={onClear}
+			>
+				<Button
+					variant="outlined"
+					size="small"
+					disabled={busy}
+					onClick={() =>
+						run(
+							'Send payment reminders',
+							() => bulkSendPaymentReminders(ids),
+							(count) => `Sent payment reminders for ${orders(count)}`
+						)
+					}
+				>
+					Send Payment Reminders
+				</Button>
+				<Button
+					variant="outlined"
+					size="small"
+					disabled={busy}
+					href={`/api/export/orders?ids=${ids.join(',')}`}
+				>
+					Export
+				</Button>
+				<Button
+					variant="outlined"
+					color="error"
+					size="small"
+					disabled={busy}
+					onClick={() => setCancelOpen(true)}
+				>
+					Cancel Orders
+				</Button>
+			</BulkActionBar>
+
+			<Dialog
+				open={cancelOpen}
+				onClose={() => setCancelOpen(false)}
+				maxWidth="xs"
+				fullWidth
+			>
+				<DialogTitle>Cancel {orders(selected.length)}?</DialogTitle>
+				<DialogContent>
+					<DialogContentText sx={{ mb: 2 }}>
+						Completed and already cancelled orders will be skipped.
+					</DialogContentText>
+					<TextField
+						fullWidth
+						multiline
+						minRows={2}
+						label="Reason (optional)"
+						value={reason}
+						onChange={(e) => setReason(e.target.value)}
+					/>
+				</DialogContent>
+				<DialogActions>
+					<Button onClick={() => setCancelOpen(false)}>Keep Orders</Button>
+					<Button variant="contained" color="error" onClick={handleCancel}>
+						Cancel Orders
+					</Button>
+				</DialogActions>
+			</Dialog>
+
+			<BulkResultsDialog
+				open={!!report}
+				title={report?.title || ''}
+				results={report?.results || []}
+				labels={labels}
+				onClose={closeReport}
+			/>
+		</>
+	);
+}
@@ -39,6 +39,8 @@ import Step3Summary from './steps/Step3Summary';
 import { createOrder } from '@/lib/actions/orders';
 import { createOrderWithPayment } from '@/lib/actions/orders-with-payment';
 import OrderPaymentDialog from './OrderPaymentDialog';
+import { calculateRequiredDeposit } from '@/lib/utils/deposit-calculations';
+import { calculateOrderTotals } from '@/lib/utils/discount-calculations';
 
 const steps = ['Select Client', 'Add Garments & Services', 'Review & Confirm'];
 
@@ -58,6 +60,8 @@ export default function OrderFlowStepper() {
 		resetOrder,
 		updateOrderDraft,
 		taxPercent, // Use tax percent from context (server-fetched)
+		depositPolicy,
+		calculateTotal,
 	} = useOrderFlow();
 
 	const getSubmitButtonText = () => {
@@ -78,6 +82,8 @@ export default function OrderFlowStepper() {
 					return 'Create Order & Record Cash Payment';
 				case 'external_pos':
 					return 'Create Order & Record POS Payment';
+				case 'store_credit':
+					return 'Create Order & Apply Store Credit';
 				default:
 					return 'Create Order';
 			}
@@ -121,6 +127,7 @@ export default function OrderFlowStepper() {
 			const orderData = {
 				clientId: orderDraft.clientId,
 				discountCents: orderDraft.discountCents,
+				discountCode: orderDraft.appliedDiscount?.code,
 				notes: orderDraft.notes,
 				taxPercent: taxPercent, // Already in percent form (7.5 for 7.5%)
 				timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
@@ -135,6 +142,7 @@ export default function OrderFlowStepper() {
 						imageCloudId:
 							garment.imageCloudId || garment.cloudinaryPublicId || undefined,
 						imageUrl: garment.imageUrl || undefined,
+						measurementId: garment.measurementId || undefined,
 						services: garment.services.map((service: ServiceLine) => ({
 							quantity: service.quantity,
 							unit: service.unit,
@@ -170,9 +178,11 @@ export default function OrderFlowStepper() {
 					)
 				);
 			}, 0);
-			const afterDiscount = subtotal - orderDraft.discountCents;
-			const taxAmount = Math.round((afterDiscount * taxPercent) / 100);
-			const totalAmount = afterDiscount + taxAmount;
+			const {
+				afterDiscountCents: afterDiscount,
+				taxCents: taxAmount,
+				totalCents: totalAmount,
+			} = calculateOrderTotals(subtotal, orderDraft.discountCents, taxPercent);
 
 			// Debug: Log what we're sending
 			console.log('💰 Order submission data:', {
@@ -285,6 +295,19 @@ export default function OrderFlowStepper() {
 				) {
 					return false;
 				}
+				// Collecting part of the total now must cover the required deposit
+				if (
+					orderDraft.paymentIntent.collectNow &&
+					orderDraft.paymentIntent.depositAmount !== undefined &&
+					orderDraft.paymentIntent.depositAmount <
+						calculateRequiredDeposit(
+							depositPolicy,
+							orderDraft.garments.flatMap((g) => g.services),
+							calculateTotal(taxPercent)
+						)
+				) {
+					return false;
+				}
 				return true;
 			default:
 				return false;
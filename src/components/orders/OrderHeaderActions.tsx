@@ -15,10 +15,16 @@ import MoreVertIcon from '@mui/icons-material/MoreVert';
 import CancelIcon from '@mui/icons-material/Cancel';
 import RestoreIcon from '@mui/icons-material/Restore';
 import ReceiptIcon from '@mui/icons-material/Receipt';
+import LinkIcon from '@mui/icons-material/Link';
+import LinkOffIcon from '@mui/icons-material/LinkOff';
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import toast from 'react-hot-toast';
 import { cancelOrder, restoreOrder } from '@/lib/actions/orders-cancellation';
+import {
+	getOrderStatusLink,
+	revokeOrderStatusLinks,
+} from '@/lib/actions/order-status';
 import CancelOrderDialog from './CancelOrderDialog';
 import type { Database } from '@/types/supabase';
 
@@ -54,12 +60,6 @@ export default function OrderHeaderActions({
 	const canCancel =
 		order.status !== 'completed' && order.status !== 'cancelled';
 	const canRestore = order.status === 'cancelled';
-	const showMoreMenu = canCancel || canRestore;
-
-	// If there's no invoice and no actions available, don't render anything
-	if (!invoice && !showMoreMenu) {
-		return null;
-	}
 
 	const handleMenuOpen = (event: React.MouseEvent<HTMLElement>) => {
 		setAnchorEl(event.currentTarget);
@@ -100,6 +100,43 @@ export default function OrderHeaderActions({
 		}
 	};
 
+	const handleCopyStatusLink = async () => {
+		handleMenuClose();
+		setIsLoading(true);
+		try {
+			const result = await getOrderStatusLink(order.id);
+			if (result.success && result.url) {
+				await navigator.clipboard.writeText(result.url);
+				toast.success('Client status link copied');
+			} else {
+				toast.error(result.error || 'Failed to create status link');
+			}
+		} catch (error) {
+			console.error('Error copying status link:', error);
+			toast.error('An unexpected error occurred');
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	const handleRevokeStatusLinks = async () => {
+		handleMenuClose();
+		setIsLoading(true);
+		try {
+			const result = await revokeOrderStatusLinks(order.id);
+			if (result.success) {
+				toast.success('Status links revoked');
+			} else {
+				toast.error(result.error || 'Failed to revoke status links');
+			}
+		} catch (error) {
+			console.error('Error revoking status links:', error);
+			toast.error('An unexpected error occurred');
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
 	const handleRestoreOrder = async () => {
 		handleMenuClose();
 		setIsLoading(true);
@@ -143,22 +180,21 @@ export default function OrderHeaderActions({
 					</Button>
 				)}
 
-				{/* More actions menu for cancel/restore */}
-				{showMoreMenu && (
-					<IconButton
-						onClick={handleMenuOpen}
-						disabled={isLoading}
-						sx={{
-							border: '1px solid',
-							borderColor: 'divider',
-							'&:hover': {
-								bgcolor: 'action.hover',
-							},
-						}}
-					>
-						{isLoading ? <CircularProgress size={20} /> : <MoreVertIcon />}
-					</IconButton>
-				)}
+				{/* More actions menu for status link and cancel/restore */}
+				<IconButton
+					aria-label="More order actions"
+					onClick={handleMenuOpen}
+					disabled={isLoading}
+					sx={{
+						border: '1px solid',
+						borderColor: 'divider',
+						'&:hover': {
+							bgcolor: 'action.hover',
+						},
+					}}
+				>
+					{isLoading ? <CircularProgress size={20} /> : <MoreVertIcon />}
+				</IconButton>
 			</Box>
 
 			<Menu
@@ -174,6 +210,22 @@ export default function OrderHeaderActions({
 					horizontal: 'right',
 				}}
 			>
+				<MenuItem onClick={handleCopyStatusLink} disabled={isLoading}>
+					<ListItemIcon>
+						<LinkIcon fontSize="small" />
+					</ListItemIcon>
+					<ListItemText>Copy Client Status Link</ListItemText>
+				</MenuItem>
+
+				<MenuItem onClick={handleRevokeStatusLinks} disabled={isLoading}>
+					<ListItemIcon>
+						<LinkOffIcon fontSize="small" />
+					</ListItemIcon>
+					<ListItemText>Revoke Status Links</ListItemText>
+				</MenuItem>
+
+				{(canCancel || canRestore) && <Divider />}
+
 				{canCancel && (
 					<MenuItem onClick={handleCancelClick} disabled={isLoading}>
 						<ListItemIcon>
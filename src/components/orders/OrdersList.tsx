@@ -28,12 +28,14 @@ import {
 	TableHead,
 	TableRow,
 	LinearProgress,
+	Checkbox,
 } from '@mui/material';
 import SearchIcon from '@mui/icons-material/Search';
 import ChevronRightIcon from '@mui/icons-material/ChevronRight';
 import PersonIcon from '@mui/icons-material/Person';
 import { useRouter } from 'next/navigation';
 import { useDebounce } from '@/hooks/useDebounce';
+import OrderBulkActions from '@/components/orders/OrderBulkActions';
 import { format } from 'date-fns';
 import type { PaginatedOrders, OrdersFilters } from '@/lib/actions/orders';
 import type { Database } from '@/types/supabase';
@@ -187,9 +189,16 @@ const getStatusLabel = (status: string) => {
 interface OrderTableRowProps {
 	order: any;
 	onClick: (orderId: string) => void;
+	selected: boolean;
+	onToggleSelected: (orderId: string) => void;
 }
 
-function OrderTableRow({ order, onClick }: OrderTableRowProps) {
+function OrderTableRow({
+	order,
+	onClick,
+	selected,
+	onToggleSelected,
+}: OrderTableRowProps) {
 	const clientName = order.client
 		? `${order.client.first_name} ${order.client.last_name}`
 		: 'No Client';
@@ -243,6 +252,17 @@ function OrderTableRow({ order, onClick }: OrderTableRowProps) {
 			}}
 			onClick={() => onClick(order.id)}
 		>
+			{/* Selection */}
+			<TableCell padding="checkbox" onClick={(e) => e.stopPropagation()}>
+				<Checkbox
+					checked={selected}
+					onChange={() => onToggleSelected(order.id)}
+					inputProps={{
+						'aria-label': `Select order ${order.order_number || order.id}`,
+					}}
+				/>
+			</TableCell>
+
 			{/* Order Number */}
 			<TableCell>
 				<Typography variant="body2" fontWeight="bold">
@@ -496,6 +516,9 @@ export default function OrdersList({
 	const [rowsPerPage, setRowsPerPage] = useState(initialData.pageSize);
 	const [isInitialLoad, setIsInitialLoad] = useState(true);
 	const [isFiltering, setIsFiltering] = useState(false);
+	const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+	// Bumped to reload the current page after a bulk action
+	const [reloadKey, setReloadKey] = useState(0);
 
 	const debouncedSearch = useDebounce(search, 300);
 	const getOrdersActionRef = useRef(getOrdersAction);
@@ -567,6 +590,7 @@ export default function OrdersList({
 		statusFilter,
 		paymentStatusFilter,
 		isInitialLoad,
+		reloadKey,
 	]);
 
 	const handleChangePage = (_event: unknown, newPage: number) => {
@@ -588,6 +612,28 @@ export default function OrdersList({
 	// No need to estimate here anymore
 	const ordersWithPaymentInfo = data.data;
 
+	const selectedOrders = data.data.filter((order) => selectedIds.has(order.id));
+	const allSelected =
+		data.data.length > 0 && selectedOrders.length === data.data.length;
+
+	const toggleSelected = (orderId: string) => {
+		setSelectedIds((prev) => {
+			const next = new Set(prev);
+			if (next.has(orderId)) next.delete(orderId);
+			else next.add(orderId);
+			return next;
+		});
+	};
+
+	const selectAll = () =>
+		setSelectedIds(new Set(data.data.map((order) => order.id)));
+
+	// Failed orders stay selected so they can be retried
+	const handleBulkFinished = (failedIds: string[]) => {
+		setSelectedIds(new Set(failedIds));
+		setReloadKey((key) => key + 1);
+	};
+
 	return (
 		<Box data-testid="orders-list">
 			{/* Filters */}
@@ -680,6 +726,7 @@ export default function OrdersList({
 						<Table>
 							<TableHead>
 								<TableRow>
+									<TableCell padding="checkbox" />
 									<TableCell>Order #</TableCell>
 									<TableCell>Client & Garments</TableCell>
 									<TableCell align="center">Due Date</TableCell>
@@ -692,6 +739,7 @@ export default function OrdersList({
 							<TableBody>
 								{Array.from({ length: rowsPerPage }).map((_, index) => (
 									<TableRow key={index}>
+										<TableCell padding="checkbox" />
 										<TableCell>
 											<Skeleton variant="text" width="60%" />
 										</TableCell>
@@ -742,6 +790,16 @@ export default function OrdersList({
 						<Table>
 							<TableHead>
 								<TableRow>
+									<TableCell padding="checkbox">
+										<Checkbox
+											checked={allSelected}
+											indeterminate={selectedOrders.length > 0 && !allSelected}
+											onChange={() =>
+												allSelected ? setSelectedIds(new Set()) : selectAll()
+											}
+											inputProps={{ 'aria-label': 'Select all orders' }}
+										/>
+									</TableCell>
 									<TableCell>Order #</TableCell>
 									<TableCell>Client & Garments</TableCell>
 									<TableCell align="center">Due Date</TableCell>
@@ -757,6 +815,8 @@ export default function OrdersList({
 										key={order.id}
 										order={order}
 										onClick={handleCardClick}
+										selected={selectedIds.has(order.id)}
+										onToggleSelected={toggleSelected}
 									/>
 								))}
 							</TableBody>
@@ -765,6 +825,14 @@ export default function OrdersList({
 				)}
 			</Box>
 
+			<OrderBulkActions
+				selected={selectedOrders}
+				total={data.data.length}
+				onSelectAll={selectAll}
+				onClear={() => setSelectedIds(new Set())}
+				onFinished={handleBulkFinished}
+			/>
+
 			{/* Pagination */}
 			<Paper elevation={1} sx={{ mt: 3 }}>
 				<TablePagination
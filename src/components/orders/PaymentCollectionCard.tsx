@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
 	Card,
 	CardContent,
@@ -33,23 +33,29 @@ import {
 	AttachMoney as MoneyIcon,
 	Check as CheckIcon,
 	CheckCircle as CheckCircleIcon,
+	Redeem as StoreCreditIcon,
 } from '@mui/icons-material';
 import { DatePicker } from '@mui/x-date-pickers';
 import dayjs, { Dayjs } from 'dayjs';
 import StripePaymentForm from './StripePaymentForm';
 import { formatCurrency } from '@/lib/utils/currency';
+import { getClientStoreCredit } from '@/lib/actions/store-credit';
 
 interface PaymentCollectionCardProps {
 	totalAmount: number;
+	// Deposit the shop's policy requires; the smallest amount that can be collected now
+	requiredDepositCents?: number;
 	clientEmail: string;
+	// Offers the client's store credit as a way to pay when they have some
+	clientId?: string | undefined;
 	onPaymentMethodSelect: (
-		method: 'stripe' | 'cash' | 'external_pos' | 'send_invoice'
+		method: 'stripe' | 'cash' | 'external_pos' | 'store_credit' | 'send_invoice'
 	) => void;
 	onPaymentIntentChange: (paymentIntent: any) => void;
 	onStripePaymentSuccess: (paymentMethodId: string) => void;
 	initialPaymentIntent?: {
 		collectNow: boolean;
-		method?: 'stripe' | 'cash' | 'external_pos';
+		method?: 'stripe' | 'cash' | 'external_pos' | 'store_credit';
 		depositAmount?: number;
 		dueDate?: Date;
 		notes?: string;
@@ -63,6 +69,9 @@ interface PaymentCollectionCardProps {
 // Amount Selection Component
 interface AmountSelectionSectionProps {
 	totalAmount: number;
+	depositAmount: number;
+	depositLabel: string;
+	minimumCents: number;
 	paymentAmount: 'full' | 'deposit' | 'custom';
 	customAmount: string;
 	onAmountChange: (amount: 'full' | 'deposit' | 'custom') => void;
@@ -71,6 +80,9 @@ interface AmountSelectionSectionProps {
 
 function AmountSelectionSection({
 	totalAmount,
+	depositAmount,
+	depositLabel,
+	minimumCents,
 	paymentAmount,
 	customAmount,
 	onAmountChange,
@@ -164,11 +176,11 @@ function AmountSelectionSection({
 									fontWeight: paymentAmount === 'deposit' ? 600 : 400,
 								}}
 							>
-								50% Deposit
+								{depositLabel}
 							</Typography>
 						</Box>
 						<Typography variant="h6" color="primary">
-							{formatCurrency(totalAmount / 2 / 100)}
+							{formatCurrency(depositAmount / 100)}
 						</Typography>
 					</Box>
 				</Card>
@@ -221,6 +233,12 @@ function AmountSelectionSection({
 								type="number"
 								fullWidth
 								placeholder="Enter amount"
+								error={isBelowMinimum(customAmount, minimumCents)}
+								helperText={
+									minimumCents > 0
+										? `At least ${formatCurrency(minimumCents / 100)}`
+										: undefined
+								}
 								InputProps={{
 									startAdornment: (
 										<InputAdornment position="start">$</InputAdornment>
@@ -241,9 +259,19 @@ function AmountSelectionSection({
 	);
 }
 
+// A custom amount must cover the required deposit
+function isBelowMinimum(customAmount: string, minimumCents: number) {
+	return (
+		customAmount !== '' &&
+		Math.round(parseFloat(customAmount) * 100) < minimumCents
+	);
+}
+
 export default function PaymentCollectionCard({
 	totalAmount,
+	requiredDepositCents = 0,
 	clientEmail,
+	clientId,
 	onPaymentMethodSelect,
 	onPaymentIntentChange,
 	onStripePaymentSuccess,
@@ -252,6 +280,14 @@ export default function PaymentCollectionCard({
 	const theme = useTheme();
 	const isDesktop = useMediaQuery(theme.breakpoints.up('lg'));
 
+	// The shop's deposit policy replaces the suggested 50% deposit
+	const depositAmount =
+		requiredDepositCents > 0
+			? requiredDepositCents
+			: Math.round(totalAmount / 2);
+	const depositLabel =
+		requiredDepositCents > 0 ? 'Required Deposit' : '50% Deposit';
+
 	// Initialize state from initialPaymentIntent if provided
 	const [collectNow, setCollectNow] = useState<boolean | null>(
 		initialPaymentIntent?.collectNow ?? null
@@ -264,14 +300,14 @@ export default function PaymentCollectionCard({
 		'full' | 'deposit' | 'custom'
 	>(
 		initialPaymentIntent?.depositAmount
-			? initialPaymentIntent.depositAmount === Math.round(totalAmount / 2)
+			? initialPaymentIntent.depositAmount === depositAmount
 				? 'deposit'
 				: 'custom'
 			: 'full'
 	);
 	const [customAmount, setCustomAmount] = useState<string>(
 		initialPaymentIntent?.depositAmount &&
-			initialPaymentIntent.depositAmount !== Math.round(totalAmount / 2) &&
+			initialPaymentIntent.depositAmount !== depositAmount &&
 			initialPaymentIntent.depositAmount !== totalAmount
 			? (initialPaymentIntent.depositAmount / 100).toFixed(2)
 			: ''
@@ -287,11 +323,24 @@ export default function PaymentCollectionCard({
 	const [externalReference, setExternalReference] = useState(
 		initialPaymentIntent?.externalReference || ''
 	);
+	const [storeCreditCents, setStoreCreditCents] = useState(0);
+
+	useEffect(() => {
+		if (!clientId) {
+			setStoreCreditCents(0);
+			return;
+		}
+		getClientStoreCredit(clientId).then((result) => {
+			setStoreCreditCents(
+				result.success && result.data ? result.data.balanceCents : 0
+			);
+		});
+	}, [clientId]);
 
 	// Calculate actual payment amount
 	const getPaymentAmount = () => {
 		if (paymentAmount === 'full') return totalAmount;
-		if (paymentAmount === 'deposit') return Math.round(totalAmount / 2);
+		if (paymentAmount === 'deposit') return depositAmount;
 		return parseFloat(customAmount || '0') * 100;
 	};
 
@@ -328,6 +377,19 @@ export default function PaymentCollectionCard({
 		// Don't change step - keep both payment method and amount selection visible
 		onPaymentMethodSelect(method as any);
 
+		// Credit can only cover what the client has, so start from that
+		if (method === 'store_credit' && getPaymentAmount() > storeCreditCents) {
+			const creditAmount = Math.min(storeCreditCents, totalAmount);
+			setPaymentAmount(creditAmount === totalAmount ? 'full' : 'custom');
+			setCustomAmount((creditAmount / 100).toFixed(2));
+			onPaymentIntentChange({
+				collectNow: true,
+				method,
+				depositAmount: creditAmount !== totalAmount ? creditAmount : undefined,
+			});
+			return;
+		}
+
 		// Update payment intent
 		onPaymentIntentChange({
 			collectNow: true,
@@ -342,8 +404,7 @@ export default function PaymentCollectionCard({
 	const handleAmountChange = (amount: 'full' | 'deposit' | 'custom') => {
 		setPaymentAmount(amount);
 		if (amount !== 'custom') {
-			const paymentValue =
-				amount === 'full' ? totalAmount : Math.round(totalAmount / 2);
+			const paymentValue = amount === 'full' ? totalAmount : depositAmount;
 			onPaymentIntentChange({
 				collectNow: true,
 				method: paymentMethod as any,
@@ -819,6 +880,141 @@ export default function PaymentCollectionCard({
 													sx={{ m: 0, p: 0, width: '100%' }}
 												/>
 											</Paper>
+											{/* Store Credit Option */}
+											{storeCreditCents > 0 && (
+												<Paper
+													elevation={0}
+													sx={{
+														position: 'relative',
+														overflow: 'hidden',
+														cursor: 'pointer',
+														border: 2,
+														borderColor:
+															paymentMethod === 'store_credit'
+																? 'secondary.main'
+																: 'divider',
+														borderRadius: 2,
+														transition: 'all 0.3s ease',
+														backgroundColor:
+															paymentMethod === 'store_credit'
+																? alpha(theme.palette.secondary.main, 0.08)
+																: 'background.paper',
+														'&:hover': {
+															borderColor:
+																paymentMethod === 'store_credit'
+																	? 'secondary.main'
+																	: alpha(theme.palette.secondary.main, 0.5),
+															backgroundColor:
+																paymentMethod === 'store_credit'
+																	? alpha(theme.palette.secondary.main, 0.08)
+																	: alpha(theme.palette.secondary.main, 0.04),
+															transform: 'translateY(-2px)',
+															boxShadow: 4,
+														},
+													}}
+													onClick={() =>
+														handlePaymentMethodChange('store_credit')
+													}
+												>
+													<FormControlLabel
+														value="external_pos"
+														control={
+															<Radio
+																sx={{
+																	position: 'absolute',
+																	opacity: 0,
+																	width: 0,
+																	height: 0,
+																}}
+															/>
+														}
+														label={
+															<Box
+																sx={{
+																	display: 'flex',
+																	alignItems: 'center',
+																	py: 2,
+																	px: 2.5,
+																	width: '100%',
+																}}
+															>
+																<Box
+																	sx={{
+																		display: 'flex',
+																		alignItems: 'center',
+																		justifyContent: 'center',
+																		width: 40,
+																		height: 40,
+																		borderRadius: '50%',
+																		backgroundColor:
+																			paymentMethod === 'store_credit'
+																				? 'secondary.main'
+																				: alpha(
+																						theme.palette.secondary.main,
+																						0.1
+																					),
+																		transition: 'all 0.3s ease',
+																		mr: 2,
+																	}}
+																>
+																	<StoreCreditIcon
+																		sx={{
+																			fontSize: 24,
+																			color:
+																				paymentMethod === 'store_credit'
+																					? 'secondary.contrastText'
+																					: 'secondary.main',
+																			transition: 'color 0.3s ease',
+																		}}
+																	/>
+																</Box>
+																<Box sx={{ flexGrow: 1 }}>
+																	<Typography
+																		variant="body1"
+																		sx={{
+																			fontWeight:
+																				paymentMethod === 'store_credit'
+																					? 600
+																					: 500,
+																			color:
+																				paymentMethod === 'store_credit'
+																					? 'secondary.main'
+																					: 'text.primary',
+																			transition: 'all 0.3s ease',
+																		}}
+																	>
+																		Store Credit
+																	</Typography>
+																	<Typography
+																		variant="caption"
+																		sx={{
+																			color: 'text.secondary',
+																			display: 'block',
+																		}}
+																	>
+																		{formatCurrency(storeCreditCents / 100)}{' '}
+																		available
+																	</Typography>
+																</Box>
+																{paymentMethod === 'store_credit' && (
+																	<CheckCircleIcon
+																		sx={{
+																			color: 'secondary.main',
+																			fontSize: 24,
+																			animation: 'scaleIn 0.3s ease',
+																			'@keyframes scaleIn': {
+																				'0%': { transform: 'scale(0)' },
+																				'100%': { transform: 'scale(1)' },
+																			},
+																		}}
+																	/>
+																)}
+															</Box>
+														}
+														sx={{ m: 0, p: 0, width: '100%' }}
+													/>
+												</Paper>
+											)}
 										</RadioGroup>
 									</Box>
 
@@ -931,14 +1127,14 @@ export default function PaymentCollectionCard({
 																		paymentAmount === 'deposit' ? 600 : 400,
 																}}
 															>
-																50% Deposit
+																{depositLabel}
 															</Typography>
 														</Box>
 														<Typography
 															variant="body1"
 															sx={{ fontWeight: 600, color: 'primary.main' }}
 														>
-															{formatCurrency(totalAmount / 2 / 100)}
+															{formatCurrency(depositAmount / 100)}
 														</Typography>
 													</Box>
 												</Paper>
@@ -997,6 +1193,10 @@ export default function PaymentCollectionCard({
 																	handleCustomAmountChange(e.target.value)
 																}
 																type="number"
+																error={isBelowMinimum(
+																	customAmount,
+																	requiredDepositCents
+																)}
 																InputProps={{
 																	startAdornment: (
 																		<InputAdornment position="start">
@@ -1047,6 +1247,22 @@ export default function PaymentCollectionCard({
 												</Alert>
 											)}
 
+											{paymentMethod === 'store_credit' && (
+												<Alert
+													severity={
+														getPaymentAmount() > storeCreditCents
+															? 'error'
+															: 'info'
+													}
+													sx={{ mt: 2 }}
+													icon={<StoreCreditIcon />}
+												>
+													{getPaymentAmount() > storeCreditCents
+														? `Only ${formatCurrency(storeCreditCents / 100)} of store credit is available`
+														: "Paid from the client's store credit balance"}
+												</Alert>
+											)}
+
 											{/* Payment Summary Box */}
 											{paymentMethod &&
 												paymentAmount &&
@@ -1081,7 +1297,9 @@ export default function PaymentCollectionCard({
 																		? 'Card'
 																		: paymentMethod === 'cash'
 																			? 'Cash'
-																			: 'External POS'}
+																			: paymentMethod === 'store_credit'
+																				? 'Store Credit'
+																				: 'External POS'}
 																</Typography>
 															</Box>
 															<Box
@@ -1422,6 +1640,47 @@ export default function PaymentCollectionCard({
 									</Typography>
 								</Box>
 							</Card>
+							{storeCreditCents > 0 && (
+								<Card
+									sx={{
+										p: 2,
+										flex: 1,
+										cursor: 'pointer',
+										border: 2,
+										borderColor:
+											paymentMethod === 'store_credit'
+												? 'primary.main'
+												: 'transparent',
+										bgcolor:
+											paymentMethod === 'store_credit'
+												? alpha(theme.palette.primary.main, 0.05)
+												: 'transparent',
+										transition: 'all 0.2s',
+										'&:hover': {
+											borderColor: 'primary.main',
+										},
+									}}
+									onClick={() => handlePaymentMethodChange('store_credit')}
+								>
+									<Box sx={{ textAlign: 'center' }}>
+										<StoreCreditIcon
+											sx={{
+												fontSize: 40,
+												color:
+													paymentMethod === 'store_credit'
+														? 'primary.main'
+														: 'text.secondary',
+											}}
+										/>
+										<Typography variant="h6" sx={{ mt: 1 }}>
+											Credit
+										</Typography>
+										<Typography variant="body2" color="text.secondary">
+											{formatCurrency(storeCreditCents / 100)} available
+										</Typography>
+									</Box>
+								</Card>
+							)}
 						</Stack>
 
 						{/* Amount Selection - Always visible when payment method is selected */}
@@ -1429,6 +1688,9 @@ export default function PaymentCollectionCard({
 							<>
 								<AmountSelectionSection
 									totalAmount={totalAmount}
+									depositAmount={depositAmount}
+									depositLabel={depositLabel}
+									minimumCents={requiredDepositCents}
 									paymentAmount={paymentAmount}
 									customAmount={customAmount}
 									onAmountChange={handleAmountChange}
@@ -1468,6 +1730,19 @@ export default function PaymentCollectionCard({
 										A secure payment form will be shown to collect card details.
 									</Alert>
 								)}
+
+								{paymentMethod === 'store_credit' && (
+									<Alert
+										severity={
+											getPaymentAmount() > storeCreditCents ? 'error' : 'info'
+										}
+										sx={{ mt: 2 }}
+									>
+										{getPaymentAmount() > storeCreditCents
+											? `Only ${formatCurrency(storeCreditCents / 100)} of store credit is available.`
+											: "The payment will be taken from the client's store credit balance."}
+									</Alert>
+								)}
 							</>
 						)}
 					</Box>
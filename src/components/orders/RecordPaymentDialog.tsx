@@ -24,6 +24,11 @@ import { useState, useEffect, useCallback } from 'react';
 import { formatCentsAsCurrency } from '@/lib/utils/currency';
 import { recordManualPayment } from '@/lib/actions/invoices';
 import { createPaymentIntent } from '@/lib/actions/payments';
+import {
+  getInvoiceStoreCredit,
+  lookupGiftCard,
+  payWithStoreCredit,
+} from '@/lib/actions/store-credit';
 import toast from 'react-hot-toast';
 import { loadStripe } from '@stripe/stripe-js';
 import {
@@ -73,7 +78,7 @@ export default function RecordPaymentDialog({
   );
   const [customAmount, setCustomAmount] = useState('');
   const [paymentMethod, setPaymentMethod] = useState<
-    'cash' | 'external_pos' | 'check' | 'stripe'
+    'cash' | 'external_pos' | 'check' | 'stripe' | 'store_credit' | 'gift_card'
   >('cash');
   const [externalReference, setExternalReference] = useState('');
   const [notes, setNotes] = useState('');
@@ -86,6 +91,10 @@ export default function RecordPaymentDialog({
   );
   const [stripePromise, setStripePromise] = useState<any>(null);
   const [creatingStripeIntent, setCreatingStripeIntent] = useState(false);
+  // Available store credit, or the balance of the gift card that was looked up
+  const [creditCents, setCreditCents] = useState<number | null>(null);
+  const [giftCardCode, setGiftCardCode] = useState('');
+  const [checkingCredit, setCheckingCredit] = useState(false);
 
   // Calculate amount based on payment type
   const paymentAmount =
@@ -168,6 +177,30 @@ export default function RecordPaymentDialog({
     invoiceId,
   ]);
 
+  useEffect(() => {
+    setCreditCents(null);
+    if (paymentMethod !== 'store_credit' || !invoiceId) return;
+
+    setCheckingCredit(true);
+    getInvoiceStoreCredit(invoiceId)
+      .then((result) => setCreditCents(result.success ? (result.data ?? 0) : 0))
+      .finally(() => setCheckingCredit(false));
+  }, [paymentMethod, invoiceId]);
+
+  const handleCheckGiftCard = async () => {
+    if (!giftCardCode.trim()) return;
+
+    setCheckingCredit(true);
+    const result = await lookupGiftCard(giftCardCode);
+    if (result.success && result.data) {
+      setCreditCents(result.data.balanceCents);
+    } else {
+      setCreditCents(null);
+      toast.error(result.error || 'Gift card not found');
+    }
+    setCheckingCredit(false);
+  };
+
   // Early return if no invoice ID
   if (!invoiceId) {
     return (
@@ -210,14 +243,22 @@ export default function RecordPaymentDialog({
 
     // Server action function
     const serverAction = () =>
-      recordManualPayment({
-        invoiceId,
-        paymentType: paymentType === 'balance_due' ? 'remainder' : 'custom',
-        amountCents: paymentAmount,
-        paymentMethod: paymentMethod as 'cash' | 'external_pos' | 'check',
-        ...(externalReference && { externalReference }),
-        ...(notes && { notes }),
-      });
+      paymentMethod === 'store_credit' || paymentMethod === 'gift_card'
+        ? payWithStoreCredit({
+            invoiceId,
+            paymentType: paymentType === 'balance_due' ? 'remainder' : 'custom',
+            amountCents: paymentAmount,
+            ...(paymentMethod === 'gift_card' && { giftCardCode }),
+            ...(notes && { notes }),
+          })
+        : recordManualPayment({
+            invoiceId,
+            paymentType: paymentType === 'balance_due' ? 'remainder' : 'custom',
+            amountCents: paymentAmount,
+            paymentMethod: paymentMethod as 'cash' | 'external_pos' | 'check',
+            ...(externalReference && { externalReference }),
+            ...(notes && { notes }),
+          });
 
     try {
       if (onOptimisticPayment) {
@@ -250,6 +291,8 @@ export default function RecordPaymentDialog({
     setPaymentMethod('cash');
     setExternalReference('');
     setNotes('');
+    setCreditCents(null);
+    setGiftCardCode('');
     setStripeClientSecret(null);
     setConnectedAccountId(null);
     setStripePromise(null);
@@ -260,7 +303,15 @@ export default function RecordPaymentDialog({
     return formatCentsAsCurrency(cents);
   };
 
-  const isValidAmount = paymentAmount > 0 && paymentAmount <= amountDue;
+  const paysWithCredit =
+    paymentMethod === 'store_credit' || paymentMethod === 'gift_card';
+  const creditShortfall =
+    paysWithCredit && creditCents !== null && paymentAmount > creditCents;
+
+  const isValidAmount =
+    paymentAmount > 0 &&
+    paymentAmount <= amountDue &&
+    (!paysWithCredit || (creditCents !== null && !creditShortfall));
 
   return (
     <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
@@ -334,13 +385,16 @@ export default function RecordPaymentDialog({
             <Select
               value={paymentMethod}
               label="Payment Method"
-              onChange={(e) =>
-                setPaymentMethod(e.target.value as typeof paymentMethod)
-              }
+              onChange={(e) => {
+                setPaymentMethod(e.target.value as typeof paymentMethod);
+                setGiftCardCode('');
+              }}
             >
               <MenuItem value="cash">Cash</MenuItem>
               <MenuItem value="check">Check</MenuItem>
               <MenuItem value="external_pos">External POS</MenuItem>
+              <MenuItem value="store_credit">Store Credit</MenuItem>
+              <MenuItem value="gift_card">Gift Card</MenuItem>
               {invoiceId && publishableKey && (
                 <MenuItem value="stripe">Credit/Debit Card (Stripe)</MenuItem>
               )}
@@ -421,6 +475,58 @@ export default function RecordPaymentDialog({
             />
           )}
 
+          {/* Gift card code, checked for its balance */}
+          {paymentMethod === 'gift_card' && (
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+              <TextField
+                fullWidth
+                label="Gift Card Code"
+                value={giftCardCode}
+                onChange={(e) => {
+                  setGiftCardCode(e.target.value);
+                  setCreditCents(null);
+                }}
+                placeholder="e.g., HMSY-7KQ2-XW4P"
+              />
+              <Button
+                variant="outlined"
+                onClick={handleCheckGiftCard}
+                disabled={checkingCredit || !giftCardCode.trim()}
+                sx={{ height: 56, flexShrink: 0 }}
+              >
+                Check Balance
+              </Button>
+            </Box>
+          )}
+
+          {/* Credit available for store credit and gift card payments */}
+          {paysWithCredit &&
+            (checkingCredit ? (
+              <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+                <CircularProgress size={24} />
+              </Box>
+            ) : (
+              creditCents !== null && (
+                <Alert severity={creditShortfall ? 'error' : 'info'}>
+                  <Typography variant="body2">
+                    <strong>
+                      {paymentMethod === 'gift_card'
+                        ? 'Gift Card Balance:'
+                        : 'Available Store Credit:'}
+                    </strong>{' '}
+                    {formatAmountForDisplay(creditCents)}
+                    {creditShortfall && (
+                      <>
+                        <br />
+                        Not enough to cover this payment. Use a custom amount of
+                        up to {formatAmountForDisplay(creditCents)}.
+                      </>
+                    )}
+                  </Typography>
+                </Alert>
+              )
+            ))}
+
           {/* Notes field for non-Stripe payments */}
           {paymentMethod !== 'stripe' && (
             <TextField
@@ -23,6 +23,8 @@ import PresetGarmentIconModal, {
 } from '../PresetGarmentIconModal';
 import { getPresetIconUrl, getPresetIconLabel } from '@/utils/presetIcons';
 import SafeCldImage from '@/components/ui/SafeCldImage';
+import DueDateGuidance from '../DueDateGuidance';
+import GarmentMeasurementPicker from '../GarmentMeasurementPicker';
 
 interface GarmentDetailsStepProps {
 	garment: GarmentDraft;
@@ -368,6 +370,16 @@ export default function GarmentDetailsStepImproved({
 										},
 									}}
 								/>
+								<DueDateGuidance
+									garment={garment}
+									onUseDate={(date) => {
+										setDateValidationError((prev) => {
+											const { dueDate, ...rest } = prev;
+											return rest;
+										});
+										onGarmentUpdate({ dueDate: date });
+									}}
+								/>
 
 								{/* Special Event Checkbox */}
 								<Box sx={{ mt: 2 }}>
@@ -593,6 +605,19 @@ export default function GarmentDetailsStepImproved({
 								)}
 							</Box>
 
+							{/* Measurements Section */}
+							<Box>
+								<Typography variant="subtitle2" sx={{ mb: 2, fontWeight: 600 }}>
+									Measurements
+								</Typography>
+								<GarmentMeasurementPicker
+									garment={garment}
+									onChange={(measurementId) =>
+										onGarmentUpdate({ measurementId })
+									}
+								/>
+							</Box>
+
 							{/* Notes Section */}
 							<Box>
 								<Typography variant="subtitle2" sx={{ mb: 2, fontWeight: 600 }}>
@@ -53,6 +53,16 @@ import { getPresetIconUrl } from '@/utils/presetIcons';
 import { resolveGarmentDisplayImage } from '@/utils/displayImage';
 import PaymentCollectionCard from '../PaymentCollectionCard';
 import { formatPhoneNumber } from '@/lib/utils/phone';
+import {
+	NO_DEPOSIT_POLICY,
+	calculateRequiredDeposit,
+} from '@/lib/utils/deposit-calculations';
+import {
+	calculateDiscountCents,
+	calculateOrderTotals,
+	type Discount,
+} from '@/lib/utils/discount-calculations';
+import DiscountCodeField from '../DiscountCodeField';
 
 // Helper Components
 interface CollapsibleSectionProps {
@@ -299,6 +309,7 @@ export default function Step3Summary({
 		calculateSubtotal,
 		calculateTotal,
 		taxPercent,
+		depositPolicy = NO_DEPOSIT_POLICY,
 	} = useOrderFlow();
 	const theme = useTheme();
 	const isDesktop = useMediaQuery(theme.breakpoints.up('lg'));
@@ -323,6 +334,34 @@ export default function Step3Summary({
 		updateOrderDraft({ discountCents: result.cents });
 	};
 
+	// A discount code's amount follows the services on the order
+	const { appliedDiscount } = orderDraft;
+	const serviceLines = orderDraft.garments.flatMap((g) => g.services);
+	const codeDiscountCents = appliedDiscount
+		? calculateDiscountCents(appliedDiscount, serviceLines)
+		: null;
+
+	useEffect(() => {
+		if (
+			codeDiscountCents !== null &&
+			codeDiscountCents !== orderDraft.discountCents
+		) {
+			setDiscountDollars((codeDiscountCents / 100).toFixed(2));
+			updateOrderDraft({ discountCents: codeDiscountCents });
+		}
+	}, [codeDiscountCents, orderDraft.discountCents, updateOrderDraft]);
+
+	const handleApplyDiscountCode = (discount: Discount) => {
+		const discountCents = calculateDiscountCents(discount, serviceLines);
+		setDiscountDollars((discountCents / 100).toFixed(2));
+		updateOrderDraft({ appliedDiscount: discount, discountCents });
+	};
+
+	const handleRemoveDiscountCode = () => {
+		setDiscountDollars('0.00');
+		updateOrderDraft({ appliedDiscount: undefined, discountCents: 0 });
+	};
+
 	const handleQuickDiscount = (percent: number) => {
 		const discountAmount = (subtotal * percent) / 100;
 		const discountDollars = (discountAmount / 100).toFixed(2);
@@ -331,13 +370,20 @@ export default function Step3Summary({
 		updateOrderDraft({ discountCents: Math.max(0, discountAmount) });
 	};
 
-	// Ensure afterDiscount is never negative (defensive programming)
-	const afterDiscount = Math.max(0, subtotal - orderDraft.discountCents);
-	const taxAmount = Math.round((afterDiscount * taxPercent) / 100);
-	const total = afterDiscount + taxAmount;
+	// Tax is charged on the amount after discount, which is never negative
+	const { taxCents: taxAmount, totalCents: total } = calculateOrderTotals(
+		subtotal,
+		orderDraft.discountCents,
+		taxPercent
+	);
+	const requiredDepositCents = calculateRequiredDeposit(
+		depositPolicy,
+		serviceLines,
+		total
+	);
 
 	const handlePaymentMethodSelect = (
-		method: 'stripe' | 'cash' | 'external_pos' | 'send_invoice'
+		method: 'stripe' | 'cash' | 'external_pos' | 'store_credit' | 'send_invoice'
 	) => {
 		console.log('Payment method selected:', method);
 	};
@@ -441,7 +487,9 @@ export default function Step3Summary({
 				{/* Payment Collection */}
 				<PaymentCollectionCard
 					totalAmount={total}
+					requiredDepositCents={requiredDepositCents}
 					clientEmail={orderDraft.client?.email || ''}
+					clientId={orderDraft.clientId}
 					onPaymentMethodSelect={handlePaymentMethodSelect}
 					onPaymentIntentChange={handlePaymentIntentChange}
 					onStripePaymentSuccess={handleStripePaymentSuccess}
@@ -514,6 +562,7 @@ export default function Step3Summary({
 											size="small"
 											value={discountDollars}
 											onChange={handleDiscountChange}
+											disabled={!!appliedDiscount}
 											error={discountError}
 											InputProps={{
 												startAdornment: '$',
@@ -533,6 +582,7 @@ export default function Step3Summary({
 										size="small"
 										variant="outlined"
 										onClick={() => handleQuickDiscount(10)}
+										disabled={!!appliedDiscount}
 									>
 										-10%
 									</Button>
@@ -540,6 +590,7 @@ export default function Step3Summary({
 										size="small"
 										variant="outlined"
 										onClick={() => handleQuickDiscount(15)}
+										disabled={!!appliedDiscount}
 									>
 										-15%
 									</Button>
@@ -547,10 +598,18 @@ export default function Step3Summary({
 										size="small"
 										variant="outlined"
 										onClick={() => handleQuickDiscount(20)}
+										disabled={!!appliedDiscount}
 									>
 										-20%
 									</Button>
 								</Box>
+								<Box sx={{ mt: 1.5 }}>
+									<DiscountCodeField
+										appliedDiscount={appliedDiscount}
+										onApply={handleApplyDiscountCode}
+										onRemove={handleRemoveDiscountCode}
+									/>
+								</Box>
 							</Box>
 
 							{taxAmount > 0 && (
@@ -601,11 +660,22 @@ export default function Step3Summary({
 								</Button>
 							</Box>
 
-							{total > 500 && (
-								<Alert severity="info" icon={<MoneyIcon />}>
-									Consider collecting a 50% deposit (
-									{formatCurrency(total / 2 / 100)})
+							{requiredDepositCents > 0 ? (
+								<Alert
+									severity="warning"
+									icon={<MoneyIcon />}
+									data-testid="required-deposit"
+								>
+									A deposit of {formatCurrency(requiredDepositCents / 100)} is
+									required before work starts
 								</Alert>
+							) : (
+								total > 500 && (
+									<Alert severity="info" icon={<MoneyIcon />}>
+										Consider collecting a 50% deposit (
+										{formatCurrency(total / 2 / 100)})
+									</Alert>
+								)
 							)}
 						</Stack>
 					</CardContent>
@@ -742,6 +812,7 @@ export default function Step3Summary({
 								size="small"
 								value={discountDollars}
 								onChange={handleDiscountChange}
+								disabled={!!appliedDiscount}
 								InputProps={{
 									startAdornment: '$',
 								}}
@@ -753,6 +824,7 @@ export default function Step3Summary({
 								size="small"
 								variant="outlined"
 								onClick={() => handleQuickDiscount(10)}
+								disabled={!!appliedDiscount}
 							>
 								-10%
 							</Button>
@@ -760,6 +832,7 @@ export default function Step3Summary({
 								size="small"
 								variant="outlined"
 								onClick={() => handleQuickDiscount(15)}
+								disabled={!!appliedDiscount}
 							>
 								-15%
 							</Button>
@@ -767,10 +840,18 @@ export default function Step3Summary({
 								size="small"
 								variant="outlined"
 								onClick={() => handleQuickDiscount(20)}
+								disabled={!!appliedDiscount}
 							>
 								-20%
 							</Button>
 						</Box>
+						<Box sx={{ mt: 1.5 }}>
+							<DiscountCodeField
+								appliedDiscount={appliedDiscount}
+								onApply={handleApplyDiscountCode}
+								onRemove={handleRemoveDiscountCode}
+							/>
+						</Box>
 					</Box>
 
 					{taxAmount > 0 && (
@@ -793,11 +874,22 @@ export default function Step3Summary({
 						</Typography>
 					</Box>
 
-					{total > 500 && (
-						<Alert severity="info" icon={<MoneyIcon />}>
-							Consider collecting a 50% deposit (
-							{formatCurrency(total / 2 / 100)})
+					{requiredDepositCents > 0 ? (
+						<Alert
+							severity="warning"
+							icon={<MoneyIcon />}
+							data-testid="required-deposit"
+						>
+							A deposit of {formatCurrency(requiredDepositCents / 100)} is
+							required before work starts
 						</Alert>
+					) : (
+						total > 500 && (
+							<Alert severity="info" icon={<MoneyIcon />}>
+								Consider collecting a 50% deposit (
+								{formatCurrency(total / 2 / 100)})
+							</Alert>
+						)
 					)}
 				</Stack>
 			</CollapsibleSection>
@@ -836,7 +928,9 @@ export default function Step3Summary({
 			>
 				<PaymentCollectionCard
 					totalAmount={total}
+					requiredDepositCents={requiredDepositCents}
 					clientEmail={orderDraft.client?.email || ''}
+					clientId={orderDraft.clientId}
 					onPaymentMethodSelect={handlePaymentMethodSelect}
 					onPaymentIntentChange={handlePaymentIntentChange}
 					onStripePaymentSuccess={handleStripePaymentSuccess}
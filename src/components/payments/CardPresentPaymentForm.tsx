@@ -14,7 +14,11 @@ import {
   Typography,
   Alert,
   CircularProgress,
+  Divider,
 } from '@mui/material';
+import { formatCurrency } from '@/lib/utils/formatting';
+import { calculateTipCents, type TipChoice } from '@/lib/utils/tips';
+import TipSelector from './TipSelector';
 
 // Initialize Stripe with card-present optimized settings
 const stripePromise = loadStripe(
@@ -61,6 +65,8 @@ const cardElementOptions = {
 interface CardPresentPaymentFormProps {
   invoiceId: string;
   amountCents: number;
+  // Pre-tax part of amountCents that percentage tips are based on
+  tipBaseCents?: number;
   onSuccess: (paymentIntentId: string) => void;
   onError: (error: string) => void;
 }
@@ -68,6 +74,7 @@ interface CardPresentPaymentFormProps {
 function PaymentForm({
   invoiceId,
   amountCents,
+  tipBaseCents = amountCents,
   onSuccess,
   onError,
 }: CardPresentPaymentFormProps) {
@@ -77,6 +84,9 @@ function PaymentForm({
   const [error, setError] = useState<string | null>(null);
   const [cardComplete, setCardComplete] = useState(false);
   const [cardError, setCardError] = useState<string | null>(null);
+  const [tip, setTip] = useState<TipChoice>({ kind: 'none' });
+
+  const tipCents = calculateTipCents(tipBaseCents, tip);
 
   // Set up card element event listeners
   useEffect(() => {
@@ -138,8 +148,9 @@ function PaymentForm({
         },
         body: JSON.stringify({
           invoiceId,
-          paymentType: 'full',
+          paymentType: 'custom',
           amountCents,
+          tipCents,
           // Card-present specific metadata
           metadata: {
             payment_context: 'card_present_merchant_assisted',
@@ -212,6 +223,37 @@ function PaymentForm({
         Card Payment - ${(amountCents / 100).toFixed(2)}
       </Typography>
 
+      <Box sx={{ mb: 2 }}>
+        <TipSelector
+          baseCents={tipBaseCents}
+          value={tip}
+          onChange={setTip}
+          disabled={processing}
+        />
+      </Box>
+
+      {tipCents > 0 && (
+        <Box sx={{ mb: 2 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Typography variant="body2">Payment</Typography>
+            <Typography variant="body2">
+              {formatCurrency(amountCents)}
+            </Typography>
+          </Box>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Typography variant="body2">Tip</Typography>
+            <Typography variant="body2">{formatCurrency(tipCents)}</Typography>
+          </Box>
+          <Divider sx={{ my: 1 }} />
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Typography variant="subtitle2">Total to charge</Typography>
+            <Typography variant="subtitle2">
+              {formatCurrency(amountCents + tipCents)}
+            </Typography>
+          </Box>
+        </Box>
+      )}
+
       <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
         Please insert, tap, or swipe the customer&apos;s card
       </Typography>
@@ -249,7 +291,9 @@ function PaymentForm({
         startIcon={processing ? <CircularProgress size={20} /> : null}
         sx={{ mt: 2 }}
       >
-        {processing ? 'Processing Payment...' : 'Charge Card'}
+        {processing
+          ? 'Processing Payment...'
+          : `Charge ${formatCurrency(amountCents + tipCents)}`}
       </Button>
 
       <Typography
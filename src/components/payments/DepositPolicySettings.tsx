@@ -0,0 +1,308 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+	Typography,
+	Box,
+	TextField,
+	Button,
+	Alert,
+	CircularProgress,
+	FormControl,
+	FormHelperText,
+	InputLabel,
+	InputAdornment,
+	Select,
+	MenuItem,
+	IconButton,
+	Skeleton,
+} from '@mui/material';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import {
+	getDepositSettings,
+	updateDepositSettings,
+	type DepositSettings,
+} from '@/lib/actions/deposits';
+import type { DepositType } from '@/lib/utils/deposit-calculations';
+
+const DEPOSIT_TYPES: Array<{ value: DepositType; label: string }> = [
+	{ value: 'none', label: 'No deposit' },
+	{ value: 'fixed', label: 'Fixed amount' },
+	{ value: 'percentage', label: 'Percentage of total' },
+];
+
+interface RuleDraft {
+	type: DepositType;
+	// Dollars or percent, as typed
+	value: string;
+}
+
+interface OverrideDraft extends RuleDraft {
+	serviceId: string;
+}
+
+function toRuleDraft(rule: {
+	type: DepositType;
+	fixedCents: number;
+	percent: number;
+}): RuleDraft {
+	return {
+		type: rule.type,
+		value:
+			rule.type === 'fixed'
+				? (rule.fixedCents / 100).toFixed(2)
+				: rule.type === 'percentage'
+					? String(rule.percent)
+					: '',
+	};
+}
+
+function fromRuleDraft(draft: RuleDraft) {
+	const value = parseFloat(draft.value) || 0;
+	return {
+		type: draft.type,
+		fixedCents: draft.type === 'fixed' ? Math.round(value * 100) : 0,
+		percent: draft.type === 'percentage' ? value : 0,
+	};
+}
+
+function RuleFields({
+	draft,
+	onChange,
+	label,
+}: {
+	draft: RuleDraft;
+	onChange: (draft: RuleDraft) => void;
+	label: string;
+}) {
+	return (
+		<Box sx={{ display: 'flex', gap: 2, flex: 1 }}>
+			<FormControl sx={{ minWidth: 200 }} size="small">
+				<InputLabel>{label}</InputLabel>
+				<Select
+					value={draft.type}
+					label={label}
+					onChange={(e) =>
+						onChange({ type: e.target.value as DepositType, value: '' })
+					}
+				>
+					{DEPOSIT_TYPES.map((type) => (
+						<MenuItem key={type.value} value={type.value}>
+							{type.label}
+						</MenuItem>
+					))}
+				</Select>
+			</FormControl>
+			{draft.type !== 'none' && (
+				<TextField
+					size="small"
+					type="number"
+					label={draft.type === 'fixed' ? 'Amount' : 'Percent'}
+					value={draft.value}
+					onChange={(e) => onChange({ ...draft, value: e.target.value })}
+					inputProps={{
+						min: 0,
+						step: draft.type === 'fixed' ? 0.01 : 1,
+						...(draft.type === 'percentage' ? { max: 100 } : {}),
+					}}
+					InputProps={
+						draft.type === 'fixed'
+							? {
+									startAdornment: (
+										<InputAdornment position="start">$</InputAdornment>
+									),
+								}
+							: {
+									endAdornment: (
+										<InputAdornment position="end">%</InputAdornment>
+									),
+								}
+					}
+					sx={{ width: 140 }}
+				/>
+			)}
+		</Box>
+	);
+}
+
+export function DepositPolicySettings() {
+	const [loading, setLoading] = useState(true);
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [success, setSuccess] = useState(false);
+
+	const [services, setServices] = useState<DepositSettings['services']>([]);
+	const [shopRule, setShopRule] = useState<RuleDraft>({
+		type: 'none',
+		value: '',
+	});
+	const [overrides, setOverrides] = useState<OverrideDraft[]>([]);
+
+	useEffect(() => {
+		async function loadSettings() {
+			const result = await getDepositSettings();
+			if (result.success && result.data) {
+				setServices(result.data.services);
+				setShopRule(toRuleDraft(result.data));
+				setOverrides(
+					result.data.services.flatMap((service) =>
+						service.override
+							? [{ serviceId: service.id, ...toRuleDraft(service.override) }]
+							: []
+					)
+				);
+			} else {
+				setError(result.error || 'Failed to load deposit settings');
+			}
+			setLoading(false);
+		}
+		loadSettings();
+	}, []);
+
+	const availableServices = services.filter(
+		(service) => !overrides.some((o) => o.serviceId === service.id)
+	);
+
+	const getServiceName = (serviceId: string) =>
+		services.find((service) => service.id === serviceId)?.name || 'Service';
+
+	const handleSave = async () => {
+		setError(null);
+		setSuccess(false);
+		setSaving(true);
+
+		const result = await updateDepositSettings({
+			...fromRuleDraft(shopRule),
+			serviceOverrides: overrides.map((override) => ({
+				serviceId: override.serviceId,
+				...fromRuleDraft(override),
+			})),
+		});
+
+		if (result.success) {
+			setSuccess(true);
+			// Clear success message after 3 seconds
+			setTimeout(() => setSuccess(false), 3000);
+		} else {
+			setError(result.error || 'Failed to save deposit settings');
+		}
+		setSaving(false);
+	};
+
+	if (loading) {
+		return (
+			<Box>
+				<Skeleton variant="text" width={180} height={28} sx={{ mb: 2 }} />
+				<Skeleton
+					variant="rectangular"
+					width="100%"
+					height={56}
+					sx={{ borderRadius: 1 }}
+				/>
+			</Box>
+		);
+	}
+
+	return (
+		<Box>
+			<Typography variant="h6" gutterBottom>
+				Deposits
+			</Typography>
+			<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+				Require a deposit when an order is created. Garments stay in New until
+				the deposit is paid, unless you override it with a reason.
+			</Typography>
+
+			{error && (
+				<Alert severity="error" sx={{ mb: 2 }}>
+					{error}
+				</Alert>
+			)}
+			{success && (
+				<Alert severity="success" sx={{ mb: 2 }}>
+					Deposit settings saved successfully!
+				</Alert>
+			)}
+
+			<RuleFields
+				draft={shopRule}
+				onChange={setShopRule}
+				label="Deposit policy"
+			/>
+
+			<Typography variant="subtitle2" sx={{ mt: 3, mb: 1 }}>
+				Service overrides
+			</Typography>
+			<FormHelperText sx={{ mt: 0, mb: 2 }}>
+				These services use their own deposit instead of the policy above.
+			</FormHelperText>
+
+			<Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+				{overrides.map((override, index) => (
+					<Box
+						key={override.serviceId}
+						sx={{ display: 'flex', alignItems: 'center', gap: 2 }}
+					>
+						<Typography sx={{ width: 180 }} noWrap>
+							{getServiceName(override.serviceId)}
+						</Typography>
+						<RuleFields
+							draft={override}
+							onChange={(draft) =>
+								setOverrides((prev) =>
+									prev.map((o, i) =>
+										i === index ? { ...draft, serviceId: o.serviceId } : o
+									)
+								)
+							}
+							label="Deposit"
+						/>
+						<IconButton
+							aria-label="Remove override"
+							onClick={() =>
+								setOverrides((prev) => prev.filter((_, i) => i !== index))
+							}
+						>
+							<DeleteOutlineIcon />
+						</IconButton>
+					</Box>
+				))}
+
+				{availableServices.length > 0 && (
+					<FormControl size="small" sx={{ maxWidth: 320 }}>
+						<InputLabel id="deposit-override-service-label">
+							Add a service override
+						</InputLabel>
+						<Select
+							labelId="deposit-override-service-label"
+							label="Add a service override"
+							value=""
+							onChange={(e) =>
+								setOverrides((prev) => [
+									...prev,
+									{
+										serviceId: e.target.value as string,
+										type: 'percentage',
+										value: '',
+									},
+								])
+							}
+						>
+							{availableServices.map((service) => (
+								<MenuItem key={service.id} value={service.id}>
+									{service.name}
+								</MenuItem>
+							))}
+						</Select>
+					</FormControl>
+				)}
+			</Box>
+
+			<Box sx={{ mt: 3, display: 'flex', justifyContent: 'flex-end' }}>
+				<Button variant="contained" onClick={handleSave} disabled={saving}>
+					{saving ? <CircularProgress size={24} /> : 'Save Settings'}
+				</Button>
+			</Box>
+		</Box>
+	);
+}
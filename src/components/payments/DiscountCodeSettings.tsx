@@ -0,0 +1,358 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+	Typography,
+	Box,
+	TextField,
+	Button,
+	Alert,
+	CircularProgress,
+	FormControl,
+	InputLabel,
+	InputAdornment,
+	Select,
+	MenuItem,
+	Skeleton,
+	Table,
+	TableHead,
+	TableBody,
+	TableRow,
+	TableCell,
+	Switch,
+	Chip,
+} from '@mui/material';
+import {
+	createDiscount,
+	getDiscounts,
+	setDiscountActive,
+} from '@/lib/actions/discounts';
+import { fetchAllServices } from '@/lib/actions/services';
+import {
+	describeDiscount,
+	getDiscountUnavailableReason,
+	type Discount,
+	type DiscountType,
+} from '@/lib/utils/discount-calculations';
+import { formatDateSafe } from '@/lib/utils/date-time-utils';
+
+interface DiscountDraft {
+	code: string;
+	description: string;
+	type: DiscountType;
+	// Dollars or percent, as typed
+	value: string;
+	// Empty applies to the whole order
+	serviceId: string;
+	expiresOn: string;
+	usageLimit: string;
+}
+
+const EMPTY_DRAFT: DiscountDraft = {
+	code: '',
+	description: '',
+	type: 'percentage',
+	value: '',
+	serviceId: '',
+	expiresOn: '',
+	usageLimit: '',
+};
+
+function getStatusLabel(discount: Discount) {
+	if (!discount.isActive) return 'Inactive';
+	return getDiscountUnavailableReason(discount) ? 'Unavailable' : 'Active';
+}
+
+export function DiscountCodeSettings() {
+	const [loading, setLoading] = useState(true);
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [success, setSuccess] = useState(false);
+
+	const [discounts, setDiscounts] = useState<Discount[]>([]);
+	const [services, setServices] = useState<Array<{ id: string; name: string }>>(
+		[]
+	);
+	const [draft, setDraft] = useState<DiscountDraft>(EMPTY_DRAFT);
+
+	useEffect(() => {
+		async function loadDiscounts() {
+			const [discountsResult, servicesResult] = await Promise.all([
+				getDiscounts(),
+				fetchAllServices(),
+			]);
+			if (discountsResult.success && discountsResult.data) {
+				setDiscounts(discountsResult.data);
+			} else {
+				setError(discountsResult.error || 'Failed to load discounts');
+			}
+			if (servicesResult.success) {
+				setServices(servicesResult.data);
+			}
+			setLoading(false);
+		}
+		loadDiscounts();
+	}, []);
+
+	const handleCreate = async () => {
+		setError(null);
+		setSuccess(false);
+		setSaving(true);
+
+		const value = parseFloat(draft.value) || 0;
+		const result = await createDiscount({
+			code: draft.code,
+			...(draft.description.trim() && { description: draft.description }),
+			type: draft.type,
+			percent: draft.type === 'percentage' ? value : 0,
+			amountCents: draft.type === 'fixed' ? Math.round(value * 100) : 0,
+			serviceId: draft.serviceId || null,
+			// Codes stop working at the end of their expiry day
+			expiresAt: draft.expiresOn
+				? new Date(`${draft.expiresOn}T23:59:59`).toISOString()
+				: null,
+			usageLimit: draft.usageLimit ? parseInt(draft.usageLimit, 10) : null,
+		});
+
+		if (result.success && result.data) {
+			setDiscounts((prev) => [result.data!, ...prev]);
+			setDraft(EMPTY_DRAFT);
+			setSuccess(true);
+			// Clear success message after 3 seconds
+			setTimeout(() => setSuccess(false), 3000);
+		} else {
+			setError(result.error || 'Failed to create discount');
+		}
+		setSaving(false);
+	};
+
+	const handleToggleActive = async (discount: Discount) => {
+		const isActive = !discount.isActive;
+		setDiscounts((prev) =>
+			prev.map((d) => (d.id === discount.id ? { ...d, isActive } : d))
+		);
+
+		const result = await setDiscountActive(discount.id, isActive);
+		if (!result.success) {
+			setDiscounts((prev) =>
+				prev.map((d) =>
+					d.id === discount.id ? { ...d, isActive: discount.isActive } : d
+				)
+			);
+			setError(result.error || 'Failed to update discount');
+		}
+	};
+
+	if (loading) {
+		return (
+			<Box>
+				<Skeleton variant="text" width={180} height={28} sx={{ mb: 2 }} />
+				<Skeleton
+					variant="rectangular"
+					width="100%"
+					height={56}
+					sx={{ borderRadius: 1 }}
+				/>
+			</Box>
+		);
+	}
+
+	return (
+		<Box>
+			<Typography variant="h6" gutterBottom>
+				Discount Codes
+			</Typography>
+			<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+				Reusable discounts you can apply when creating an order or on an
+				existing order. Tax is calculated after the discount.
+			</Typography>
+
+			{error && (
+				<Alert severity="error" sx={{ mb: 2 }}>
+					{error}
+				</Alert>
+			)}
+			{success && (
+				<Alert severity="success" sx={{ mb: 2 }}>
+					Discount code created successfully!
+				</Alert>
+			)}
+
+			<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+				<TextField
+					size="small"
+					label="Code"
+					value={draft.code}
+					onChange={(e) =>
+						setDraft({ ...draft, code: e.target.value.toUpperCase() })
+					}
+					sx={{ width: 160 }}
+				/>
+				<FormControl size="small" sx={{ minWidth: 160 }}>
+					<InputLabel>Type</InputLabel>
+					<Select
+						value={draft.type}
+						label="Type"
+						onChange={(e) =>
+							setDraft({
+								...draft,
+								type: e.target.value as DiscountType,
+								value: '',
+							})
+						}
+					>
+						<MenuItem value="percentage">Percentage</MenuItem>
+						<MenuItem value="fixed">Fixed amount</MenuItem>
+					</Select>
+				</FormControl>
+				<TextField
+					size="small"
+					type="number"
+					label={draft.type === 'fixed' ? 'Amount' : 'Percent'}
+					value={draft.value}
+					onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+					inputProps={{
+						min: 0,
+						step: draft.type === 'fixed' ? 0.01 : 1,
+						...(draft.type === 'percentage' ? { max: 100 } : {}),
+					}}
+					InputProps={
+						draft.type === 'fixed'
+							? {
+									startAdornment: (
+										<InputAdornment position="start">$</InputAdornment>
+									),
+								}
+							: {
+									endAdornment: (
+										<InputAdornment position="end">%</InputAdornment>
+									),
+								}
+					}
+					sx={{ width: 140 }}
+				/>
+				<FormControl size="small" sx={{ minWidth: 200 }}>
+					<InputLabel>Applies to</InputLabel>
+					<Select
+						value={draft.serviceId}
+						label="Applies to"
+						onChange={(e) => setDraft({ ...draft, serviceId: e.target.value })}
+					>
+						<MenuItem value="">Whole order</MenuItem>
+						{services.map((service) => (
+							<MenuItem key={service.id} value={service.id}>
+								{service.name}
+							</MenuItem>
+						))}
+					</Select>
+				</FormControl>
+				<TextField
+					size="small"
+					type="date"
+					label="Expires"
+					value={draft.expiresOn}
+					onChange={(e) => setDraft({ ...draft, expiresOn: e.target.value })}
+					InputLabelProps={{ shrink: true }}
+					sx={{ width: 170 }}
+				/>
+				<TextField
+					size="small"
+					type="number"
+					label="Usage limit"
+					placeholder="Unlimited"
+					value={draft.usageLimit}
+					onChange={(e) => setDraft({ ...draft, usageLimit: e.target.value })}
+					inputProps={{ min: 1, step: 1 }}
+					InputLabelProps={{ shrink: true }}
+					sx={{ width: 130 }}
+				/>
+				<TextField
+					size="small"
+					label="Description (optional)"
+					value={draft.description}
+					onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+					sx={{ flex: 1, minWidth: 200 }}
+				/>
+			</Box>
+
+			<Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 3 }}>
+				<Button
+					variant="contained"
+					onClick={handleCreate}
+					disabled={saving || !draft.code.trim() || !draft.value}
+				>
+					{saving ? <CircularProgress size={24} /> : 'Add Discount Code'}
+				</Button>
+			</Box>
+
+			{discounts.length === 0 ? (
+				<Typography variant="body2" color="text.secondary">
+					No discount codes yet.
+				</Typography>
+			) : (
+				<Table size="small">
+					<TableHead>
+						<TableRow>
+							<TableCell>Code</TableCell>
+							<TableCell>Discount</TableCell>
+							<TableCell>Expires</TableCell>
+							<TableCell>Used</TableCell>
+							<TableCell>Status</TableCell>
+							<TableCell align="right">Active</TableCell>
+						</TableRow>
+					</TableHead>
+					<TableBody>
+						{discounts.map((discount) => (
+							<TableRow key={discount.id}>
+								<TableCell sx={{ fontFamily: 'monospace' }}>
+									{discount.code}
+								</TableCell>
+								<TableCell>
+									{describeDiscount(discount)}
+									{discount.description && (
+										<Typography
+											variant="caption"
+											color="text.secondary"
+											display="block"
+										>
+											{discount.description}
+										</Typography>
+									)}
+								</TableCell>
+								<TableCell>
+									{discount.expiresAt
+										? formatDateSafe(discount.expiresAt)
+										: 'Never'}
+								</TableCell>
+								<TableCell>
+									{discount.timesUsed}
+									{discount.usageLimit !== null && ` / ${discount.usageLimit}`}
+								</TableCell>
+								<TableCell>
+									<Chip
+										size="small"
+										label={getStatusLabel(discount)}
+										color={
+											getStatusLabel(discount) === 'Active'
+												? 'success'
+												: 'default'
+										}
+									/>
+								</TableCell>
+								<TableCell align="right">
+									<Switch
+										checked={discount.isActive}
+										onChange={() => handleToggleActive(discount)}
+										inputProps={{
+											'aria-label': `${discount.code} active`,
+										}}
+									/>
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			)}
+		</Box>
+	);
+}
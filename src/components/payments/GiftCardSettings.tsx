@@ -0,0 +1,241 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+	Typography,
+	Box,
+	TextField,
+	Button,
+	Alert,
+	CircularProgress,
+	InputAdornment,
+	Skeleton,
+	Table,
+	TableHead,
+	TableBody,
+	TableRow,
+	TableCell,
+	Chip,
+} from '@mui/material';
+import {
+	createGiftCard,
+	getGiftCards,
+	type GiftCardSummary,
+} from '@/lib/actions/store-credit';
+import { formatCurrency } from '@/lib/utils/formatting';
+import { formatDateSafe } from '@/lib/utils/date-time-utils';
+
+interface GiftCardDraft {
+	// Empty generates a code
+	code: string;
+	// Dollars, as typed
+	amount: string;
+	expiresOn: string;
+	notes: string;
+}
+
+const EMPTY_DRAFT: GiftCardDraft = {
+	code: '',
+	amount: '',
+	expiresOn: '',
+	notes: '',
+};
+
+function getStatusLabel(card: GiftCardSummary) {
+	if (card.expiresAt && new Date(card.expiresAt) <= new Date()) {
+		return 'Expired';
+	}
+	return card.balanceCents > 0 ? 'Active' : 'Used';
+}
+
+export function GiftCardSettings() {
+	const [loading, setLoading] = useState(true);
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [success, setSuccess] = useState<string | null>(null);
+
+	const [giftCards, setGiftCards] = useState<GiftCardSummary[]>([]);
+	const [draft, setDraft] = useState<GiftCardDraft>(EMPTY_DRAFT);
+
+	const loadGiftCards = async () => {
+		const result = await getGiftCards();
+		if (result.success && result.data) {
+			setGiftCards(result.data);
+		} else {
+			setError(result.error || 'Failed to load gift cards');
+		}
+	};
+
+	useEffect(() => {
+		loadGiftCards().then(() => setLoading(false));
+	}, []);
+
+	const handleCreate = async () => {
+		setError(null);
+		setSuccess(null);
+		setSaving(true);
+
+		const result = await createGiftCard({
+			amountCents: Math.round((parseFloat(draft.amount) || 0) * 100),
+			...(draft.code.trim() && { code: draft.code }),
+			// Cards stop working at the end of their expiry day
+			expiresAt: draft.expiresOn
+				? new Date(`${draft.expiresOn}T23:59:59`).toISOString()
+				: null,
+			...(draft.notes.trim() && { notes: draft.notes }),
+		});
+
+		if (result.success && result.data) {
+			setDraft(EMPTY_DRAFT);
+			setSuccess(`Gift card ${result.data.code} created`);
+			// Clear success message after 3 seconds
+			setTimeout(() => setSuccess(null), 3000);
+			await loadGiftCards();
+		} else {
+			setError(result.error || 'Failed to create gift card');
+		}
+		setSaving(false);
+	};
+
+	if (loading) {
+		return (
+			<Box>
+				<Skeleton variant="text" width={180} height={28} sx={{ mb: 2 }} />
+				<Skeleton
+					variant="rectangular"
+					width="100%"
+					height={56}
+					sx={{ borderRadius: 1 }}
+				/>
+			</Box>
+		);
+	}
+
+	return (
+		<Box>
+			<Typography variant="h6" gutterBottom>
+				Gift Cards
+			</Typography>
+			<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+				Sell or give gift cards with a code. Clients can spend them on any
+				invoice by choosing Gift Card when a payment is recorded.
+			</Typography>
+
+			{error && (
+				<Alert severity="error" sx={{ mb: 2 }}>
+					{error}
+				</Alert>
+			)}
+			{success && (
+				<Alert severity="success" sx={{ mb: 2 }}>
+					{success}
+				</Alert>
+			)}
+
+			<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+				<TextField
+					size="small"
+					type="number"
+					label="Amount"
+					value={draft.amount}
+					onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+					inputProps={{ min: 0.01, step: 0.01 }}
+					InputProps={{
+						startAdornment: <InputAdornment position="start">$</InputAdornment>,
+					}}
+					sx={{ width: 140 }}
+				/>
+				<TextField
+					size="small"
+					label="Code"
+					placeholder="Generated"
+					value={draft.code}
+					onChange={(e) =>
+						setDraft({ ...draft, code: e.target.value.toUpperCase() })
+					}
+					InputLabelProps={{ shrink: true }}
+					sx={{ width: 180 }}
+				/>
+				<TextField
+					size="small"
+					type="date"
+					label="Expires"
+					value={draft.expiresOn}
+					onChange={(e) => setDraft({ ...draft, expiresOn: e.target.value })}
+					InputLabelProps={{ shrink: true }}
+					sx={{ width: 170 }}
+				/>
+				<TextField
+					size="small"
+					label="Notes (optional)"
+					placeholder="e.g., Sold to Jane for her sister"
+					value={draft.notes}
+					onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+					sx={{ flex: 1, minWidth: 200 }}
+				/>
+			</Box>
+
+			<Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 3 }}>
+				<Button
+					variant="contained"
+					onClick={handleCreate}
+					disabled={saving || !draft.amount}
+				>
+					{saving ? <CircularProgress size={24} /> : 'Create Gift Card'}
+				</Button>
+			</Box>
+
+			{giftCards.length === 0 ? (
+				<Typography variant="body2" color="text.secondary">
+					No gift cards yet.
+				</Typography>
+			) : (
+				<Table size="small">
+					<TableHead>
+						<TableRow>
+							<TableCell>Code</TableCell>
+							<TableCell>Balance</TableCell>
+							<TableCell>Expires</TableCell>
+							<TableCell>Status</TableCell>
+						</TableRow>
+					</TableHead>
+					<TableBody>
+						{giftCards.map((card) => (
+							<TableRow key={card.id}>
+								<TableCell sx={{ fontFamily: 'monospace' }}>
+									{card.code}
+									{(card.notes || card.clientName) && (
+										<Typography
+											variant="caption"
+											color="text.secondary"
+											display="block"
+											sx={{ fontFamily: 'inherit' }}
+										>
+											{card.notes || card.clientName}
+										</Typography>
+									)}
+								</TableCell>
+								<TableCell>
+									{formatCurrency(card.balanceCents)} /{' '}
+									{formatCurrency(card.initialAmountCents)}
+								</TableCell>
+								<TableCell>
+									{card.expiresAt ? formatDateSafe(card.expiresAt) : 'Never'}
+								</TableCell>
+								<TableCell>
+									<Chip
+										size="small"
+										label={getStatusLabel(card)}
+										color={
+											getStatusLabel(card) === 'Active' ? 'success' : 'default'
+										}
+									/>
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			)}
+		</Box>
+	);
+}
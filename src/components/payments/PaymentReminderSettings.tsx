@@ -0,0 +1,280 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+	Typography,
+	Box,
+	TextField,
+	Button,
+	Alert,
+	CircularProgress,
+	FormControlLabel,
+	FormHelperText,
+	InputAdornment,
+	IconButton,
+	Paper,
+	Skeleton,
+	Switch,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import {
+	getPaymentReminderSettings,
+	sendDuePaymentReminders,
+	updatePaymentReminderSettings,
+} from '@/lib/actions/payment-reminders';
+import { PAYMENT_REMINDER_VARIABLES } from '@/lib/utils/payment-reminders';
+
+interface StepDraft {
+	// As typed
+	daysAfter: string;
+	subject: string;
+	body: string;
+}
+
+export function PaymentReminderSettings() {
+	const [loading, setLoading] = useState(true);
+	const [saving, setSaving] = useState(false);
+	const [sending, setSending] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [success, setSuccess] = useState<string | null>(null);
+
+	const [enabled, setEnabled] = useState(false);
+	const [steps, setSteps] = useState<StepDraft[]>([]);
+
+	useEffect(() => {
+		async function loadSettings() {
+			const result = await getPaymentReminderSettings();
+			if (result.success && result.data) {
+				setEnabled(result.data.enabled);
+				setSteps(
+					result.data.steps.map((step) => ({
+						...step,
+						daysAfter: String(step.daysAfter),
+					}))
+				);
+			} else {
+				setError(result.error || 'Failed to load payment reminder settings');
+			}
+			setLoading(false);
+		}
+		loadSettings();
+	}, []);
+
+	const updateStep = (index: number, changes: Partial<StepDraft>) =>
+		setSteps((prev) =>
+			prev.map((step, i) => (i === index ? { ...step, ...changes } : step))
+		);
+
+	const handleAddStep = () => {
+		const lastDays = Math.max(
+			0,
+			...steps.map((s) => parseInt(s.daysAfter) || 0)
+		);
+		const template = steps[steps.length - 1];
+		setSteps((prev) => [
+			...prev,
+			{
+				daysAfter: String(lastDays + 7),
+				subject: template?.subject || '',
+				body: template?.body || '',
+			},
+		]);
+	};
+
+	const showSuccess = (message: string) => {
+		setSuccess(message);
+		// Clear success message after 3 seconds
+		setTimeout(() => setSuccess(null), 3000);
+	};
+
+	const handleSave = async () => {
+		setError(null);
+		setSuccess(null);
+		setSaving(true);
+
+		const result = await updatePaymentReminderSettings({
+			enabled,
+			steps: steps
+				.map((step) => ({
+					daysAfter: parseInt(step.daysAfter) || 0,
+					subject: step.subject,
+					body: step.body,
+				}))
+				.sort((a, b) => a.daysAfter - b.daysAfter),
+		});
+
+		if (result.success) {
+			setSteps((prev) =>
+				[...prev].sort(
+					(a, b) => (parseInt(a.daysAfter) || 0) - (parseInt(b.daysAfter) || 0)
+				)
+			);
+			showSuccess('Payment reminder settings saved successfully!');
+		} else {
+			setError(result.error || 'Failed to save payment reminder settings');
+		}
+		setSaving(false);
+	};
+
+	const handleSendNow = async () => {
+		setError(null);
+		setSuccess(null);
+		setSending(true);
+
+		const result = await sendDuePaymentReminders();
+
+		if (result.success && result.data) {
+			const { sent, skipped, failed } = result.data;
+			showSuccess(
+				`Sent ${sent} reminder${sent === 1 ? '' : 's'}` +
+					(skipped > 0 ? `, skipped ${skipped}` : '') +
+					(failed > 0 ? `, ${failed} failed` : '')
+			);
+		} else {
+			setError(result.error || 'Failed to send reminders');
+		}
+		setSending(false);
+	};
+
+	if (loading) {
+		return (
+			<Box>
+				<Skeleton variant="text" width={220} height={28} sx={{ mb: 2 }} />
+				<Skeleton
+					variant="rectangular"
+					width="100%"
+					height={120}
+					sx={{ borderRadius: 1 }}
+				/>
+			</Box>
+		);
+	}
+
+	return (
+		<Box>
+			<Typography variant="h6" gutterBottom>
+				Overdue Payment Reminders
+			</Typography>
+			<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+				Email clients with a payment link when an invoice is past its due date,
+				or a garment was picked up with a balance owing. Recording a payment
+				cancels the reminders already due; later ones still go out while money
+				is owed. You can pause them for a client from their communication
+				preferences.
+			</Typography>
+
+			{error && (
+				<Alert severity="error" sx={{ mb: 2 }}>
+					{error}
+				</Alert>
+			)}
+			{success && (
+				<Alert severity="success" sx={{ mb: 2 }}>
+					{success}
+				</Alert>
+			)}
+
+			<FormControlLabel
+				control={
+					<Switch
+						checked={enabled}
+						onChange={(e) => setEnabled(e.target.checked)}
+					/>
+				}
+				label="Send overdue payment reminders automatically"
+			/>
+
+			<Typography variant="subtitle2" sx={{ mt: 3, mb: 1 }}>
+				Schedule
+			</Typography>
+			<FormHelperText sx={{ mt: 0, mb: 2 }}>
+				Available variables:{' '}
+				{PAYMENT_REMINDER_VARIABLES.map((v) => `{${v.key}}`).join(', ')}
+			</FormHelperText>
+
+			<Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+				{steps.map((step, index) => (
+					<Paper key={index} variant="outlined" sx={{ p: 2 }}>
+						<Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+							<TextField
+								size="small"
+								type="number"
+								label="Send after"
+								value={step.daysAfter}
+								onChange={(e) =>
+									updateStep(index, { daysAfter: e.target.value })
+								}
+								inputProps={{ min: 1, max: 365, step: 1 }}
+								InputProps={{
+									endAdornment: (
+										<InputAdornment position="end">days overdue</InputAdornment>
+									),
+								}}
+								sx={{ width: 220 }}
+							/>
+							<Box sx={{ flex: 1 }} />
+							<IconButton
+								aria-label="Remove step"
+								onClick={() =>
+									setSteps((prev) => prev.filter((_, i) => i !== index))
+								}
+							>
+								<DeleteOutlineIcon />
+							</IconButton>
+						</Box>
+						<TextField
+							fullWidth
+							size="small"
+							label="Subject"
+							value={step.subject}
+							onChange={(e) => updateStep(index, { subject: e.target.value })}
+							sx={{ mb: 2 }}
+						/>
+						<TextField
+							fullWidth
+							multiline
+							minRows={4}
+							label="Message"
+							value={step.body}
+							onChange={(e) => updateStep(index, { body: e.target.value })}
+						/>
+					</Paper>
+				))}
+
+				<Box>
+					<Button
+						startIcon={<AddIcon />}
+						onClick={handleAddStep}
+						disabled={steps.length >= 10}
+					>
+						Add Step
+					</Button>
+				</Box>
+			</Box>
+
+			<Box sx={{ mt: 3, display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
+				{enabled && (
+					<Button
+						variant="outlined"
+						onClick={handleSendNow}
+						disabled={sending || saving}
+					>
+						{sending ? (
+							<CircularProgress size={24} />
+						) : (
+							'Send Due Reminders Now'
+						)}
+					</Button>
+				)}
+				<Button
+					variant="contained"
+					onClick={handleSave}
+					disabled={saving || sending}
+				>
+					{saving ? <CircularProgress size={24} /> : 'Save Settings'}
+				</Button>
+			</Box>
+		</Box>
+	);
+}
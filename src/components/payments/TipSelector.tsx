@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import {
+	Box,
+	InputAdornment,
+	TextField,
+	ToggleButton,
+	ToggleButtonGroup,
+	Typography,
+} from '@mui/material';
+import { formatCurrency } from '@/lib/utils/formatting';
+import {
+	TIP_PERCENT_PRESETS,
+	calculateTipCents,
+	type TipChoice,
+} from '@/lib/utils/tips';
+
+interface TipSelectorProps {
+	// What percentage tips are worked out on, before tax
+	baseCents: number;
+	value: TipChoice;
+	onChange: (choice: TipChoice) => void;
+	disabled?: boolean;
+}
+
+function getChoiceKey(choice: TipChoice): string {
+	if (choice.kind === 'percent') return String(choice.percent);
+	return choice.kind;
+}
+
+/**
+ * Preset percentage tips, a custom amount, or none
+ */
+export default function TipSelector({
+	baseCents,
+	value,
+	onChange,
+	disabled = false,
+}: TipSelectorProps) {
+	// Dollars, as typed
+	const [customAmount, setCustomAmount] = useState(
+		value.kind === 'custom' ? (value.cents / 100).toFixed(2) : ''
+	);
+
+	const handleSelect = (key: string | null) => {
+		if (!key) return;
+		if (key === 'none') {
+			onChange({ kind: 'none' });
+		} else if (key === 'custom') {
+			onChange({
+				kind: 'custom',
+				cents: Math.round((parseFloat(customAmount) || 0) * 100),
+			});
+		} else {
+			onChange({ kind: 'percent', percent: Number(key) });
+		}
+	};
+
+	const handleCustomChange = (amount: string) => {
+		setCustomAmount(amount);
+		onChange({
+			kind: 'custom',
+			cents: Math.round((parseFloat(amount) || 0) * 100),
+		});
+	};
+
+	return (
+		<Box>
+			<Typography variant="subtitle2" gutterBottom>
+				Add a tip
+			</Typography>
+			<ToggleButtonGroup
+				value={getChoiceKey(value)}
+				exclusive
+				onChange={(_, key) => handleSelect(key)}
+				disabled={disabled}
+				fullWidth
+				size="small"
+			>
+				<ToggleButton value="none">No tip</ToggleButton>
+				{TIP_PERCENT_PRESETS.map((percent) => (
+					<ToggleButton
+						key={percent}
+						value={String(percent)}
+						sx={{ flexDirection: 'column', lineHeight: 1.2 }}
+					>
+						{percent}%
+						<Typography variant="caption" color="text.secondary">
+							{formatCurrency(
+								calculateTipCents(baseCents, { kind: 'percent', percent })
+							)}
+						</Typography>
+					</ToggleButton>
+				))}
+				<ToggleButton value="custom">Custom</ToggleButton>
+			</ToggleButtonGroup>
+
+			{value.kind === 'custom' && (
+				<TextField
+					size="small"
+					type="number"
+					label="Tip amount"
+					value={customAmount}
+					onChange={(e) => handleCustomChange(e.target.value)}
+					disabled={disabled}
+					inputProps={{ min: 0, step: 0.01 }}
+					InputProps={{
+						startAdornment: <InputAdornment position="start">$</InputAdornment>,
+					}}
+					sx={{ mt: 2, width: 160 }}
+					autoFocus
+				/>
+			)}
+		</Box>
+	);
+}
@@ -123,6 +123,7 @@ const AddServiceForm: React.FC<AddServiceFormProps> = ({
         default_unit: serviceData.default_unit! as string,
         default_unit_price_cents: serviceData.default_unit_price_cents!,
         frequently_used: isFrequentlyUsed,
+        estimated_minutes: serviceData.estimated_minutes ?? null,
       });
 
       if (!result.success) {
@@ -147,6 +148,7 @@ const AddServiceForm: React.FC<AddServiceFormProps> = ({
         default_unit_price_cents: newServiceItem.default_unit_price_cents,
         frequently_used: newServiceItem.frequently_used,
         frequently_used_position: newServiceItem.frequently_used_position,
+        estimated_minutes: newServiceItem.estimated_minutes,
       };
 
       // Update the services state in ServicePage
@@ -228,6 +230,25 @@ const AddServiceForm: React.FC<AddServiceFormProps> = ({
         {...(priceError && { error: priceError })}
       />
 
+      <TextField
+        label="Estimated time per unit"
+        type="number"
+        value={newService.estimated_minutes ?? ''}
+        onChange={(e) =>
+          setNewService((prev) => ({
+            ...prev,
+            estimated_minutes: parseInt(e.target.value, 10) || null,
+          }))
+        }
+        disabled={isLoading}
+        inputProps={{ min: 1, step: 5 }}
+        InputProps={{
+          endAdornment: <InputAdornment position="end">min</InputAdornment>,
+        }}
+        helperText="Optional. Compared against logged time in the time report."
+        fullWidth
+      />
+
       <FormControlLabel
         control={
           <Checkbox
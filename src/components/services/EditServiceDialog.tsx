@@ -196,6 +196,25 @@ const EditServiceDialog: React.FC<EditServiceDialogProps> = ({
             showTotal={true}
           />
 
+          <TextField
+            label="Estimated time per unit"
+            type="number"
+            value={editedService.estimated_minutes ?? ''}
+            onChange={(e) =>
+              setEditedService((prev) => ({
+                ...prev,
+                estimated_minutes: parseInt(e.target.value, 10) || null,
+              }))
+            }
+            disabled={isLoading}
+            inputProps={{ min: 1, step: 5 }}
+            InputProps={{
+              endAdornment: <InputAdornment position="end">min</InputAdornment>,
+            }}
+            helperText="Optional. Compared against logged time in the time report."
+            fullWidth
+          />
+
           <FormControlLabel
             control={
               <Checkbox
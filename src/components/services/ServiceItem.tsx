@@ -13,6 +13,7 @@ import {
 	calculateTotalPrice,
 } from '@/lib/utils/serviceUtils';
 import { pluralizeUnit } from '@/lib/utils/unitUtils';
+import { formatDuration } from '@/lib/utils/calendar';
 
 interface ServiceItemProps {
 	service: Service;
@@ -175,6 +176,22 @@ const ServiceItem: React.FC<ServiceItemProps> = ({
 								})}
 							/>
 						)}
+
+						{/* Estimated Time */}
+						{service.estimated_minutes && (
+							<Chip
+								icon={<AccessTimeIcon sx={{ fontSize: '14px !important' }} />}
+								label={`Est. ${formatDuration(service.estimated_minutes)}`}
+								size="small"
+								variant="outlined"
+								sx={(theme) => ({
+									fontSize: theme.typography.caption.fontSize, // 12px
+									height: 24,
+									color: 'text.secondary',
+									borderColor: 'divider',
+								})}
+							/>
+						)}
 					</Box>
 
 					{/* Description */}
@@ -48,6 +48,7 @@ export default function ServiceList({
         default_unit_price_cents: updated.default_unit_price_cents,
         frequently_used: updated.frequently_used,
         frequently_used_position: updated.frequently_used_position,
+        estimated_minutes: updated.estimated_minutes,
       };
 
       setServices((prevServices) =>
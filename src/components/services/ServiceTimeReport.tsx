@@ -0,0 +1,222 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+	Alert,
+	Box,
+	Paper,
+	Skeleton,
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableRow,
+	TextField,
+	Typography,
+} from '@mui/material';
+import { format, subDays } from 'date-fns';
+import { getServiceTimeReport } from '@/lib/actions/service-time-report';
+import type { ServiceTimeReport as Report } from '@/lib/utils/service-time-report';
+import { formatCentsAsCurrency } from '@/lib/utils/currency';
+import { formatDuration } from '@/lib/utils/calendar';
+
+const DEFAULT_RANGE_DAYS = 90;
+
+function formatRate(cents: number | null) {
+	return cents === null ? '—' : `${formatCentsAsCurrency(cents)}/hr`;
+}
+
+function formatVariance(minutes: number | null) {
+	if (minutes === null) return '—';
+	if (minutes === 0) return 'On estimate';
+	return `${minutes > 0 ? '+' : '−'}${formatDuration(Math.abs(minutes))}`;
+}
+
+/**
+ * Logged time vs estimates and effective hourly rate per service, for
+ * repricing the catalog
+ */
+export default function ServiceTimeReport() {
+	const [from, setFrom] = useState(() =>
+		format(subDays(new Date(), DEFAULT_RANGE_DAYS), 'yyyy-MM-dd')
+	);
+	const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+	const [report, setReport] = useState<Report | null>(null);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		let cancelled = false;
+		setLoading(true);
+		getServiceTimeReport({
+			...(from && { from }),
+			...(to && { to }),
+		}).then((result) => {
+			if (cancelled) return;
+			if (result.success && result.data) {
+				setReport(result.data);
+				setError(null);
+			} else {
+				setError(result.error || 'Failed to load the time report');
+			}
+			setLoading(false);
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [from, to]);
+
+	return (
+		<Paper sx={{ p: 3, mt: 4 }}>
+			<Box
+				sx={{
+					display: 'flex',
+					justifyContent: 'space-between',
+					alignItems: 'flex-start',
+					flexWrap: 'wrap',
+					gap: 2,
+					mb: 2,
+				}}
+			>
+				<Box>
+					<Typography variant="h6">Time &amp; Pricing</Typography>
+					<Typography variant="body2" color="text.secondary">
+						Logged time against estimates, and what each service earns per hour
+						of work.
+					</Typography>
+				</Box>
+				<Box sx={{ display: 'flex', gap: 2 }}>
+					<TextField
+						size="small"
+						type="date"
+						label="From"
+						value={from}
+						onChange={(e) => setFrom(e.target.value)}
+						InputLabelProps={{ shrink: true }}
+					/>
+					<TextField
+						size="small"
+						type="date"
+						label="To"
+						value={to}
+						onChange={(e) => setTo(e.target.value)}
+						InputLabelProps={{ shrink: true }}
+					/>
+				</Box>
+			</Box>
+
+			{error && (
+				<Alert severity="error" sx={{ mb: 2 }}>
+					{error}
+				</Alert>
+			)}
+
+			{loading && !report ? (
+				<Skeleton variant="rectangular" height={160} sx={{ borderRadius: 1 }} />
+			) : report && report.services.length === 0 ? (
+				<Typography variant="body2" color="text.secondary">
+					No time was logged in this period.
+				</Typography>
+			) : report ? (
+				<>
+					<Box sx={{ display: 'flex', gap: 4, flexWrap: 'wrap', mb: 3 }}>
+						<Box>
+							<Typography variant="caption" color="text.secondary">
+								Time logged
+							</Typography>
+							<Typography variant="h6">
+								{formatDuration(report.totalLoggedMinutes)}
+							</Typography>
+						</Box>
+						<Box>
+							<Typography variant="caption" color="text.secondary">
+								Revenue
+							</Typography>
+							<Typography variant="h6">
+								{formatCentsAsCurrency(report.totalRevenueCents)}
+							</Typography>
+						</Box>
+						<Box>
+							<Typography variant="caption" color="text.secondary">
+								Overall hourly rate
+							</Typography>
+							<Typography variant="h6">
+								{formatRate(report.overallHourlyRateCents)}
+							</Typography>
+						</Box>
+					</Box>
+
+					{report.underpriced.length > 0 && (
+						<Alert severity="warning" sx={{ mb: 3 }}>
+							<Typography variant="subtitle2" gutterBottom>
+								Most under-priced services
+							</Typography>
+							{report.underpriced.map((service) => (
+								<Typography key={service.key} variant="body2">
+									{service.name}: {formatRate(service.effectiveHourlyRateCents)}{' '}
+									— about{' '}
+									{formatCentsAsCurrency(service.suggestedUnitPriceCents)} per
+									unit would match your overall rate
+								</Typography>
+							))}
+						</Alert>
+					)}
+
+					<Box sx={{ overflowX: 'auto' }}>
+						<Table size="small">
+							<TableHead>
+								<TableRow>
+									<TableCell>Service</TableCell>
+									<TableCell align="right">Jobs</TableCell>
+									<TableCell align="right">Logged</TableCell>
+									<TableCell align="right">Estimated</TableCell>
+									<TableCell align="right">Over / under</TableCell>
+									<TableCell align="right">Avg per unit</TableCell>
+									<TableCell align="right">Revenue</TableCell>
+									<TableCell align="right">Hourly rate</TableCell>
+								</TableRow>
+							</TableHead>
+							<TableBody>
+								{report.services.map((service) => (
+									<TableRow key={service.key}>
+										<TableCell>{service.name}</TableCell>
+										<TableCell align="right">{service.jobCount}</TableCell>
+										<TableCell align="right">
+											{formatDuration(service.loggedMinutes)}
+										</TableCell>
+										<TableCell align="right">
+											{service.estimatedMinutes === null
+												? '—'
+												: formatDuration(service.estimatedMinutes)}
+										</TableCell>
+										<TableCell
+											align="right"
+											sx={{
+												color:
+													service.varianceMinutes !== null &&
+													service.varianceMinutes > 0
+														? 'error.main'
+														: 'text.primary',
+											}}
+										>
+											{formatVariance(service.varianceMinutes)}
+										</TableCell>
+										<TableCell align="right">
+											{formatDuration(service.averageMinutesPerUnit)}
+										</TableCell>
+										<TableCell align="right">
+											{formatCentsAsCurrency(service.revenueCents)}
+										</TableCell>
+										<TableCell align="right">
+											{formatRate(service.effectiveHourlyRateCents)}
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					</Box>
+				</>
+			) : null}
+		</Paper>
+	);
+}
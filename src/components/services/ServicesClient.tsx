@@ -6,14 +6,18 @@ import Grid from '@mui/material/Grid2';
 
 import ServiceList from '@/components/services/ServiceList';
 import AddServiceDialog from '@/components/services/AddServiceDialog';
+import ServiceTimeReport from '@/components/services/ServiceTimeReport';
 import { Service } from '@/lib/utils/serviceUtils';
 
 interface ServicesClientProps {
 	initialServices: Service[];
+	// The time report shows revenue, so only for users who can set prices
+	showTimeReport?: boolean;
 }
 
 export default function ServicesClient({
 	initialServices,
+	showTimeReport = false,
 }: ServicesClientProps) {
 	const [services, setServices] = useState<Service[]>(initialServices);
 
@@ -84,6 +88,8 @@ export default function ServicesClient({
 						)}
 					</Box>
 				)}
+
+				{showTimeReport && <ServiceTimeReport />}
 			</Box>
 		</Box>
 	);
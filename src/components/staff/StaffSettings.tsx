@@ -0,0 +1,316 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+	Typography,
+	Box,
+	TextField,
+	Button,
+	Alert,
+	CircularProgress,
+	FormControl,
+	InputLabel,
+	Select,
+	MenuItem,
+	Skeleton,
+	Table,
+	TableHead,
+	TableBody,
+	TableRow,
+	TableCell,
+	IconButton,
+	Tooltip,
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import {
+	getStaffInvitations,
+	getStaffMembers,
+	inviteStaffMember,
+	removeStaffMember,
+	revokeStaffInvitation,
+	updateStaffRole,
+	type StaffInvitation,
+	type StaffMember,
+} from '@/lib/actions/staff';
+import {
+	INVITABLE_STAFF_ROLES,
+	STAFF_ROLE_LABELS,
+	type InvitableStaffRole,
+} from '@/lib/auth/permissions';
+import { formatDateSafe } from '@/lib/utils/date-time-utils';
+
+export function StaffSettings() {
+	const [loading, setLoading] = useState(true);
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [success, setSuccess] = useState<string | null>(null);
+
+	const [members, setMembers] = useState<StaffMember[]>([]);
+	const [invitations, setInvitations] = useState<StaffInvitation[]>([]);
+	// Only the owner can see invitations; others get a read-only list
+	const [canManage, setCanManage] = useState(false);
+	const [email, setEmail] = useState('');
+	const [role, setRole] = useState<InvitableStaffRole>('seamstress');
+
+	useEffect(() => {
+		async function loadStaff() {
+			const [membersResult, invitationsResult] = await Promise.all([
+				getStaffMembers(),
+				getStaffInvitations(),
+			]);
+			if (membersResult.success && membersResult.data) {
+				setMembers(membersResult.data);
+			} else {
+				setError(membersResult.error || 'Failed to load staff');
+			}
+			if (invitationsResult.success && invitationsResult.data) {
+				setInvitations(invitationsResult.data);
+				setCanManage(true);
+			}
+			setLoading(false);
+		}
+		loadStaff();
+	}, []);
+
+	const showSuccess = (message: string) => {
+		setSuccess(message);
+		// Clear success message after 3 seconds
+		setTimeout(() => setSuccess(null), 3000);
+	};
+
+	const handleInvite = async () => {
+		setError(null);
+		setSuccess(null);
+		setSaving(true);
+
+		const result = await inviteStaffMember({ email, role });
+		if (result.success && result.data) {
+			setInvitations((prev) => [result.data!, ...prev]);
+			setEmail('');
+			showSuccess(`Invitation sent to ${result.data.email}`);
+		} else {
+			setError(result.error || 'Failed to send invitation');
+		}
+		setSaving(false);
+	};
+
+	const handleRevoke = async (invitation: StaffInvitation) => {
+		setError(null);
+		const result = await revokeStaffInvitation(invitation.id);
+		if (result.success) {
+			setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+		} else {
+			setError(result.error || 'Failed to revoke invitation');
+		}
+	};
+
+	const handleRoleChange = async (
+		member: StaffMember,
+		newRole: InvitableStaffRole
+	) => {
+		setError(null);
+		setMembers((prev) =>
+			prev.map((m) => (m.id === member.id ? { ...m, role: newRole } : m))
+		);
+
+		const result = await updateStaffRole(member.id, newRole);
+		if (!result.success) {
+			setMembers((prev) =>
+				prev.map((m) => (m.id === member.id ? { ...m, role: member.role } : m))
+			);
+			setError(result.error || 'Failed to update role');
+		}
+	};
+
+	const handleRemove = async (member: StaffMember) => {
+		if (
+			!window.confirm(
+				`Remove ${member.name} from your shop? Work assigned to them will become unassigned.`
+			)
+		) {
+			return;
+		}
+
+		setError(null);
+		const result = await removeStaffMember(member.id);
+		if (result.success) {
+			setMembers((prev) => prev.filter((m) => m.id !== member.id));
+			showSuccess(`${member.name} was removed`);
+		} else {
+			setError(result.error || 'Failed to remove staff member');
+		}
+	};
+
+	if (loading) {
+		return (
+			<Box>
+				<Skeleton variant="text" width={180} height={28} sx={{ mb: 2 }} />
+				<Skeleton
+					variant="rectangular"
+					width="100%"
+					height={56}
+					sx={{ borderRadius: 1 }}
+				/>
+			</Box>
+		);
+	}
+
+	return (
+		<Box>
+			<Typography variant="h6" gutterBottom>
+				Staff
+			</Typography>
+			<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+				Seamstresses can work on garments and appointments. Front desk staff can
+				also issue refunds. Only the owner can change settings and service
+				pricing.
+			</Typography>
+
+			{error && (
+				<Alert severity="error" sx={{ mb: 2 }}>
+					{error}
+				</Alert>
+			)}
+			{success && (
+				<Alert severity="success" sx={{ mb: 2 }}>
+					{success}
+				</Alert>
+			)}
+
+			<Table size="small" sx={{ mb: 3 }}>
+				<TableHead>
+					<TableRow>
+						<TableCell>Name</TableCell>
+						<TableCell>Email</TableCell>
+						<TableCell>Role</TableCell>
+						{canManage && <TableCell align="right" />}
+					</TableRow>
+				</TableHead>
+				<TableBody>
+					{members.map((member) => (
+						<TableRow key={member.id}>
+							<TableCell>{member.name}</TableCell>
+							<TableCell>{member.email}</TableCell>
+							<TableCell>
+								{canManage && member.role !== 'owner' ? (
+									<Select
+										size="small"
+										value={member.role}
+										onChange={(e) =>
+											handleRoleChange(
+												member,
+												e.target.value as InvitableStaffRole
+											)
+										}
+										inputProps={{
+											'aria-label': `${member.name} role`,
+										}}
+									>
+										{INVITABLE_STAFF_ROLES.map((staffRole) => (
+											<MenuItem key={staffRole} value={staffRole}>
+												{STAFF_ROLE_LABELS[staffRole]}
+											</MenuItem>
+										))}
+									</Select>
+								) : (
+									STAFF_ROLE_LABELS[member.role]
+								)}
+							</TableCell>
+							{canManage && (
+								<TableCell align="right">
+									{member.role !== 'owner' && (
+										<Tooltip title="Remove from shop">
+											<IconButton
+												size="small"
+												onClick={() => handleRemove(member)}
+												aria-label={`Remove ${member.name}`}
+											>
+												<DeleteIcon fontSize="small" />
+											</IconButton>
+										</Tooltip>
+									)}
+								</TableCell>
+							)}
+						</TableRow>
+					))}
+				</TableBody>
+			</Table>
+
+			{canManage && (
+				<>
+					<Typography variant="subtitle1" gutterBottom>
+						Invite staff
+					</Typography>
+					<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+						They join your shop when they create a Hemsy account with this email
+						address.
+					</Typography>
+					<Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+						<TextField
+							size="small"
+							type="email"
+							label="Email"
+							value={email}
+							onChange={(e) => setEmail(e.target.value)}
+							sx={{ flex: 1, minWidth: 240 }}
+						/>
+						<FormControl size="small" sx={{ minWidth: 160 }}>
+							<InputLabel>Role</InputLabel>
+							<Select
+								value={role}
+								label="Role"
+								onChange={(e) => setRole(e.target.value as InvitableStaffRole)}
+							>
+								{INVITABLE_STAFF_ROLES.map((staffRole) => (
+									<MenuItem key={staffRole} value={staffRole}>
+										{STAFF_ROLE_LABELS[staffRole]}
+									</MenuItem>
+								))}
+							</Select>
+						</FormControl>
+						<Button
+							variant="contained"
+							onClick={handleInvite}
+							disabled={saving || !email.trim()}
+						>
+							{saving ? <CircularProgress size={24} /> : 'Send Invitation'}
+						</Button>
+					</Box>
+
+					{invitations.length > 0 && (
+						<Table size="small">
+							<TableHead>
+								<TableRow>
+									<TableCell>Pending invitation</TableCell>
+									<TableCell>Role</TableCell>
+									<TableCell>Expires</TableCell>
+									<TableCell align="right" />
+								</TableRow>
+							</TableHead>
+							<TableBody>
+								{invitations.map((invitation) => (
+									<TableRow key={invitation.id}>
+										<TableCell>{invitation.email}</TableCell>
+										<TableCell>{STAFF_ROLE_LABELS[invitation.role]}</TableCell>
+										<TableCell>
+											{formatDateSafe(invitation.expiresAt)}
+										</TableCell>
+										<TableCell align="right">
+											<Button
+												size="small"
+												color="error"
+												onClick={() => handleRevoke(invitation)}
+											>
+												Revoke
+											</Button>
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					)}
+				</>
+			)}
+		</Box>
+	);
+}
@@ -22,8 +22,16 @@ import {
   logDeferredPaymentPickup,
 } from '@/lib/actions/garment-balance-check';
 import { getGarmentWithInvoiceData } from '@/lib/actions/orders';
+import { overrideDepositRequirement } from '@/lib/actions/deposits';
+import { updateGarmentStage } from '@/app/(app)/garments/actions/update-garment';
+import {
+  addGarmentPhoto,
+  removeGarmentCoverPhoto,
+} from '@/lib/actions/garment-photos';
+import type { GarmentPhoto } from '@/lib/utils/garment-photos';
 import {
   calculateGarmentStageClient,
+  getStageMoveError,
   shouldUpdateStageOptimistically,
   type GarmentStage,
 } from '@/lib/utils/garmentStageCalculator';
@@ -43,6 +51,7 @@ interface Service {
   removed_at?: string | null;
   removed_by?: string | null;
   removal_reason?: string | null;
+  assigned_to?: string | null;
 }
 
 interface Garment {
@@ -59,6 +68,9 @@ interface Garment {
   image_cloud_id: string | null;
   created_at: string;
   order_id: string | null;
+  assigned_to?: string | null;
+  // Client measurements copied on when the garment was ordered
+  measurement_snapshot?: unknown;
   garment_services: Service[];
   order?: {
     id: string;
@@ -109,6 +121,8 @@ interface GarmentContextType {
     imageCloudId: string | null
   ) => Promise<void>;
   deleteGarmentPhoto: () => Promise<void>;
+  // Shows a new cover photo picked in the gallery
+  syncCoverPhoto: (cover: GarmentPhoto | null) => void;
   addService: (service: {
     serviceId?: string;
     customService?: any;
@@ -120,7 +134,10 @@ interface GarmentContextType {
     updates: Partial<Service>
   ) => Promise<void>;
   toggleServiceComplete: (serviceId: string, isDone: boolean) => Promise<void>;
-  markAsPickedUp: () => Promise<void>;
+  // Resolves true once the garment is picked up
+  markAsPickedUp: () => Promise<boolean>;
+  // Moves the garment to a stage by hand; Done goes through pickup
+  moveToStage: (stage: GarmentStage) => Promise<boolean>;
   refreshGarment: () => Promise<void>;
   refreshHistory: () => void;
   historyKey: number;
@@ -138,8 +155,17 @@ interface GarmentContextType {
     clientEmail?: string;
   } | null;
   closeBalanceDialog: () => void;
-  handlePickupWithoutPayment: () => Promise<void>;
-  handlePaymentAndPickup: () => Promise<void>;
+  // Deposit gate: set when completing a service is blocked by an unpaid deposit
+  depositBlock: {
+    orderId: string;
+    serviceId: string;
+    requiredCents: number;
+    outstandingCents: number;
+  } | null;
+  closeDepositDialog: () => void;
+  overrideDepositAndContinue: (reason: string) => Promise<boolean>;
+  handlePickupWithoutPayment: () => Promise<boolean>;
+  handlePaymentAndPickup: () => Promise<boolean>;
   balanceStatus: {
     isLastGarment: boolean;
     hasOutstandingBalance: boolean;
@@ -176,12 +202,19 @@ interface GarmentProviderProps {
     invoiceId?: string;
     clientEmail?: string;
   } | null;
+  // Needed for moveToStage when the garment has no order details loaded
+  shopId?: string;
+  // Fetch the pickup balance as soon as the garment is ready. Off for lists,
+  // where it's fetched on pickup instead.
+  preloadBalanceStatus?: boolean;
   children: React.ReactNode;
 }
 
 export function GarmentProvider({
   initialGarment,
   initialBalanceStatus,
+  shopId,
+  preloadBalanceStatus = true,
   children,
 }: GarmentProviderProps) {
   const [garment, setGarment] = useState<Garment>(initialGarment);
@@ -190,6 +223,8 @@ export function GarmentProvider({
     useState<any>(null);
   const [historyRefreshSignal, setHistoryRefreshSignal] = useState(0);
   const [balanceDialogOpen, setBalanceDialogOpen] = useState(false);
+  const [depositBlock, setDepositBlock] =
+    useState<GarmentContextType['depositBlock']>(null);
   const [balanceCheckData, setBalanceCheckData] = useState<{
     balanceDue: number;
     orderTotal: number;
@@ -365,13 +400,16 @@ export function GarmentProvider({
       }));
 
       try {
-        const result = await updateGarment({
-          garmentId: garment.id,
-          updates: {
-            photoUrl: photoUrl,
-            imageCloudId: imageCloudId,
-          },
-        });
+        // A new photo goes into the gallery as the cover
+        const result =
+          photoUrl && imageCloudId
+            ? await addGarmentPhoto({
+                garmentId: garment.id,
+                photoUrl,
+                imageCloudId,
+                makeCover: true,
+              })
+            : await removeGarmentCoverPhoto(garment.id);
 
         if (!result.success) {
           // Rollback on failure
@@ -418,20 +456,21 @@ export function GarmentProvider({
         }
       }
 
-      // Update the database
-      const result = await updateGarment({
-        garmentId: garment.id,
-        updates: {
-          photoUrl: null,
-          imageCloudId: null,
-        },
-      });
+      // Remove it from the gallery, which makes the next photo the cover
+      const result = await removeGarmentCoverPhoto(garment.id);
 
       if (!result.success) {
         // Rollback on failure
         setGarment(previousGarment);
         showErrorToast(result.error || 'Failed to delete garment photo');
       } else {
+        if (result.cover) {
+          setGarment((prev) => ({
+            ...prev,
+            photo_url: result.cover!.photoUrl,
+            image_cloud_id: result.cover!.imageCloudId,
+          }));
+        }
         refreshHistory();
         showSuccessToast('Photo deleted successfully');
       }
@@ -442,6 +481,14 @@ export function GarmentProvider({
     }
   }, [garment, refreshHistory]);
 
+  const syncCoverPhoto = useCallback((cover: GarmentPhoto | null) => {
+    setGarment((prev) => ({
+      ...prev,
+      photo_url: cover?.photoUrl ?? null,
+      image_cloud_id: cover?.imageCloudId ?? null,
+    }));
+  }, []);
+
   const addService = useCallback(
     async (input: { serviceId?: string; customService?: any }) => {
       // Create a temporary service for optimistic update
@@ -808,7 +855,13 @@ export function GarmentProvider({
         if (!result.success) {
           // Rollback on failure
           setGarment(previousGarment);
-          showErrorToast(result.error || 'Failed to update service completion');
+          if (result.depositRequired) {
+            setDepositBlock({ ...result.depositRequired, serviceId });
+          } else {
+            showErrorToast(
+              result.error || 'Failed to update service completion'
+            );
+          }
         } else {
           refreshHistory();
           showSuccessToast(
@@ -826,13 +879,13 @@ export function GarmentProvider({
     [garment, refreshHistory, createOptimisticHistoryEntry]
   );
 
-  const markAsPickedUp = useCallback(async () => {
+  const markAsPickedUp = useCallback(async (): Promise<boolean> => {
     // Check if the garment is in "Ready For Pickup" stage
     if (garment.stage !== 'Ready For Pickup') {
       showErrorToast(
         'Garment must be in "Ready For Pickup" stage to mark as picked up'
       );
-      return;
+      return false;
     }
 
     // Use preloaded balance status - instant response!
@@ -853,10 +906,10 @@ export function GarmentProvider({
           }),
         });
         setBalanceDialogOpen(true);
-        return; // Don't proceed with pickup yet
+        return false; // Don't proceed with pickup yet
       }
       // If no balance issue, proceed immediately
-      await proceedWithPickup();
+      return proceedWithPickup();
     } else {
       // Fallback: If balance status wasn't preloaded (edge case), fetch it now
       const balanceCheck = await checkGarmentBalanceStatus({
@@ -865,7 +918,7 @@ export function GarmentProvider({
 
       if (!balanceCheck.success) {
         showErrorToast(balanceCheck.error || 'Failed to check balance status');
-        return;
+        return false;
       }
 
       if (balanceCheck.isLastGarment && balanceCheck.hasOutstandingBalance) {
@@ -881,15 +934,15 @@ export function GarmentProvider({
           }),
         });
         setBalanceDialogOpen(true);
-        return;
+        return false;
       }
 
       // If no balance issue, proceed with normal pickup
-      await proceedWithPickup();
+      return proceedWithPickup();
     }
   }, [garment, balanceStatus]);
 
-  const proceedWithPickup = useCallback(async () => {
+  const proceedWithPickup = useCallback(async (): Promise<boolean> => {
     // Optimistically update the UI
     const previousGarment = garment;
     setGarment((prev) => ({ ...prev, stage: 'Done' }));
@@ -901,17 +954,20 @@ export function GarmentProvider({
         // Rollback on failure
         setGarment(previousGarment);
         showErrorToast(result.error || 'Failed to mark garment as picked up');
+        return false;
       } else {
         refreshHistory();
         showSuccessToast(`${garment.name || 'Garment'} marked as picked up`);
         // Close the balance dialog if it was open
         setBalanceDialogOpen(false);
         setBalanceCheckData(null);
+        return true;
       }
     } catch (error) {
       // Rollback on error
       setGarment(previousGarment);
       showErrorToast('An unexpected error occurred');
+      return false;
     }
   }, [garment, refreshHistory]);
 
@@ -927,11 +983,35 @@ export function GarmentProvider({
     }
 
     // Proceed with pickup
-    await proceedWithPickup();
-
     // Note: No reminder toast needed - user already acknowledged the balance in the dialog
+    return proceedWithPickup();
   }, [garment, balanceCheckData, proceedWithPickup]);
 
+  const closeDepositDialog = useCallback(() => {
+    setDepositBlock(null);
+  }, []);
+
+  const overrideDepositAndContinue = useCallback(
+    async (reason: string) => {
+      if (!depositBlock) return false;
+
+      const result = await overrideDepositRequirement({
+        orderId: depositBlock.orderId,
+        reason,
+      });
+
+      if (!result.success) {
+        showErrorToast(result.error || 'Failed to override deposit');
+        return false;
+      }
+
+      setDepositBlock(null);
+      await toggleServiceComplete(depositBlock.serviceId, true);
+      return true;
+    },
+    [depositBlock, toggleServiceComplete]
+  );
+
   const closeBalanceDialog = useCallback(() => {
     setBalanceDialogOpen(false);
     setBalanceCheckData(null);
@@ -939,11 +1019,75 @@ export function GarmentProvider({
 
   const handlePaymentAndPickup = useCallback(async () => {
     // When payment is successful, proceed with pickup
-    await proceedWithPickup();
+    return proceedWithPickup();
   }, [proceedWithPickup]);
 
+  const moveToStage = useCallback(
+    async (stage: GarmentStage): Promise<boolean> => {
+      const currentStage = garment.stage as GarmentStage;
+      if (currentStage === stage) return true;
+
+      const moveError = getStageMoveError(
+        currentStage,
+        stage,
+        garment.garment_services
+      );
+      if (moveError) {
+        showErrorToast(moveError);
+        return false;
+      }
+
+      // Done means picked up, which checks the order balance first. False
+      // while the balance dialog waits for an answer.
+      if (stage === 'Done') {
+        return markAsPickedUp();
+      }
+
+      const garmentShopId = shopId || garment.order?.shop_id;
+      if (!garmentShopId) {
+        showErrorToast('Failed to update garment stage');
+        return false;
+      }
+
+      // Optimistically update the UI
+      const previousGarment = garment;
+      setGarment((prev) => ({ ...prev, stage }));
+      createOptimisticHistoryEntry(
+        'field_update',
+        'stage',
+        currentStage,
+        stage
+      );
+
+      try {
+        await updateGarmentStage(garmentShopId, garment.id, stage);
+        refreshHistory();
+        return true;
+      } catch (error) {
+        // Rollback on error, e.g. work blocked by an unpaid deposit
+        setGarment(previousGarment);
+        setOptimisticHistoryEntry(null);
+        showErrorToast(
+          error instanceof Error
+            ? error.message
+            : 'Failed to update garment stage'
+        );
+        return false;
+      }
+    },
+    [
+      garment,
+      shopId,
+      markAsPickedUp,
+      refreshHistory,
+      createOptimisticHistoryEntry,
+    ]
+  );
+
   // Check balance status when component mounts or stage changes
   useEffect(() => {
+    if (!preloadBalanceStatus) return;
+
     const checkBalanceStatus = async () => {
       // Skip if we have initial balance status from server
       if (initialBalanceStatus && garment.stage === 'Ready For Pickup') {
@@ -973,7 +1117,7 @@ export function GarmentProvider({
     };
 
     checkBalanceStatus();
-  }, [garment.id, garment.stage, initialBalanceStatus]);
+  }, [garment.id, garment.stage, initialBalanceStatus, preloadBalanceStatus]);
 
   return (
     <GarmentContext.Provider
@@ -983,12 +1127,14 @@ export function GarmentProvider({
         updateGarmentIcon,
         updateGarmentPhoto,
         deleteGarmentPhoto,
+        syncCoverPhoto,
         addService,
         removeService,
         restoreService,
         updateService,
         toggleServiceComplete,
         markAsPickedUp,
+        moveToStage,
         refreshGarment,
         refreshHistory,
         historyKey,
@@ -997,6 +1143,9 @@ export function GarmentProvider({
         balanceDialogOpen,
         balanceCheckData,
         closeBalanceDialog,
+        depositBlock,
+        closeDepositDialog,
+        overrideDepositAndContinue,
         handlePickupWithoutPayment,
         handlePaymentAndPickup,
         balanceStatus,
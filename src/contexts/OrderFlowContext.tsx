@@ -10,6 +10,14 @@ import {
 import { useRouter } from 'next/navigation';
 import type { Tables } from '@/types/supabase';
 import { getClient } from '@/lib/actions/clients';
+import {
+	NO_DEPOSIT_POLICY,
+	type DepositPolicy,
+} from '@/lib/utils/deposit-calculations';
+import {
+	calculateOrderTotals,
+	type Discount,
+} from '@/lib/utils/discount-calculations';
 
 // Types for order flow
 export interface ServiceLine {
@@ -49,6 +57,8 @@ export interface GarmentDraft {
 	// Optional colors for parameterized preset SVGs
 	presetOutlineColor?: string | undefined;
 	presetFillColor?: string | undefined;
+	// Client measurement record to copy onto the garment
+	measurementId?: string | undefined;
 }
 
 export interface OrderDraft {
@@ -56,10 +66,12 @@ export interface OrderDraft {
 	client?: Tables<'clients'> | undefined;
 	garments: GarmentDraft[];
 	discountCents: number;
+	// Set when the discount comes from a discount code
+	appliedDiscount?: Discount | undefined;
 	notes?: string | undefined;
 	paymentIntent?: {
 		collectNow: boolean;
-		method?: 'stripe' | 'cash' | 'external_pos';
+		method?: 'stripe' | 'cash' | 'external_pos' | 'store_credit';
 		depositAmount?: number;
 		dueDate?: Date;
 		notes?: string;
@@ -98,6 +110,7 @@ interface OrderFlowContextType {
 	calculateSubtotal: () => number;
 	calculateTotal: (taxPercent: number) => number;
 	taxPercent: number; // Fetched from server
+	depositPolicy: DepositPolicy; // Fetched from server
 }
 
 const OrderFlowContext = createContext<OrderFlowContextType | undefined>(
@@ -118,10 +131,12 @@ export function OrderFlowProvider({
 	children,
 	initialClientId,
 	taxPercent = 0,
+	depositPolicy = NO_DEPOSIT_POLICY,
 }: {
 	children: ReactNode;
 	initialClientId?: string;
 	taxPercent?: number;
+	depositPolicy?: DepositPolicy;
 }) {
 	const router = useRouter();
 	const [currentStep, setCurrentStep] = useState(0);
@@ -300,10 +315,11 @@ export function OrderFlowProvider({
 	};
 
 	const calculateTotal = (taxPercent: number) => {
-		const subtotal = calculateSubtotal();
-		const afterDiscount = subtotal - orderDraft.discountCents;
-		const tax = Math.round((afterDiscount * taxPercent) / 100);
-		return afterDiscount + tax;
+		return calculateOrderTotals(
+			calculateSubtotal(),
+			orderDraft.discountCents,
+			taxPercent
+		).totalCents;
 	};
 
 	return (
@@ -325,6 +341,7 @@ export function OrderFlowProvider({
 				calculateSubtotal,
 				calculateTotal,
 				taxPercent, // Server-fetched tax rate
+				depositPolicy, // Server-fetched deposit policy
 			}}
 		>
 			{children}
@@ -0,0 +1,182 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { GarmentProvider, useGarment } from '../GarmentContext';
+import { updateGarmentStage } from '@/app/(app)/garments/actions/update-garment';
+import { markGarmentAsPickedUp } from '@/lib/actions/garment-pickup';
+import { checkGarmentBalanceStatus } from '@/lib/actions/garment-balance-check';
+import { showErrorToast } from '@/lib/utils/toast';
+import type { GarmentStage } from '@/lib/utils/garmentStageCalculator';
+
+jest.mock('@/app/(app)/garments/actions/update-garment');
+jest.mock('@/lib/actions/garment-pickup');
+jest.mock('@/lib/actions/garment-balance-check');
+jest.mock('@/lib/utils/toast');
+
+const mockUpdateGarmentStage = updateGarmentStage as jest.MockedFunction<
+	typeof updateGarmentStage
+>;
+const mockMarkGarmentAsPickedUp = markGarmentAsPickedUp as jest.MockedFunction<
+	typeof markGarmentAsPickedUp
+>;
+const mockCheckGarmentBalanceStatus =
+	checkGarmentBalanceStatus as jest.MockedFunction<
+		typeof checkGarmentBalanceStatus
+	>;
+const mockShowErrorToast = showErrorToast as jest.MockedFunction<
+	typeof showErrorToast
+>;
+
+const SHOP_ID = '550e8400-e29b-41d4-a716-446655440000';
+const GARMENT_ID = '550e8400-e29b-41d4-a716-446655440001';
+
+function makeGarment(stage: string, doneFlags: boolean[]) {
+	return {
+		id: GARMENT_ID,
+		name: 'Test Garment',
+		stage,
+		due_date: null,
+		event_date: null,
+		preset_icon_key: null,
+		preset_fill_color: null,
+		preset_outline_color: null,
+		notes: null,
+		photo_url: null,
+		image_cloud_id: null,
+		created_at: '2024-01-01',
+		order_id: '550e8400-e29b-41d4-a716-446655440002',
+		garment_services: doneFlags.map((isDone, index) => ({
+			id: `service-${index}`,
+			name: 'Hem',
+			quantity: 1,
+			unit: 'flat_rate',
+			unit_price_cents: 2000,
+			line_total_cents: 2000,
+			is_done: isDone,
+		})),
+		totalPriceCents: 0,
+	};
+}
+
+function MoveButton({ stage }: { stage: GarmentStage }) {
+	const { garment, moveToStage } = useGarment();
+	const [result, setResult] = React.useState('');
+
+	return (
+		<div>
+			<div data-testid="garment-stage">{garment.stage}</div>
+			<div data-testid="move-result">{result}</div>
+			<button onClick={async () => setResult(String(await moveToStage(stage)))}>
+				Move
+			</button>
+		</div>
+	);
+}
+
+function renderMove(
+	garment: ReturnType<typeof makeGarment>,
+	stage: GarmentStage
+) {
+	render(
+		<GarmentProvider
+			initialGarment={garment}
+			shopId={SHOP_ID}
+			preloadBalanceStatus={false}
+		>
+			<MoveButton stage={stage} />
+		</GarmentProvider>
+	);
+	fireEvent.click(screen.getByText('Move'));
+}
+
+describe('GarmentContext - moveToStage', () => {
+	beforeEach(() => {
+		jest.clearAllMocks();
+		mockCheckGarmentBalanceStatus.mockResolvedValue({
+			success: true,
+			isLastGarment: false,
+			hasOutstandingBalance: false,
+		});
+	});
+
+	it('moves the garment through the stage update action', async () => {
+		mockUpdateGarmentStage.mockResolvedValue(undefined);
+
+		renderMove(makeGarment('New', [false]), 'In Progress');
+
+		expect(screen.getByTestId('garment-stage')).toHaveTextContent(
+			'In Progress'
+		);
+		await waitFor(() => {
+			expect(screen.getByTestId('move-result')).toHaveTextContent('true');
+		});
+		expect(mockUpdateGarmentStage).toHaveBeenCalledWith(
+			SHOP_ID,
+			GARMENT_ID,
+			'In Progress'
+		);
+	});
+
+	it('rolls back when the server refuses the move', async () => {
+		mockUpdateGarmentStage.mockRejectedValue(
+			new Error('A deposit of $20.00 is due before work can start')
+		);
+
+		renderMove(makeGarment('New', [false]), 'In Progress');
+
+		await waitFor(() => {
+			expect(screen.getByTestId('move-result')).toHaveTextContent('false');
+		});
+		expect(screen.getByTestId('garment-stage')).toHaveTextContent('New');
+		expect(mockShowErrorToast).toHaveBeenCalledWith(
+			'A deposit of $20.00 is due before work can start'
+		);
+	});
+
+	it('blocks Ready For Pickup while services are unfinished', async () => {
+		renderMove(makeGarment('In Progress', [true, false]), 'Ready For Pickup');
+
+		await waitFor(() => {
+			expect(screen.getByTestId('move-result')).toHaveTextContent('false');
+		});
+		expect(mockUpdateGarmentStage).not.toHaveBeenCalled();
+		expect(screen.getByTestId('garment-stage')).toHaveTextContent(
+			'In Progress'
+		);
+	});
+
+	it('checks the balance before moving to Done', async () => {
+		mockMarkGarmentAsPickedUp.mockResolvedValue({ success: true });
+
+		renderMove(makeGarment('Ready For Pickup', [true]), 'Done');
+
+		await waitFor(() => {
+			expect(screen.getByTestId('move-result')).toHaveTextContent('true');
+		});
+		expect(mockCheckGarmentBalanceStatus).toHaveBeenCalledWith({
+			garmentId: GARMENT_ID,
+		});
+		expect(mockMarkGarmentAsPickedUp).toHaveBeenCalled();
+		expect(mockUpdateGarmentStage).not.toHaveBeenCalled();
+		expect(screen.getByTestId('garment-stage')).toHaveTextContent('Done');
+	});
+
+	it('waits for the balance dialog when money is owed', async () => {
+		mockCheckGarmentBalanceStatus.mockResolvedValue({
+			success: true,
+			isLastGarment: true,
+			hasOutstandingBalance: true,
+			balanceDue: 5000,
+		});
+
+		renderMove(makeGarment('Ready For Pickup', [true]), 'Done');
+
+		await waitFor(() => {
+			expect(screen.getByTestId('move-result')).toHaveTextContent('false');
+		});
+		expect(mockMarkGarmentAsPickedUp).not.toHaveBeenCalled();
+		expect(screen.getByTestId('garment-stage')).toHaveTextContent(
+			'Ready For Pickup'
+		);
+	});
+});
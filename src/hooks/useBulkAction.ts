@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import type {
+	BulkActionResult,
+	BulkItemResult,
+} from '@/lib/actions/bulk-actions';
+import { showErrorToast, showSuccessToast } from '@/lib/utils/toast';
+
+interface BulkReport {
+	title: string;
+	results: BulkItemResult[];
+}
+
+/**
+ * Runs a bulk action and sorts out the outcome: a toast when everything went
+ * through, otherwise a report of the items that didn't. `onFinished` gets
+ * the ids that failed so they can stay selected.
+ */
+export function useBulkAction(
+	onFinished: (failedIds: string[]) => void | Promise<void>
+) {
+	const [busy, setBusy] = useState(false);
+	const [report, setReport] = useState<BulkReport | null>(null);
+
+	const run = async (
+		title: string,
+		action: () => Promise<BulkActionResult>,
+		successMessage: (count: number) => string
+	) => {
+		setBusy(true);
+		try {
+			const result = await action();
+			if (!result.success || !result.data) {
+				showErrorToast(result.error || `${title} failed`);
+				return;
+			}
+
+			const failedIds = result.data
+				.filter((item) => !item.success)
+				.map((item) => item.id);
+			if (failedIds.length === 0) {
+				showSuccessToast(successMessage(result.data.length));
+			} else {
+				setReport({ title, results: result.data });
+			}
+			await onFinished(failedIds);
+		} catch (error) {
+			showErrorToast(
+				error instanceof Error ? error.message : `${title} failed`
+			);
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	return { busy, run, report, closeReport: () => setReport(null) };
+}
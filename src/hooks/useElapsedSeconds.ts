@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Seconds since `startedAt`, updated every second. 0 when there's no start.
+ */
+export function useElapsedSeconds(startedAt: string | null | undefined) {
+	const [now, setNow] = useState(() => Date.now());
+
+	useEffect(() => {
+		if (!startedAt) return;
+
+		setNow(Date.now());
+		const interval = setInterval(() => setNow(Date.now()), 1000);
+		return () => clearInterval(interval);
+	}, [startedAt]);
+
+	if (!startedAt) return 0;
+	return Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+}
@@ -4,9 +4,13 @@ import {
   calculateGarmentStage,
 } from '../garment-stage-helpers';
 import { createClient } from '@/lib/supabase/server';
+import { sendGarmentReadyNotification } from '../emails/garment-ready-emails';
 
 // Mock dependencies
 jest.mock('@/lib/supabase/server');
+jest.mock('../emails/garment-ready-emails', () => ({
+  sendGarmentReadyNotification: jest.fn().mockResolvedValue({ success: true }),
+}));
 jest.mock('@/lib/auth/user-shop', () => ({
   ensureUserAndShop: jest.fn().mockResolvedValue({
     user: { id: 'user-123' },
@@ -321,6 +325,79 @@ describe('Garment Stage Helpers', () => {
     });
   });
 
+  describe('ready for pickup notification', () => {
+    const mockStageChange = (
+      services: Array<{ id: string; is_done: boolean }>,
+      currentStage: string
+    ) => {
+      mockSupabase.from.mockImplementation((table: string) => {
+        if (table === 'garment_services') {
+          return {
+            select: jest.fn().mockReturnValue({
+              eq: jest.fn().mockReturnValue({
+                eq: jest.fn().mockResolvedValue({ data: services, error: null }),
+              }),
+            }),
+          };
+        } else if (table === 'garments') {
+          return {
+            select: jest.fn().mockReturnValue({
+              eq: jest.fn().mockReturnValue({
+                single: jest.fn().mockResolvedValue({
+                  data: { stage: currentStage },
+                  error: null,
+                }),
+              }),
+            }),
+            update: jest.fn().mockReturnValue({
+              eq: jest.fn().mockResolvedValue({ error: null }),
+            }),
+          };
+        } else if (table === 'garment_history') {
+          return { insert: jest.fn().mockResolvedValue({ error: null }) };
+        }
+        return {} as any;
+      });
+    };
+
+    it('notifies the client when the garment becomes ready for pickup', async () => {
+      mockStageChange(
+        [
+          { id: 'service-1', is_done: true },
+          { id: 'service-2', is_done: true },
+        ],
+        'In Progress'
+      );
+
+      const result = await recalculateAndUpdateGarmentStage('garment-123');
+
+      expect(result).toEqual({ success: true, stage: 'Ready For Pickup' });
+      expect(sendGarmentReadyNotification).toHaveBeenCalledWith('garment-123');
+    });
+
+    it('does not notify again when the garment was already ready', async () => {
+      mockStageChange([{ id: 'service-1', is_done: true }], 'Ready For Pickup');
+
+      await recalculateAndUpdateGarmentStage('garment-123');
+
+      expect(sendGarmentReadyNotification).not.toHaveBeenCalled();
+    });
+
+    it('keeps the stage update when the notification fails', async () => {
+      (sendGarmentReadyNotification as jest.Mock).mockResolvedValueOnce({
+        success: false,
+        error: 'Resend down',
+      });
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockStageChange([{ id: 'service-1', is_done: true }], 'New');
+
+      const result = await recalculateAndUpdateGarmentStage('garment-123');
+
+      expect(result.success).toBe(true);
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
   describe('calculateGarmentStage', () => {
     it('should exclude soft-deleted services from stage calculation', async () => {
       const garmentId = 'garment-123';
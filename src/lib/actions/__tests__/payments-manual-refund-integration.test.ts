@@ -19,7 +19,7 @@ const mockCreateClient = require('@/lib/supabase/server')
 // Set up basic mocks
 mockEnsureUserAndShop.mockResolvedValue({
   user: { id: 'user-123' },
-  shop: { id: 'shop-123' },
+  shop: { id: 'shop-123', owner_user_id: 'user-123' },
 });
 mockCreateClient.mockResolvedValue({
   from: () => ({
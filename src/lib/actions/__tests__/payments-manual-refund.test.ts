@@ -18,7 +18,7 @@ const mockSupabase: any = {
 };
 
 const mockUser = { id: 'user-123' };
-const mockShop = { id: 'shop-123' };
+const mockShop = { id: 'shop-123', owner_user_id: 'user-123' };
 
 const mockPayment = {
   id: 'payment-123',
@@ -232,6 +232,101 @@ describe('processManualRefund', () => {
     });
   });
 
+  describe('refunds to store credit', () => {
+    const setupStoreCreditMocks = (paymentData: any = mockPayment) => {
+      setupSuccessfulMocks({
+        ...paymentData,
+        invoice: { ...paymentData.invoice, client_id: 'client-123' },
+      });
+      const creditInsert = jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          single: jest.fn().mockResolvedValue({
+            data: { id: 'entry-123' },
+            error: null,
+          }),
+        }),
+      });
+      const auditInsert = jest.fn().mockResolvedValue({ error: null });
+      const tableMock = mockSupabase.from.getMockImplementation();
+      mockSupabase.from.mockImplementation((table: string) => {
+        if (table === 'store_credit_entries') return { insert: creditInsert };
+        if (table === 'payment_audit_logs') return { insert: auditInsert };
+        return tableMock(table);
+      });
+      return { creditInsert, auditInsert };
+    };
+
+    it('should add the refund to the client store credit and audit it', async () => {
+      const { creditInsert, auditInsert } = setupStoreCreditMocks();
+
+      const result = await processManualRefund(
+        'payment-123',
+        2000,
+        'Credit instead of cash',
+        'store_credit'
+      );
+
+      expect(result.success).toBe(true);
+      expect(creditInsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          shop_id: 'shop-123',
+          client_id: 'client-123',
+          entry_type: 'issue',
+          amount_cents: 2000,
+          remaining_cents: 2000,
+          payment_id: 'payment-123',
+          refund_id: 'refund-123',
+          reason: 'Refund from invoice INV-001',
+        })
+      );
+      expect(auditInsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payment_id: 'payment-123',
+          action: 'refunded',
+        })
+      );
+    });
+
+    it('should allow refunding Stripe payments to store credit', async () => {
+      const { creditInsert } = setupStoreCreditMocks(mockStripePayment);
+
+      const result = await processManualRefund(
+        'payment-123',
+        2500,
+        'Overpayment',
+        'store_credit'
+      );
+
+      expect(result.success).toBe(true);
+      expect(creditInsert).toHaveBeenCalled();
+    });
+
+    it('should refund gift card payments to store credit', async () => {
+      const { creditInsert } = setupStoreCreditMocks({
+        ...mockPayment,
+        payment_method: 'gift_card',
+      });
+
+      const result = await processManualRefund(
+        'payment-123',
+        2500,
+        'Returned item',
+        'store_credit'
+      );
+
+      expect(result.success).toBe(true);
+      expect(creditInsert).toHaveBeenCalled();
+    });
+
+    it('should not add store credit for cash refunds', async () => {
+      const { creditInsert } = setupStoreCreditMocks();
+
+      await processManualRefund('payment-123', 2500, 'Cash back', 'cash');
+
+      expect(creditInsert).not.toHaveBeenCalled();
+    });
+  });
+
   describe('validation errors', () => {
     it('should reject refunds for Stripe payments', async () => {
       setupSuccessfulMocks(mockStripePayment);
@@ -249,6 +344,28 @@ describe('processManualRefund', () => {
       );
     });
 
+    it.each(['store_credit', 'gift_card'])(
+      'should reject cash refunds for %s payments',
+      async (paymentMethod) => {
+        setupSuccessfulMocks({
+          ...mockPayment,
+          payment_method: paymentMethod,
+        });
+
+        const result = await processManualRefund(
+          'payment-123',
+          2500,
+          'Test refund',
+          'cash'
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe(
+          'Store credit and gift card payments can only be refunded to store credit'
+        );
+      }
+    );
+
     it('should reject refunds for non-completed payments', async () => {
       setupSuccessfulMocks(mockPendingPayment);
 
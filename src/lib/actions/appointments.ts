@@ -5,6 +5,7 @@ import { z } from 'zod';
 import { revalidatePath } from 'next/cache';
 import { createClient } from '@/lib/supabase/server';
 import type { Appointment, AppointmentStatus } from '@/types';
+import type { Tables } from '@/types/supabase';
 import { EmailService } from '@/lib/services/email/email-service';
 import { EmailRepository } from '@/lib/services/email/email-repository';
 import {
@@ -23,8 +24,32 @@ import {
 } from '@/lib/utils/date-time-utc';
 import { getShopTimezone } from '@/lib/utils/timezone-helpers';
 import { toZonedTime } from 'date-fns-tz';
+import { offerFreedSlotToWaitlist } from '@/lib/utils/waitlist-offers';
+import {
+	MAX_RECURRENCE_INTERVAL,
+	MAX_SERIES_OCCURRENCES,
+	addDaysToDateString,
+	daysBetweenDateStrings,
+	generateOccurrenceDates,
+	type RecurrenceRule,
+	type SkippedOccurrence,
+} from '@/lib/utils/recurrence';
 
 // Validation schemas
+const recurrenceSchema = z
+	.object({
+		frequency: z.enum(['daily', 'weekly']),
+		interval: z.number().int().min(1).max(MAX_RECURRENCE_INTERVAL),
+		endDate: z
+			.string()
+			.regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format')
+			.optional(),
+		count: z.number().int().min(2).max(MAX_SERIES_OCCURRENCES).optional(),
+	})
+	.refine((rule) => rule.endDate || rule.count, {
+		message: 'Choose an end date or a number of appointments',
+	});
+
 const createAppointmentSchema = z.object({
 	shopId: z.string().uuid(),
 	clientId: z.string().uuid().optional(),
@@ -37,9 +62,14 @@ const createAppointmentSchema = z.object({
 	sendEmail: z.boolean().optional(),
 	// Timezone for the appointment (defaults to shop timezone if not provided)
 	timezone: z.string().optional(),
+	// Repeat the appointment; each occurrence is booked separately
+	recurrence: recurrenceSchema.optional(),
+	// Staff member the appointment is with (null for unassigned)
+	assignedTo: z.string().uuid().nullable().optional(),
 });
 
 const updateAppointmentSchema = createAppointmentSchema
+	.omit({ recurrence: true })
 	.extend({
 		id: z.string().uuid(),
 		status: z
@@ -55,6 +85,8 @@ const updateAppointmentSchema = createAppointmentSchema
 		originalDate: z.string().optional(), // For tracking date changes
 		// Per-operation flag to control whether to send notification emails
 		sendEmail: z.boolean().optional(),
+		// For series members: also apply the change to later or all occurrences
+		scope: z.enum(['this', 'following', 'all']).optional(),
 	})
 	.partial()
 	.required({ id: true });
@@ -62,6 +94,36 @@ const updateAppointmentSchema = createAppointmentSchema
 export type CreateAppointmentData = z.infer<typeof createAppointmentSchema>;
 export type UpdateAppointmentData = z.infer<typeof updateAppointmentSchema>;
 
+export interface AppointmentSeriesResult {
+	id: string;
+	// Every occurrence created or changed by the operation, in date order
+	appointments: Appointment[];
+	skipped: SkippedOccurrence[];
+}
+
+export type AppointmentWithSeriesResult = Appointment & {
+	series?: AppointmentSeriesResult;
+};
+
+const APPOINTMENT_WITH_CLIENT_SELECT = `
+      *,
+      client:clients(
+        id,
+        shop_id,
+        first_name,
+        last_name,
+        email,
+        phone_number,
+        accept_email,
+        accept_sms,
+        created_at,
+        updated_at
+      )
+    `;
+
+type ServerSupabaseClient = Awaited<ReturnType<typeof createClient>>;
+type AppointmentRow = Tables<'appointments'>;
+
 /**
  * Get appointments for a specific time range
  * Optimized for calendar views with proper indexes
@@ -96,9 +158,9 @@ export async function getAppointmentsByTimeRange(
 
 	const { data: shopData, error: shopError } = await supabase
 		.from('shops')
-		.select('id')
+		.select('id, users!users_shop_id_fkey!inner(id)')
 		.eq('id', shopId)
-		.eq('owner_user_id', userData.id)
+		.eq('users.id', userData.id)
 		.single();
 
 	if (shopError || !shopData) throw new Error('Unauthorized access to shop');
@@ -147,6 +209,7 @@ export async function getAppointmentsByTimeRange(
 		status: apt.status,
 		notes: apt.notes,
 		reminder_sent: apt.reminder_sent,
+		assigned_to: apt.assigned_to,
 		created_at: apt.created_at,
 		updated_at: apt.updated_at,
 		client: apt.client || null,
@@ -177,9 +240,9 @@ export async function getAppointmentCounts(
 
 	const { data: shopData, error: shopError } = await supabase
 		.from('shops')
-		.select('id')
+		.select('id, users!users_shop_id_fkey!inner(id)')
 		.eq('id', shopId)
-		.eq('owner_user_id', userData.id)
+		.eq('users.id', userData.id)
 		.single();
 
 	if (shopError || !shopData) throw new Error('Unauthorized access to shop');
@@ -209,11 +272,267 @@ export async function getAppointmentCounts(
 }
 
 /**
- * Create a new appointment using atomic database function
+ * Clients who opted out of both email and SMS can't confirm, so their
+ * appointments don't wait for confirmation
+ */
+async function getInitialAppointmentStatus(
+	supabase: ServerSupabaseClient,
+	clientId: string | undefined
+): Promise<AppointmentStatus> {
+	if (!clientId) return 'pending';
+
+	const { data: clientData, error: clientError } = await supabase
+		.from('clients')
+		.select('accept_email, accept_sms')
+		.eq('id', clientId)
+		.single();
+
+	if (
+		!clientError &&
+		clientData &&
+		clientData.accept_email === false &&
+		clientData.accept_sms === false
+	) {
+		return 'no_confirmation_required';
+	}
+
+	return 'pending';
+}
+
+/**
+ * Send the initial scheduled email to the client only. Failures are logged,
+ * never thrown: the appointment already exists.
+ */
+async function sendScheduledEmail(
+	supabase: ServerSupabaseClient,
+	ownerUserId: string,
+	appointment: Appointment,
+	sendEmail: boolean | undefined
+): Promise<void> {
+	// Skip if appointment status is 'no_confirmation_required'
+	if (appointment.status === 'no_confirmation_required') {
+		console.log(
+			'ℹ️ [appointments-refactored] Skipping email send. Appointment status is no_confirmation_required'
+		);
+		return;
+	}
+
+	try {
+		const clientAcceptsEmail = appointment.client?.accept_email !== false;
+		const shouldSend = sendEmail !== false; // default to true when undefined
+
+		if (clientAcceptsEmail && shouldSend) {
+			console.log(
+				'🚀 [appointments-refactored] Attempting to send scheduled email for appointment:',
+				appointment.id
+			);
+			const emailService = new EmailService(supabase, ownerUserId);
+			const result = await emailService.sendAppointmentEmail(
+				appointment.id,
+				'appointment_scheduled'
+			);
+			console.log('✅ [appointments-refactored] Email send result:', result);
+		} else {
+			console.log(
+				'ℹ️ [appointments-refactored] Skipping email send. clientAcceptsEmail:',
+				clientAcceptsEmail,
+				'shouldSend:',
+				shouldSend
+			);
+		}
+	} catch (e) {
+		console.error(
+			'❌ [appointments-refactored] Failed to send scheduled email:',
+			e
+		);
+	}
+}
+
+/**
+ * Why a series occurrence can't be booked on this date given the shop's
+ * weekly hours, or null when it fits. Days without saved hours count as open.
+ */
+function getShopHoursProblem(
+	shopHours: Array<{
+		day_of_week: number;
+		open_time: string | null;
+		close_time: string | null;
+		is_closed: boolean | null;
+	}>,
+	date: string,
+	startTime: string,
+	endTime: string
+): string | null {
+	const [year, month, day] = date.split('-').map(Number);
+	const dayOfWeek = new Date(Date.UTC(year!, month! - 1, day!)).getUTCDay();
+	const hours = shopHours.find((h) => h.day_of_week === dayOfWeek);
+
+	if (!hours) return null;
+	if (hours.is_closed) return 'The shop is closed on this day';
+	if (
+		(hours.open_time && startTime < hours.open_time.slice(0, 5)) ||
+		(hours.close_time && endTime > hours.close_time.slice(0, 5))
+	) {
+		return 'The appointment is outside of working hours';
+	}
+	return null;
+}
+
+/**
+ * Book every occurrence of a recurrence rule. Occurrences that fall on closed
+ * days, outside working hours or on top of existing bookings are skipped and
+ * reported rather than failing the whole series.
+ */
+async function createAppointmentSeries(
+	supabase: ServerSupabaseClient,
+	ownerUserId: string,
+	validated: CreateAppointmentData,
+	rule: RecurrenceRule,
+	timezone: string
+): Promise<AppointmentWithSeriesResult> {
+	if (!validated.clientId) {
+		throw new Error('Recurring appointments need a client');
+	}
+
+	const dates = generateOccurrenceDates(validated.date, rule);
+	if (dates.length < 2) {
+		throw new Error('This repeat setting only creates one appointment');
+	}
+
+	const appointmentStatus = await getInitialAppointmentStatus(
+		supabase,
+		validated.clientId
+	);
+
+	const { data: shopHours } = await supabase
+		.from('shop_hours')
+		.select('day_of_week, open_time, close_time, is_closed')
+		.eq('shop_id', validated.shopId);
+
+	const { data: series, error: seriesError } = await supabase
+		.from('appointment_series')
+		.insert({
+			shop_id: validated.shopId,
+			client_id: validated.clientId,
+			frequency: rule.frequency,
+			interval: rule.interval,
+			ends_on: rule.endDate ?? null,
+			occurrence_count: rule.count ?? null,
+		})
+		.select('id')
+		.single();
+
+	if (seriesError || !series) {
+		console.error('Failed to create appointment series:', seriesError);
+		throw new Error('Failed to create appointment series');
+	}
+
+	const created: Appointment[] = [];
+	const skipped: SkippedOccurrence[] = [];
+
+	for (const date of dates) {
+		const hoursProblem = getShopHoursProblem(
+			shopHours || [],
+			date,
+			validated.startTime,
+			validated.endTime
+		);
+		if (hoursProblem) {
+			skipped.push({ date, reason: hoursProblem });
+			continue;
+		}
+
+		const { data: hasConflict, error: conflictError } = await supabase.rpc(
+			'check_appointment_conflict',
+			{
+				p_shop_id: validated.shopId,
+				p_date: date,
+				p_start_time: validated.startTime,
+				p_end_time: validated.endTime,
+			}
+		);
+
+		if (conflictError) {
+			skipped.push({ date, reason: 'Failed to check for conflicts' });
+			continue;
+		}
+		if (hasConflict) {
+			skipped.push({ date, reason: 'This time slot is already booked' });
+			continue;
+		}
+
+		const startAt = convertLocalToUTC(date, validated.startTime, timezone);
+		const endAt = convertLocalToUTC(date, validated.endTime, timezone);
+
+		const { data: appointment, error } = await supabase
+			.from('appointments')
+			.insert({
+				shop_id: validated.shopId,
+				client_id: validated.clientId,
+				series_id: series.id,
+				date,
+				start_time: validated.startTime,
+				end_time: validated.endTime,
+				start_at: startAt.toISOString(),
+				end_at: endAt.toISOString(),
+				type: validated.type,
+				notes: validated.notes || null,
+				status: appointmentStatus,
+				assigned_to: validated.assignedTo ?? null,
+			})
+			.select(APPOINTMENT_WITH_CLIENT_SELECT)
+			.single();
+
+		if (error || !appointment) {
+			skipped.push({
+				date,
+				reason:
+					error?.code === 'P0001'
+						? 'This time slot is already booked'
+						: error?.code === 'P0002'
+							? 'The appointment is outside of working hours'
+							: 'Failed to create appointment',
+			});
+			continue;
+		}
+
+		created.push(appointment as Appointment);
+	}
+
+	const [first] = created;
+	if (!first) {
+		await supabase.from('appointment_series').delete().eq('id', series.id);
+		throw new Error(
+			'None of the appointments in this series could be booked. Please choose another time.'
+		);
+	}
+
+	// Each occurrence gets its own email so the client can confirm it and add
+	// it to their calendar
+	for (const appointment of created) {
+		await sendScheduledEmail(
+			supabase,
+			ownerUserId,
+			appointment,
+			validated.sendEmail
+		);
+	}
+
+	revalidatePath('/appointments');
+
+	return {
+		...first,
+		series: { id: series.id, appointments: created, skipped },
+	};
+}
+
+/**
+ * Create a new appointment using atomic database function.
+ * With a recurrence rule, creates a series and returns its first occurrence.
  */
 export async function createAppointment(
 	data: CreateAppointmentData
-): Promise<Appointment> {
+): Promise<AppointmentWithSeriesResult> {
 	const { userId } = await auth();
 	if (!userId) throw new Error('Unauthorized');
 
@@ -242,13 +561,23 @@ export async function createAppointment(
 
 	const { data: shopData, error: shopError } = await supabase
 		.from('shops')
-		.select('id')
+		.select('id, users!users_shop_id_fkey!inner(id)')
 		.eq('id', validated.shopId)
-		.eq('owner_user_id', userData.id)
+		.eq('users.id', userData.id)
 		.single();
 
 	if (shopError || !shopData) throw new Error('Unauthorized access to shop');
 
+	if (validated.recurrence) {
+		return createAppointmentSeries(
+			supabase,
+			userData.id,
+			validated,
+			validated.recurrence,
+			timezone
+		);
+	}
+
 	// Check for conflicts before creating appointment
 	const { data: hasConflict, error: conflictError } = await supabase.rpc(
 		'check_appointment_conflict',
@@ -279,25 +608,10 @@ export async function createAppointment(
 	const endAt = convertLocalToUTC(validated.date, validated.endTime, timezone);
 
 	// First, fetch client details to check opt-in preferences
-	let appointmentStatus: AppointmentStatus = 'pending'; // default status
-
-	if (validated.clientId) {
-		const { data: clientData, error: clientError } = await supabase
-			.from('clients')
-			.select('accept_email, accept_sms')
-			.eq('id', validated.clientId)
-			.single();
-
-		if (!clientError && clientData) {
-			// If client has opted out of both email and SMS, use no_confirmation_required status
-			if (
-				clientData.accept_email === false &&
-				clientData.accept_sms === false
-			) {
-				appointmentStatus = 'no_confirmation_required';
-			}
-		}
-	}
+	const appointmentStatus = await getInitialAppointmentStatus(
+		supabase,
+		validated.clientId
+	);
 
 	// Insert appointment with both legacy and UTC fields
 	const insertData: any = {
@@ -313,6 +627,7 @@ export async function createAppointment(
 		type: validated.type,
 		notes: validated.notes || null,
 		status: appointmentStatus,
+		assigned_to: validated.assignedTo ?? null,
 	};
 
 	// Only add client_id if provided (it's required in the database)
@@ -342,23 +657,7 @@ export async function createAppointment(
 	// Fetch the complete appointment with client data
 	const { data: completeAppointment, error: fetchError } = await supabase
 		.from('appointments')
-		.select(
-			`
-      *,
-      client:clients(
-        id,
-        shop_id,
-        first_name,
-        last_name,
-        email,
-        phone_number,
-        accept_email,
-        accept_sms,
-        created_at,
-        updated_at
-      )
-    `
-		)
+		.select(APPOINTMENT_WITH_CLIENT_SELECT)
 		.eq('id', appointment.id)
 		.single();
 
@@ -366,44 +665,12 @@ export async function createAppointment(
 		throw new Error('Failed to fetch created appointment');
 	}
 
-	// Conditionally send initial scheduled email to the client only
-	// Skip if appointment status is 'no_confirmation_required'
-	if (appointmentStatus !== 'no_confirmation_required') {
-		try {
-			const clientAcceptsEmail =
-				completeAppointment.client?.accept_email !== false;
-			const shouldSend = validated.sendEmail !== false; // default to true when undefined
-
-			if (clientAcceptsEmail && shouldSend) {
-				console.log(
-					'🚀 [appointments-refactored] Attempting to send scheduled email for appointment:',
-					appointment.id
-				);
-				const emailService = new EmailService(supabase, userData.id);
-				const result = await emailService.sendAppointmentEmail(
-					appointment.id,
-					'appointment_scheduled'
-				);
-				console.log('✅ [appointments-refactored] Email send result:', result);
-			} else {
-				console.log(
-					'ℹ️ [appointments-refactored] Skipping email send. clientAcceptsEmail:',
-					clientAcceptsEmail,
-					'shouldSend:',
-					shouldSend
-				);
-			}
-		} catch (e) {
-			console.error(
-				'❌ [appointments-refactored] Failed to send scheduled email:',
-				e
-			);
-		}
-	} else {
-		console.log(
-			'ℹ️ [appointments-refactored] Skipping email send. Appointment status is no_confirmation_required'
-		);
-	}
+	await sendScheduledEmail(
+		supabase,
+		userData.id,
+		{ ...completeAppointment, status: appointmentStatus } as Appointment,
+		validated.sendEmail
+	);
 
 	// Revalidate the appointments page
 	revalidatePath('/appointments');
@@ -412,21 +679,18 @@ export async function createAppointment(
 }
 
 /**
- * Update an existing appointment
+ * Apply an update to one appointment: ownership and past checks, conflict
+ * check, UTC conversion and notification emails
  */
-export async function updateAppointment(
-	data: UpdateAppointmentData
-): Promise<Appointment> {
-	const { userId } = await auth();
-	if (!userId) throw new Error('Unauthorized');
-
-	const validated = updateAppointmentSchema.parse(data);
-	const supabase = await createClient();
-
+async function applyAppointmentUpdate(
+	supabase: ServerSupabaseClient,
+	userId: string,
+	validated: UpdateAppointmentData
+): Promise<{ appointment: Appointment; previous: AppointmentRow }> {
 	// Get current appointment to verify ownership
 	const { data: currentApt, error: fetchError } = await supabase
 		.from('appointments')
-		.select('*, shops!inner(owner_user_id, users!inner(clerk_user_id))')
+		.select('*, shops!inner(users!users_shop_id_fkey!inner(clerk_user_id))')
 		.eq('id', validated.id)
 		.eq('shops.users.clerk_user_id', userId)
 		.single();
@@ -528,6 +792,9 @@ export async function updateAppointment(
 		updateData.date = date;
 		updateData.start_time = startTime;
 		updateData.end_time = endTime;
+
+		// A new time slot needs its own reminder
+		updateData.reminder_sent = false;
 	}
 
 	// Check if this is a reschedule (date/time changed)
@@ -549,6 +816,8 @@ export async function updateAppointment(
 	if (validated.notes !== undefined) updateData.notes = validated.notes;
 	if (validated.clientId !== undefined)
 		updateData.client_id = validated.clientId;
+	if (validated.assignedTo !== undefined)
+		updateData.assigned_to = validated.assignedTo;
 
 	const { data: updatedApt, error: updateError } = await supabase
 		.from('appointments')
@@ -661,10 +930,150 @@ export async function updateAppointment(
 		console.warn('[updateAppointment] Failed to send notification email:', e);
 	}
 
+	// Offer the freed slot to the waitlist
+	if (validated.status === 'canceled' && currentApt.status !== 'canceled') {
+		try {
+			await offerFreedSlotToWaitlist(supabase, validated.id);
+		} catch (e) {
+			console.warn('[updateAppointment] Failed to offer slot to waitlist:', e);
+		}
+	}
+
+	return { appointment: updatedApt as Appointment, previous: currentApt };
+}
+
+/**
+ * Carry an edit of one series occurrence over to the later (or all) upcoming
+ * occurrences. A date move shifts each occurrence by the same number of days.
+ * Occurrences that can't take the change are skipped and reported.
+ */
+async function applySeriesUpdate(
+	supabase: ServerSupabaseClient,
+	userId: string,
+	validated: UpdateAppointmentData,
+	primary: Appointment,
+	previous: AppointmentRow
+): Promise<AppointmentSeriesResult> {
+	const seriesId = previous.series_id!;
+	const { data: siblings, error } = await supabase
+		.from('appointments')
+		.select('id, date, start_time, end_time, status')
+		.eq('series_id', seriesId)
+		.eq('shop_id', previous.shop_id)
+		.neq('id', previous.id)
+		.order('date', { ascending: true });
+
+	if (error) {
+		throw new Error('Failed to load appointment series');
+	}
+
+	const timezone =
+		validated.timezone || (await getShopTimezone(previous.shop_id));
+	const dayShift = validated.date
+		? daysBetweenDateStrings(previous.date, validated.date)
+		: 0;
+
+	const targets = (siblings || []).filter(
+		(sibling) =>
+			sibling.status !== 'canceled' &&
+			sibling.status !== 'declined' &&
+			(validated.scope === 'all' ||
+				sibling.date > previous.date ||
+				(sibling.date === previous.date &&
+					sibling.start_time > previous.start_time)) &&
+			!isDateTimeInPastForTimezone(sibling.date, sibling.end_time, timezone)
+	);
+
+	const {
+		id: _id,
+		scope: _scope,
+		originalDate: _originalDate,
+		...changes
+	} = validated;
+	const updated: Appointment[] = [primary];
+	const skipped: SkippedOccurrence[] = [];
+
+	for (const sibling of targets) {
+		const { date, startTime, endTime, ...otherChanges } = changes;
+		const siblingUpdate: UpdateAppointmentData = {
+			...otherChanges,
+			id: sibling.id,
+		};
+
+		// Only send a time change when this occurrence actually moves, so
+		// untouched occurrences keep their status and don't get a reschedule email
+		const newDate =
+			date !== undefined
+				? addDaysToDateString(sibling.date, dayShift)
+				: sibling.date;
+		const newStartTime = startTime ?? sibling.start_time.slice(0, 5);
+		const newEndTime = endTime ?? sibling.end_time.slice(0, 5);
+		if (
+			newDate !== sibling.date ||
+			newStartTime !== sibling.start_time.slice(0, 5) ||
+			newEndTime !== sibling.end_time.slice(0, 5)
+		) {
+			siblingUpdate.date = newDate;
+			siblingUpdate.startTime = newStartTime;
+			siblingUpdate.endTime = newEndTime;
+		}
+
+		try {
+			const { appointment } = await applyAppointmentUpdate(
+				supabase,
+				userId,
+				siblingUpdate
+			);
+			updated.push(appointment);
+		} catch (e) {
+			skipped.push({
+				date: sibling.date,
+				reason: e instanceof Error ? e.message : 'Failed to update appointment',
+			});
+		}
+	}
+
+	updated.sort((a, b) =>
+		`${a.date} ${a.start_time}`.localeCompare(`${b.date} ${b.start_time}`)
+	);
+
+	return { id: seriesId, appointments: updated, skipped };
+}
+
+/**
+ * Update an existing appointment. For series members, `scope` controls whether
+ * the change also applies to the following or all upcoming occurrences.
+ */
+export async function updateAppointment(
+	data: UpdateAppointmentData
+): Promise<AppointmentWithSeriesResult> {
+	const { userId } = await auth();
+	if (!userId) throw new Error('Unauthorized');
+
+	const validated = updateAppointmentSchema.parse(data);
+	const supabase = await createClient();
+
+	const { appointment, previous } = await applyAppointmentUpdate(
+		supabase,
+		userId,
+		validated
+	);
+
+	let series: AppointmentSeriesResult | undefined;
+	if (validated.scope && validated.scope !== 'this' && previous.series_id) {
+		series = await applySeriesUpdate(
+			supabase,
+			userId,
+			validated,
+			appointment,
+			previous
+		);
+	}
+
 	// Revalidate the appointments page
 	revalidatePath('/appointments');
 
-	return updatedApt as Appointment;
+	return series ? { ...appointment, series } : appointment;
 }
 
 /**
@@ -687,8 +1096,8 @@ export async function deleteAppointment(appointmentId: string): Promise<void> {
 
 	const { data: shopData, error: shopError } = await supabase
 		.from('shops')
-		.select('id')
-		.eq('owner_user_id', userData.id)
+		.select('id, users!users_shop_id_fkey!inner(id)')
+		.eq('users.id', userData.id)
 		.single();
 
 	if (shopError || !shopData) throw new Error('Unauthorized access to shop');
@@ -733,9 +1142,9 @@ export async function getClientAppointments(
 
 	const { data: shopData, error: shopError } = await supabase
 		.from('shops')
-		.select('id')
+		.select('id, users!users_shop_id_fkey!inner(id)')
 		.eq('id', shopId)
-		.eq('owner_user_id', userData.id)
+		.eq('users.id', userData.id)
 		.single();
 
 	if (shopError || !shopData) throw new Error('Unauthorized access to shop');
@@ -802,9 +1211,9 @@ export async function getClientReadyForPickupCount(
 
 	const { data: shopData, error: shopError } = await supabase
 		.from('shops')
-		.select('id')
+		.select('id, users!users_shop_id_fkey!inner(id)')
 		.eq('id', shopId)
-		.eq('owner_user_id', userData.id)
+		.eq('users.id', userData.id)
 		.single();
 
 	if (shopError || !shopData) throw new Error('Unauthorized access to shop');
@@ -850,9 +1259,9 @@ export async function getNextClientAppointment(
 
 	const { data: shopData, error: shopError } = await supabase
 		.from('shops')
-		.select('id')
+		.select('id, users!users_shop_id_fkey!inner(id)')
 		.eq('id', shopId)
-		.eq('owner_user_id', userData.id)
+		.eq('users.id', userData.id)
 		.single();
 
 	if (shopError || !shopData) throw new Error('Unauthorized access to shop');
@@ -938,9 +1347,9 @@ export async function getClientAppointmentsPage(
 
 	const { data: shopData, error: shopError } = await supabase
 		.from('shops')
-		.select('id')
+		.select('id, users!users_shop_id_fkey!inner(id)')
 		.eq('id', shopId)
-		.eq('owner_user_id', userData.id)
+		.eq('users.id', userData.id)
 		.single();
 	if (shopError || !shopData) throw new Error('Unauthorized access to shop');
 
@@ -0,0 +1,374 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from '@/lib/auth/user-shop';
+import { updateGarmentStage } from '@/app/(app)/garments/actions/update-garment';
+import { formatCurrency } from '@/lib/utils/formatting';
+import { getStageMoveError } from '@/lib/utils/garmentStageCalculator';
+import { getShopTimezone } from '@/lib/utils/timezone-helpers';
+import { markGarmentAsPickedUp } from './garment-pickup';
+import { checkGarmentBalanceStatus } from './garment-balance-check';
+import { toggleServiceCompletion } from './garment-services';
+import { updateGarment } from './garments';
+import { cancelOrder } from './orders-cancellation';
+import { sendPaymentRequestEmail } from './emails/invoice-emails';
+
+// Enough for a full page of either list
+const MAX_BULK_ITEMS = 100;
+
+const BulkIdsSchema = z
+	.array(z.string().uuid())
+	.min(1, 'Select at least one item')
+	.max(MAX_BULK_ITEMS, `Select at most ${MAX_BULK_ITEMS} items`);
+
+// Done is only reached through pickup, which has its own bulk action
+const BulkStageSchema = z.enum(['New', 'In Progress', 'Ready For Pickup']);
+
+const DueDateSchema = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, 'Due date must be YYYY-MM-DD');
+
+export interface BulkItemResult {
+	id: string;
+	success: boolean;
+	error?: string;
+}
+
+export interface BulkActionResult {
+	success: boolean;
+	data?: BulkItemResult[];
+	error?: string;
+}
+
+type ItemOutcome = { success: boolean; error?: string | undefined };
+
+/**
+ * Runs an action for each id in turn so one failure doesn't stop the rest
+ */
+async function runForEach(
+	ids: string[],
+	run: (id: string) => Promise<ItemOutcome>
+): Promise<BulkItemResult[]> {
+	const results: BulkItemResult[] = [];
+	for (const id of ids) {
+		try {
+			const outcome = await run(id);
+			results.push(
+				outcome.success
+					? { id, success: true }
+					: { id, success: false, error: outcome.error || 'Failed' }
+			);
+		} catch (error) {
+			results.push({
+				id,
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed',
+			});
+		}
+	}
+	return results;
+}
+
+function toErrorResult(error: unknown, fallback: string): BulkActionResult {
+	if (error instanceof z.ZodError) {
+		return {
+			success: false,
+			error: error.errors.map((e) => e.message).join(', '),
+		};
+	}
+	console.error(`${fallback}:`, error);
+	return {
+		success: false,
+		error: error instanceof Error ? error.message : fallback,
+	};
+}
+
+/**
+ * Moves garments to a stage with the same rules as moving one on its page
+ */
+export async function bulkChangeGarmentStage(
+	garmentIds: string[],
+	stage: 'New' | 'In Progress' | 'Ready For Pickup'
+): Promise<BulkActionResult> {
+	try {
+		const ids = BulkIdsSchema.parse(garmentIds);
+		const targetStage = BulkStageSchema.parse(stage);
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: garments, error } = await supabase
+			.from('garments')
+			.select('id, stage, garment_services(id, is_done, is_removed)')
+			.eq('shop_id', shop.id)
+			.in('id', ids);
+
+		if (error) throw error;
+		const byId = new Map((garments || []).map((g) => [g.id, g]));
+
+		const results = await runForEach(ids, async (id) => {
+			const garment = byId.get(id);
+			if (!garment) return { success: false, error: 'Garment not found' };
+
+			const moveError = getStageMoveError(
+				garment.stage || 'New',
+				targetStage,
+				(garment.garment_services || []).map((service) => ({
+					id: service.id,
+					is_done: !!service.is_done,
+					is_removed: !!service.is_removed,
+				}))
+			);
+			if (moveError) return { success: false, error: moveError };
+
+			await updateGarmentStage(shop.id, id, targetStage);
+			return { success: true };
+		});
+
+		revalidatePath('/garments');
+		return { success: true, data: results };
+	} catch (error) {
+		return toErrorResult(error, 'Failed to change garment stages');
+	}
+}
+
+/**
+ * Marks every unfinished service on each garment as done. Each service goes
+ * through toggleServiceCompletion, so deposits and cancelled orders still
+ * block the garment.
+ */
+export async function bulkCompleteGarmentServices(
+	garmentIds: string[]
+): Promise<BulkActionResult> {
+	try {
+		const ids = BulkIdsSchema.parse(garmentIds);
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: garments, error } = await supabase
+			.from('garments')
+			.select('id, garment_services(id, is_done, is_removed)')
+			.eq('shop_id', shop.id)
+			.in('id', ids);
+
+		if (error) throw error;
+		const byId = new Map((garments || []).map((g) => [g.id, g]));
+
+		const results = await runForEach(ids, async (id) => {
+			const garment = byId.get(id);
+			if (!garment) return { success: false, error: 'Garment not found' };
+
+			const active = (garment.garment_services || []).filter(
+				(service) => !service.is_removed
+			);
+			if (active.length === 0) {
+				return { success: false, error: 'This garment has no services' };
+			}
+
+			for (const service of active.filter((s) => !s.is_done)) {
+				const result = await toggleServiceCompletion({
+					garmentServiceId: service.id,
+					isDone: true,
+				});
+				if (!result.success) return result;
+			}
+			return { success: true };
+		});
+
+		revalidatePath('/garments');
+		return { success: true, data: results };
+	} catch (error) {
+		return toErrorResult(error, 'Failed to complete garment services');
+	}
+}
+
+/**
+ * Gives each garment a new due date. The garment history trigger records
+ * the old and new dates.
+ */
+export async function bulkRescheduleGarments(
+	garmentIds: string[],
+	dueDate: string
+): Promise<BulkActionResult> {
+	try {
+		const ids = BulkIdsSchema.parse(garmentIds);
+		const date = DueDateSchema.parse(dueDate);
+		const { shop } = await ensureUserAndShop();
+		const timezone = await getShopTimezone(shop.id);
+
+		const results = await runForEach(ids, (id) =>
+			updateGarment({
+				garmentId: id,
+				updates: { dueDate: date },
+				timezone,
+			})
+		);
+
+		revalidatePath('/garments');
+		return { success: true, data: results };
+	} catch (error) {
+		return toErrorResult(error, 'Failed to reschedule garments');
+	}
+}
+
+/**
+ * Marks garments as picked up. A garment that would leave its order with
+ * money owing is skipped, since that needs the payment prompt on the
+ * garment page.
+ */
+export async function bulkMarkGarmentsPickedUp(
+	garmentIds: string[]
+): Promise<BulkActionResult> {
+	try {
+		const ids = BulkIdsSchema.parse(garmentIds);
+		await ensureUserAndShop();
+
+		const results = await runForEach(ids, async (id) => {
+			const balance = await checkGarmentBalanceStatus({ garmentId: id });
+			if (!balance.success) return balance;
+			if (balance.isLastGarment && balance.hasOutstandingBalance) {
+				return {
+					success: false,
+					error: `Order ${balance.orderNumber || ''} has ${formatCurrency(balance.balanceDue || 0)} due; collect it from the garment page`,
+				};
+			}
+
+			return markGarmentAsPickedUp({ garmentId: id });
+		});
+
+		revalidatePath('/garments');
+		return { success: true, data: results };
+	} catch (error) {
+		return toErrorResult(error, 'Failed to mark garments as picked up');
+	}
+}
+
+/**
+ * Emails the client of each order a payment request for its open invoice
+ */
+export async function bulkSendPaymentReminders(
+	orderIds: string[]
+): Promise<BulkActionResult> {
+	try {
+		const ids = BulkIdsSchema.parse(orderIds);
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const [{ data: orders, error: ordersError }, { data: invoices, error }] =
+			await Promise.all([
+				supabase
+					.from('orders')
+					.select('id, status')
+					.eq('shop_id', shop.id)
+					.in('id', ids),
+				supabase
+					.from('invoices')
+					.select('id, order_id, status')
+					.eq('shop_id', shop.id)
+					.in('order_id', ids)
+					.neq('status', 'cancelled')
+					.order('created_at', { ascending: false }),
+			]);
+
+		if (ordersError) throw ordersError;
+		if (error) throw error;
+
+		const statusById = new Map((orders || []).map((o) => [o.id, o.status]));
+		// Newest invoice per order
+		const invoiceByOrder = new Map<string, { id: string; status: string }>();
+		for (const invoice of invoices || []) {
+			if (!invoiceByOrder.has(invoice.order_id)) {
+				invoiceByOrder.set(invoice.order_id, invoice);
+			}
+		}
+
+		const results = await runForEach(ids, async (id) => {
+			const status = statusById.get(id);
+			if (!status) return { success: false, error: 'Order not found' };
+			if (status === 'cancelled') {
+				return { success: false, error: 'This order is cancelled' };
+			}
+
+			const invoice = invoiceByOrder.get(id);
+			if (!invoice) {
+				return { success: false, error: 'This order has no invoice' };
+			}
+			if (invoice.status === 'paid') {
+				return { success: false, error: 'This order is already paid' };
+			}
+
+			return sendPaymentRequestEmail(invoice.id);
+		});
+
+		return { success: true, data: results };
+	} catch (error) {
+		return toErrorResult(error, 'Failed to send payment reminders');
+	}
+}
+
+/**
+ * Cancels orders one at a time through cancelOrder, and notes the
+ * cancellation in the history of each garment on a cancelled order
+ */
+export async function bulkCancelOrders(
+	orderIds: string[],
+	cancellationReason?: string
+): Promise<BulkActionResult> {
+	try {
+		const ids = BulkIdsSchema.parse(orderIds);
+		const { shop, user } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: orders, error } = await supabase
+			.from('orders')
+			.select('id, status, garments(id)')
+			.eq('shop_id', shop.id)
+			.in('id', ids);
+
+		if (error) throw error;
+		const byId = new Map((orders || []).map((o) => [o.id, o]));
+
+		const results = await runForEach(ids, async (id) => {
+			const result = await cancelOrder({
+				orderId: id,
+				...(cancellationReason ? { cancellationReason } : {}),
+			});
+			if (!result.success) {
+				return {
+					success: false,
+					error:
+						'errors' in result
+							? Object.values(result.errors).flat().join(', ')
+							: result.error,
+				};
+			}
+
+			const order = byId.get(id);
+			if (order?.garments.length) {
+				const { error: historyError } = await supabase
+					.from('garment_history')
+					.insert(
+						order.garments.map((garment) => ({
+							garment_id: garment.id,
+							changed_by: user.id,
+							field_name: 'order_status',
+							old_value: order.status,
+							new_value: 'cancelled',
+							change_type: 'field_update',
+						}))
+					);
+
+				if (historyError) {
+					console.error('Error tracking order cancellation:', historyError);
+					// The order is cancelled either way
+				}
+			}
+			return { success: true };
+		});
+
+		return { success: true, data: results };
+	} catch (error) {
+		return toErrorResult(error, 'Failed to cancel orders');
+	}
+}
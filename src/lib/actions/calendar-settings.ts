@@ -1,9 +1,9 @@
 'use server';
 
-import { auth } from '@clerk/nextjs/server';
 import { revalidatePath } from 'next/cache';
 import { createClient } from '@/lib/supabase/server';
 import { ensureUserAndShop } from '@/lib/auth/user-shop';
+import { requirePermission } from '@/lib/auth/permissions';
 
 // Get calendar settings
 export async function getCalendarSettings() {
@@ -40,31 +40,14 @@ export async function updateCalendarSettings(settings: {
   reminder_hours_before: number;
   allow_overlapping_appointments: boolean;
 }) {
-  const { userId } = await auth();
-  if (!userId) throw new Error('Unauthorized');
+  const { user, shop } = await ensureUserAndShop();
+  requirePermission({ user, shop }, 'manage_settings');
 
   const supabase = await createClient();
 
-  // Get user's shop
-  const { data: userData, error: userError } = await supabase
-    .from('users')
-    .select('id')
-    .eq('clerk_user_id', userId)
-    .single();
-
-  if (userError) throw new Error('Failed to fetch user');
-
-  const { data: shopData, error: shopError } = await supabase
-    .from('shops')
-    .select('id')
-    .eq('owner_user_id', userData.id)
-    .single();
-
-  if (shopError) throw new Error('Failed to fetch shop');
-
   const { error } = await supabase.from('calendar_settings').upsert(
     {
-      shop_id: shopData.id,
+      shop_id: shop.id,
       ...settings,
     },
     { onConflict: 'shop_id' }
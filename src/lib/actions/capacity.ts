@@ -0,0 +1,111 @@
+'use server';
+
+import { format } from 'date-fns';
+import { toZonedTime } from 'date-fns-tz';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from './users';
+import { getShopHours } from './shop-hours';
+import {
+	estimateServiceMinutes,
+	getDailyCapacityMinutes,
+	type QueuedWork,
+} from '@/lib/utils/capacity-planning';
+
+const DEFAULT_TIMEZONE = 'America/New_York';
+
+export interface CapacityPlan {
+	// Shop-local date
+	today: string;
+	// Working minutes per weekday, 0 (Sunday) to 6
+	dailyCapacityMinutes: number[];
+	// Remaining estimated work per active garment
+	queue: QueuedWork[];
+	// Open services in the queue with no time estimate; they count as zero
+	unestimatedServiceCount: number;
+	// Catalog estimate per unit, by service id
+	serviceEstimates: Record<string, number | null>;
+}
+
+/**
+ * Working hours against the estimated work left on active garments, for
+ * suggesting due dates and the weekly workload view. Active garments are the
+ * ones getActiveGarments lists: not Done or Ready For Pickup, on orders that
+ * aren't cancelled.
+ */
+export async function getCapacityPlan(): Promise<{
+	success: boolean;
+	data?: CapacityPlan;
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const [
+			hours,
+			{ data: garments, error: garmentsError },
+			{ data: services, error: servicesError },
+		] = await Promise.all([
+			getShopHours(),
+			supabase
+				.from('garments')
+				.select(
+					'id, due_date, garment_services(quantity, unit, is_done, is_removed, service:services(estimated_minutes)), orders!inner(status)'
+				)
+				.eq('shop_id', shop.id)
+				.not('stage', 'in', '("Done","Ready For Pickup")')
+				.neq('orders.status', 'cancelled'),
+			supabase
+				.from('services')
+				.select('id, estimated_minutes')
+				.eq('shop_id', shop.id),
+		]);
+
+		if (garmentsError) throw garmentsError;
+		if (servicesError) throw servicesError;
+
+		let unestimatedServiceCount = 0;
+		const queue: QueuedWork[] = [];
+		for (const garment of garments || []) {
+			let minutes = 0;
+			for (const line of garment.garment_services || []) {
+				if (line.is_done || line.is_removed) continue;
+				const estimate = estimateServiceMinutes({
+					quantity: line.quantity,
+					unit: line.unit,
+					estimatedMinutes: line.service?.estimated_minutes,
+				});
+				if (estimate === null) {
+					unestimatedServiceCount++;
+				} else {
+					minutes += estimate;
+				}
+			}
+			if (minutes > 0) {
+				queue.push({ dueDate: garment.due_date, minutes });
+			}
+		}
+
+		return {
+			success: true,
+			data: {
+				today: format(
+					toZonedTime(new Date(), shop.timezone || DEFAULT_TIMEZONE),
+					'yyyy-MM-dd'
+				),
+				dailyCapacityMinutes: getDailyCapacityMinutes(hours),
+				queue,
+				unestimatedServiceCount,
+				serviceEstimates: Object.fromEntries(
+					(services || []).map((service) => [
+						service.id,
+						service.estimated_minutes,
+					])
+				),
+			},
+		};
+	} catch (error) {
+		console.error('Failed to load capacity plan:', error);
+		return { success: false, error: 'Failed to load capacity plan' };
+	}
+}
@@ -0,0 +1,291 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from './users';
+import { loadAllRows } from '@/lib/utils/data-export';
+import {
+	calculateOutstandingBalance,
+	findDuplicateClients,
+	type DuplicatePair,
+} from '@/lib/utils/client-duplicates';
+
+const DUPLICATE_CLIENT_SELECT =
+	'id, first_name, last_name, email, phone_number, created_at';
+
+export type DuplicateClient = {
+	id: string;
+	first_name: string;
+	last_name: string;
+	email: string;
+	phone_number: string;
+	created_at: string | null;
+};
+
+export type ClientMergePreview = {
+	// Records that will move from the duplicate to the kept client
+	moving: {
+		orders: number;
+		invoices: number;
+		payments: number;
+		appointments: number;
+	};
+	balanceCents: {
+		surviving: number;
+		merged: number;
+		// Same as the two added together; a merge never changes what's owed
+		combined: number;
+	};
+	// Reasons the merge can't go ahead
+	blockers: string[];
+};
+
+export type ClientMerge = {
+	id: string;
+	survivingClientId: string;
+	survivingClientName: string;
+	mergedClientName: string;
+	movedCounts: Record<string, number>;
+	mergedAt: string;
+};
+
+type ActionResult<T> = {
+	success: boolean;
+	data?: T;
+	error?: string;
+};
+
+/**
+ * Active clients that look like the same person, most certain first
+ */
+export async function getDuplicateClients(): Promise<
+	ActionResult<DuplicatePair<DuplicateClient>[]>
+> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const clients = await loadAllRows<DuplicateClient>((from, to) =>
+			supabase
+				.from('clients')
+				.select(DUPLICATE_CLIENT_SELECT)
+				.eq('shop_id', shop.id)
+				.eq('is_archived', false)
+				.order('id')
+				.range(from, to)
+		);
+
+		return { success: true, data: findDuplicateClients(clients) };
+	} catch (error) {
+		console.error('Error finding duplicate clients:', error);
+		return { success: false, error: 'Failed to find duplicate clients' };
+	}
+}
+
+/**
+ * What merging one client into another would move, and whether anything
+ * stops it
+ */
+export async function getClientMergePreview(
+	survivingClientId: string,
+	mergedClientId: string
+): Promise<ActionResult<ClientMergePreview>> {
+	try {
+		if (survivingClientId === mergedClientId) {
+			return { success: false, error: 'Choose two different clients' };
+		}
+
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+		const clientIds = [survivingClientId, mergedClientId];
+
+		const { data: clients, error: clientsError } = await supabase
+			.from('clients')
+			.select('id, is_archived')
+			.eq('shop_id', shop.id)
+			.in('id', clientIds);
+		if (clientsError) throw clientsError;
+		if ((clients || []).length !== 2) {
+			return { success: false, error: 'Client not found' };
+		}
+
+		const [ordersResult, invoicesResult, paymentsResult, appointmentsResult] =
+			await Promise.all([
+				supabase
+					.from('orders')
+					.select('client_id, total_cents, paid_amount_cents')
+					.eq('shop_id', shop.id)
+					.in('client_id', clientIds),
+				supabase
+					.from('invoices')
+					.select('id, client_id, invoice_number, order:orders(client_id)')
+					.eq('shop_id', shop.id)
+					.in('client_id', clientIds),
+				supabase
+					.from('payments')
+					.select('id, invoice:invoices!inner(client_id)', {
+						count: 'exact',
+						head: true,
+					})
+					.eq('invoice.client_id', mergedClientId),
+				supabase
+					.from('appointments')
+					.select('id', { count: 'exact', head: true })
+					.eq('shop_id', shop.id)
+					.eq('client_id', mergedClientId),
+			]);
+
+		for (const result of [
+			ordersResult,
+			invoicesResult,
+			paymentsResult,
+			appointmentsResult,
+		]) {
+			if (result.error) throw result.error;
+		}
+
+		const orders = ordersResult.data || [];
+		const invoices = invoicesResult.data || [];
+		const surviving = calculateOutstandingBalance(
+			orders.filter((o) => o.client_id === survivingClientId)
+		);
+		const merged = calculateOutstandingBalance(
+			orders.filter((o) => o.client_id === mergedClientId)
+		);
+
+		const blockers: string[] = [];
+		if (clients?.find((c) => c.id === survivingClientId)?.is_archived) {
+			blockers.push('The client being kept is archived. Restore them first.');
+		}
+		// Balances are worked out per order, so an invoice billed to a different
+		// client than its order would be counted against the wrong person
+		for (const invoice of invoices) {
+			if (invoice.order && invoice.order.client_id !== invoice.client_id) {
+				blockers.push(
+					`Invoice ${invoice.invoice_number} is billed to a different client than its order.`
+				);
+			}
+		}
+
+		return {
+			success: true,
+			data: {
+				moving: {
+					orders: orders.filter((o) => o.client_id === mergedClientId).length,
+					invoices: invoices.filter((i) => i.client_id === mergedClientId)
+						.length,
+					payments: paymentsResult.count || 0,
+					appointments: appointmentsResult.count || 0,
+				},
+				balanceCents: {
+					surviving,
+					merged,
+					combined: surviving + merged,
+				},
+				blockers,
+			},
+		};
+	} catch (error) {
+		console.error('Error previewing client merge:', error);
+		return { success: false, error: 'Failed to check these clients' };
+	}
+}
+
+/**
+ * Moves the duplicate's orders, invoices, payments, appointments and
+ * measurements to the kept client, archives the duplicate and records the
+ * merge. The duplicate's store credit moves with it. The database refuses the
+ * merge if the kept client would end up owing, or holding in credit, anything
+ * other than the two did together.
+ */
+export async function mergeClients(
+	survivingClientId: string,
+	mergedClientId: string
+): Promise<ActionResult<{ mergeId: string }>> {
+	try {
+		const preview = await getClientMergePreview(
+			survivingClientId,
+			mergedClientId
+		);
+		if (!preview.success || !preview.data) {
+			return { success: false, error: preview.error || 'Failed to merge' };
+		}
+		if (preview.data.blockers.length > 0) {
+			return { success: false, error: preview.data.blockers.join(' ') };
+		}
+
+		const { user, shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: mergeId, error } = await supabase.rpc('merge_clients', {
+			p_shop_id: shop.id,
+			p_surviving_client_id: survivingClientId,
+			p_merged_client_id: mergedClientId,
+			p_user_id: user.id,
+		});
+
+		if (error) {
+			console.error('Error merging clients:', error);
+			return {
+				success: false,
+				error: `Failed to merge clients: ${error.message}`,
+			};
+		}
+
+		revalidatePath('/clients');
+		revalidatePath(`/clients/${survivingClientId}`);
+		revalidatePath(`/clients/${mergedClientId}`);
+
+		return { success: true, data: { mergeId } };
+	} catch (error) {
+		console.error('Error merging clients:', error);
+		return { success: false, error: 'Failed to merge clients' };
+	}
+}
+
+/**
+ * The shop's latest merges, newest first
+ */
+export async function getRecentClientMerges(
+	limit = 20
+): Promise<ActionResult<ClientMerge[]>> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data, error } = await supabase
+			.from('client_merges')
+			.select(
+				'id, surviving_client_id, merged_client, moved_counts, merged_at, surviving:clients!client_merges_surviving_client_id_fkey(first_name, last_name)'
+			)
+			.eq('shop_id', shop.id)
+			.order('merged_at', { ascending: false })
+			.limit(limit);
+
+		if (error) throw error;
+
+		return {
+			success: true,
+			data: (data || []).map((row) => {
+				const snapshot = (row.merged_client || {}) as {
+					first_name?: string;
+					last_name?: string;
+				};
+				return {
+					id: row.id,
+					survivingClientId: row.surviving_client_id,
+					survivingClientName: row.surviving
+						? `${row.surviving.first_name} ${row.surviving.last_name}`
+						: 'Unknown client',
+					mergedClientName:
+						`${snapshot.first_name || ''} ${snapshot.last_name || ''}`.trim(),
+					movedCounts: (row.moved_counts || {}) as Record<string, number>,
+					mergedAt: row.merged_at,
+				};
+			}),
+		};
+	} catch (error) {
+		console.error('Error loading client merges:', error);
+		return { success: false, error: 'Failed to load merge history' };
+	}
+}
@@ -53,6 +53,7 @@ describe('Client Actions', () => {
 					clerk_user_id: 'clerk_123',
 					email: 'test@example.com',
 					role: 'user',
+					shop_id: 'shop_123',
 					first_name: 'Test',
 					last_name: 'User',
 					created_at: '2024-01-01T00:00:00Z',
@@ -77,6 +78,9 @@ describe('Client Actions', () => {
 					created_at: '2024-01-01T00:00:00Z',
 					updated_at: '2024-01-01T00:00:00Z',
 					onboarding_completed: true,
+					online_booking_enabled: false,
+					booking_slug: null,
+					calendar_feed_token: null,
 					timezone: 'America/New_York',
 					timezone_offset: -300,
 				},
@@ -139,6 +143,7 @@ describe('Client Actions', () => {
 					clerk_user_id: 'clerk_123',
 					email: 'test@example.com',
 					role: 'user',
+					shop_id: 'shop_123',
 					first_name: 'Test',
 					last_name: 'User',
 					created_at: '2024-01-01T00:00:00Z',
@@ -163,6 +168,9 @@ describe('Client Actions', () => {
 					created_at: '2024-01-01T00:00:00Z',
 					updated_at: '2024-01-01T00:00:00Z',
 					onboarding_completed: true,
+					online_booking_enabled: false,
+					booking_slug: null,
+					calendar_feed_token: null,
 					timezone: 'America/New_York',
 					timezone_offset: -300,
 				},
@@ -190,6 +198,7 @@ describe('Client Actions', () => {
 					clerk_user_id: 'clerk_123',
 					email: 'test@example.com',
 					role: 'user',
+					shop_id: 'shop_123',
 					first_name: 'Test',
 					last_name: 'User',
 					created_at: '2024-01-01T00:00:00Z',
@@ -214,6 +223,9 @@ describe('Client Actions', () => {
 					created_at: '2024-01-01T00:00:00Z',
 					updated_at: '2024-01-01T00:00:00Z',
 					onboarding_completed: true,
+					online_booking_enabled: false,
+					booking_slug: null,
+					calendar_feed_token: null,
 					timezone: 'America/New_York',
 					timezone_offset: -300,
 				},
@@ -358,6 +370,7 @@ describe('Client Actions', () => {
 					clerk_user_id: 'clerk_123',
 					email: 'test@example.com',
 					role: 'user',
+					shop_id: 'shop_123',
 					first_name: 'Test',
 					last_name: 'User',
 					created_at: '2024-01-01T00:00:00Z',
@@ -382,6 +395,9 @@ describe('Client Actions', () => {
 					created_at: '2024-01-01T00:00:00Z',
 					updated_at: '2024-01-01T00:00:00Z',
 					onboarding_completed: true,
+					online_booking_enabled: false,
+					booking_slug: null,
+					calendar_feed_token: null,
 					timezone: 'America/New_York',
 					timezone_offset: -300,
 				},
@@ -426,6 +442,7 @@ describe('Client Actions', () => {
 					clerk_user_id: 'clerk_123',
 					email: 'test@example.com',
 					role: 'user',
+					shop_id: 'shop_123',
 					first_name: 'Test',
 					last_name: 'User',
 					created_at: '2024-01-01T00:00:00Z',
@@ -450,6 +467,9 @@ describe('Client Actions', () => {
 					created_at: '2024-01-01T00:00:00Z',
 					updated_at: '2024-01-01T00:00:00Z',
 					onboarding_completed: true,
+					online_booking_enabled: false,
+					booking_slug: null,
+					calendar_feed_token: null,
 					timezone: 'America/New_York',
 					timezone_offset: -300,
 				},
@@ -547,6 +567,7 @@ describe('Client Actions', () => {
 					clerk_user_id: 'clerk_123',
 					email: 'test@example.com',
 					role: 'user',
+					shop_id: 'shop_123',
 					first_name: 'Test',
 					last_name: 'User',
 					created_at: '2024-01-01T00:00:00Z',
@@ -571,6 +592,9 @@ describe('Client Actions', () => {
 					created_at: '2024-01-01T00:00:00Z',
 					updated_at: '2024-01-01T00:00:00Z',
 					onboarding_completed: true,
+					online_booking_enabled: false,
+					booking_slug: null,
+					calendar_feed_token: null,
 					timezone: 'America/New_York',
 					timezone_offset: -300,
 				},
@@ -886,6 +910,7 @@ describe('Client Actions', () => {
 					clerk_user_id: 'clerk_123',
 					email: 'test@example.com',
 					role: 'user',
+					shop_id: 'shop_123',
 					first_name: 'Test',
 					last_name: 'User',
 					created_at: '2024-01-01T00:00:00Z',
@@ -910,6 +935,9 @@ describe('Client Actions', () => {
 					created_at: '2024-01-01T00:00:00Z',
 					updated_at: '2024-01-01T00:00:00Z',
 					onboarding_completed: true,
+					online_booking_enabled: false,
+					booking_slug: null,
+					calendar_feed_token: null,
 					timezone: 'America/New_York',
 					timezone_offset: -300,
 				},
@@ -934,6 +962,7 @@ describe('Client Actions', () => {
 					clerk_user_id: 'clerk_123',
 					email: 'test@example.com',
 					role: 'user',
+					shop_id: 'shop_123',
 					first_name: 'Test',
 					last_name: 'User',
 					created_at: '2024-01-01T00:00:00Z',
@@ -958,6 +987,9 @@ describe('Client Actions', () => {
 					created_at: '2024-01-01T00:00:00Z',
 					updated_at: '2024-01-01T00:00:00Z',
 					onboarding_completed: true,
+					online_booking_enabled: false,
+					booking_slug: null,
+					calendar_feed_token: null,
 					timezone: 'America/New_York',
 					timezone_offset: -300,
 				},
@@ -981,6 +1013,7 @@ describe('Client Actions', () => {
 					clerk_user_id: 'clerk_123',
 					email: 'test@example.com',
 					role: 'user',
+					shop_id: 'shop_123',
 					first_name: 'Test',
 					last_name: 'User',
 					created_at: '2024-01-01T00:00:00Z',
@@ -1005,6 +1038,9 @@ describe('Client Actions', () => {
 					created_at: '2024-01-01T00:00:00Z',
 					updated_at: '2024-01-01T00:00:00Z',
 					onboarding_completed: true,
+					online_booking_enabled: false,
+					booking_slug: null,
+					calendar_feed_token: null,
 					timezone: 'America/New_York',
 					timezone_offset: -300,
 				},
@@ -1028,6 +1064,7 @@ describe('Client Actions', () => {
 					clerk_user_id: 'clerk_123',
 					email: 'test@example.com',
 					role: 'user',
+					shop_id: 'shop_123',
 					first_name: 'Test',
 					last_name: 'User',
 					created_at: '2024-01-01T00:00:00Z',
@@ -1052,6 +1089,9 @@ describe('Client Actions', () => {
 					created_at: '2024-01-01T00:00:00Z',
 					updated_at: '2024-01-01T00:00:00Z',
 					onboarding_completed: true,
+					online_booking_enabled: false,
+					booking_slug: null,
+					calendar_feed_token: null,
 					timezone: 'America/New_York',
 					timezone_offset: -300,
 				},
@@ -1075,6 +1115,7 @@ describe('Client Actions', () => {
 					clerk_user_id: 'clerk_123',
 					email: 'test@example.com',
 					role: 'user',
+					shop_id: 'shop_123',
 					first_name: 'Test',
 					last_name: 'User',
 					created_at: '2024-01-01T00:00:00Z',
@@ -1099,6 +1140,9 @@ describe('Client Actions', () => {
 					created_at: '2024-01-01T00:00:00Z',
 					updated_at: '2024-01-01T00:00:00Z',
 					onboarding_completed: true,
+					online_booking_enabled: false,
+					booking_slug: null,
+					calendar_feed_token: null,
 					timezone: 'America/New_York',
 					timezone_offset: -300,
 				},
@@ -1140,6 +1184,7 @@ describe('Client Actions', () => {
 					clerk_user_id: 'clerk_123',
 					email: 'test@example.com',
 					role: 'user',
+					shop_id: 'shop_123',
 					first_name: 'Test',
 					last_name: 'User',
 					created_at: '2024-01-01T00:00:00Z',
@@ -1164,6 +1209,9 @@ describe('Client Actions', () => {
 					created_at: '2024-01-01T00:00:00Z',
 					updated_at: '2024-01-01T00:00:00Z',
 					onboarding_completed: true,
+					online_booking_enabled: false,
+					booking_slug: null,
+					calendar_feed_token: null,
 					timezone: 'America/New_York',
 					timezone_offset: -300,
 				},
@@ -1197,6 +1245,7 @@ describe('Client Actions', () => {
 					clerk_user_id: 'clerk_123',
 					email: 'test@example.com',
 					role: 'user',
+					shop_id: 'shop_123',
 					first_name: 'Test',
 					last_name: 'User',
 					created_at: '2024-01-01T00:00:00Z',
@@ -1221,6 +1270,9 @@ describe('Client Actions', () => {
 					created_at: '2024-01-01T00:00:00Z',
 					updated_at: '2024-01-01T00:00:00Z',
 					onboarding_completed: true,
+					online_booking_enabled: false,
+					booking_slug: null,
+					calendar_feed_token: null,
 					timezone: 'America/New_York',
 					timezone_offset: -300,
 				},
@@ -1266,6 +1318,7 @@ describe('Client Actions', () => {
 					clerk_user_id: 'clerk_123',
 					email: 'test@example.com',
 					role: 'user',
+					shop_id: 'shop_123',
 					first_name: 'Test',
 					last_name: 'User',
 					created_at: '2024-01-01T00:00:00Z',
@@ -1290,6 +1343,9 @@ describe('Client Actions', () => {
 					created_at: '2024-01-01T00:00:00Z',
 					updated_at: '2024-01-01T00:00:00Z',
 					onboarding_completed: true,
+					online_booking_enabled: false,
+					booking_slug: null,
+					calendar_feed_token: null,
 					timezone: 'America/New_York',
 					timezone_offset: -300,
 				},
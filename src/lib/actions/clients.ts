@@ -3,6 +3,8 @@
 import { createClient as createSupabaseClient } from '@/lib/supabase/server';
 import type { Tables } from '@/types/supabase-extended';
 import { ensureUserAndShop } from './users';
+import { calculateOutstandingBalance } from '@/lib/utils/client-duplicates';
+import { calculateCreditBalance } from '@/lib/utils/store-credit';
 
 export interface PaginatedClients {
 	data: Tables<'clients'>[];
@@ -441,6 +443,7 @@ export async function getClientActiveOrdersCount(
  * Gets the total outstanding balance for a specific client across all their orders.
  * Outstanding balance = sum of (total_cents - paid_amount_cents) for all orders where the result is positive.
  * Negative balances (credits/overpayments) are excluded from the total.
+ * Available store credit is taken off, since it can be applied to what's owed.
  * Returns the amount in cents.
  */
 export async function getClientOutstandingBalance(
@@ -464,21 +467,39 @@ export async function getClientOutstandingBalance(
 			return 0;
 		}
 
-		if (!data || data.length === 0) {
+		// Only positive amounts per order count (credits/overpayments excluded)
+		const outstanding = calculateOutstandingBalance(data || []);
+		if (outstanding === 0) return 0;
+
+		const credit = await getAvailableStoreCredit(supabase, shop.id, clientId);
+		return Math.max(0, outstanding - credit);
+	} catch (error) {
+		console.error('Error getting client outstanding balance:', error);
+		return 0;
+	}
+}
+
+async function getAvailableStoreCredit(
+	supabase: Awaited<ReturnType<typeof createSupabaseClient>>,
+	shopId: string,
+	clientId: string
+): Promise<number> {
+	try {
+		const { data, error } = await supabase
+			.from('store_credit_entries')
+			.select('entry_type, remaining_cents, expires_at')
+			.eq('shop_id', shopId)
+			.eq('client_id', clientId);
+
+		if (error) {
+			console.error('Failed to get client store credit:', error);
 			return 0;
 		}
 
-		// Calculate outstanding balance for each order and sum only positive amounts
-		const totalOutstanding = data.reduce((total, order) => {
-			const orderOutstanding =
-				(order.total_cents || 0) - (order.paid_amount_cents || 0);
-			// Only include positive outstanding amounts (exclude credits/overpayments)
-			return total + Math.max(0, orderOutstanding);
-		}, 0);
-
-		return totalOutstanding;
+		return calculateCreditBalance(data || []);
 	} catch (error) {
-		console.error('Error getting client outstanding balance:', error);
+		// Credit only lowers the balance, so show it without rather than fail
+		console.error('Error getting client store credit:', error);
 		return 0;
 	}
 }
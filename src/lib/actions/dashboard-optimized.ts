@@ -107,7 +107,7 @@ async function getBusinessMetricsConsolidatedInternal(shopId: string) {
 		supabase
 			.from('payments')
 			.select(
-				'amount_cents, refunded_amount_cents, invoice_id, invoices!inner(shop_id)'
+				'amount_cents, refunded_amount_cents, tip_cents, invoice_id, invoices!inner(shop_id)'
 			)
 			.eq('invoices.shop_id', shopId)
 			.in('status', ['completed', 'partially_refunded']) // Include partially_refunded like original
@@ -118,7 +118,7 @@ async function getBusinessMetricsConsolidatedInternal(shopId: string) {
 		supabase
 			.from('payments')
 			.select(
-				'amount_cents, refunded_amount_cents, invoice_id, invoices!inner(shop_id)'
+				'amount_cents, refunded_amount_cents, tip_cents, invoice_id, invoices!inner(shop_id)'
 			)
 			.eq('invoices.shop_id', shopId)
 			.in('status', ['completed', 'partially_refunded'])
@@ -147,7 +147,7 @@ async function getBusinessMetricsConsolidatedInternal(shopId: string) {
 		supabase
 			.from('payments')
 			.select(
-				'amount_cents, refunded_amount_cents, invoice_id, invoices!inner(shop_id)'
+				'amount_cents, refunded_amount_cents, tip_cents, invoice_id, invoices!inner(shop_id)'
 			)
 			.eq('invoices.shop_id', shopId)
 			.in('status', ['completed', 'partially_refunded'])
@@ -157,7 +157,7 @@ async function getBusinessMetricsConsolidatedInternal(shopId: string) {
 		supabase
 			.from('payments')
 			.select(
-				'amount_cents, refunded_amount_cents, invoice_id, invoices!inner(shop_id)'
+				'amount_cents, refunded_amount_cents, tip_cents, invoice_id, invoices!inner(shop_id)'
 			)
 			.eq('invoices.shop_id', shopId)
 			.in('status', ['completed', 'partially_refunded'])
@@ -236,6 +236,18 @@ async function getBusinessMetricsConsolidatedInternal(shopId: string) {
 			0
 		) || 0;
 
+	const currentMonthTipsCents =
+		currentMonthRevenue.data?.reduce(
+			(sum, payment) => sum + (payment.tip_cents || 0),
+			0
+		) || 0;
+
+	const rolling30TipsCents =
+		rolling30Revenue.data?.reduce(
+			(sum, payment) => sum + (payment.tip_cents || 0),
+			0
+		) || 0;
+
 	// Calculate derived metrics
 	const daysInMonth = new Date(currentYear, currentMonth + 1, 0).getDate();
 	const daysElapsed = currentDay;
@@ -279,6 +291,8 @@ async function getBusinessMetricsConsolidatedInternal(shopId: string) {
 		rolling30DayRevenue: rolling30RevenueCents,
 		previous30DayRevenue: previous30RevenueCents,
 		rolling30DayComparison,
+		currentMonthTipsCents,
+		rolling30DayTipsCents: rolling30TipsCents,
 	};
 
 	// Process shop hours with defaults
@@ -41,6 +41,10 @@ export interface BusinessHealthData {
 	rolling30DayRevenue: number;
 	previous30DayRevenue: number;
 	rolling30DayComparison: number;
+
+	// Tips collected on top of payments, kept out of the revenue above
+	currentMonthTipsCents?: number | undefined;
+	rolling30DayTipsCents?: number | undefined;
 }
 
 /**
@@ -729,6 +733,7 @@ export async function getBusinessHealthData(): Promise<BusinessHealthData> {
 				`
         amount_cents,
         refunded_amount_cents,
+        tip_cents,
         invoice:invoices!inner(
           shop_id
         )
@@ -746,6 +751,7 @@ export async function getBusinessHealthData(): Promise<BusinessHealthData> {
 				`
         amount_cents,
         refunded_amount_cents,
+        tip_cents,
         invoice:invoices!inner(
           shop_id
         )
@@ -763,6 +769,7 @@ export async function getBusinessHealthData(): Promise<BusinessHealthData> {
 				`
         amount_cents,
         refunded_amount_cents,
+        tip_cents,
         invoice:invoices!inner(
           shop_id
         )
@@ -782,6 +789,7 @@ export async function getBusinessHealthData(): Promise<BusinessHealthData> {
 				`
         amount_cents,
         refunded_amount_cents,
+        tip_cents,
         invoice:invoices!inner(
           shop_id
         )
@@ -897,6 +905,18 @@ export async function getBusinessHealthData(): Promise<BusinessHealthData> {
 		periodContext = 'mid';
 	}
 
+	const currentMonthTipsCents =
+		monthlyPaymentsResult.data?.reduce(
+			(sum, payment) => sum + (payment.tip_cents || 0),
+			0
+		) || 0;
+
+	const rolling30DayTipsCents =
+		rolling30DayResult.data?.reduce(
+			(sum, payment) => sum + (payment.tip_cents || 0),
+			0
+		) || 0;
+
 	// Count transactions this month
 	const transactionCount = monthlyPaymentsResult.data?.length || 0;
 
@@ -949,6 +969,8 @@ export async function getBusinessHealthData(): Promise<BusinessHealthData> {
 		rolling30DayRevenue: rolling30DayRevenueCents,
 		previous30DayRevenue: previous30DayRevenueCents,
 		rolling30DayComparison,
+		currentMonthTipsCents,
+		rolling30DayTipsCents,
 	};
 }
 
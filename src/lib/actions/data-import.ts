@@ -0,0 +1,171 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from './users';
+import { getPermissionError } from '@/lib/auth/permissions';
+import {
+	MAX_IMPORT_ROWS,
+	checkClientImport,
+	checkServiceImport,
+	summarizeImport,
+	type ClientImportData,
+	type ImportRecord,
+	type ImportRowResult,
+	type ImportSummary,
+	type ServiceImportData,
+} from '@/lib/utils/csv-import';
+import { loadAllRows } from '@/lib/utils/data-export';
+
+export interface ImportResult<T> {
+	results: ImportRowResult<T>[];
+	summary: ImportSummary;
+	// Rows written; zero on a dry run
+	imported: number;
+}
+
+type ImportResponse<T> = {
+	success: boolean;
+	data?: ImportResult<T>;
+	error?: string;
+};
+
+interface ImportOptions {
+	// Check the rows without importing them
+	dryRun: boolean;
+}
+
+function checkRowCount(records: ImportRecord[]): string | null {
+	if (records.length === 0) return 'The file has no rows to import';
+	if (records.length > MAX_IMPORT_ROWS) {
+		return `Import up to ${MAX_IMPORT_ROWS} rows at a time`;
+	}
+	return null;
+}
+
+/**
+ * Checks client rows, then imports the valid ones unless it's a dry run.
+ * Rows matching an existing client by email or phone are skipped.
+ */
+export async function importClients(
+	records: ImportRecord[],
+	{ dryRun }: ImportOptions
+): Promise<ImportResponse<ClientImportData>> {
+	try {
+		const countError = checkRowCount(records);
+		if (countError) return { success: false, error: countError };
+
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const existing = await loadAllRows((from, to) =>
+			supabase
+				.from('clients')
+				.select('email, phone_number')
+				.eq('shop_id', shop.id)
+				.order('id', { ascending: true })
+				.range(from, to)
+		);
+
+		const results = checkClientImport(records, existing);
+		const ready = results.flatMap((result) => result.data ?? []);
+
+		if (!dryRun && ready.length > 0) {
+			const { error } = await supabase
+				.from('clients')
+				.insert(ready.map((client) => ({ ...client, shop_id: shop.id })));
+
+			if (error) {
+				console.error('Failed to import clients:', error);
+				return {
+					success: false,
+					error:
+						error.code === '23505'
+							? 'Some clients were added while importing. Check the file again.'
+							: 'Failed to import clients. Nothing was imported.',
+				};
+			}
+
+			revalidatePath('/clients');
+		}
+
+		return {
+			success: true,
+			data: {
+				results,
+				summary: summarizeImport(results),
+				imported: dryRun ? 0 : ready.length,
+			},
+		};
+	} catch (error) {
+		console.error('Failed to check client import:', error);
+		return { success: false, error: 'Failed to import clients' };
+	}
+}
+
+/**
+ * Checks service rows, then imports the valid ones unless it's a dry run.
+ * Rows named like an existing service are skipped.
+ */
+export async function importServices(
+	records: ImportRecord[],
+	{ dryRun }: ImportOptions
+): Promise<ImportResponse<ServiceImportData>> {
+	try {
+		const countError = checkRowCount(records);
+		if (countError) return { success: false, error: countError };
+
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError(
+			{ user, shop },
+			'manage_service_pricing'
+		);
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		const supabase = await createClient();
+
+		const existing = await loadAllRows((from, to) =>
+			supabase
+				.from('services')
+				.select('name')
+				.eq('shop_id', shop.id)
+				.order('id', { ascending: true })
+				.range(from, to)
+		);
+
+		const results = checkServiceImport(records, existing);
+		const ready = results.flatMap((result) => result.data ?? []);
+
+		if (!dryRun && ready.length > 0) {
+			const { error } = await supabase
+				.from('services')
+				.insert(ready.map((service) => ({ ...service, shop_id: shop.id })));
+
+			if (error) {
+				console.error('Failed to import services:', error);
+				return {
+					success: false,
+					error:
+						error.code === '23505'
+							? 'Some services were added while importing. Check the file again.'
+							: 'Failed to import services. Nothing was imported.',
+				};
+			}
+
+			revalidatePath('/services');
+		}
+
+		return {
+			success: true,
+			data: {
+				results,
+				summary: summarizeImport(results),
+				imported: dryRun ? 0 : ready.length,
+			},
+		};
+	} catch (error) {
+		console.error('Failed to check service import:', error);
+		return { success: false, error: 'Failed to import services' };
+	}
+}
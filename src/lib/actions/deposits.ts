@@ -0,0 +1,275 @@
+'use server';
+
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from './users';
+import { getPermissionError } from '@/lib/auth/permissions';
+import {
+	toDepositRule,
+	type DepositRule,
+} from '@/lib/utils/deposit-calculations';
+import {
+	DEPOSIT_OVERRIDE_ACTION,
+	getOrderDepositStatus,
+	loadShopDepositPolicy,
+	type OrderDepositStatus,
+} from '@/lib/utils/deposits';
+
+const depositTypeSchema = z.enum(['none', 'fixed', 'percentage']);
+
+const depositRuleSchema = z.object({
+	type: depositTypeSchema,
+	fixedCents: z.number().int().min(0).default(0),
+	percent: z.number().min(0).max(100).default(0),
+});
+
+const updateDepositSettingsSchema = depositRuleSchema.extend({
+	serviceOverrides: z
+		.array(depositRuleSchema.extend({ serviceId: z.string().uuid() }))
+		.default([]),
+});
+
+export type UpdateDepositSettingsData = z.input<
+	typeof updateDepositSettingsSchema
+>;
+
+export interface DepositSettings extends DepositRule {
+	services: Array<{
+		id: string;
+		name: string;
+		// null when the service follows the shop policy
+		override: DepositRule | null;
+	}>;
+}
+
+const overrideDepositSchema = z.object({
+	orderId: z.string().uuid(),
+	reason: z.string().trim().min(1, 'A reason is required').max(500),
+});
+
+/**
+ * Shop deposit policy plus every service, for the settings page
+ */
+export async function getDepositSettings(): Promise<{
+	success: boolean;
+	data?: DepositSettings;
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const [policy, { data: services, error }] = await Promise.all([
+			loadShopDepositPolicy(supabase, shop.id),
+			supabase
+				.from('services')
+				.select('id, name, deposit_type, deposit_fixed_cents, deposit_percent')
+				.eq('shop_id', shop.id)
+				.order('name', { ascending: true }),
+		]);
+
+		if (error) throw error;
+
+		return {
+			success: true,
+			data: {
+				type: policy.type,
+				fixedCents: policy.fixedCents,
+				percent: policy.percent,
+				services: (services || []).map((service) => ({
+					id: service.id,
+					name: service.name,
+					override: service.deposit_type ? toDepositRule(service) : null,
+				})),
+			},
+		};
+	} catch (error) {
+		console.error('Failed to load deposit settings:', error);
+		return { success: false, error: 'Failed to load deposit settings' };
+	}
+}
+
+/**
+ * Save the shop deposit policy. Services left out of serviceOverrides go back
+ * to following the shop policy.
+ */
+export async function updateDepositSettings(
+	data: UpdateDepositSettingsData
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const parsed = updateDepositSettingsSchema.safeParse(data);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.errors[0]?.message || 'Invalid deposit settings',
+			};
+		}
+		const validated = parsed.data;
+
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError(
+			{ user, shop },
+			'manage_settings'
+		);
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		const supabase = await createClient();
+
+		const { error: settingsError } = await supabase
+			.from('shop_settings')
+			.upsert(
+				{
+					shop_id: shop.id,
+					deposit_type: validated.type,
+					deposit_fixed_cents: validated.fixedCents,
+					deposit_percent: validated.percent,
+					updated_at: new Date().toISOString(),
+				},
+				{ onConflict: 'shop_id' }
+			);
+
+		if (settingsError) throw settingsError;
+
+		const overrideIds = validated.serviceOverrides.map((o) => o.serviceId);
+		let clearQuery = supabase
+			.from('services')
+			.update({
+				deposit_type: null,
+				deposit_fixed_cents: null,
+				deposit_percent: null,
+			})
+			.eq('shop_id', shop.id)
+			.not('deposit_type', 'is', null);
+		if (overrideIds.length > 0) {
+			clearQuery = clearQuery.not('id', 'in', `(${overrideIds.join(',')})`);
+		}
+		const { error: clearError } = await clearQuery;
+
+		if (clearError) throw clearError;
+
+		for (const override of validated.serviceOverrides) {
+			const { error } = await supabase
+				.from('services')
+				.update({
+					deposit_type: override.type,
+					deposit_fixed_cents: override.fixedCents,
+					deposit_percent: override.percent,
+				})
+				.eq('id', override.serviceId)
+				.eq('shop_id', shop.id);
+
+			if (error) throw error;
+		}
+
+		revalidatePath('/settings');
+		revalidatePath('/orders/new');
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to save deposit settings:', error);
+		return { success: false, error: 'Failed to save deposit settings' };
+	}
+}
+
+/**
+ * Deposit status of one of the shop's orders
+ */
+export async function getDepositStatusForOrder(orderId: string): Promise<{
+	success: boolean;
+	data?: OrderDepositStatus;
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: order } = await supabase
+			.from('orders')
+			.select('id')
+			.eq('id', orderId)
+			.eq('shop_id', shop.id)
+			.single();
+
+		if (!order) {
+			return { success: false, error: 'Order not found' };
+		}
+
+		return {
+			success: true,
+			data: await getOrderDepositStatus(supabase, order.id),
+		};
+	} catch (error) {
+		console.error('Failed to load deposit status:', error);
+		return { success: false, error: 'Failed to load deposit status' };
+	}
+}
+
+/**
+ * Let work start on an order before its deposit is paid. The override and
+ * its reason are recorded in the payment audit log.
+ */
+export async function overrideDepositRequirement(input: {
+	orderId: string;
+	reason: string;
+}): Promise<{ success: boolean; error?: string }> {
+	try {
+		const parsed = overrideDepositSchema.safeParse(input);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.errors[0]?.message || 'Invalid override',
+			};
+		}
+
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError(
+			{ user, shop },
+			'waive_deposits'
+		);
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		const supabase = await createClient();
+
+		const { data: order } = await supabase
+			.from('orders')
+			.select('id, order_number')
+			.eq('id', parsed.data.orderId)
+			.eq('shop_id', shop.id)
+			.single();
+
+		if (!order) {
+			return { success: false, error: 'Order not found' };
+		}
+
+		const status = await getOrderDepositStatus(supabase, order.id);
+		if (status.outstandingCents <= 0 || status.overridden) {
+			return { success: true };
+		}
+
+		const { error } = await supabase.from('payment_audit_log').insert({
+			action: DEPOSIT_OVERRIDE_ACTION,
+			amount_cents: status.outstandingCents,
+			performed_by: user.id,
+			reason: parsed.data.reason,
+			metadata: {
+				order_id: order.id,
+				order_number: order.order_number,
+				shop_id: shop.id,
+				required_cents: status.requiredCents,
+				paid_cents: status.paidCents,
+			},
+		});
+
+		if (error) throw error;
+
+		revalidatePath(`/orders/${order.id}`);
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to override deposit requirement:', error);
+		return { success: false, error: 'Failed to override deposit requirement' };
+	}
+}
@@ -0,0 +1,475 @@
+'use server';
+
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from './users';
+import { getPermissionError } from '@/lib/auth/permissions';
+import { getShopTaxPercent } from './shop-settings';
+import {
+	calculateDiscountCents,
+	calculateOrderTotals,
+	describeDiscount,
+	getDiscountUnavailableReason,
+	toDiscount,
+	type Discount,
+} from '@/lib/utils/discount-calculations';
+import {
+	DISCOUNT_SELECT,
+	findShopDiscountByCode,
+	normalizeDiscountCode,
+	syncInvoiceDiscountLine,
+} from '@/lib/utils/discounts';
+import { calculatePaymentStatus } from '@/lib/utils/payment-calculations';
+
+const createDiscountSchema = z
+	.object({
+		code: z
+			.string()
+			.trim()
+			.min(2, 'Code must be at least 2 characters')
+			.max(32)
+			.regex(
+				/^[A-Za-z0-9_-]+$/,
+				'Use only letters, numbers, dashes and underscores'
+			),
+		description: z.string().trim().max(200).optional(),
+		type: z.enum(['percentage', 'fixed']),
+		percent: z.number().min(0).max(100).default(0),
+		amountCents: z.number().int().min(0).default(0),
+		serviceId: z.string().uuid().nullable().default(null),
+		expiresAt: z.string().datetime().nullable().default(null),
+		usageLimit: z.number().int().positive().nullable().default(null),
+	})
+	.refine(
+		(data) => (data.type === 'fixed' ? data.amountCents > 0 : data.percent > 0),
+		{ message: 'Enter the discount amount' }
+	);
+
+export type CreateDiscountData = z.input<typeof createDiscountSchema>;
+
+const applyDiscountSchema = z.object({
+	orderId: z.string().uuid(),
+	code: z.string().trim().min(1, 'Enter a discount code'),
+});
+
+/**
+ * All of the shop's discounts, newest first
+ */
+export async function getDiscounts(): Promise<{
+	success: boolean;
+	data?: Discount[];
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data, error } = await supabase
+			.from('discounts')
+			.select(DISCOUNT_SELECT)
+			.eq('shop_id', shop.id)
+			.order('created_at', { ascending: false });
+
+		if (error) throw error;
+
+		return { success: true, data: (data || []).map(toDiscount) };
+	} catch (error) {
+		console.error('Failed to load discounts:', error);
+		return { success: false, error: 'Failed to load discounts' };
+	}
+}
+
+export async function createDiscount(data: CreateDiscountData): Promise<{
+	success: boolean;
+	data?: Discount;
+	error?: string;
+}> {
+	try {
+		const parsed = createDiscountSchema.safeParse(data);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.errors[0]?.message || 'Invalid discount',
+			};
+		}
+		const validated = parsed.data;
+
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError(
+			{ user, shop },
+			'manage_settings'
+		);
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		const supabase = await createClient();
+
+		const { data: discount, error } = await supabase
+			.from('discounts')
+			.insert({
+				shop_id: shop.id,
+				code: normalizeDiscountCode(validated.code),
+				description: validated.description || null,
+				discount_type: validated.type,
+				percent: validated.type === 'percentage' ? validated.percent : 0,
+				amount_cents: validated.type === 'fixed' ? validated.amountCents : 0,
+				service_id: validated.serviceId,
+				expires_at: validated.expiresAt,
+				usage_limit: validated.usageLimit,
+			})
+			.select(DISCOUNT_SELECT)
+			.single();
+
+		if (error) {
+			if (error.code === '23505') {
+				return {
+					success: false,
+					error: 'A discount with this code already exists',
+				};
+			}
+			throw error;
+		}
+
+		revalidatePath('/settings');
+
+		return { success: true, data: toDiscount(discount) };
+	} catch (error) {
+		console.error('Failed to create discount:', error);
+		return { success: false, error: 'Failed to create discount' };
+	}
+}
+
+export async function setDiscountActive(
+	discountId: string,
+	isActive: boolean
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError(
+			{ user, shop },
+			'manage_settings'
+		);
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		const supabase = await createClient();
+
+		const { error } = await supabase
+			.from('discounts')
+			.update({ is_active: isActive, updated_at: new Date().toISOString() })
+			.eq('id', discountId)
+			.eq('shop_id', shop.id);
+
+		if (error) throw error;
+
+		revalidatePath('/settings');
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to update discount:', error);
+		return { success: false, error: 'Failed to update discount' };
+	}
+}
+
+/**
+ * Look up a code entered in the order flow. Fails when the code doesn't exist
+ * or can't be used right now.
+ */
+export async function findDiscountByCode(code: string): Promise<{
+	success: boolean;
+	data?: Discount;
+	error?: string;
+}> {
+	try {
+		if (!code.trim()) {
+			return { success: false, error: 'Enter a discount code' };
+		}
+
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const discount = await findShopDiscountByCode(supabase, shop.id, code);
+		if (!discount) {
+			return { success: false, error: 'Discount code not found' };
+		}
+
+		const unavailableReason = getDiscountUnavailableReason(discount);
+		if (unavailableReason) {
+			return { success: false, error: unavailableReason };
+		}
+
+		return { success: true, data: discount };
+	} catch (error) {
+		console.error('Failed to look up discount code:', error);
+		return { success: false, error: 'Failed to look up discount code' };
+	}
+}
+
+/**
+ * Apply a discount code to an existing order, replacing any discount it
+ * already has, and recalculate tax and totals on the discounted amount
+ */
+export async function applyDiscountToOrder(input: {
+	orderId: string;
+	code: string;
+}): Promise<{ success: boolean; discountCents?: number; error?: string }> {
+	try {
+		const parsed = applyDiscountSchema.safeParse(input);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.errors[0]?.message || 'Invalid discount',
+			};
+		}
+
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: order } = await supabase
+			.from('orders')
+			.select('id, status, discount_id')
+			.eq('id', parsed.data.orderId)
+			.eq('shop_id', shop.id)
+			.single();
+
+		if (!order) {
+			return { success: false, error: 'Order not found' };
+		}
+		if (order.status === 'cancelled') {
+			return {
+				success: false,
+				error: 'Cannot apply a discount to a cancelled order',
+			};
+		}
+
+		const discount = await findShopDiscountByCode(
+			supabase,
+			shop.id,
+			parsed.data.code
+		);
+		if (!discount) {
+			return { success: false, error: 'Discount code not found' };
+		}
+		if (order.discount_id === discount.id) {
+			return { success: false, error: `${discount.code} is already applied` };
+		}
+
+		const unavailableReason = getDiscountUnavailableReason(discount);
+		if (unavailableReason) {
+			return { success: false, error: unavailableReason };
+		}
+
+		const lines = await getActiveOrderLines(supabase, order.id);
+		const discountCents = calculateDiscountCents(discount, lines);
+		if (discountCents <= 0) {
+			return {
+				success: false,
+				error: `${discount.code} doesn't apply to any services on this order`,
+			};
+		}
+
+		// Discounting below what's been paid would leave an overpayment to sort
+		// out by hand
+		const totals = await getDiscountedTotals(lines, discountCents);
+		const paidCents = await getOrderPaidCents(supabase, order.id);
+		if (paidCents > totals.totalCents) {
+			return {
+				success: false,
+				error:
+					'This order has already been paid past the discounted total. Refund or credit the difference instead.',
+			};
+		}
+
+		const { data: redeemed, error: redeemError } = await supabase.rpc(
+			'redeem_discount',
+			{ p_discount_id: discount.id }
+		);
+		if (redeemError) throw redeemError;
+		if (!redeemed) {
+			return {
+				success: false,
+				error: `${discount.code} can no longer be used`,
+			};
+		}
+
+		try {
+			await saveOrderDiscount(supabase, order.id, lines, {
+				discountCents,
+				discountId: discount.id,
+				code: discount.code,
+				reason: discount.description || describeDiscount(discount),
+			});
+		} catch (saveError) {
+			// The order kept its old discount, so give this use back
+			await supabase.rpc('release_discount', { p_discount_id: discount.id });
+			throw saveError;
+		}
+
+		if (order.discount_id) {
+			await supabase.rpc('release_discount', {
+				p_discount_id: order.discount_id,
+			});
+		}
+
+		revalidatePath(`/orders/${order.id}`);
+		revalidatePath('/orders');
+
+		return { success: true, discountCents };
+	} catch (error) {
+		console.error('Failed to apply discount:', error);
+		return { success: false, error: 'Failed to apply discount' };
+	}
+}
+
+/**
+ * Remove the discount from an order and recalculate its totals
+ */
+export async function removeOrderDiscount(
+	orderId: string
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: order } = await supabase
+			.from('orders')
+			.select('id, discount_id')
+			.eq('id', orderId)
+			.eq('shop_id', shop.id)
+			.single();
+
+		if (!order) {
+			return { success: false, error: 'Order not found' };
+		}
+
+		const lines = await getActiveOrderLines(supabase, order.id);
+		await saveOrderDiscount(supabase, order.id, lines, {
+			discountCents: 0,
+			discountId: null,
+			code: null,
+			reason: null,
+		});
+
+		// Only once the order no longer has it, so a failed save keeps the use
+		if (order.discount_id) {
+			await supabase.rpc('release_discount', {
+				p_discount_id: order.discount_id,
+			});
+		}
+
+		revalidatePath(`/orders/${order.id}`);
+		revalidatePath('/orders');
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to remove discount:', error);
+		return { success: false, error: 'Failed to remove discount' };
+	}
+}
+
+async function getActiveOrderLines(
+	supabase: SupabaseClient<Database>,
+	orderId: string
+) {
+	const { data: services, error } = await supabase
+		.from('garment_services')
+		.select(
+			'service_id, quantity, unit_price_cents, is_removed, garments!inner(order_id)'
+		)
+		.eq('garments.order_id', orderId);
+
+	if (error) throw error;
+
+	return (services || [])
+		.filter((service) => !service.is_removed)
+		.map((service) => ({
+			serviceId: service.service_id,
+			quantity: service.quantity,
+			unitPriceCents: service.unit_price_cents,
+		}));
+}
+
+async function saveOrderDiscount(
+	supabase: SupabaseClient<Database>,
+	orderId: string,
+	lines: Array<{ quantity: number; unitPriceCents: number }>,
+	discount: {
+		discountCents: number;
+		discountId: string | null;
+		code: string | null;
+		reason: string | null;
+	}
+) {
+	const totals = await getDiscountedTotals(lines, discount.discountCents);
+
+	const { error } = await supabase
+		.from('orders')
+		.update({
+			discount_cents: totals.discountCents,
+			discount_id: discount.discountId,
+			discount_code: discount.code,
+			discount_reason: discount.reason,
+			subtotal_cents: totals.subtotalCents,
+			tax_cents: totals.taxCents,
+			total_cents: totals.totalCents,
+			updated_at: new Date().toISOString(),
+		})
+		.eq('id', orderId);
+
+	if (error) throw error;
+
+	await syncInvoiceDiscountLine(
+		supabase,
+		orderId,
+		{
+			discountCents: totals.discountCents,
+			code: discount.code,
+			reason: discount.reason,
+		},
+		totals.totalCents
+	);
+}
+
+async function getDiscountedTotals(
+	lines: Array<{ quantity: number; unitPriceCents: number }>,
+	discountCents: number
+) {
+	const subtotalCents = lines.reduce(
+		(sum, line) => sum + line.quantity * line.unitPriceCents,
+		0
+	);
+	return calculateOrderTotals(
+		subtotalCents,
+		discountCents,
+		await getShopTaxPercent()
+	);
+}
+
+/**
+ * Net amount paid across the order's invoices
+ */
+async function getOrderPaidCents(
+	supabase: SupabaseClient<Database>,
+	orderId: string
+): Promise<number> {
+	const { data: payments, error } = await supabase
+		.from('payments')
+		.select(
+			'id, amount_cents, refunded_amount_cents, status, payment_type, invoice:invoices!inner(order_id)'
+		)
+		.eq('invoice.order_id', orderId);
+
+	if (error) throw error;
+
+	return calculatePaymentStatus(
+		0,
+		(payments || []).map((payment) => ({
+			...payment,
+			refunded_amount_cents: payment.refunded_amount_cents || 0,
+			type: payment.payment_type === 'refund' ? 'refund' : 'payment',
+		}))
+	).netPaid;
+}
@@ -0,0 +1,41 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import {
+	AppointmentReminderService,
+	ReminderDispatchSummary,
+} from '@/lib/services/email/appointment-reminder-service';
+import { ensureUserAndShop } from '../users';
+
+/**
+ * Send reminder emails for the current shop's appointments that fall inside
+ * the configured reminder window and have not been reminded yet.
+ */
+export async function sendDueAppointmentReminders(): Promise<{
+	success: boolean;
+	data?: ReminderDispatchSummary;
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+
+		const supabase = await createClient();
+		const service = new AppointmentReminderService(supabase);
+
+		const summary = await service.dispatchDueReminders(shop.id);
+
+		if (summary.sent > 0) {
+			revalidatePath('/appointments');
+		}
+
+		return { success: true, data: summary };
+	} catch (error) {
+		console.error('Failed to send appointment reminders:', error);
+		return {
+			success: false,
+			error:
+				error instanceof Error ? error.message : 'Failed to send reminders',
+		};
+	}
+}
@@ -6,6 +6,7 @@ import { createClient } from '@/lib/supabase/server';
 import { EmailRepository } from '@/lib/services/email/email-repository';
 import { EmailService } from '@/lib/services/email/email-service';
 import { ConfirmationTokenSchema } from '@/lib/validations/email';
+import { offerFreedSlotToWaitlist } from '@/lib/utils/waitlist-offers';
 
 /**
  * Confirm an appointment via token
@@ -255,6 +256,13 @@ export async function declineAppointment(token: string): Promise<{
 			);
 		}
 
+		// Offer the freed slot to the waitlist
+		try {
+			await offerFreedSlotToWaitlist(supabase, validation.appointmentId!);
+		} catch (e) {
+			console.warn('Appointment declined but waitlist offers failed:', e);
+		}
+
 		return {
 			success: true,
 			...(validation.appointmentId
@@ -31,10 +31,10 @@ export async function getEmailLogs(
 		// Validate input
 		const validatedParams = EmailLogQuerySchema.parse(params);
 
-		const { user } = await ensureUserAndShop();
+		const { shop } = await ensureUserAndShop();
 
 		const supabase = await createClient();
-		const repository = new EmailRepository(supabase, user.id);
+		const repository = new EmailRepository(supabase, shop.owner_user_id);
 
 		// Convert string emailType to EmailType with proper filtering
 		const repositoryParams = {
@@ -82,10 +82,10 @@ export async function getEmailStatistics(params: {
 	error?: string;
 }> {
 	try {
-		const { user } = await ensureUserAndShop();
+		const { shop } = await ensureUserAndShop();
 
 		const supabase = await createClient();
-		const repository = new EmailRepository(supabase, user.id);
+		const repository = new EmailRepository(supabase, shop.owner_user_id);
 
 		// Get all logs for the date range
 		const { logs } = await repository.getEmailLogs({
@@ -112,6 +112,8 @@ export async function getEmailStatistics(params: {
 				payment_received: 0,
 				invoice_sent: 0,
 				appointment_confirmed: 0,
+				garment_ready_for_pickup: 0,
+				waitlist_slot_offer: 0,
 			},
 			dailyCounts: [],
 		};
@@ -129,6 +131,8 @@ export async function getEmailStatistics(params: {
 			'payment_received',
 			'invoice_sent',
 			'appointment_confirmed',
+			'garment_ready_for_pickup',
+			'waitlist_slot_offer',
 		];
 
 		emailTypes.forEach((type) => {
@@ -177,7 +181,7 @@ export async function getEmailLog(emailLogId: string): Promise<{
 	error?: string;
 }> {
 	try {
-		const { user } = await ensureUserAndShop();
+		const { shop } = await ensureUserAndShop();
 
 		const supabase = await createClient();
 
@@ -185,7 +189,7 @@ export async function getEmailLog(emailLogId: string): Promise<{
 			.from('email_logs')
 			.select('*')
 			.eq('id', emailLogId)
-			.eq('created_by', user.id)
+			.eq('created_by', shop.owner_user_id)
 			.single();
 
 		if (error || !data) {
@@ -214,7 +218,7 @@ export async function deleteOldEmailLogs(daysToKeep: number = 90): Promise<{
 	error?: string;
 }> {
 	try {
-		const { user } = await ensureUserAndShop();
+		const { shop } = await ensureUserAndShop();
 
 		const supabase = await createClient();
 
@@ -225,7 +229,7 @@ export async function deleteOldEmailLogs(daysToKeep: number = 90): Promise<{
 			.from('email_logs')
 			.delete()
 			.lt('created_at', cutoffDate.toISOString())
-			.eq('created_by', user.id)
+			.eq('created_by', shop.owner_user_id)
 			.select('id');
 
 		if (error) {
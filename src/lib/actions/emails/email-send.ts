@@ -4,6 +4,7 @@ import { auth } from '@clerk/nextjs/server';
 import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
 import { EmailService } from '@/lib/services/email/email-service';
+import { ensureUserAndShop } from '../users';
 import { EmailType, isEmailType } from '@/types/email';
 import { SendEmailSchema } from '@/lib/validations/email';
 
@@ -62,13 +63,10 @@ export async function sendConfirmationRequestEmail(
 	confirmationUrl?: string;
 }> {
 	try {
-		const { userId } = await auth();
-		if (!userId) {
-			return { success: false, error: 'Unauthorized' };
-		}
+		const { shop } = await ensureUserAndShop();
 
 		const supabase = await createClient();
-		const emailService = new EmailService(supabase, userId);
+		const emailService = new EmailService(supabase, shop.owner_user_id);
 
 		const result = await emailService.sendAppointmentEmail(
 			appointmentId,
@@ -128,13 +126,10 @@ async function sendAppointmentEmail(
 		// Validate input
 		const validatedData = SendEmailSchema.parse(input);
 
-		const { userId } = await auth();
-		if (!userId) {
-			return { success: false, error: 'Unauthorized' };
-		}
+		const { shop } = await ensureUserAndShop();
 
 		const supabase = await createClient();
-		const emailService = new EmailService(supabase, userId);
+		const emailService = new EmailService(supabase, shop.owner_user_id);
 
 		const result = await emailService.sendAppointmentEmail(
 			validatedData.appointmentId,
@@ -170,13 +165,10 @@ export async function resendEmail(
 	emailLogId: string
 ): Promise<{ success: boolean; error?: string }> {
 	try {
-		const { userId } = await auth();
-		if (!userId) {
-			return { success: false, error: 'Unauthorized' };
-		}
+		const { shop } = await ensureUserAndShop();
 
 		const supabase = await createClient();
-		const emailService = new EmailService(supabase, userId);
+		const emailService = new EmailService(supabase, shop.owner_user_id);
 
 		const result = await emailService.resendEmail(emailLogId);
 
@@ -8,6 +8,7 @@ import { UserEmailSettings, EmailType } from '@/types/email';
 import { UserEmailSettingsSchema } from '@/lib/validations/email';
 import { revalidatePath } from 'next/cache';
 import { ensureUserAndShop } from '../users';
+import { getPermissionError } from '@/lib/auth/permissions';
 import { EmailService } from '@/lib/services/email/email-service';
 import { TemplateRenderer } from '@/lib/services/email/template-renderer';
 import { Shop } from '@/types';
@@ -23,10 +24,10 @@ export async function getUserEmailSettings(): Promise<{
 	error?: string;
 }> {
 	try {
-		const { user } = await ensureUserAndShop();
+		const { shop } = await ensureUserAndShop();
 
 		const supabase = await createClient();
-		const repository = new EmailRepository(supabase, user.id);
+		const repository = new EmailRepository(supabase, shop.owner_user_id);
 
 		const settings = await repository.getUserEmailSettings();
 
@@ -35,7 +36,7 @@ export async function getUserEmailSettings(): Promise<{
 			return {
 				success: true,
 				data: {
-					user_id: user.id,
+					user_id: shop.owner_user_id,
 					receive_appointment_notifications: true,
 					email_signature: null,
 					reply_to_email: null,
@@ -71,10 +72,17 @@ export async function updateUserEmailSettings(
 		// Validate input
 		const validatedData = UserEmailSettingsSchema.parse(input);
 
-		const { user } = await ensureUserAndShop();
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError(
+			{ user, shop },
+			'manage_settings'
+		);
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
 
 		const supabase = await createClient();
-		const repository = new EmailRepository(supabase, user.id);
+		const repository = new EmailRepository(supabase, shop.owner_user_id);
 
 		// Convert validated data to the format expected by repository
 		const updates: Partial<UserEmailSettings> = {
@@ -175,7 +183,7 @@ export async function testEmailTemplate(
 		}
 
 		const supabase = await createClient();
-		const emailService = new EmailService(supabase, user.id);
+		const emailService = new EmailService(supabase, shop.owner_user_id);
 
 		const recipientEmail = testEmail || user.email;
 
@@ -184,12 +192,12 @@ export async function testEmailTemplate(
 		}
 
 		// Use EmailRepository to get template (includes fallback to defaults)
-		const repository = new EmailRepository(supabase, user.id);
+		const repository = new EmailRepository(supabase, shop.owner_user_id);
 		const template = await repository.getTemplate(emailType);
 
 		console.log('Test email - fetched template:', {
 			emailType,
-			userId: user.id,
+			userId: shop.owner_user_id,
 			template: template
 				? {
 						id: template.id,
@@ -224,6 +232,8 @@ export async function testEmailTemplate(
 				'payment_link',
 				'payment_received',
 				'invoice_sent',
+				'garment_ready_for_pickup',
+				'waitlist_slot_offer',
 			];
 
 			if (reactEmailTypes.includes(emailType)) {
@@ -286,7 +296,7 @@ export async function testEmailTemplate(
 
 		// Log the test email
 		await supabase.from('email_logs').insert({
-			created_by: user.id,
+			created_by: shop.owner_user_id,
 			email_type: emailType,
 			recipient_email: recipientEmail,
 			recipient_name: 'Test Recipient',
@@ -415,6 +425,8 @@ async function getSampleDataForEmailType(
 				amount: '$150.00',
 				order_details:
 					'Wedding dress alterations\n- Hem adjustment\n- Waist taking in\n- Sleeve shortening',
+				discount: '-$15.00',
+				discount_label: 'Discount (SPRING10)',
 			};
 
 		case 'invoice_sent':
@@ -427,6 +439,25 @@ async function getSampleDataForEmailType(
 				payment_link: 'https://payments.hemsy.app/pay/test-invoice-payment',
 			};
 
+		case 'garment_ready_for_pickup':
+			return {
+				...baseData,
+				garment_name: 'Wedding Dress, Suit Jacket',
+				garment_names: ['Wedding Dress', 'Suit Jacket'],
+				order_number: 'ORD-1042',
+				balance_due: '$85.00',
+				payment_link: 'https://payments.hemsy.app/pay/test-payment-link',
+				order_status_link: 'https://hemsy.app/status/test-status-token',
+			};
+
+		case 'waitlist_slot_offer':
+			return {
+				...baseData,
+				appointment_time: 'Thursday, March 15 at 2:00 PM',
+				appointment_type: 'Fitting',
+				claim_link: 'https://hemsy.app/waitlist/claim/test-claim-token',
+			};
+
 		case 'appointment_no_show':
 			return {
 				...baseData,
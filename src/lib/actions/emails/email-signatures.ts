@@ -5,6 +5,7 @@ import { createClient } from '@/lib/supabase/server';
 import { EmailSignature } from '@/types/email';
 import { revalidatePath } from 'next/cache';
 import { ensureUserAndShop } from '../users';
+import { getPermissionError } from '@/lib/auth/permissions';
 
 /**
  * Get the shop's email signature
@@ -76,6 +77,13 @@ export async function updateEmailSignature(content: string): Promise<{
 		const validatedContent = z.string().min(1).max(1000).parse(content);
 
 		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError(
+			{ user, shop },
+			'manage_settings'
+		);
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
 
 		if (!shop) {
 			return { success: false, error: 'Shop not found' };
@@ -21,10 +21,10 @@ export async function getEmailTemplates(): Promise<{
 	error?: string;
 }> {
 	try {
-		const { user } = await ensureUserAndShop();
+		const { shop } = await ensureUserAndShop();
 
 		const supabase = await createClient();
-		const repository = new EmailRepository(supabase, user.id);
+		const repository = new EmailRepository(supabase, shop.owner_user_id);
 
 		const templates = await repository.getAllTemplates();
 
@@ -71,10 +71,10 @@ export async function getEmailTemplate(emailType: string): Promise<{
 			return { success: false, error: 'Invalid email type' };
 		}
 
-		const { user } = await ensureUserAndShop();
+		const { shop } = await ensureUserAndShop();
 
 		const supabase = await createClient();
-		const repository = new EmailRepository(supabase, user.id);
+		const repository = new EmailRepository(supabase, shop.owner_user_id);
 
 		const template = await repository.getTemplate(emailType);
 		if (!template) {
@@ -122,7 +122,7 @@ export async function previewEmailTemplate(
 		let templateToPreview = template;
 		if (!templateToPreview) {
 			const supabase = await createClient();
-			const repository = new EmailRepository(supabase, user.id);
+			const repository = new EmailRepository(supabase, shop.owner_user_id);
 			const dbTemplate = await repository.getTemplate(emailType);
 
 			if (!dbTemplate) {
@@ -148,6 +148,8 @@ export async function previewEmailTemplate(
 			'payment_link',
 			'payment_received',
 			'invoice_sent',
+			'garment_ready_for_pickup',
+			'waitlist_slot_offer',
 		];
 
 		if (reactEmailTypes.includes(emailType as EmailType)) {
@@ -310,6 +312,8 @@ async function generateSampleDataForPreview(
 				amount: '$150.00',
 				order_details:
 					'Wedding dress alterations\n- Hem adjustment\n- Waist taking in\n- Sleeve shortening',
+				discount: '-$15.00',
+				discount_label: 'Discount (SPRING10)',
 			};
 
 		case 'invoice_sent':
@@ -322,6 +326,25 @@ async function generateSampleDataForPreview(
 				payment_link: 'https://payments.hemsy.app/pay/preview-invoice-payment',
 			};
 
+		case 'garment_ready_for_pickup':
+			return {
+				...baseData,
+				garment_name: 'Wedding Dress, Suit Jacket',
+				garment_names: ['Wedding Dress', 'Suit Jacket'],
+				order_number: 'ORD-1042',
+				balance_due: '$85.00',
+				payment_link: 'https://payments.hemsy.app/pay/preview-payment-link',
+				order_status_link: 'https://hemsy.app/status/preview-status-token',
+			};
+
+		case 'waitlist_slot_offer':
+			return {
+				...baseData,
+				appointment_time: 'Thursday, March 15 at 2:00 PM',
+				appointment_type: 'Fitting',
+				claim_link: 'https://hemsy.app/waitlist/claim/preview-claim-token',
+			};
+
 		case 'appointment_no_show':
 			return {
 				...baseData,
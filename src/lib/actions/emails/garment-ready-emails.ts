@@ -0,0 +1,153 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { EmailService } from '@/lib/services/email/email-service';
+import { getInvoiceBalance } from '@/lib/actions/invoice-sync';
+import { formatCurrency } from '@/lib/utils/formatting';
+import { getOrCreatePaymentLink } from '@/lib/utils/payment-links';
+import { getOrCreateOrderStatusUrl } from '@/lib/utils/order-status-links';
+import type { GarmentReadyNotification } from '@/types/email';
+import { ensureUserAndShop } from '../users';
+
+/**
+ * Notify the client that a garment is ready for pickup. When every garment in
+ * the order is ready, a single order-level notification lists them all,
+ * unless earlier garments already had their own notice; then only the last
+ * garment is announced so the client isn't told about the same garment twice.
+ * Includes the outstanding balance and a payment link when money is owed.
+ */
+export async function sendGarmentReadyNotification(garmentId: string): Promise<{
+	success: boolean;
+	data?: { scope: GarmentReadyNotification['scope']; logId?: string };
+	error?: string;
+}> {
+	try {
+		const { user, shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: garment, error: garmentError } = await supabase
+			.from('garments')
+			.select('id, name, stage, order_id')
+			.eq('id', garmentId)
+			.eq('shop_id', shop.id)
+			.single();
+
+		if (garmentError || !garment) {
+			throw new Error('Garment not found');
+		}
+
+		if (garment.stage !== 'Ready For Pickup') {
+			return { success: false, error: 'Garment is not ready for pickup' };
+		}
+
+		const { data: order, error: orderError } = await supabase
+			.from('orders')
+			.select(
+				`
+        id,
+        order_number,
+        client:clients(id, first_name, last_name, email, phone_number, accept_email, accept_sms),
+        garments(id, name, stage)
+      `
+			)
+			.eq('id', garment.order_id)
+			.eq('shop_id', shop.id)
+			.single();
+
+		if (orderError || !order || !order.client) {
+			throw new Error('Order not found');
+		}
+
+		// Garments already picked up ('Done') don't hold back the order-level email
+		const orderGarments = order.garments || [];
+		const allReady = orderGarments.every(
+			(g) => g.stage === 'Ready For Pickup' || g.stage === 'Done'
+		);
+		const scope: GarmentReadyNotification['scope'] =
+			allReady && !(await hasGarmentReadyNotices(supabase, order.id))
+				? 'order'
+				: 'garment';
+		const readyGarments =
+			scope === 'order'
+				? orderGarments.filter((g) => g.stage === 'Ready For Pickup')
+				: [garment];
+
+		let balanceDue: string | undefined;
+		let paymentLink: string | undefined;
+		const balanceResult = await getInvoiceBalance(order.id);
+		if (balanceResult.success && balanceResult.balance) {
+			const { balanceDue: dueCents, invoiceId } = balanceResult.balance;
+			if (dueCents > 0) {
+				balanceDue = formatCurrency(dueCents);
+				paymentLink = await getOrCreatePaymentLink(supabase, invoiceId);
+			}
+		}
+
+		// The status link is a convenience; don't hold the notification back for it
+		let orderStatusLink: string | undefined;
+		try {
+			orderStatusLink = await getOrCreateOrderStatusUrl(supabase, {
+				orderId: order.id,
+				shopId: shop.id,
+				userId: user.id,
+			});
+		} catch (e) {
+			console.error('Failed to create order status link:', e);
+		}
+
+		const emailService = new EmailService(supabase, shop.owner_user_id);
+		const result = await emailService.sendGarmentReadyEmail({
+			scope,
+			orderId: order.id,
+			orderNumber: order.order_number,
+			garments: readyGarments.map((g) => ({ id: g.id, name: g.name })),
+			client: order.client,
+			shop,
+			balanceDue,
+			paymentLink,
+			orderStatusLink,
+		});
+
+		if (!result.success) {
+			return { success: false, error: result.error || 'Failed to send email' };
+		}
+
+		return {
+			success: true,
+			data: { scope, ...(result.logId ? { logId: result.logId } : {}) },
+		};
+	} catch (error) {
+		console.error('Failed to send ready for pickup notification:', error);
+		return {
+			success: false,
+			error:
+				error instanceof Error
+					? error.message
+					: 'Failed to send ready for pickup notification',
+		};
+	}
+}
+
+/**
+ * Whether any garment in the order has already had a ready notice
+ */
+async function hasGarmentReadyNotices(
+	supabase: Awaited<ReturnType<typeof createClient>>,
+	orderId: string
+): Promise<boolean> {
+	const { data, error } = await supabase
+		.from('email_logs')
+		.select('id')
+		.eq('email_type', 'garment_ready_for_pickup')
+		.neq('status', 'failed')
+		.contains('metadata', { order_id: orderId })
+		.limit(1);
+
+	if (error) {
+		// Better to repeat a garment than to leave the order unannounced
+		console.error('Failed to check earlier ready notices:', error);
+		return false;
+	}
+
+	return (data || []).length > 0;
+}
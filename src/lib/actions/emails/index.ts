@@ -16,6 +16,12 @@ export {
 	resendEmail,
 } from './email-send';
 
+// Scheduled reminders
+export { sendDueAppointmentReminders } from './appointment-reminders';
+
+// Order notifications
+export { sendGarmentReadyNotification } from './garment-ready-emails';
+
 // Monitoring
 export {
 	getEmailLogs,
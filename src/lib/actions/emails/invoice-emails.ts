@@ -7,6 +7,14 @@ import { ensureUserAndShop } from '../users';
 import { getShopDisplayName } from '@/lib/utils/shop';
 import { emailConfig } from '@/lib/config/email.config';
 import type { Tables } from '@/types/supabase';
+import { SmsService } from '@/lib/services/sms/sms-service';
+import type { NotificationChannel } from '@/types/sms';
+import {
+	buildInvoicePdf,
+	getInvoicePdfFilename,
+	getReceiptPayment,
+	type InvoicePdfKind,
+} from '@/lib/utils/invoice-pdf';
 
 // Initialize Resend
 const resend = new Resend(process.env.RESEND_API_KEY);
@@ -20,6 +28,11 @@ const SendInvoiceEmailSchema = z.object({
 		'invoice_receipt',
 		'deposit_receipt',
 	]),
+	// Defaults to email only; payment requests can also go out by SMS
+	channels: z
+		.array(z.enum(['email', 'sms']))
+		.min(1)
+		.optional(),
 });
 
 const EmailContentSchema = z.object({
@@ -233,6 +246,125 @@ function buildEmailVariables(
 	} as any;
 }
 
+// Receipts attach a receipt for the latest payment, the rest the invoice
+const RECEIPT_TEMPLATE_TYPES = ['invoice_receipt', 'deposit_receipt'];
+
+/**
+ * The invoice or receipt PDF to attach, or nothing if it can't be built
+ */
+function buildInvoiceAttachment(
+	invoice: any,
+	shop: Tables<'shops'>,
+	templateType: string
+): { filename: string; content: Buffer }[] {
+	try {
+		let kind: InvoicePdfKind = 'invoice';
+		let payment;
+		if (RECEIPT_TEMPLATE_TYPES.includes(templateType)) {
+			payment = getReceiptPayment(invoice);
+			if (payment) kind = 'receipt';
+		}
+
+		return [
+			{
+				filename: getInvoicePdfFilename(invoice, kind),
+				content: buildInvoicePdf({ invoice, shop, kind, payment }),
+			},
+		];
+	} catch (error) {
+		// The email is still worth sending without it
+		console.error('Error building invoice PDF:', error);
+		return [];
+	}
+}
+
+/**
+ * Render the shop's invoice template and send it to the client by email
+ */
+async function deliverInvoiceEmail({
+	supabase,
+	shop,
+	userId,
+	invoice,
+	templateType,
+	paymentLink,
+}: {
+	supabase: Awaited<ReturnType<typeof createSupabaseClient>>;
+	shop: Tables<'shops'>;
+	userId: string;
+	invoice: any;
+	templateType: string;
+	paymentLink: string | undefined;
+}): Promise<string | undefined> {
+	// Get email template
+	const template = await getEmailTemplate(shop.id, templateType);
+	if (!template) {
+		throw new Error('Email template not found');
+	}
+
+	// Fetch email signature
+	let emailSignature: string | undefined;
+	const { data: signatureData } = await supabase
+		.from('email_signatures')
+		.select('content')
+		.eq('shop_id', shop.id)
+		.single();
+
+	if (signatureData?.content) {
+		emailSignature = signatureData.content;
+	}
+
+	// Build template variables
+	const variables = buildEmailVariables(invoice, paymentLink, emailSignature);
+
+	// Replace variables in template
+	const subject = replaceTemplateVariables(template.subject, variables);
+	const htmlBody = replaceTemplateVariables(template.body_html, variables);
+	const textBody = replaceTemplateVariables(template.body_text, variables);
+
+	// Send email via Resend
+	const emailOptions: any = {
+		from: `${getShopDisplayName(shop) || emailConfig.sender.name} <${emailConfig.sender.address}>`,
+		to: invoice.client.email,
+		subject,
+		html: htmlBody,
+		text: textBody,
+		attachments: buildInvoiceAttachment(invoice, shop, templateType),
+	};
+
+	if (shop.email) {
+		emailOptions.replyTo = shop.email;
+	}
+
+	const { data: emailData, error: sendError } =
+		await resend.emails.send(emailOptions);
+
+	if (sendError) {
+		console.error('Error sending email:', sendError);
+		throw new Error('Failed to send email');
+	}
+
+	// Log email
+	await supabase.from('email_logs').insert({
+		email_type: `invoice_${templateType}`,
+		recipient_email: invoice.client.email,
+		recipient_name: `${invoice.client.first_name} ${invoice.client.last_name}`,
+		subject,
+		body: htmlBody,
+		status: 'sent',
+		resend_id: emailData?.id,
+		created_by: userId,
+		sent_at: new Date().toISOString(),
+		metadata: {
+			invoice_id: invoice.id,
+			template_id: template.id,
+			payment_link: paymentLink,
+		},
+	});
+
+	return emailData?.id;
+}
+
 /**
  * Send invoice email
  */
@@ -252,20 +384,22 @@ export async function sendInvoiceEmail(
 			throw new Error('Invoice not found');
 		}
 
-		// Check if client accepts emails
-		if (!invoice.client.accept_email) {
+		const channels = validated.channels ?? ['email'];
+		const sendEmail = channels.includes('email') && invoice.client.accept_email;
+		const sendSms =
+			channels.includes('sms') &&
+			validated.emailType === 'payment_request' &&
+			invoice.client.accept_sms === true;
+
+		if (!sendEmail && !sendSms) {
 			return {
 				success: false,
-				error: 'Client has opted out of email communications',
+				error: channels.includes('sms')
+					? 'Client has opted out of email and SMS communications'
+					: 'Client has opted out of email communications',
 			};
 		}
 
-		// Get email template
-		const template = await getEmailTemplate(shop.id, validated.emailType);
-		if (!template) {
-			throw new Error('Email template not found');
-		}
-
 		// Generate payment link if needed
 		let paymentLink: string | undefined;
 		if (
@@ -277,6 +411,8 @@ export async function sendInvoiceEmail(
 				.select('url')
 				.eq('invoice_id', invoice.id)
 				.eq('status', 'active')
+				// Installment links are for part of the balance
+				.is('installment_id', null)
 				.order('created_at', { ascending: false })
 				.limit(1)
 				.single();
@@ -284,66 +420,42 @@ export async function sendInvoiceEmail(
 			paymentLink = linkData?.url;
 		}
 
-		// Fetch email signature
-		let emailSignature: string | undefined;
-		const { data: signatureData } = await supabase
-			.from('email_signatures')
-			.select('content')
-			.eq('shop_id', shop.id)
-			.single();
-
-		if (signatureData?.content) {
-			emailSignature = signatureData.content;
+		let emailId: string | undefined;
+		if (sendEmail) {
+			emailId = await deliverInvoiceEmail({
+				supabase,
+				shop,
+				userId: shop.owner_user_id,
+				invoice,
+				templateType: validated.emailType,
+				paymentLink,
+			});
 		}
 
-		// Build template variables
-		const variables = buildEmailVariables(invoice, paymentLink, emailSignature);
-
-		// Replace variables in template
-		const subject = replaceTemplateVariables(template.subject, variables);
-		const htmlBody = replaceTemplateVariables(template.body_html, variables);
-		const textBody = replaceTemplateVariables(template.body_text, variables);
-
-		// Send email via Resend
-		const emailOptions: any = {
-			from: `${getShopDisplayName(shop) || emailConfig.sender.name} <${emailConfig.sender.address}>`,
-			to: invoice.client.email,
-			subject,
-			html: htmlBody,
-			text: textBody,
-		};
-
-		if (shop.email) {
-			emailOptions.replyTo = shop.email;
+		let smsId: string | undefined;
+		if (sendSms && paymentLink) {
+			const smsService = new SmsService(supabase, shop.owner_user_id);
+			const variables = buildEmailVariables(invoice, paymentLink);
+			const smsResult = await smsService.sendToClient(
+				invoice.client,
+				'payment_link',
+				{
+					client_name: variables.client_name,
+					shop_name: variables.shop_name,
+					shop_phone: variables.shop_phone,
+					amount: variables.remaining_amount || variables.invoice_amount,
+					payment_link: paymentLink,
+				},
+				{ metadata: { invoice_id: invoice.id } }
+			);
+
+			if (!smsResult.success && !sendEmail) {
+				throw new Error(smsResult.error || 'Failed to send SMS');
+			}
+			smsId = smsResult.messageId;
 		}
 
-		const { data: emailData, error: sendError } =
-			await resend.emails.send(emailOptions);
-
-		if (sendError) {
-			console.error('Error sending email:', sendError);
-			throw new Error('Failed to send email');
-		}
-
-		// Log email
-		await supabase.from('email_logs').insert({
-			email_type: `invoice_${validated.emailType}`,
-			recipient_email: invoice.client.email,
-			recipient_name: `${invoice.client.first_name} ${invoice.client.last_name}`,
-			subject,
-			body: htmlBody,
-			status: 'sent',
-			resend_id: emailData?.id,
-			created_by: user.id,
-			sent_at: new Date().toISOString(),
-			metadata: {
-				invoice_id: invoice.id,
-				template_id: template.id,
-				payment_link: paymentLink,
-			},
-		});
-
-		return { success: true, data: { emailId: emailData?.id } };
+		return { success: true, data: { emailId, smsId } };
 	} catch (error) {
 		if (error instanceof z.ZodError) {
 			return {
@@ -369,12 +481,16 @@ export async function sendOrderCreatedEmail(invoiceId: string) {
 }
 
 /**
- * Send payment request email
+ * Send payment request email (optionally also by SMS)
  */
-export async function sendPaymentRequestEmail(invoiceId: string) {
+export async function sendPaymentRequestEmail(
+	invoiceId: string,
+	channels?: NotificationChannel[]
+) {
 	return sendInvoiceEmail({
 		invoiceId,
 		emailType: 'payment_request',
+		...(channels ? { channels } : {}),
 	});
 }
 
@@ -0,0 +1,486 @@
+'use server';
+
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '@/types/supabase';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from './users';
+import {
+	GARMENT_PHOTO_SELECT,
+	GARMENT_PHOTO_TAG_LABELS,
+	toGarmentPhoto,
+	type GarmentPhoto,
+} from '@/lib/utils/garment-photos';
+
+const tagSchema = z.enum(['before', 'fitting', 'after']);
+const captionSchema = z.string().trim().max(500).nullable().optional();
+
+const addPhotoSchema = z.object({
+	garmentId: z.string().uuid(),
+	imageCloudId: z.string().min(1),
+	photoUrl: z.string().url(),
+	tag: tagSchema.default('before'),
+	caption: captionSchema,
+	// Use as the cover even when the garment already has one
+	makeCover: z.boolean().default(false),
+});
+
+export type AddGarmentPhotoData = z.input<typeof addPhotoSchema>;
+
+const photoDetailsSchema = z.object({
+	tag: tagSchema,
+	caption: captionSchema,
+});
+
+const reorderSchema = z.object({
+	garmentId: z.string().uuid(),
+	photoIds: z.array(z.string().uuid()).min(1),
+});
+
+const idSchema = z.string().uuid();
+
+type Supabase = SupabaseClient<Database>;
+
+type PhotoResult = {
+	success: boolean;
+	data?: GarmentPhoto;
+	error?: string;
+};
+
+/**
+ * Whether the garment belongs to the shop
+ */
+async function isShopGarment(
+	supabase: Supabase,
+	garmentId: string,
+	shopId: string
+): Promise<boolean> {
+	const { data } = await supabase
+		.from('garments')
+		.select('id, orders!inner(shop_id)')
+		.eq('id', garmentId)
+		.maybeSingle();
+
+	return !!data && data.orders.shop_id === shopId;
+}
+
+async function loadShopPhoto(
+	supabase: Supabase,
+	photoId: string,
+	shopId: string
+): Promise<GarmentPhoto | null> {
+	if (!idSchema.safeParse(photoId).success) return null;
+
+	const { data } = await supabase
+		.from('garment_photos')
+		.select(GARMENT_PHOTO_SELECT)
+		.eq('id', photoId)
+		.maybeSingle();
+
+	if (!data || !(await isShopGarment(supabase, data.garment_id, shopId))) {
+		return null;
+	}
+	return toGarmentPhoto(data);
+}
+
+async function logPhotoHistory(
+	supabase: Supabase,
+	garmentId: string,
+	userId: string,
+	changeType: string,
+	values: { old?: Json; new?: Json }
+) {
+	await supabase.from('garment_history').insert({
+		garment_id: garmentId,
+		changed_by: userId,
+		field_name: 'photos',
+		old_value: values.old ?? null,
+		new_value: values.new ?? null,
+		change_type: changeType,
+	});
+}
+
+function describePhoto(photo: GarmentPhoto): Json {
+	return {
+		tag: GARMENT_PHOTO_TAG_LABELS[photo.tag],
+		caption: photo.caption,
+		image_cloud_id: photo.imageCloudId,
+	};
+}
+
+/**
+ * Makes the photo the garment's cover, or clears the garment's image when
+ * there's no photo left
+ */
+async function setCover(
+	supabase: Supabase,
+	garmentId: string,
+	photo: GarmentPhoto | null
+) {
+	const { error: clearError } = await supabase
+		.from('garment_photos')
+		.update({ is_cover: false })
+		.eq('garment_id', garmentId)
+		.eq('is_cover', true);
+	if (clearError) throw clearError;
+
+	if (photo) {
+		const { error } = await supabase
+			.from('garment_photos')
+			.update({ is_cover: true })
+			.eq('id', photo.id);
+		if (error) throw error;
+	}
+
+	const { error: garmentError } = await supabase
+		.from('garments')
+		.update({
+			image_cloud_id: photo?.imageCloudId ?? null,
+			photo_url: photo?.photoUrl ?? null,
+			updated_at: new Date().toISOString(),
+		})
+		.eq('id', garmentId);
+	if (garmentError) throw garmentError;
+}
+
+/**
+ * Deletes the photo, handing the cover to the first remaining photo. Returns
+ * the new cover.
+ */
+async function deletePhoto(
+	supabase: Supabase,
+	photo: GarmentPhoto,
+	userId: string
+): Promise<GarmentPhoto | null> {
+	const { error } = await supabase
+		.from('garment_photos')
+		.delete()
+		.eq('id', photo.id);
+	if (error) throw error;
+
+	let cover: GarmentPhoto | null = null;
+	if (photo.isCover) {
+		const { data: next } = await supabase
+			.from('garment_photos')
+			.select(GARMENT_PHOTO_SELECT)
+			.eq('garment_id', photo.garmentId)
+			.order('position', { ascending: true })
+			.limit(1)
+			.maybeSingle();
+		cover = next ? { ...toGarmentPhoto(next), isCover: true } : null;
+		await setCover(supabase, photo.garmentId, cover);
+	}
+
+	await logPhotoHistory(supabase, photo.garmentId, userId, 'photo_removed', {
+		old: describePhoto(photo),
+	});
+
+	revalidatePath(`/garments/${photo.garmentId}`);
+	return cover;
+}
+
+/**
+ * The garment's photos in gallery order
+ */
+export async function getGarmentPhotos(garmentId: string): Promise<{
+	success: boolean;
+	data?: GarmentPhoto[];
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		if (
+			!idSchema.safeParse(garmentId).success ||
+			!(await isShopGarment(supabase, garmentId, shop.id))
+		) {
+			return { success: false, error: 'Garment not found' };
+		}
+
+		const { data, error } = await supabase
+			.from('garment_photos')
+			.select(GARMENT_PHOTO_SELECT)
+			.eq('garment_id', garmentId)
+			.order('position', { ascending: true })
+			.order('created_at', { ascending: true });
+
+		if (error) throw error;
+
+		return { success: true, data: (data || []).map(toGarmentPhoto) };
+	} catch (error) {
+		console.error('Failed to load garment photos:', error);
+		return { success: false, error: 'Failed to load photos' };
+	}
+}
+
+/**
+ * Adds an uploaded photo to the end of the gallery. The first photo becomes
+ * the cover.
+ */
+export async function addGarmentPhoto(
+	data: AddGarmentPhotoData
+): Promise<PhotoResult> {
+	try {
+		const parsed = addPhotoSchema.safeParse(data);
+		if (!parsed.success) {
+			return { success: false, error: 'Invalid photo' };
+		}
+		const validated = parsed.data;
+
+		const { user, shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		if (!(await isShopGarment(supabase, validated.garmentId, shop.id))) {
+			return { success: false, error: 'Garment not found' };
+		}
+
+		const { data: existing, error: existingError } = await supabase
+			.from('garment_photos')
+			.select('position, is_cover')
+			.eq('garment_id', validated.garmentId);
+		if (existingError) throw existingError;
+
+		const photos = existing || [];
+		const { data: row, error } = await supabase
+			.from('garment_photos')
+			.insert({
+				garment_id: validated.garmentId,
+				image_cloud_id: validated.imageCloudId,
+				photo_url: validated.photoUrl,
+				tag: validated.tag,
+				caption: validated.caption || null,
+				position: photos.reduce((max, p) => Math.max(max, p.position + 1), 0),
+				created_by: user.id,
+			})
+			.select(GARMENT_PHOTO_SELECT)
+			.single();
+		if (error) throw error;
+
+		let photo = toGarmentPhoto(row);
+		if (validated.makeCover || !photos.some((p) => p.is_cover)) {
+			await setCover(supabase, validated.garmentId, photo);
+			photo = { ...photo, isCover: true };
+		}
+
+		await logPhotoHistory(
+			supabase,
+			validated.garmentId,
+			user.id,
+			'photo_added',
+			{ new: describePhoto(photo) }
+		);
+
+		revalidatePath(`/garments/${validated.garmentId}`);
+
+		return { success: true, data: photo };
+	} catch (error) {
+		console.error('Failed to add garment photo:', error);
+		return { success: false, error: 'Failed to add photo' };
+	}
+}
+
+export async function updateGarmentPhotoDetails(
+	photoId: string,
+	details: z.input<typeof photoDetailsSchema>
+): Promise<PhotoResult> {
+	try {
+		const parsed = photoDetailsSchema.safeParse(details);
+		if (!parsed.success) {
+			return { success: false, error: 'Invalid photo details' };
+		}
+
+		const { user, shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const photo = await loadShopPhoto(supabase, photoId, shop.id);
+		if (!photo) {
+			return { success: false, error: 'Photo not found' };
+		}
+
+		const { data: row, error } = await supabase
+			.from('garment_photos')
+			.update({
+				tag: parsed.data.tag,
+				caption: parsed.data.caption || null,
+			})
+			.eq('id', photo.id)
+			.select(GARMENT_PHOTO_SELECT)
+			.single();
+		if (error) throw error;
+
+		const updated = toGarmentPhoto(row);
+		await logPhotoHistory(supabase, photo.garmentId, user.id, 'photo_updated', {
+			old: describePhoto(photo),
+			new: describePhoto(updated),
+		});
+
+		revalidatePath(`/garments/${photo.garmentId}`);
+
+		return { success: true, data: updated };
+	} catch (error) {
+		console.error('Failed to update garment photo:', error);
+		return { success: false, error: 'Failed to update photo' };
+	}
+}
+
+/**
+ * Shows the photo on the garment's cards and detail page
+ */
+export async function setGarmentCoverPhoto(
+	photoId: string
+): Promise<PhotoResult> {
+	try {
+		const { user, shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const photo = await loadShopPhoto(supabase, photoId, shop.id);
+		if (!photo) {
+			return { success: false, error: 'Photo not found' };
+		}
+
+		if (!photo.isCover) {
+			await setCover(supabase, photo.garmentId, photo);
+			await logPhotoHistory(
+				supabase,
+				photo.garmentId,
+				user.id,
+				'photo_cover_changed',
+				{ new: describePhoto(photo) }
+			);
+			revalidatePath(`/garments/${photo.garmentId}`);
+		}
+
+		return { success: true, data: { ...photo, isCover: true } };
+	} catch (error) {
+		console.error('Failed to set cover photo:', error);
+		return { success: false, error: 'Failed to set cover photo' };
+	}
+}
+
+/**
+ * Saves the gallery order. photoIds must be all of the garment's photos.
+ */
+export async function reorderGarmentPhotos(
+	garmentId: string,
+	photoIds: string[]
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const parsed = reorderSchema.safeParse({ garmentId, photoIds });
+		if (!parsed.success) {
+			return { success: false, error: 'Invalid photo order' };
+		}
+
+		const { user, shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		if (!(await isShopGarment(supabase, garmentId, shop.id))) {
+			return { success: false, error: 'Garment not found' };
+		}
+
+		const { data: existing, error: existingError } = await supabase
+			.from('garment_photos')
+			.select('id')
+			.eq('garment_id', garmentId);
+		if (existingError) throw existingError;
+
+		const existingIds = new Set((existing || []).map((p) => p.id));
+		if (
+			existingIds.size !== photoIds.length ||
+			!photoIds.every((id) => existingIds.has(id))
+		) {
+			return {
+				success: false,
+				error: 'The photos have changed. Refresh and try again.',
+			};
+		}
+
+		const results = await Promise.all(
+			photoIds.map((id, position) =>
+				supabase.from('garment_photos').update({ position }).eq('id', id)
+			)
+		);
+		const failed = results.find((result) => result.error);
+		if (failed?.error) throw failed.error;
+
+		await logPhotoHistory(supabase, garmentId, user.id, 'photos_reordered', {});
+
+		revalidatePath(`/garments/${garmentId}`);
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to reorder garment photos:', error);
+		return { success: false, error: 'Failed to reorder photos' };
+	}
+}
+
+/**
+ * Removes the photo from the gallery. The image itself is deleted from
+ * Cloudinary by the caller through /api/delete-cloudinary-image.
+ */
+export async function removeGarmentPhoto(photoId: string): Promise<{
+	success: boolean;
+	// The garment's cover afterwards, when the removed photo was the cover
+	cover?: GarmentPhoto | null;
+	error?: string;
+}> {
+	try {
+		const { user, shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const photo = await loadShopPhoto(supabase, photoId, shop.id);
+		if (!photo) {
+			return { success: false, error: 'Photo not found' };
+		}
+
+		const cover = await deletePhoto(supabase, photo, user.id);
+
+		return photo.isCover ? { success: true, cover } : { success: true };
+	} catch (error) {
+		console.error('Failed to remove garment photo:', error);
+		return { success: false, error: 'Failed to remove photo' };
+	}
+}
+
+/**
+ * Removes the garment's cover photo, for the photo on the garment page
+ */
+export async function removeGarmentCoverPhoto(garmentId: string): Promise<{
+	success: boolean;
+	cover?: GarmentPhoto | null;
+	error?: string;
+}> {
+	try {
+		const { user, shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		if (
+			!idSchema.safeParse(garmentId).success ||
+			!(await isShopGarment(supabase, garmentId, shop.id))
+		) {
+			return { success: false, error: 'Garment not found' };
+		}
+
+		const { data: row } = await supabase
+			.from('garment_photos')
+			.select(GARMENT_PHOTO_SELECT)
+			.eq('garment_id', garmentId)
+			.eq('is_cover', true)
+			.maybeSingle();
+
+		if (!row) {
+			// A photo from before the gallery, or a preset with no photo
+			await setCover(supabase, garmentId, null);
+			revalidatePath(`/garments/${garmentId}`);
+			return { success: true, cover: null };
+		}
+
+		const cover = await deletePhoto(supabase, toGarmentPhoto(row), user.id);
+
+		return { success: true, cover };
+	} catch (error) {
+		console.error('Failed to remove cover photo:', error);
+		return { success: false, error: 'Failed to remove photo' };
+	}
+}
@@ -5,6 +5,11 @@ import { revalidatePath } from 'next/cache';
 import { ensureUserAndShop } from '@/lib/auth/user-shop';
 import { recalculateAndUpdateGarmentStage } from './garment-stage-helpers';
 import { canModifyGarmentServices } from './orders-cancellation';
+import {
+  getDepositDueMessage,
+  getOrderDepositStatus,
+  isWorkBlockedByDeposit,
+} from '@/lib/utils/deposits';
 
 interface ToggleServiceCompletionInput {
   garmentServiceId: string;
@@ -15,6 +20,10 @@ interface ToggleServiceCompletionResult {
   success: boolean;
   error?: string;
   updatedStage?: string | undefined;
+  // Set when the order's deposit must be paid (or overridden) first
+  depositRequired?:
+    | { orderId: string; requiredCents: number; outstandingCents: number }
+    | undefined;
 }
 
 export async function toggleServiceCompletion(
@@ -27,7 +36,9 @@ export async function toggleServiceCompletion(
     // Get the service details including name for history tracking
     const { data: service, error: serviceError } = await supabase
       .from('garment_services')
-      .select('id, garment_id, name, is_done')
+      .select(
+        'id, garment_id, name, is_done, garment:garments(stage, order_id)'
+      )
       .eq('id', input.garmentServiceId)
       .single();
 
@@ -45,6 +56,23 @@ export async function toggleServiceCompletion(
       };
     }
 
+    // Work can't start on a new garment until the order's deposit is paid
+    const garment = service.garment;
+    if (input.isDone && garment?.stage === 'New' && garment.order_id) {
+      const deposit = await getOrderDepositStatus(supabase, garment.order_id);
+      if (isWorkBlockedByDeposit(deposit)) {
+        return {
+          success: false,
+          error: getDepositDueMessage(deposit),
+          depositRequired: {
+            orderId: garment.order_id,
+            requiredCents: deposit.requiredCents,
+            outstandingCents: deposit.outstandingCents,
+          },
+        };
+      }
+    }
+
     // Update the service completion status
     const { error: updateError } = await supabase
       .from('garment_services')
@@ -2,6 +2,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { ensureUserAndShop } from '@/lib/auth/user-shop';
+import { sendGarmentReadyNotification } from './emails/garment-ready-emails';
 
 export type GarmentStage = 'New' | 'In Progress' | 'Ready For Pickup' | 'Done';
 
@@ -63,6 +64,17 @@ export async function updateGarmentStage(
   garmentId: string,
   stage: GarmentStage
 ): Promise<boolean> {
+  const { success } = await applyGarmentStage(garmentId, stage);
+  return success;
+}
+
+/**
+ * Writes the stage and reports whether it actually changed
+ */
+async function applyGarmentStage(
+  garmentId: string,
+  stage: GarmentStage
+): Promise<{ success: boolean; changed: boolean }> {
   try {
     const { user } = await ensureUserAndShop();
     const supabase = await createClient();
@@ -76,17 +88,17 @@ export async function updateGarmentStage(
 
     if (fetchError || !currentGarment) {
       console.error('Error fetching current garment:', fetchError);
-      return false;
+      return { success: false, changed: false };
     }
 
     // Don't automatically change from 'Done' back to another stage
     if (currentGarment.stage === 'Done') {
-      return true;
+      return { success: true, changed: false };
     }
 
     // Only update if the stage is actually changing
     if (currentGarment.stage === stage) {
-      return true;
+      return { success: true, changed: false };
     }
 
     const { error: updateError } = await supabase
@@ -96,7 +108,7 @@ export async function updateGarmentStage(
 
     if (updateError) {
       console.error('Error updating garment stage:', updateError);
-      return false;
+      return { success: false, changed: false };
     }
 
     // Track the stage change in history
@@ -116,10 +128,10 @@ export async function updateGarmentStage(
       // Don't fail the update if history tracking fails
     }
 
-    return true;
+    return { success: true, changed: true };
   } catch (error) {
     console.error('Error updating garment stage:', error);
-    return false;
+    return { success: false, changed: false };
   }
 }
 
@@ -136,7 +148,21 @@ export async function recalculateAndUpdateGarmentStage(
     return { success: false };
   }
 
-  const success = await updateGarmentStage(garmentId, stageInfo.stage);
+  const { success, changed } = await applyGarmentStage(
+    garmentId,
+    stageInfo.stage
+  );
+
+  // Let the client know as soon as the garment becomes ready
+  if (success && changed && stageInfo.stage === 'Ready For Pickup') {
+    const notification = await sendGarmentReadyNotification(garmentId);
+    if (!notification.success) {
+      console.error(
+        'Failed to send ready for pickup notification:',
+        notification.error
+      );
+    }
+  }
 
   return { success, stage: stageInfo.stage };
 }
@@ -9,6 +9,11 @@ import {
   invalidateDashboardAlertsRPCCache,
 } from './rpc-optimized';
 import { invalidateAllStaticDataCache } from './static-data-cache';
+import {
+  getDepositDueMessage,
+  getOrderDepositStatus,
+  isWorkBlockedByDeposit,
+} from '@/lib/utils/deposits';
 
 export async function getGarmentsAndStages(shopId: string) {
   const supabase = await createClient();
@@ -88,7 +93,7 @@ export async function updateGarmentStage(
   // Get current stage for history tracking
   const { data: currentGarment, error: fetchError } = await supabase
     .from('garments')
-    .select('stage')
+    .select('stage, order_id')
     .eq('shop_id', shopId)
     .eq('id', garmentId)
     .single();
@@ -104,6 +109,17 @@ export async function updateGarmentStage(
     return;
   }
 
+  // Work can't start on a new garment until the order's deposit is paid
+  if (currentGarment.stage === 'New' && currentGarment.order_id) {
+    const deposit = await getOrderDepositStatus(
+      supabase,
+      currentGarment.order_id
+    );
+    if (isWorkBlockedByDeposit(deposit)) {
+      throw new Error(getDepositDueMessage(deposit));
+    }
+  }
+
   const { error } = await supabase
     .from('garments')
     .update({ stage: newStage })
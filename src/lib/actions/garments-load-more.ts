@@ -21,6 +21,7 @@ interface LoadMoreGarmentsParams {
   stage?: GarmentStage;
   search?: string;
   filter?: 'due-today' | 'overdue';
+  assignee?: string;
   sortField: SortField;
   sortOrder: 'asc' | 'desc';
 }
@@ -31,6 +32,7 @@ export async function loadMoreGarments({
   stage,
   search,
   filter,
+  assignee,
   sortField,
   sortOrder,
 }: LoadMoreGarmentsParams) {
@@ -40,6 +42,7 @@ export async function loadMoreGarments({
     stage,
     search,
     filter,
+    assignee,
     sortField,
     sortOrder,
     limit: 20,
@@ -31,6 +31,8 @@ const GetGarmentsPaginatedSchema = z.object({
 	filter: z.enum(['due-today', 'overdue']).optional(),
 	includeCancelled: z.boolean().optional(),
 	onlyCancelled: z.boolean().optional(),
+	// Only garments assigned to this staff member
+	assignee: z.string().uuid().optional(),
 });
 
 export type GetGarmentsPaginatedParams = z.infer<
@@ -58,6 +60,7 @@ export interface GarmentListItem {
 		id: string;
 		name: string;
 		is_done: boolean;
+		is_removed?: boolean;
 	}[];
 	// Image type metadata for optimization
 	hasCloudinaryImage: boolean;
@@ -173,6 +176,11 @@ export async function getGarmentsPaginated(
 			query = query.eq('stage', validatedParams.stage);
 		}
 
+		// Apply staff filter if provided
+		if (validatedParams.assignee) {
+			query = query.eq('assigned_to', validatedParams.assignee);
+		}
+
 		// Apply cancelled order filters (with defaults)
 		const onlyCancelled = validatedParams.onlyCancelled ?? false;
 		const includeCancelled = validatedParams.includeCancelled ?? false;
@@ -304,6 +312,11 @@ export async function getGarmentsPaginated(
 					query = query.eq('stage', validatedParams.stage);
 				}
 
+				// Re-apply staff filter if provided
+				if (validatedParams.assignee) {
+					query = query.eq('assigned_to', validatedParams.assignee);
+				}
+
 				// Re-apply cancelled order filters when using the view
 				if (onlyCancelled) {
 					query = query.eq('order_status', 'cancelled');
@@ -0,0 +1,260 @@
+'use server';
+
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from './users';
+import { InstallmentReminderService } from '@/lib/services/email/installment-reminder-service';
+import { formatInTimezone } from '@/lib/utils/date-time-utc';
+import {
+	INSTALLMENT_INVOICE_TYPE,
+	MAX_INSTALLMENTS,
+	getInstallmentPlanError,
+	getInstallmentStatuses,
+	type InstallmentWithStatus,
+} from '@/lib/utils/installments';
+import { calculatePaymentStatus } from '@/lib/utils/payment-calculations';
+
+const saveInstallmentPlanSchema = z.object({
+	invoiceId: z.string().uuid(),
+	installments: z
+		.array(
+			z.object({
+				amountCents: z
+					.number()
+					.int()
+					.positive('Each installment needs an amount'),
+				dueDate: z
+					.string()
+					.regex(/^\d{4}-\d{2}-\d{2}$/, 'Each installment needs a due date'),
+			})
+		)
+		.max(MAX_INSTALLMENTS),
+});
+
+export type SaveInstallmentPlanData = z.input<typeof saveInstallmentPlanSchema>;
+
+export interface InvoiceInstallmentPlan {
+	installments: InstallmentWithStatus[];
+	invoiceAmountCents: number;
+	// Plans can't be put on deposit or supplemental invoices, or closed ones
+	canEdit: boolean;
+}
+
+const CLOSED_INVOICE_STATUSES = ['paid', 'cancelled', 'refunded'];
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+async function getShopInvoice(
+	supabase: SupabaseServerClient,
+	invoiceId: string,
+	shopId: string
+) {
+	const { data, error } = await supabase
+		.from('invoices')
+		.select(
+			'id, order_id, amount_cents, status, invoice_type, payments(id, amount_cents, refunded_amount_cents, status, payment_type)'
+		)
+		.eq('id', invoiceId)
+		.eq('shop_id', shopId)
+		.single();
+
+	if (error || !data) {
+		throw new Error('Invoice not found');
+	}
+
+	return data;
+}
+
+function canHavePlan(invoice: {
+	status: string;
+	invoice_type: string | null;
+}): boolean {
+	return (
+		!CLOSED_INVOICE_STATUSES.includes(invoice.status) &&
+		(!invoice.invoice_type || invoice.invoice_type === INSTALLMENT_INVOICE_TYPE)
+	);
+}
+
+/**
+ * An invoice's installments, each marked paid, due or late from what has
+ * been paid on the invoice so far
+ */
+export async function getInvoiceInstallments(invoiceId: string): Promise<{
+	success: boolean;
+	data?: InvoiceInstallmentPlan;
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const invoice = await getShopInvoice(supabase, invoiceId, shop.id);
+
+		const { data: installments, error } = await supabase
+			.from('invoice_installments')
+			.select('id, sequence, amount_cents, due_date')
+			.eq('invoice_id', invoiceId)
+			.order('sequence', { ascending: true });
+
+		if (error) throw error;
+
+		const { netPaid } = calculatePaymentStatus(
+			invoice.amount_cents,
+			(invoice.payments || []).map((payment) => ({
+				...payment,
+				refunded_amount_cents: payment.refunded_amount_cents || 0,
+				type: payment.payment_type === 'refund' ? 'refund' : 'payment',
+			}))
+		);
+		const today = formatInTimezone(
+			new Date(),
+			shop.timezone || 'UTC',
+			'yyyy-MM-dd'
+		);
+
+		return {
+			success: true,
+			data: {
+				installments: getInstallmentStatuses(
+					installments || [],
+					netPaid,
+					today
+				),
+				invoiceAmountCents: invoice.amount_cents,
+				canEdit: canHavePlan(invoice),
+			},
+		};
+	} catch (error) {
+		console.error('Failed to load installments:', error);
+		return { success: false, error: 'Failed to load installments' };
+	}
+}
+
+/**
+ * Split an invoice into installments, replacing any plan it already has
+ */
+export async function saveInstallmentPlan(
+	data: SaveInstallmentPlanData
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const parsed = saveInstallmentPlanSchema.safeParse(data);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.errors[0]?.message || 'Invalid installment plan',
+			};
+		}
+		const validated = parsed.data;
+
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const invoice = await getShopInvoice(
+			supabase,
+			validated.invoiceId,
+			shop.id
+		);
+		if (!canHavePlan(invoice)) {
+			return {
+				success: false,
+				error: 'Payment plans can only be set up on an open, regular invoice',
+			};
+		}
+
+		const planError = getInstallmentPlanError(
+			validated.installments,
+			invoice.amount_cents
+		);
+		if (planError) {
+			return { success: false, error: planError };
+		}
+
+		// Installments keep their ids, and reminders, across saves; links for
+		// ones that changed amount or were dropped are retired with the save
+		const { error } = await supabase.rpc('save_installment_plan', {
+			p_invoice_id: invoice.id,
+			p_installments: validated.installments.map((installment) => ({
+				amount_cents: installment.amountCents,
+				due_date: installment.dueDate,
+			})),
+		});
+
+		if (error) throw error;
+
+		revalidatePath(`/invoices/${invoice.id}`);
+		revalidatePath(`/orders/${invoice.order_id}`);
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to save installment plan:', error);
+		return { success: false, error: 'Failed to save installment plan' };
+	}
+}
+
+/**
+ * Take an invoice off its payment plan, restoring the due date it had before
+ */
+export async function removeInstallmentPlan(
+	invoiceId: string
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const invoice = await getShopInvoice(supabase, invoiceId, shop.id);
+		if (invoice.invoice_type !== INSTALLMENT_INVOICE_TYPE) {
+			return { success: false, error: 'This invoice has no payment plan' };
+		}
+
+		const { error } = await supabase.rpc('remove_installment_plan', {
+			p_invoice_id: invoice.id,
+		});
+
+		if (error) throw error;
+
+		revalidatePath(`/invoices/${invoice.id}`);
+		revalidatePath(`/orders/${invoice.order_id}`);
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to remove installment plan:', error);
+		return { success: false, error: 'Failed to remove installment plan' };
+	}
+}
+
+/**
+ * Email the client a payment link for one installment. The link comes back
+ * even when the client can't be emailed, so it can be shared another way.
+ */
+export async function sendInstallmentPaymentLink(
+	installmentId: string
+): Promise<{
+	success: boolean;
+	data?: { url: string; emailed: boolean; reason?: string | undefined };
+	error?: string;
+}> {
+	try {
+		const parsed = z.string().uuid().safeParse(installmentId);
+		if (!parsed.success) {
+			return { success: false, error: 'Invalid installment' };
+		}
+
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+		const service = new InstallmentReminderService(supabase);
+
+		const result = await service.sendInstallmentLink(installmentId, shop.id);
+
+		return { success: true, data: result };
+	} catch (error) {
+		console.error('Failed to send installment link:', error);
+		return {
+			success: false,
+			error:
+				error instanceof Error
+					? error.message
+					: 'Failed to send installment link',
+		};
+	}
+}
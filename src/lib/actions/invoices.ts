@@ -9,6 +9,9 @@ import {
   sendOrderCreatedEmail,
   sendPaymentRequestEmail,
 } from './emails/invoice-emails';
+import { getDiscountLineLabel } from '@/lib/utils/discount-calculations';
+import { createPaymentLink } from '@/lib/utils/payment-links';
+import { recordPaymentForReminders } from '@/lib/utils/payment-reminders';
 
 // Types
 export interface PaginatedInvoices {
@@ -37,6 +40,7 @@ export interface InvoicesFilters {
 }
 
 export interface InvoiceLineItem {
+  type?: 'discount'; // Set on the order's discount line, which has a negative total
   service_id?: string; // Optional for backward compatibility, required for payment allocation
   name: string;
   description?: string;
@@ -274,6 +278,18 @@ export async function createInvoice(
       }
     }
 
+    // The order's discount is its own (negative) line
+    if (order.discount_cents > 0) {
+      lineItems.push({
+        type: 'discount',
+        name: getDiscountLineLabel(order.discount_code),
+        ...(order.discount_reason && { description: order.discount_reason }),
+        quantity: 1,
+        unit_price_cents: -order.discount_cents,
+        line_total_cents: -order.discount_cents,
+      });
+    }
+
     // Calculate invoice amount from line items to ensure consistency
     const calculatedTotal = lineItems.reduce(
       (sum, item) => sum + item.line_total_cents,
@@ -445,6 +461,8 @@ export async function recordManualPayment(
       throw new Error('Failed to record payment');
     }
 
+    await recordPaymentForReminders(supabase, validated.invoiceId);
+
     revalidatePath('/invoices');
     revalidatePath(`/invoices/${validated.invoiceId}`);
 
@@ -537,9 +555,10 @@ export async function getPaymentLinkByToken(token: string) {
       invoice:invoices(
         *,
         client:clients(first_name, last_name, email),
-        shop:shops(name, email, phone_number, mailing_address),
-        order:orders(order_number),
-        payments(*)
+        shop:shops(name, business_name, email, phone_number, mailing_address, timezone),
+        order:orders(order_number, tax_cents),
+        payments(*),
+        invoice_installments(id, sequence, amount_cents, due_date)
       )
     `
     )
@@ -590,31 +609,11 @@ export async function generatePaymentLink(
       throw new Error('Cannot generate payment link for cancelled invoice');
     }
 
-    // Generate unique token
-    const token = crypto.randomUUID();
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + expiresInDays);
-
-    // Create payment link
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-    const url = `${baseUrl}/pay/${token}`;
-
-    const { data: paymentLink, error } = await supabase
-      .from('payment_links')
-      .insert({
-        invoice_id: invoiceId,
-        token,
-        url,
-        expires_at: expiresAt.toISOString(),
-        status: 'active',
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error creating payment link:', error);
-      throw new Error('Failed to create payment link');
-    }
+    const paymentLink = await createPaymentLink(
+      supabase,
+      invoiceId,
+      expiresInDays
+    );
 
     // Send payment request email with link
     try {
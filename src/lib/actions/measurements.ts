@@ -0,0 +1,350 @@
+'use server';
+
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from './users';
+import { getPermissionError } from '@/lib/auth/permissions';
+import {
+	toMeasurementRecord,
+	type MeasurementField,
+	type MeasurementRecord,
+} from '@/lib/utils/measurement-calculations';
+import {
+	MEASUREMENT_SELECT,
+	loadMeasurementFields,
+} from '@/lib/utils/measurements';
+
+const measurementSchema = z.object({
+	measuredOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Enter a valid date'),
+	unit: z.enum(['in', 'cm']),
+	values: z.record(
+		z
+			.number()
+			.positive('Measurements must be greater than zero')
+			.max(1000, 'Measurement is too large')
+	),
+	notes: z.string().trim().max(1000).optional(),
+});
+
+export type MeasurementData = z.input<typeof measurementSchema>;
+
+const createMeasurementSchema = measurementSchema.extend({
+	clientId: z.string().uuid('Invalid client'),
+});
+
+export type CreateMeasurementData = z.input<typeof createMeasurementSchema>;
+
+const idSchema = z.string().uuid();
+
+const fieldLabelSchema = z
+	.string()
+	.trim()
+	.min(1, 'Enter a field name')
+	.max(40, 'Field names can be at most 40 characters');
+
+/**
+ * Drop values for fields the shop doesn't have
+ */
+function pickFieldValues(
+	values: Record<string, number>,
+	fields: MeasurementField[]
+): Record<string, number> {
+	const known = new Set(fields.map((field) => field.key));
+	return Object.fromEntries(
+		Object.entries(values).filter(([key]) => known.has(key))
+	);
+}
+
+/**
+ * The client's measurement records, newest first, and the fields to show them
+ * with
+ */
+export async function getClientMeasurements(clientId: string): Promise<{
+	success: boolean;
+	data?: { records: MeasurementRecord[]; fields: MeasurementField[] };
+	error?: string;
+}> {
+	try {
+		if (!idSchema.safeParse(clientId).success) {
+			return { success: false, error: 'Invalid client' };
+		}
+
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const [fields, { data, error }] = await Promise.all([
+			loadMeasurementFields(supabase, shop.id),
+			supabase
+				.from('client_measurements')
+				.select(MEASUREMENT_SELECT)
+				.eq('shop_id', shop.id)
+				.eq('client_id', clientId)
+				.order('measured_on', { ascending: false })
+				.order('created_at', { ascending: false }),
+		]);
+
+		if (error) throw error;
+
+		return {
+			success: true,
+			data: { records: (data || []).map(toMeasurementRecord), fields },
+		};
+	} catch (error) {
+		console.error('Failed to load measurements:', error);
+		return { success: false, error: 'Failed to load measurements' };
+	}
+}
+
+export async function createClientMeasurement(
+	data: CreateMeasurementData
+): Promise<{ success: boolean; data?: MeasurementRecord; error?: string }> {
+	try {
+		const parsed = createMeasurementSchema.safeParse(data);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.errors[0]?.message || 'Invalid measurements',
+			};
+		}
+		const validated = parsed.data;
+
+		const { user, shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: client } = await supabase
+			.from('clients')
+			.select('id')
+			.eq('id', validated.clientId)
+			.eq('shop_id', shop.id)
+			.maybeSingle();
+
+		if (!client) {
+			return { success: false, error: 'Client not found' };
+		}
+
+		const fields = await loadMeasurementFields(supabase, shop.id);
+
+		const { data: record, error } = await supabase
+			.from('client_measurements')
+			.insert({
+				shop_id: shop.id,
+				client_id: validated.clientId,
+				measured_on: validated.measuredOn,
+				unit: validated.unit,
+				values: pickFieldValues(validated.values, fields),
+				notes: validated.notes || null,
+				created_by: user.id,
+			})
+			.select(MEASUREMENT_SELECT)
+			.single();
+
+		if (error) throw error;
+
+		revalidatePath(`/clients/${validated.clientId}`);
+
+		return { success: true, data: toMeasurementRecord(record) };
+	} catch (error) {
+		console.error('Failed to save measurements:', error);
+		return { success: false, error: 'Failed to save measurements' };
+	}
+}
+
+export async function updateClientMeasurement(
+	measurementId: string,
+	data: MeasurementData
+): Promise<{ success: boolean; data?: MeasurementRecord; error?: string }> {
+	try {
+		if (!idSchema.safeParse(measurementId).success) {
+			return { success: false, error: 'Measurements not found' };
+		}
+		const parsed = measurementSchema.safeParse(data);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.errors[0]?.message || 'Invalid measurements',
+			};
+		}
+		const validated = parsed.data;
+
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const fields = await loadMeasurementFields(supabase, shop.id);
+
+		const { data: record, error } = await supabase
+			.from('client_measurements')
+			.update({
+				measured_on: validated.measuredOn,
+				unit: validated.unit,
+				values: pickFieldValues(validated.values, fields),
+				notes: validated.notes || null,
+				updated_at: new Date().toISOString(),
+			})
+			.eq('id', measurementId)
+			.eq('shop_id', shop.id)
+			.select(MEASUREMENT_SELECT)
+			.maybeSingle();
+
+		if (error) throw error;
+		if (!record) {
+			return { success: false, error: 'Measurements not found' };
+		}
+
+		revalidatePath(`/clients/${record.client_id}`);
+
+		return { success: true, data: toMeasurementRecord(record) };
+	} catch (error) {
+		console.error('Failed to update measurements:', error);
+		return { success: false, error: 'Failed to update measurements' };
+	}
+}
+
+/**
+ * Garments keep their own snapshot, so deleting a record doesn't change them
+ */
+export async function deleteClientMeasurement(
+	measurementId: string
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		if (!idSchema.safeParse(measurementId).success) {
+			return { success: false, error: 'Measurements not found' };
+		}
+
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: record, error } = await supabase
+			.from('client_measurements')
+			.delete()
+			.eq('id', measurementId)
+			.eq('shop_id', shop.id)
+			.select('client_id')
+			.maybeSingle();
+
+		if (error) throw error;
+		if (!record) {
+			return { success: false, error: 'Measurements not found' };
+		}
+
+		revalidatePath(`/clients/${record.client_id}`);
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to delete measurements:', error);
+		return { success: false, error: 'Failed to delete measurements' };
+	}
+}
+
+export async function getMeasurementFields(): Promise<{
+	success: boolean;
+	data?: MeasurementField[];
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		return {
+			success: true,
+			data: await loadMeasurementFields(supabase, shop.id),
+		};
+	} catch (error) {
+		console.error('Failed to load measurement fields:', error);
+		return { success: false, error: 'Failed to load measurement fields' };
+	}
+}
+
+/**
+ * Adds one of the shop's own measurement fields, shown after the standard ones
+ */
+export async function createMeasurementField(label: string): Promise<{
+	success: boolean;
+	data?: MeasurementField;
+	error?: string;
+}> {
+	try {
+		const parsed = fieldLabelSchema.safeParse(label);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.errors[0]?.message || 'Invalid field name',
+			};
+		}
+
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError(
+			{ user, shop },
+			'manage_settings'
+		);
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		const supabase = await createClient();
+
+		const { data: field, error } = await supabase
+			.from('measurement_fields')
+			.insert({ shop_id: shop.id, label: parsed.data })
+			.select('id, label')
+			.single();
+
+		if (error) {
+			if (error.code === '23505') {
+				return {
+					success: false,
+					error: 'A measurement field with this name already exists',
+				};
+			}
+			throw error;
+		}
+
+		revalidatePath('/settings');
+
+		return {
+			success: true,
+			data: { key: field.id, label: field.label, custom: true },
+		};
+	} catch (error) {
+		console.error('Failed to create measurement field:', error);
+		return { success: false, error: 'Failed to create measurement field' };
+	}
+}
+
+/**
+ * Removes one of the shop's own fields. Values already recorded for it stay in
+ * the records but are no longer shown; garment snapshots keep them.
+ */
+export async function deleteMeasurementField(
+	fieldId: string
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		if (!idSchema.safeParse(fieldId).success) {
+			return { success: false, error: 'Measurement field not found' };
+		}
+
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError(
+			{ user, shop },
+			'manage_settings'
+		);
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		const supabase = await createClient();
+
+		const { error } = await supabase
+			.from('measurement_fields')
+			.delete()
+			.eq('id', fieldId)
+			.eq('shop_id', shop.id);
+
+		if (error) throw error;
+
+		revalidatePath('/settings');
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to delete measurement field:', error);
+		return { success: false, error: 'Failed to delete measurement field' };
+	}
+}
@@ -0,0 +1,276 @@
+'use server';
+
+import { z } from 'zod';
+import { notFound, redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { createClient as createAdminClient } from '@/lib/supabase/admin';
+import { getOrCreatePaymentLink } from '@/lib/utils/payment-links';
+import { getOrCreateOrderStatusUrl } from '@/lib/utils/order-status-links';
+import { getShopDisplayName } from '@/lib/utils/shop';
+import { GARMENT_STAGES } from '@/constants/garmentStages';
+import type { GarmentStage } from '@/types';
+import { ensureUserAndShop } from './users';
+
+const OrderStatusTokenSchema = z
+	.string()
+	.length(64, 'Invalid token format')
+	.regex(/^[a-f0-9]+$/, 'Invalid token format');
+
+export interface OrderStatusView {
+	orderNumber: string;
+	orderDueDate: string | null;
+	clientFirstName: string;
+	shop: {
+		name: string;
+		email: string | null;
+		phoneNumber: string | null;
+		mailingAddress: string | null;
+	};
+	garments: Array<{
+		id: string;
+		name: string;
+		stage: GarmentStage;
+		stageLabel: string;
+		stageColor: string;
+		dueDate: string | null;
+		photoUrl: string | null;
+		services: Array<{ name: string; quantity: number; unit: string }>;
+	}>;
+	totalCents: number;
+	paidCents: number;
+	balanceDueCents: number;
+	canPay: boolean;
+}
+
+type AdminSupabaseClient = ReturnType<typeof createAdminClient>;
+
+/**
+ * Resolve a status token to its order id. Revoked, expired and unknown tokens
+ * all 404 so the page doesn't reveal which links once existed.
+ */
+async function resolveOrderStatusToken(
+	supabase: AdminSupabaseClient,
+	token: string
+): Promise<{ orderId: string; shopId: string }> {
+	const cleanToken = token.split('?')[0]?.split('&')[0]?.trim() || token.trim();
+	if (!OrderStatusTokenSchema.safeParse(cleanToken).success) {
+		notFound();
+	}
+
+	const { data, error } = await supabase
+		.from('order_status_tokens')
+		.select('order_id, shop_id, expires_at, revoked_at')
+		.eq('token', cleanToken)
+		.single();
+
+	if (
+		error ||
+		!data ||
+		data.revoked_at ||
+		new Date(data.expires_at) < new Date()
+	) {
+		notFound();
+	}
+
+	return { orderId: data.order_id, shopId: data.shop_id };
+}
+
+function garmentPhotoUrl(garment: {
+	image_cloud_id: string | null;
+	photo_url: string | null;
+}): string | null {
+	if (garment.image_cloud_id) {
+		return `https://res.cloudinary.com/${process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME}/image/upload/c_fill,h_320,w_320/${garment.image_cloud_id}`;
+	}
+	return garment.photo_url || null;
+}
+
+/**
+ * Get (or create) the shareable status link for one of the shop's orders
+ */
+export async function getOrderStatusLink(orderId: string): Promise<{
+	success: boolean;
+	url?: string;
+	error?: string;
+}> {
+	try {
+		const { user, shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: order, error } = await supabase
+			.from('orders')
+			.select('id')
+			.eq('id', orderId)
+			.eq('shop_id', shop.id)
+			.single();
+
+		if (error || !order) {
+			return { success: false, error: 'Order not found' };
+		}
+
+		const url = await getOrCreateOrderStatusUrl(supabase, {
+			orderId: order.id,
+			shopId: shop.id,
+			userId: user.id,
+		});
+
+		return { success: true, url };
+	} catch (error) {
+		console.error('Failed to get order status link:', error);
+		return { success: false, error: 'Failed to create order status link' };
+	}
+}
+
+/**
+ * Revoke every active status link for an order. The next call to
+ * getOrderStatusLink issues a fresh one.
+ */
+export async function revokeOrderStatusLinks(orderId: string): Promise<{
+	success: boolean;
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { error } = await supabase
+			.from('order_status_tokens')
+			.update({ revoked_at: new Date().toISOString() })
+			.eq('order_id', orderId)
+			.eq('shop_id', shop.id)
+			.is('revoked_at', null);
+
+		if (error) throw error;
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to revoke order status links:', error);
+		return { success: false, error: 'Failed to revoke order status links' };
+	}
+}
+
+/**
+ * Load the public order status view for a token (no auth required)
+ */
+export async function getOrderStatusByToken(
+	token: string
+): Promise<OrderStatusView> {
+	const supabase = createAdminClient();
+	const { orderId, shopId } = await resolveOrderStatusToken(supabase, token);
+
+	const { data: order, error } = await supabase
+		.from('orders')
+		.select(
+			`
+      id,
+      order_number,
+      order_due_date,
+      status,
+      total_cents,
+      client:clients(first_name),
+      shop:shops(*),
+      garments(
+        id,
+        name,
+        stage,
+        due_date,
+        created_at,
+        image_cloud_id,
+        photo_url,
+        garment_services(name, quantity, unit, is_removed)
+      ),
+      invoices(
+        id,
+        amount_cents,
+        status,
+        payments(amount_cents, refunded_amount_cents, status)
+      )
+    `
+		)
+		.eq('id', orderId)
+		.eq('shop_id', shopId)
+		.single();
+
+	if (error || !order || !order.shop) {
+		notFound();
+	}
+
+	const invoice = order.invoices?.[0];
+	const completedPayments = (invoice?.payments || []).filter(
+		(p) => p.status === 'completed'
+	);
+	const paidCents = completedPayments.reduce(
+		(sum, p) => sum + p.amount_cents - (p.refunded_amount_cents || 0),
+		0
+	);
+	const totalCents = invoice?.amount_cents ?? order.total_cents;
+	const balanceDueCents = Math.max(0, totalCents - paidCents);
+
+	const garments = [...(order.garments || [])]
+		.sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''))
+		.map((g) => {
+			const stage = (g.stage || 'New') as GarmentStage;
+			const config = GARMENT_STAGES.find((s) => s.name === stage);
+			return {
+				id: g.id,
+				name: g.name,
+				stage,
+				stageLabel: config?.displayName || stage,
+				stageColor: config?.color || '#D6C4F2',
+				dueDate: g.due_date,
+				photoUrl: garmentPhotoUrl(g),
+				services: (g.garment_services || [])
+					.filter((s) => !s.is_removed)
+					.map((s) => ({ name: s.name, quantity: s.quantity, unit: s.unit })),
+			};
+		});
+
+	return {
+		orderNumber: order.order_number,
+		orderDueDate: order.order_due_date,
+		clientFirstName: order.client?.first_name || '',
+		shop: {
+			name: getShopDisplayName(order.shop),
+			email: order.shop.email,
+			phoneNumber: order.shop.phone_number,
+			mailingAddress: order.shop.mailing_address,
+		},
+		garments,
+		totalCents,
+		paidCents,
+		balanceDueCents,
+		canPay:
+			!!invoice &&
+			balanceDueCents > 0 &&
+			invoice.status !== 'cancelled' &&
+			order.status !== 'cancelled',
+	};
+}
+
+/**
+ * Send the client from the status page to the existing payment-link flow
+ */
+export async function payOrderStatusBalance(token: string): Promise<void> {
+	const supabase = createAdminClient();
+	const { orderId } = await resolveOrderStatusToken(supabase, token);
+
+	const { data: invoice } = await supabase
+		.from('invoices')
+		.select('id, status')
+		.eq('order_id', orderId)
+		.neq('status', 'cancelled')
+		.order('created_at', { ascending: false })
+		.limit(1)
+		.maybeSingle();
+
+	const paymentUrl = invoice
+		? await getOrCreatePaymentLink(supabase, invoice.id)
+		: undefined;
+
+	if (!paymentUrl) {
+		throw new Error('Online payment is not available for this order');
+	}
+
+	// Payment links are stored as absolute URLs; redirect within the app
+	redirect(new URL(paymentUrl).pathname);
+}
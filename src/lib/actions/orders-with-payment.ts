@@ -5,6 +5,21 @@ import { createClient } from '@/lib/supabase/server';
 import { ensureUserAndShop } from '@/lib/auth/user-shop';
 import { revalidatePath } from 'next/cache';
 import { createPaymentIntent } from './payments';
+import { logPaymentAction } from './payment-audit';
+import { calculateRequiredDeposit } from '@/lib/utils/deposit-calculations';
+import { loadShopDepositPolicy } from '@/lib/utils/deposits';
+import {
+  calculateDiscountCents,
+  calculateOrderTotals,
+  describeDiscount,
+  getDiscountUnavailableReason,
+  type Discount,
+} from '@/lib/utils/discount-calculations';
+import {
+  findShopDiscountByCode,
+  syncInvoiceDiscountLine,
+} from '@/lib/utils/discounts';
+import { loadMeasurementSnapshots } from '@/lib/utils/measurements';
 
 // Schema for order creation with payment intent
 const CreateOrderWithPaymentSchema = z.object({
@@ -20,6 +35,8 @@ const CreateOrderWithPaymentSchema = z.object({
         presetFillColor: z.string().optional(),
         imageCloudId: z.string().optional(),
         imageUrl: z.string().url().optional(),
+        // Client measurement record to copy onto the garment
+        measurementId: z.string().uuid().optional(),
         services: z.array(
           z.object({
             serviceId: z.string().uuid().optional(),
@@ -34,12 +51,15 @@ const CreateOrderWithPaymentSchema = z.object({
     ),
     taxPercent: z.number().min(0).max(100),
     discountCents: z.number().int().min(0),
+    discountCode: z.string().optional(),
     notes: z.string().optional(),
     timezone: z.string().optional(),
   }),
   paymentIntent: z.object({
     collectNow: z.boolean(),
-    method: z.enum(['stripe', 'cash', 'external_pos']).optional(),
+    method: z
+      .enum(['stripe', 'cash', 'external_pos', 'store_credit'])
+      .optional(),
     depositAmount: z.number().int().min(0).optional(),
     dueDate: z.date().optional(),
     notes: z.string().optional(),
@@ -62,12 +82,86 @@ export async function createOrderWithPayment(
     // Validate input
     const validatedInput = CreateOrderWithPaymentSchema.parse(input);
 
+    const { orderData, paymentIntent } = validatedInput;
+    const lines = orderData.garments.flatMap((g) => g.services);
+
+    // Discount codes are priced here so the amount can't be changed by the client
+    let discount: Discount | null = null;
+    if (orderData.discountCode) {
+      discount = await findShopDiscountByCode(
+        supabase,
+        shop.id,
+        orderData.discountCode
+      );
+      if (!discount) {
+        return { success: false, error: 'Discount code not found' };
+      }
+      const unavailableReason = getDiscountUnavailableReason(discount);
+      if (unavailableReason) {
+        return { success: false, error: unavailableReason };
+      }
+      orderData.discountCents = calculateDiscountCents(discount, lines);
+    }
+
+    // Work out the deposit the shop's policy requires for this order
+    const { totalCents } = calculateOrderTotals(
+      lines.reduce((sum, line) => sum + line.quantity * line.unitPriceCents, 0),
+      orderData.discountCents,
+      orderData.taxPercent
+    );
+    const requiredDepositCents = calculateRequiredDeposit(
+      await loadShopDepositPolicy(supabase, shop.id),
+      lines,
+      totalCents
+    );
+
+    // Collecting less than the full amount now must still cover the deposit
+    if (
+      paymentIntent.collectNow &&
+      paymentIntent.depositAmount !== undefined &&
+      paymentIntent.depositAmount < requiredDepositCents
+    ) {
+      return {
+        success: false,
+        error: `A deposit of at least $${(requiredDepositCents / 100).toFixed(2)} is required for this order`,
+      };
+    }
+
+    // Garments store a copy of the measurements they're made to
+    const snapshots = await loadMeasurementSnapshots(
+      supabase,
+      shop.id,
+      orderData.clientId,
+      orderData.garments.flatMap((g) =>
+        g.measurementId ? [g.measurementId] : []
+      )
+    );
+
+    if (discount) {
+      const { data: redeemed } = await supabase.rpc('redeem_discount', {
+        p_discount_id: discount.id,
+      });
+      if (!redeemed) {
+        return {
+          success: false,
+          error: `${discount.code} can no longer be used`,
+        };
+      }
+    }
+
     // Create order with atomic transaction
     const { data: order, error: orderError } = await supabase.rpc(
       'create_order_with_payment_transaction',
       {
         p_shop_id: shop.id,
-        p_order_data: validatedInput.orderData,
+        p_order_data: {
+          ...orderData,
+          garments: orderData.garments.map(({ measurementId, ...garment }) => ({
+            ...garment,
+            measurementSnapshot:
+              (measurementId && snapshots.get(measurementId)) || null,
+          })),
+        },
         p_payment_intent: {
           ...validatedInput.paymentIntent,
           dueDate: validatedInput.paymentIntent.dueDate?.toISOString(),
@@ -76,7 +170,74 @@ export async function createOrderWithPayment(
       }
     );
 
-    if (orderError) throw orderError;
+    if (orderError) {
+      // Give the discount use back since no order was created
+      if (discount) {
+        await supabase.rpc('release_discount', { p_discount_id: discount.id });
+      }
+      throw orderError;
+    }
+
+    const discountReason = discount
+      ? discount.description || describeDiscount(discount)
+      : null;
+
+    // Record the required deposit so work can't start until it's paid, and
+    // where the discount came from
+    if ((requiredDepositCents > 0 || discount) && order) {
+      let discountRecorded = false;
+      try {
+        const invoiceId = (order as any).invoice?.id;
+        const [orderUpdate, invoiceUpdate] = await Promise.all([
+          supabase
+            .from('orders')
+            .update({
+              ...(requiredDepositCents > 0 && {
+                deposit_amount_cents: requiredDepositCents,
+              }),
+              ...(discount && {
+                discount_id: discount.id,
+                discount_code: discount.code,
+                discount_reason: discountReason,
+              }),
+            })
+            .eq('id', (order as any).id),
+          invoiceId && requiredDepositCents > 0
+            ? supabase
+                .from('invoices')
+                .update({ deposit_amount_cents: requiredDepositCents })
+                .eq('id', invoiceId)
+            : Promise.resolve({ error: null }),
+        ]);
+
+        discountRecorded = !orderUpdate.error;
+
+        // Without these the deposit gate would read 0 and let work start
+        if (orderUpdate.error) {
+          throw orderUpdate.error;
+        }
+        if (invoiceUpdate.error) {
+          throw invoiceUpdate.error;
+        }
+      } catch (updateError) {
+        // The order doesn't record the discount, so give its use back
+        if (discount && !discountRecorded) {
+          await supabase.rpc('release_discount', {
+            p_discount_id: discount.id,
+          });
+        }
+        throw updateError;
+      }
+    }
+
+    // Show the discount as its own line on the invoice
+    if (orderData.discountCents > 0 && order) {
+      await syncInvoiceDiscountLine(supabase, (order as any).id, {
+        discountCents: orderData.discountCents,
+        code: discount?.code ?? null,
+        reason: discountReason,
+      });
+    }
 
     // Handle immediate payment collection
     if (
@@ -133,6 +294,33 @@ export async function createOrderWithPayment(
             p_user_id: user.id,
           });
           break;
+
+        case 'store_credit': {
+          // Takes the payment and the credit together, or neither
+          const { data: creditPaymentId, error: creditError } =
+            await supabase.rpc('redeem_store_credit', {
+              p_invoice_id: invoice.id,
+              p_payment_type: validatedInput.paymentIntent.depositAmount
+                ? 'custom'
+                : 'remainder',
+              p_amount_cents: amountToCollect,
+              p_user_id: user.id,
+              ...(validatedInput.paymentIntent.notes && {
+                p_notes: validatedInput.paymentIntent.notes,
+              }),
+            });
+          if (creditError) {
+            // The order stands; the invoice stays open for another payment
+            console.error('Failed to apply store credit:', creditError);
+          } else {
+            await logPaymentAction(creditPaymentId, 'completed', {
+              invoice_id: invoice.id,
+              amount_cents: amountToCollect,
+              payment_method: 'store_credit',
+            });
+          }
+          break;
+        }
       }
     }
 
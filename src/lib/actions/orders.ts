@@ -828,6 +828,7 @@ export async function getGarmentWithInvoiceData(garmentId: string) {
           is_removed,
           removed_at,
           removal_reason,
+          assigned_to,
           service:services(
             id,
             name,
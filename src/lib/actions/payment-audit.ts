@@ -5,7 +5,13 @@ import { ensureUserAndShop } from './users';
 
 export interface PaymentAuditLog {
   payment_id: string;
-  action: 'created' | 'confirmed' | 'cancelled' | 'failed' | 'completed';
+  action:
+    | 'created'
+    | 'confirmed'
+    | 'cancelled'
+    | 'failed'
+    | 'completed'
+    | 'refunded';
   details: Record<string, any>;
   user_agent?: string;
   ip_address?: string;
@@ -0,0 +1,363 @@
+'use server';
+
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from './users';
+import { getPermissionError } from '@/lib/auth/permissions';
+import {
+	PaymentReminderService,
+	type PaymentReminderDispatchSummary,
+} from '@/lib/services/email/payment-reminder-service';
+import {
+	DEFAULT_PAYMENT_REMINDER_STEPS,
+	type PaymentReminderStep,
+} from '@/lib/utils/payment-reminders';
+import type { Tables } from '@/types/supabase';
+
+const reminderStepSchema = z.object({
+	daysAfter: z
+		.number()
+		.int()
+		.min(1, 'Days must be at least 1')
+		.max(365, 'Days must be 365 or less'),
+	subject: z.string().trim().min(1, 'Subject is required').max(200),
+	body: z.string().trim().min(1, 'Message is required').max(5000),
+});
+
+const updatePaymentReminderSettingsSchema = z
+	.object({
+		enabled: z.boolean(),
+		steps: z.array(reminderStepSchema).max(10, 'Use 10 steps or fewer'),
+	})
+	.refine((data) => !data.enabled || data.steps.length > 0, {
+		message: 'Add at least one reminder step',
+	})
+	.refine(
+		(data) =>
+			new Set(data.steps.map((step) => step.daysAfter)).size ===
+			data.steps.length,
+		{ message: 'Each step needs a different number of days' }
+	);
+
+export type UpdatePaymentReminderSettingsData = z.input<
+	typeof updatePaymentReminderSettingsSchema
+>;
+
+export interface PaymentReminderSettings {
+	enabled: boolean;
+	steps: PaymentReminderStep[];
+}
+
+export type PaymentReminderHistoryItem = Pick<
+	Tables<'payment_reminders'>,
+	| 'id'
+	| 'days_after'
+	| 'status'
+	| 'recipient_email'
+	| 'subject'
+	| 'balance_cents'
+	| 'error'
+	| 'created_at'
+	| 'sent_at'
+> & {
+	// Set when the reminder chased one installment of a payment plan
+	installment: { sequence: number } | null;
+};
+
+/**
+ * The shop's reminder schedule. Shops that never saved one get the default
+ * steps to start from.
+ */
+export async function getPaymentReminderSettings(): Promise<{
+	success: boolean;
+	data?: PaymentReminderSettings;
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const [
+			{ data: settings, error: settingsError },
+			{ data: steps, error: stepsError },
+		] = await Promise.all([
+			supabase
+				.from('shop_settings')
+				.select('payment_reminders_enabled')
+				.eq('shop_id', shop.id)
+				.maybeSingle(),
+			supabase
+				.from('payment_reminder_steps')
+				.select('days_after, subject, body')
+				.eq('shop_id', shop.id)
+				.order('days_after', { ascending: true }),
+		]);
+
+		if (settingsError) throw settingsError;
+		if (stepsError) throw stepsError;
+
+		return {
+			success: true,
+			data: {
+				enabled: settings?.payment_reminders_enabled ?? false,
+				steps:
+					steps && steps.length > 0
+						? steps.map((step) => ({
+								daysAfter: step.days_after,
+								subject: step.subject,
+								body: step.body,
+							}))
+						: DEFAULT_PAYMENT_REMINDER_STEPS,
+			},
+		};
+	} catch (error) {
+		console.error('Failed to load payment reminder settings:', error);
+		return {
+			success: false,
+			error: 'Failed to load payment reminder settings',
+		};
+	}
+}
+
+/**
+ * Save the reminder schedule, replacing the shop's existing steps
+ */
+export async function updatePaymentReminderSettings(
+	data: UpdatePaymentReminderSettingsData
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const parsed = updatePaymentReminderSettingsSchema.safeParse(data);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error:
+					parsed.error.errors[0]?.message ||
+					'Invalid payment reminder settings',
+			};
+		}
+		const validated = parsed.data;
+
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError(
+			{ user, shop },
+			'manage_settings'
+		);
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		const supabase = await createClient();
+
+		const { error: settingsError } = await supabase
+			.from('shop_settings')
+			.upsert(
+				{
+					shop_id: shop.id,
+					payment_reminders_enabled: validated.enabled,
+					updated_at: new Date().toISOString(),
+				},
+				{ onConflict: 'shop_id' }
+			);
+
+		if (settingsError) throw settingsError;
+
+		// Sent reminders keep their days_after, so history survives this
+		const { error: deleteError } = await supabase
+			.from('payment_reminder_steps')
+			.delete()
+			.eq('shop_id', shop.id);
+
+		if (deleteError) throw deleteError;
+
+		if (validated.steps.length > 0) {
+			const { error: insertError } = await supabase
+				.from('payment_reminder_steps')
+				.insert(
+					validated.steps.map((step) => ({
+						shop_id: shop.id,
+						days_after: step.daysAfter,
+						subject: step.subject,
+						body: step.body,
+					}))
+				);
+
+			if (insertError) throw insertError;
+		}
+
+		revalidatePath('/settings');
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to save payment reminder settings:', error);
+		return {
+			success: false,
+			error: 'Failed to save payment reminder settings',
+		};
+	}
+}
+
+/**
+ * Reminders sent (or attempted) for an invoice, newest first, and whether
+ * its client is paused
+ */
+export async function getInvoicePaymentReminders(invoiceId: string): Promise<{
+	success: boolean;
+	data?: { reminders: PaymentReminderHistoryItem[]; clientPaused: boolean };
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: invoice, error: invoiceError } = await supabase
+			.from('invoices')
+			.select('client_id')
+			.eq('id', invoiceId)
+			.eq('shop_id', shop.id)
+			.single();
+
+		if (invoiceError) throw invoiceError;
+
+		const [{ data, error }, { data: pause, error: pauseError }] =
+			await Promise.all([
+				supabase
+					.from('payment_reminders')
+					.select(
+						'id, days_after, status, recipient_email, subject, balance_cents, error, created_at, sent_at, installment:invoice_installments(sequence)'
+					)
+					.eq('invoice_id', invoiceId)
+					.eq('shop_id', shop.id)
+					.order('created_at', { ascending: false }),
+				supabase
+					.from('payment_reminder_pauses')
+					.select('id')
+					.eq('client_id', invoice.client_id)
+					.maybeSingle(),
+			]);
+
+		if (error) throw error;
+		if (pauseError) throw pauseError;
+
+		return {
+			success: true,
+			data: { reminders: data || [], clientPaused: !!pause },
+		};
+	} catch (error) {
+		console.error('Failed to load payment reminders:', error);
+		return { success: false, error: 'Failed to load payment reminders' };
+	}
+}
+
+/**
+ * Whether overdue payment reminders are paused for a client
+ */
+export async function getClientPaymentRemindersPaused(
+	clientId: string
+): Promise<{ success: boolean; data?: boolean; error?: string }> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data, error } = await supabase
+			.from('payment_reminder_pauses')
+			.select('id')
+			.eq('client_id', clientId)
+			.eq('shop_id', shop.id)
+			.maybeSingle();
+
+		if (error) throw error;
+
+		return { success: true, data: !!data };
+	} catch (error) {
+		console.error('Failed to load payment reminder pause:', error);
+		return { success: false, error: 'Failed to load payment reminder pause' };
+	}
+}
+
+/**
+ * Pause or resume overdue payment reminders for a client
+ */
+export async function setClientPaymentRemindersPaused(
+	clientId: string,
+	paused: boolean
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const parsed = z.string().uuid().safeParse(clientId);
+		if (!parsed.success) {
+			return { success: false, error: 'Invalid client' };
+		}
+
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		if (paused) {
+			const { data: client, error: clientError } = await supabase
+				.from('clients')
+				.select('id')
+				.eq('id', clientId)
+				.eq('shop_id', shop.id)
+				.maybeSingle();
+
+			if (clientError) throw clientError;
+			if (!client) {
+				return { success: false, error: 'Client not found' };
+			}
+
+			const { error } = await supabase
+				.from('payment_reminder_pauses')
+				.upsert(
+					{ shop_id: shop.id, client_id: clientId },
+					{ onConflict: 'client_id', ignoreDuplicates: true }
+				);
+
+			if (error) throw error;
+		} else {
+			const { error } = await supabase
+				.from('payment_reminder_pauses')
+				.delete()
+				.eq('client_id', clientId)
+				.eq('shop_id', shop.id);
+
+			if (error) throw error;
+		}
+
+		revalidatePath(`/clients/${clientId}`);
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to update payment reminder pause:', error);
+		return { success: false, error: 'Failed to update payment reminders' };
+	}
+}
+
+/**
+ * Send the current shop's due overdue-payment reminders now instead of
+ * waiting for the daily run
+ */
+export async function sendDuePaymentReminders(): Promise<{
+	success: boolean;
+	data?: PaymentReminderDispatchSummary;
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+
+		const supabase = await createClient();
+		const service = new PaymentReminderService(supabase);
+
+		const summary = await service.dispatchDueReminders(shop.id);
+
+		if (summary.sent > 0) {
+			revalidatePath('/invoices');
+		}
+
+		return { success: true, data: summary };
+	} catch (error) {
+		console.error('Failed to send payment reminders:', error);
+		return {
+			success: false,
+			error:
+				error instanceof Error ? error.message : 'Failed to send reminders',
+		};
+	}
+}
@@ -4,9 +4,13 @@ import { z } from 'zod';
 import Stripe from 'stripe';
 import { createClient } from '@/lib/supabase/server';
 import { ensureUserAndShop } from './users';
+import { requirePermission } from '@/lib/auth/permissions';
 import { revalidatePath } from 'next/cache';
 import { sendInvoiceReceiptEmail } from './emails/invoice-emails';
 import { checkPaymentStatus } from './payment-status';
+import { recordPaymentForReminders } from '@/lib/utils/payment-reminders';
+import { issueStoreCredit } from '@/lib/utils/store-credit';
+import { logPaymentAction } from './payment-audit';
 
 // Initialize Stripe
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -19,6 +23,8 @@ export interface PaymentIntentResult {
 	clientSecret: string;
 	paymentIntentId: string;
 	amountCents: number;
+	// Charged on top of amountCents, not applied to the invoice
+	tipCents: number;
 	currency: string;
 	// Account type for tracking
 	accountType?: string;
@@ -33,6 +39,7 @@ const CreatePaymentIntentSchema = z.object({
 	paymentType: z.enum(['remainder', 'custom']),
 	amountCents: z.number().int().positive().optional(), // Optional, will calculate from invoice if not provided
 	returnUrl: z.string().url().optional(),
+	tipCents: z.number().int().min(0).optional(),
 });
 
 const ConfirmPaymentSchema = z.object({
@@ -80,6 +87,7 @@ export async function createPaymentIntent(
 	try {
 		const { shop } = await ensureUserAndShop();
 		const validated = CreatePaymentIntentSchema.parse(params);
+		const tipCents = validated.tipCents || 0;
 		const supabase = await createClient();
 
 		// Get shop settings to check for Connect account
@@ -145,9 +153,13 @@ export async function createPaymentIntent(
 
 		if (existingPendingPayments.length > 0) {
 			// Check if any pending payments are recent (within last 15 minutes)
+			// and for the same tip, since a changed tip needs a new amount
 			const recentPending = existingPendingPayments.filter((p: any) => {
 				const paymentAge = Date.now() - new Date(p.created_at).getTime();
-				return paymentAge < 15 * 60 * 1000; // 15 minutes
+				return (
+					paymentAge < 15 * 60 * 1000 && // 15 minutes
+					(p.tip_cents || 0) === tipCents
+				);
 			});
 
 			if (recentPending.length > 0) {
@@ -160,12 +172,13 @@ export async function createPaymentIntent(
 							(pendingPayment?.stripe_metadata as any)?.client_secret || '',
 						paymentIntentId: pendingPayment?.stripe_payment_intent_id || '',
 						amountCents: pendingPayment?.amount_cents || 0,
+						tipCents: pendingPayment?.tip_cents || 0,
 						currency: 'usd',
 					},
 				};
 			}
 
-			// If pending payments are old (>15 min), cancel them first
+			// If pending payments are old (>15 min) or for a different tip, cancel them first
 			for (const oldPending of existingPendingPayments) {
 				if (oldPending.stripe_payment_intent_id) {
 					try {
@@ -246,14 +259,17 @@ export async function createPaymentIntent(
 		const USE_DIRECT_CHARGES = true; // Set to true to offload compliance to seamstresses
 
 		// Base PaymentIntent configuration
+		// The tip goes on the card but stays out of the invoice amount
 		const paymentIntentConfig: Stripe.PaymentIntentCreateParams = {
-			amount: amountToCharge,
+			amount: amountToCharge + tipCents,
 			currency: 'usd',
 			metadata: {
 				invoice_id: invoice.id,
 				invoice_number: invoice.invoice_number,
 				shop_id: shop.id,
 				payment_type: validated.paymentType,
+				invoice_amount_cents: String(amountToCharge),
+				tip_cents: String(tipCents),
 				client_name: `${invoice.client.first_name} ${invoice.client.last_name}`,
 				client_email: invoice.client.email,
 				payment_context: 'card_present_merchant_assisted',
@@ -385,6 +401,7 @@ export async function createPaymentIntent(
 			payment_type: validated.paymentType,
 			payment_method: 'stripe',
 			amount_cents: amountToCharge,
+			tip_cents: tipCents,
 			status: 'pending',
 			stripe_payment_intent_id: paymentIntent.id,
 			stripe_metadata: {
@@ -408,6 +425,7 @@ export async function createPaymentIntent(
 				clientSecret: paymentIntent.client_secret!,
 				paymentIntentId: paymentIntent.id,
 				amountCents: amountToCharge,
+				tipCents,
 				currency: paymentIntent.currency,
 				// CRITICAL: Include connected account ID for direct charges
 				// Frontend needs this to initialize Stripe Elements correctly
@@ -518,6 +536,8 @@ export async function handleSuccessfulPayment(
 		});
 	}
 
+	await recordPaymentForReminders(supabase, payment.invoice_id);
+
 	// Update order if fully paid
 	if (newStatus === 'paid' && payment.invoice.order_id) {
 		await supabase
@@ -802,6 +822,7 @@ export async function refundPayment(
 ) {
 	try {
 		const { shop, user } = await ensureUserAndShop();
+		requirePermission({ user, shop }, 'issue_refunds');
 		const supabase = await createClient();
 
 		// Get payment details
@@ -1137,21 +1158,23 @@ export async function refundPayment(
 /**
  * Process a manual refund for cash or external POS payments
  * This creates a refund record and updates payment status without processing through Stripe
+ * Refunds to store credit are added to the client's credit balance instead
  */
 export async function processManualRefund(
 	paymentId: string,
 	amountCents: number,
 	reason: string,
-	refundMethod: 'cash' | 'external_pos' | 'other' = 'cash'
+	refundMethod: 'cash' | 'external_pos' | 'other' | 'store_credit' = 'cash'
 ) {
 	try {
 		const { shop, user } = await ensureUserAndShop();
+		requirePermission({ user, shop }, 'issue_refunds');
 		const supabase = await createClient();
 
 		// Get payment details
 		const { data: payment, error: paymentError } = await supabase
 			.from('payments')
-			.select('*, invoice:invoices!inner(shop_id, invoice_number)')
+			.select('*, invoice:invoices!inner(shop_id, invoice_number, client_id)')
 			.eq('id', paymentId)
 			.eq('invoice.shop_id', shop.id)
 			.single();
@@ -1169,11 +1192,26 @@ export async function processManualRefund(
 			);
 		}
 
-		// Only allow manual refunds for non-Stripe payments
-		if (payment.payment_method === 'stripe') {
+		// Only allow manual refunds for non-Stripe payments, unless the refund
+		// goes to store credit, where no money leaves the shop
+		if (
+			payment.payment_method === 'stripe' &&
+			refundMethod !== 'store_credit'
+		) {
 			throw new Error('Use the Stripe refund process for credit card payments');
 		}
 
+		// Credit and gift card payments were never cash, so they go back as credit
+		if (
+			(payment.payment_method === 'store_credit' ||
+				payment.payment_method === 'gift_card') &&
+			refundMethod !== 'store_credit'
+		) {
+			throw new Error(
+				'Store credit and gift card payments can only be refunded to store credit'
+			);
+		}
+
 		// Validate refund amount
 		if (amountCents <= 0) {
 			throw new Error('Refund amount must be greater than $0');
@@ -1221,6 +1259,19 @@ export async function processManualRefund(
 			);
 		}
 
+		if (refundMethod === 'store_credit') {
+			await issueStoreCredit(supabase, {
+				shopId: shop.id,
+				clientId: payment.invoice.client_id,
+				amountCents,
+				reason: `Refund from invoice ${payment.invoice.invoice_number}`,
+				invoiceId: payment.invoice_id,
+				paymentId: payment.id,
+				refundId: refundRecord.id,
+				createdBy: user.id,
+			});
+		}
+
 		// Update payment record with accumulated refund amount
 		const { error: updateError } = await supabase
 			.from('payments')
@@ -1291,6 +1342,14 @@ export async function processManualRefund(
 			}
 		}
 
+		if (refundMethod === 'store_credit') {
+			await logPaymentAction(payment.id, 'refunded', {
+				refund_id: refundRecord.id,
+				amount_cents: amountCents,
+				refund_method: refundMethod,
+			});
+		}
+
 		revalidatePath('/invoices');
 		revalidatePath(`/invoices/${payment.invoice_id}`);
 
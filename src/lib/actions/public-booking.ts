@@ -0,0 +1,416 @@
+'use server';
+
+import { z } from 'zod';
+import { createClient as createAdminClient } from '@/lib/supabase/admin';
+import { EmailService } from '@/lib/services/email/email-service';
+import { getAvailableTimeSlots, addMinutesToTime } from '@/lib/utils/calendar';
+import { parseDateString } from '@/lib/utils/date-time-utils';
+import {
+	convertLocalToUTC,
+	getCurrentDateTimeInTimezone,
+} from '@/lib/utils/date-time-utc';
+import { getCleanPhoneNumber } from '@/lib/utils/phone';
+import { getShopDisplayName } from '@/lib/utils/shop';
+import type { Tables } from '@/types/supabase';
+
+// How far ahead clients may book from the public page
+const MAX_BOOKING_DAYS_AHEAD = 90;
+
+const DEFAULT_TIMEZONE = 'America/New_York';
+
+// Mirrors the defaults used by getShopHours (Mon-Fri 9-5)
+const DEFAULT_SHOP_HOURS = [0, 1, 2, 3, 4, 5, 6].map((day) => ({
+	day_of_week: day,
+	open_time: day === 0 || day === 6 ? null : '09:00',
+	close_time: day === 0 || day === 6 ? null : '17:00',
+	is_closed: day === 0 || day === 6,
+}));
+
+const bookingSlugSchema = z
+	.string()
+	.min(1)
+	.max(64)
+	.regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Invalid booking link');
+
+const bookingDateSchema = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format');
+
+const publicBookingSchema = z.object({
+	slug: bookingSlugSchema,
+	date: bookingDateSchema,
+	startTime: z.string().regex(/^\d{2}:\d{2}$/, 'Invalid time format'),
+	type: z.enum(['consultation', 'fitting', 'pickup', 'delivery', 'other']),
+	firstName: z.string().trim().min(1, 'First name is required').max(100),
+	lastName: z.string().trim().min(1, 'Last name is required').max(100),
+	email: z.string().trim().toLowerCase().email('Invalid email address'),
+	phone: z.string().trim().min(10, 'Phone number must be at least 10 digits'),
+	notes: z.string().trim().max(1000).optional(),
+	acceptSms: z.boolean().optional(),
+});
+
+export type PublicBookingData = z.input<typeof publicBookingSchema>;
+
+export interface PublicBookingShop {
+	slug: string;
+	name: string;
+	email: string | null;
+	phoneNumber: string | null;
+	mailingAddress: string | null;
+	timezone: string;
+	appointmentDuration: number;
+	maxDaysAhead: number;
+}
+
+type AdminSupabaseClient = ReturnType<typeof createAdminClient>;
+
+interface BookingContext {
+	shop: Tables<'shops'>;
+	timezone: string;
+	shopHours: Array<{
+		day_of_week: number;
+		open_time: string | null;
+		close_time: string | null;
+		is_closed: boolean;
+	}>;
+	duration: number;
+	bufferMinutes: number;
+	allowOverlapping: boolean;
+}
+
+/**
+ * Load the shop behind a booking slug along with the calendar rules that
+ * decide which slots are open. Returns null when online booking is off.
+ */
+async function loadBookingContext(
+	supabase: AdminSupabaseClient,
+	slug: string
+): Promise<BookingContext | null> {
+	const { data: shop, error } = await supabase
+		.from('shops')
+		.select('*')
+		.eq('booking_slug', slug)
+		.eq('online_booking_enabled', true)
+		.single();
+
+	if (error || !shop) {
+		return null;
+	}
+
+	const [{ data: hours }, { data: settings }] = await Promise.all([
+		supabase
+			.from('shop_hours')
+			.select('day_of_week, open_time, close_time, is_closed')
+			.eq('shop_id', shop.id)
+			.order('day_of_week'),
+		supabase
+			.from('calendar_settings')
+			.select(
+				'buffer_time_minutes, default_appointment_duration, allow_overlapping_appointments'
+			)
+			.eq('shop_id', shop.id)
+			.maybeSingle(),
+	]);
+
+	return {
+		shop,
+		timezone: shop.timezone || DEFAULT_TIMEZONE,
+		shopHours:
+			hours && hours.length > 0
+				? hours.map((h) => ({ ...h, is_closed: h.is_closed ?? false }))
+				: DEFAULT_SHOP_HOURS,
+		duration: settings?.default_appointment_duration ?? 30,
+		bufferMinutes: settings?.buffer_time_minutes ?? 0,
+		allowOverlapping: settings?.allow_overlapping_appointments ?? false,
+	};
+}
+
+/**
+ * Whether the date falls inside the bookable window (today through
+ * MAX_BOOKING_DAYS_AHEAD days out, in the shop's timezone)
+ */
+function isWithinBookingWindow(date: string, timezone: string): boolean {
+	const { date: today } = getCurrentDateTimeInTimezone(timezone);
+	const days =
+		(parseDateString(date).getTime() - parseDateString(today).getTime()) /
+		(24 * 60 * 60 * 1000);
+	return days >= 0 && Math.round(days) <= MAX_BOOKING_DAYS_AHEAD;
+}
+
+/**
+ * Compute open start times for a date using the same conflict rules as the
+ * in-app appointment dialog
+ */
+async function computeOpenSlots(
+	supabase: AdminSupabaseClient,
+	context: BookingContext,
+	date: string
+): Promise<string[]> {
+	if (!isWithinBookingWindow(date, context.timezone)) {
+		return [];
+	}
+
+	const { data: appointments, error } = await supabase
+		.from('appointments')
+		.select('start_time, end_time, status')
+		.eq('shop_id', context.shop.id)
+		.eq('date', date);
+
+	if (error) {
+		throw new Error('Failed to check availability');
+	}
+
+	return getAvailableTimeSlots(
+		parseDateString(date),
+		context.shopHours,
+		appointments || [],
+		context.duration,
+		context.bufferMinutes,
+		context.allowOverlapping,
+		context.timezone
+	);
+}
+
+/**
+ * Find the client by email within the shop, creating them if this is their
+ * first booking. Existing client details are never overwritten.
+ *
+ * Only the email is matched: the confirmation goes to it, so the client it
+ * belongs to sees the booking. Anyone can type a phone number, so a phone
+ * match gets a new client, noted as a likely duplicate for the shop to merge.
+ */
+async function findOrCreateBookingClient(
+	supabase: AdminSupabaseClient,
+	shopId: string,
+	data: z.infer<typeof publicBookingSchema>
+): Promise<{ id: string }> {
+	const phone = getCleanPhoneNumber(data.phone);
+
+	const { data: byEmail } = await supabase
+		.from('clients')
+		.select('id')
+		.eq('shop_id', shopId)
+		.ilike('email', data.email.replace(/[\\%_]/g, '\\$&'))
+		.limit(1);
+
+	if (byEmail?.[0]) {
+		return byEmail[0];
+	}
+
+	const { data: byPhone } = await supabase
+		.from('clients')
+		.select('id')
+		.eq('shop_id', shopId)
+		.in('phone_number', Array.from(new Set([phone, data.phone])))
+		.limit(1);
+
+	const { data: created, error } = await supabase
+		.from('clients')
+		.insert({
+			shop_id: shopId,
+			first_name: data.firstName,
+			last_name: data.lastName,
+			email: data.email,
+			phone_number: phone,
+			accept_email: true,
+			accept_sms: data.acceptSms ?? false,
+			notes: byPhone?.[0]
+				? 'Booked online with the phone number of an existing client. Merge them if this is the same person.'
+				: null,
+			mailing_address: null,
+		})
+		.select('id')
+		.single();
+
+	if (error || !created) {
+		console.error('Failed to create client from online booking:', error);
+		throw new Error('Failed to save your details');
+	}
+
+	return created;
+}
+
+/**
+ * Public details for a shop's booking page
+ */
+export async function getPublicBookingShop(slug: string): Promise<{
+	success: boolean;
+	data?: PublicBookingShop;
+	error?: string;
+}> {
+	try {
+		const parsedSlug = bookingSlugSchema.safeParse(slug);
+		if (!parsedSlug.success) {
+			return { success: false, error: 'Booking page not found' };
+		}
+
+		const supabase = createAdminClient();
+		const context = await loadBookingContext(supabase, parsedSlug.data);
+		if (!context) {
+			return { success: false, error: 'Booking page not found' };
+		}
+
+		return {
+			success: true,
+			data: {
+				slug: parsedSlug.data,
+				name: getShopDisplayName(context.shop),
+				email: context.shop.email,
+				phoneNumber: context.shop.phone_number,
+				mailingAddress: context.shop.mailing_address,
+				timezone: context.timezone,
+				appointmentDuration: context.duration,
+				maxDaysAhead: MAX_BOOKING_DAYS_AHEAD,
+			},
+		};
+	} catch (error) {
+		console.error('Failed to load booking page:', error);
+		return { success: false, error: 'Failed to load booking page' };
+	}
+}
+
+/**
+ * Open start times (HH:MM, shop local time) for a date on a shop's booking page
+ */
+export async function getPublicBookingSlots(
+	slug: string,
+	date: string
+): Promise<{ success: boolean; data?: string[]; error?: string }> {
+	try {
+		const parsedSlug = bookingSlugSchema.safeParse(slug);
+		const parsedDate = bookingDateSchema.safeParse(date);
+		if (!parsedSlug.success || !parsedDate.success) {
+			return { success: false, error: 'Invalid booking request' };
+		}
+
+		const supabase = createAdminClient();
+		const context = await loadBookingContext(supabase, parsedSlug.data);
+		if (!context) {
+			return { success: false, error: 'Booking page not found' };
+		}
+
+		const slots = await computeOpenSlots(supabase, context, parsedDate.data);
+		return { success: true, data: slots };
+	} catch (error) {
+		console.error('Failed to load booking slots:', error);
+		return { success: false, error: 'Failed to load available times' };
+	}
+}
+
+/**
+ * Book a pending appointment from the public booking page. The slot is
+ * re-checked server-side and the client receives the usual scheduled email
+ * with confirm/cancel links.
+ */
+export async function createPublicBooking(data: PublicBookingData): Promise<{
+	success: boolean;
+	data?: { appointmentId: string; date: string; startTime: string };
+	error?: string;
+}> {
+	try {
+		const parsed = publicBookingSchema.safeParse(data);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.errors[0]?.message || 'Invalid booking details',
+			};
+		}
+		const validated = parsed.data;
+
+		const supabase = createAdminClient();
+		const context = await loadBookingContext(supabase, validated.slug);
+		if (!context) {
+			return { success: false, error: 'Booking page not found' };
+		}
+
+		const openSlots = await computeOpenSlots(supabase, context, validated.date);
+		if (!openSlots.includes(validated.startTime)) {
+			return {
+				success: false,
+				error: 'This time is no longer available. Please choose another time.',
+			};
+		}
+
+		const client = await findOrCreateBookingClient(
+			supabase,
+			context.shop.id,
+			validated
+		);
+
+		const endTime = addMinutesToTime(validated.startTime, context.duration);
+		const startAt = convertLocalToUTC(
+			validated.date,
+			validated.startTime,
+			context.timezone
+		);
+		const endAt = convertLocalToUTC(validated.date, endTime, context.timezone);
+
+		// The slot was open a moment ago; booking it re-checks under a lock so
+		// two clients can't both take it
+		const { data: appointment, error } = await supabase.rpc(
+			'book_appointment_slot',
+			{
+				p_shop_id: context.shop.id,
+				p_client_id: client.id,
+				p_date: validated.date,
+				p_start_time: validated.startTime,
+				p_end_time: endTime,
+				p_start_at: startAt.toISOString(),
+				p_end_at: endAt.toISOString(),
+				p_type: validated.type,
+				p_status: 'pending',
+				...(validated.notes ? { p_notes: validated.notes } : {}),
+				p_allow_overlap: context.allowOverlapping,
+			}
+		);
+
+		if (error || !appointment) {
+			if (error?.code === 'P0001') {
+				return {
+					success: false,
+					error:
+						'This time is no longer available. Please choose another time.',
+				};
+			}
+			console.error('Failed to create online booking:', error);
+			return { success: false, error: 'Failed to book appointment' };
+		}
+
+		// Flows into the regular confirmation-token email; a failed send
+		// shouldn't undo the booking
+		try {
+			const emailService = new EmailService(
+				supabase,
+				context.shop.owner_user_id
+			);
+			const result = await emailService.sendAppointmentEmail(
+				appointment.id,
+				'appointment_scheduled'
+			);
+			if (!result.success) {
+				console.warn(
+					'Online booking created but scheduled email failed:',
+					result.error
+				);
+			}
+		} catch (e) {
+			console.error('Failed to send online booking email:', e);
+		}
+
+		return {
+			success: true,
+			data: {
+				appointmentId: appointment.id,
+				date: validated.date,
+				startTime: validated.startTime,
+			},
+		};
+	} catch (error) {
+		console.error('Failed to create online booking:', error);
+		return {
+			success: false,
+			error:
+				error instanceof Error ? error.message : 'Failed to book appointment',
+		};
+	}
+}
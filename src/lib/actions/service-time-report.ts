@@ -0,0 +1,141 @@
+'use server';
+
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from './users';
+import { getPermissionError } from '@/lib/auth/permissions';
+import { loadAllRows } from '@/lib/utils/data-export';
+import { convertLocalToUTC } from '@/lib/utils/date-time-utc';
+import { addDaysToDateString } from '@/lib/utils/recurrence';
+import {
+	buildServiceTimeReport,
+	type ServiceTimeReport,
+	type TimedGarmentService,
+} from '@/lib/utils/service-time-report';
+
+const DEFAULT_TIMEZONE = 'America/New_York';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date');
+
+const reportRangeSchema = z
+	.object({
+		// Inclusive, in the shop's timezone
+		from: dateSchema.optional(),
+		to: dateSchema.optional(),
+	})
+	.refine((range) => !range.from || !range.to || range.from <= range.to, {
+		message: 'The start date must be before the end date',
+	});
+
+export type ServiceTimeReportRange = z.infer<typeof reportRangeSchema>;
+
+/**
+ * Logged time against estimates and revenue per service, for time logged in
+ * the date range. A garment service counts with its full line total when any
+ * of its time was logged in the range.
+ */
+export async function getServiceTimeReport(
+	range: ServiceTimeReportRange = {}
+): Promise<{
+	success: boolean;
+	data?: ServiceTimeReport;
+	error?: string;
+}> {
+	try {
+		const parsed = reportRangeSchema.safeParse(range);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.issues[0]?.message || 'Invalid date range',
+			};
+		}
+		const { from, to } = parsed.data;
+
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError(
+			{ user, shop },
+			'manage_service_pricing'
+		);
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+
+		const supabase = await createClient();
+		const timezone = shop.timezone || DEFAULT_TIMEZONE;
+
+		const startAt = from
+			? convertLocalToUTC(from, '00:00', timezone).toISOString()
+			: null;
+		const endAt = to
+			? convertLocalToUTC(
+					addDaysToDateString(to, 1),
+					'00:00',
+					timezone
+				).toISOString()
+			: null;
+
+		const loadPage = (rangeFrom: number, rangeTo: number) => {
+			let query = supabase
+				.from('garment_service_time_entries')
+				.select(
+					'id, minutes, garment_service:garment_services!inner(id, service_id, name, quantity, unit_price_cents, line_total_cents, is_removed, garments!inner(shop_id))'
+				)
+				.eq('garment_service.garments.shop_id', shop.id);
+
+			if (startAt) query = query.gte('logged_at', startAt);
+			if (endAt) query = query.lt('logged_at', endAt);
+
+			return query.order('id').range(rangeFrom, rangeTo);
+		};
+
+		const [entries, { data: services, error: servicesError }] =
+			await Promise.all([
+				loadAllRows(loadPage),
+				supabase
+					.from('services')
+					.select('id, name, estimated_minutes')
+					.eq('shop_id', shop.id),
+			]);
+
+		if (servicesError) throw servicesError;
+
+		const catalog = new Map(
+			(services || []).map((service) => [service.id, service])
+		);
+
+		// Total the entries per garment service
+		const rows = new Map<string, TimedGarmentService>();
+		for (const entry of entries) {
+			const garmentService = entry.garment_service;
+			if (!garmentService || garmentService.is_removed) continue;
+
+			const row = rows.get(garmentService.id);
+			if (row) {
+				row.loggedMinutes += entry.minutes;
+				continue;
+			}
+
+			const catalogService = garmentService.service_id
+				? catalog.get(garmentService.service_id)
+				: undefined;
+			rows.set(garmentService.id, {
+				serviceId: catalogService ? catalogService.id : null,
+				name: catalogService?.name ?? garmentService.name,
+				quantity: garmentService.quantity,
+				lineTotalCents:
+					garmentService.line_total_cents ??
+					garmentService.quantity * garmentService.unit_price_cents,
+				loggedMinutes: entry.minutes,
+				estimatedMinutesPerUnit: catalogService?.estimated_minutes ?? null,
+			});
+		}
+
+		return {
+			success: true,
+			data: buildServiceTimeReport(Array.from(rows.values())),
+		};
+	} catch (error) {
+		console.error('Error building service time report:', error);
+		return { success: false, error: 'Failed to load the time report' };
+	}
+}
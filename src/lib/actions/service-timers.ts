@@ -0,0 +1,367 @@
+'use server';
+
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from './users';
+import { getPermissionError } from '@/lib/auth/permissions';
+import {
+	DEFAULT_MAX_TIMER_MINUTES,
+	calculateTimerResult,
+	isTimerExpired,
+} from '@/lib/utils/service-timers';
+
+const TIMER_SELECT =
+	'id, user_id, service_id, started_at, garment_service:garment_services!inner(id, name, garment_id, garments!inner(id, name))';
+
+const startTimerSchema = z.string().uuid('Invalid service');
+
+const maxTimerMinutesSchema = z
+	.number()
+	.int()
+	.min(1, 'The limit must be at least 1 minute')
+	.max(1440, 'The limit can be at most 24 hours');
+
+export interface ActiveServiceTimer {
+	id: string;
+	serviceId: string;
+	serviceName: string;
+	garmentId: string;
+	garmentName: string;
+	startedAt: string;
+	// The timer is stopped automatically at this length
+	maxMinutes: number;
+}
+
+export interface StoppedServiceTimer {
+	serviceId: string;
+	serviceName: string;
+	garmentId: string;
+	minutes: number;
+	// Stopped at the shop's limit rather than by hand
+	capped: boolean;
+}
+
+type TimerRow = {
+	id: string;
+	user_id: string;
+	service_id: string;
+	started_at: string;
+	garment_service: {
+		id: string;
+		name: string;
+		garment_id: string;
+		garments: { id: string; name: string | null };
+	};
+};
+
+async function loadMaxTimerMinutes(
+	supabase: SupabaseClient<Database>,
+	shopId: string
+): Promise<number> {
+	const { data } = await supabase
+		.from('shop_settings')
+		.select('max_timer_minutes')
+		.eq('shop_id', shopId)
+		.maybeSingle();
+
+	return data?.max_timer_minutes ?? DEFAULT_MAX_TIMER_MINUTES;
+}
+
+async function loadTimer(
+	supabase: SupabaseClient<Database>,
+	userId: string
+): Promise<TimerRow | null> {
+	const { data, error } = await supabase
+		.from('garment_service_timers')
+		.select(TIMER_SELECT)
+		.eq('user_id', userId)
+		.maybeSingle();
+
+	if (error) throw error;
+	return data as TimerRow | null;
+}
+
+function toActiveTimer(
+	timer: TimerRow,
+	maxMinutes: number
+): ActiveServiceTimer {
+	return {
+		id: timer.id,
+		serviceId: timer.service_id,
+		serviceName: timer.garment_service.name,
+		garmentId: timer.garment_service.garment_id,
+		garmentName: timer.garment_service.garments.name || 'Garment',
+		startedAt: timer.started_at,
+		maxMinutes,
+	};
+}
+
+/**
+ * Close a timer and log its time. Returns null when the timer was already
+ * stopped elsewhere (another tab or device got there first).
+ */
+async function finishTimer(
+	supabase: SupabaseClient<Database>,
+	timer: TimerRow,
+	maxMinutes: number
+): Promise<StoppedServiceTimer | null> {
+	// Deleting first claims the timer, so it's only logged once
+	const { data: deleted, error: deleteError } = await supabase
+		.from('garment_service_timers')
+		.delete()
+		.eq('id', timer.id)
+		.select('id');
+
+	if (deleteError) throw deleteError;
+	if (!deleted || deleted.length === 0) return null;
+
+	const result = calculateTimerResult(timer.started_at, new Date(), maxMinutes);
+
+	const { error: insertError } = await supabase
+		.from('garment_service_time_entries')
+		.insert({
+			service_id: timer.service_id,
+			minutes: result.minutes,
+			logged_at: result.endedAt.toISOString(),
+			created_by: timer.user_id,
+		});
+
+	if (insertError) {
+		// Put the timer back so the time isn't lost
+		await supabase.from('garment_service_timers').insert({
+			id: timer.id,
+			user_id: timer.user_id,
+			service_id: timer.service_id,
+			started_at: timer.started_at,
+		});
+		throw insertError;
+	}
+
+	return {
+		serviceId: timer.service_id,
+		serviceName: timer.garment_service.name,
+		garmentId: timer.garment_service.garment_id,
+		minutes: result.minutes,
+		capped: result.capped,
+	};
+}
+
+/**
+ * The current user's running timer. A timer left running past the shop's
+ * limit is stopped at the limit and returned as autoStopped instead.
+ */
+export async function getActiveServiceTimer(): Promise<{
+	success: boolean;
+	data?: ActiveServiceTimer | null;
+	autoStopped?: StoppedServiceTimer;
+	error?: string;
+}> {
+	try {
+		const { user, shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const [timer, maxMinutes] = await Promise.all([
+			loadTimer(supabase, user.id),
+			loadMaxTimerMinutes(supabase, shop.id),
+		]);
+
+		if (!timer) {
+			return { success: true, data: null };
+		}
+
+		if (isTimerExpired(timer.started_at, new Date(), maxMinutes)) {
+			const stopped = await finishTimer(supabase, timer, maxMinutes);
+			return {
+				success: true,
+				data: null,
+				...(stopped && { autoStopped: stopped }),
+			};
+		}
+
+		return { success: true, data: toActiveTimer(timer, maxMinutes) };
+	} catch (error) {
+		console.error('Failed to load the running timer:', error);
+		return { success: false, error: 'Failed to load the running timer' };
+	}
+}
+
+/**
+ * Start a timer on a garment service. Each user can have one timer running.
+ */
+export async function startServiceTimer(serviceId: string): Promise<{
+	success: boolean;
+	data?: ActiveServiceTimer;
+	autoStopped?: StoppedServiceTimer;
+	error?: string;
+}> {
+	try {
+		const parsed = startTimerSchema.safeParse(serviceId);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.issues[0]?.message || 'Invalid service',
+			};
+		}
+
+		const { user, shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: service, error: serviceError } = await supabase
+			.from('garment_services')
+			.select('id, name, is_removed, garments!inner(id, shop_id, stage)')
+			.eq('id', parsed.data)
+			.eq('garments.shop_id', shop.id)
+			.maybeSingle();
+
+		if (serviceError) throw serviceError;
+		if (!service || service.is_removed) {
+			return { success: false, error: 'Service not found' };
+		}
+		if (service.garments.stage === 'Done') {
+			return {
+				success: false,
+				error: 'Cannot track time for completed garments',
+			};
+		}
+
+		const [existing, maxMinutes] = await Promise.all([
+			loadTimer(supabase, user.id),
+			loadMaxTimerMinutes(supabase, shop.id),
+		]);
+
+		let autoStopped: StoppedServiceTimer | null = null;
+		if (existing) {
+			if (!isTimerExpired(existing.started_at, new Date(), maxMinutes)) {
+				return {
+					success: false,
+					error: `A timer is already running on ${existing.garment_service.name}. Stop it before starting another.`,
+				};
+			}
+			autoStopped = await finishTimer(supabase, existing, maxMinutes);
+		}
+
+		const { error: insertError } = await supabase
+			.from('garment_service_timers')
+			.insert({ user_id: user.id, service_id: service.id });
+
+		if (insertError) {
+			// Started on another device at the same time
+			if (insertError.code === '23505') {
+				return {
+					success: false,
+					error: 'A timer is already running. Stop it before starting another.',
+				};
+			}
+			throw insertError;
+		}
+
+		const timer = await loadTimer(supabase, user.id);
+		if (!timer) throw new Error('Timer was not saved');
+
+		return {
+			success: true,
+			data: toActiveTimer(timer, maxMinutes),
+			...(autoStopped && { autoStopped }),
+		};
+	} catch (error) {
+		console.error('Failed to start timer:', error);
+		return { success: false, error: 'Failed to start timer' };
+	}
+}
+
+/**
+ * Stop the current user's timer and log the time on its garment service
+ */
+export async function stopServiceTimer(): Promise<{
+	success: boolean;
+	data?: StoppedServiceTimer;
+	error?: string;
+}> {
+	try {
+		const { user, shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const [timer, maxMinutes] = await Promise.all([
+			loadTimer(supabase, user.id),
+			loadMaxTimerMinutes(supabase, shop.id),
+		]);
+
+		const stopped = timer
+			? await finishTimer(supabase, timer, maxMinutes)
+			: null;
+		if (!stopped) {
+			return { success: false, error: 'No timer is running' };
+		}
+
+		return { success: true, data: stopped };
+	} catch (error) {
+		console.error('Failed to stop timer:', error);
+		return { success: false, error: 'Failed to stop timer' };
+	}
+}
+
+export async function getMaxTimerMinutes(): Promise<{
+	success: boolean;
+	data?: number;
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		return {
+			success: true,
+			data: await loadMaxTimerMinutes(supabase, shop.id),
+		};
+	} catch (error) {
+		console.error('Failed to load timer settings:', error);
+		return { success: false, error: 'Failed to load timer settings' };
+	}
+}
+
+/**
+ * Set how long a timer can run before it's stopped automatically
+ */
+export async function updateMaxTimerMinutes(
+	minutes: number
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const parsed = maxTimerMinutesSchema.safeParse(minutes);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.issues[0]?.message || 'Invalid timer limit',
+			};
+		}
+
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError(
+			{ user, shop },
+			'manage_settings'
+		);
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		const supabase = await createClient();
+
+		const { error } = await supabase.from('shop_settings').upsert(
+			{
+				shop_id: shop.id,
+				max_timer_minutes: parsed.data,
+				updated_at: new Date().toISOString(),
+			},
+			{ onConflict: 'shop_id' }
+		);
+
+		if (error) throw error;
+
+		revalidatePath('/settings');
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to update timer settings:', error);
+		return { success: false, error: 'Failed to update timer settings' };
+	}
+}
@@ -2,6 +2,7 @@
 
 import { createClient as createSupabaseClient } from '@/lib/supabase/server';
 import { ensureUserAndShop } from './users';
+import { getPermissionError } from '@/lib/auth/permissions';
 import { revalidatePath } from 'next/cache';
 
 // Result types for better type safety
@@ -46,9 +47,17 @@ export async function addService(service: {
   default_unit_price_cents: number;
   frequently_used?: boolean;
   frequently_used_position?: number | null;
+  estimated_minutes?: number | null;
 }): Promise<ServiceActionResult> {
   try {
-    const { shop } = await ensureUserAndShop();
+    const { user, shop } = await ensureUserAndShop();
+    const permissionError = getPermissionError(
+      { user, shop },
+      'manage_service_pricing'
+    );
+    if (permissionError) {
+      return { success: false, error: permissionError };
+    }
     const supabase = await createSupabaseClient();
 
     const { data, error } = await supabase
@@ -62,6 +71,7 @@ export async function addService(service: {
         default_unit_price_cents: service.default_unit_price_cents,
         frequently_used: service.frequently_used || false,
         frequently_used_position: service.frequently_used_position || null,
+        estimated_minutes: service.estimated_minutes || null,
       })
       .select()
       .single();
@@ -101,10 +111,18 @@ export async function editService(
     default_unit_price_cents: number;
     frequently_used?: boolean;
     frequently_used_position?: number | null;
+    estimated_minutes?: number | null;
   }
 ): Promise<ServiceActionResult> {
   try {
-    const { shop } = await ensureUserAndShop();
+    const { user, shop } = await ensureUserAndShop();
+    const permissionError = getPermissionError(
+      { user, shop },
+      'manage_service_pricing'
+    );
+    if (permissionError) {
+      return { success: false, error: permissionError };
+    }
     const supabase = await createSupabaseClient();
 
     const { data, error } = await supabase
@@ -118,6 +136,9 @@ export async function editService(
         frequently_used: updatedService.frequently_used || false,
         frequently_used_position:
           updatedService.frequently_used_position || null,
+        ...(updatedService.estimated_minutes !== undefined && {
+          estimated_minutes: updatedService.estimated_minutes || null,
+        }),
         updated_at: new Date().toISOString(),
       })
       .eq('id', id)
@@ -152,7 +173,14 @@ export async function editService(
 
 export async function deleteService(id: string): Promise<ServiceActionResult> {
   try {
-    const { shop } = await ensureUserAndShop();
+    const { user, shop } = await ensureUserAndShop();
+    const permissionError = getPermissionError(
+      { user, shop },
+      'manage_service_pricing'
+    );
+    if (permissionError) {
+      return { success: false, error: permissionError };
+    }
     const supabase = await createSupabaseClient();
 
     const { error } = await supabase
@@ -234,7 +262,14 @@ export async function duplicateService(
   id: string
 ): Promise<ServiceActionResult> {
   try {
-    const { shop } = await ensureUserAndShop();
+    const { user, shop } = await ensureUserAndShop();
+    const permissionError = getPermissionError(
+      { user, shop },
+      'manage_service_pricing'
+    );
+    if (permissionError) {
+      return { success: false, error: permissionError };
+    }
     const supabase = await createSupabaseClient();
 
     // Fetch the service by ID
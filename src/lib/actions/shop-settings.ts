@@ -2,9 +2,15 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { ensureUserAndShop } from './users';
+import {
+	NO_DEPOSIT_POLICY,
+	type DepositPolicy,
+} from '@/lib/utils/deposit-calculations';
+import { loadShopDepositPolicy } from '@/lib/utils/deposits';
 
 /**
- * Get shop tax percent (for use in client components)
+ * Get shop tax percent (for use in client components). Tax is charged on the
+ * amount after discount; use calculateOrderTotals to apply it.
  */
 export async function getShopTaxPercent(): Promise<number> {
 	try {
@@ -20,3 +26,17 @@ export async function getShopTaxPercent(): Promise<number> {
 		return 0;
 	}
 }
+
+/**
+ * Get the shop deposit policy (for use in client components)
+ */
+export async function getShopDepositPolicy(): Promise<DepositPolicy> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+		return await loadShopDepositPolicy(supabase, shop.id);
+	} catch (error) {
+		console.error('Error fetching shop deposit policy:', error);
+		return NO_DEPOSIT_POLICY;
+	}
+}
@@ -5,6 +5,7 @@ import { createClient as createSupabaseClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
 import { z } from 'zod';
 import type { Tables } from '@/types/supabase';
+import { getPermissionError } from '@/lib/auth/permissions';
 // Intentionally avoid static import so tests can mock this module reliably
 // via Jest. We'll resolve it dynamically within functions.
 
@@ -84,7 +85,14 @@ export async function updateShopBusinessInfo(
 		const validatedData = UpdateBusinessInfoSchema.parse(input);
 
 		const { ensureUserAndShop } = await import('@/lib/actions/users');
-		const { shop } = await ensureUserAndShop();
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError(
+			{ user, shop },
+			'manage_settings'
+		);
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
 		const supabase = await createSupabaseClient();
 
 		// Filter out undefined values for exactOptionalPropertyTypes compliance
@@ -146,3 +154,201 @@ export async function getCurrentUserShop(): Promise<Tables<'shops'> | null> {
 		return null;
 	}
 }
+
+// Validation schema for online booking settings
+const UpdateOnlineBookingSchema = z.object({
+	online_booking_enabled: z.boolean(),
+	booking_slug: z
+		.string()
+		.trim()
+		.toLowerCase()
+		.min(3, 'Booking link must be at least 3 characters')
+		.max(64, 'Booking link must be 64 characters or less')
+		.regex(
+			/^[a-z0-9]+(-[a-z0-9]+)*$/,
+			'Use lowercase letters, numbers and single hyphens only'
+		),
+});
+
+/**
+ * Get the shop's online booking settings, suggesting a slug from the shop
+ * name when none has been saved yet
+ */
+export async function getOnlineBookingSettings(): Promise<{
+	success: boolean;
+	data?: { online_booking_enabled: boolean; booking_slug: string };
+	error?: string;
+}> {
+	try {
+		const { ensureUserAndShop } = await import('@/lib/actions/users');
+		const { shop } = await ensureUserAndShop();
+
+		const suggestedSlug = (shop.business_name || shop.name)
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, '-')
+			.replace(/^-+|-+$/g, '')
+			.slice(0, 64);
+
+		return {
+			success: true,
+			data: {
+				online_booking_enabled: shop.online_booking_enabled ?? false,
+				booking_slug: shop.booking_slug || suggestedSlug,
+			},
+		};
+	} catch (error) {
+		console.error('Failed to get online booking settings:', error);
+		return {
+			success: false,
+			error: 'Failed to load online booking settings',
+		};
+	}
+}
+
+/**
+ * Turn the public booking page on or off and set its link
+ */
+export async function updateOnlineBookingSettings(
+	input: z.input<typeof UpdateOnlineBookingSchema>
+): Promise<{
+	success: boolean;
+	error?: string;
+}> {
+	try {
+		const validatedData = UpdateOnlineBookingSchema.parse(input);
+
+		const { ensureUserAndShop } = await import('@/lib/actions/users');
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError(
+			{ user, shop },
+			'manage_settings'
+		);
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		const supabase = await createSupabaseClient();
+
+		const { error } = await supabase
+			.from('shops')
+			.update({
+				...validatedData,
+				updated_at: new Date().toISOString(),
+			})
+			.eq('id', shop.id);
+
+		if (error) {
+			if (error.code === '23505') {
+				return {
+					success: false,
+					error: 'This booking link is already taken',
+				};
+			}
+			console.error('Failed to update online booking settings:', error);
+			throw new Error(error.message);
+		}
+
+		try {
+			revalidatePath('/settings');
+		} catch (e) {
+			// no-op in test environments where revalidatePath may not be available
+		}
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to update online booking settings:', error);
+
+		if (error instanceof z.ZodError) {
+			return {
+				success: false,
+				error: error.errors[0]?.message || 'Invalid input',
+			};
+		}
+
+		return {
+			success: false,
+			error: 'Failed to update online booking settings',
+		};
+	}
+}
+
+function generateCalendarFeedToken(): string {
+	const bytes = new Uint8Array(32);
+	crypto.getRandomValues(bytes);
+	return Array.from(bytes)
+		.map((b) => b.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+function buildCalendarFeedUrl(token: string): string {
+	const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+	return `${baseUrl}/api/calendar/feed/${token}.ics`;
+}
+
+async function saveCalendarFeedToken(shopId: string): Promise<string> {
+	const supabase = await createSupabaseClient();
+	const token = generateCalendarFeedToken();
+
+	const { error } = await supabase
+		.from('shops')
+		.update({
+			calendar_feed_token: token,
+			updated_at: new Date().toISOString(),
+		})
+		.eq('id', shopId);
+
+	if (error) throw new Error(error.message);
+
+	return token;
+}
+
+/**
+ * Get the shop's private calendar subscription URL, creating the secret
+ * token on first use
+ */
+export async function getCalendarFeedUrl(): Promise<{
+	success: boolean;
+	url?: string;
+	error?: string;
+}> {
+	try {
+		const { ensureUserAndShop } = await import('@/lib/actions/users');
+		const { shop } = await ensureUserAndShop();
+
+		const token =
+			shop.calendar_feed_token || (await saveCalendarFeedToken(shop.id));
+
+		return { success: true, url: buildCalendarFeedUrl(token) };
+	} catch (error) {
+		console.error('Failed to get calendar feed URL:', error);
+		return { success: false, error: 'Failed to load calendar feed link' };
+	}
+}
+
+/**
+ * Replace the calendar feed token; calendars subscribed with the old URL stop
+ * receiving updates
+ */
+export async function regenerateCalendarFeedToken(): Promise<{
+	success: boolean;
+	url?: string;
+	error?: string;
+}> {
+	try {
+		const { ensureUserAndShop } = await import('@/lib/actions/users');
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError(
+			{ user, shop },
+			'manage_settings'
+		);
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+
+		const token = await saveCalendarFeedToken(shop.id);
+
+		return { success: true, url: buildCalendarFeedUrl(token) };
+	} catch (error) {
+		console.error('Failed to regenerate calendar feed token:', error);
+		return { success: false, error: 'Failed to reset calendar feed link' };
+	}
+}
@@ -0,0 +1,473 @@
+'use server';
+
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from './users';
+import {
+	getPermissionError,
+	getStaffRole,
+	STAFF_ROLE_LABELS,
+	type InvitableStaffRole,
+	type StaffRole,
+} from '@/lib/auth/permissions';
+import { getResendClient } from '@/lib/services/email/resend-client';
+import { emailConfig } from '@/lib/config/email.config';
+import { getShopDisplayName } from '@/lib/utils/shop';
+
+const invitableRoleSchema = z.enum(['seamstress', 'front_desk']);
+
+const inviteStaffSchema = z.object({
+	email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+	role: invitableRoleSchema,
+});
+
+export type InviteStaffData = z.input<typeof inviteStaffSchema>;
+
+export interface StaffMember {
+	id: string;
+	// Full name, or email when the name isn't set
+	name: string;
+	firstName: string | null;
+	lastName: string | null;
+	email: string | null;
+	role: StaffRole;
+	isOwner: boolean;
+}
+
+export interface StaffInvitation {
+	id: string;
+	email: string;
+	role: InvitableStaffRole;
+	expiresAt: string;
+	createdAt: string;
+}
+
+/**
+ * Everyone who works in the shop, owner first
+ */
+export async function getStaffMembers(): Promise<{
+	success: boolean;
+	data?: StaffMember[];
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: users, error } = await supabase
+			.from('users')
+			.select('id, first_name, last_name, email, role')
+			.eq('shop_id', shop.id)
+			.order('first_name', { ascending: true });
+
+		if (error) throw error;
+
+		const members = (users || []).map((user) => {
+			const role = getStaffRole(user, shop);
+			return {
+				id: user.id,
+				name:
+					[user.first_name, user.last_name].filter(Boolean).join(' ') ||
+					user.email ||
+					'Staff member',
+				firstName: user.first_name,
+				lastName: user.last_name,
+				email: user.email,
+				role,
+				isOwner: role === 'owner',
+			};
+		});
+
+		return {
+			success: true,
+			data: [
+				...members.filter((member) => member.isOwner),
+				...members.filter((member) => !member.isOwner),
+			],
+		};
+	} catch (error) {
+		console.error('Error fetching staff members:', error);
+		return { success: false, error: 'Failed to load staff' };
+	}
+}
+
+/**
+ * Invitations that haven't been accepted, revoked or expired
+ */
+export async function getStaffInvitations(): Promise<{
+	success: boolean;
+	data?: StaffInvitation[];
+	error?: string;
+}> {
+	try {
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError({ user, shop }, 'manage_staff');
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+
+		const supabase = await createClient();
+		const { data, error } = await supabase
+			.from('staff_invitations')
+			.select('id, email, role, expires_at, created_at')
+			.eq('shop_id', shop.id)
+			.is('accepted_at', null)
+			.is('revoked_at', null)
+			.gt('expires_at', new Date().toISOString())
+			.order('created_at', { ascending: false });
+
+		if (error) throw error;
+
+		return {
+			success: true,
+			data: (data || []).map((invitation) => ({
+				id: invitation.id,
+				email: invitation.email,
+				role: invitation.role as InvitableStaffRole,
+				expiresAt: invitation.expires_at,
+				createdAt: invitation.created_at,
+			})),
+		};
+	} catch (error) {
+		console.error('Error fetching staff invitations:', error);
+		return { success: false, error: 'Failed to load invitations' };
+	}
+}
+
+/**
+ * Invite someone to join the shop. They join when they sign up (or next sign
+ * in, if they have an account without a shop) with the invited email.
+ */
+export async function inviteStaffMember(input: InviteStaffData): Promise<{
+	success: boolean;
+	data?: StaffInvitation;
+	error?: string;
+}> {
+	try {
+		const parsed = inviteStaffSchema.safeParse(input);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.issues[0]?.message || 'Invalid invitation',
+			};
+		}
+		const { email, role } = parsed.data;
+
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError({ user, shop }, 'manage_staff');
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+
+		const supabase = await createClient();
+
+		// People who already work in a shop (including their own) can't join
+		// another one
+		const { data: existingUser } = await supabase
+			.from('users')
+			.select('id, shop_id')
+			.ilike('email', email.replace(/[\\%_]/g, '\\$&'))
+			.not('shop_id', 'is', null)
+			.limit(1)
+			.maybeSingle();
+
+		if (existingUser) {
+			return {
+				success: false,
+				error:
+					existingUser.shop_id === shop.id
+						? 'This person is already on your staff'
+						: 'This person already belongs to another shop',
+			};
+		}
+
+		const { data: invitation, error } = await supabase
+			.from('staff_invitations')
+			.insert({
+				shop_id: shop.id,
+				email,
+				role,
+				invited_by_user_id: user.id,
+			})
+			.select('id, email, role, expires_at, created_at')
+			.single();
+
+		if (error) {
+			if (error.code === '23505') {
+				return {
+					success: false,
+					error: 'An invitation was already sent to this email',
+				};
+			}
+			throw error;
+		}
+
+		const shopName = getShopDisplayName(shop);
+		const emailResult = await getResendClient().send({
+			to: email,
+			from: `${shopName} <${emailConfig.sender.address}>`,
+			...(shop.email && { replyTo: shop.email }),
+			subject: `You're invited to join ${shopName} on Hemsy`,
+			text: [
+				`${shopName} has invited you to join their shop on Hemsy as ${STAFF_ROLE_LABELS[role]}.`,
+				'',
+				`Create your account with this email address (${email}) to accept:`,
+				`${emailConfig.urls.app}/sign-up`,
+				'',
+				'This invitation expires in 14 days.',
+			].join('\n'),
+		});
+
+		if (!emailResult.success) {
+			// The invitation still works when they sign up; the owner can tell them
+			console.error('Failed to send staff invitation email:', emailResult);
+		}
+
+		revalidatePath('/settings');
+
+		return {
+			success: true,
+			data: {
+				id: invitation.id,
+				email: invitation.email,
+				role: invitation.role as InvitableStaffRole,
+				expiresAt: invitation.expires_at,
+				createdAt: invitation.created_at,
+			},
+		};
+	} catch (error) {
+		console.error('Error inviting staff member:', error);
+		return { success: false, error: 'Failed to send invitation' };
+	}
+}
+
+export async function revokeStaffInvitation(invitationId: string): Promise<{
+	success: boolean;
+	error?: string;
+}> {
+	try {
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError({ user, shop }, 'manage_staff');
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+
+		const supabase = await createClient();
+		const { error } = await supabase
+			.from('staff_invitations')
+			.update({ revoked_at: new Date().toISOString() })
+			.eq('id', invitationId)
+			.eq('shop_id', shop.id)
+			.is('accepted_at', null);
+
+		if (error) throw error;
+
+		revalidatePath('/settings');
+		return { success: true };
+	} catch (error) {
+		console.error('Error revoking staff invitation:', error);
+		return { success: false, error: 'Failed to revoke invitation' };
+	}
+}
+
+export async function updateStaffRole(
+	userId: string,
+	role: InvitableStaffRole
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const parsedRole = invitableRoleSchema.safeParse(role);
+		if (!parsedRole.success) {
+			return { success: false, error: 'Invalid role' };
+		}
+
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError({ user, shop }, 'manage_staff');
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		if (userId === shop.owner_user_id) {
+			return { success: false, error: "The owner's role can't be changed" };
+		}
+
+		const supabase = await createClient();
+		const { data, error } = await supabase
+			.from('users')
+			.update({ role: parsedRole.data })
+			.eq('id', userId)
+			.eq('shop_id', shop.id)
+			.select('id');
+
+		if (error) throw error;
+		if (!data || data.length === 0) {
+			return { success: false, error: 'Staff member not found' };
+		}
+
+		revalidatePath('/settings');
+		return { success: true };
+	} catch (error) {
+		console.error('Error updating staff role:', error);
+		return { success: false, error: 'Failed to update role' };
+	}
+}
+
+/**
+ * Remove someone from the shop. Work assigned to them becomes unassigned.
+ */
+export async function removeStaffMember(
+	userId: string
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError({ user, shop }, 'manage_staff');
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		if (userId === shop.owner_user_id) {
+			return { success: false, error: "The owner can't be removed" };
+		}
+
+		const supabase = await createClient();
+		const { data, error } = await supabase
+			.from('users')
+			.update({ shop_id: null, role: 'user' })
+			.eq('id', userId)
+			.eq('shop_id', shop.id)
+			.select('id');
+
+		if (error) throw error;
+		if (!data || data.length === 0) {
+			return { success: false, error: 'Staff member not found' };
+		}
+
+		await Promise.all(
+			(['garments', 'garment_services', 'appointments'] as const).map((table) =>
+				supabase
+					.from(table)
+					.update({ assigned_to: null })
+					.eq('assigned_to', userId)
+			)
+		);
+
+		revalidatePath('/settings');
+		revalidatePath('/garments');
+		revalidatePath('/appointments');
+		return { success: true };
+	} catch (error) {
+		console.error('Error removing staff member:', error);
+		return { success: false, error: 'Failed to remove staff member' };
+	}
+}
+
+/**
+ * True when userId works in the shop. Assignments are only allowed to members.
+ */
+async function isShopMember(
+	supabase: Awaited<ReturnType<typeof createClient>>,
+	shopId: string,
+	userId: string
+): Promise<boolean> {
+	const { data } = await supabase
+		.from('users')
+		.select('id')
+		.eq('id', userId)
+		.eq('shop_id', shopId)
+		.maybeSingle();
+	return !!data;
+}
+
+const assignmentSchema = z.object({
+	id: z.string().uuid(),
+	assignedTo: z.string().uuid().nullable(),
+});
+
+export async function assignGarment(
+	garmentId: string,
+	assignedTo: string | null
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const parsed = assignmentSchema.safeParse({ id: garmentId, assignedTo });
+		if (!parsed.success) {
+			return { success: false, error: 'Invalid assignment' };
+		}
+
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		if (
+			parsed.data.assignedTo &&
+			!(await isShopMember(supabase, shop.id, parsed.data.assignedTo))
+		) {
+			return { success: false, error: 'Staff member not found' };
+		}
+
+		const { data, error } = await supabase
+			.from('garments')
+			.update({ assigned_to: parsed.data.assignedTo })
+			.eq('id', parsed.data.id)
+			.eq('shop_id', shop.id)
+			.select('id');
+
+		if (error) throw error;
+		if (!data || data.length === 0) {
+			return { success: false, error: 'Garment not found' };
+		}
+
+		revalidatePath('/garments');
+		revalidatePath(`/garments/${parsed.data.id}`);
+		return { success: true };
+	} catch (error) {
+		console.error('Error assigning garment:', error);
+		return { success: false, error: 'Failed to assign garment' };
+	}
+}
+
+export async function assignGarmentService(
+	garmentServiceId: string,
+	assignedTo: string | null
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const parsed = assignmentSchema.safeParse({
+			id: garmentServiceId,
+			assignedTo,
+		});
+		if (!parsed.success) {
+			return { success: false, error: 'Invalid assignment' };
+		}
+
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		if (
+			parsed.data.assignedTo &&
+			!(await isShopMember(supabase, shop.id, parsed.data.assignedTo))
+		) {
+			return { success: false, error: 'Staff member not found' };
+		}
+
+		// garment_services has no shop_id; verify through the garment
+		const { data: service } = await supabase
+			.from('garment_services')
+			.select('id, garment_id, garments!inner(shop_id)')
+			.eq('id', parsed.data.id)
+			.eq('garments.shop_id', shop.id)
+			.maybeSingle();
+
+		if (!service) {
+			return { success: false, error: 'Service not found' };
+		}
+
+		const { error } = await supabase
+			.from('garment_services')
+			.update({ assigned_to: parsed.data.assignedTo })
+			.eq('id', parsed.data.id);
+
+		if (error) throw error;
+
+		revalidatePath(`/garments/${service.garment_id}`);
+		return { success: true };
+	} catch (error) {
+		console.error('Error assigning garment service:', error);
+		return { success: false, error: 'Failed to assign service' };
+	}
+}
@@ -0,0 +1,549 @@
+'use server';
+
+import { z } from 'zod';
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { ensureUserAndShop } from './users';
+import { getPermissionError } from '@/lib/auth/permissions';
+import { logPaymentAction } from './payment-audit';
+import { recordPaymentForReminders } from '@/lib/utils/payment-reminders';
+import {
+	calculateCreditBalance,
+	generateGiftCardCode,
+	issueStoreCredit,
+	normalizeGiftCardCode,
+	type StoreCreditEntry,
+} from '@/lib/utils/store-credit';
+
+const STORE_CREDIT_ENTRY_FIELDS =
+	'id, entry_type, amount_cents, remaining_cents, expires_at, reason, invoice_id, created_at';
+
+const issueClientCreditSchema = z.object({
+	clientId: z.string().uuid(),
+	amountCents: z
+		.number()
+		.int()
+		.positive('Amount must be greater than $0')
+		.max(10000000, 'Amount is too large'),
+	reason: z.string().trim().min(1, 'Reason is required').max(500),
+	expiresAt: z.string().datetime().nullable().optional(),
+});
+
+const createGiftCardSchema = z.object({
+	amountCents: z
+		.number()
+		.int()
+		.positive('Amount must be greater than $0')
+		.max(10000000, 'Amount is too large'),
+	code: z
+		.string()
+		.trim()
+		.max(40, 'Code must be 40 characters or fewer')
+		.regex(/^[A-Za-z0-9-\s]*$/, 'Use only letters, numbers and dashes')
+		.optional(),
+	clientId: z.string().uuid().nullable().optional(),
+	expiresAt: z.string().datetime().nullable().optional(),
+	notes: z.string().trim().max(500).optional(),
+});
+
+const payWithStoreCreditSchema = z
+	.object({
+		invoiceId: z.string().uuid(),
+		paymentType: z.enum(['deposit', 'remainder', 'custom']),
+		amountCents: z.number().int().positive('Amount must be greater than $0'),
+		giftCardCode: z.string().trim().optional(),
+		notes: z.string().trim().max(500).optional(),
+	})
+	.refine((data) => data.giftCardCode === undefined || data.giftCardCode, {
+		message: 'Enter the gift card code',
+	});
+
+export type IssueClientCreditData = z.input<typeof issueClientCreditSchema>;
+export type CreateGiftCardData = z.input<typeof createGiftCardSchema>;
+export type PayWithStoreCreditData = z.input<typeof payWithStoreCreditSchema>;
+
+export interface ClientStoreCredit {
+	balanceCents: number;
+	entries: StoreCreditEntry[];
+}
+
+export interface GiftCardSummary {
+	id: string;
+	code: string;
+	initialAmountCents: number;
+	balanceCents: number;
+	expiresAt: string | null;
+	notes: string | null;
+	clientName: string | null;
+	createdAt: string;
+}
+
+/**
+ * A client's available credit and their ledger, newest first. Writes off
+ * expired credit first so the ledger shows it.
+ */
+export async function getClientStoreCredit(clientId: string): Promise<{
+	success: boolean;
+	data?: ClientStoreCredit;
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { error: expireError } = await supabase.rpc('expire_store_credit', {
+			p_shop_id: shop.id,
+		});
+		if (expireError) {
+			// Balances still leave out expired credit, so carry on
+			console.error('Failed to expire store credit:', expireError);
+		}
+
+		const { data, error } = await supabase
+			.from('store_credit_entries')
+			.select(STORE_CREDIT_ENTRY_FIELDS)
+			.eq('shop_id', shop.id)
+			.eq('client_id', clientId)
+			.order('created_at', { ascending: false });
+
+		if (error) throw error;
+
+		return {
+			success: true,
+			data: {
+				balanceCents: calculateCreditBalance(data || []),
+				entries: data || [],
+			},
+		};
+	} catch (error) {
+		console.error('Failed to load store credit:', error);
+		return { success: false, error: 'Failed to load store credit' };
+	}
+}
+
+/**
+ * Available credit for the client an invoice belongs to
+ */
+export async function getInvoiceStoreCredit(invoiceId: string): Promise<{
+	success: boolean;
+	data?: number;
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: invoice, error: invoiceError } = await supabase
+			.from('invoices')
+			.select('client_id')
+			.eq('id', invoiceId)
+			.eq('shop_id', shop.id)
+			.single();
+
+		if (invoiceError) throw invoiceError;
+
+		const result = await getClientStoreCredit(invoice.client_id);
+		if (!result.success || !result.data) {
+			return { success: false, error: result.error || 'Failed' };
+		}
+
+		return { success: true, data: result.data.balanceCents };
+	} catch (error) {
+		console.error('Failed to load store credit:', error);
+		return { success: false, error: 'Failed to load store credit' };
+	}
+}
+
+/**
+ * Add credit to a client's balance by hand, e.g. as a goodwill gesture
+ */
+export async function issueClientCredit(
+	data: IssueClientCreditData
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const parsed = issueClientCreditSchema.safeParse(data);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.errors[0]?.message || 'Invalid store credit',
+			};
+		}
+		const validated = parsed.data;
+
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError({ user, shop }, 'issue_refunds');
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		const supabase = await createClient();
+
+		const { data: client, error: clientError } = await supabase
+			.from('clients')
+			.select('id')
+			.eq('id', validated.clientId)
+			.eq('shop_id', shop.id)
+			.maybeSingle();
+
+		if (clientError) throw clientError;
+		if (!client) {
+			return { success: false, error: 'Client not found' };
+		}
+
+		await issueStoreCredit(supabase, {
+			shopId: shop.id,
+			clientId: validated.clientId,
+			amountCents: validated.amountCents,
+			reason: validated.reason,
+			expiresAt: validated.expiresAt,
+			createdBy: user.id,
+		});
+
+		revalidatePath(`/clients/${validated.clientId}`);
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to add store credit:', error);
+		return { success: false, error: 'Failed to add store credit' };
+	}
+}
+
+/**
+ * The shop's gift cards with what's left on each, newest first
+ */
+export async function getGiftCards(): Promise<{
+	success: boolean;
+	data?: GiftCardSummary[];
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data, error } = await supabase
+			.from('gift_cards')
+			.select(
+				'*, client:clients(first_name, last_name), entries:store_credit_entries(entry_type, remaining_cents, expires_at)'
+			)
+			.eq('shop_id', shop.id)
+			.order('created_at', { ascending: false });
+
+		if (error) throw error;
+
+		return {
+			success: true,
+			data: (data || []).map((card) => ({
+				id: card.id,
+				code: card.code,
+				initialAmountCents: card.initial_amount_cents,
+				balanceCents: calculateCreditBalance(card.entries || []),
+				expiresAt: card.expires_at,
+				notes: card.notes,
+				clientName: card.client
+					? `${card.client.first_name} ${card.client.last_name}`
+					: null,
+				createdAt: card.created_at,
+			})),
+		};
+	} catch (error) {
+		console.error('Failed to load gift cards:', error);
+		return { success: false, error: 'Failed to load gift cards' };
+	}
+}
+
+/**
+ * Create a gift card loaded with its initial amount. A code is generated
+ * unless one is given, e.g. to match a printed card.
+ */
+export async function createGiftCard(data: CreateGiftCardData): Promise<{
+	success: boolean;
+	data?: { id: string; code: string };
+	error?: string;
+}> {
+	try {
+		const parsed = createGiftCardSchema.safeParse(data);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.errors[0]?.message || 'Invalid gift card',
+			};
+		}
+		const validated = parsed.data;
+
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError({ user, shop }, 'issue_refunds');
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		const supabase = await createClient();
+
+		const code = validated.code
+			? normalizeGiftCardCode(validated.code)
+			: generateGiftCardCode();
+
+		const { data: card, error: cardError } = await supabase
+			.from('gift_cards')
+			.insert({
+				shop_id: shop.id,
+				code,
+				initial_amount_cents: validated.amountCents,
+				client_id: validated.clientId ?? null,
+				expires_at: validated.expiresAt ?? null,
+				notes: validated.notes || null,
+				created_by: user.id,
+			})
+			.select('id, code')
+			.single();
+
+		if (cardError) {
+			// Unique violation on the shop's codes
+			if (cardError.code === '23505') {
+				return {
+					success: false,
+					error: 'A gift card with this code already exists',
+				};
+			}
+			throw cardError;
+		}
+
+		const { error: entryError } = await supabase
+			.from('store_credit_entries')
+			.insert({
+				shop_id: shop.id,
+				gift_card_id: card.id,
+				entry_type: 'issue',
+				amount_cents: validated.amountCents,
+				remaining_cents: validated.amountCents,
+				expires_at: validated.expiresAt ?? null,
+				reason: 'Gift card issued',
+				created_by: user.id,
+			});
+
+		if (entryError) {
+			// Don't leave a card that can't be spent
+			await supabase.from('gift_cards').delete().eq('id', card.id);
+			throw entryError;
+		}
+
+		revalidatePath('/settings');
+
+		return { success: true, data: card };
+	} catch (error) {
+		console.error('Failed to create gift card:', error);
+		return { success: false, error: 'Failed to create gift card' };
+	}
+}
+
+/**
+ * Find a gift card by its code, with what's left on it
+ */
+export async function lookupGiftCard(code: string): Promise<{
+	success: boolean;
+	data?: { id: string; code: string; balanceCents: number };
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		await supabase.rpc('expire_store_credit', { p_shop_id: shop.id });
+
+		const { data: card, error } = await supabase
+			.from('gift_cards')
+			.select(
+				'id, code, entries:store_credit_entries(entry_type, remaining_cents, expires_at)'
+			)
+			.eq('shop_id', shop.id)
+			.eq('code', normalizeGiftCardCode(code))
+			.maybeSingle();
+
+		if (error) throw error;
+		if (!card) {
+			return { success: false, error: 'Gift card not found' };
+		}
+
+		return {
+			success: true,
+			data: {
+				id: card.id,
+				code: card.code,
+				balanceCents: calculateCreditBalance(card.entries || []),
+			},
+		};
+	} catch (error) {
+		console.error('Failed to look up gift card:', error);
+		return { success: false, error: 'Failed to look up gift card' };
+	}
+}
+
+/**
+ * Pay an invoice from the client's store credit, or from a gift card when a
+ * code is given. The payment and the ledger entry are written together by
+ * redeem_store_credit, which also refuses more than the invoice's balance.
+ */
+export async function payWithStoreCredit(
+	data: PayWithStoreCreditData
+): Promise<{
+	success: boolean;
+	data?: { paymentId: string };
+	error?: string;
+}> {
+	try {
+		const parsed = payWithStoreCreditSchema.safeParse(data);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.errors[0]?.message || 'Invalid payment',
+			};
+		}
+		const validated = parsed.data;
+
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError({ user, shop }, 'issue_refunds');
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		const supabase = await createClient();
+
+		const { data: invoice, error: invoiceError } = await supabase
+			.from('invoices')
+			.select('id, order_id')
+			.eq('id', validated.invoiceId)
+			.eq('shop_id', shop.id)
+			.single();
+
+		if (invoiceError || !invoice) {
+			return { success: false, error: 'Invoice not found' };
+		}
+
+		let giftCardId: string | undefined;
+		if (validated.giftCardCode) {
+			const { data: card } = await supabase
+				.from('gift_cards')
+				.select('id')
+				.eq('shop_id', shop.id)
+				.eq('code', normalizeGiftCardCode(validated.giftCardCode))
+				.maybeSingle();
+
+			if (!card) {
+				return { success: false, error: 'Gift card not found' };
+			}
+			giftCardId = card.id;
+		}
+
+		const { data: paymentId, error } = await supabase.rpc(
+			'redeem_store_credit',
+			{
+				p_invoice_id: invoice.id,
+				p_payment_type: validated.paymentType,
+				p_amount_cents: validated.amountCents,
+				p_user_id: user.id,
+				...(giftCardId && { p_gift_card_id: giftCardId }),
+				...(validated.notes && { p_notes: validated.notes }),
+			}
+		);
+
+		if (error) {
+			console.error('Failed to redeem store credit:', error);
+			if (error.message.startsWith('Amount is more than')) {
+				return {
+					success: false,
+					error: 'Credit can only pay up to the balance due on this invoice',
+				};
+			}
+			return {
+				success: false,
+				error: error.message.startsWith('Not enough credit')
+					? error.message
+					: 'Failed to apply credit',
+			};
+		}
+
+		await recordPaymentForReminders(supabase, invoice.id);
+
+		await logPaymentAction(paymentId, 'completed', {
+			invoice_id: invoice.id,
+			amount_cents: validated.amountCents,
+			payment_method: giftCardId ? 'gift_card' : 'store_credit',
+			...(giftCardId && { gift_card_id: giftCardId }),
+		});
+
+		revalidatePath('/invoices');
+		revalidatePath(`/invoices/${invoice.id}`);
+		revalidatePath(`/orders/${invoice.order_id}`);
+
+		return { success: true, data: { paymentId } };
+	} catch (error) {
+		console.error('Failed to pay with store credit:', error);
+		return { success: false, error: 'Failed to apply credit' };
+	}
+}
+
+/**
+ * Turn what a client overpaid on an invoice into store credit. The overpayment
+ * is worked out by move_overpayment_to_credit, which refuses more than that
+ * and refunds the newest payments first, all in one transaction.
+ */
+export async function moveOverpaymentToCredit(
+	invoiceId: string,
+	amountCents: number
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		if (!Number.isInteger(amountCents) || amountCents <= 0) {
+			return { success: false, error: 'Amount must be greater than $0' };
+		}
+
+		const { user, shop } = await ensureUserAndShop();
+		const permissionError = getPermissionError({ user, shop }, 'issue_refunds');
+		if (permissionError) {
+			return { success: false, error: permissionError };
+		}
+		const supabase = await createClient();
+
+		const { data: invoice, error: invoiceError } = await supabase
+			.from('invoices')
+			.select('id, order_id')
+			.eq('id', invoiceId)
+			.eq('shop_id', shop.id)
+			.single();
+
+		if (invoiceError || !invoice) {
+			return { success: false, error: 'Invoice not found' };
+		}
+
+		const { data: refunds, error } = await supabase.rpc(
+			'move_overpayment_to_credit',
+			{
+				p_invoice_id: invoice.id,
+				p_amount_cents: amountCents,
+				p_user_id: user.id,
+			}
+		);
+
+		if (error) {
+			console.error('Failed to move overpayment to credit:', error);
+			return {
+				success: false,
+				error: error.message.startsWith('Amount is more than')
+					? 'Only what was overpaid on this invoice can move to credit'
+					: 'Failed to move overpayment to credit',
+			};
+		}
+
+		for (const refund of refunds || []) {
+			await logPaymentAction(refund.payment_id, 'refunded', {
+				refund_id: refund.refund_id,
+				amount_cents: refund.amount_cents,
+				refund_method: 'store_credit',
+			});
+		}
+
+		revalidatePath('/invoices');
+		revalidatePath(`/invoices/${invoice.id}`);
+		revalidatePath(`/orders/${invoice.order_id}`);
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to move overpayment to credit:', error);
+		return { success: false, error: 'Failed to move overpayment to credit' };
+	}
+}
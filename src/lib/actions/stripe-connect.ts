@@ -5,6 +5,7 @@ import Stripe from 'stripe';
 import { createClient } from '@/lib/supabase/server';
 import { createClient as createAdminClient } from '@/lib/supabase/admin';
 import { ensureUserAndShop } from './users';
+import { getPermissionError } from '@/lib/auth/permissions';
 import { auth } from '@clerk/nextjs/server';
 import { revalidatePath } from 'next/cache';
 
@@ -57,6 +58,13 @@ export async function createConnectAccount(
 }> {
   try {
     const { user, shop } = await ensureUserAndShop();
+    const permissionError = getPermissionError(
+      { user, shop },
+      'manage_settings'
+    );
+    if (permissionError) {
+      return { success: false, error: permissionError };
+    }
     const validated = CreateConnectAccountSchema.parse(input);
     const supabase = await createClient();
 
@@ -700,7 +708,14 @@ export async function clearConnectAccount(): Promise<{
   error?: string;
 }> {
   try {
-    const { shop } = await ensureUserAndShop();
+    const { user, shop } = await ensureUserAndShop();
+    const permissionError = getPermissionError(
+      { user, shop },
+      'manage_settings'
+    );
+    if (permissionError) {
+      return { success: false, error: permissionError };
+    }
     const supabase = await createClient();
 
     // Clear all Connect account data from shop settings
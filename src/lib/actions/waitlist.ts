@@ -0,0 +1,415 @@
+'use server';
+
+import { z } from 'zod';
+import { notFound, redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { createClient as createAdminClient } from '@/lib/supabase/admin';
+import { EmailService } from '@/lib/services/email/email-service';
+import { convertLocalToUTC } from '@/lib/utils/date-time-utc';
+import { getAppointmentTypeLabel } from '@/lib/utils/ics';
+import { getShopDisplayName } from '@/lib/utils/shop';
+import { getTodayString } from '@/lib/utils/date-time-utils';
+import type { Client } from '@/types';
+import type { Tables } from '@/types/supabase';
+import { ensureUserAndShop } from './users';
+
+const DEFAULT_TIMEZONE = 'America/New_York';
+
+const WaitlistOfferTokenSchema = z
+	.string()
+	.length(64, 'Invalid token format')
+	.regex(/^[a-f0-9]+$/, 'Invalid token format');
+
+const appointmentTypeSchema = z.enum([
+	'consultation',
+	'fitting',
+	'pickup',
+	'delivery',
+	'other',
+]);
+
+const addWaitlistEntrySchema = z
+	.object({
+		clientId: z.string().uuid(),
+		earliestDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+		latestDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+		// Empty means any appointment type
+		appointmentTypes: z.array(appointmentTypeSchema).default([]),
+		notes: z.string().trim().max(1000).optional(),
+	})
+	.refine((data) => data.latestDate >= data.earliestDate, {
+		message: 'The end of the date range must be on or after the start',
+		path: ['latestDate'],
+	});
+
+export type AddWaitlistEntryData = z.input<typeof addWaitlistEntrySchema>;
+
+export type WaitlistEntry = Tables<'waitlist_entries'> & {
+	client: Pick<
+		Client,
+		'id' | 'first_name' | 'last_name' | 'email' | 'phone_number'
+	> | null;
+};
+
+export interface WaitlistOfferView {
+	status: 'pending' | 'claimed' | 'taken' | 'expired';
+	clientFirstName: string;
+	date: string;
+	startTime: string;
+	endTime: string;
+	typeLabel: string;
+	shop: {
+		name: string;
+		email: string | null;
+		phoneNumber: string | null;
+		mailingAddress: string | null;
+	};
+}
+
+type AdminSupabaseClient = ReturnType<typeof createAdminClient>;
+
+const WAITLIST_ENTRY_SELECT = `
+  *,
+  client:clients(id, first_name, last_name, email, phone_number)
+`;
+
+/**
+ * Look up an offer by its claim token. Unknown and malformed tokens 404.
+ */
+async function resolveWaitlistOfferToken(
+	supabase: AdminSupabaseClient,
+	token: string
+): Promise<Tables<'waitlist_offers'>> {
+	const cleanToken = token.split('?')[0]?.split('&')[0]?.trim() || token.trim();
+	if (!WaitlistOfferTokenSchema.safeParse(cleanToken).success) {
+		notFound();
+	}
+
+	const { data, error } = await supabase
+		.from('waitlist_offers')
+		.select('*')
+		.eq('token', cleanToken)
+		.single();
+
+	if (error || !data) {
+		notFound();
+	}
+
+	return data;
+}
+
+/**
+ * Pending offers whose slot has started can no longer be claimed
+ */
+function getEffectiveOfferStatus(
+	offer: Tables<'waitlist_offers'>
+): WaitlistOfferView['status'] {
+	if (offer.status === 'pending' && new Date(offer.expires_at) <= new Date()) {
+		return 'expired';
+	}
+	return offer.status as WaitlistOfferView['status'];
+}
+
+/**
+ * Clients currently waiting for an opening, oldest first
+ */
+export async function getWaitlistEntries(): Promise<{
+	success: boolean;
+	data?: WaitlistEntry[];
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data, error } = await supabase
+			.from('waitlist_entries')
+			.select(WAITLIST_ENTRY_SELECT)
+			.eq('shop_id', shop.id)
+			.eq('status', 'waiting')
+			.order('created_at', { ascending: true });
+
+		if (error) throw error;
+
+		return { success: true, data: (data || []) as WaitlistEntry[] };
+	} catch (error) {
+		console.error('Failed to load waitlist:', error);
+		return { success: false, error: 'Failed to load waitlist' };
+	}
+}
+
+/**
+ * Number of clients waiting for an opening today or later. Returns 0 on
+ * failure so the dashboard still renders.
+ */
+export async function getWaitlistCount(): Promise<number> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { count, error } = await supabase
+			.from('waitlist_entries')
+			.select('id', { count: 'exact', head: true })
+			.eq('shop_id', shop.id)
+			.eq('status', 'waiting')
+			.gte('latest_date', getTodayString());
+
+		if (error) throw error;
+
+		return count || 0;
+	} catch (error) {
+		console.error('Failed to count waitlist entries:', error);
+		return 0;
+	}
+}
+
+/**
+ * Add one of the shop's clients to the waitlist
+ */
+export async function addWaitlistEntry(data: AddWaitlistEntryData): Promise<{
+	success: boolean;
+	data?: WaitlistEntry;
+	error?: string;
+}> {
+	try {
+		const parsed = addWaitlistEntrySchema.safeParse(data);
+		if (!parsed.success) {
+			return {
+				success: false,
+				error: parsed.error.errors[0]?.message || 'Invalid waitlist details',
+			};
+		}
+		const validated = parsed.data;
+
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { data: client, error: clientError } = await supabase
+			.from('clients')
+			.select('id')
+			.eq('id', validated.clientId)
+			.eq('shop_id', shop.id)
+			.single();
+
+		if (clientError || !client) {
+			return { success: false, error: 'Client not found' };
+		}
+
+		const { data: entry, error } = await supabase
+			.from('waitlist_entries')
+			.insert({
+				shop_id: shop.id,
+				client_id: client.id,
+				earliest_date: validated.earliestDate,
+				latest_date: validated.latestDate,
+				appointment_types: validated.appointmentTypes,
+				notes: validated.notes || null,
+			})
+			.select(WAITLIST_ENTRY_SELECT)
+			.single();
+
+		if (error || !entry) throw error;
+
+		revalidatePath('/dashboard');
+
+		return { success: true, data: entry as WaitlistEntry };
+	} catch (error) {
+		console.error('Failed to add waitlist entry:', error);
+		return { success: false, error: 'Failed to add client to waitlist' };
+	}
+}
+
+/**
+ * Take a client off the waitlist. Offers already sent stay claimable.
+ */
+export async function removeWaitlistEntry(entryId: string): Promise<{
+	success: boolean;
+	error?: string;
+}> {
+	try {
+		const { shop } = await ensureUserAndShop();
+		const supabase = await createClient();
+
+		const { error } = await supabase
+			.from('waitlist_entries')
+			.update({ status: 'removed', updated_at: new Date().toISOString() })
+			.eq('id', entryId)
+			.eq('shop_id', shop.id);
+
+		if (error) throw error;
+
+		revalidatePath('/dashboard');
+
+		return { success: true };
+	} catch (error) {
+		console.error('Failed to remove waitlist entry:', error);
+		return { success: false, error: 'Failed to remove client from waitlist' };
+	}
+}
+
+/**
+ * Load the public view of a waitlist offer (no auth required)
+ */
+export async function getWaitlistOfferByToken(
+	token: string
+): Promise<WaitlistOfferView> {
+	const supabase = createAdminClient();
+	const offer = await resolveWaitlistOfferToken(supabase, token);
+
+	const [{ data: shop }, { data: entry }] = await Promise.all([
+		supabase.from('shops').select('*').eq('id', offer.shop_id).single(),
+		supabase
+			.from('waitlist_entries')
+			.select('client:clients(first_name)')
+			.eq('id', offer.waitlist_entry_id)
+			.single(),
+	]);
+
+	if (!shop) {
+		notFound();
+	}
+
+	return {
+		status: getEffectiveOfferStatus(offer),
+		clientFirstName: entry?.client?.first_name || '',
+		date: offer.date,
+		startTime: offer.start_time.slice(0, 5),
+		endTime: offer.end_time.slice(0, 5),
+		typeLabel: getAppointmentTypeLabel(offer.type),
+		shop: {
+			name: getShopDisplayName(shop),
+			email: shop.email,
+			phoneNumber: shop.phone_number,
+			mailingAddress: shop.mailing_address,
+		},
+	};
+}
+
+/**
+ * Book the offered slot for the waitlisted client. The first claim wins:
+ * book_appointment_slot books under a lock for the shop and day, so when
+ * clients claim sibling offers for the same slot at once, the later claims
+ * see the first booking as a conflict and their offers are marked taken.
+ * Redirects back to the offer page, which shows the outcome.
+ */
+export async function claimWaitlistOffer(token: string): Promise<void> {
+	const supabase = createAdminClient();
+	const offer = await resolveWaitlistOfferToken(supabase, token);
+	const offerUrl = `/waitlist/claim/${offer.token}`;
+
+	if (getEffectiveOfferStatus(offer) !== 'pending') {
+		redirect(offerUrl);
+	}
+
+	// Guards against double submits: only one request moves it off pending
+	const { data: claimed } = await supabase
+		.from('waitlist_offers')
+		.update({ status: 'claimed', claimed_at: new Date().toISOString() })
+		.eq('id', offer.id)
+		.eq('status', 'pending')
+		.select('id');
+
+	if (!claimed || claimed.length === 0) {
+		redirect(offerUrl);
+	}
+
+	const markTaken = async () => {
+		await supabase
+			.from('waitlist_offers')
+			.update({ status: 'taken', claimed_at: null })
+			.eq('id', offer.id);
+	};
+
+	const [{ data: shop }, { data: entry }] = await Promise.all([
+		supabase
+			.from('shops')
+			.select('id, owner_user_id, timezone')
+			.eq('id', offer.shop_id)
+			.single(),
+		supabase
+			.from('waitlist_entries')
+			.select('id, client_id')
+			.eq('id', offer.waitlist_entry_id)
+			.single(),
+	]);
+
+	if (!shop || !entry) {
+		await markTaken();
+		throw new Error('This offer is no longer available');
+	}
+
+	const startTime = offer.start_time.slice(0, 5);
+	const endTime = offer.end_time.slice(0, 5);
+
+	const timezone = shop.timezone || DEFAULT_TIMEZONE;
+	const { data: appointment, error } = await supabase.rpc(
+		'book_appointment_slot',
+		{
+			p_shop_id: offer.shop_id,
+			p_client_id: entry.client_id,
+			p_date: offer.date,
+			p_start_time: startTime,
+			p_end_time: endTime,
+			p_start_at: convertLocalToUTC(
+				offer.date,
+				startTime,
+				timezone
+			).toISOString(),
+			p_end_at: convertLocalToUTC(offer.date, endTime, timezone).toISOString(),
+			p_type: offer.type,
+			p_notes: 'Booked from the waitlist',
+			// Claiming the slot is the client's confirmation
+			p_status: 'confirmed',
+		}
+	);
+
+	if (error || !appointment) {
+		await markTaken();
+		if (error?.code !== 'P0001') {
+			console.error('Failed to book waitlist offer:', error);
+		}
+		redirect(offerUrl);
+	}
+
+	await Promise.all([
+		supabase
+			.from('waitlist_offers')
+			.update({ appointment_id: appointment.id })
+			.eq('id', offer.id),
+		supabase
+			.from('waitlist_entries')
+			.update({
+				status: 'booked',
+				booked_appointment_id: appointment.id,
+				updated_at: new Date().toISOString(),
+			})
+			.eq('id', entry.id),
+	]);
+
+	// Everyone else offered this slot missed it
+	if (offer.source_appointment_id) {
+		await supabase
+			.from('waitlist_offers')
+			.update({ status: 'taken' })
+			.eq('source_appointment_id', offer.source_appointment_id)
+			.eq('status', 'pending');
+	}
+
+	// The booking stands even if notifications fail
+	try {
+		const emailService = new EmailService(supabase, shop.owner_user_id);
+		await emailService.sendAppointmentEmail(
+			appointment.id,
+			'appointment_scheduled'
+		);
+		await emailService.sendAppointmentEmail(
+			appointment.id,
+			'appointment_confirmed'
+		);
+	} catch (e) {
+		console.error('Waitlist offer claimed but notifications failed:', e);
+	}
+
+	redirect(offerUrl);
+}
@@ -0,0 +1,111 @@
+import type { Tables } from '@/types/supabase';
+
+/**
+ * Staff roles stored in users.role
+ */
+export type StaffRole = 'owner' | 'seamstress' | 'front_desk';
+
+export type InvitableStaffRole = Exclude<StaffRole, 'owner'>;
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+	owner: 'Owner',
+	seamstress: 'Seamstress',
+	front_desk: 'Front Desk',
+};
+
+export const INVITABLE_STAFF_ROLES: InvitableStaffRole[] = [
+	'seamstress',
+	'front_desk',
+];
+
+export type Permission =
+	| 'manage_staff'
+	| 'manage_settings'
+	| 'manage_service_pricing'
+	| 'issue_refunds'
+	| 'waive_deposits'
+	| 'export_data';
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+	owner: [
+		'manage_staff',
+		'manage_settings',
+		'manage_service_pricing',
+		'issue_refunds',
+		'waive_deposits',
+		'export_data',
+	],
+	seamstress: [],
+	front_desk: ['issue_refunds'],
+};
+
+const PERMISSION_DENIED_MESSAGES: Record<Permission, string> = {
+	manage_staff: 'Only the shop owner can manage staff',
+	manage_settings: 'Only the shop owner can change shop settings',
+	manage_service_pricing: 'Only the shop owner can change service pricing',
+	issue_refunds: "You don't have permission to issue refunds",
+	waive_deposits: 'Only the shop owner can waive a deposit',
+	export_data: 'Only the shop owner can export shop data',
+};
+
+export function isStaffRole(
+	role: string | null | undefined
+): role is StaffRole {
+	return role === 'owner' || role === 'seamstress' || role === 'front_desk';
+}
+
+/**
+ * The user's role in the shop. Only the shop's owner is 'owner'; anyone else
+ * gets their staff role from users.role, falling back to the least
+ * privileged role.
+ */
+export function getStaffRole(
+	user: Pick<Tables<'users'>, 'id' | 'role'>,
+	shop: Pick<Tables<'shops'>, 'owner_user_id'>
+): StaffRole {
+	if (shop.owner_user_id === user.id) {
+		return 'owner';
+	}
+	return isStaffRole(user.role) && user.role !== 'owner'
+		? user.role
+		: 'seamstress';
+}
+
+export function hasPermission(
+	role: StaffRole,
+	permission: Permission
+): boolean {
+	return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+type UserWithRole = {
+	user: Pick<Tables<'users'>, 'id' | 'role'>;
+	shop: Pick<Tables<'shops'>, 'owner_user_id'>;
+};
+
+/**
+ * Message to show when the user's role doesn't allow the action, or null when
+ * it does. For actions that return `{ success, error }`.
+ */
+export function getPermissionError(
+	{ user, shop }: UserWithRole,
+	permission: Permission
+): string | null {
+	return hasPermission(getStaffRole(user, shop), permission)
+		? null
+		: PERMISSION_DENIED_MESSAGES[permission];
+}
+
+/**
+ * Throws when the user's role doesn't allow the action. For actions that
+ * report failures by throwing.
+ */
+export function requirePermission(
+	userWithShop: UserWithRole,
+	permission: Permission
+): void {
+	const error = getPermissionError(userWithShop, permission);
+	if (error) {
+		throw new Error(error);
+	}
+}
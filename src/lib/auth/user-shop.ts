@@ -81,16 +81,32 @@ export const ensureUserAndShop = cache(async (): Promise<UserWithShop> => {
     throw new Error(`Failed to fetch user: ${userError.message}`);
   }
 
-  // Now check for the shop
-  const shopResult = await supabase
-    .from('shops')
-    .select('*')
-    .eq('owner_user_id', userData!.id)
-    .maybeSingle();
+  // Now check for the shop: the one the user works in (owners and staff),
+  // then the one they own
+  const shopResult = userData!.shop_id
+    ? await supabase
+        .from('shops')
+        .select('*')
+        .eq('id', userData!.shop_id)
+        .maybeSingle()
+    : await supabase
+        .from('shops')
+        .select('*')
+        .eq('owner_user_id', userData!.id)
+        .maybeSingle();
 
   let shopData: Tables<'shops'> | null = shopResult.data;
   const shopError = shopResult.error;
 
+  // A new user who was invited to a shop joins it instead of getting their own
+  if (!shopData && !shopError) {
+    const joined = await acceptStaffInvitation(supabase, userData!);
+    if (joined) {
+      userData = joined.user;
+      shopData = joined.shop;
+    }
+  }
+
   // If shop doesn't exist, create it
   if (!shopData) {
     // Generate a proper shop name based on user data
@@ -154,6 +170,17 @@ export const ensureUserAndShop = cache(async (): Promise<UserWithShop> => {
       `[ensureUserAndShop] Successfully created shop ${newShop.id} for user ${userData!.id}`
     );
     shopData = newShop;
+
+    // Record the owner's membership so shop lookups work the same for staff
+    const { data: owner } = await supabase
+      .from('users')
+      .update({ shop_id: newShop.id, role: 'owner' })
+      .eq('id', userData!.id)
+      .select()
+      .single();
+    if (owner) {
+      userData = owner;
+    }
   } else if (shopError) {
     console.error('[ensureUserAndShop] Error fetching shop:', shopError);
     throw new Error(`Failed to fetch shop: ${shopError.message}`);
@@ -165,6 +192,68 @@ export const ensureUserAndShop = cache(async (): Promise<UserWithShop> => {
   };
 });
 
+/**
+ * Join the shop from the user's open invitation, if they have one. Returns
+ * null when there is no invitation for their email.
+ */
+async function acceptStaffInvitation(
+  supabase: Awaited<ReturnType<typeof createSupabaseClient>>,
+  user: Tables<'users'>
+): Promise<UserWithShop | null> {
+  if (!user.email) return null;
+
+  const { data: invitation } = await supabase
+    .from('staff_invitations')
+    .select('id, shop_id, role')
+    // Escape LIKE wildcards so the match is exact (case-insensitive)
+    .ilike('email', user.email.replace(/[\\%_]/g, '\\$&'))
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!invitation) return null;
+
+  const { data: staffUser, error: userError } = await supabase
+    .from('users')
+    .update({ shop_id: invitation.shop_id, role: invitation.role })
+    .eq('id', user.id)
+    .select()
+    .single();
+
+  if (userError || !staffUser) {
+    console.error(
+      '[ensureUserAndShop] Error accepting staff invitation:',
+      userError
+    );
+    return null;
+  }
+
+  await supabase
+    .from('staff_invitations')
+    .update({
+      accepted_at: new Date().toISOString(),
+      accepted_user_id: user.id,
+    })
+    .eq('id', invitation.id);
+
+  const { data: shop } = await supabase
+    .from('shops')
+    .select('*')
+    .eq('id', invitation.shop_id)
+    .single();
+
+  if (!shop) return null;
+
+  console.log(
+    `[ensureUserAndShop] User ${user.id} joined shop ${shop.id} as ${invitation.role}`
+  );
+
+  return { user: staffUser, shop };
+}
+
 /**
  * Gets the display name for a shop, preferring business_name over name
  */
@@ -0,0 +1,19 @@
+// SMS configuration
+export const smsConfig = {
+	// 'twilio' sends real messages, 'fake' keeps them in memory (tests/local dev)
+	provider: (process.env.SMS_PROVIDER || 'twilio') as 'twilio' | 'fake',
+	twilio: {
+		accountSid: process.env.TWILIO_ACCOUNT_SID || '',
+		authToken: process.env.TWILIO_AUTH_TOKEN || '',
+		fromNumber: process.env.TWILIO_FROM_NUMBER || '',
+		messagingServiceSid: process.env.TWILIO_MESSAGING_SERVICE_SID || '',
+	},
+	features: {
+		previewMode: process.env.SMS_PREVIEW_MODE === 'true',
+		// SMS costs money per message, so it is opt-in rather than opt-out
+		enabled: process.env.ENABLE_SMS_SENDING === 'true',
+	},
+	dev: {
+		overrideRecipient: process.env.SMS_DEV_OVERRIDE || null,
+	},
+} as const;
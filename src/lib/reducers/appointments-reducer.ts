@@ -20,6 +20,9 @@ export enum AppointmentActionType {
   CANCEL_APPOINTMENT_SUCCESS = 'CANCEL_APPOINTMENT_SUCCESS',
   CANCEL_APPOINTMENT_ERROR = 'CANCEL_APPOINTMENT_ERROR',
 
+  // Recurring series (create or edit several occurrences at once)
+  SERIES_APPOINTMENTS_UPSERTED = 'SERIES_APPOINTMENTS_UPSERTED',
+
   // Real-time Updates
   APPOINTMENT_UPDATED_REMOTE = 'APPOINTMENT_UPDATED_REMOTE',
   APPOINTMENT_CREATED_REMOTE = 'APPOINTMENT_CREATED_REMOTE',
@@ -130,6 +133,13 @@ export interface CancelAppointmentErrorAction {
   };
 }
 
+export interface SeriesAppointmentsUpsertedAction {
+  type: AppointmentActionType.SERIES_APPOINTMENTS_UPSERTED;
+  payload: {
+    appointments: Appointment[];
+  };
+}
+
 export interface RemoteUpdateAction {
   type:
     | AppointmentActionType.APPOINTMENT_UPDATED_REMOTE
@@ -168,6 +178,7 @@ export type AppointmentAction =
   | CancelAppointmentOptimisticAction
   | CancelAppointmentSuccessAction
   | CancelAppointmentErrorAction
+  | SeriesAppointmentsUpsertedAction
   | RemoteUpdateAction
   | InvalidateDateRangeAction
   | ClearStaleDataAction;
@@ -264,6 +275,39 @@ function mergeAppointments(
   return merged;
 }
 
+// Selectors
+
+/**
+ * Loaded occurrences of a recurring series, in date order
+ */
+export function selectSeriesAppointments(
+  state: AppointmentState,
+  seriesId: string
+): Appointment[] {
+  return Array.from(state.appointments.values())
+    .filter((appointment) => appointment.series_id === seriesId)
+    .sort((a, b) =>
+      `${a.date} ${a.start_time}`.localeCompare(`${b.date} ${b.start_time}`)
+    );
+}
+
+/**
+ * 1-based position of an appointment within its loaded series, e.g. for
+ * "Fitting 2 of 4". Null for one-off appointments.
+ */
+export function selectSeriesPosition(
+  state: AppointmentState,
+  appointment: Appointment
+): { index: number; total: number } | null {
+  if (!appointment.series_id) return null;
+
+  const series = selectSeriesAppointments(state, appointment.series_id).filter(
+    (a) => a.status !== 'canceled' && a.status !== 'declined'
+  );
+  const index = series.findIndex((a) => a.id === appointment.id);
+  return index === -1 ? null : { index: index + 1, total: series.length };
+}
+
 // Reducer
 export function appointmentReducer(
   state: AppointmentState,
@@ -487,6 +531,23 @@ export function appointmentReducer(
       };
     }
 
+    case AppointmentActionType.SERIES_APPOINTMENTS_UPSERTED: {
+      const { appointments } = action.payload;
+      const newAppointments = new Map(state.appointments);
+      const newOptimisticUpdates = new Map(state.optimisticUpdates);
+
+      for (const appointment of appointments) {
+        newAppointments.set(appointment.id, appointment);
+        newOptimisticUpdates.delete(appointment.id);
+      }
+
+      return {
+        ...state,
+        appointments: newAppointments,
+        optimisticUpdates: newOptimisticUpdates,
+      };
+    }
+
     case AppointmentActionType.APPOINTMENT_UPDATED_REMOTE: {
       const { appointment } = action.payload;
       if (!appointment) return state;
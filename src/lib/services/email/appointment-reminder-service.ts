@@ -0,0 +1,231 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { EmailService } from './email-service';
+
+// Fallbacks mirror the defaults returned by getCalendarSettings()
+const DEFAULT_SEND_REMINDERS = true;
+const DEFAULT_REMINDER_HOURS_BEFORE = 24;
+
+const REMINDER_STATUSES = ['pending', 'confirmed'] as const;
+
+export type ReminderOutcome = 'sent' | 'skipped' | 'failed';
+
+export interface ReminderResult {
+	appointmentId: string;
+	shopId: string;
+	outcome: ReminderOutcome;
+	reason?: string;
+	logId?: string;
+}
+
+export interface ReminderDispatchSummary {
+	shopsProcessed: number;
+	sent: number;
+	skipped: number;
+	failed: number;
+	results: ReminderResult[];
+}
+
+interface ShopReminderConfig {
+	id: string;
+	owner_user_id: string;
+	calendar_settings: {
+		send_reminders: boolean | null;
+		reminder_hours_before: number | null;
+	} | null;
+}
+
+interface DueAppointment {
+	id: string;
+	start_at: string | null;
+	client: {
+		email: string | null;
+		accept_email: boolean | null;
+	} | null;
+}
+
+/**
+ * Finds upcoming appointments inside each shop's reminder window and sends
+ * the `appointment_reminder` email exactly once per appointment.
+ *
+ * The appointment is claimed (reminder_sent = true) before sending so that two
+ * overlapping runs cannot both send; the claim is released if the send fails.
+ */
+export class AppointmentReminderService {
+	constructor(private supabase: SupabaseClient) {}
+
+	async dispatchDueReminders(
+		shopId?: string
+	): Promise<ReminderDispatchSummary> {
+		const summary: ReminderDispatchSummary = {
+			shopsProcessed: 0,
+			sent: 0,
+			skipped: 0,
+			failed: 0,
+			results: [],
+		};
+
+		const shops = await this.fetchShops(shopId);
+
+		for (const shop of shops) {
+			const settings = shop.calendar_settings;
+			const sendReminders = settings?.send_reminders ?? DEFAULT_SEND_REMINDERS;
+			if (!sendReminders) continue;
+
+			const hoursBefore =
+				settings?.reminder_hours_before ?? DEFAULT_REMINDER_HOURS_BEFORE;
+
+			summary.shopsProcessed++;
+			const results = await this.dispatchForShop(shop, hoursBefore);
+
+			for (const result of results) {
+				summary[result.outcome]++;
+				summary.results.push(result);
+			}
+		}
+
+		return summary;
+	}
+
+	private async fetchShops(shopId?: string): Promise<ShopReminderConfig[]> {
+		let query = this.supabase
+			.from('shops')
+			.select(
+				'id, owner_user_id, calendar_settings(send_reminders, reminder_hours_before)'
+			);
+
+		if (shopId) {
+			query = query.eq('id', shopId);
+		}
+
+		const { data, error } = await query;
+
+		if (error) {
+			console.error(
+				'[AppointmentReminderService] Failed to fetch shops:',
+				error
+			);
+			throw new Error('Failed to fetch shops for reminders');
+		}
+
+		return (data || []) as unknown as ShopReminderConfig[];
+	}
+
+	private async dispatchForShop(
+		shop: ShopReminderConfig,
+		hoursBefore: number
+	): Promise<ReminderResult[]> {
+		const now = new Date();
+		const windowEnd = new Date(now.getTime() + hoursBefore * 60 * 60 * 1000);
+
+		const { data, error } = await this.supabase
+			.from('appointments')
+			.select('id, start_at, client:clients(email, accept_email)')
+			.eq('shop_id', shop.id)
+			.in('status', [...REMINDER_STATUSES])
+			.or('reminder_sent.is.null,reminder_sent.eq.false')
+			.gt('start_at', now.toISOString())
+			.lte('start_at', windowEnd.toISOString())
+			.order('start_at', { ascending: true });
+
+		if (error) {
+			console.error(
+				'[AppointmentReminderService] Failed to fetch appointments:',
+				{ shopId: shop.id, error }
+			);
+			throw new Error('Failed to fetch appointments for reminders');
+		}
+
+		const appointments = (data || []) as unknown as DueAppointment[];
+		if (appointments.length === 0) return [];
+
+		const emailService = new EmailService(this.supabase, shop.owner_user_id);
+		const results: ReminderResult[] = [];
+
+		for (const appointment of appointments) {
+			results.push(await this.sendReminder(emailService, shop.id, appointment));
+		}
+
+		return results;
+	}
+
+	private async sendReminder(
+		emailService: EmailService,
+		shopId: string,
+		appointment: DueAppointment
+	): Promise<ReminderResult> {
+		const base = { appointmentId: appointment.id, shopId };
+
+		if (!appointment.client?.email) {
+			return { ...base, outcome: 'skipped', reason: 'Client has no email' };
+		}
+
+		if (appointment.client.accept_email === false) {
+			return { ...base, outcome: 'skipped', reason: 'Client opted out' };
+		}
+
+		const claimed = await this.claimAppointment(appointment.id);
+		if (!claimed) {
+			return { ...base, outcome: 'skipped', reason: 'Already claimed' };
+		}
+
+		const result = await emailService.sendAppointmentEmail(
+			appointment.id,
+			'appointment_reminder',
+			{ reminder_for: appointment.start_at }
+		);
+
+		// EmailService reports silent success (no log) when delivery constraints
+		// block the send, so only a logged send counts as delivered.
+		if (result.success && result.logId) {
+			return { ...base, outcome: 'sent', logId: result.logId };
+		}
+
+		await this.releaseAppointment(appointment.id);
+
+		if (result.success) {
+			return { ...base, outcome: 'skipped', reason: 'Delivery blocked' };
+		}
+
+		return {
+			...base,
+			outcome: 'failed',
+			reason: result.error || 'Failed to send reminder',
+		};
+	}
+
+	private async claimAppointment(appointmentId: string): Promise<boolean> {
+		const { data, error } = await this.supabase
+			.from('appointments')
+			.update({ reminder_sent: true })
+			.eq('id', appointmentId)
+			.or('reminder_sent.is.null,reminder_sent.eq.false')
+			.select('id');
+
+		if (error) {
+			console.error(
+				'[AppointmentReminderService] Failed to claim appointment:',
+				{
+					appointmentId,
+					error,
+				}
+			);
+			return false;
+		}
+
+		return Array.isArray(data) && data.length > 0;
+	}
+
+	private async releaseAppointment(appointmentId: string): Promise<void> {
+		const { error } = await this.supabase
+			.from('appointments')
+			.update({ reminder_sent: false })
+			.eq('id', appointmentId);
+
+		if (error) {
+			console.error(
+				'[AppointmentReminderService] Failed to release appointment claim:',
+				{ appointmentId, error }
+			);
+		}
+	}
+}
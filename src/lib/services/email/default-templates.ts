@@ -158,5 +158,38 @@ You can view all your appointments in Hemsy.
 Thank you,
 Hemsy`,
 		},
+		garment_ready_for_pickup: {
+			subject: 'Your order is ready for pickup at {shop_name}',
+			body: `Hi {client_name},
+
+Good news! The following is ready for pickup:
+
+{garment_name}
+
+Balance due: {balance_due}
+You can pay online before you arrive: {payment_link}
+
+Check your order status anytime: {order_status_link}
+
+If you have any questions, please contact us.
+
+Thank you,
+{shop_name}`,
+		},
+		waitlist_slot_offer: {
+			subject: 'An appointment just opened up at {shop_name}',
+			body: `Hi {client_name},
+
+An appointment just opened up and you're on our waitlist:
+
+{appointment_type} on {appointment_time}
+
+Claim it here: {claim_link}
+
+This offer went to everyone waiting for this time, so the first to claim it gets the appointment.
+
+Thank you,
+{shop_name}`,
+		},
 	};
 }
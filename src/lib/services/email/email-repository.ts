@@ -240,6 +240,8 @@ export class EmailRepository {
 			'payment_received',
 			'invoice_sent',
 			'appointment_confirmed',
+			'garment_ready_for_pickup',
+			'waitlist_slot_offer',
 		];
 
 		return emailTypes
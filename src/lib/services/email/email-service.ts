@@ -1,14 +1,41 @@
 import { SupabaseClient } from '@supabase/supabase-js';
-import { EmailType, EmailSendResult } from '../../../types/email';
+import {
+	EmailType,
+	EmailSendResult,
+	GarmentReadyNotification,
+	WaitlistOfferNotification,
+} from '../../../types/email';
 import { EmailRepository } from './email-repository';
 import { TemplateRenderer } from './template-renderer';
 import { ReactEmailRenderer } from './react-email-renderer';
-import { ResendClient, getResendClient } from './resend-client';
+import {
+	EmailAttachment,
+	ResendClient,
+	getResendClient,
+} from './resend-client';
 import { emailConfig } from '../../config/email.config';
+import { smsConfig } from '../../config/sms.config';
 import { EMAIL_CONSTRAINTS } from '../../utils/email/constants';
 import { format } from 'date-fns';
 import { getShopDisplayName } from '@/lib/utils/shop';
 import { safeParseDateTime } from '@/lib/utils/date-time-utils';
+import {
+	buildIcsCalendar,
+	getAppointmentSequence,
+	getAppointmentTypeLabel,
+	getAppointmentUid,
+	getAppointmentUtcRange,
+} from '@/lib/utils/ics';
+import { SmsService } from '../sms/sms-service';
+import {
+	NotificationChannel,
+	SmsSendResult,
+	SmsType,
+	isSmsType,
+} from '../../../types/sms';
+
+// SMS only reaches clients who opted in (accept_sms) and only when enabled
+const DEFAULT_APPOINTMENT_CHANNELS: NotificationChannel[] = ['email', 'sms'];
 
 export class EmailService {
 	private repository: EmailRepository;
@@ -26,7 +53,40 @@ export class EmailService {
 		this.resendClient = getResendClient();
 	}
 
+	/**
+	 * Send an appointment notification by email and, for clients who accept
+	 * SMS, by text message. Pass `channels` to restrict delivery.
+	 */
 	async sendAppointmentEmail(
+		appointmentId: string,
+		emailType: EmailType,
+		additionalData?: Record<string, any>,
+		options: { channels?: NotificationChannel[] } = {}
+	): Promise<EmailSendResult> {
+		const channels = options.channels ?? DEFAULT_APPOINTMENT_CHANNELS;
+
+		const emailResult: EmailSendResult = channels.includes('email')
+			? await this.deliverAppointmentEmail(
+					appointmentId,
+					emailType,
+					additionalData
+				)
+			: { success: true };
+
+		if (!channels.includes('sms') || !isSmsType(emailType)) {
+			return emailResult;
+		}
+
+		const smsResult = await this.sendAppointmentSms(
+			appointmentId,
+			emailType,
+			additionalData
+		);
+
+		return { ...emailResult, sms: smsResult };
+	}
+
+	private async deliverAppointmentEmail(
 		appointmentId: string,
 		emailType: EmailType,
 		additionalData?: Record<string, any>
@@ -34,12 +94,22 @@ export class EmailService {
 		try {
 			// Generic idempotency guard (applies to all types EXCEPT reschedules)
 			if (emailType !== 'appointment_rescheduled') {
+				// Reminders are keyed to the appointment time so a rescheduled
+				// appointment can be reminded again for its new slot
+				const dedupeMetadata =
+					emailType === 'appointment_reminder' && additionalData?.reminder_for
+						? {
+								appointment_id: appointmentId,
+								reminder_for: additionalData.reminder_for,
+							}
+						: { appointment_id: appointmentId };
+
 				const { data: existingLogs } = await this.supabase
 					.from('email_logs')
 					.select('id, created_at')
 					.eq('email_type', emailType)
 					.eq('created_by', this.userId)
-					.contains('metadata', { appointment_id: appointmentId })
+					.contains('metadata', dedupeMetadata)
 					.order('created_at', { ascending: false })
 					.limit(1);
 
@@ -306,6 +376,316 @@ export class EmailService {
 		}
 	}
 
+	/**
+	 * Tell a client that garments are ready for pickup. Sent at most once per
+	 * garment, or once per order when the whole order is ready.
+	 */
+	async sendGarmentReadyEmail(
+		notification: GarmentReadyNotification,
+		options: { channels?: NotificationChannel[] } = {}
+	): Promise<EmailSendResult> {
+		const channels = options.channels ?? DEFAULT_APPOINTMENT_CHANNELS;
+		const dedupe: Record<string, any> =
+			notification.scope === 'order'
+				? { order_id: notification.orderId, ready_scope: 'order' }
+				: { garment_id: notification.garments[0]?.id };
+
+		const garmentNames = notification.garments.map((g) => g.name);
+		const shopName =
+			notification.shop.business_name ||
+			notification.shop.name ||
+			emailConfig.sender.name;
+
+		const emailResult: EmailSendResult = channels.includes('email')
+			? await this.deliverGarmentReadyEmail(notification, dedupe, shopName)
+			: { success: true };
+
+		if (!channels.includes('sms')) {
+			return emailResult;
+		}
+
+		const smsService = new SmsService(this.supabase, this.userId);
+		const smsResult = await smsService.sendToClient(
+			notification.client,
+			'garment_ready_for_pickup',
+			{
+				client_name: `${notification.client.first_name} ${notification.client.last_name}`,
+				shop_name: shopName,
+				shop_phone: notification.shop.business_phone || undefined,
+				garment_name: garmentNames.join(', '),
+				amount: notification.balanceDue,
+				payment_link: notification.paymentLink,
+				order_status_link: notification.orderStatusLink,
+			},
+			{ dedupe, metadata: { order_id: notification.orderId } }
+		);
+
+		return { ...emailResult, sms: smsResult };
+	}
+
+	private async deliverGarmentReadyEmail(
+		notification: GarmentReadyNotification,
+		dedupe: Record<string, any>,
+		shopName: string
+	): Promise<EmailSendResult> {
+		const emailType: EmailType = 'garment_ready_for_pickup';
+
+		try {
+			if (!emailConfig.features.enabled) {
+				console.log('❌ Email not sent: Email sending disabled');
+				return { success: true };
+			}
+
+			if (notification.client.accept_email === false) {
+				console.log('❌ Email not sent: Client opted out');
+				return { success: true };
+			}
+
+			const { data: existingLogs } = await this.supabase
+				.from('email_logs')
+				.select('id')
+				.eq('email_type', emailType)
+				.eq('created_by', this.userId)
+				.contains('metadata', dedupe)
+				.limit(1);
+
+			const existing = existingLogs?.[0] as { id: string } | undefined;
+			if (existing?.id) {
+				console.log(
+					'ℹ️ EmailService: Skipping send due to existing email_log (idempotency):',
+					{ emailType, existingLogId: existing.id }
+				);
+				return { success: true, logId: existing.id };
+			}
+
+			const garmentNames = notification.garments.map((g) => g.name);
+			const signature = await this.repository.getEmailSignature(
+				notification.shop.id
+			);
+
+			const emailData = {
+				client_name: `${notification.client.first_name} ${notification.client.last_name}`,
+				client_email: notification.client.email,
+				shop_name: shopName,
+				shop_email: notification.shop.email || undefined,
+				shop_phone: notification.shop.business_phone || undefined,
+				shop_address: notification.shop.business_address || undefined,
+				shop_signature: signature || undefined,
+				order_id: notification.orderId,
+				order_number: notification.orderNumber,
+				garment_name: garmentNames.join(', '),
+				garment_names: garmentNames,
+				balance_due: notification.balanceDue,
+				payment_link: notification.paymentLink,
+				order_status_link: notification.orderStatusLink,
+			};
+
+			const reactRendered = await this.reactEmailRenderer.render(
+				emailType,
+				emailData
+			);
+
+			const logId = await this.repository.createEmailLog({
+				email_type: emailType,
+				recipient_email: notification.client.email,
+				recipient_name: emailData.client_name,
+				subject: reactRendered.subject,
+				body: reactRendered.text,
+				status: 'pending',
+				attempts: 0,
+				last_error: null,
+				metadata: {
+					...dedupe,
+					order_id: notification.orderId,
+					client_id: notification.client.id,
+					garment_ids: notification.garments.map((g) => g.id),
+					balance_due: notification.balanceDue || null,
+				},
+				resend_id: null,
+				sent_at: null,
+			});
+
+			const result = await this.resendClient.send({
+				to: notification.client.email,
+				subject: reactRendered.subject,
+				text: reactRendered.text,
+				html: reactRendered.html,
+				from: `${shopName} <${emailConfig.sender.address}>`,
+				...(notification.shop.email
+					? { replyTo: notification.shop.email }
+					: {}),
+			});
+
+			await this.repository.updateEmailLog(logId, {
+				status: result.success ? 'sent' : 'failed',
+				resend_id: result.messageId || null,
+				sent_at: result.success ? new Date().toISOString() : null,
+				last_error: result.error || null,
+				attempts: 1,
+			});
+
+			return {
+				success: result.success,
+				...(result.error ? { error: result.error } : {}),
+				logId,
+			};
+		} catch (error) {
+			console.error('❌ EmailService error:', error);
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to send email',
+			};
+		}
+	}
+
+	/**
+	 * Offer a freed appointment slot to a waitlisted client. Sent at most once
+	 * per offer.
+	 */
+	async sendWaitlistOfferEmail(
+		notification: WaitlistOfferNotification,
+		options: { channels?: NotificationChannel[] } = {}
+	): Promise<EmailSendResult> {
+		const channels = options.channels ?? DEFAULT_APPOINTMENT_CHANNELS;
+		const dedupe = { waitlist_offer_id: notification.offerId };
+		const shopName =
+			notification.shop.business_name ||
+			notification.shop.name ||
+			emailConfig.sender.name;
+
+		const emailResult: EmailSendResult = channels.includes('email')
+			? await this.deliverWaitlistOfferEmail(notification, dedupe, shopName)
+			: { success: true };
+
+		if (!channels.includes('sms')) {
+			return emailResult;
+		}
+
+		const smsService = new SmsService(this.supabase, this.userId);
+		const smsResult = await smsService.sendToClient(
+			notification.client,
+			'waitlist_slot_offer',
+			{
+				client_name: `${notification.client.first_name} ${notification.client.last_name}`,
+				shop_name: shopName,
+				shop_phone: notification.shop.business_phone || undefined,
+				appointment_time: notification.appointmentTime,
+				claim_link: notification.claimLink,
+			},
+			{ dedupe }
+		);
+
+		return { ...emailResult, sms: smsResult };
+	}
+
+	private async deliverWaitlistOfferEmail(
+		notification: WaitlistOfferNotification,
+		dedupe: Record<string, any>,
+		shopName: string
+	): Promise<EmailSendResult> {
+		const emailType: EmailType = 'waitlist_slot_offer';
+
+		try {
+			if (!emailConfig.features.enabled) {
+				console.log('❌ Email not sent: Email sending disabled');
+				return { success: true };
+			}
+
+			if (notification.client.accept_email === false) {
+				console.log('❌ Email not sent: Client opted out');
+				return { success: true };
+			}
+
+			const { data: existingLogs } = await this.supabase
+				.from('email_logs')
+				.select('id')
+				.eq('email_type', emailType)
+				.eq('created_by', this.userId)
+				.contains('metadata', dedupe)
+				.limit(1);
+
+			const existing = existingLogs?.[0] as { id: string } | undefined;
+			if (existing?.id) {
+				console.log(
+					'ℹ️ EmailService: Skipping send due to existing email_log (idempotency):',
+					{ emailType, existingLogId: existing.id }
+				);
+				return { success: true, logId: existing.id };
+			}
+
+			const signature = await this.repository.getEmailSignature(
+				notification.shop.id
+			);
+
+			const emailData = {
+				client_name: `${notification.client.first_name} ${notification.client.last_name}`,
+				client_email: notification.client.email,
+				shop_name: shopName,
+				shop_email: notification.shop.email || undefined,
+				shop_phone: notification.shop.business_phone || undefined,
+				shop_address: notification.shop.business_address || undefined,
+				shop_signature: signature || undefined,
+				appointment_time: notification.appointmentTime,
+				appointment_type: notification.appointmentType,
+				claim_link: notification.claimLink,
+				waitlist_offer_id: notification.offerId,
+			};
+
+			const reactRendered = await this.reactEmailRenderer.render(
+				emailType,
+				emailData
+			);
+
+			const logId = await this.repository.createEmailLog({
+				email_type: emailType,
+				recipient_email: notification.client.email,
+				recipient_name: emailData.client_name,
+				subject: reactRendered.subject,
+				body: reactRendered.text,
+				status: 'pending',
+				attempts: 0,
+				last_error: null,
+				metadata: {
+					...dedupe,
+					client_id: notification.client.id,
+				},
+				resend_id: null,
+				sent_at: null,
+			});
+
+			const result = await this.resendClient.send({
+				to: notification.client.email,
+				subject: reactRendered.subject,
+				text: reactRendered.text,
+				html: reactRendered.html,
+				from: `${shopName} <${emailConfig.sender.address}>`,
+				...(notification.shop.email
+					? { replyTo: notification.shop.email }
+					: {}),
+			});
+
+			await this.repository.updateEmailLog(logId, {
+				status: result.success ? 'sent' : 'failed',
+				resend_id: result.messageId || null,
+				sent_at: result.success ? new Date().toISOString() : null,
+				last_error: result.error || null,
+				attempts: 1,
+			});
+
+			return {
+				success: result.success,
+				...(result.error ? { error: result.error } : {}),
+				logId,
+			};
+		} catch (error) {
+			console.error('❌ EmailService error:', error);
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to send email',
+			};
+		}
+	}
+
 	async resendEmail(emailLogId: string): Promise<EmailSendResult> {
 		// Implementation for retry logic
 		// This would fetch the log, increment attempts, and resend
@@ -313,6 +693,71 @@ export class EmailService {
 		throw new Error('Not implemented yet');
 	}
 
+	private async sendAppointmentSms(
+		appointmentId: string,
+		smsType: EmailType & SmsType,
+		additionalData?: Record<string, any>
+	): Promise<SmsSendResult> {
+		try {
+			// Check before fetching so email-only setups do no extra work
+			if (!smsConfig.features.enabled) {
+				return { success: true };
+			}
+
+			const appointmentData = await this.fetchAppointmentData(appointmentId);
+			if (appointmentData.client?.accept_sms !== true) {
+				return { success: true };
+			}
+
+			const emailData = this.prepareEmailData(
+				appointmentData,
+				smsType,
+				additionalData
+			);
+
+			let confirmationLink: string | undefined;
+			if (
+				(smsType === 'appointment_scheduled' ||
+					smsType === 'appointment_rescheduled') &&
+				appointmentData.status === 'pending'
+			) {
+				const confirmToken =
+					await this.repository.createConfirmationToken(appointmentId);
+				confirmationLink = `${emailConfig.urls.confirmation}/${confirmToken.token}`;
+			}
+
+			// Same idempotency keys as the email path
+			const dedupe: Record<string, any> = { appointment_id: appointmentId };
+			if (smsType === 'appointment_reminder' && additionalData?.reminder_for) {
+				dedupe.reminder_for = additionalData.reminder_for;
+			}
+			if (smsType === 'appointment_rescheduled') {
+				dedupe.reschedule_key = `${additionalData?.previous_time || 'unknown'}->${appointmentData.date} ${appointmentData.start_time}`;
+			}
+
+			const smsService = new SmsService(this.supabase, this.userId);
+			return await smsService.sendToClient(
+				appointmentData.client,
+				smsType,
+				{
+					client_name: emailData.client_name,
+					shop_name: emailData.shop_name || emailConfig.sender.name,
+					shop_phone: emailData.shop_phone,
+					appointment_time: emailData.appointment_time,
+					previous_time: emailData.previous_time,
+					confirmation_link: confirmationLink,
+				},
+				{ dedupe }
+			);
+		} catch (error) {
+			console.error('❌ EmailService SMS error:', error);
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to send SMS',
+			};
+		}
+	}
+
 	// Private helper methods
 	private async fetchAppointmentData(appointmentId: string): Promise<any> {
 		const { data: appointment, error } = await this.supabase
@@ -342,6 +787,8 @@ export class EmailService {
 			email: appointment.shop?.email,
 			business_phone: appointment.shop?.business_phone,
 			business_address: appointment.shop?.business_address,
+			mailing_address: appointment.shop?.mailing_address,
+			timezone: appointment.shop?.timezone,
 		};
 
 		// Fetch email signature for the shop
@@ -357,6 +804,67 @@ export class EmailService {
 		};
 	}
 
+	/**
+	 * .ics invite for the client's own calendar: REQUEST for new and moved
+	 * appointments, CANCEL to remove a canceled one.
+	 */
+	private buildCalendarAttachment(
+		emailType: EmailType,
+		appointmentData: any
+	): EmailAttachment | null {
+		const method =
+			emailType === 'appointment_scheduled' ||
+			emailType === 'appointment_rescheduled'
+				? 'REQUEST'
+				: emailType === 'appointment_canceled'
+					? 'CANCEL'
+					: null;
+		if (!method) return null;
+
+		try {
+			const { start, end } = getAppointmentUtcRange(
+				appointmentData,
+				appointmentData.shop?.timezone || 'UTC'
+			);
+			const shopName = appointmentData.shop?.name || 'Your Seamstress';
+			const ics = buildIcsCalendar({
+				method,
+				events: [
+					{
+						uid: getAppointmentUid(appointmentData.id),
+						start,
+						end,
+						summary: `${getAppointmentTypeLabel(appointmentData.type)} with ${shopName}`,
+						location:
+							appointmentData.shop?.mailing_address ||
+							appointmentData.shop?.business_address ||
+							undefined,
+						status: method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED',
+						sequence: getAppointmentSequence(appointmentData),
+						organizer: {
+							name: shopName,
+							email: appointmentData.shop?.email || emailConfig.sender.address,
+						},
+						attendee: {
+							name: `${appointmentData.client.first_name} ${appointmentData.client.last_name}`,
+							email: appointmentData.client.email,
+						},
+					},
+				],
+			});
+
+			return {
+				filename: method === 'CANCEL' ? 'cancellation.ics' : 'appointment.ics',
+				content: Buffer.from(ics, 'utf-8'),
+				contentType: `text/calendar; charset=utf-8; method=${method}`,
+			};
+		} catch (error) {
+			// The email is still useful without the calendar file
+			console.warn('⚠️ Failed to build .ics attachment:', error);
+			return null;
+		}
+	}
+
 	private async checkDeliveryConstraints(
 		appointment: any,
 		emailType: EmailType
@@ -502,6 +1010,11 @@ export class EmailService {
 				emailPayload.html = rendered.html;
 			}
 
+			const invite = this.buildCalendarAttachment(emailType, appointmentData);
+			if (invite) {
+				emailPayload.attachments = [invite];
+			}
+
 			const clientResult = await this.resendClient.send(emailPayload);
 			console.log('⬅️ Client send result:', clientResult);
 			results.push(clientResult);
@@ -0,0 +1,406 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { emailConfig } from '@/lib/config/email.config';
+import { formatInTimezone } from '@/lib/utils/date-time-utc';
+import { formatDateSafeCustom } from '@/lib/utils/date-time-utils';
+import { formatCurrency } from '@/lib/utils/formatting';
+import {
+	INSTALLMENT_LINK_EMAIL,
+	INSTALLMENT_REMINDER_DAYS_BEFORE,
+	getInstallmentStatuses,
+} from '@/lib/utils/installments';
+import {
+	PAYMENT_LINK_EXPIRY_DAYS,
+	createPaymentLink,
+} from '@/lib/utils/payment-links';
+import {
+	getDaysBetween,
+	renderPaymentReminder,
+} from '@/lib/utils/payment-reminders';
+import { getShopDisplayName } from '@/lib/utils/shop';
+import type { ReminderOutcome } from './appointment-reminder-service';
+import { getResendClient, ResendClient } from './resend-client';
+
+const OPEN_INVOICE_STATUSES = ['pending', 'partially_paid'];
+
+// Payments that brought money in; refunds are netted out via refunded_amount_cents
+const COLLECTED_PAYMENT_STATUSES = [
+	'completed',
+	'partially_refunded',
+	'refunded',
+];
+
+const INSTALLMENT_INVOICE_SELECT = `
+  id,
+  invoice_number,
+  status,
+  client_id,
+  shop:shops(id, name, business_name, email, phone_number, timezone, owner_user_id),
+  client:clients(first_name, last_name, email, accept_email),
+  payments(amount_cents, refunded_amount_cents, status, payment_type),
+  invoice_installments(id, sequence, amount_cents, due_date)
+`;
+
+export interface InstallmentReminderResult {
+	installmentId: string;
+	invoiceId: string;
+	outcome: ReminderOutcome;
+	reason?: string;
+}
+
+export interface InstallmentReminderDispatchSummary {
+	sent: number;
+	skipped: number;
+	failed: number;
+	results: InstallmentReminderResult[];
+}
+
+interface InstallmentShop {
+	id: string;
+	name: string;
+	business_name: string | null;
+	email: string | null;
+	phone_number: string | null;
+	timezone: string | null;
+	owner_user_id: string;
+}
+
+interface InstallmentInvoice {
+	id: string;
+	invoice_number: string;
+	status: string;
+	client_id: string;
+	shop: InstallmentShop | null;
+	client: {
+		first_name: string;
+		last_name: string;
+		email: string | null;
+		accept_email: boolean | null;
+	} | null;
+	payments: Array<{
+		amount_cents: number;
+		refunded_amount_cents: number | null;
+		status: string;
+		payment_type: string;
+	}>;
+	invoice_installments: Array<{
+		id: string;
+		sequence: number;
+		amount_cents: number;
+		due_date: string;
+	}>;
+}
+
+interface PendingReminder {
+	id: string;
+	invoice: InstallmentInvoice | null;
+}
+
+/**
+ * Emails clients a payment link for one installment of their plan, either
+ * when the shop asks or a few days before the installment is due. Late
+ * installments are left to the overdue payment reminder schedule.
+ *
+ * A scheduled reminder is claimed by setting reminder_sent_at before the email
+ * goes out, so overlapping runs can't both send it; a failed send clears it
+ * again for the next run.
+ */
+export class InstallmentReminderService {
+	constructor(
+		private supabase: SupabaseClient<Database>,
+		private resendClient: ResendClient = getResendClient()
+	) {}
+
+	async dispatchUpcomingReminders(
+		shopId?: string
+	): Promise<InstallmentReminderDispatchSummary> {
+		const summary: InstallmentReminderDispatchSummary = {
+			sent: 0,
+			skipped: 0,
+			failed: 0,
+			results: [],
+		};
+
+		// Shop timezones can put "today" a day either side of UTC's
+		const horizon = new Date();
+		horizon.setUTCDate(
+			horizon.getUTCDate() + INSTALLMENT_REMINDER_DAYS_BEFORE + 1
+		);
+		const floor = new Date();
+		floor.setUTCDate(floor.getUTCDate() - 1);
+
+		let query = this.supabase
+			.from('invoice_installments')
+			.select(`id, invoice:invoices!inner(${INSTALLMENT_INVOICE_SELECT})`)
+			.is('reminder_sent_at', null)
+			.gte('due_date', floor.toISOString().slice(0, 10))
+			.lte('due_date', horizon.toISOString().slice(0, 10))
+			.in('invoice.status', OPEN_INVOICE_STATUSES);
+
+		if (shopId) {
+			query = query.eq('shop_id', shopId);
+		}
+
+		const { data, error } = await query;
+
+		if (error) {
+			console.error(
+				'[InstallmentReminderService] Failed to fetch installments:',
+				error
+			);
+			throw new Error('Failed to fetch installments for reminders');
+		}
+
+		const pending = (data || []) as unknown as PendingReminder[];
+		const pausedClients = await this.fetchPausedClients(
+			pending.flatMap((row) => (row.invoice ? [row.invoice.client_id] : []))
+		);
+
+		for (const row of pending) {
+			if (!row.invoice?.shop) continue;
+
+			const timezone = row.invoice.shop.timezone || 'UTC';
+			const today = formatInTimezone(new Date(), timezone, 'yyyy-MM-dd');
+			const installment = this.getInstallmentsWithStatus(
+				row.invoice,
+				today
+			).find((candidate) => candidate.id === row.id);
+			if (!installment || installment.status !== 'due') continue;
+
+			const daysUntilDue = getDaysBetween(today, installment.due_date);
+			if (daysUntilDue > INSTALLMENT_REMINDER_DAYS_BEFORE) continue;
+
+			let result: InstallmentReminderResult;
+			if (pausedClients.has(row.invoice.client_id)) {
+				result = {
+					installmentId: row.id,
+					invoiceId: row.invoice.id,
+					outcome: 'skipped',
+					reason: 'Reminders paused',
+				};
+			} else {
+				result = await this.sendScheduledReminder(row.invoice, row.id, today);
+			}
+
+			summary[result.outcome]++;
+			summary.results.push(result);
+		}
+
+		return summary;
+	}
+
+	/**
+	 * Send the payment link for an installment now. Returns the link so the
+	 * shop can also share it another way.
+	 */
+	async sendInstallmentLink(
+		installmentId: string,
+		shopId: string
+	): Promise<{ url: string; emailed: boolean; reason?: string }> {
+		const { data, error } = await this.supabase
+			.from('invoice_installments')
+			.select(`id, invoice:invoices!inner(${INSTALLMENT_INVOICE_SELECT})`)
+			.eq('id', installmentId)
+			.eq('shop_id', shopId)
+			.single();
+
+		const invoice = (data as unknown as PendingReminder | null)?.invoice;
+		if (error || !invoice?.shop) {
+			throw new Error('Installment not found');
+		}
+		if (!OPEN_INVOICE_STATUSES.includes(invoice.status)) {
+			throw new Error('This invoice is not open for payment');
+		}
+
+		const today = formatInTimezone(
+			new Date(),
+			invoice.shop.timezone || 'UTC',
+			'yyyy-MM-dd'
+		);
+		const installment = this.getInstallmentsWithStatus(invoice, today).find(
+			(candidate) => candidate.id === installmentId
+		);
+		if (!installment || installment.status === 'paid') {
+			throw new Error('This installment is already paid');
+		}
+
+		const link = await createPaymentLink(
+			this.supabase,
+			invoice.id,
+			getLinkExpiryDays(today, installment.due_date),
+			installmentId
+		);
+
+		const skipReason = getSkipReason(invoice);
+		if (skipReason) {
+			return { url: link.url, emailed: false, reason: skipReason };
+		}
+
+		await this.sendEmail(invoice, installmentId, today, link.url);
+		return { url: link.url, emailed: true };
+	}
+
+	private async fetchPausedClients(clientIds: string[]): Promise<Set<string>> {
+		if (clientIds.length === 0) return new Set();
+
+		const { data, error } = await this.supabase
+			.from('payment_reminder_pauses')
+			.select('client_id')
+			.in('client_id', [...new Set(clientIds)]);
+
+		if (error) {
+			// Sending to a client who asked for a pause is worse than waiting a day
+			console.error(
+				'[InstallmentReminderService] Failed to fetch pauses:',
+				error
+			);
+			throw new Error('Failed to fetch payment reminder pauses');
+		}
+
+		return new Set((data || []).map((pause) => pause.client_id));
+	}
+
+	private getInstallmentsWithStatus(
+		invoice: InstallmentInvoice,
+		today: string
+	) {
+		const paidCents = invoice.payments
+			.filter(
+				(payment) =>
+					COLLECTED_PAYMENT_STATUSES.includes(payment.status) &&
+					payment.payment_type !== 'refund'
+			)
+			.reduce(
+				(sum, payment) =>
+					sum + payment.amount_cents - (payment.refunded_amount_cents || 0),
+				0
+			);
+
+		return getInstallmentStatuses(
+			invoice.invoice_installments,
+			paidCents,
+			today
+		);
+	}
+
+	private async sendScheduledReminder(
+		invoice: InstallmentInvoice,
+		installmentId: string,
+		today: string
+	): Promise<InstallmentReminderResult> {
+		const base = { installmentId, invoiceId: invoice.id };
+
+		const skipReason = getSkipReason(invoice);
+		if (skipReason) {
+			return { ...base, outcome: 'skipped', reason: skipReason };
+		}
+
+		const { data: claim, error: claimError } = await this.supabase
+			.from('invoice_installments')
+			.update({ reminder_sent_at: new Date().toISOString() })
+			.eq('id', installmentId)
+			.is('reminder_sent_at', null)
+			.select('id, due_date')
+			.maybeSingle();
+
+		if (claimError || !claim) {
+			if (claimError) {
+				console.error(
+					'[InstallmentReminderService] Failed to claim reminder:',
+					{ installmentId, error: claimError }
+				);
+			}
+			return { ...base, outcome: 'skipped', reason: 'Already claimed' };
+		}
+
+		try {
+			const link = await createPaymentLink(
+				this.supabase,
+				invoice.id,
+				getLinkExpiryDays(today, claim.due_date),
+				installmentId
+			);
+			await this.sendEmail(invoice, installmentId, today, link.url);
+			return { ...base, outcome: 'sent' };
+		} catch (error) {
+			await this.supabase
+				.from('invoice_installments')
+				.update({ reminder_sent_at: null })
+				.eq('id', installmentId);
+
+			return {
+				...base,
+				outcome: 'failed',
+				reason:
+					error instanceof Error ? error.message : 'Failed to send reminder',
+			};
+		}
+	}
+
+	private async sendEmail(
+		invoice: InstallmentInvoice,
+		installmentId: string,
+		today: string,
+		paymentLinkUrl: string
+	): Promise<void> {
+		const shop = invoice.shop!;
+		const client = invoice.client!;
+		const installment = this.getInstallmentsWithStatus(invoice, today).find(
+			(candidate) => candidate.id === installmentId
+		)!;
+
+		const shopName = getShopDisplayName(shop) || emailConfig.sender.name;
+		const rendered = renderPaymentReminder(INSTALLMENT_LINK_EMAIL, {
+			client_name: `${client.first_name} ${client.last_name}`.trim(),
+			shop_name: shopName,
+			invoice_number: invoice.invoice_number,
+			installment_number: String(installment.sequence),
+			installment_count: String(invoice.invoice_installments.length),
+			installment_amount: formatCurrency(installment.remainingCents),
+			due_date: formatDateSafeCustom(installment.due_date, 'MMMM d, yyyy'),
+			payment_link: paymentLinkUrl,
+		});
+
+		const result = await this.resendClient.send({
+			to: client.email!,
+			subject: rendered.subject,
+			text: rendered.body,
+			from: `${shopName} <${emailConfig.sender.address}>`,
+			...(shop.email ? { replyTo: shop.email } : {}),
+		});
+		if (!result.success) {
+			throw new Error(result.error || 'Failed to send installment email');
+		}
+
+		const { error } = await this.supabase.from('email_logs').insert({
+			email_type: 'installment_reminder',
+			recipient_email: client.email!,
+			recipient_name: `${client.first_name} ${client.last_name}`.trim(),
+			subject: rendered.subject,
+			body: rendered.body,
+			status: 'sent',
+			resend_id: result.messageId || null,
+			created_by: shop.owner_user_id,
+			sent_at: new Date().toISOString(),
+			metadata: { invoice_id: invoice.id, installment_id: installmentId },
+		});
+
+		if (error) {
+			// The email went out, which is what matters
+			console.error('[InstallmentReminderService] Failed to log email:', error);
+		}
+	}
+}
+
+function getSkipReason(invoice: InstallmentInvoice): string | null {
+	if (!invoice.client?.email) return 'Client has no email';
+	if (invoice.client.accept_email === false) return 'Client opted out';
+	return null;
+}
+
+/**
+ * Installment links stay valid until a while after the installment is due
+ */
+function getLinkExpiryDays(today: string, dueDate: string): number {
+	return Math.max(0, getDaysBetween(today, dueDate)) + PAYMENT_LINK_EXPIRY_DAYS;
+}
@@ -0,0 +1,536 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { emailConfig } from '@/lib/config/email.config';
+import { formatInTimezone } from '@/lib/utils/date-time-utc';
+import { formatCurrency } from '@/lib/utils/formatting';
+import { getInstallmentStatuses } from '@/lib/utils/installments';
+import { createPaymentLink } from '@/lib/utils/payment-links';
+import {
+	getDaysBetween,
+	getDueReminderStep,
+	getOverdueSince,
+	renderPaymentReminder,
+} from '@/lib/utils/payment-reminders';
+import { getShopDisplayName } from '@/lib/utils/shop';
+import type { ReminderOutcome } from './appointment-reminder-service';
+import { getResendClient, ResendClient } from './resend-client';
+
+const OPEN_INVOICE_STATUSES = ['pending', 'partially_paid'];
+
+// Payments that brought money in; refunds are netted out via refunded_amount_cents
+const COLLECTED_PAYMENT_STATUSES = [
+	'completed',
+	'partially_refunded',
+	'refunded',
+];
+
+export interface PaymentReminderResult {
+	invoiceId: string;
+	shopId: string;
+	outcome: ReminderOutcome;
+	daysAfter: number;
+	reason?: string;
+}
+
+export interface PaymentReminderDispatchSummary {
+	shopsProcessed: number;
+	sent: number;
+	skipped: number;
+	failed: number;
+	results: PaymentReminderResult[];
+}
+
+interface ReminderShop {
+	id: string;
+	name: string;
+	business_name: string | null;
+	email: string | null;
+	phone_number: string | null;
+	timezone: string | null;
+	owner_user_id: string;
+}
+
+interface ReminderStep {
+	id: string;
+	days_after: number;
+	subject: string;
+	body: string;
+}
+
+interface OverdueInvoice {
+	id: string;
+	invoice_number: string;
+	amount_cents: number;
+	due_date: string | null;
+	order_id: string;
+	client_id: string;
+	payment_reminders_stopped_at: string | null;
+	client: {
+		first_name: string;
+		last_name: string;
+		email: string | null;
+		accept_email: boolean | null;
+	} | null;
+	order: { order_number: string } | null;
+	payments: Array<{
+		amount_cents: number;
+		refunded_amount_cents: number | null;
+		status: string;
+		payment_type: string;
+	}>;
+	payment_reminders: Array<{
+		days_after: number;
+		status: string;
+		installment_id: string | null;
+	}>;
+	invoice_installments?: Array<{
+		id: string;
+		sequence: number;
+		amount_cents: number;
+		due_date: string;
+	}>;
+}
+
+/**
+ * Works through each shop's overdue-payment reminder schedule. An invoice is
+ * overdue from its due date (for a payment plan, its earliest late
+ * installment, each of which gets its own run of steps), or from the first
+ * pickup on its order while money was still owed. Each run sends at most one
+ * step per invoice, with a fresh payment link. A payment drops the steps that
+ * were already due; later ones still go out while money is owed.
+ *
+ * The step is claimed (a payment_reminders row in 'sending') before the email
+ * goes out so that overlapping runs can't both send it; a failed send marks
+ * the row 'failed', which frees the step for the next run.
+ */
+export class PaymentReminderService {
+	constructor(
+		private supabase: SupabaseClient<Database>,
+		private resendClient: ResendClient = getResendClient()
+	) {}
+
+	async dispatchDueReminders(
+		shopId?: string
+	): Promise<PaymentReminderDispatchSummary> {
+		const summary: PaymentReminderDispatchSummary = {
+			shopsProcessed: 0,
+			sent: 0,
+			skipped: 0,
+			failed: 0,
+			results: [],
+		};
+
+		const shops = await this.fetchShops(shopId);
+
+		for (const shop of shops) {
+			const steps = await this.fetchSteps(shop.id);
+			if (steps.length === 0) continue;
+
+			summary.shopsProcessed++;
+			const results = await this.dispatchForShop(shop, steps);
+
+			for (const result of results) {
+				summary[result.outcome]++;
+				summary.results.push(result);
+			}
+		}
+
+		return summary;
+	}
+
+	private async fetchShops(shopId?: string): Promise<ReminderShop[]> {
+		let query = this.supabase
+			.from('shop_settings')
+			.select(
+				'shop:shops(id, name, business_name, email, phone_number, timezone, owner_user_id)'
+			)
+			.eq('payment_reminders_enabled', true);
+
+		if (shopId) {
+			query = query.eq('shop_id', shopId);
+		}
+
+		const { data, error } = await query;
+
+		if (error) {
+			console.error('[PaymentReminderService] Failed to fetch shops:', error);
+			throw new Error('Failed to fetch shops for payment reminders');
+		}
+
+		return (data || []).flatMap((row) =>
+			row.shop ? [row.shop as unknown as ReminderShop] : []
+		);
+	}
+
+	private async fetchSteps(shopId: string): Promise<ReminderStep[]> {
+		const { data, error } = await this.supabase
+			.from('payment_reminder_steps')
+			.select('id, days_after, subject, body')
+			.eq('shop_id', shopId)
+			.order('days_after', { ascending: true });
+
+		if (error) {
+			console.error('[PaymentReminderService] Failed to fetch steps:', {
+				shopId,
+				error,
+			});
+			throw new Error('Failed to fetch payment reminder steps');
+		}
+
+		return data || [];
+	}
+
+	private async dispatchForShop(
+		shop: ReminderShop,
+		steps: ReminderStep[]
+	): Promise<PaymentReminderResult[]> {
+		const { data, error } = await this.supabase
+			.from('invoices')
+			.select(
+				`
+        id,
+        invoice_number,
+        amount_cents,
+        due_date,
+        order_id,
+        client_id,
+        payment_reminders_stopped_at,
+        client:clients(first_name, last_name, email, accept_email),
+        order:orders(order_number),
+        payments(amount_cents, refunded_amount_cents, status, payment_type),
+        payment_reminders(days_after, status, installment_id),
+        invoice_installments(id, sequence, amount_cents, due_date)
+      `
+			)
+			.eq('shop_id', shop.id)
+			.in('status', OPEN_INVOICE_STATUSES);
+
+		if (error) {
+			console.error('[PaymentReminderService] Failed to fetch invoices:', {
+				shopId: shop.id,
+				error,
+			});
+			throw new Error('Failed to fetch invoices for payment reminders');
+		}
+
+		const invoices = (data || []) as unknown as OverdueInvoice[];
+		if (invoices.length === 0) return [];
+
+		const timezone = shop.timezone || 'UTC';
+		const today = formatInTimezone(new Date(), timezone, 'yyyy-MM-dd');
+		const pickups = await this.fetchFirstPickups(
+			invoices.map((invoice) => invoice.order_id)
+		);
+		const pausedClients = await this.fetchPausedClients(shop.id);
+
+		const results: PaymentReminderResult[] = [];
+		for (const invoice of invoices) {
+			const balanceCents = getBalanceCents(invoice);
+			if (balanceCents <= 0) continue;
+
+			const target = getReminderTarget(invoice, balanceCents, today);
+			const overdueSince = getOverdueSince({
+				dueDate: target.dueDate,
+				pickedUpAt: pickups.get(invoice.order_id),
+				timezone,
+			});
+			if (!overdueSince) continue;
+
+			const daysOverdue = getDaysBetween(overdueSince, today);
+			const lastPaidAt = invoice.payment_reminders_stopped_at;
+			const step = getDueReminderStep(
+				steps,
+				daysOverdue,
+				invoice.payment_reminders
+					.filter(
+						(reminder) =>
+							reminder.status !== 'failed' &&
+							reminder.installment_id === target.installmentId
+					)
+					.map((reminder) => reminder.days_after),
+				lastPaidAt
+					? getDaysBetween(
+							overdueSince,
+							formatInTimezone(lastPaidAt, timezone, 'yyyy-MM-dd')
+						)
+					: 0
+			);
+			if (!step) continue;
+
+			results.push(
+				await this.sendReminder(shop, invoice, step, {
+					installmentId: target.installmentId,
+					balanceCents,
+					daysOverdue,
+					paused: pausedClients.has(invoice.client_id),
+				})
+			);
+		}
+
+		return results;
+	}
+
+	private async fetchPausedClients(shopId: string): Promise<Set<string>> {
+		const { data, error } = await this.supabase
+			.from('payment_reminder_pauses')
+			.select('client_id')
+			.eq('shop_id', shopId);
+
+		if (error) {
+			// Sending to a client who asked for a pause is worse than waiting a day
+			console.error('[PaymentReminderService] Failed to fetch pauses:', error);
+			throw new Error('Failed to fetch payment reminder pauses');
+		}
+
+		return new Set((data || []).map((pause) => pause.client_id));
+	}
+
+	/**
+	 * When each order first had a garment picked up, from garment history
+	 */
+	private async fetchFirstPickups(
+		orderIds: string[]
+	): Promise<Map<string, string>> {
+		const pickups = new Map<string, string>();
+
+		const { data: garments, error } = await this.supabase
+			.from('garments')
+			.select('id, order_id')
+			.in('order_id', orderIds)
+			.eq('stage', 'Done');
+
+		if (error || !garments?.length) {
+			if (error) {
+				console.error(
+					'[PaymentReminderService] Failed to fetch picked up garments:',
+					error
+				);
+			}
+			return pickups;
+		}
+
+		const orderByGarment = new Map(garments.map((g) => [g.id, g.order_id]));
+		const { data: history, error: historyError } = await this.supabase
+			.from('garment_history')
+			.select('garment_id, changed_at, new_value')
+			.in('garment_id', [...orderByGarment.keys()])
+			.eq('field_name', 'stage');
+
+		if (historyError) {
+			console.error(
+				'[PaymentReminderService] Failed to fetch pickup history:',
+				historyError
+			);
+			return pickups;
+		}
+
+		for (const entry of history || []) {
+			if (entry.new_value !== 'Done') continue;
+			const orderId = orderByGarment.get(entry.garment_id);
+			if (!orderId) continue;
+			const current = pickups.get(orderId);
+			if (!current || entry.changed_at < current) {
+				pickups.set(orderId, entry.changed_at);
+			}
+		}
+
+		return pickups;
+	}
+
+	private async sendReminder(
+		shop: ReminderShop,
+		invoice: OverdueInvoice,
+		step: ReminderStep,
+		{
+			installmentId,
+			balanceCents,
+			daysOverdue,
+			paused,
+		}: {
+			installmentId: string | null;
+			balanceCents: number;
+			daysOverdue: number;
+			paused: boolean;
+		}
+	): Promise<PaymentReminderResult> {
+		const base = {
+			invoiceId: invoice.id,
+			shopId: shop.id,
+			daysAfter: step.days_after,
+		};
+		const client = invoice.client;
+
+		if (!client?.email) {
+			return { ...base, outcome: 'skipped', reason: 'Client has no email' };
+		}
+		if (client.accept_email === false) {
+			return { ...base, outcome: 'skipped', reason: 'Client opted out' };
+		}
+		if (paused) {
+			return { ...base, outcome: 'skipped', reason: 'Reminders paused' };
+		}
+
+		const shopName = getShopDisplayName(shop) || emailConfig.sender.name;
+		const variables: Record<string, string> = {
+			client_name: `${client.first_name} ${client.last_name}`.trim(),
+			shop_name: shopName,
+			shop_email: shop.email || '',
+			shop_phone: shop.phone_number || '',
+			invoice_number: invoice.invoice_number,
+			order_number: invoice.order?.order_number || '',
+			invoice_total: formatCurrency(invoice.amount_cents),
+			balance_due: formatCurrency(balanceCents),
+			days_overdue: String(daysOverdue),
+			payment_link: '',
+		};
+		const preview = renderPaymentReminder(step, variables);
+
+		const { data: claim, error: claimError } = await this.supabase
+			.from('payment_reminders')
+			.insert({
+				shop_id: shop.id,
+				invoice_id: invoice.id,
+				installment_id: installmentId,
+				step_id: step.id,
+				days_after: step.days_after,
+				status: 'sending',
+				recipient_email: client.email,
+				subject: preview.subject,
+				balance_cents: balanceCents,
+			})
+			.select('id')
+			.single();
+
+		if (claimError || !claim) {
+			// A unique violation means another run has this step
+			if (claimError?.code !== '23505') {
+				console.error('[PaymentReminderService] Failed to claim reminder:', {
+					invoiceId: invoice.id,
+					error: claimError,
+				});
+			}
+			return { ...base, outcome: 'skipped', reason: 'Already claimed' };
+		}
+
+		let paymentLinkUrl: string | null = null;
+		try {
+			paymentLinkUrl = (await createPaymentLink(this.supabase, invoice.id)).url;
+			const rendered = renderPaymentReminder(step, {
+				...variables,
+				payment_link: paymentLinkUrl,
+			});
+
+			const result = await this.resendClient.send({
+				to: client.email,
+				subject: rendered.subject,
+				text: rendered.body,
+				from: `${shopName} <${emailConfig.sender.address}>`,
+				...(shop.email ? { replyTo: shop.email } : {}),
+			});
+			if (!result.success) {
+				throw new Error(result.error || 'Failed to send reminder');
+			}
+
+			await this.supabase
+				.from('payment_reminders')
+				.update({
+					status: 'sent',
+					sent_at: new Date().toISOString(),
+					subject: rendered.subject,
+					payment_link_url: paymentLinkUrl,
+					resend_id: result.messageId || null,
+				})
+				.eq('id', claim.id);
+
+			await this.logEmail(shop, invoice, rendered, {
+				reminderId: claim.id,
+				resendId: result.messageId,
+			});
+
+			return { ...base, outcome: 'sent' };
+		} catch (error) {
+			const reason =
+				error instanceof Error ? error.message : 'Failed to send reminder';
+			await this.supabase
+				.from('payment_reminders')
+				.update({
+					status: 'failed',
+					error: reason,
+					payment_link_url: paymentLinkUrl,
+				})
+				.eq('id', claim.id);
+
+			return { ...base, outcome: 'failed', reason };
+		}
+	}
+
+	private async logEmail(
+		shop: ReminderShop,
+		invoice: OverdueInvoice,
+		rendered: { subject: string; body: string },
+		{
+			reminderId,
+			resendId,
+		}: { reminderId: string; resendId?: string | undefined }
+	): Promise<void> {
+		const { error } = await this.supabase.from('email_logs').insert({
+			email_type: 'payment_reminder',
+			recipient_email: invoice.client?.email || '',
+			recipient_name:
+				`${invoice.client?.first_name || ''} ${invoice.client?.last_name || ''}`.trim(),
+			subject: rendered.subject,
+			body: rendered.body,
+			status: 'sent',
+			resend_id: resendId || null,
+			created_by: shop.owner_user_id,
+			sent_at: new Date().toISOString(),
+			metadata: { invoice_id: invoice.id, payment_reminder_id: reminderId },
+		});
+
+		if (error) {
+			// The reminder went out; its own record is the history that matters
+			console.error('[PaymentReminderService] Failed to log email:', error);
+		}
+	}
+}
+
+/**
+ * What the reminder is chasing: the invoice from its due date, or for a
+ * payment plan, its earliest late installment from that installment's due
+ * date. Each installment works through the schedule on its own, so paying one
+ * off doesn't keep the next from being chased.
+ */
+function getReminderTarget(
+	invoice: OverdueInvoice,
+	balanceCents: number,
+	today: string
+): { dueDate: string | null; installmentId: string | null } {
+	if (!invoice.invoice_installments?.length) {
+		return { dueDate: invoice.due_date, installmentId: null };
+	}
+
+	const lateInstallment = getInstallmentStatuses(
+		invoice.invoice_installments,
+		invoice.amount_cents - balanceCents,
+		today
+	).find((installment) => installment.status === 'late');
+	return {
+		dueDate: lateInstallment?.due_date ?? null,
+		installmentId: lateInstallment?.id ?? null,
+	};
+}
+
+function getBalanceCents(invoice: OverdueInvoice): number {
+	const paid = invoice.payments
+		.filter(
+			(payment) =>
+				COLLECTED_PAYMENT_STATUSES.includes(payment.status) &&
+				payment.payment_type !== 'refund'
+		)
+		.reduce(
+			(sum, payment) =>
+				sum + payment.amount_cents - (payment.refunded_amount_cents || 0),
+			0
+		);
+	return invoice.amount_cents - paid;
+}
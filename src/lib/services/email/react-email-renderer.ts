@@ -15,6 +15,8 @@ import {
 	PaymentLinkPreview,
 	PaymentReceived,
 	InvoiceSent,
+	GarmentReadyForPickup,
+	WaitlistSlotOffer,
 } from '@/components/emails/templates';
 
 interface EmailData {
@@ -39,6 +41,8 @@ interface EmailData {
 	amount?: string;
 	payment_link?: string;
 	order_details?: string;
+	discount?: string;
+	discount_label?: string;
 	invoice_details?: string;
 	due_date?: string;
 
@@ -46,6 +50,17 @@ interface EmailData {
 	confirmation_link?: string;
 	cancel_link?: string;
 
+	// Order info
+	order_number?: string;
+	garment_name?: string;
+	garment_names?: string[];
+	balance_due?: string;
+	order_status_link?: string;
+
+	// Waitlist info
+	appointment_type?: string;
+	claim_link?: string;
+
 	// Other
 	seamstress_name?: string;
 }
@@ -152,6 +167,10 @@ export class ReactEmailRenderer {
 					...props,
 					amount: data.amount || '',
 					orderDetails: data.order_details || '',
+					...(data.discount && {
+						discount: data.discount,
+						discountLabel: data.discount_label || 'Discount',
+					}),
 				});
 
 			case 'invoice_sent':
@@ -163,6 +182,28 @@ export class ReactEmailRenderer {
 					paymentLink: data.payment_link,
 				});
 
+			case 'garment_ready_for_pickup':
+				return GarmentReadyForPickup({
+					...props,
+					garmentNames:
+						data.garment_names ||
+						(data.garment_name ? [data.garment_name] : []),
+					orderNumber: data.order_number,
+					balanceDue: data.balance_due,
+					paymentLink: data.payment_link,
+					orderStatusLink: data.order_status_link,
+					orderId: data.order_id,
+				});
+
+			case 'waitlist_slot_offer':
+				return WaitlistSlotOffer({
+					...props,
+					appointmentTime: data.appointment_time || '',
+					appointmentType: data.appointment_type || 'Appointment',
+					claimLink: data.claim_link || '',
+					offerId: data.waitlist_offer_id,
+				});
+
 			case 'appointment_no_show':
 				return AppointmentNoShow({
 					...props,
@@ -220,6 +261,10 @@ export class ReactEmailRenderer {
 				return `Invoice from ${shopName}`;
 			case 'appointment_no_show':
 				return `We missed you at ${shopName}`;
+			case 'garment_ready_for_pickup':
+				return `Your order is ready for pickup at ${shopName}`;
+			case 'waitlist_slot_offer':
+				return `An appointment just opened up at ${shopName}`;
 			case 'appointment_rescheduled_seamstress':
 				return `Appointment rescheduled: ${clientName}`;
 			case 'appointment_canceled_seamstress':
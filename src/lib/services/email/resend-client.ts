@@ -2,6 +2,12 @@ import { Resend } from 'resend';
 import { emailConfig } from '../../config/email.config';
 import { EMAIL_FOOTER } from '../../utils/email/constants';
 
+export interface EmailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
+}
+
 export interface SendEmailPayload {
   to: string | string[];
   subject: string;
@@ -9,6 +15,7 @@ export interface SendEmailPayload {
   html?: string;
   from?: string;
   replyTo?: string;
+  attachments?: EmailAttachment[];
 }
 
 export interface SendEmailResult {
@@ -72,6 +79,10 @@ export class ResendClient {
         emailOptions.html = payload.html;
       }
 
+      if (payload.attachments?.length) {
+        emailOptions.attachments = payload.attachments;
+      }
+
       const replyToAddress = payload.replyTo || emailConfig.sender.replyTo;
       if (replyToAddress) {
         emailOptions.replyTo = replyToAddress;
@@ -0,0 +1,48 @@
+import type { SendSmsPayload, SendSmsResult, SmsProvider } from './sms-client';
+
+export interface FakeSmsMessage extends SendSmsPayload {
+	id: string;
+	sentAt: Date;
+}
+
+/**
+ * In-memory SMS provider. Records every message instead of sending it so tests
+ * and local development can assert on what would have gone out.
+ */
+export class FakeSmsProvider implements SmsProvider {
+	readonly messages: FakeSmsMessage[] = [];
+	private nextError: string | null = null;
+
+	async send(payload: SendSmsPayload): Promise<SendSmsResult> {
+		if (this.nextError) {
+			const error = this.nextError;
+			this.nextError = null;
+			return { success: false, error };
+		}
+
+		const message: FakeSmsMessage = {
+			...payload,
+			id: `fake_sms_${this.messages.length + 1}`,
+			sentAt: new Date(),
+		};
+		this.messages.push(message);
+
+		return { success: true, messageId: message.id };
+	}
+
+	/**
+	 * Make the next send fail with the given error
+	 */
+	failNext(error: string): void {
+		this.nextError = error;
+	}
+
+	lastMessage(): FakeSmsMessage | undefined {
+		return this.messages[this.messages.length - 1];
+	}
+
+	reset(): void {
+		this.messages.length = 0;
+		this.nextError = null;
+	}
+}
@@ -0,0 +1,111 @@
+import twilio from 'twilio';
+import { smsConfig } from '../../config/sms.config';
+import { FakeSmsProvider } from './fake-sms-provider';
+
+export interface SendSmsPayload {
+	to: string;
+	body: string;
+}
+
+export interface SendSmsResult {
+	success: boolean;
+	messageId?: string;
+	error?: string;
+}
+
+/**
+ * Anything that can deliver a text message. Twilio in production,
+ * FakeSmsProvider in tests and local development.
+ */
+export interface SmsProvider {
+	send(payload: SendSmsPayload): Promise<SendSmsResult>;
+}
+
+export class TwilioSmsClient implements SmsProvider {
+	private client: ReturnType<typeof twilio> | null;
+	private isPreviewMode: boolean;
+	private devOverrideRecipient: string | null;
+
+	constructor() {
+		const { accountSid, authToken } = smsConfig.twilio;
+		this.client =
+			accountSid && authToken ? twilio(accountSid, authToken) : null;
+		this.isPreviewMode = smsConfig.features.previewMode;
+		// In non-production, allow optional override to a single phone when explicitly set
+		this.devOverrideRecipient =
+			process.env.NODE_ENV !== 'production'
+				? smsConfig.dev.overrideRecipient
+				: null;
+	}
+
+	async send(payload: SendSmsPayload): Promise<SendSmsResult> {
+		// In preview mode, log instead of sending, unless we have a dev override
+		if (this.isPreviewMode && !this.devOverrideRecipient) {
+			console.log('📱 SMS Preview:', {
+				to: payload.to,
+				body: payload.body,
+			});
+			return {
+				success: true,
+				messageId: `preview_${Date.now()}`,
+			};
+		}
+
+		if (!this.client) {
+			return {
+				success: false,
+				error: 'Twilio credentials are not configured',
+			};
+		}
+
+		const { fromNumber, messagingServiceSid } = smsConfig.twilio;
+		if (!fromNumber && !messagingServiceSid) {
+			return {
+				success: false,
+				error: 'Twilio sender number is not configured',
+			};
+		}
+
+		try {
+			const message = await this.client.messages.create({
+				to: this.devOverrideRecipient || payload.to,
+				body: payload.body,
+				...(messagingServiceSid
+					? { messagingServiceSid }
+					: { from: fromNumber }),
+			});
+
+			console.log('✅ Twilio API success:', { sid: message.sid });
+			return {
+				success: true,
+				messageId: message.sid,
+			};
+		} catch (error) {
+			console.error('❌ Twilio client exception:', error);
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			};
+		}
+	}
+}
+
+// Singleton instance
+let smsProvider: SmsProvider | null = null;
+
+export function getSmsProvider(): SmsProvider {
+	if (!smsProvider) {
+		smsProvider =
+			smsConfig.provider === 'fake'
+				? new FakeSmsProvider()
+				: new TwilioSmsClient();
+	}
+	return smsProvider;
+}
+
+/**
+ * Replace the active provider (tests and local tooling only)
+ */
+export function setSmsProvider(provider: SmsProvider | null): void {
+	smsProvider = provider;
+}
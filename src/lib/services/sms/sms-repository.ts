@@ -0,0 +1,53 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SmsLog, SmsLogCreate, SmsType } from '../../../types/sms';
+
+export class SmsRepository {
+	constructor(
+		private supabase: SupabaseClient,
+		private userId: string
+	) {}
+
+	// SMS log operations
+	async createSmsLog(log: SmsLogCreate): Promise<string> {
+		const { data, error } = await this.supabase
+			.from('sms_logs')
+			.insert({
+				...log,
+				created_by: this.userId,
+			})
+			.select('id')
+			.single();
+
+		if (error) throw error;
+		return data.id;
+	}
+
+	async updateSmsLog(id: string, updates: Partial<SmsLog>): Promise<void> {
+		const { error } = await this.supabase
+			.from('sms_logs')
+			.update(updates)
+			.eq('id', id)
+			.eq('created_by', this.userId);
+
+		if (error) throw error;
+	}
+
+	/**
+	 * Find a previous send of the same type whose metadata contains `match`
+	 */
+	async findExistingLog(
+		smsType: SmsType,
+		match: Record<string, any>
+	): Promise<string | null> {
+		const { data } = await this.supabase
+			.from('sms_logs')
+			.select('id')
+			.eq('sms_type', smsType)
+			.eq('created_by', this.userId)
+			.contains('metadata', match)
+			.order('created_at', { ascending: false })
+			.limit(1);
+
+		return (data?.[0] as { id: string } | undefined)?.id ?? null;
+	}
+}
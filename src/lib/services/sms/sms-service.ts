@@ -0,0 +1,111 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SmsRecipient, SmsSendResult, SmsType } from '../../../types/sms';
+import { SmsRepository } from './sms-repository';
+import { SmsProvider, getSmsProvider } from './sms-client';
+import { renderSmsTemplate, SmsTemplateData } from './sms-templates';
+import { smsConfig } from '../../config/sms.config';
+import { getCleanPhoneNumber, isPhoneNumberValid } from '@/lib/utils/phone';
+
+export interface SendClientSmsOptions {
+	// Stored on the sms_logs row
+	metadata?: Record<string, any>;
+	// When set, skip the send if a log of the same type already contains these keys
+	dedupe?: Record<string, any>;
+}
+
+export class SmsService {
+	private repository: SmsRepository;
+	private provider: SmsProvider;
+
+	constructor(
+		private supabase: SupabaseClient,
+		private userId: string
+	) {
+		this.repository = new SmsRepository(supabase, userId);
+		this.provider = getSmsProvider();
+	}
+
+	/**
+	 * Send a templated text message to a client, honoring their SMS opt-in.
+	 * Opted-out clients and disabled SMS return silent success, like EmailService.
+	 */
+	async sendToClient(
+		client: SmsRecipient,
+		smsType: SmsType,
+		data: SmsTemplateData,
+		options: SendClientSmsOptions = {}
+	): Promise<SmsSendResult> {
+		try {
+			if (!smsConfig.features.enabled) {
+				console.log('❌ SMS not sent: SMS sending disabled');
+				return { success: true };
+			}
+
+			if (client.accept_sms !== true) {
+				console.log('❌ SMS not sent: Client has not opted in');
+				return { success: true };
+			}
+
+			if (!client.phone_number || !isPhoneNumberValid(client.phone_number)) {
+				return { success: false, error: 'Client phone number is invalid' };
+			}
+
+			if (options.dedupe) {
+				const existingLogId = await this.repository.findExistingLog(
+					smsType,
+					options.dedupe
+				);
+				if (existingLogId) {
+					console.log(
+						'ℹ️ SmsService: Skipping send due to existing sms_log (idempotency):',
+						{ smsType, existingLogId }
+					);
+					return { success: true, logId: existingLogId };
+				}
+			}
+
+			const to = getCleanPhoneNumber(client.phone_number);
+			const body = renderSmsTemplate(smsType, data);
+
+			const logId = await this.repository.createSmsLog({
+				sms_type: smsType,
+				recipient_phone: to,
+				recipient_name: `${client.first_name} ${client.last_name}`,
+				body,
+				status: 'pending',
+				attempts: 0,
+				last_error: null,
+				provider_message_id: null,
+				metadata: {
+					...(client.id ? { client_id: client.id } : {}),
+					...options.dedupe,
+					...options.metadata,
+				},
+				sent_at: null,
+			});
+
+			const result = await this.provider.send({ to, body });
+
+			await this.repository.updateSmsLog(logId, {
+				status: result.success ? 'sent' : 'failed',
+				provider_message_id: result.messageId || null,
+				sent_at: result.success ? new Date().toISOString() : null,
+				last_error: result.error || null,
+				attempts: 1,
+			});
+
+			return {
+				success: result.success,
+				...(result.messageId ? { messageId: result.messageId } : {}),
+				...(result.error ? { error: result.error } : {}),
+				logId,
+			};
+		} catch (error) {
+			console.error('❌ SmsService error:', error);
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to send SMS',
+			};
+		}
+	}
+}
@@ -0,0 +1,85 @@
+import { SmsType } from '../../../types/sms';
+
+export const SMS_OPT_OUT_FOOTER = 'Reply STOP to opt out.';
+
+// Variables available to SMS templates (same keys as email templates)
+export interface SmsTemplateData {
+	client_name?: string | undefined;
+	shop_name: string;
+	shop_phone?: string | undefined;
+	appointment_time?: string | undefined;
+	previous_time?: string | undefined;
+	confirmation_link?: string | undefined;
+	garment_name?: string | undefined;
+	amount?: string | undefined;
+	payment_link?: string | undefined;
+	order_status_link?: string | undefined;
+	claim_link?: string | undefined;
+}
+
+const firstName = (data: SmsTemplateData) =>
+	data.client_name?.split(' ')[0] || 'there';
+
+const contactLine = (data: SmsTemplateData) =>
+	data.shop_phone ? ` Questions? Call ${data.shop_phone}.` : '';
+
+// Plain-text templates. Kept short so most messages fit in one or two segments.
+const SMS_TEMPLATES: Record<SmsType, (data: SmsTemplateData) => string> = {
+	appointment_scheduled: (data) =>
+		`${data.shop_name}: Hi ${firstName(data)}, your appointment is scheduled for ${data.appointment_time}.` +
+		(data.confirmation_link
+			? ` Please confirm: ${data.confirmation_link}`
+			: '') +
+		contactLine(data),
+
+	appointment_rescheduled: (data) =>
+		`${data.shop_name}: Hi ${firstName(data)}, your appointment has moved` +
+		(data.previous_time ? ` from ${data.previous_time}` : '') +
+		` to ${data.appointment_time}.` +
+		(data.confirmation_link
+			? ` Please confirm: ${data.confirmation_link}`
+			: '') +
+		contactLine(data),
+
+	appointment_canceled: (data) =>
+		`${data.shop_name}: Hi ${firstName(data)}, your appointment` +
+		(data.previous_time ? ` on ${data.previous_time}` : '') +
+		` has been canceled.` +
+		contactLine(data),
+
+	appointment_reminder: (data) =>
+		`${data.shop_name}: Reminder - you have an appointment on ${data.appointment_time}.` +
+		contactLine(data),
+
+	garment_ready_for_pickup: (data) =>
+		`${data.shop_name}: Hi ${firstName(data)}, ${data.garment_name || 'your order'} is ready for pickup!` +
+		(data.amount && data.payment_link
+			? ` Balance due: ${data.amount}. Pay online: ${data.payment_link}`
+			: data.order_status_link
+				? ` Order details: ${data.order_status_link}`
+				: '') +
+		contactLine(data),
+
+	waitlist_slot_offer: (data) =>
+		`${data.shop_name}: Hi ${firstName(data)}, an appointment just opened up on ${data.appointment_time}. First to claim it gets it: ${data.claim_link}` +
+		contactLine(data),
+
+	payment_link: (data) =>
+		`${data.shop_name}: Hi ${firstName(data)}, you can pay ${data.amount || 'your balance'} online here: ${data.payment_link}` +
+		contactLine(data),
+};
+
+/**
+ * Render the plain-text body for an SMS, including the opt-out footer
+ */
+export function renderSmsTemplate(
+	smsType: SmsType,
+	data: SmsTemplateData
+): string {
+	const template = SMS_TEMPLATES[smsType];
+	if (!template) {
+		throw new Error(`Unsupported SMS type: ${smsType}`);
+	}
+
+	return `${template(data)} ${SMS_OPT_OUT_FOOTER}`;
+}
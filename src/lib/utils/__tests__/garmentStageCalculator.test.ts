@@ -1,5 +1,6 @@
 import {
   calculateGarmentStageClient,
+  getStageMoveError,
   shouldUpdateStageOptimistically,
 } from '../garmentStageCalculator';
 
@@ -101,4 +102,49 @@ describe('garmentStageCalculator', () => {
       ).toBe(true);
     });
   });
+
+  describe('getStageMoveError', () => {
+    const finished = [
+      { id: '1', is_done: true, is_removed: false },
+      { id: '2', is_done: false, is_removed: true },
+    ];
+    const unfinished = [
+      { id: '1', is_done: true, is_removed: false },
+      { id: '2', is_done: false, is_removed: false },
+    ];
+
+    it('allows moving between working stages', () => {
+      expect(getStageMoveError('New', 'In Progress', unfinished)).toBeNull();
+      expect(
+        getStageMoveError('Ready For Pickup', 'In Progress', finished)
+      ).toBeNull();
+    });
+
+    it('needs every active service finished for Ready For Pickup', () => {
+      expect(
+        getStageMoveError('In Progress', 'Ready For Pickup', unfinished)
+      ).toMatch(/finish all services/i);
+      expect(getStageMoveError('New', 'Ready For Pickup', [])).toMatch(
+        /add a service/i
+      );
+      expect(
+        getStageMoveError('In Progress', 'Ready For Pickup', finished)
+      ).toBeNull();
+    });
+
+    it('only lets ready garments be marked Done', () => {
+      expect(getStageMoveError('In Progress', 'Done', finished)).toMatch(
+        /ready for pickup/i
+      );
+      expect(
+        getStageMoveError('Ready For Pickup', 'Done', finished)
+      ).toBeNull();
+    });
+
+    it('keeps picked up garments in Done', () => {
+      expect(getStageMoveError('Done', 'In Progress', finished)).toMatch(
+        /can't be moved back/
+      );
+    });
+  });
 });
@@ -167,4 +167,33 @@ describe('calculatePaymentStatus', () => {
     expect(result.percentage).toBe(50);
     expect(result.paymentStatus).toBe('partial');
   });
+
+  it('should keep tips out of the amount due', () => {
+    const payments: PaymentInfo[] = [
+      {
+        id: '1',
+        amount_cents: 10000,
+        refunded_amount_cents: 0,
+        status: 'completed',
+        type: 'payment',
+        tip_cents: 1800,
+      },
+      {
+        id: '2',
+        amount_cents: 2000,
+        refunded_amount_cents: 0,
+        status: 'pending',
+        type: 'payment',
+        tip_cents: 300,
+      },
+    ];
+
+    const result = calculatePaymentStatus(10000, payments);
+
+    expect(result.totalPaid).toBe(10000);
+    expect(result.netPaid).toBe(10000);
+    expect(result.totalTips).toBe(1800);
+    expect(result.amountDue).toBe(0);
+    expect(result.paymentStatus).toBe('paid');
+  });
 });
@@ -11,6 +11,7 @@ import {
   isDateTimeInPast,
   formatDateForDatabase,
 } from './date-time-utils';
+import { isDateTimeInPastForTimezone } from './date-time-utc';
 
 // Generate calendar days for month view
 export function generateMonthDays(date: Date) {
@@ -250,6 +251,8 @@ export function canCreateAppointmentAt(
 }
 
 // Get available time slots for a date
+// Pass the shop timezone when running on the server so "past" is judged by the
+// shop's clock instead of the server's
 export function getAvailableTimeSlots(
   date: Date,
   shopHours: Array<{
@@ -265,7 +268,8 @@ export function getAvailableTimeSlots(
   }>,
   duration: number = 30,
   bufferMinutes: number = 0,
-  allowOverlapping: boolean = false
+  allowOverlapping: boolean = false,
+  timezone?: string
 ): string[] {
   const dayOfWeek = date.getDay();
   const hours = shopHours.find((h) => h.day_of_week === dayOfWeek);
@@ -295,13 +299,21 @@ export function getAvailableTimeSlots(
     }
 
     // Filter out slots in the past for the current day
-    const now = new Date();
-    const isSameDay =
-      now.getFullYear() === date.getFullYear() &&
-      now.getMonth() === date.getMonth() &&
-      now.getDate() === date.getDate();
-    if (isSameDay && isPastDateTime(date, slot)) {
-      return false;
+    if (timezone) {
+      if (
+        isDateTimeInPastForTimezone(formatDateForDatabase(date), slot, timezone)
+      ) {
+        return false;
+      }
+    } else {
+      const now = new Date();
+      const isSameDay =
+        now.getFullYear() === date.getFullYear() &&
+        now.getMonth() === date.getMonth() &&
+        now.getDate() === date.getDate();
+      if (isSameDay && isPastDateTime(date, slot)) {
+        return false;
+      }
     }
 
     // Skip conflict checking entirely if overlapping is allowed
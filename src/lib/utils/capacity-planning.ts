@@ -0,0 +1,206 @@
+/**
+ * Workshop capacity from shop hours against the work queued in active
+ * garments. Dates are shop-local YYYY-MM-DD strings.
+ */
+
+import {
+	addDaysToDateString,
+	daysBetweenDateStrings,
+} from '@/lib/utils/recurrence';
+
+// How far ahead a due date is searched for
+const SUGGESTION_HORIZON_DAYS = 365;
+
+export interface ShopHoursDay {
+	day_of_week: number;
+	open_time: string | null;
+	close_time: string | null;
+	is_closed: boolean | null;
+}
+
+/**
+ * Remaining work on one garment
+ */
+export interface QueuedWork {
+	// null when the garment has no due date; it doesn't compete for a week
+	dueDate: string | null;
+	minutes: number;
+}
+
+export interface WorkloadWeek {
+	// Monday
+	weekStart: string;
+	// Sunday
+	weekEnd: string;
+	capacityMinutes: number;
+	bookedMinutes: number;
+	overloaded: boolean;
+}
+
+function toMinutes(time: string): number {
+	const [hours, minutes] = time.split(':').map(Number);
+	return (hours || 0) * 60 + (minutes || 0);
+}
+
+function dayOfWeek(date: string): number {
+	const [year, month, day] = date.split('-').map(Number);
+	return new Date(Date.UTC(year!, month! - 1, day!)).getUTCDay();
+}
+
+/**
+ * Estimated minutes for a service line: the catalog estimate per unit, or the
+ * quantity itself for hourly services. null when there's nothing to go on.
+ */
+export function estimateServiceMinutes(line: {
+	quantity: number;
+	unit: string;
+	estimatedMinutes: number | null | undefined;
+}): number | null {
+	if (line.estimatedMinutes) {
+		return line.estimatedMinutes * line.quantity;
+	}
+	if (line.unit === 'hour') {
+		return line.quantity * 60;
+	}
+	return null;
+}
+
+/**
+ * Working minutes per weekday, indexed 0 (Sunday) to 6
+ */
+export function getDailyCapacityMinutes(hours: ShopHoursDay[]): number[] {
+	const capacity = [0, 0, 0, 0, 0, 0, 0];
+	for (const day of hours) {
+		if (day.is_closed || !day.open_time || !day.close_time) continue;
+		capacity[day.day_of_week] = Math.max(
+			0,
+			toMinutes(day.close_time) - toMinutes(day.open_time)
+		);
+	}
+	return capacity;
+}
+
+export function getWeekStart(date: string): string {
+	// Weeks start on Monday
+	return addDaysToDateString(date, -((dayOfWeek(date) + 6) % 7));
+}
+
+function getCapacityBetween(
+	from: string,
+	to: string,
+	dailyCapacity: number[]
+): number {
+	let total = 0;
+	for (let date = from; date <= to; date = addDaysToDateString(date, 1)) {
+		total += dailyCapacity[dayOfWeek(date)] ?? 0;
+	}
+	return total;
+}
+
+/**
+ * Earliest open day the new work can realistically be done by, without
+ * making anything already queued late: from that day on, the working time
+ * since today always covers the work due by then (overdue work included)
+ * plus the new work. Work without a due date can wait. null when the shop
+ * has no working hours or nothing fits within a year.
+ */
+export function suggestDueDate(
+	queue: QueuedWork[],
+	dailyCapacity: number[],
+	today: string,
+	minutes: number
+): string | null {
+	if (!dailyCapacity.some((capacity) => capacity > 0)) return null;
+
+	const dated = queue
+		.filter((work): work is QueuedWork & { dueDate: string } => !!work.dueDate)
+		.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+	// Spare working time by the end of each day
+	const days: Array<{ date: string; open: boolean; slack: number }> = [];
+	let capacity = 0;
+	let booked = 0;
+	let next = 0;
+	for (let day = 0; day <= SUGGESTION_HORIZON_DAYS; day++) {
+		const date = addDaysToDateString(today, day);
+		const dayCapacity = dailyCapacity[dayOfWeek(date)] ?? 0;
+		capacity += dayCapacity;
+		while (next < dated.length && dated[next]!.dueDate <= date) {
+			booked += dated[next]!.minutes;
+			next++;
+		}
+		days.push({ date, open: dayCapacity > 0, slack: capacity - booked });
+	}
+
+	// Latest day first, tracking the tightest spare time from each day on
+	let suggestion: string | null = null;
+	let minSlack = Infinity;
+	for (let index = days.length - 1; index >= 0; index--) {
+		const day = days[index]!;
+		minSlack = Math.min(minSlack, day.slack);
+		if (minSlack < minutes) break;
+		if (day.open) suggestion = day.date;
+	}
+	return suggestion;
+}
+
+/**
+ * Booked hours vs capacity per week, starting with the current week. Work is
+ * booked in the week it's due; overdue work counts against this week, whose
+ * capacity is what's left of it from today.
+ */
+export function buildWeeklyWorkload(
+	queue: QueuedWork[],
+	dailyCapacity: number[],
+	today: string,
+	weeks = 4
+): WorkloadWeek[] {
+	const firstWeek = getWeekStart(today);
+
+	return Array.from({ length: weeks }, (_, index) => {
+		const weekStart = addDaysToDateString(firstWeek, index * 7);
+		const weekEnd = addDaysToDateString(weekStart, 6);
+		const bookedMinutes = queue.reduce((sum, work) => {
+			if (!work.dueDate || work.dueDate > weekEnd) return sum;
+			if (index > 0 && work.dueDate < weekStart) return sum;
+			return sum + work.minutes;
+		}, 0);
+		const capacityMinutes = getCapacityBetween(
+			index === 0 ? today : weekStart,
+			weekEnd,
+			dailyCapacity
+		);
+
+		return {
+			weekStart,
+			weekEnd,
+			capacityMinutes,
+			bookedMinutes,
+			overloaded: bookedMinutes > capacityMinutes,
+		};
+	});
+}
+
+/**
+ * The week containing `date` with the new work booked into it
+ */
+export function getWeekLoadWith(
+	queue: QueuedWork[],
+	dailyCapacity: number[],
+	today: string,
+	date: string,
+	minutes: number
+): WorkloadWeek {
+	const weekStart = getWeekStart(date < today ? today : date);
+	const index = daysBetweenDateStrings(getWeekStart(today), weekStart) / 7;
+	const week = buildWeeklyWorkload(queue, dailyCapacity, today, index + 1)[
+		index
+	]!;
+	const bookedMinutes = week.bookedMinutes + minutes;
+
+	return {
+		...week,
+		bookedMinutes,
+		overloaded: bookedMinutes > week.capacityMinutes,
+	};
+}
@@ -0,0 +1,182 @@
+import { getCleanPhoneNumber } from '@/lib/utils/phone';
+
+export type DuplicateReason = 'phone' | 'email' | 'name' | 'similar_name';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+	phone: 'Same phone',
+	email: 'Same email',
+	name: 'Same name',
+	similar_name: 'Similar name',
+};
+
+// Phone or email matches are near-certain; a similar name alone is a hint
+const REASON_WEIGHTS: Record<DuplicateReason, number> = {
+	phone: 3,
+	email: 3,
+	name: 2,
+	similar_name: 1,
+};
+
+// Largest edit distance still treated as a typo of the same name
+const MAX_NAME_DISTANCE = 2;
+
+export type DuplicateCandidate = {
+	id: string;
+	first_name: string;
+	last_name: string;
+	email: string | null;
+	phone_number: string | null;
+	created_at: string | null;
+};
+
+export type DuplicatePair<T extends DuplicateCandidate = DuplicateCandidate> = {
+	// Older record first; it's the suggested one to keep
+	clients: [T, T];
+	reasons: DuplicateReason[];
+	score: number;
+};
+
+export type MergeableOrder = {
+	total_cents: number | null;
+	paid_amount_cents: number | null;
+};
+
+/**
+ * What a client owes across their orders. Credits on one order don't offset
+ * another, matching the merge_clients balance check.
+ */
+export function calculateOutstandingBalance(orders: MergeableOrder[]): number {
+	return orders.reduce(
+		(total, order) =>
+			total +
+			Math.max(0, (order.total_cents || 0) - (order.paid_amount_cents || 0)),
+		0
+	);
+}
+
+export function normalizeEmail(email: string | null): string {
+	return (email || '').trim().toLowerCase();
+}
+
+export function normalizePhone(phone: string | null): string {
+	const clean = getCleanPhoneNumber(phone || '');
+	// Too short to identify anyone
+	return clean.replace(/\D/g, '').length >= 7 ? clean : '';
+}
+
+/**
+ * Lowercase letters only, accents removed, so "José O'Neil" and
+ * "jose oneil" compare equal
+ */
+export function normalizeName(name: string): string {
+	return name
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^a-z ]/g, '')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+export function editDistance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				previous[j]! + 1,
+				current[j - 1]! + 1,
+				previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+			);
+		}
+		previous = current;
+	}
+	return previous[b.length]!;
+}
+
+function fullName(client: DuplicateCandidate): string {
+	return normalizeName(`${client.first_name} ${client.last_name}`);
+}
+
+function compareNames(a: string, b: string): DuplicateReason | null {
+	if (!a || !b) return null;
+	if (a === b) return 'name';
+	// Short names are too close to each other for a distance of 2 to mean much
+	const allowed = Math.min(a.length, b.length) < 8 ? 1 : MAX_NAME_DISTANCE;
+	if (Math.abs(a.length - b.length) > allowed) return null;
+	return editDistance(a, b) <= allowed ? 'similar_name' : null;
+}
+
+function byCreatedAt(a: DuplicateCandidate, b: DuplicateCandidate): number {
+	return (a.created_at || '').localeCompare(b.created_at || '');
+}
+
+/**
+ * Pairs of clients that are probably the same person: same phone or email
+ * once normalized, or a name that matches or is a typo away. Names are only
+ * compared within the same initials, so a shop's full list stays cheap to check.
+ */
+export function findDuplicateClients<T extends DuplicateCandidate>(
+	clients: T[]
+): DuplicatePair<T>[] {
+	const pairs = new Map<
+		string,
+		{ clients: [T, T]; reasons: Set<DuplicateReason> }
+	>();
+
+	const addPair = (a: T, b: T, reason: DuplicateReason) => {
+		const ordered: [T, T] = byCreatedAt(a, b) <= 0 ? [a, b] : [b, a];
+		const key = `${ordered[0].id}:${ordered[1].id}`;
+		const pair = pairs.get(key) ?? { clients: ordered, reasons: new Set() };
+		pair.reasons.add(reason);
+		pairs.set(key, pair);
+	};
+
+	const groupBy = (key: (client: T) => string) => {
+		const groups = new Map<string, T[]>();
+		for (const client of clients) {
+			const value = key(client);
+			if (!value) continue;
+			groups.set(value, [...(groups.get(value) ?? []), client]);
+		}
+		return groups.values();
+	};
+
+	const eachPair = (group: T[], visit: (a: T, b: T) => void) => {
+		for (let i = 0; i < group.length; i++) {
+			for (let j = i + 1; j < group.length; j++) {
+				visit(group[i]!, group[j]!);
+			}
+		}
+	};
+
+	for (const group of groupBy((c) => normalizePhone(c.phone_number))) {
+		eachPair(group, (a, b) => addPair(a, b, 'phone'));
+	}
+	for (const group of groupBy((c) => normalizeEmail(c.email))) {
+		eachPair(group, (a, b) => addPair(a, b, 'email'));
+	}
+	for (const group of groupBy((c) => {
+		const first = normalizeName(c.first_name);
+		const last = normalizeName(c.last_name);
+		return first && last ? `${first[0]}${last[0]}` : '';
+	})) {
+		eachPair(group, (a, b) => {
+			const reason = compareNames(fullName(a), fullName(b));
+			if (reason) addPair(a, b, reason);
+		});
+	}
+
+	return Array.from(pairs.values())
+		.map(({ clients: pair, reasons }) => {
+			const list = Array.from(reasons);
+			return {
+				clients: pair,
+				reasons: list,
+				score: list.reduce((sum, reason) => sum + REASON_WEIGHTS[reason], 0),
+			};
+		})
+		.sort(
+			(a, b) => b.score - a.score || byCreatedAt(a.clients[0], b.clients[0])
+		);
+}
@@ -0,0 +1,456 @@
+import { z } from 'zod';
+import { getCleanPhoneNumber, isPhoneNumberValid } from '@/lib/utils/phone';
+import { dollarsToCents, parseFloatFromCurrency } from '@/lib/utils/currency';
+import {
+	SERVICE_UNIT_TYPES,
+	type ServiceUnitType,
+} from '@/lib/utils/serviceUnitTypes';
+import { toCsv } from '@/lib/utils/csv';
+
+export type ImportKind = 'clients' | 'services';
+
+// Largest file imported in one go
+export const MAX_IMPORT_ROWS = 2000;
+
+export interface ImportField {
+	key: string;
+	label: string;
+	required: boolean;
+	// Lowercased header names matched when guessing the column mapping
+	aliases: string[];
+}
+
+export const IMPORT_FIELDS: Record<ImportKind, ImportField[]> = {
+	clients: [
+		{
+			key: 'first_name',
+			label: 'First name',
+			required: true,
+			aliases: ['first name', 'firstname', 'first', 'given name'],
+		},
+		{
+			key: 'last_name',
+			label: 'Last name',
+			required: true,
+			aliases: ['last name', 'lastname', 'last', 'surname', 'family name'],
+		},
+		{
+			key: 'full_name',
+			label: 'Full name (instead of first and last)',
+			required: false,
+			aliases: ['name', 'full name', 'client', 'client name', 'customer'],
+		},
+		{
+			key: 'email',
+			label: 'Email',
+			required: true,
+			aliases: ['email', 'e-mail', 'email address'],
+		},
+		{
+			key: 'phone_number',
+			label: 'Phone',
+			required: true,
+			aliases: ['phone', 'phone number', 'mobile', 'cell', 'telephone'],
+		},
+		{
+			key: 'mailing_address',
+			label: 'Mailing address',
+			required: false,
+			aliases: ['address', 'mailing address', 'street address'],
+		},
+		{
+			key: 'notes',
+			label: 'Notes',
+			required: false,
+			aliases: ['notes', 'note', 'comments'],
+		},
+		{
+			key: 'accept_email',
+			label: 'Accepts email',
+			required: false,
+			aliases: ['accept email', 'accepts email', 'email opt in'],
+		},
+		{
+			key: 'accept_sms',
+			label: 'Accepts texts',
+			required: false,
+			aliases: ['accept sms', 'accepts sms', 'sms opt in', 'accepts texts'],
+		},
+	],
+	services: [
+		{
+			key: 'name',
+			label: 'Name',
+			required: true,
+			aliases: ['name', 'service', 'service name'],
+		},
+		{
+			key: 'price',
+			label: 'Price',
+			required: true,
+			aliases: ['price', 'unit price', 'rate', 'cost', 'amount'],
+		},
+		{
+			key: 'unit',
+			label: 'Unit (flat rate, hour or day)',
+			required: false,
+			aliases: ['unit', 'per', 'pricing unit'],
+		},
+		{
+			key: 'quantity',
+			label: 'Default quantity',
+			required: false,
+			aliases: ['quantity', 'qty', 'default quantity'],
+		},
+		{
+			key: 'description',
+			label: 'Description',
+			required: false,
+			aliases: ['description', 'details'],
+		},
+		{
+			key: 'estimated_minutes',
+			label: 'Estimated minutes',
+			required: false,
+			aliases: ['minutes', 'estimated minutes', 'duration', 'time'],
+		},
+	],
+};
+
+// Field key -> column index in the file
+export type ColumnMapping = Record<string, number | null>;
+
+// One file row, keyed by field
+export type ImportRecord = Record<string, string>;
+
+export type ImportRowStatus = 'ready' | 'duplicate' | 'invalid';
+
+export interface ImportRowResult<T> {
+	// Line in the file, counting the header as line 1
+	line: number;
+	status: ImportRowStatus;
+	errors: string[];
+	record: ImportRecord;
+	data?: T;
+}
+
+export interface ImportSummary {
+	ready: number;
+	duplicate: number;
+	invalid: number;
+}
+
+export interface ClientImportData {
+	first_name: string;
+	last_name: string;
+	email: string;
+	phone_number: string;
+	mailing_address: string | null;
+	notes: string | null;
+	accept_email: boolean;
+	accept_sms: boolean;
+}
+
+export interface ServiceImportData {
+	name: string;
+	default_unit_price_cents: number;
+	default_unit: ServiceUnitType;
+	default_qty: number;
+	description: string | null;
+	estimated_minutes: number | null;
+}
+
+function normalizeHeader(header: string): string {
+	return header
+		.trim()
+		.toLowerCase()
+		.replace(/[_\s]+/g, ' ');
+}
+
+/**
+ * Matches file headers to fields by name. Unmatched fields map to null.
+ */
+export function guessColumnMapping(
+	kind: ImportKind,
+	headers: string[]
+): ColumnMapping {
+	const normalized = headers.map(normalizeHeader);
+	const used = new Set<number>();
+	const mapping: ColumnMapping = {};
+
+	for (const field of IMPORT_FIELDS[kind]) {
+		const index = normalized.findIndex(
+			(header, i) =>
+				!used.has(i) &&
+				(header === field.key.replace(/_/g, ' ') ||
+					field.aliases.includes(header))
+		);
+		mapping[field.key] = index === -1 ? null : index;
+		if (index !== -1) used.add(index);
+	}
+
+	return mapping;
+}
+
+/**
+ * Fields that must be mapped before importing
+ */
+export function getMissingMappings(
+	kind: ImportKind,
+	mapping: ColumnMapping
+): ImportField[] {
+	const isMapped = (key: string) =>
+		mapping[key] !== null && mapping[key] !== undefined;
+
+	return IMPORT_FIELDS[kind].filter((field) => {
+		if (!field.required || isMapped(field.key)) return false;
+		// A full name column stands in for first and last name
+		if (
+			kind === 'clients' &&
+			(field.key === 'first_name' || field.key === 'last_name')
+		) {
+			return !isMapped('full_name');
+		}
+		return true;
+	});
+}
+
+/**
+ * Turns file rows (without the header) into records keyed by field
+ */
+export function applyColumnMapping(
+	rows: string[][],
+	mapping: ColumnMapping
+): ImportRecord[] {
+	return rows.map((row) => {
+		const record: ImportRecord = {};
+		for (const [key, index] of Object.entries(mapping)) {
+			if (index !== null && index !== undefined) {
+				record[key] = (row[index] ?? '').trim();
+			}
+		}
+		return record;
+	});
+}
+
+function parseYesNo(value: string | undefined): boolean | null | undefined {
+	if (!value) return undefined;
+	const normalized = value.trim().toLowerCase();
+	if (['yes', 'y', 'true', '1', 'x'].includes(normalized)) return true;
+	if (['no', 'n', 'false', '0'].includes(normalized)) return false;
+	return null;
+}
+
+const emailSchema = z.string().email();
+
+export function validateClientRecord(record: ImportRecord): {
+	data?: ClientImportData;
+	errors: string[];
+} {
+	const errors: string[] = [];
+
+	let firstName = record.first_name || '';
+	let lastName = record.last_name || '';
+	if (!firstName && !lastName && record.full_name) {
+		const [first = '', ...rest] = record.full_name.split(/\s+/);
+		firstName = first;
+		lastName = rest.join(' ');
+	}
+	if (!firstName) errors.push('First name is required');
+	if (!lastName) errors.push('Last name is required');
+
+	const email = (record.email || '').toLowerCase();
+	if (!email) {
+		errors.push('Email is required');
+	} else if (!emailSchema.safeParse(email).success) {
+		errors.push('Invalid email address');
+	}
+
+	const phone = record.phone_number || '';
+	if (!phone) {
+		errors.push('Phone number is required');
+	} else if (!isPhoneNumberValid(phone)) {
+		errors.push('Invalid phone number');
+	}
+
+	const acceptEmail = parseYesNo(record.accept_email);
+	const acceptSms = parseYesNo(record.accept_sms);
+	if (acceptEmail === null) errors.push('Accepts email must be yes or no');
+	if (acceptSms === null) errors.push('Accepts texts must be yes or no');
+
+	if (errors.length > 0) return { errors };
+
+	return {
+		errors,
+		data: {
+			first_name: firstName,
+			last_name: lastName,
+			email,
+			phone_number: getCleanPhoneNumber(phone),
+			mailing_address: record.mailing_address || null,
+			notes: record.notes || null,
+			accept_email: acceptEmail ?? true,
+			accept_sms: acceptSms ?? false,
+		},
+	};
+}
+
+const UNIT_ALIASES: Record<string, ServiceUnitType> = {
+	'': SERVICE_UNIT_TYPES.FLAT_RATE,
+	flat: SERVICE_UNIT_TYPES.FLAT_RATE,
+	'flat rate': SERVICE_UNIT_TYPES.FLAT_RATE,
+	flat_rate: SERVICE_UNIT_TYPES.FLAT_RATE,
+	each: SERVICE_UNIT_TYPES.FLAT_RATE,
+	hour: SERVICE_UNIT_TYPES.HOUR,
+	hourly: SERVICE_UNIT_TYPES.HOUR,
+	hr: SERVICE_UNIT_TYPES.HOUR,
+	day: SERVICE_UNIT_TYPES.DAY,
+	daily: SERVICE_UNIT_TYPES.DAY,
+};
+
+export function validateServiceRecord(record: ImportRecord): {
+	data?: ServiceImportData;
+	errors: string[];
+} {
+	const errors: string[] = [];
+
+	const name = record.name || '';
+	if (!name) errors.push('Name is required');
+
+	const price = (record.price || '').replace(/[$,\s]/g, '');
+	if (!price) {
+		errors.push('Price is required');
+	} else if (!/^\d+(\.\d{1,2})?$/.test(price)) {
+		errors.push('Price must be an amount like 25.00');
+	}
+
+	const unit = UNIT_ALIASES[(record.unit || '').trim().toLowerCase()];
+	if (!unit) errors.push('Unit must be flat rate, hour or day');
+
+	const quantity = record.quantity ? Number(record.quantity) : 1;
+	if (!Number.isInteger(quantity) || quantity < 1) {
+		errors.push('Default quantity must be a whole number');
+	}
+
+	const minutes = record.estimated_minutes
+		? Number(record.estimated_minutes)
+		: null;
+	if (minutes !== null && (!Number.isInteger(minutes) || minutes < 1)) {
+		errors.push('Estimated minutes must be a whole number');
+	}
+
+	if (errors.length > 0 || !unit) return { errors };
+
+	return {
+		errors,
+		data: {
+			name,
+			default_unit_price_cents: dollarsToCents(parseFloatFromCurrency(price)),
+			default_unit: unit,
+			default_qty: quantity,
+			description: record.description || null,
+			estimated_minutes: minutes,
+		},
+	};
+}
+
+/**
+ * Validates client records and flags rows matching an existing client, or an
+ * earlier row, by email or phone
+ */
+export function checkClientImport(
+	records: ImportRecord[],
+	existing: { email: string; phone_number: string }[]
+): ImportRowResult<ClientImportData>[] {
+	const emails = new Set(existing.map((c) => c.email.trim().toLowerCase()));
+	const phones = new Set(
+		existing.map((c) => getCleanPhoneNumber(c.phone_number))
+	);
+
+	return records.map((record, index) => {
+		const line = index + 2;
+		const { data, errors } = validateClientRecord(record);
+		if (!data) return { line, status: 'invalid', errors, record };
+
+		const duplicates: string[] = [];
+		if (emails.has(data.email)) {
+			duplicates.push(`A client with email ${data.email} already exists`);
+		}
+		if (phones.has(data.phone_number)) {
+			duplicates.push(
+				`A client with phone ${record.phone_number} already exists`
+			);
+		}
+		emails.add(data.email);
+		phones.add(data.phone_number);
+
+		return duplicates.length > 0
+			? { line, status: 'duplicate', errors: duplicates, record }
+			: { line, status: 'ready', errors: [], record, data };
+	});
+}
+
+/**
+ * Validates service records and flags names the shop, or an earlier row,
+ * already uses
+ */
+export function checkServiceImport(
+	records: ImportRecord[],
+	existing: { name: string }[]
+): ImportRowResult<ServiceImportData>[] {
+	const names = new Set(existing.map((s) => s.name.trim().toLowerCase()));
+
+	return records.map((record, index) => {
+		const line = index + 2;
+		const { data, errors } = validateServiceRecord(record);
+		if (!data) return { line, status: 'invalid', errors, record };
+
+		const key = data.name.toLowerCase();
+		if (names.has(key)) {
+			return {
+				line,
+				status: 'duplicate',
+				errors: [`A service named ${data.name} already exists`],
+				record,
+			};
+		}
+		names.add(key);
+
+		return { line, status: 'ready', errors: [], record, data };
+	});
+}
+
+export function summarizeImport(
+	results: ImportRowResult<unknown>[]
+): ImportSummary {
+	return results.reduce<ImportSummary>(
+		(summary, result) => ({
+			...summary,
+			[result.status]: summary[result.status] + 1,
+		}),
+		{ ready: 0, duplicate: 0, invalid: 0 }
+	);
+}
+
+/**
+ * CSV of the rows that won't be imported, with the reasons, for fixing and
+ * importing again
+ */
+export function buildImportErrorReport(
+	kind: ImportKind,
+	results: ImportRowResult<unknown>[]
+): string {
+	const fields = IMPORT_FIELDS[kind];
+
+	return toCsv(
+		['Line', 'Status', 'Problems', ...fields.map((field) => field.label)],
+		results
+			.filter((result) => result.status !== 'ready')
+			.map((result) => [
+				result.line,
+				result.status === 'duplicate' ? 'Duplicate' : 'Invalid',
+				result.errors.join('; '),
+				...fields.map((field) => result.record[field.key] ?? ''),
+			])
+	);
+}
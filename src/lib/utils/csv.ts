@@ -0,0 +1,72 @@
+export type CsvCell = string | number | boolean | null | undefined;
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells with commas,
+ * escaped quotes and line breaks, CRLF line endings and a leading BOM.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = '';
+	let inQuotes = false;
+	const input = text.replace(/^\uFEFF/, '');
+
+	const endRow = () => {
+		row.push(cell);
+		if (row.some((value) => value.trim() !== '')) rows.push(row);
+		row = [];
+		cell = '';
+	};
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+
+		if (inQuotes) {
+			if (char === '"' && input[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === ',') {
+			row.push(cell);
+			cell = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && input[i + 1] === '\n') i++;
+			endRow();
+		} else {
+			cell += char;
+		}
+	}
+
+	if (cell !== '' || row.length > 0) endRow();
+
+	return rows;
+}
+
+function formatCell(value: CsvCell): string {
+	if (value === null || value === undefined) return '';
+
+	let text = String(value);
+	// Stop spreadsheets running cell text as a formula. Phone numbers and
+	// negative amounts are left alone.
+	if (/^[=@\t\r]/.test(text) || /^[+-](?![\d\s().-]*$)/.test(text)) {
+		text = `'${text}`;
+	}
+
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds CSV text from a header row and data rows
+ */
+export function toCsv(headers: string[], rows: CsvCell[][]): string {
+	return [headers, ...rows]
+		.map((row) => row.map(formatCell).join(','))
+		.join('\r\n');
+}
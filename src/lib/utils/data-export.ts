@@ -0,0 +1,260 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { toCsv } from '@/lib/utils/csv';
+
+export type ExportKind = 'clients' | 'services' | 'orders' | 'payments';
+
+export const EXPORT_KINDS: ExportKind[] = [
+	'clients',
+	'services',
+	'orders',
+	'payments',
+];
+
+export const EXPORT_LABELS: Record<ExportKind, string> = {
+	clients: 'Clients',
+	services: 'Services',
+	orders: 'Orders',
+	payments: 'Payments',
+};
+
+export function isExportKind(kind: string): kind is ExportKind {
+	return (EXPORT_KINDS as string[]).includes(kind);
+}
+
+// Rows per request; PostgREST caps responses
+const PAGE_SIZE = 1000;
+
+type Supabase = SupabaseClient<Database>;
+
+/**
+ * Every row of a paged query, for tables bigger than one response
+ */
+export async function loadAllRows<T>(
+	fetchPage: (
+		from: number,
+		to: number
+	) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+	const rows: T[] = [];
+	for (let from = 0; ; from += PAGE_SIZE) {
+		const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+		if (error) throw error;
+		rows.push(...(data || []));
+		if (!data || data.length < PAGE_SIZE) return rows;
+	}
+}
+
+// Dollars with cents, without a currency symbol, so spreadsheets treat it as a
+// number
+function dollars(cents: number | null | undefined): string {
+	return cents === null || cents === undefined ? '' : (cents / 100).toFixed(2);
+}
+
+function yesNo(value: boolean | null | undefined): string {
+	return value ? 'yes' : 'no';
+}
+
+function fullName(
+	client: { first_name: string; last_name: string } | null | undefined
+): string {
+	return client ? `${client.first_name} ${client.last_name}`.trim() : '';
+}
+
+async function exportClients(supabase: Supabase, shopId: string) {
+	const clients = await loadAllRows((from, to) =>
+		supabase
+			.from('clients')
+			.select('*')
+			.eq('shop_id', shopId)
+			.order('last_name', { ascending: true })
+			.order('id', { ascending: true })
+			.range(from, to)
+	);
+
+	// Headers match the import so the file can be imported again
+	return toCsv(
+		[
+			'First name',
+			'Last name',
+			'Email',
+			'Phone',
+			'Mailing address',
+			'Notes',
+			'Accepts email',
+			'Accepts texts',
+			'Archived',
+			'Created',
+		],
+		clients.map((client) => [
+			client.first_name,
+			client.last_name,
+			client.email,
+			client.phone_number,
+			client.mailing_address,
+			client.notes,
+			yesNo(client.accept_email),
+			yesNo(client.accept_sms),
+			yesNo(client.is_archived),
+			client.created_at,
+		])
+	);
+}
+
+async function exportServices(supabase: Supabase, shopId: string) {
+	const services = await loadAllRows((from, to) =>
+		supabase
+			.from('services')
+			.select('*')
+			.eq('shop_id', shopId)
+			.order('name', { ascending: true })
+			.order('id', { ascending: true })
+			.range(from, to)
+	);
+
+	return toCsv(
+		[
+			'Name',
+			'Price',
+			'Unit',
+			'Default quantity',
+			'Description',
+			'Estimated minutes',
+			'Frequently used',
+		],
+		services.map((service) => [
+			service.name,
+			dollars(service.default_unit_price_cents),
+			service.default_unit,
+			service.default_qty,
+			service.description,
+			service.estimated_minutes,
+			yesNo(service.frequently_used),
+		])
+	);
+}
+
+async function exportOrders(
+	supabase: Supabase,
+	shopId: string,
+	orderIds?: string[]
+) {
+	const orders = await loadAllRows((from, to) => {
+		let query = supabase
+			.from('orders')
+			.select('*, client:clients(first_name, last_name, email)')
+			.eq('shop_id', shopId);
+		if (orderIds) query = query.in('id', orderIds);
+		return query
+			.order('created_at', { ascending: true })
+			.order('id', { ascending: true })
+			.range(from, to);
+	});
+
+	return toCsv(
+		[
+			'Order number',
+			'Created',
+			'Client',
+			'Client email',
+			'Status',
+			'Payment status',
+			'Due date',
+			'Subtotal',
+			'Discount',
+			'Tax',
+			'Total',
+			'Paid',
+			'Notes',
+		],
+		orders.map((order) => [
+			order.order_number,
+			order.created_at,
+			fullName(order.client),
+			order.client?.email,
+			order.status,
+			order.payment_status,
+			order.order_due_date,
+			dollars(order.subtotal_cents),
+			dollars(order.discount_cents),
+			dollars(order.tax_cents),
+			dollars(order.total_cents),
+			dollars(order.paid_amount_cents ?? 0),
+			order.notes,
+		])
+	);
+}
+
+async function exportPayments(supabase: Supabase, shopId: string) {
+	const payments = await loadAllRows((from, to) =>
+		supabase
+			.from('payments')
+			.select(
+				`
+				*,
+				invoice:invoices!inner(
+					shop_id,
+					invoice_number,
+					order:orders(order_number),
+					client:clients(first_name, last_name)
+				)
+			`
+			)
+			.eq('invoice.shop_id', shopId)
+			.order('created_at', { ascending: true })
+			.order('id', { ascending: true })
+			.range(from, to)
+	);
+
+	return toCsv(
+		[
+			'Date',
+			'Invoice number',
+			'Order number',
+			'Client',
+			'Type',
+			'Method',
+			'Status',
+			'Amount',
+			'Refunded',
+			'Processing fee',
+			'Reference',
+			'Notes',
+		],
+		payments.map((payment) => [
+			payment.processed_at || payment.created_at,
+			payment.invoice.invoice_number,
+			payment.invoice.order?.order_number,
+			fullName(payment.invoice.client),
+			payment.payment_type,
+			payment.payment_method,
+			payment.status,
+			dollars(payment.amount_cents),
+			dollars(payment.refunded_amount_cents ?? 0),
+			dollars(payment.stripe_fee_cents),
+			payment.external_reference || payment.stripe_payment_intent_id,
+			payment.notes,
+		])
+	);
+}
+
+/**
+ * CSV of one of the shop's tables. Orders can be narrowed to a selection.
+ */
+export function buildShopExport(
+	supabase: Supabase,
+	shopId: string,
+	kind: ExportKind,
+	ids?: string[]
+): Promise<string> {
+	switch (kind) {
+		case 'clients':
+			return exportClients(supabase, shopId);
+		case 'services':
+			return exportServices(supabase, shopId);
+		case 'orders':
+			return exportOrders(supabase, shopId, ids);
+		case 'payments':
+			return exportPayments(supabase, shopId);
+	}
+}
@@ -0,0 +1,106 @@
+/**
+ * Deposit policy calculations shared by the order flow (client) and order
+ * creation (server), so both agree on the required deposit
+ */
+
+export type DepositType = 'none' | 'fixed' | 'percentage';
+
+export interface DepositRule {
+	type: DepositType;
+	fixedCents: number;
+	percent: number;
+}
+
+export interface DepositPolicy extends DepositRule {
+	// Services that don't follow the shop rule, keyed by service id
+	serviceOverrides: Record<string, DepositRule>;
+}
+
+export interface DepositLine {
+	serviceId?: string | undefined;
+	quantity: number;
+	unitPriceCents: number;
+}
+
+export const NO_DEPOSIT_POLICY: DepositPolicy = {
+	type: 'none',
+	fixedCents: 0,
+	percent: 0,
+	serviceOverrides: {},
+};
+
+export function isDepositType(value: unknown): value is DepositType {
+	return value === 'none' || value === 'fixed' || value === 'percentage';
+}
+
+/**
+ * Build a rule from a shop_settings or services row. Unknown types fall back
+ * to no deposit.
+ */
+export function toDepositRule(row: {
+	deposit_type: string | null;
+	deposit_fixed_cents: number | null;
+	deposit_percent: number | string | null;
+}): DepositRule {
+	return {
+		type: isDepositType(row.deposit_type) ? row.deposit_type : 'none',
+		fixedCents: row.deposit_fixed_cents ?? 0,
+		percent: Number(row.deposit_percent ?? 0) || 0,
+	};
+}
+
+/**
+ * Required deposit in cents for an order.
+ *
+ * Each line's share of the order total (after discount and tax) is covered by
+ * its service override when it has one, otherwise by the shop rule:
+ * - percentage: that percent of the share
+ * - fixed: the fixed amount, capped at the share. The shop's fixed amount is
+ *   charged once per order; a service's fixed amount once per line.
+ */
+export function calculateRequiredDeposit(
+	policy: DepositPolicy,
+	lines: DepositLine[],
+	totalCents: number
+): number {
+	const subtotal = lines.reduce(
+		(sum, line) => sum + line.quantity * line.unitPriceCents,
+		0
+	);
+	if (subtotal <= 0 || totalCents <= 0) {
+		return 0;
+	}
+
+	let deposit = 0;
+	let shopRuleShare = 0;
+
+	for (const line of lines) {
+		const share = (line.quantity * line.unitPriceCents * totalCents) / subtotal;
+		const override = line.serviceId
+			? policy.serviceOverrides[line.serviceId]
+			: undefined;
+
+		if (override) {
+			deposit += ruleAmount(override, share);
+		} else {
+			shopRuleShare += share;
+		}
+	}
+
+	if (shopRuleShare > 0) {
+		deposit += ruleAmount(policy, shopRuleShare);
+	}
+
+	return Math.min(Math.round(deposit), totalCents);
+}
+
+function ruleAmount(rule: DepositRule, share: number): number {
+	switch (rule.type) {
+		case 'fixed':
+			return Math.min(rule.fixedCents, share);
+		case 'percentage':
+			return (share * rule.percent) / 100;
+		default:
+			return 0;
+	}
+}
@@ -0,0 +1,122 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import {
+	NO_DEPOSIT_POLICY,
+	toDepositRule,
+	type DepositPolicy,
+	type DepositRule,
+} from '@/lib/utils/deposit-calculations';
+import { calculatePaymentStatus } from '@/lib/utils/payment-calculations';
+
+export const DEPOSIT_OVERRIDE_ACTION = 'deposit_override';
+
+export interface OrderDepositStatus {
+	requiredCents: number;
+	paidCents: number;
+	outstandingCents: number;
+	// Work was allowed to start without the deposit
+	overridden: boolean;
+}
+
+/**
+ * Load the shop's deposit rule and per-service overrides. Shops without a
+ * shop_settings row have no deposit requirement.
+ */
+export async function loadShopDepositPolicy(
+	supabase: SupabaseClient<Database>,
+	shopId: string
+): Promise<DepositPolicy> {
+	const [{ data: settings }, { data: services, error: servicesError }] =
+		await Promise.all([
+			supabase
+				.from('shop_settings')
+				.select('deposit_type, deposit_fixed_cents, deposit_percent')
+				.eq('shop_id', shopId)
+				.maybeSingle(),
+			supabase
+				.from('services')
+				.select('id, deposit_type, deposit_fixed_cents, deposit_percent')
+				.eq('shop_id', shopId)
+				.not('deposit_type', 'is', null),
+		]);
+
+	if (servicesError) {
+		throw servicesError;
+	}
+
+	const serviceOverrides: Record<string, DepositRule> = {};
+	for (const service of services || []) {
+		serviceOverrides[service.id] = toDepositRule(service);
+	}
+
+	return {
+		...(settings ? toDepositRule(settings) : NO_DEPOSIT_POLICY),
+		serviceOverrides,
+	};
+}
+
+/**
+ * How much of the order's required deposit has been paid, net of refunds,
+ * and whether the requirement was overridden
+ */
+export async function getOrderDepositStatus(
+	supabase: SupabaseClient<Database>,
+	orderId: string
+): Promise<OrderDepositStatus> {
+	const { data: order, error } = await supabase
+		.from('orders')
+		.select('id, deposit_amount_cents')
+		.eq('id', orderId)
+		.single();
+
+	if (error || !order) {
+		throw new Error('Order not found');
+	}
+
+	const requiredCents = order.deposit_amount_cents || 0;
+	if (requiredCents <= 0) {
+		return {
+			requiredCents: 0,
+			paidCents: 0,
+			outstandingCents: 0,
+			overridden: false,
+		};
+	}
+
+	const [{ data: invoices }, { data: overrides }] = await Promise.all([
+		supabase
+			.from('invoices')
+			.select('id, payments(id, amount_cents, refunded_amount_cents, status)')
+			.eq('order_id', orderId),
+		supabase
+			.from('payment_audit_log')
+			.select('id')
+			.eq('action', DEPOSIT_OVERRIDE_ACTION)
+			.contains('metadata', { order_id: orderId })
+			.limit(1),
+	]);
+
+	const payments = (invoices || []).flatMap((invoice) =>
+		(invoice.payments || []).map((payment) => ({
+			...payment,
+			refunded_amount_cents: payment.refunded_amount_cents || 0,
+		}))
+	);
+	const { netPaid } = calculatePaymentStatus(requiredCents, payments);
+	const paidCents = Math.max(0, netPaid);
+
+	return {
+		requiredCents,
+		paidCents,
+		outstandingCents: Math.max(0, requiredCents - paidCents),
+		overridden: (overrides || []).length > 0,
+	};
+}
+
+export function isWorkBlockedByDeposit(status: OrderDepositStatus): boolean {
+	return status.outstandingCents > 0 && !status.overridden;
+}
+
+export function getDepositDueMessage(status: OrderDepositStatus): string {
+	return `A deposit of $${(status.outstandingCents / 100).toFixed(2)} is due before work can start`;
+}
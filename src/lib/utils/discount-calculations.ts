@@ -0,0 +1,158 @@
+/**
+ * Discount and order total calculations shared by the order flow (client),
+ * order creation and applying a discount to an existing order (server), so
+ * every path agrees on the discount, tax and total
+ */
+
+export type DiscountType = 'percentage' | 'fixed';
+
+export interface Discount {
+	id: string;
+	code: string;
+	description: string | null;
+	type: DiscountType;
+	percent: number;
+	amountCents: number;
+	// null applies to the whole order
+	serviceId: string | null;
+	serviceName?: string | null | undefined;
+	expiresAt: string | null;
+	usageLimit: number | null;
+	timesUsed: number;
+	isActive: boolean;
+}
+
+export interface DiscountLine {
+	serviceId?: string | null | undefined;
+	quantity: number;
+	unitPriceCents: number;
+}
+
+export interface OrderTotals {
+	subtotalCents: number;
+	discountCents: number;
+	afterDiscountCents: number;
+	taxCents: number;
+	totalCents: number;
+}
+
+/**
+ * Build a discount from a discounts row
+ */
+export function toDiscount(row: {
+	id: string;
+	code: string;
+	description: string | null;
+	discount_type: string;
+	percent: number | string;
+	amount_cents: number;
+	service_id: string | null;
+	expires_at: string | null;
+	usage_limit: number | null;
+	times_used: number;
+	is_active: boolean;
+	service?: { name: string } | null;
+}): Discount {
+	return {
+		id: row.id,
+		code: row.code,
+		description: row.description,
+		type: row.discount_type === 'fixed' ? 'fixed' : 'percentage',
+		percent: Number(row.percent) || 0,
+		amountCents: row.amount_cents,
+		serviceId: row.service_id,
+		serviceName: row.service?.name ?? null,
+		expiresAt: row.expires_at,
+		usageLimit: row.usage_limit,
+		timesUsed: row.times_used,
+		isActive: row.is_active,
+	};
+}
+
+/**
+ * Why a discount can't be used right now, or null when it can
+ */
+export function getDiscountUnavailableReason(
+	discount: Discount,
+	now: Date = new Date()
+): string | null {
+	if (!discount.isActive) {
+		return `${discount.code} is no longer active`;
+	}
+	if (discount.expiresAt && new Date(discount.expiresAt) <= now) {
+		return `${discount.code} has expired`;
+	}
+	if (
+		discount.usageLimit !== null &&
+		discount.timesUsed >= discount.usageLimit
+	) {
+		return `${discount.code} has reached its usage limit`;
+	}
+	return null;
+}
+
+/**
+ * Discount in cents for the given lines. A per-service discount only applies
+ * to lines for that service; a fixed amount is taken once and capped at the
+ * eligible amount.
+ */
+export function calculateDiscountCents(
+	discount: Pick<Discount, 'type' | 'percent' | 'amountCents' | 'serviceId'>,
+	lines: DiscountLine[]
+): number {
+	const eligibleCents = lines
+		.filter(
+			(line) => !discount.serviceId || line.serviceId === discount.serviceId
+		)
+		.reduce((sum, line) => sum + line.quantity * line.unitPriceCents, 0);
+
+	if (eligibleCents <= 0) {
+		return 0;
+	}
+
+	if (discount.type === 'fixed') {
+		return Math.min(discount.amountCents, eligibleCents);
+	}
+	return Math.round((eligibleCents * discount.percent) / 100);
+}
+
+/**
+ * Order totals with tax calculated on the amount after the discount
+ */
+export function calculateOrderTotals(
+	subtotalCents: number,
+	discountCents: number,
+	taxPercent: number
+): OrderTotals {
+	const discount = Math.min(Math.max(0, discountCents), subtotalCents);
+	const afterDiscountCents = subtotalCents - discount;
+	const taxCents = Math.round((afterDiscountCents * taxPercent) / 100);
+
+	return {
+		subtotalCents,
+		discountCents: discount,
+		afterDiscountCents,
+		taxCents,
+		totalCents: afterDiscountCents + taxCents,
+	};
+}
+
+/**
+ * Short description of what a discount takes off, e.g. "10% off Hemming"
+ */
+export function describeDiscount(
+	discount: Pick<Discount, 'type' | 'percent' | 'amountCents' | 'serviceName'>
+): string {
+	const amount =
+		discount.type === 'fixed'
+			? `$${(discount.amountCents / 100).toFixed(2)}`
+			: `${discount.percent}%`;
+	return `${amount} off ${discount.serviceName || 'order'}`;
+}
+
+/**
+ * Label for the discount line on invoices, receipts and emails
+ */
+export function getDiscountLineLabel(code?: string | null): string {
+	return code ? `Discount (${code})` : 'Discount';
+}
@@ -0,0 +1,95 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '@/types/supabase';
+import {
+	getDiscountLineLabel,
+	toDiscount,
+	type Discount,
+} from '@/lib/utils/discount-calculations';
+
+export const DISCOUNT_LINE_TYPE = 'discount';
+
+export const DISCOUNT_SELECT = '*, service:services(name)';
+
+/**
+ * Codes are stored upper-case so they can be entered in any case
+ */
+export function normalizeDiscountCode(code: string): string {
+	return code.trim().toUpperCase();
+}
+
+export async function findShopDiscountByCode(
+	supabase: SupabaseClient<Database>,
+	shopId: string,
+	code: string
+): Promise<Discount | null> {
+	const { data, error } = await supabase
+		.from('discounts')
+		.select(DISCOUNT_SELECT)
+		.eq('shop_id', shopId)
+		.eq('code', normalizeDiscountCode(code))
+		.maybeSingle();
+
+	if (error) throw error;
+
+	return data ? toDiscount(data) : null;
+}
+
+/**
+ * Replace the discount line on an order's invoice so the invoice shows the
+ * discount as its own line. When amountCents is given the invoice amount is
+ * updated too.
+ */
+export async function syncInvoiceDiscountLine(
+	supabase: SupabaseClient<Database>,
+	orderId: string,
+	discount: {
+		discountCents: number;
+		code?: string | null;
+		reason?: string | null;
+	},
+	amountCents?: number
+): Promise<void> {
+	const { data: invoice } = await supabase
+		.from('invoices')
+		.select('id, line_items')
+		.eq('order_id', orderId)
+		.order('created_at', { ascending: true })
+		.limit(1)
+		.maybeSingle();
+
+	if (!invoice) return;
+
+	const lineItems = (
+		Array.isArray(invoice.line_items) ? invoice.line_items : []
+	).filter(
+		(item) =>
+			!(
+				item &&
+				typeof item === 'object' &&
+				!Array.isArray(item) &&
+				item.type === DISCOUNT_LINE_TYPE
+			)
+	);
+
+	if (discount.discountCents > 0) {
+		lineItems.push({
+			type: DISCOUNT_LINE_TYPE,
+			name: getDiscountLineLabel(discount.code),
+			...(discount.reason && { description: discount.reason }),
+			quantity: 1,
+			unit_price_cents: -discount.discountCents,
+			line_total_cents: -discount.discountCents,
+		});
+	}
+
+	const { error } = await supabase
+		.from('invoices')
+		.update({
+			line_items: lineItems as Json,
+			...(amountCents !== undefined && { amount_cents: amountCents }),
+			updated_at: new Date().toISOString(),
+		})
+		.eq('id', invoice.id);
+
+	if (error) throw error;
+}
@@ -13,6 +13,8 @@ export const EMAIL_TYPE_LABELS: Record<EmailType, string> = {
 	payment_received: 'Payment Received',
 	invoice_sent: 'Invoice Sent',
 	appointment_confirmed: 'Appointment Confirmed',
+	garment_ready_for_pickup: 'Ready for Pickup',
+	waitlist_slot_offer: 'Waitlist Opening',
 };
 
 // Email status display names
@@ -419,6 +421,11 @@ export const EMAIL_VARIABLES: EmailVariableConfig[] = [
 				example:
 					'Wedding dress alterations\n- Hem adjustment\n- Waist taking in',
 			},
+			{
+				key: 'discount',
+				description: 'Discount taken off the order, if any',
+				example: '-$15.00',
+			},
 			{
 				key: 'shop_name',
 				description: 'Business name',
@@ -478,6 +485,93 @@ export const EMAIL_VARIABLES: EmailVariableConfig[] = [
 			shop_name: "Sarah's Alterations",
 		},
 	},
+	{
+		email_type: 'garment_ready_for_pickup',
+		variables: [
+			{
+				key: 'client_name',
+				description: 'Client full name',
+				example: 'Jane Smith',
+			},
+			{
+				key: 'garment_name',
+				description: 'Garment(s) ready for pickup',
+				example: 'Wedding Dress, Suit Jacket',
+			},
+			{
+				key: 'order_number',
+				description: 'Order number',
+				example: 'ORD-1042',
+			},
+			{
+				key: 'balance_due',
+				description: 'Outstanding balance (empty when fully paid)',
+				example: '$85.00',
+			},
+			{
+				key: 'payment_link',
+				description: 'Secure payment URL (only when a balance is due)',
+				example: 'https://pay.stripe.com/...',
+			},
+			{
+				key: 'order_status_link',
+				description:
+					'Order status page where the client can see garment progress and pay',
+				example: 'http://localhost:3000/status/abcd1234',
+			},
+			{
+				key: 'shop_name',
+				description: 'Business name',
+				example: "Sarah's Alterations",
+			},
+		],
+		sample_data: {
+			client_name: 'Jane Smith',
+			garment_name: 'Wedding Dress, Suit Jacket',
+			order_number: 'ORD-1042',
+			balance_due: '$85.00',
+			payment_link: 'https://example.com/pay/sample-link',
+			order_status_link: 'https://example.com/status/sample-token',
+			shop_name: "Sarah's Alterations",
+		},
+	},
+	{
+		email_type: 'waitlist_slot_offer',
+		variables: [
+			{
+				key: 'client_name',
+				description: 'Client full name',
+				example: 'Jane Smith',
+			},
+			{
+				key: 'appointment_time',
+				description: 'Date and time of the open slot',
+				example: 'Thursday, March 15 at 2:00 PM',
+			},
+			{
+				key: 'appointment_type',
+				description: 'Type of appointment',
+				example: 'Fitting',
+			},
+			{
+				key: 'claim_link',
+				description: 'Link that books the slot for the first client to use it',
+				example: 'https://hemsy.app/waitlist/claim/abc123',
+			},
+			{
+				key: 'shop_name',
+				description: 'Business name',
+				example: "Sarah's Alterations",
+			},
+		],
+		sample_data: {
+			client_name: 'Jane Smith',
+			appointment_time: 'Thursday, March 15 at 2:00 PM',
+			appointment_type: 'Fitting',
+			claim_link: 'https://example.com/waitlist/claim/sample-token',
+			shop_name: "Sarah's Alterations",
+		},
+	},
 ];
 
 // Retry configuration
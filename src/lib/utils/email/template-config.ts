@@ -482,6 +482,103 @@ export const EMAIL_TEMPLATE_CONFIGS: Record<EmailType, EmailTemplateConfig> = {
 		],
 		nonEditableSections: ['canceled_appointment_time'],
 	},
+
+	garment_ready_for_pickup: {
+		emailType: 'garment_ready_for_pickup',
+		editableSections: [
+			{
+				id: 'header',
+				label: 'Header',
+				defaultContent: '{shop_name}',
+				allowVariables: true,
+				maxLength: 100,
+			},
+			{
+				id: 'greeting',
+				label: 'Greeting',
+				defaultContent: 'Hi {client_name},',
+				allowVariables: true,
+				maxLength: 100,
+			},
+			{
+				id: 'message',
+				label: 'Message',
+				defaultContent:
+					'Good news! Your order is ready for pickup at {shop_name}.',
+				allowVariables: true,
+				maxLength: 300,
+			},
+			{
+				id: 'footer_message',
+				label: 'Footer Message',
+				defaultContent: 'If you have any questions, please contact us.',
+				allowVariables: false,
+				maxLength: 300,
+			},
+			{
+				id: 'closing',
+				label: 'Closing',
+				defaultContent: 'Thank you,\n{shop_name}',
+				allowVariables: true,
+				maxLength: 100,
+			},
+		],
+		nonEditableSections: ['garment_list', 'balance_due', 'payment_button'],
+		preview: {
+			clientName: 'Jane Smith',
+			shopName: "Sam's Alterations",
+			amount: '$85.00',
+		},
+	},
+
+	waitlist_slot_offer: {
+		emailType: 'waitlist_slot_offer',
+		editableSections: [
+			{
+				id: 'header',
+				label: 'Header',
+				defaultContent: '{shop_name}',
+				allowVariables: true,
+				maxLength: 100,
+			},
+			{
+				id: 'greeting',
+				label: 'Greeting',
+				defaultContent: 'Hi {client_name},',
+				allowVariables: true,
+				maxLength: 100,
+			},
+			{
+				id: 'message',
+				label: 'Message',
+				defaultContent:
+					'An appointment just opened up at {shop_name} and you are on our waitlist.',
+				allowVariables: true,
+				maxLength: 300,
+			},
+			{
+				id: 'footer_message',
+				label: 'Footer Message',
+				defaultContent:
+					'This offer went to everyone waiting for this time, so the first to claim it gets the appointment.',
+				allowVariables: false,
+				maxLength: 300,
+			},
+			{
+				id: 'closing',
+				label: 'Closing',
+				defaultContent: 'Thank you,\n{shop_name}',
+				allowVariables: true,
+				maxLength: 100,
+			},
+		],
+		nonEditableSections: ['appointment_time', 'claim_button'],
+		preview: {
+			clientName: 'Jane Smith',
+			shopName: "Sam's Alterations",
+			appointmentTime: 'Thursday, March 15 at 2:00 PM',
+		},
+	},
 };
 
 // Helper function to get config for a specific email type
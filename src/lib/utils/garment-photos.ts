@@ -0,0 +1,73 @@
+export type GarmentPhotoTag = 'before' | 'fitting' | 'after';
+
+export const GARMENT_PHOTO_TAGS: GarmentPhotoTag[] = [
+	'before',
+	'fitting',
+	'after',
+];
+
+export const GARMENT_PHOTO_TAG_LABELS: Record<GarmentPhotoTag, string> = {
+	before: 'Before',
+	fitting: 'During fitting',
+	after: 'After',
+};
+
+export const GARMENT_PHOTO_SELECT =
+	'id, garment_id, image_cloud_id, photo_url, tag, caption, position, is_cover, taken_at';
+
+export interface GarmentPhoto {
+	id: string;
+	garmentId: string;
+	imageCloudId: string;
+	photoUrl: string;
+	tag: GarmentPhotoTag;
+	caption: string | null;
+	position: number;
+	isCover: boolean;
+	takenAt: string;
+}
+
+export function isGarmentPhotoTag(tag: unknown): tag is GarmentPhotoTag {
+	return tag === 'before' || tag === 'fitting' || tag === 'after';
+}
+
+export function toGarmentPhoto(row: {
+	id: string;
+	garment_id: string;
+	image_cloud_id: string;
+	photo_url: string;
+	tag: string;
+	caption: string | null;
+	position: number;
+	is_cover: boolean;
+	taken_at: string;
+}): GarmentPhoto {
+	return {
+		id: row.id,
+		garmentId: row.garment_id,
+		imageCloudId: row.image_cloud_id,
+		photoUrl: row.photo_url,
+		tag: isGarmentPhotoTag(row.tag) ? row.tag : 'before',
+		caption: row.caption,
+		position: row.position,
+		isCover: row.is_cover,
+		takenAt: row.taken_at,
+	};
+}
+
+/**
+ * The photo ids with one photo moved to a new index
+ */
+export function movePhoto(
+	photoIds: string[],
+	photoId: string,
+	toIndex: number
+): string[] {
+	const fromIndex = photoIds.indexOf(photoId);
+	if (fromIndex === -1) return photoIds;
+
+	const reordered = photoIds.filter((id) => id !== photoId);
+	const index = Math.max(0, Math.min(toIndex, reordered.length));
+	reordered.splice(index, 0, photoId);
+	return reordered;
+}
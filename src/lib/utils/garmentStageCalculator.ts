@@ -64,3 +64,37 @@ export function shouldUpdateStageOptimistically(
   // Only update if the stage is actually changing
   return currentStage !== newStage;
 }
+
+/**
+ * Why a garment can't be moved to a stage by hand, or null if it can.
+ * Ready For Pickup needs every active service finished, and Done is only
+ * reached by picking up a garment that's ready.
+ */
+export function getStageMoveError(
+  currentStage: GarmentStage,
+  targetStage: GarmentStage,
+  services: Service[]
+): string | null {
+  if (currentStage === targetStage) return null;
+
+  if (currentStage === 'Done') {
+    return "Picked up garments can't be moved back";
+  }
+
+  if (targetStage === 'Ready For Pickup') {
+    const { completedCount, totalCount } =
+      calculateGarmentStageClient(services);
+    if (totalCount === 0) {
+      return 'Add a service before marking the garment ready for pickup';
+    }
+    if (completedCount < totalCount) {
+      return 'Finish all services before marking the garment ready for pickup';
+    }
+  }
+
+  if (targetStage === 'Done' && currentStage !== 'Ready For Pickup') {
+    return 'Only garments ready for pickup can be marked as done';
+  }
+
+  return null;
+}
@@ -0,0 +1,230 @@
+import { convertLocalToUTC } from './date-time-utc';
+
+/**
+ * iCalendar (RFC 5545) helpers for the shop calendar feed and the .ics
+ * invites attached to appointment emails.
+ */
+
+export type IcsMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+export interface IcsPerson {
+	name?: string | undefined;
+	email: string;
+}
+
+export interface IcsEvent {
+	uid: string;
+	start: Date;
+	end: Date;
+	summary: string;
+	description?: string | undefined;
+	location?: string | undefined;
+	url?: string | undefined;
+	status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED' | undefined;
+	sequence?: number | undefined;
+	organizer?: IcsPerson | undefined;
+	attendee?: IcsPerson | undefined;
+}
+
+export interface IcsAppointment {
+	id: string;
+	date: string;
+	start_time: string;
+	end_time: string;
+	start_at?: string | null | undefined;
+	end_at?: string | null | undefined;
+	type: string;
+	status: string;
+	notes?: string | null | undefined;
+	created_at?: string | null | undefined;
+	updated_at?: string | null | undefined;
+}
+
+const PRODID = '-//Hemsy//Appointments//EN';
+
+const APPOINTMENT_TYPE_LABELS: Record<string, string> = {
+	consultation: 'Consultation',
+	fitting: 'Fitting',
+	pickup: 'Pickup',
+	delivery: 'Delivery',
+	other: 'Appointment',
+};
+
+export function getAppointmentTypeLabel(type: string): string {
+	return APPOINTMENT_TYPE_LABELS[type] || 'Appointment';
+}
+
+export function escapeIcsText(value: string): string {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\;')
+		.replace(/,/g, '\\,')
+		.replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 §3.1), never splitting a
+ * multi-byte character.
+ */
+export function foldIcsLine(line: string): string {
+	const encoder = new TextEncoder();
+	if (encoder.encode(line).length <= 75) return line;
+
+	const parts: string[] = [];
+	let current = '';
+	let currentBytes = 0;
+	// Continuation lines start with a space, which counts toward the limit
+	let limit = 75;
+
+	for (const char of line) {
+		const charBytes = encoder.encode(char).length;
+		if (currentBytes + charBytes > limit) {
+			parts.push(current);
+			current = '';
+			currentBytes = 0;
+			limit = 74;
+		}
+		current += char;
+		currentBytes += charBytes;
+	}
+	parts.push(current);
+
+	return parts.join('\r\n ');
+}
+
+export function formatIcsDate(date: Date): string {
+	return date
+		.toISOString()
+		.replace(/[-:]/g, '')
+		.replace(/\.\d{3}/, '');
+}
+
+function formatPerson(
+	property: 'ORGANIZER' | 'ATTENDEE',
+	person: IcsPerson,
+	params: string[] = []
+): string {
+	const name = person.name ? [`CN="${person.name.replace(/"/g, "'")}"`] : [];
+	return `${[property, ...name, ...params].join(';')}:mailto:${person.email}`;
+}
+
+function buildEventLines(event: IcsEvent, dtstamp: Date): string[] {
+	const lines = [
+		'BEGIN:VEVENT',
+		`UID:${event.uid}`,
+		`DTSTAMP:${formatIcsDate(dtstamp)}`,
+		`DTSTART:${formatIcsDate(event.start)}`,
+		`DTEND:${formatIcsDate(event.end)}`,
+		`SUMMARY:${escapeIcsText(event.summary)}`,
+	];
+
+	if (event.description) {
+		lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+	}
+	if (event.location) {
+		lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+	}
+	if (event.url) {
+		lines.push(`URL:${event.url}`);
+	}
+	if (event.status) {
+		lines.push(`STATUS:${event.status}`);
+	}
+	if (event.sequence !== undefined) {
+		lines.push(`SEQUENCE:${event.sequence}`);
+	}
+	if (event.organizer) {
+		lines.push(formatPerson('ORGANIZER', event.organizer));
+	}
+	if (event.attendee) {
+		lines.push(
+			formatPerson('ATTENDEE', event.attendee, [
+				'ROLE=REQ-PARTICIPANT',
+				'RSVP=FALSE',
+			])
+		);
+	}
+
+	lines.push('END:VEVENT');
+	return lines;
+}
+
+export function buildIcsCalendar(params: {
+	method: IcsMethod;
+	events: IcsEvent[];
+	name?: string | undefined;
+	timezone?: string | undefined;
+	now?: Date | undefined;
+}): string {
+	const dtstamp = params.now || new Date();
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		`PRODID:${PRODID}`,
+		'CALSCALE:GREGORIAN',
+		`METHOD:${params.method}`,
+	];
+
+	if (params.name) {
+		lines.push(`X-WR-CALNAME:${escapeIcsText(params.name)}`);
+	}
+	if (params.timezone) {
+		lines.push(`X-WR-TIMEZONE:${params.timezone}`);
+	}
+
+	for (const event of params.events) {
+		lines.push(...buildEventLines(event, dtstamp));
+	}
+
+	lines.push('END:VCALENDAR');
+	return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Stable UID so REQUEST/CANCEL updates replace the same calendar entry
+ */
+export function getAppointmentUid(appointmentId: string): string {
+	return `${appointmentId}@hemsy.app`;
+}
+
+export function getAppointmentUrl(appointment: {
+	id: string;
+	date: string;
+}): string {
+	const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+	return `${baseUrl}/appointments?view=day&date=${appointment.date}&focus=${appointment.id}`;
+}
+
+/**
+ * UTC start/end for an appointment. Older rows without start_at/end_at fall
+ * back to the legacy local date/time columns in the shop timezone.
+ */
+export function getAppointmentUtcRange(
+	appointment: IcsAppointment,
+	timezone: string
+): { start: Date; end: Date } {
+	const start = appointment.start_at
+		? new Date(appointment.start_at)
+		: convertLocalToUTC(
+				appointment.date,
+				appointment.start_time.slice(0, 5),
+				timezone
+			);
+	const end = appointment.end_at
+		? new Date(appointment.end_at)
+		: convertLocalToUTC(
+				appointment.date,
+				appointment.end_time.slice(0, 5),
+				timezone
+			);
+	return { start, end };
+}
+
+/**
+ * Calendar apps only apply an update whose SEQUENCE is higher than the one
+ * they have; every appointment edit bumps updated_at, so derive it from that.
+ */
+export function getAppointmentSequence(appointment: IcsAppointment): number {
+	const timestamp = appointment.updated_at || appointment.created_at;
+	return timestamp ? Math.floor(new Date(timestamp).getTime() / 1000) : 0;
+}
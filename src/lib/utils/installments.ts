@@ -0,0 +1,130 @@
+import type { Tables } from '@/types/supabase';
+
+export type InstallmentStatus = 'paid' | 'due' | 'late';
+
+export type Installment = Pick<
+	Tables<'invoice_installments'>,
+	'id' | 'sequence' | 'amount_cents' | 'due_date'
+>;
+
+export type InstallmentWithStatus<T = Installment> = T & {
+	paidCents: number;
+	remainingCents: number;
+	status: InstallmentStatus;
+};
+
+export interface InstallmentDraft {
+	amountCents: number;
+	// YYYY-MM-DD
+	dueDate: string;
+}
+
+// Invoices with an installment plan have this invoice_type
+export const INSTALLMENT_INVOICE_TYPE = 'installment';
+
+export const MIN_INSTALLMENTS = 2;
+export const MAX_INSTALLMENTS = 12;
+
+// Upcoming installments are emailed a payment link this many days ahead
+export const INSTALLMENT_REMINDER_DAYS_BEFORE = 3;
+
+export const INSTALLMENT_STATUS_LABELS: Record<InstallmentStatus, string> = {
+	paid: 'Paid',
+	due: 'Due',
+	late: 'Late',
+};
+
+export const INSTALLMENT_LINK_EMAIL = {
+	subject:
+		'Installment {installment_number} of {installment_count} for invoice {invoice_number}',
+	body: `Hi {client_name},
+
+Installment {installment_number} of {installment_count} on invoice {invoice_number}, {installment_amount}, is due {due_date}. You can pay it online here:
+{payment_link}
+
+If you've already paid, please ignore this message.
+
+Thank you,
+{shop_name}`,
+};
+
+/**
+ * Payments aren't tied to an installment; what's been paid on the invoice
+ * covers installments in order. An installment that isn't fully covered is
+ * late once its due date (YYYY-MM-DD, like today) has passed.
+ */
+export function getInstallmentStatuses<
+	T extends Pick<Installment, 'sequence' | 'amount_cents' | 'due_date'>,
+>(
+	installments: T[],
+	paidCents: number,
+	today: string
+): InstallmentWithStatus<T>[] {
+	let unallocated = Math.max(paidCents, 0);
+
+	return [...installments]
+		.sort((a, b) => a.sequence - b.sequence)
+		.map((installment) => {
+			const covered = Math.min(unallocated, installment.amount_cents);
+			unallocated -= covered;
+			const remainingCents = installment.amount_cents - covered;
+
+			return {
+				...installment,
+				paidCents: covered,
+				remainingCents,
+				status:
+					remainingCents === 0
+						? 'paid'
+						: installment.due_date < today
+							? 'late'
+							: 'due',
+			};
+		});
+}
+
+/**
+ * Equal installments, with any odd cents on the first so the total matches
+ */
+export function splitIntoInstallments(
+	totalCents: number,
+	count: number
+): number[] {
+	if (count <= 0) return [];
+	const base = Math.floor(totalCents / count);
+	const remainder = totalCents - base * count;
+	return Array.from({ length: count }, (_, index) =>
+		index === 0 ? base + remainder : base
+	);
+}
+
+/**
+ * Why a plan can't be saved for an invoice of totalCents, or null if it can
+ */
+export function getInstallmentPlanError(
+	installments: InstallmentDraft[],
+	totalCents: number
+): string | null {
+	if (
+		installments.length < MIN_INSTALLMENTS ||
+		installments.length > MAX_INSTALLMENTS
+	) {
+		return `Use between ${MIN_INSTALLMENTS} and ${MAX_INSTALLMENTS} installments`;
+	}
+	if (installments.some((installment) => installment.amountCents <= 0)) {
+		return 'Each installment needs an amount';
+	}
+
+	const sum = installments.reduce((total, i) => total + i.amountCents, 0);
+	if (sum !== totalCents) {
+		return 'Installments must add up to the invoice total';
+	}
+
+	for (let index = 1; index < installments.length; index++) {
+		if (installments[index]!.dueDate <= installments[index - 1]!.dueDate) {
+			return 'Each installment must be due after the one before it';
+		}
+	}
+
+	return null;
+}
@@ -0,0 +1,576 @@
+import type { Json } from '@/types/supabase';
+import { getDiscountLineLabel } from '@/lib/utils/discount-calculations';
+import { DISCOUNT_LINE_TYPE } from '@/lib/utils/discounts';
+import { formatCurrency } from '@/lib/utils/formatting';
+import {
+	PdfDocument,
+	PDF_PAGE_HEIGHT,
+	PDF_PAGE_WIDTH,
+	wrapPdfText,
+} from './pdf';
+
+export type InvoicePdfKind = 'invoice' | 'receipt';
+
+export interface InvoicePdfShop {
+	name: string;
+	business_name?: string | null | undefined;
+	email?: string | null | undefined;
+	phone_number?: string | null | undefined;
+	mailing_address?: string | null | undefined;
+	timezone?: string | null | undefined;
+}
+
+export interface InvoicePdfPayment {
+	id: string;
+	amount_cents: number;
+	refunded_amount_cents?: number | null | undefined;
+	// Charged on top of amount_cents, not part of the invoice
+	tip_cents?: number | null | undefined;
+	status: string;
+	payment_method: string;
+	payment_type: string;
+	processed_at?: string | null | undefined;
+	created_at?: string | null | undefined;
+	external_reference?: string | null | undefined;
+	stripe_payment_intent_id?: string | null | undefined;
+}
+
+/**
+ * An invoice with the joins every invoice query in the app already selects
+ */
+export interface InvoicePdfInvoice {
+	invoice_number: string;
+	amount_cents: number;
+	created_at: string | null;
+	due_date?: string | null | undefined;
+	description?: string | null | undefined;
+	line_items: Json;
+	client: {
+		first_name: string;
+		last_name: string;
+		email?: string | null | undefined;
+		phone_number?: string | null | undefined;
+	};
+	order?: {
+		order_number: string;
+		tax_cents?: number | null | undefined;
+	} | null;
+	payments?: InvoicePdfPayment[] | null | undefined;
+}
+
+export interface InvoicePdfLineItem {
+	name: string;
+	description?: string | undefined;
+	quantity: number;
+	unitPriceCents: number;
+	lineTotalCents: number;
+	isDiscount: boolean;
+}
+
+export interface InvoicePdfTotals {
+	subtotalCents: number;
+	discounts: { label: string; amountCents: number }[];
+	taxCents: number;
+	// Whatever the invoice amount has beyond its lines that isn't the order's tax
+	adjustmentCents: number;
+	totalCents: number;
+	paidCents: number;
+	refundedCents: number;
+	balanceCents: number;
+	tipsCents: number;
+}
+
+const MARGIN = 50;
+const RIGHT = PDF_PAGE_WIDTH - MARGIN;
+const BOTTOM = PDF_PAGE_HEIGHT - 60;
+const QTY_RIGHT = 390;
+const UNIT_RIGHT = 470;
+const DESCRIPTION_WIDTH = 260;
+
+// Statuses of payments that brought money in, refunded or not
+const COLLECTED_STATUSES = ['completed', 'partially_refunded', 'refunded'];
+
+/**
+ * Reads invoices.line_items, which is loosely typed JSON
+ */
+export function getInvoicePdfLineItems(lineItems: Json): InvoicePdfLineItem[] {
+	if (!Array.isArray(lineItems)) return [];
+
+	return lineItems.flatMap((item) => {
+		if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+		const quantity = Number(item.quantity ?? 1) || 1;
+		const unitPriceCents = Number(item.unit_price_cents ?? 0) || 0;
+		const isDiscount = item.type === DISCOUNT_LINE_TYPE;
+		const description =
+			typeof item.description === 'string' && item.description.trim()
+				? item.description.trim()
+				: undefined;
+
+		return [
+			{
+				name:
+					typeof item.name === 'string' && item.name
+						? item.name
+						: isDiscount
+							? getDiscountLineLabel()
+							: 'Item',
+				description,
+				quantity,
+				unitPriceCents,
+				lineTotalCents:
+					item.line_total_cents != null
+						? Number(item.line_total_cents) || 0
+						: quantity * unitPriceCents,
+				isDiscount,
+			},
+		];
+	});
+}
+
+function getCollectedPayments(
+	payments: InvoicePdfPayment[] | null | undefined
+): InvoicePdfPayment[] {
+	return (payments || []).filter(
+		(payment) =>
+			COLLECTED_STATUSES.includes(payment.status) &&
+			payment.payment_type !== 'refund'
+	);
+}
+
+/**
+ * Works out the totals block. Invoices created from an order's discount
+ * include its tax in amount_cents and others don't, so the difference
+ * between the amount and the lines is shown as tax only when it matches.
+ */
+export function calculateInvoicePdfTotals(
+	invoice: InvoicePdfInvoice
+): InvoicePdfTotals {
+	const lines = getInvoicePdfLineItems(invoice.line_items);
+	const subtotalCents = lines
+		.filter((line) => !line.isDiscount)
+		.reduce((sum, line) => sum + line.lineTotalCents, 0);
+	const discounts = lines
+		.filter((line) => line.isDiscount)
+		.map((line) => ({
+			label: line.name,
+			amountCents: -Math.abs(line.lineTotalCents),
+		}));
+	const lineSum =
+		subtotalCents +
+		discounts.reduce((sum, discount) => sum + discount.amountCents, 0);
+
+	const difference = invoice.amount_cents - lineSum;
+	const orderTax = invoice.order?.tax_cents || 0;
+	const taxCents = difference !== 0 && difference === orderTax ? difference : 0;
+
+	const collected = getCollectedPayments(invoice.payments);
+	const paidCents = collected.reduce((sum, p) => sum + p.amount_cents, 0);
+	const refundedCents = collected.reduce(
+		(sum, p) => sum + (p.refunded_amount_cents || 0),
+		0
+	);
+	const tipsCents = collected.reduce((sum, p) => sum + (p.tip_cents || 0), 0);
+
+	return {
+		subtotalCents,
+		discounts,
+		taxCents,
+		adjustmentCents: difference - taxCents,
+		totalCents: invoice.amount_cents,
+		paidCents,
+		refundedCents,
+		balanceCents: invoice.amount_cents - (paidCents - refundedCents),
+		tipsCents,
+	};
+}
+
+export function getPaymentMethodLabel(method: string): string {
+	switch (method) {
+		case 'stripe':
+			return 'Card';
+		case 'cash':
+			return 'Cash';
+		case 'check':
+			return 'Check';
+		case 'external_pos':
+			return 'External POS';
+		case 'store_credit':
+			return 'Store Credit';
+		case 'gift_card':
+			return 'Gift Card';
+		default:
+			return method.replace(/_/g, ' ');
+	}
+}
+
+/**
+ * Dates are formatted in the shop's timezone, except bare YYYY-MM-DD values
+ * like due_date, which are already calendar dates
+ */
+function formatPdfDate(
+	value: string | null | undefined,
+	timezone: string | null | undefined
+): string {
+	if (!value) return '';
+	const options: Intl.DateTimeFormatOptions = {
+		year: 'numeric',
+		month: 'long',
+		day: 'numeric',
+	};
+
+	const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+	if (dateOnly) {
+		const [, year, month, day] = dateOnly;
+		return new Intl.DateTimeFormat('en-US', {
+			...options,
+			timeZone: 'UTC',
+		}).format(new Date(Date.UTC(Number(year), Number(month) - 1, Number(day))));
+	}
+
+	const date = new Date(value);
+	if (isNaN(date.getTime())) return '';
+	try {
+		return new Intl.DateTimeFormat('en-US', {
+			...options,
+			...(timezone ? { timeZone: timezone } : {}),
+		}).format(date);
+	} catch {
+		// Unknown timezone names throw
+		return new Intl.DateTimeFormat('en-US', options).format(date);
+	}
+}
+
+/**
+ * The payment a receipt is for: the one asked for, otherwise the latest
+ */
+export function getReceiptPayment(
+	invoice: InvoicePdfInvoice,
+	paymentId?: string
+): InvoicePdfPayment | undefined {
+	const collected = getCollectedPayments(invoice.payments);
+	if (paymentId) return collected.find((p) => p.id === paymentId);
+
+	return [...collected].sort(
+		(a, b) =>
+			new Date(b.processed_at || b.created_at || 0).getTime() -
+			new Date(a.processed_at || a.created_at || 0).getTime()
+	)[0];
+}
+
+export function getInvoicePdfFilename(
+	invoice: Pick<InvoicePdfInvoice, 'invoice_number'>,
+	kind: InvoicePdfKind
+): string {
+	const number = invoice.invoice_number.replace(/[^A-Za-z0-9-]/g, '');
+	return `${kind === 'receipt' ? 'receipt' : 'invoice'}-${number}.pdf`;
+}
+
+/**
+ * Lays out an invoice, or a receipt for one of its payments, as a PDF
+ */
+export function buildInvoicePdf({
+	invoice,
+	shop,
+	kind,
+	payment,
+}: {
+	invoice: InvoicePdfInvoice;
+	shop: InvoicePdfShop;
+	kind: InvoicePdfKind;
+	payment?: InvoicePdfPayment | undefined;
+}): Buffer {
+	const pdf = new PdfDocument();
+	const timezone = shop.timezone;
+	const totals = calculateInvoicePdfTotals(invoice);
+	let y = MARGIN;
+
+	// Starts a new page when the next `height` points won't fit
+	const ensureSpace = (height: number, onNewPage?: () => void) => {
+		if (y + height <= BOTTOM) return;
+		pdf.addPage();
+		y = MARGIN;
+		onNewPage?.();
+	};
+
+	// Shop details on the left, document details on the right
+	const shopName = shop.business_name || shop.name;
+	pdf.text(shopName, MARGIN, y + 14, { font: 'bold', size: 16 });
+	pdf.text(kind === 'receipt' ? 'RECEIPT' : 'INVOICE', RIGHT, y + 14, {
+		font: 'bold',
+		size: 20,
+		align: 'right',
+	});
+
+	let shopY = y + 32;
+	const shopLines = [
+		...(shop.mailing_address ? shop.mailing_address.split(/\r?\n|,\s*/) : []),
+		shop.phone_number,
+		shop.email,
+	].filter((line): line is string => !!line && !!line.trim());
+	for (const line of shopLines) {
+		pdf.text(line.trim(), MARGIN, shopY, { size: 9, gray: 0.35 });
+		shopY += 12;
+	}
+
+	let detailY = y + 32;
+	const details: [string, string][] = [
+		['Invoice #', invoice.invoice_number],
+		['Date', formatPdfDate(invoice.created_at, timezone)],
+	];
+	if (kind === 'invoice' && invoice.due_date) {
+		details.push(['Due', formatPdfDate(invoice.due_date, timezone)]);
+	}
+	if (invoice.order?.order_number) {
+		details.push(['Order #', invoice.order.order_number]);
+	}
+	for (const [label, value] of details) {
+		pdf.text(label, UNIT_RIGHT, detailY, {
+			size: 9,
+			gray: 0.35,
+			align: 'right',
+		});
+		pdf.text(value, RIGHT, detailY, { size: 9, align: 'right' });
+		detailY += 12;
+	}
+
+	y = Math.max(shopY, detailY) + 16;
+
+	// Bill to
+	pdf.text(kind === 'receipt' ? 'RECEIVED FROM' : 'BILL TO', MARGIN, y, {
+		font: 'bold',
+		size: 8,
+		gray: 0.35,
+	});
+	y += 14;
+	pdf.text(
+		`${invoice.client.first_name} ${invoice.client.last_name}`.trim(),
+		MARGIN,
+		y,
+		{ font: 'bold', size: 11 }
+	);
+	for (const line of [invoice.client.email, invoice.client.phone_number]) {
+		if (!line) continue;
+		y += 13;
+		pdf.text(line, MARGIN, y, { size: 9 });
+	}
+	y += 24;
+
+	// The payment this receipt is for
+	if (kind === 'receipt' && payment) {
+		const reference =
+			payment.external_reference || payment.stripe_payment_intent_id;
+		const rows: [string, string][] = [
+			['Amount paid', formatCurrency(payment.amount_cents)],
+		];
+		if (payment.tip_cents) {
+			rows.push(
+				['Tip', formatCurrency(payment.tip_cents)],
+				[
+					'Total charged',
+					formatCurrency(payment.amount_cents + payment.tip_cents),
+				]
+			);
+		}
+		rows.push(
+			[
+				'Date',
+				formatPdfDate(payment.processed_at || payment.created_at, timezone),
+			],
+			['Method', getPaymentMethodLabel(payment.payment_method)]
+		);
+		if (reference) rows.push(['Reference', reference]);
+		if (payment.refunded_amount_cents) {
+			rows.push(['Refunded', formatCurrency(payment.refunded_amount_cents)]);
+		}
+
+		pdf.line(MARGIN, y - 10, RIGHT, y - 10);
+		for (const [label, value] of rows) {
+			pdf.text(label, MARGIN, y + 4, { size: 10, gray: 0.35 });
+			pdf.text(value, MARGIN + 110, y + 4, {
+				size: 10,
+				font: label === 'Amount paid' ? 'bold' : 'regular',
+			});
+			y += 15;
+		}
+		pdf.line(MARGIN, y, RIGHT, y);
+		y += 28;
+	}
+
+	// Line items
+	const drawTableHeader = () => {
+		pdf.text('DESCRIPTION', MARGIN, y, { font: 'bold', size: 8, gray: 0.35 });
+		pdf.text('QTY', QTY_RIGHT, y, {
+			font: 'bold',
+			size: 8,
+			gray: 0.35,
+			align: 'right',
+		});
+		pdf.text('UNIT PRICE', UNIT_RIGHT, y, {
+			font: 'bold',
+			size: 8,
+			gray: 0.35,
+			align: 'right',
+		});
+		pdf.text('AMOUNT', RIGHT, y, {
+			font: 'bold',
+			size: 8,
+			gray: 0.35,
+			align: 'right',
+		});
+		y += 6;
+		pdf.line(MARGIN, y, RIGHT, y);
+		y += 14;
+	};
+	drawTableHeader();
+
+	const services = getInvoicePdfLineItems(invoice.line_items).filter(
+		(line) => !line.isDiscount
+	);
+	if (services.length === 0 && invoice.description) {
+		services.push({
+			name: invoice.description,
+			quantity: 1,
+			unitPriceCents: totals.subtotalCents,
+			lineTotalCents: totals.subtotalCents,
+			isDiscount: false,
+		});
+	}
+
+	for (const line of services) {
+		const nameLines = wrapPdfText(line.name, DESCRIPTION_WIDTH, 10, 'bold');
+		const descriptionLines = line.description
+			? wrapPdfText(line.description, DESCRIPTION_WIDTH, 9)
+			: [];
+		ensureSpace(
+			nameLines.length * 13 + descriptionLines.length * 11 + 6,
+			drawTableHeader
+		);
+
+		pdf.text(String(line.quantity), QTY_RIGHT, y, {
+			size: 10,
+			align: 'right',
+		});
+		pdf.text(formatCurrency(line.unitPriceCents), UNIT_RIGHT, y, {
+			size: 10,
+			align: 'right',
+		});
+		pdf.text(formatCurrency(line.lineTotalCents), RIGHT, y, {
+			size: 10,
+			align: 'right',
+		});
+		for (const text of nameLines) {
+			pdf.text(text, MARGIN, y, { size: 10, font: 'bold' });
+			y += 13;
+		}
+		for (const text of descriptionLines) {
+			pdf.text(text, MARGIN, y, { size: 9, gray: 0.35 });
+			y += 11;
+		}
+		y += 6;
+	}
+
+	// Totals
+	const totalRows: { label: string; value: string; bold?: boolean }[] = [
+		{ label: 'Subtotal', value: formatCurrency(totals.subtotalCents) },
+		...totals.discounts.map((discount) => ({
+			label: discount.label,
+			value: formatCurrency(discount.amountCents),
+		})),
+	];
+	if (totals.taxCents) {
+		totalRows.push({ label: 'Tax', value: formatCurrency(totals.taxCents) });
+	}
+	if (totals.adjustmentCents) {
+		totalRows.push({
+			label: 'Adjustments',
+			value: formatCurrency(totals.adjustmentCents),
+		});
+	}
+	totalRows.push({
+		label: 'Total',
+		value: formatCurrency(totals.totalCents),
+		bold: true,
+	});
+	if (totals.paidCents) {
+		totalRows.push({
+			label: 'Paid',
+			value: formatCurrency(-totals.paidCents),
+		});
+	}
+	if (totals.refundedCents) {
+		totalRows.push({
+			label: 'Refunded',
+			value: formatCurrency(totals.refundedCents),
+		});
+	}
+	totalRows.push({
+		label: totals.balanceCents < 0 ? 'Credit' : 'Balance due',
+		value: formatCurrency(Math.abs(totals.balanceCents)),
+		bold: true,
+	});
+	// Tips don't count toward the balance, so they come after it
+	if (totals.tipsCents) {
+		totalRows.push({ label: 'Tips', value: formatCurrency(totals.tipsCents) });
+	}
+
+	ensureSpace(totalRows.length * 16 + 10);
+	pdf.line(MARGIN, y - 6, RIGHT, y - 6);
+	y += 8;
+	for (const row of totalRows) {
+		const font = row.bold ? 'bold' : 'regular';
+		pdf.text(row.label, UNIT_RIGHT, y, { size: 10, font, align: 'right' });
+		pdf.text(row.value, RIGHT, y, { size: 10, font, align: 'right' });
+		y += 16;
+	}
+
+	// Payment history
+	const collected = getCollectedPayments(invoice.payments);
+	if (collected.length > 0) {
+		y += 16;
+		ensureSpace(40);
+		pdf.text('PAYMENTS', MARGIN, y, { font: 'bold', size: 8, gray: 0.35 });
+		y += 6;
+		pdf.line(MARGIN, y, RIGHT, y);
+		y += 14;
+
+		for (const item of collected) {
+			ensureSpace(14);
+			pdf.text(
+				formatPdfDate(item.processed_at || item.created_at, timezone),
+				MARGIN,
+				y,
+				{ size: 9 }
+			);
+			pdf.text(
+				item.tip_cents
+					? `${getPaymentMethodLabel(item.payment_method)} (+ ${formatCurrency(item.tip_cents)} tip)`
+					: getPaymentMethodLabel(item.payment_method),
+				MARGIN + 150,
+				y,
+				{ size: 9 }
+			);
+			if (item.refunded_amount_cents) {
+				pdf.text(
+					`${formatCurrency(item.refunded_amount_cents)} refunded`,
+					UNIT_RIGHT,
+					y,
+					{ size: 9, gray: 0.35, align: 'right' }
+				);
+			}
+			pdf.text(formatCurrency(item.amount_cents), RIGHT, y, {
+				size: 9,
+				align: 'right',
+			});
+			y += 14;
+		}
+	}
+
+	ensureSpace(40);
+	pdf.text('Thank you for your business!', PDF_PAGE_WIDTH / 2, y + 30, {
+		size: 10,
+		gray: 0.35,
+		align: 'center',
+	});
+
+	return pdf.toBuffer();
+}
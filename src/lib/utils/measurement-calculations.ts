@@ -0,0 +1,212 @@
+export type MeasurementUnit = 'in' | 'cm';
+
+export const MEASUREMENT_UNIT_LABELS: Record<MeasurementUnit, string> = {
+	in: 'Inches',
+	cm: 'Centimeters',
+};
+
+const CM_PER_INCH = 2.54;
+
+export interface MeasurementField {
+	// Standard key, or the measurement_fields id for the shop's own fields
+	key: string;
+	label: string;
+	custom: boolean;
+}
+
+export const STANDARD_MEASUREMENT_FIELDS: MeasurementField[] = [
+	{ key: 'neck', label: 'Neck', custom: false },
+	{ key: 'shoulder', label: 'Shoulder', custom: false },
+	{ key: 'bust', label: 'Bust / Chest', custom: false },
+	{ key: 'waist', label: 'Waist', custom: false },
+	{ key: 'hips', label: 'Hips', custom: false },
+	{ key: 'sleeve', label: 'Sleeve', custom: false },
+	{ key: 'bicep', label: 'Bicep', custom: false },
+	{ key: 'back_length', label: 'Back Length', custom: false },
+	{ key: 'rise', label: 'Rise', custom: false },
+	{ key: 'thigh', label: 'Thigh', custom: false },
+	{ key: 'inseam', label: 'Inseam', custom: false },
+	{ key: 'outseam', label: 'Outseam', custom: false },
+];
+
+export interface MeasurementRecord {
+	id: string;
+	clientId: string;
+	// Date the measurements were taken
+	measuredOn: string;
+	unit: MeasurementUnit;
+	// Field key to value in `unit`
+	values: Record<string, number>;
+	notes: string | null;
+	createdAt: string;
+}
+
+/**
+ * Labelled copy of a measurement record stored on a garment. A type alias so
+ * it can be passed as JSON.
+ */
+export type MeasurementSnapshot = {
+	measuredOn: string;
+	unit: MeasurementUnit;
+	values: Array<{ label: string; value: number }>;
+	notes: string | null;
+};
+
+export interface MeasurementChange {
+	key: string;
+	label: string;
+	// In the newer record's unit; null when the field wasn't measured
+	previous: number | null;
+	current: number | null;
+	difference: number | null;
+}
+
+export function isMeasurementUnit(unit: unknown): unit is MeasurementUnit {
+	return unit === 'in' || unit === 'cm';
+}
+
+export function toMeasurementRecord(row: {
+	id: string;
+	client_id: string;
+	measured_on: string;
+	unit: string;
+	values: unknown;
+	notes: string | null;
+	created_at: string;
+}): MeasurementRecord {
+	const values: Record<string, number> = {};
+	if (row.values && typeof row.values === 'object') {
+		for (const [key, value] of Object.entries(row.values)) {
+			if (typeof value === 'number') values[key] = value;
+		}
+	}
+
+	return {
+		id: row.id,
+		clientId: row.client_id,
+		measuredOn: row.measured_on,
+		unit: isMeasurementUnit(row.unit) ? row.unit : 'in',
+		values,
+		notes: row.notes,
+		createdAt: row.created_at,
+	};
+}
+
+/**
+ * The standard fields followed by the shop's own fields
+ */
+export function getMeasurementFields(
+	customFields: Array<{ id: string; label: string }>
+): MeasurementField[] {
+	return [
+		...STANDARD_MEASUREMENT_FIELDS,
+		...customFields.map((field) => ({
+			key: field.id,
+			label: field.label,
+			custom: true,
+		})),
+	];
+}
+
+function roundMeasurement(value: number) {
+	return Math.round(value * 10) / 10;
+}
+
+export function convertMeasurement(
+	value: number,
+	from: MeasurementUnit,
+	to: MeasurementUnit
+): number {
+	if (from === to) return value;
+	return roundMeasurement(
+		from === 'in' ? value * CM_PER_INCH : value / CM_PER_INCH
+	);
+}
+
+export function formatMeasurement(value: number, unit: MeasurementUnit) {
+	return `${value} ${unit}`;
+}
+
+/**
+ * Fields that changed from the previous record to the current one, including
+ * fields only one of them measured. The previous values are converted to the
+ * current record's unit.
+ */
+export function compareMeasurements(
+	previous: Pick<MeasurementRecord, 'unit' | 'values'>,
+	current: Pick<MeasurementRecord, 'unit' | 'values'>,
+	fields: MeasurementField[]
+): MeasurementChange[] {
+	const changes: MeasurementChange[] = [];
+
+	for (const field of fields) {
+		const before = previous.values[field.key];
+		const after = current.values[field.key];
+		const previousValue =
+			before === undefined
+				? null
+				: convertMeasurement(before, previous.unit, current.unit);
+		const currentValue = after ?? null;
+
+		if (previousValue === currentValue) continue;
+
+		changes.push({
+			key: field.key,
+			label: field.label,
+			previous: previousValue,
+			current: currentValue,
+			difference:
+				previousValue !== null && currentValue !== null
+					? roundMeasurement(currentValue - previousValue)
+					: null,
+		});
+	}
+
+	return changes;
+}
+
+/**
+ * Copies a record's values in field order with their labels. Values of
+ * fields the shop has since removed are left out.
+ */
+export function buildMeasurementSnapshot(
+	record: Pick<MeasurementRecord, 'measuredOn' | 'unit' | 'values' | 'notes'>,
+	fields: MeasurementField[]
+): MeasurementSnapshot {
+	return {
+		measuredOn: record.measuredOn,
+		unit: record.unit,
+		values: fields.flatMap((field) => {
+			const value = record.values[field.key];
+			return value === undefined ? [] : [{ label: field.label, value }];
+		}),
+		notes: record.notes,
+	};
+}
+
+/**
+ * Reads a snapshot stored on a garment, or null when there isn't one
+ */
+export function parseMeasurementSnapshot(
+	json: unknown
+): MeasurementSnapshot | null {
+	if (!json || typeof json !== 'object') return null;
+	const snapshot = json as Partial<MeasurementSnapshot>;
+	if (
+		typeof snapshot.measuredOn !== 'string' ||
+		!isMeasurementUnit(snapshot.unit) ||
+		!Array.isArray(snapshot.values)
+	) {
+		return null;
+	}
+
+	return {
+		measuredOn: snapshot.measuredOn,
+		unit: snapshot.unit,
+		values: snapshot.values.filter(
+			(entry) =>
+				typeof entry?.label === 'string' && typeof entry?.value === 'number'
+		),
+		notes: typeof snapshot.notes === 'string' ? snapshot.notes : null,
+	};
+}
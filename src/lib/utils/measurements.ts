@@ -0,0 +1,65 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import {
+	buildMeasurementSnapshot,
+	getMeasurementFields,
+	toMeasurementRecord,
+	type MeasurementField,
+	type MeasurementSnapshot,
+} from '@/lib/utils/measurement-calculations';
+
+export const MEASUREMENT_SELECT =
+	'id, client_id, measured_on, unit, values, notes, created_at';
+
+/**
+ * The standard fields and the shop's own fields, oldest custom field last
+ */
+export async function loadMeasurementFields(
+	supabase: SupabaseClient<Database>,
+	shopId: string
+): Promise<MeasurementField[]> {
+	const { data, error } = await supabase
+		.from('measurement_fields')
+		.select('id, label')
+		.eq('shop_id', shopId)
+		.order('created_at', { ascending: true });
+
+	if (error) throw error;
+
+	return getMeasurementFields(data || []);
+}
+
+/**
+ * Snapshots of the client's measurement records, by record id. Records that
+ * don't belong to the client are left out.
+ */
+export async function loadMeasurementSnapshots(
+	supabase: SupabaseClient<Database>,
+	shopId: string,
+	clientId: string,
+	measurementIds: string[]
+): Promise<Map<string, MeasurementSnapshot>> {
+	const snapshots = new Map<string, MeasurementSnapshot>();
+	if (measurementIds.length === 0) return snapshots;
+
+	const [fields, { data, error }] = await Promise.all([
+		loadMeasurementFields(supabase, shopId),
+		supabase
+			.from('client_measurements')
+			.select(MEASUREMENT_SELECT)
+			.eq('shop_id', shopId)
+			.eq('client_id', clientId)
+			.in('id', measurementIds),
+	]);
+
+	if (error) throw error;
+
+	for (const row of data || []) {
+		snapshots.set(
+			row.id,
+			buildMeasurementSnapshot(toMeasurementRecord(row), fields)
+		);
+	}
+
+	return snapshots;
+}
@@ -42,6 +42,8 @@ export async function calculateOrderBalance(
         id,
         order_number,
         shop_id,
+        discount_cents,
+        tax_cents,
         clients(
           first_name,
           last_name,
@@ -114,8 +116,8 @@ export async function calculateOrderBalance(
       };
     }
 
-    // Calculate active total (excluding removed services)
-    const orderTotal = (services || [])
+    // Calculate active subtotal (excluding removed services)
+    const activeSubtotal = (services || [])
       .filter((service) => !service.is_removed)
       .reduce((sum, service) => {
         const lineTotal =
@@ -124,6 +126,11 @@ export async function calculateOrderBalance(
         return sum + lineTotal;
       }, 0);
 
+    // Apply the order discount and the tax on the discounted amount, matching
+    // calculateActiveTotal on the order detail page
+    const orderTotal =
+      activeSubtotal - (order.discount_cents || 0) + (order.tax_cents || 0);
+
     // Get invoice and payment history
     let paymentHistory: PaymentInfo[] = [];
     let invoiceId: string | undefined;
@@ -0,0 +1,56 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+
+// Order status links stay valid for the typical life of an alterations order
+export const ORDER_STATUS_LINK_EXPIRY_DAYS = 60;
+
+export function buildOrderStatusUrl(token: string): string {
+	const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+	return `${baseUrl}/status/${token}`;
+}
+
+function generateToken(): string {
+	const bytes = new Uint8Array(32);
+	crypto.getRandomValues(bytes);
+	return Array.from(bytes)
+		.map((b) => b.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+/**
+ * Reuse the order's active (unrevoked, unexpired) status link, or create one.
+ * Callers are responsible for checking the order belongs to shopId.
+ */
+export async function getOrCreateOrderStatusUrl(
+	supabase: SupabaseClient<Database>,
+	params: { orderId: string; shopId: string; userId: string }
+): Promise<string> {
+	const { data: existing } = await supabase
+		.from('order_status_tokens')
+		.select('token')
+		.eq('order_id', params.orderId)
+		.is('revoked_at', null)
+		.gt('expires_at', new Date().toISOString())
+		.order('created_at', { ascending: false })
+		.limit(1);
+
+	if (existing?.[0]?.token) {
+		return buildOrderStatusUrl(existing[0].token);
+	}
+
+	const token = generateToken();
+	const expiresAt = new Date();
+	expiresAt.setDate(expiresAt.getDate() + ORDER_STATUS_LINK_EXPIRY_DAYS);
+
+	const { error } = await supabase.from('order_status_tokens').insert({
+		token,
+		order_id: params.orderId,
+		shop_id: params.shopId,
+		expires_at: expiresAt.toISOString(),
+		created_by: params.userId,
+	});
+
+	if (error) throw error;
+
+	return buildOrderStatusUrl(token);
+}
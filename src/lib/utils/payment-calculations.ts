@@ -9,6 +9,7 @@ export interface PaymentInfo {
   refunded_amount_cents: number;
   status: string;
   type?: 'payment' | 'refund'; // Optional to maintain backward compatibility
+  tip_cents?: number | null; // Charged on top of amount_cents, never part of the balance
 }
 
 export interface GarmentService {
@@ -32,6 +33,7 @@ export interface PaymentCalculationResult {
   totalPaid: number;
   totalRefunded: number;
   netPaid: number;
+  totalTips: number;
   amountDue: number;
   percentage: number;
   paymentStatus: 'unpaid' | 'partial' | 'paid' | 'overpaid';
@@ -74,6 +76,17 @@ export function calculatePaymentStatus(
   // Net paid amount after refunds
   const netPaid = totalPaid - totalRefunded;
 
+  // Tips are kept in their own column, so they're reported here but left
+  // out of netPaid and the amount due
+  const totalTips = paymentTransactions
+    .filter(
+      (p) =>
+        p.status === 'completed' ||
+        p.status === 'partially_refunded' ||
+        p.status === 'refunded'
+    )
+    .reduce((sum, p) => sum + (p.tip_cents || 0), 0);
+
   // Amount due (negative means credit/overpayment)
   const amountDue = totalAmount - netPaid;
 
@@ -98,6 +111,7 @@ export function calculatePaymentStatus(
     totalPaid,
     totalRefunded,
     netPaid,
+    totalTips,
     amountDue,
     percentage,
     paymentStatus,
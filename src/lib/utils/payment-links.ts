@@ -0,0 +1,83 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables, TablesInsert } from '@/types/supabase';
+
+// Payment links created outside the payment request email stay valid for this long
+export const PAYMENT_LINK_EXPIRY_DAYS = 7;
+
+function buildPaymentLink(
+	invoiceId: string,
+	expiresInDays: number,
+	installmentId?: string | null | undefined
+): TablesInsert<'payment_links'> & { url: string } {
+	const token = crypto.randomUUID();
+	const expiresAt = new Date();
+	expiresAt.setDate(expiresAt.getDate() + expiresInDays);
+
+	const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+	return {
+		invoice_id: invoiceId,
+		token,
+		url: `${baseUrl}/pay/${token}`,
+		expires_at: expiresAt.toISOString(),
+		status: 'active',
+		installment_id: installmentId ?? null,
+	};
+}
+
+/**
+ * Reuse the invoice's active payment link, or create one without sending the
+ * separate payment request email.
+ */
+export async function getOrCreatePaymentLink(
+	supabase: SupabaseClient<Database>,
+	invoiceId: string
+): Promise<string | undefined> {
+	const { data: existing } = await supabase
+		.from('payment_links')
+		.select('url, expires_at')
+		.eq('invoice_id', invoiceId)
+		.eq('status', 'active')
+		.is('installment_id', null)
+		.gt('expires_at', new Date().toISOString())
+		.order('created_at', { ascending: false })
+		.limit(1);
+
+	if (existing?.[0]?.url) {
+		return existing[0].url;
+	}
+
+	const link = buildPaymentLink(invoiceId, PAYMENT_LINK_EXPIRY_DAYS);
+	const { error } = await supabase.from('payment_links').insert(link);
+
+	if (error) {
+		console.error('Error creating payment link:', error);
+		return undefined;
+	}
+
+	return link.url;
+}
+
+/**
+ * Create a new payment link for an invoice, or for one of its installments.
+ * The caller checks that the invoice is payable.
+ */
+export async function createPaymentLink(
+	supabase: SupabaseClient<Database>,
+	invoiceId: string,
+	expiresInDays = PAYMENT_LINK_EXPIRY_DAYS,
+	installmentId?: string | null | undefined
+): Promise<Tables<'payment_links'>> {
+	const { data, error } = await supabase
+		.from('payment_links')
+		.insert(buildPaymentLink(invoiceId, expiresInDays, installmentId))
+		.select()
+		.single();
+
+	if (error || !data) {
+		console.error('Error creating payment link:', error);
+		throw new Error('Failed to create payment link');
+	}
+
+	return data;
+}
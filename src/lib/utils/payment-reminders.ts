@@ -0,0 +1,159 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { formatInTimezone } from '@/lib/utils/date-time-utc';
+
+export interface PaymentReminderStep {
+	daysAfter: number;
+	subject: string;
+	body: string;
+}
+
+// Offered to shops that haven't set up their own schedule yet
+export const DEFAULT_PAYMENT_REMINDER_STEPS: PaymentReminderStep[] = [
+	{
+		daysAfter: 3,
+		subject: 'Friendly reminder: invoice {invoice_number} from {shop_name}',
+		body: `Hi {client_name},
+
+Just a friendly reminder that {balance_due} is still due on invoice {invoice_number}. You can pay online here:
+{payment_link}
+
+If you've already paid, please ignore this message.
+
+Thank you,
+{shop_name}`,
+	},
+	{
+		daysAfter: 7,
+		subject: 'Reminder: {balance_due} due on invoice {invoice_number}',
+		body: `Hi {client_name},
+
+Invoice {invoice_number} is now {days_overdue} days overdue, with {balance_due} still to pay. You can pay online here:
+{payment_link}
+
+If you have any questions, reply to this email or call us at {shop_phone}.
+
+Thank you,
+{shop_name}`,
+	},
+	{
+		daysAfter: 14,
+		subject: 'Final reminder: invoice {invoice_number} is overdue',
+		body: `Hi {client_name},
+
+We still haven't received payment of {balance_due} for invoice {invoice_number}, which is {days_overdue} days overdue. Please pay as soon as you can:
+{payment_link}
+
+If something's wrong with the invoice, please get in touch so we can sort it out.
+
+Thank you,
+{shop_name}`,
+	},
+];
+
+export const PAYMENT_REMINDER_VARIABLES: Array<{
+	key: string;
+	description: string;
+}> = [
+	{ key: 'client_name', description: "Client's full name" },
+	{ key: 'shop_name', description: 'Your business name' },
+	{ key: 'shop_email', description: 'Your business email' },
+	{ key: 'shop_phone', description: 'Your business phone' },
+	{ key: 'invoice_number', description: 'Invoice number' },
+	{ key: 'order_number', description: 'Order number' },
+	{ key: 'invoice_total', description: 'Invoice total' },
+	{ key: 'balance_due', description: 'Amount still owed' },
+	{ key: 'days_overdue', description: 'Days since the invoice became overdue' },
+	{ key: 'payment_link', description: 'Link to pay online' },
+];
+
+/**
+ * The shop-local date an invoice became overdue: its due date, or the day a
+ * garment was picked up with money still owing, whichever came first.
+ * Null when neither has happened.
+ */
+export function getOverdueSince({
+	dueDate,
+	pickedUpAt,
+	timezone,
+}: {
+	dueDate: string | null | undefined;
+	pickedUpAt: string | null | undefined;
+	timezone: string;
+}): string | null {
+	const dates = [
+		dueDate || null,
+		pickedUpAt ? formatInTimezone(pickedUpAt, timezone, 'yyyy-MM-dd') : null,
+	].filter((date): date is string => !!date);
+
+	if (dates.length === 0) return null;
+	return dates.sort()[0]!;
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+export function getDaysBetween(from: string, to: string): number {
+	const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+	const [toYear, toMonth, toDay] = to.split('-').map(Number);
+	const fromUtc = Date.UTC(fromYear!, fromMonth! - 1, fromDay!);
+	const toUtc = Date.UTC(toYear!, toMonth! - 1, toDay!);
+	return Math.round((toUtc - fromUtc) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * The step to send now: the latest one the invoice is overdue enough for,
+ * unless it or a later step went out already. Steps missed while reminders
+ * were off are skipped rather than sent all at once, and so are steps that
+ * were already due when the client last paid (`paidDaysOverdue`).
+ */
+export function getDueReminderStep<T extends { days_after: number }>(
+	steps: T[],
+	daysOverdue: number,
+	sentDaysAfter: number[],
+	paidDaysOverdue = 0
+): T | null {
+	const due = steps
+		.filter((step) => step.days_after <= daysOverdue)
+		.sort((a, b) => b.days_after - a.days_after)[0];
+	if (!due) return null;
+
+	const latestHandled = Math.max(0, paidDaysOverdue, ...sentDaysAfter);
+	return due.days_after > latestHandled ? due : null;
+}
+
+/**
+ * Fills {variable} placeholders. Unknown placeholders are left as typed so
+ * mistakes show up in the preview.
+ */
+export function renderPaymentReminder(
+	template: { subject: string; body: string },
+	variables: Record<string, string>
+): { subject: string; body: string } {
+	const fill = (text: string) =>
+		text.replace(/\{(\w+)\}/g, (match, key: string) =>
+			key in variables ? variables[key]! : match
+		);
+
+	return { subject: fill(template.subject), body: fill(template.body) };
+}
+
+/**
+ * Records a payment against the invoice's reminder schedule. Steps that were
+ * already due are dropped, since the client has just paid something, but
+ * later steps still go out if money is owed when they come due.
+ */
+export async function recordPaymentForReminders(
+	supabase: SupabaseClient<Database>,
+	invoiceId: string
+): Promise<void> {
+	const { error } = await supabase
+		.from('invoices')
+		.update({ payment_reminders_stopped_at: new Date().toISOString() })
+		.eq('id', invoiceId);
+
+	if (error) {
+		// The payment itself went through, so don't fail it over this
+		console.error('Failed to record payment for reminders:', error);
+	}
+}
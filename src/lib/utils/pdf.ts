@@ -0,0 +1,231 @@
+/**
+ * A small PDF (1.4) writer for text-and-rule documents such as invoices and
+ * receipts. It uses the standard Helvetica fonts every reader ships with, so
+ * nothing is embedded and the output stays a few kilobytes.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+	font?: PdfFont;
+	size?: number;
+	align?: 'left' | 'right' | 'center';
+	// 0 is black, 1 is white
+	gray?: number;
+}
+
+// US Letter, in points
+export const PDF_PAGE_WIDTH = 612;
+export const PDF_PAGE_HEIGHT = 792;
+
+const FONT_RESOURCES: Record<PdfFont, string> = {
+	regular: 'F1',
+	bold: 'F2',
+};
+
+// Advance widths (per 1000 em) of ASCII 32-126 from the Helvetica AFM files
+const HELVETICA_WIDTHS = [
+	278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+	278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+	584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+	833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+	278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+	500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+	500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+	278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+	278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+	584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+	833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+	278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+	556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+	500, 389, 280, 389, 584,
+];
+
+// Characters WinAnsiEncoding puts in 0x80-0x9F, where it differs from Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+	'€': 0x80,
+	'‚': 0x82,
+	'„': 0x84,
+	'…': 0x85,
+	'‘': 0x91,
+	'’': 0x92,
+	'“': 0x93,
+	'”': 0x94,
+	'•': 0x95,
+	'–': 0x96,
+	'—': 0x97,
+	'™': 0x99,
+};
+
+/**
+ * The WinAnsi byte for a character, or '?' for anything the standard fonts
+ * can't draw
+ */
+function toWinAnsiCode(char: string): number {
+	const code = char.codePointAt(0) ?? 63;
+	if (code >= 32 && code <= 126) return code;
+	if (code >= 160 && code <= 255) return code;
+	return WIN_ANSI_EXTRAS[char] ?? 63;
+}
+
+/**
+ * Width of a string in points
+ */
+export function measurePdfText(
+	value: string,
+	size: number,
+	font: PdfFont = 'regular'
+): number {
+	const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+	let total = 0;
+	for (const char of value) {
+		const code = toWinAnsiCode(char);
+		// Accented letters are close enough to the average width
+		total += code <= 126 ? (widths[code - 32] ?? 556) : 556;
+	}
+	return (total * size) / 1000;
+}
+
+/**
+ * Breaks text into lines no wider than maxWidth, splitting on spaces and
+ * only mid-word when a single word is too long
+ */
+export function wrapPdfText(
+	value: string,
+	maxWidth: number,
+	size: number,
+	font: PdfFont = 'regular'
+): string[] {
+	const lines: string[] = [];
+
+	for (const paragraph of value.split(/\r?\n/)) {
+		let line = '';
+		for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+			const candidate = line ? `${line} ${word}` : word;
+			if (measurePdfText(candidate, size, font) <= maxWidth) {
+				line = candidate;
+				continue;
+			}
+			if (line) lines.push(line);
+
+			// A word wider than the line gets cut wherever it overflows
+			let rest = word;
+			while (measurePdfText(rest, size, font) > maxWidth) {
+				let cut = rest.length - 1;
+				while (
+					cut > 1 &&
+					measurePdfText(rest.slice(0, cut), size, font) > maxWidth
+				) {
+					cut--;
+				}
+				lines.push(rest.slice(0, cut));
+				rest = rest.slice(cut);
+			}
+			line = rest;
+		}
+		lines.push(line);
+	}
+
+	return lines;
+}
+
+function escapePdfString(value: string): string {
+	let out = '';
+	for (const char of value) {
+		const code = toWinAnsiCode(char);
+		if (code === 40 || code === 41 || code === 92) {
+			out += `\\${char}`;
+		} else if (code > 126) {
+			out += `\\${code.toString(8).padStart(3, '0')}`;
+		} else {
+			out += String.fromCharCode(code);
+		}
+	}
+	return out;
+}
+
+function formatNumber(value: number): string {
+	return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Builds a PDF a page at a time. Coordinates are in points from the top-left
+ * corner of the page.
+ */
+export class PdfDocument {
+	private pages: string[][] = [];
+
+	constructor() {
+		this.addPage();
+	}
+
+	get pageCount(): number {
+		return this.pages.length;
+	}
+
+	addPage(): void {
+		this.pages.push([]);
+	}
+
+	text(value: string, x: number, y: number, options: PdfTextOptions = {}) {
+		const { font = 'regular', size = 10, align = 'left', gray = 0 } = options;
+		const width = measurePdfText(value, size, font);
+		const left =
+			align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+
+		this.currentPage.push(
+			`BT ${formatNumber(gray)} g /${FONT_RESOURCES[font]} ${formatNumber(size)} Tf ${formatNumber(left)} ${formatNumber(PDF_PAGE_HEIGHT - y)} Td (${escapePdfString(value)}) Tj ET`
+		);
+	}
+
+	line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+		this.currentPage.push(
+			`${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(PDF_PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PDF_PAGE_HEIGHT - y2)} l S`
+		);
+	}
+
+	toBuffer(): Buffer {
+		const objects: string[] = [];
+		const pageIds: number[] = [];
+		// 1 catalog, 2 page tree, 3-4 fonts, then a page and its content per page
+		this.pages.forEach((operations, index) => {
+			const pageId = 5 + index * 2;
+			const content = operations.join('\n');
+			pageIds.push(pageId);
+			objects[pageId] =
+				`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+			objects[pageId + 1] =
+				`<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+		});
+		objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+		objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+		objects[3] =
+			'<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+		objects[4] =
+			'<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+		// Everything written is ASCII, so string length is byte length
+		let output = '%PDF-1.4\n';
+		const offsets: number[] = [];
+		for (let id = 1; id < objects.length; id++) {
+			offsets[id] = output.length;
+			output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+		}
+
+		const xrefOffset = output.length;
+		output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+		for (let id = 1; id < objects.length; id++) {
+			output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+		}
+		output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+		return Buffer.from(output, 'latin1');
+	}
+
+	private get currentPage(): string[] {
+		return this.pages[this.pages.length - 1]!;
+	}
+}
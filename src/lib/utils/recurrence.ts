@@ -0,0 +1,83 @@
+/**
+ * Recurrence rules for appointment series (e.g. a bride's fittings every two
+ * weeks). Dates are shop-local YYYY-MM-DD strings.
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekly';
+
+export interface RecurrenceRule {
+	frequency: RecurrenceFrequency;
+	// Every N days (daily) or every N weeks (weekly)
+	interval: number;
+	// Stop after this date (inclusive)...
+	endDate?: string | undefined;
+	// ...or after this many occurrences
+	count?: number | undefined;
+}
+
+// Also enforced by the appointment_series table constraints
+export const MAX_SERIES_OCCURRENCES = 52;
+export const MAX_RECURRENCE_INTERVAL = 52;
+
+/**
+ * Which occurrences of a series an edit or cancellation applies to
+ */
+export type SeriesScope = 'this' | 'following' | 'all';
+
+export interface SkippedOccurrence {
+	date: string;
+	reason: string;
+}
+
+export function addDaysToDateString(date: string, days: number): string {
+	const [year, month, day] = date.split('-').map(Number);
+	// UTC arithmetic so DST changes never shift the calendar date
+	const result = new Date(Date.UTC(year!, month! - 1, day! + days));
+	return result.toISOString().slice(0, 10);
+}
+
+export function daysBetweenDateStrings(from: string, to: string): number {
+	const toUtc = (date: string) => {
+		const [year, month, day] = date.split('-').map(Number);
+		return Date.UTC(year!, month! - 1, day!);
+	};
+	return Math.round((toUtc(to) - toUtc(from)) / 86_400_000);
+}
+
+/**
+ * Every occurrence date for a rule, starting with (and including) startDate,
+ * capped at MAX_SERIES_OCCURRENCES
+ */
+export function generateOccurrenceDates(
+	startDate: string,
+	rule: RecurrenceRule
+): string[] {
+	const stepDays =
+		rule.frequency === 'weekly' ? rule.interval * 7 : rule.interval;
+	const limit = Math.min(
+		rule.count ?? MAX_SERIES_OCCURRENCES,
+		MAX_SERIES_OCCURRENCES
+	);
+
+	const dates: string[] = [];
+	let current = startDate;
+	while (dates.length < limit) {
+		if (rule.endDate && current > rule.endDate) break;
+		dates.push(current);
+		current = addDaysToDateString(current, stepDays);
+	}
+	return dates;
+}
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks, 4 times"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+	const unit = rule.frequency === 'weekly' ? 'week' : 'day';
+	const every =
+		rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+	if (rule.count) return `${every}, ${rule.count} times`;
+	if (rule.endDate) return `${every} until ${rule.endDate}`;
+	return every;
+}
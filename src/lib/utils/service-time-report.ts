@@ -0,0 +1,168 @@
+/**
+ * One garment service with the time logged against it, plus the catalog
+ * estimate of the service it came from.
+ */
+export interface TimedGarmentService {
+	// Catalog service; null for one-off services added by name
+	serviceId: string | null;
+	name: string;
+	quantity: number;
+	lineTotalCents: number;
+	loggedMinutes: number;
+	// Catalog estimate per unit; null when the service has none
+	estimatedMinutesPerUnit: number | null;
+}
+
+export interface ServiceTimeSummary {
+	key: string;
+	serviceId: string | null;
+	name: string;
+	jobCount: number;
+	unitCount: number;
+	loggedMinutes: number;
+	// null when the service has no estimate
+	estimatedMinutes: number | null;
+	// Logged minus estimated; positive means jobs take longer than estimated
+	varianceMinutes: number | null;
+	averageMinutesPerUnit: number;
+	revenueCents: number;
+	// Revenue per hour of logged work; null when no time was logged
+	effectiveHourlyRateCents: number | null;
+}
+
+export interface UnderpricedService extends ServiceTimeSummary {
+	effectiveHourlyRateCents: number;
+	// Unit price that would earn the shop's overall hourly rate at the
+	// average logged time per unit
+	suggestedUnitPriceCents: number;
+}
+
+export interface ServiceTimeReport {
+	services: ServiceTimeSummary[];
+	totalLoggedMinutes: number;
+	totalRevenueCents: number;
+	overallHourlyRateCents: number | null;
+	underpriced: UnderpricedService[];
+}
+
+export function calculateHourlyRateCents(
+	revenueCents: number,
+	minutes: number
+): number | null {
+	return minutes > 0 ? Math.round((revenueCents * 60) / minutes) : null;
+}
+
+/**
+ * Roll garment services up per catalog service (one-off services are grouped
+ * by name), most logged time first.
+ */
+export function summarizeServiceTime(
+	rows: TimedGarmentService[]
+): ServiceTimeSummary[] {
+	const groups = new Map<string, ServiceTimeSummary>();
+
+	for (const row of rows) {
+		const key = row.serviceId ?? `name:${row.name.trim().toLowerCase()}`;
+		const group = groups.get(key) ?? {
+			key,
+			serviceId: row.serviceId,
+			name: row.name,
+			jobCount: 0,
+			unitCount: 0,
+			loggedMinutes: 0,
+			estimatedMinutes: null,
+			varianceMinutes: null,
+			averageMinutesPerUnit: 0,
+			revenueCents: 0,
+			effectiveHourlyRateCents: null,
+		};
+
+		group.jobCount += 1;
+		group.unitCount += row.quantity;
+		group.loggedMinutes += row.loggedMinutes;
+		group.revenueCents += row.lineTotalCents;
+		if (row.estimatedMinutesPerUnit !== null) {
+			group.estimatedMinutes =
+				(group.estimatedMinutes ?? 0) +
+				row.estimatedMinutesPerUnit * row.quantity;
+		}
+		groups.set(key, group);
+	}
+
+	return Array.from(groups.values())
+		.map((group) => ({
+			...group,
+			varianceMinutes:
+				group.estimatedMinutes === null
+					? null
+					: group.loggedMinutes - group.estimatedMinutes,
+			averageMinutesPerUnit:
+				group.unitCount > 0
+					? Math.round(group.loggedMinutes / group.unitCount)
+					: 0,
+			effectiveHourlyRateCents: calculateHourlyRateCents(
+				group.revenueCents,
+				group.loggedMinutes
+			),
+		}))
+		.sort((a, b) => b.loggedMinutes - a.loggedMinutes);
+}
+
+/**
+ * Services earning less per logged hour than the shop overall, lowest rate
+ * first
+ */
+export function findUnderpricedServices(
+	services: ServiceTimeSummary[],
+	overallHourlyRateCents: number | null,
+	limit = 5
+): UnderpricedService[] {
+	if (overallHourlyRateCents === null) return [];
+
+	return services
+		.filter(
+			(
+				service
+			): service is ServiceTimeSummary & {
+				effectiveHourlyRateCents: number;
+			} =>
+				service.effectiveHourlyRateCents !== null &&
+				service.effectiveHourlyRateCents < overallHourlyRateCents
+		)
+		.sort((a, b) => a.effectiveHourlyRateCents - b.effectiveHourlyRateCents)
+		.slice(0, limit)
+		.map((service) => ({
+			...service,
+			suggestedUnitPriceCents: Math.round(
+				(overallHourlyRateCents * service.loggedMinutes) /
+					60 /
+					Math.max(service.unitCount, 1)
+			),
+		}));
+}
+
+export function buildServiceTimeReport(
+	rows: TimedGarmentService[]
+): ServiceTimeReport {
+	const services = summarizeServiceTime(rows);
+	const totalLoggedMinutes = services.reduce(
+		(sum, service) => sum + service.loggedMinutes,
+		0
+	);
+	const totalRevenueCents = services.reduce(
+		(sum, service) => sum + service.revenueCents,
+		0
+	);
+	const overallHourlyRateCents = calculateHourlyRateCents(
+		totalRevenueCents,
+		totalLoggedMinutes
+	);
+
+	return {
+		services,
+		totalLoggedMinutes,
+		totalRevenueCents,
+		overallHourlyRateCents,
+		underpriced: findUnderpricedServices(services, overallHourlyRateCents),
+	};
+}
@@ -0,0 +1,63 @@
+// Timers left running longer than this are stopped here unless the shop sets
+// its own limit
+export const DEFAULT_MAX_TIMER_MINUTES = 480;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export interface TimerResult {
+	minutes: number;
+	// When the time entry ends: the stop time, or the cap for forgotten timers
+	endedAt: Date;
+	// True when the timer ran past the limit and was cut off
+	capped: boolean;
+}
+
+export function isTimerExpired(
+	startedAt: string | Date,
+	now: Date,
+	maxMinutes: number
+): boolean {
+	return (
+		now.getTime() - new Date(startedAt).getTime() >= maxMinutes * MS_PER_MINUTE
+	);
+}
+
+/**
+ * Minutes to log for a timer stopped at `now`, rounded to the nearest minute
+ * (at least one) and capped at maxMinutes.
+ */
+export function calculateTimerResult(
+	startedAt: string | Date,
+	now: Date,
+	maxMinutes: number
+): TimerResult {
+	const start = new Date(startedAt).getTime();
+	const elapsedMinutes = Math.max(
+		1,
+		Math.round((now.getTime() - start) / MS_PER_MINUTE)
+	);
+
+	if (elapsedMinutes >= maxMinutes) {
+		return {
+			minutes: maxMinutes,
+			endedAt: new Date(start + maxMinutes * MS_PER_MINUTE),
+			capped: elapsedMinutes > maxMinutes,
+		};
+	}
+
+	return { minutes: elapsedMinutes, endedAt: now, capped: false };
+}
+
+/**
+ * Elapsed time as a clock: "4:05" under an hour, "1:04:05" after
+ */
+export function formatTimerElapsed(totalSeconds: number): string {
+	const seconds = Math.max(0, Math.floor(totalSeconds));
+	const hours = Math.floor(seconds / 3600);
+	const minutes = Math.floor((seconds % 3600) / 60);
+	const secs = String(seconds % 60).padStart(2, '0');
+
+	return hours > 0
+		? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+		: `${minutes}:${secs}`;
+}
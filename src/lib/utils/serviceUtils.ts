@@ -15,6 +15,8 @@ export interface Service {
   default_unit_price_cents: number;
   frequently_used?: boolean;
   frequently_used_position?: number | null;
+  // Expected work time per unit, compared against logged time
+  estimated_minutes?: number | null;
 }
 
 export interface ServiceFormData {
@@ -25,6 +27,7 @@ export interface ServiceFormData {
   unit_price: number;
   frequently_used?: boolean;
   frequently_used_position?: number | null;
+  estimated_minutes?: number | null;
 }
 
 export const handleChange = (
@@ -92,6 +95,10 @@ export const convertServiceForForm = (service: Service): ServiceFormData => {
     result.frequently_used_position = service.frequently_used_position;
   }
 
+  if (service.estimated_minutes !== undefined) {
+    result.estimated_minutes = service.estimated_minutes;
+  }
+
   return result;
 };
 
@@ -117,5 +124,9 @@ export const convertServiceForDatabase = (
     result.frequently_used_position = formData.frequently_used_position;
   }
 
+  if (formData.estimated_minutes !== undefined) {
+    result.estimated_minutes = formData.estimated_minutes;
+  }
+
   return result;
 };
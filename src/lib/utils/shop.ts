@@ -1,5 +1,7 @@
 import type { Tables } from '@/types/supabase';
 
-export function getShopDisplayName(shop: Tables<'shops'>): string {
-  return (shop as any).business_name || shop.name;
+export function getShopDisplayName(
+  shop: Pick<Tables<'shops'>, 'name' | 'business_name'>
+): string {
+  return shop.business_name || shop.name;
 }
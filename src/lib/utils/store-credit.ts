@@ -0,0 +1,116 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from '@/types/supabase';
+
+export type StoreCreditEntryType = 'issue' | 'apply' | 'expire';
+
+export type StoreCreditEntry = Pick<
+	Tables<'store_credit_entries'>,
+	| 'id'
+	| 'entry_type'
+	| 'amount_cents'
+	| 'remaining_cents'
+	| 'expires_at'
+	| 'reason'
+	| 'invoice_id'
+	| 'created_at'
+>;
+
+// No 0/O or 1/I, so codes read back over the phone without confusion
+const GIFT_CARD_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const STORE_CREDIT_ENTRY_LABELS: Record<StoreCreditEntryType, string> = {
+	issue: 'Credit added',
+	apply: 'Applied to invoice',
+	expire: 'Expired',
+};
+
+/**
+ * Credit still available from a set of ledger entries. Issue entries carry
+ * what's left of them, so this sums those, leaving out any that have expired
+ * but haven't been written off by expire_store_credit yet.
+ */
+export function calculateCreditBalance(
+	entries: Array<
+		Pick<StoreCreditEntry, 'entry_type' | 'remaining_cents' | 'expires_at'>
+	>,
+	now: Date = new Date()
+): number {
+	return entries.reduce((balance, entry) => {
+		if (entry.entry_type !== 'issue') return balance;
+		if (entry.expires_at && new Date(entry.expires_at) <= now) return balance;
+		return balance + (entry.remaining_cents || 0);
+	}, 0);
+}
+
+/**
+ * A random gift card code like "HMSY-7KQ2-XW4P"
+ */
+export function generateGiftCardCode(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(8));
+	const chars = Array.from(
+		bytes,
+		(byte) => GIFT_CARD_CODE_ALPHABET[byte % GIFT_CARD_CODE_ALPHABET.length]
+	).join('');
+	return `HMSY-${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+/**
+ * Codes are matched case-insensitively and ignoring stray spaces
+ */
+export function normalizeGiftCardCode(code: string): string {
+	return code.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Add credit to a client's balance. Used for goodwill credit and for refunds
+ * and overpayments that go back as credit instead of cash.
+ */
+export async function issueStoreCredit(
+	supabase: SupabaseClient<Database>,
+	{
+		shopId,
+		clientId,
+		amountCents,
+		reason,
+		expiresAt,
+		invoiceId,
+		paymentId,
+		refundId,
+		createdBy,
+	}: {
+		shopId: string;
+		clientId: string;
+		amountCents: number;
+		reason: string;
+		expiresAt?: string | null | undefined;
+		invoiceId?: string | null | undefined;
+		paymentId?: string | null | undefined;
+		refundId?: string | null | undefined;
+		createdBy?: string | null | undefined;
+	}
+): Promise<Tables<'store_credit_entries'>> {
+	const { data, error } = await supabase
+		.from('store_credit_entries')
+		.insert({
+			shop_id: shopId,
+			client_id: clientId,
+			entry_type: 'issue',
+			amount_cents: amountCents,
+			remaining_cents: amountCents,
+			reason,
+			expires_at: expiresAt ?? null,
+			invoice_id: invoiceId ?? null,
+			payment_id: paymentId ?? null,
+			refund_id: refundId ?? null,
+			created_by: createdBy ?? null,
+		})
+		.select()
+		.single();
+
+	if (error || !data) {
+		console.error('Error issuing store credit:', error);
+		throw new Error('Failed to add store credit');
+	}
+
+	return data;
+}
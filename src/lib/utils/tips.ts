@@ -0,0 +1,42 @@
+/**
+ * Tips are charged on top of a card payment and stored in payments.tip_cents,
+ * apart from amount_cents, so they never count toward an invoice's balance,
+ * its tax, or service revenue.
+ */
+
+export const TIP_PERCENT_PRESETS = [15, 18, 20] as const;
+
+export type TipChoice =
+	| { kind: 'none' }
+	| { kind: 'percent'; percent: number }
+	| { kind: 'custom'; cents: number };
+
+/**
+ * The part of a payment a percentage tip is worked out on. Tax isn't tipped
+ * on, so the payment's share of the invoice's tax is taken off.
+ */
+export function getTipBaseCents(
+	amountCents: number,
+	invoiceAmountCents: number,
+	taxCents: number | null | undefined
+): number {
+	if (!taxCents || taxCents <= 0 || invoiceAmountCents <= 0) {
+		return amountCents;
+	}
+	const preTaxShare = Math.max(invoiceAmountCents - taxCents, 0);
+	return Math.round((amountCents * preTaxShare) / invoiceAmountCents);
+}
+
+export function calculateTipCents(
+	baseCents: number,
+	choice: TipChoice
+): number {
+	switch (choice.kind) {
+		case 'percent':
+			return Math.max(Math.round((baseCents * choice.percent) / 100), 0);
+		case 'custom':
+			return Math.max(Math.round(choice.cents), 0);
+		default:
+			return 0;
+	}
+}
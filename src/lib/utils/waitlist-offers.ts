@@ -0,0 +1,155 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { format } from 'date-fns';
+import type { Database } from '@/types/supabase';
+import { EmailService } from '@/lib/services/email/email-service';
+import { safeParseDateTime } from '@/lib/utils/date-time-utils';
+import { convertLocalToUTC } from '@/lib/utils/date-time-utc';
+import { getAppointmentTypeLabel } from '@/lib/utils/ics';
+
+// Offers go out in waitlist order; the first client to claim books the slot
+export const WAITLIST_OFFER_MAX_RECIPIENTS = 10;
+
+const DEFAULT_TIMEZONE = 'America/New_York';
+
+export function buildWaitlistClaimUrl(token: string): string {
+	const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+	return `${baseUrl}/waitlist/claim/${token}`;
+}
+
+function generateToken(): string {
+	const bytes = new Uint8Array(32);
+	crypto.getRandomValues(bytes);
+	return Array.from(bytes)
+		.map((b) => b.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+/**
+ * Offer the slot of a canceled or declined appointment to matching waitlisted
+ * clients (date inside their range, type among their preferred types). Each
+ * entry is offered a given slot at most once. Returns how many offers were
+ * sent. Callers are responsible for checking the appointment belongs to the
+ * acting shop; failures never undo the cancellation, so callers should log
+ * rather than rethrow.
+ */
+export async function offerFreedSlotToWaitlist(
+	supabase: SupabaseClient<Database>,
+	appointmentId: string
+): Promise<number> {
+	const { data: appointment, error } = await supabase
+		.from('appointments')
+		.select(
+			'id, shop_id, client_id, date, start_time, end_time, start_at, type, status, shop:shops(*)'
+		)
+		.eq('id', appointmentId)
+		.single();
+
+	if (error || !appointment || !appointment.shop) {
+		throw new Error('Appointment not found');
+	}
+
+	if (appointment.status !== 'canceled' && appointment.status !== 'declined') {
+		return 0;
+	}
+
+	const shop = appointment.shop;
+	const startTime = appointment.start_time.slice(0, 5);
+	const slotStart = appointment.start_at
+		? new Date(appointment.start_at)
+		: convertLocalToUTC(
+				appointment.date,
+				startTime,
+				shop.timezone || DEFAULT_TIMEZONE
+			);
+
+	// Nothing to backfill once the slot has started
+	if (slotStart <= new Date()) {
+		return 0;
+	}
+
+	const { data: entries, error: entriesError } = await supabase
+		.from('waitlist_entries')
+		.select(
+			'id, client_id, appointment_types, client:clients(id, first_name, last_name, email, phone_number, accept_email, accept_sms)'
+		)
+		.eq('shop_id', appointment.shop_id)
+		.eq('status', 'waiting')
+		.lte('earliest_date', appointment.date)
+		.gte('latest_date', appointment.date)
+		.order('created_at', { ascending: true });
+
+	if (entriesError) {
+		throw entriesError;
+	}
+
+	const matches = (entries || [])
+		.filter(
+			(entry) =>
+				entry.client &&
+				entry.client_id !== appointment.client_id &&
+				(entry.appointment_types.length === 0 ||
+					entry.appointment_types.includes(appointment.type))
+		)
+		.slice(0, WAITLIST_OFFER_MAX_RECIPIENTS);
+
+	if (matches.length === 0) {
+		return 0;
+	}
+
+	const appointmentTime = format(
+		safeParseDateTime(appointment.date, startTime),
+		"EEEE, MMMM d 'at' h:mm a"
+	);
+	const emailService = new EmailService(supabase, shop.owner_user_id);
+	let sent = 0;
+
+	for (const entry of matches) {
+		const token = generateToken();
+		const { data: offer, error: offerError } = await supabase
+			.from('waitlist_offers')
+			.insert({
+				token,
+				shop_id: appointment.shop_id,
+				waitlist_entry_id: entry.id,
+				source_appointment_id: appointment.id,
+				date: appointment.date,
+				start_time: appointment.start_time,
+				end_time: appointment.end_time,
+				type: appointment.type,
+				expires_at: slotStart.toISOString(),
+			})
+			.select('id')
+			.single();
+
+		// A unique violation means this entry was already offered the slot
+		if (offerError || !offer) {
+			if (offerError?.code !== '23505') {
+				console.error('Failed to create waitlist offer:', offerError);
+			}
+			continue;
+		}
+
+		const result = await emailService.sendWaitlistOfferEmail({
+			offerId: offer.id,
+			claimLink: buildWaitlistClaimUrl(token),
+			appointmentTime,
+			appointmentType: getAppointmentTypeLabel(appointment.type),
+			client: entry.client!,
+			shop: {
+				id: shop.id,
+				name: shop.name,
+				business_name: shop.business_name,
+				email: shop.email,
+				business_phone: shop.phone_number,
+				business_address: shop.mailing_address,
+			},
+		});
+
+		if (!result.success) {
+			console.warn('Waitlist offer created but email failed:', result.error);
+		}
+		sent++;
+	}
+
+	return sent;
+}
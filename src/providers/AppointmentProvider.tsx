@@ -26,6 +26,7 @@ import {
 	UpdateAppointmentData,
 } from '@/lib/actions/appointments';
 import { Appointment } from '@/types';
+import type { SkippedOccurrence } from '@/lib/utils/recurrence';
 import { CalendarView } from '@/lib/queries/appointment-keys';
 import { calculateDateRange } from '@/lib/queries/appointment-queries';
 import { createClient } from '@/lib/supabase/client';
@@ -67,6 +68,34 @@ interface AppointmentContextValue {
 
 const AppointmentContext = createContext<AppointmentContextValue | null>(null);
 
+// Tell the user which occurrences of a series weren't booked or changed
+function toastSkippedOccurrences(skipped: SkippedOccurrence[]) {
+	if (skipped.length === 0) return;
+
+	toast.error(
+		<div>
+			<div>
+				{skipped.length} appointment{skipped.length === 1 ? ' was' : 's were'}{' '}
+				skipped:
+			</div>
+			{skipped.map((occurrence) => (
+				<div
+					key={occurrence.date}
+					style={{ fontSize: '0.875rem', opacity: 0.9 }}
+				>
+					{new Date(`${occurrence.date}T00:00:00`).toLocaleDateString('en-US', {
+						weekday: 'short',
+						month: 'short',
+						day: 'numeric',
+					})}
+					: {occurrence.reason}
+				</div>
+			))}
+		</div>,
+		{ duration: 8000 }
+	);
+}
+
 export function useAppointments() {
 	const context = useContext(AppointmentContext);
 	if (!context) {
@@ -186,6 +215,12 @@ export function AppointmentProvider({
 					type: AppointmentActionType.CREATE_APPOINTMENT_SUCCESS,
 					payload: { appointment, tempId },
 				});
+				if (appointment.series) {
+					dispatch({
+						type: AppointmentActionType.SERIES_APPOINTMENTS_UPSERTED,
+						payload: { appointments: appointment.series.appointments },
+					});
+				}
 
 				// Invalidate all appointment-related queries to ensure UI updates
 				await Promise.all([
@@ -230,11 +265,14 @@ export function AppointmentProvider({
 					appointment.type.charAt(0).toUpperCase() + appointment.type.slice(1);
 				const description = `${typeFormatted} appointment${clientName ? ` with ${clientName}` : ''}`;
 
+				const seriesCount = appointment.series?.appointments.length ?? 1;
+
 				toast.success(
 					<div>
 						<div>
-							Appointment scheduled successfully for {formattedDate} at{' '}
-							{formattedTime}
+							{seriesCount > 1
+								? `${seriesCount} appointments scheduled, starting ${formattedDate} at ${formattedTime}`
+								: `Appointment scheduled successfully for ${formattedDate} at ${formattedTime}`}
 						</div>
 						<div style={{ fontSize: '0.875rem', opacity: 0.9 }}>
 							{description}
@@ -242,6 +280,7 @@ export function AppointmentProvider({
 					</div>,
 					{ duration: 5000 }
 				);
+				toastSkippedOccurrences(appointment.series?.skipped ?? []);
 
 				return { success: true };
 			} catch (error) {
@@ -324,6 +363,13 @@ export function AppointmentProvider({
 					type: AppointmentActionType.UPDATE_APPOINTMENT_SUCCESS,
 					payload: { appointment },
 				});
+				if (appointment.series) {
+					dispatch({
+						type: AppointmentActionType.SERIES_APPOINTMENTS_UPSERTED,
+						payload: { appointments: appointment.series.appointments },
+					});
+					toastSkippedOccurrences(appointment.series.skipped);
+				}
 
 				// Always show toast for significant updates
 				if (data.status || data.date || data.startTime) {
@@ -0,0 +1,124 @@
+'use client';
+
+import React, {
+	createContext,
+	useCallback,
+	useContext,
+	useEffect,
+	useState,
+} from 'react';
+import { useVisibilityInterval } from '@/lib/hooks/useInterval';
+import {
+	getActiveServiceTimer,
+	startServiceTimer,
+	stopServiceTimer,
+	type ActiveServiceTimer,
+	type StoppedServiceTimer,
+} from '@/lib/actions/service-timers';
+import { formatDuration } from '@/lib/utils/calendar';
+import { showInfoToast } from '@/lib/utils/toast';
+
+// Picks up timers started or stopped on another device, and the auto-stop
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+interface ServiceTimerContextValue {
+	timer: ActiveServiceTimer | null;
+	// The last timer stopped from this browser, so time logs can refresh
+	lastStopped: StoppedServiceTimer | null;
+	startTimer: (
+		serviceId: string
+	) => Promise<{ success: boolean; error?: string }>;
+	stopTimer: () => Promise<{ success: boolean; error?: string }>;
+	refreshTimer: () => Promise<void>;
+}
+
+const ServiceTimerContext = createContext<ServiceTimerContextValue | null>(
+	null
+);
+
+function notifyAutoStopped(stopped: StoppedServiceTimer) {
+	showInfoToast(
+		`Your timer on ${stopped.serviceName} was left running and stopped at ${formatDuration(stopped.minutes)}`
+	);
+}
+
+export function useServiceTimer() {
+	const context = useContext(ServiceTimerContext);
+	if (!context) {
+		throw new Error('useServiceTimer must be used within ServiceTimerProvider');
+	}
+	return context;
+}
+
+/**
+ * The signed-in user's running service timer, kept on the server so it
+ * survives reloads and follows the user across devices
+ */
+export function ServiceTimerProvider({
+	children,
+}: {
+	children: React.ReactNode;
+}) {
+	const [timer, setTimer] = useState<ActiveServiceTimer | null>(null);
+	const [lastStopped, setLastStopped] = useState<StoppedServiceTimer | null>(
+		null
+	);
+
+	const refreshTimer = useCallback(async () => {
+		const result = await getActiveServiceTimer();
+		if (!result.success) return;
+
+		setTimer(result.data ?? null);
+		if (result.autoStopped) {
+			setLastStopped(result.autoStopped);
+			notifyAutoStopped(result.autoStopped);
+		}
+	}, []);
+
+	useEffect(() => {
+		refreshTimer();
+	}, [refreshTimer]);
+
+	useVisibilityInterval(refreshTimer, SYNC_INTERVAL_MS);
+
+	useEffect(() => {
+		const handleFocus = () => {
+			refreshTimer();
+		};
+		window.addEventListener('focus', handleFocus);
+		return () => window.removeEventListener('focus', handleFocus);
+	}, [refreshTimer]);
+
+	const startTimer = useCallback(async (serviceId: string) => {
+		const result = await startServiceTimer(serviceId);
+		if (result.autoStopped) {
+			setLastStopped(result.autoStopped);
+			notifyAutoStopped(result.autoStopped);
+		}
+		if (!result.success || !result.data) {
+			return { success: false, error: result.error || 'Failed to start timer' };
+		}
+		setTimer(result.data);
+		return { success: true };
+	}, []);
+
+	const stopTimer = useCallback(async () => {
+		const result = await stopServiceTimer();
+		setTimer(null);
+		if (!result.success || !result.data) {
+			// Most likely stopped on another device already
+			await refreshTimer();
+			return { success: false, error: result.error || 'Failed to stop timer' };
+		}
+		setLastStopped(result.data);
+		return { success: true };
+	}, [refreshTimer]);
+
+	return (
+		<ServiceTimerContext.Provider
+			value={{ timer, lastStopped, startTimer, stopTimer, refreshTimer }}
+		>
+			{children}
+		</ServiceTimerContext.Provider>
+	);
+}
@@ -1,3 +1,5 @@
+import type { SmsSendResult } from './sms';
+
 // Email type enum - matches database constraint
 export type EmailType =
 	| 'appointment_scheduled'
@@ -10,7 +12,9 @@ export type EmailType =
 	| 'payment_link'
 	| 'payment_received'
 	| 'invoice_sent'
-	| 'appointment_confirmed';
+	| 'appointment_confirmed'
+	| 'garment_ready_for_pickup'
+	| 'waitlist_slot_offer';
 
 // Email status enum - matches database constraint
 export type EmailStatus =
@@ -118,6 +122,65 @@ export interface EmailSendResult {
 	error?: string;
 	messageId?: string;
 	logId?: string;
+	// Present when the notification was also sent over SMS
+	sms?: SmsSendResult;
+}
+
+// Everything needed to tell a client their garments are ready for pickup
+export interface GarmentReadyNotification {
+	// 'order' when every garment in the order is ready, otherwise 'garment'
+	scope: 'garment' | 'order';
+	orderId: string;
+	orderNumber: string;
+	garments: Array<{ id: string; name: string }>;
+	client: {
+		id: string;
+		first_name: string;
+		last_name: string;
+		email: string;
+		phone_number: string;
+		accept_email: boolean | null;
+		accept_sms: boolean | null;
+	};
+	shop: {
+		id: string;
+		name: string;
+		business_name?: string | null;
+		email?: string | null;
+		business_phone?: string | null;
+		business_address?: string | null;
+	};
+	// Formatted outstanding balance; omitted when nothing is owed
+	balanceDue?: string | undefined;
+	paymentLink?: string | undefined;
+	// Public order status portal link
+	orderStatusLink?: string | undefined;
+}
+
+// A freed appointment slot offered to a waitlisted client
+export interface WaitlistOfferNotification {
+	offerId: string;
+	claimLink: string;
+	// Formatted slot start, e.g. "Thursday, March 15 at 2:00 PM"
+	appointmentTime: string;
+	appointmentType: string;
+	client: {
+		id: string;
+		first_name: string;
+		last_name: string;
+		email: string;
+		phone_number: string;
+		accept_email: boolean | null;
+		accept_sms: boolean | null;
+	};
+	shop: {
+		id: string;
+		name: string;
+		business_name?: string | null;
+		email?: string | null;
+		business_phone?: string | null;
+		business_address?: string | null;
+	};
 }
 
 export interface EmailPreviewResult {
@@ -168,6 +231,8 @@ export function isEmailType(value: string): value is EmailType {
 		'payment_received',
 		'invoice_sent',
 		'appointment_confirmed',
+		'garment_ready_for_pickup',
+		'waitlist_slot_offer',
 	].includes(value);
 }
 
@@ -144,6 +144,10 @@ export interface Appointment {
 		| 'no_confirmation_required';
 	notes?: string | null;
 	reminder_sent?: boolean | null;
+	// Set when the appointment was created from a recurrence rule
+	series_id?: string | null;
+	// Staff member the appointment is with
+	assigned_to?: string | null;
 	created_at: string | null;
 	updated_at: string | null;
 	// Joined data
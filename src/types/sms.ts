@@ -0,0 +1,68 @@
+// SMS message types - each has a plain-text template in sms-templates.ts
+export type SmsType =
+	| 'appointment_scheduled'
+	| 'appointment_rescheduled'
+	| 'appointment_canceled'
+	| 'appointment_reminder'
+	| 'garment_ready_for_pickup'
+	| 'payment_link'
+	| 'waitlist_slot_offer';
+
+// SMS status enum - matches database constraint
+export type SmsStatus = 'pending' | 'sent' | 'failed';
+
+// Channels a client notification can be delivered on
+export type NotificationChannel = 'email' | 'sms';
+
+// SMS log entry (mirrors EmailLog)
+export interface SmsLog {
+	id: string;
+	sms_type: SmsType;
+	recipient_phone: string;
+	recipient_name: string;
+	body: string;
+	status: SmsStatus;
+	attempts: number;
+	last_error: string | null;
+	provider_message_id: string | null;
+	metadata: {
+		appointment_id?: string;
+		client_id?: string;
+		invoice_id?: string;
+		[key: string]: any;
+	};
+	sent_at: string | null;
+	created_at: string;
+	created_by: string;
+}
+
+export type SmsLogCreate = Omit<SmsLog, 'id' | 'created_at' | 'created_by'>;
+
+// Minimal client shape needed to send an SMS
+export interface SmsRecipient {
+	id?: string;
+	first_name: string;
+	last_name: string;
+	phone_number: string | null;
+	accept_sms: boolean | null;
+}
+
+export interface SmsSendResult {
+	success: boolean;
+	error?: string;
+	messageId?: string;
+	logId?: string;
+}
+
+// Type guards
+export function isSmsType(value: string): value is SmsType {
+	return [
+		'appointment_scheduled',
+		'appointment_rescheduled',
+		'appointment_canceled',
+		'appointment_reminder',
+		'garment_ready_for_pickup',
+		'payment_link',
+		'waitlist_slot_offer',
+	].includes(value);
+}
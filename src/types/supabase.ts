@@ -14,8 +14,57 @@ export type Database = {
 	};
 	public: {
 		Tables: {
+			appointment_series: {
+				Row: {
+					client_id: string;
+					created_at: string;
+					ends_on: string | null;
+					frequency: string;
+					id: string;
+					interval: number;
+					occurrence_count: number | null;
+					shop_id: string;
+				};
+				Insert: {
+					client_id: string;
+					created_at?: string;
+					ends_on?: string | null;
+					frequency: string;
+					id?: string;
+					interval?: number;
+					occurrence_count?: number | null;
+					shop_id: string;
+				};
+				Update: {
+					client_id?: string;
+					created_at?: string;
+					ends_on?: string | null;
+					frequency?: string;
+					id?: string;
+					interval?: number;
+					occurrence_count?: number | null;
+					shop_id?: string;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'appointment_series_client_id_fkey';
+						columns: ['client_id'];
+						isOneToOne: false;
+						referencedRelation: 'clients';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'appointment_series_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
+				];
+			};
 			appointments: {
 				Row: {
+					assigned_to: string | null;
 					client_id: string;
 					created_at: string | null;
 					date: string;
@@ -25,6 +74,7 @@ export type Database = {
 					notes: string | null;
 					order_id: string | null;
 					reminder_sent: boolean | null;
+					series_id: string | null;
 					shop_id: string;
 					start_at: string | null;
 					start_time: string;
@@ -33,6 +83,7 @@ export type Database = {
 					updated_at: string | null;
 				};
 				Insert: {
+					assigned_to?: string | null;
 					client_id: string;
 					created_at?: string | null;
 					date: string;
@@ -42,6 +93,7 @@ export type Database = {
 					notes?: string | null;
 					order_id?: string | null;
 					reminder_sent?: boolean | null;
+					series_id?: string | null;
 					shop_id: string;
 					start_at?: string | null;
 					start_time: string;
@@ -50,6 +102,7 @@ export type Database = {
 					updated_at?: string | null;
 				};
 				Update: {
+					assigned_to?: string | null;
 					client_id?: string;
 					created_at?: string | null;
 					date?: string;
@@ -59,6 +112,7 @@ export type Database = {
 					notes?: string | null;
 					order_id?: string | null;
 					reminder_sent?: boolean | null;
+					series_id?: string | null;
 					shop_id?: string;
 					start_at?: string | null;
 					start_time?: string;
@@ -67,6 +121,13 @@ export type Database = {
 					updated_at?: string | null;
 				};
 				Relationships: [
+					{
+						foreignKeyName: 'appointments_assigned_to_fkey';
+						columns: ['assigned_to'];
+						isOneToOne: false;
+						referencedRelation: 'users';
+						referencedColumns: ['id'];
+					},
 					{
 						foreignKeyName: 'appointments_client_id_fkey';
 						columns: ['client_id'];
@@ -88,6 +149,13 @@ export type Database = {
 						referencedRelation: 'orders';
 						referencedColumns: ['id'];
 					},
+					{
+						foreignKeyName: 'appointments_series_id_fkey';
+						columns: ['series_id'];
+						isOneToOne: false;
+						referencedRelation: 'appointment_series';
+						referencedColumns: ['id'];
+					},
 					{
 						foreignKeyName: 'appointments_shop_id_fkey';
 						columns: ['shop_id'];
@@ -141,6 +209,129 @@ export type Database = {
 					},
 				];
 			};
+			client_merges: {
+				Row: {
+					id: string;
+					merged_at: string;
+					merged_by: string | null;
+					merged_client: Json;
+					merged_client_id: string;
+					moved_counts: Json;
+					shop_id: string;
+					surviving_client_id: string;
+				};
+				Insert: {
+					id?: string;
+					merged_at?: string;
+					merged_by?: string | null;
+					merged_client: Json;
+					merged_client_id: string;
+					moved_counts?: Json;
+					shop_id: string;
+					surviving_client_id: string;
+				};
+				Update: {
+					id?: string;
+					merged_at?: string;
+					merged_by?: string | null;
+					merged_client?: Json;
+					merged_client_id?: string;
+					moved_counts?: Json;
+					shop_id?: string;
+					surviving_client_id?: string;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'client_merges_merged_by_fkey';
+						columns: ['merged_by'];
+						isOneToOne: false;
+						referencedRelation: 'users';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'client_merges_merged_client_id_fkey';
+						columns: ['merged_client_id'];
+						isOneToOne: false;
+						referencedRelation: 'clients';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'client_merges_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'client_merges_surviving_client_id_fkey';
+						columns: ['surviving_client_id'];
+						isOneToOne: false;
+						referencedRelation: 'clients';
+						referencedColumns: ['id'];
+					},
+				];
+			};
+			client_measurements: {
+				Row: {
+					client_id: string;
+					created_at: string;
+					created_by: string | null;
+					id: string;
+					measured_on: string;
+					notes: string | null;
+					shop_id: string;
+					unit: string;
+					updated_at: string;
+					values: Json;
+				};
+				Insert: {
+					client_id: string;
+					created_at?: string;
+					created_by?: string | null;
+					id?: string;
+					measured_on?: string;
+					notes?: string | null;
+					shop_id: string;
+					unit?: string;
+					updated_at?: string;
+					values?: Json;
+				};
+				Update: {
+					client_id?: string;
+					created_at?: string;
+					created_by?: string | null;
+					id?: string;
+					measured_on?: string;
+					notes?: string | null;
+					shop_id?: string;
+					unit?: string;
+					updated_at?: string;
+					values?: Json;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'client_measurements_client_id_fkey';
+						columns: ['client_id'];
+						isOneToOne: false;
+						referencedRelation: 'clients';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'client_measurements_created_by_fkey';
+						columns: ['created_by'];
+						isOneToOne: false;
+						referencedRelation: 'users';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'client_measurements_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
+				];
+			};
 			clients: {
 				Row: {
 					accept_email: boolean;
@@ -255,6 +446,72 @@ export type Database = {
 					},
 				];
 			};
+			discounts: {
+				Row: {
+					amount_cents: number;
+					code: string;
+					created_at: string;
+					description: string | null;
+					discount_type: string;
+					expires_at: string | null;
+					id: string;
+					is_active: boolean;
+					percent: number;
+					service_id: string | null;
+					shop_id: string;
+					times_used: number;
+					updated_at: string;
+					usage_limit: number | null;
+				};
+				Insert: {
+					amount_cents?: number;
+					code: string;
+					created_at?: string;
+					description?: string | null;
+					discount_type: string;
+					expires_at?: string | null;
+					id?: string;
+					is_active?: boolean;
+					percent?: number;
+					service_id?: string | null;
+					shop_id: string;
+					times_used?: number;
+					updated_at?: string;
+					usage_limit?: number | null;
+				};
+				Update: {
+					amount_cents?: number;
+					code?: string;
+					created_at?: string;
+					description?: string | null;
+					discount_type?: string;
+					expires_at?: string | null;
+					id?: string;
+					is_active?: boolean;
+					percent?: number;
+					service_id?: string | null;
+					shop_id?: string;
+					times_used?: number;
+					updated_at?: string;
+					usage_limit?: number | null;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'discounts_service_id_fkey';
+						columns: ['service_id'];
+						isOneToOne: false;
+						referencedRelation: 'services';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'discounts_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
+				];
+			};
 			email_logs: {
 				Row: {
 					attempts: number;
@@ -424,6 +681,63 @@ export type Database = {
 					},
 				];
 			};
+			garment_photos: {
+				Row: {
+					caption: string | null;
+					created_at: string;
+					created_by: string | null;
+					garment_id: string;
+					id: string;
+					image_cloud_id: string;
+					is_cover: boolean;
+					photo_url: string;
+					position: number;
+					tag: string;
+					taken_at: string;
+				};
+				Insert: {
+					caption?: string | null;
+					created_at?: string;
+					created_by?: string | null;
+					garment_id: string;
+					id?: string;
+					image_cloud_id: string;
+					is_cover?: boolean;
+					photo_url: string;
+					position?: number;
+					tag?: string;
+					taken_at?: string;
+				};
+				Update: {
+					caption?: string | null;
+					created_at?: string;
+					created_by?: string | null;
+					garment_id?: string;
+					id?: string;
+					image_cloud_id?: string;
+					is_cover?: boolean;
+					photo_url?: string;
+					position?: number;
+					tag?: string;
+					taken_at?: string;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'garment_photos_created_by_fkey';
+						columns: ['created_by'];
+						isOneToOne: false;
+						referencedRelation: 'users';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'garment_photos_garment_id_fkey';
+						columns: ['garment_id'];
+						isOneToOne: false;
+						referencedRelation: 'garments';
+						referencedColumns: ['id'];
+					},
+				];
+			};
 			garment_service_time_entries: {
 				Row: {
 					created_by: string | null;
@@ -463,8 +777,45 @@ export type Database = {
 					},
 				];
 			};
+			garment_service_timers: {
+				Row: {
+					id: string;
+					service_id: string;
+					started_at: string;
+					user_id: string;
+				};
+				Insert: {
+					id?: string;
+					service_id: string;
+					started_at?: string;
+					user_id: string;
+				};
+				Update: {
+					id?: string;
+					service_id?: string;
+					started_at?: string;
+					user_id?: string;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'garment_service_timers_service_id_fkey';
+						columns: ['service_id'];
+						isOneToOne: false;
+						referencedRelation: 'garment_services';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'garment_service_timers_user_id_fkey';
+						columns: ['user_id'];
+						isOneToOne: true;
+						referencedRelation: 'users';
+						referencedColumns: ['id'];
+					},
+				];
+			};
 			garment_services: {
 				Row: {
+					assigned_to: string | null;
 					created_at: string | null;
 					description: string | null;
 					garment_id: string;
@@ -492,6 +843,7 @@ export type Database = {
 					updated_at: string | null;
 				};
 				Insert: {
+					assigned_to?: string | null;
 					created_at?: string | null;
 					description?: string | null;
 					garment_id: string;
@@ -519,6 +871,7 @@ export type Database = {
 					updated_at?: string | null;
 				};
 				Update: {
+					assigned_to?: string | null;
 					created_at?: string | null;
 					description?: string | null;
 					garment_id?: string;
@@ -546,6 +899,13 @@ export type Database = {
 					updated_at?: string | null;
 				};
 				Relationships: [
+					{
+						foreignKeyName: 'garment_services_assigned_to_fkey';
+						columns: ['assigned_to'];
+						isOneToOne: false;
+						referencedRelation: 'users';
+						referencedColumns: ['id'];
+					},
 					{
 						foreignKeyName: 'garment_services_garment_id_fkey';
 						columns: ['garment_id'];
@@ -599,6 +959,7 @@ export type Database = {
 			};
 			garments: {
 				Row: {
+					assigned_to: string | null;
 					created_at: string | null;
 					due_at: string | null;
 					due_date: string | null;
@@ -607,6 +968,7 @@ export type Database = {
 					id: string;
 					image_cloud_id: string | null;
 					is_done: boolean;
+					measurement_snapshot: Json | null;
 					name: string;
 					notes: string | null;
 					order_id: string;
@@ -618,6 +980,7 @@ export type Database = {
 					updated_at: string | null;
 				};
 				Insert: {
+					assigned_to?: string | null;
 					created_at?: string | null;
 					due_at?: string | null;
 					due_date?: string | null;
@@ -626,6 +989,7 @@ export type Database = {
 					id?: string;
 					image_cloud_id?: string | null;
 					is_done?: boolean;
+					measurement_snapshot?: Json | null;
 					name: string;
 					notes?: string | null;
 					order_id: string;
@@ -637,6 +1001,7 @@ export type Database = {
 					updated_at?: string | null;
 				};
 				Update: {
+					assigned_to?: string | null;
 					created_at?: string | null;
 					due_at?: string | null;
 					due_date?: string | null;
@@ -645,6 +1010,7 @@ export type Database = {
 					id?: string;
 					image_cloud_id?: string | null;
 					is_done?: boolean;
+					measurement_snapshot?: Json | null;
 					name?: string;
 					notes?: string | null;
 					order_id?: string;
@@ -656,6 +1022,13 @@ export type Database = {
 					updated_at?: string | null;
 				};
 				Relationships: [
+					{
+						foreignKeyName: 'garments_assigned_to_fkey';
+						columns: ['assigned_to'];
+						isOneToOne: false;
+						referencedRelation: 'users';
+						referencedColumns: ['id'];
+					},
 					{
 						foreignKeyName: 'garments_order_id_fkey';
 						columns: ['order_id'];
@@ -672,17 +1045,75 @@ export type Database = {
 					},
 				];
 			};
-			invoice_email_templates: {
+			gift_cards: {
 				Row: {
-					body_html: string;
-					body_text: string;
-					created_at: string | null;
+					client_id: string | null;
+					code: string;
+					created_at: string;
+					created_by: string | null;
+					expires_at: string | null;
 					id: string;
-					is_active: boolean | null;
+					initial_amount_cents: number;
+					notes: string | null;
 					shop_id: string;
-					subject: string;
-					template_type: string;
-					updated_at: string | null;
+				};
+				Insert: {
+					client_id?: string | null;
+					code: string;
+					created_at?: string;
+					created_by?: string | null;
+					expires_at?: string | null;
+					id?: string;
+					initial_amount_cents: number;
+					notes?: string | null;
+					shop_id: string;
+				};
+				Update: {
+					client_id?: string | null;
+					code?: string;
+					created_at?: string;
+					created_by?: string | null;
+					expires_at?: string | null;
+					id?: string;
+					initial_amount_cents?: number;
+					notes?: string | null;
+					shop_id?: string;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'gift_cards_client_id_fkey';
+						columns: ['client_id'];
+						isOneToOne: false;
+						referencedRelation: 'clients';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'gift_cards_created_by_fkey';
+						columns: ['created_by'];
+						isOneToOne: false;
+						referencedRelation: 'users';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'gift_cards_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
+				];
+			};
+			invoice_email_templates: {
+				Row: {
+					body_html: string;
+					body_text: string;
+					created_at: string | null;
+					id: string;
+					is_active: boolean | null;
+					shop_id: string;
+					subject: string;
+					template_type: string;
+					updated_at: string | null;
 					variables_used: Json | null;
 				};
 				Insert: {
@@ -719,6 +1150,61 @@ export type Database = {
 					},
 				];
 			};
+			invoice_installments: {
+				Row: {
+					amount_cents: number;
+					created_at: string;
+					due_date: string;
+					id: string;
+					invoice_id: string;
+					reminder_sent_at: string | null;
+					sequence: number;
+					shop_id: string;
+				};
+				Insert: {
+					amount_cents: number;
+					created_at?: string;
+					due_date: string;
+					id?: string;
+					invoice_id: string;
+					reminder_sent_at?: string | null;
+					sequence: number;
+					shop_id: string;
+				};
+				Update: {
+					amount_cents?: number;
+					created_at?: string;
+					due_date?: string;
+					id?: string;
+					invoice_id?: string;
+					reminder_sent_at?: string | null;
+					sequence?: number;
+					shop_id?: string;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'invoice_installments_invoice_id_fkey';
+						columns: ['invoice_id'];
+						isOneToOne: false;
+						referencedRelation: 'invoice_payment_summary';
+						referencedColumns: ['invoice_id'];
+					},
+					{
+						foreignKeyName: 'invoice_installments_invoice_id_fkey';
+						columns: ['invoice_id'];
+						isOneToOne: false;
+						referencedRelation: 'invoices';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'invoice_installments_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
+				];
+			};
 			invoice_status_history: {
 				Row: {
 					changed_by: string;
@@ -776,11 +1262,13 @@ export type Database = {
 					description: string | null;
 					due_date: string | null;
 					id: string;
+					installment_original_due_date: string | null;
 					invoice_number: string;
 					invoice_type: string | null;
 					line_items: Json;
 					metadata: Json | null;
 					order_id: string;
+					payment_reminders_stopped_at: string | null;
 					shop_id: string;
 					status: string;
 					updated_at: string | null;
@@ -793,11 +1281,13 @@ export type Database = {
 					description?: string | null;
 					due_date?: string | null;
 					id?: string;
+					installment_original_due_date?: string | null;
 					invoice_number: string;
 					invoice_type?: string | null;
 					line_items?: Json;
 					metadata?: Json | null;
 					order_id: string;
+					payment_reminders_stopped_at?: string | null;
 					shop_id: string;
 					status?: string;
 					updated_at?: string | null;
@@ -810,11 +1300,13 @@ export type Database = {
 					description?: string | null;
 					due_date?: string | null;
 					id?: string;
+					installment_original_due_date?: string | null;
 					invoice_number?: string;
 					invoice_type?: string | null;
 					line_items?: Json;
 					metadata?: Json | null;
 					order_id?: string;
+					payment_reminders_stopped_at?: string | null;
 					shop_id?: string;
 					status?: string;
 					updated_at?: string | null;
@@ -850,12 +1342,99 @@ export type Database = {
 					},
 				];
 			};
+			measurement_fields: {
+				Row: {
+					created_at: string;
+					id: string;
+					label: string;
+					shop_id: string;
+				};
+				Insert: {
+					created_at?: string;
+					id?: string;
+					label: string;
+					shop_id: string;
+				};
+				Update: {
+					created_at?: string;
+					id?: string;
+					label?: string;
+					shop_id?: string;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'measurement_fields_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
+				];
+			};
+			order_status_tokens: {
+				Row: {
+					created_at: string;
+					created_by: string;
+					expires_at: string;
+					id: string;
+					order_id: string;
+					revoked_at: string | null;
+					shop_id: string;
+					token: string;
+				};
+				Insert: {
+					created_at?: string;
+					created_by: string;
+					expires_at: string;
+					id?: string;
+					order_id: string;
+					revoked_at?: string | null;
+					shop_id: string;
+					token: string;
+				};
+				Update: {
+					created_at?: string;
+					created_by?: string;
+					expires_at?: string;
+					id?: string;
+					order_id?: string;
+					revoked_at?: string | null;
+					shop_id?: string;
+					token?: string;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'order_status_tokens_created_by_fkey';
+						columns: ['created_by'];
+						isOneToOne: false;
+						referencedRelation: 'users';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'order_status_tokens_order_id_fkey';
+						columns: ['order_id'];
+						isOneToOne: false;
+						referencedRelation: 'orders';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'order_status_tokens_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
+				];
+			};
 			orders: {
 				Row: {
 					client_id: string | null;
 					created_at: string | null;
 					deposit_amount_cents: number | null;
 					discount_cents: number;
+					discount_code: string | null;
+					discount_id: string | null;
+					discount_reason: string | null;
 					due_at: string | null;
 					id: string;
 					is_paid: boolean;
@@ -877,6 +1456,9 @@ export type Database = {
 					created_at?: string | null;
 					deposit_amount_cents?: number | null;
 					discount_cents?: number;
+					discount_code?: string | null;
+					discount_id?: string | null;
+					discount_reason?: string | null;
 					due_at?: string | null;
 					id?: string;
 					is_paid?: boolean;
@@ -898,6 +1480,9 @@ export type Database = {
 					created_at?: string | null;
 					deposit_amount_cents?: number | null;
 					discount_cents?: number;
+					discount_code?: string | null;
+					discount_id?: string | null;
+					discount_reason?: string | null;
 					due_at?: string | null;
 					id?: string;
 					is_paid?: boolean;
@@ -929,6 +1514,13 @@ export type Database = {
 						referencedRelation: 'garments_with_clients';
 						referencedColumns: ['client_id'];
 					},
+					{
+						foreignKeyName: 'orders_discount_id_fkey';
+						columns: ['discount_id'];
+						isOneToOne: false;
+						referencedRelation: 'discounts';
+						referencedColumns: ['id'];
+					},
 					{
 						foreignKeyName: 'orders_shop_id_fkey';
 						columns: ['shop_id'];
@@ -1056,6 +1648,7 @@ export type Database = {
 					created_at: string | null;
 					expires_at: string;
 					id: string;
+					installment_id: string | null;
 					invoice_id: string;
 					status: string;
 					stripe_checkout_session_id: string | null;
@@ -1068,6 +1661,7 @@ export type Database = {
 					created_at?: string | null;
 					expires_at: string;
 					id?: string;
+					installment_id?: string | null;
 					invoice_id: string;
 					status?: string;
 					stripe_checkout_session_id?: string | null;
@@ -1080,6 +1674,7 @@ export type Database = {
 					created_at?: string | null;
 					expires_at?: string;
 					id?: string;
+					installment_id?: string | null;
 					invoice_id?: string;
 					status?: string;
 					stripe_checkout_session_id?: string | null;
@@ -1089,6 +1684,13 @@ export type Database = {
 					used_at?: string | null;
 				};
 				Relationships: [
+					{
+						foreignKeyName: 'payment_links_installment_id_fkey';
+						columns: ['installment_id'];
+						isOneToOne: false;
+						referencedRelation: 'invoice_installments';
+						referencedColumns: ['id'];
+					},
 					{
 						foreignKeyName: 'payment_links_invoice_id_fkey';
 						columns: ['invoice_id'];
@@ -1105,6 +1707,163 @@ export type Database = {
 					},
 				];
 			};
+			payment_reminder_pauses: {
+				Row: {
+					client_id: string;
+					created_at: string;
+					id: string;
+					shop_id: string;
+				};
+				Insert: {
+					client_id: string;
+					created_at?: string;
+					id?: string;
+					shop_id: string;
+				};
+				Update: {
+					client_id?: string;
+					created_at?: string;
+					id?: string;
+					shop_id?: string;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'payment_reminder_pauses_client_id_fkey';
+						columns: ['client_id'];
+						isOneToOne: true;
+						referencedRelation: 'clients';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'payment_reminder_pauses_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
+				];
+			};
+			payment_reminder_steps: {
+				Row: {
+					body: string;
+					created_at: string;
+					days_after: number;
+					id: string;
+					shop_id: string;
+					subject: string;
+					updated_at: string;
+				};
+				Insert: {
+					body: string;
+					created_at?: string;
+					days_after: number;
+					id?: string;
+					shop_id: string;
+					subject: string;
+					updated_at?: string;
+				};
+				Update: {
+					body?: string;
+					created_at?: string;
+					days_after?: number;
+					id?: string;
+					shop_id?: string;
+					subject?: string;
+					updated_at?: string;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'payment_reminder_steps_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
+				];
+			};
+			payment_reminders: {
+				Row: {
+					balance_cents: number;
+					created_at: string;
+					days_after: number;
+					error: string | null;
+					id: string;
+					installment_id: string | null;
+					invoice_id: string;
+					payment_link_url: string | null;
+					recipient_email: string;
+					resend_id: string | null;
+					sent_at: string | null;
+					shop_id: string;
+					status: string;
+					step_id: string | null;
+					subject: string;
+				};
+				Insert: {
+					balance_cents: number;
+					created_at?: string;
+					days_after: number;
+					error?: string | null;
+					id?: string;
+					installment_id?: string | null;
+					invoice_id: string;
+					payment_link_url?: string | null;
+					recipient_email: string;
+					resend_id?: string | null;
+					sent_at?: string | null;
+					shop_id: string;
+					status?: string;
+					step_id?: string | null;
+					subject: string;
+				};
+				Update: {
+					balance_cents?: number;
+					created_at?: string;
+					days_after?: number;
+					error?: string | null;
+					id?: string;
+					installment_id?: string | null;
+					invoice_id?: string;
+					payment_link_url?: string | null;
+					recipient_email?: string;
+					resend_id?: string | null;
+					sent_at?: string | null;
+					shop_id?: string;
+					status?: string;
+					step_id?: string | null;
+					subject?: string;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'payment_reminders_installment_id_fkey';
+						columns: ['installment_id'];
+						isOneToOne: false;
+						referencedRelation: 'invoice_installments';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'payment_reminders_invoice_id_fkey';
+						columns: ['invoice_id'];
+						isOneToOne: false;
+						referencedRelation: 'invoices';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'payment_reminders_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'payment_reminders_step_id_fkey';
+						columns: ['step_id'];
+						isOneToOne: false;
+						referencedRelation: 'payment_reminder_steps';
+						referencedColumns: ['id'];
+					},
+				];
+			};
 			payments: {
 				Row: {
 					amount_cents: number;
@@ -1127,6 +1886,7 @@ export type Database = {
 					stripe_fee_details: Json | null;
 					stripe_metadata: Json | null;
 					stripe_payment_intent_id: string | null;
+					tip_cents: number;
 				};
 				Insert: {
 					amount_cents: number;
@@ -1149,6 +1909,7 @@ export type Database = {
 					stripe_fee_details?: Json | null;
 					stripe_metadata?: Json | null;
 					stripe_payment_intent_id?: string | null;
+					tip_cents?: number;
 				};
 				Update: {
 					amount_cents?: number;
@@ -1171,6 +1932,7 @@ export type Database = {
 					stripe_fee_details?: Json | null;
 					stripe_metadata?: Json | null;
 					stripe_payment_intent_id?: string | null;
+					tip_cents?: number;
 				};
 				Relationships: [
 					{
@@ -1412,7 +2174,11 @@ export type Database = {
 					default_qty: number;
 					default_unit: string;
 					default_unit_price_cents: number;
+					deposit_fixed_cents: number | null;
+					deposit_percent: number | null;
+					deposit_type: string | null;
 					description: string | null;
+					estimated_minutes: number | null;
 					frequently_used: boolean;
 					frequently_used_position: number | null;
 					id: string;
@@ -1425,7 +2191,11 @@ export type Database = {
 					default_qty?: number;
 					default_unit?: string;
 					default_unit_price_cents?: number;
+					deposit_fixed_cents?: number | null;
+					deposit_percent?: number | null;
+					deposit_type?: string | null;
 					description?: string | null;
+					estimated_minutes?: number | null;
 					frequently_used?: boolean;
 					frequently_used_position?: number | null;
 					id?: string;
@@ -1438,7 +2208,11 @@ export type Database = {
 					default_qty?: number;
 					default_unit?: string;
 					default_unit_price_cents?: number;
+					deposit_fixed_cents?: number | null;
+					deposit_percent?: number | null;
+					deposit_type?: string | null;
 					description?: string | null;
+					estimated_minutes?: number | null;
 					frequently_used?: boolean;
 					frequently_used_position?: number | null;
 					id?: string;
@@ -1501,10 +2275,15 @@ export type Database = {
 				Row: {
 					cash_enabled: boolean | null;
 					created_at: string | null;
+					deposit_fixed_cents: number;
+					deposit_percent: number;
+					deposit_type: string;
 					external_pos_enabled: boolean | null;
 					id: string;
 					invoice_prefix: string | null;
 					last_invoice_number: number | null;
+					max_timer_minutes: number;
+					payment_reminders_enabled: boolean;
 					payment_settings: Json | null;
 					shop_id: string;
 					stripe_connect_account_id: string | null;
@@ -1520,10 +2299,15 @@ export type Database = {
 				Insert: {
 					cash_enabled?: boolean | null;
 					created_at?: string | null;
+					deposit_fixed_cents?: number;
+					deposit_percent?: number;
+					deposit_type?: string;
 					external_pos_enabled?: boolean | null;
 					id?: string;
 					invoice_prefix?: string | null;
 					last_invoice_number?: number | null;
+					max_timer_minutes?: number;
+					payment_reminders_enabled?: boolean;
 					payment_settings?: Json | null;
 					shop_id: string;
 					stripe_connect_account_id?: string | null;
@@ -1539,10 +2323,15 @@ export type Database = {
 				Update: {
 					cash_enabled?: boolean | null;
 					created_at?: string | null;
+					deposit_fixed_cents?: number;
+					deposit_percent?: number;
+					deposit_type?: string;
 					external_pos_enabled?: boolean | null;
 					id?: string;
 					invoice_prefix?: string | null;
 					last_invoice_number?: number | null;
+					max_timer_minutes?: number;
+					payment_reminders_enabled?: boolean;
 					payment_settings?: Json | null;
 					shop_id?: string;
 					stripe_connect_account_id?: string | null;
@@ -1567,8 +2356,10 @@ export type Database = {
 			};
 			shops: {
 				Row: {
+					booking_slug: string | null;
 					buffer_time_minutes: number | null;
 					business_name: string | null;
+					calendar_feed_token: string | null;
 					created_at: string | null;
 					email: string | null;
 					id: string;
@@ -1576,6 +2367,7 @@ export type Database = {
 					mailing_address: string | null;
 					name: string;
 					onboarding_completed: boolean | null;
+					online_booking_enabled: boolean;
 					owner_user_id: string;
 					phone_number: string | null;
 					tax_percent: number;
@@ -1587,53 +2379,277 @@ export type Database = {
 					working_hours: Json | null;
 				};
 				Insert: {
-					buffer_time_minutes?: number | null;
-					business_name?: string | null;
-					created_at?: string | null;
-					email?: string | null;
+					booking_slug?: string | null;
+					buffer_time_minutes?: number | null;
+					business_name?: string | null;
+					calendar_feed_token?: string | null;
+					created_at?: string | null;
+					email?: string | null;
+					id?: string;
+					location_type?: string | null;
+					mailing_address?: string | null;
+					name: string;
+					onboarding_completed?: boolean | null;
+					online_booking_enabled?: boolean;
+					owner_user_id: string;
+					phone_number?: string | null;
+					tax_percent?: number;
+					timezone?: string | null;
+					timezone_offset?: number | null;
+					trial_countdown_enabled?: boolean | null;
+					trial_end_date?: string | null;
+					updated_at?: string | null;
+					working_hours?: Json | null;
+				};
+				Update: {
+					booking_slug?: string | null;
+					buffer_time_minutes?: number | null;
+					business_name?: string | null;
+					calendar_feed_token?: string | null;
+					created_at?: string | null;
+					email?: string | null;
+					id?: string;
+					location_type?: string | null;
+					mailing_address?: string | null;
+					name?: string;
+					onboarding_completed?: boolean | null;
+					online_booking_enabled?: boolean;
+					owner_user_id?: string;
+					phone_number?: string | null;
+					tax_percent?: number;
+					timezone?: string | null;
+					timezone_offset?: number | null;
+					trial_countdown_enabled?: boolean | null;
+					trial_end_date?: string | null;
+					updated_at?: string | null;
+					working_hours?: Json | null;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'shops_owner_user_id_fkey';
+						columns: ['owner_user_id'];
+						isOneToOne: true;
+						referencedRelation: 'users';
+						referencedColumns: ['id'];
+					},
+				];
+			};
+			sms_logs: {
+				Row: {
+					attempts: number;
+					body: string;
+					created_at: string;
+					created_by: string;
+					id: string;
+					last_error: string | null;
+					metadata: Json;
+					provider_message_id: string | null;
+					recipient_name: string;
+					recipient_phone: string;
+					sent_at: string | null;
+					sms_type: string;
+					status: string;
+				};
+				Insert: {
+					attempts?: number;
+					body: string;
+					created_at?: string;
+					created_by: string;
+					id?: string;
+					last_error?: string | null;
+					metadata?: Json;
+					provider_message_id?: string | null;
+					recipient_name: string;
+					recipient_phone: string;
+					sent_at?: string | null;
+					sms_type: string;
+					status?: string;
+				};
+				Update: {
+					attempts?: number;
+					body?: string;
+					created_at?: string;
+					created_by?: string;
+					id?: string;
+					last_error?: string | null;
+					metadata?: Json;
+					provider_message_id?: string | null;
+					recipient_name?: string;
+					recipient_phone?: string;
+					sent_at?: string | null;
+					sms_type?: string;
+					status?: string;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'sms_logs_created_by_fkey';
+						columns: ['created_by'];
+						isOneToOne: false;
+						referencedRelation: 'users';
+						referencedColumns: ['id'];
+					},
+				];
+			};
+			staff_invitations: {
+				Row: {
+					accepted_at: string | null;
+					accepted_user_id: string | null;
+					created_at: string;
+					email: string;
+					expires_at: string;
+					id: string;
+					invited_by_user_id: string | null;
+					revoked_at: string | null;
+					role: string;
+					shop_id: string;
+				};
+				Insert: {
+					accepted_at?: string | null;
+					accepted_user_id?: string | null;
+					created_at?: string;
+					email: string;
+					expires_at?: string;
+					id?: string;
+					invited_by_user_id?: string | null;
+					revoked_at?: string | null;
+					role: string;
+					shop_id: string;
+				};
+				Update: {
+					accepted_at?: string | null;
+					accepted_user_id?: string | null;
+					created_at?: string;
+					email?: string;
+					expires_at?: string;
+					id?: string;
+					invited_by_user_id?: string | null;
+					revoked_at?: string | null;
+					role?: string;
+					shop_id?: string;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'staff_invitations_accepted_user_id_fkey';
+						columns: ['accepted_user_id'];
+						isOneToOne: false;
+						referencedRelation: 'users';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'staff_invitations_invited_by_user_id_fkey';
+						columns: ['invited_by_user_id'];
+						isOneToOne: false;
+						referencedRelation: 'users';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'staff_invitations_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
+				];
+			};
+			store_credit_entries: {
+				Row: {
+					amount_cents: number;
+					client_id: string | null;
+					created_at: string;
+					created_by: string | null;
+					entry_type: string;
+					expires_at: string | null;
+					gift_card_id: string | null;
+					id: string;
+					invoice_id: string | null;
+					payment_id: string | null;
+					reason: string | null;
+					refund_id: string | null;
+					remaining_cents: number | null;
+					shop_id: string;
+				};
+				Insert: {
+					amount_cents: number;
+					client_id?: string | null;
+					created_at?: string;
+					created_by?: string | null;
+					entry_type: string;
+					expires_at?: string | null;
+					gift_card_id?: string | null;
 					id?: string;
-					location_type?: string | null;
-					mailing_address?: string | null;
-					name: string;
-					onboarding_completed?: boolean | null;
-					owner_user_id: string;
-					phone_number?: string | null;
-					tax_percent?: number;
-					timezone?: string | null;
-					timezone_offset?: number | null;
-					trial_countdown_enabled?: boolean | null;
-					trial_end_date?: string | null;
-					updated_at?: string | null;
-					working_hours?: Json | null;
+					invoice_id?: string | null;
+					payment_id?: string | null;
+					reason?: string | null;
+					refund_id?: string | null;
+					remaining_cents?: number | null;
+					shop_id: string;
 				};
 				Update: {
-					buffer_time_minutes?: number | null;
-					business_name?: string | null;
-					created_at?: string | null;
-					email?: string | null;
+					amount_cents?: number;
+					client_id?: string | null;
+					created_at?: string;
+					created_by?: string | null;
+					entry_type?: string;
+					expires_at?: string | null;
+					gift_card_id?: string | null;
 					id?: string;
-					location_type?: string | null;
-					mailing_address?: string | null;
-					name?: string;
-					onboarding_completed?: boolean | null;
-					owner_user_id?: string;
-					phone_number?: string | null;
-					tax_percent?: number;
-					timezone?: string | null;
-					timezone_offset?: number | null;
-					trial_countdown_enabled?: boolean | null;
-					trial_end_date?: string | null;
-					updated_at?: string | null;
-					working_hours?: Json | null;
+					invoice_id?: string | null;
+					payment_id?: string | null;
+					reason?: string | null;
+					refund_id?: string | null;
+					remaining_cents?: number | null;
+					shop_id?: string;
 				};
 				Relationships: [
 					{
-						foreignKeyName: 'shops_owner_user_id_fkey';
-						columns: ['owner_user_id'];
-						isOneToOne: true;
+						foreignKeyName: 'store_credit_entries_client_id_fkey';
+						columns: ['client_id'];
+						isOneToOne: false;
+						referencedRelation: 'clients';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'store_credit_entries_created_by_fkey';
+						columns: ['created_by'];
+						isOneToOne: false;
 						referencedRelation: 'users';
 						referencedColumns: ['id'];
 					},
+					{
+						foreignKeyName: 'store_credit_entries_gift_card_id_fkey';
+						columns: ['gift_card_id'];
+						isOneToOne: false;
+						referencedRelation: 'gift_cards';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'store_credit_entries_invoice_id_fkey';
+						columns: ['invoice_id'];
+						isOneToOne: false;
+						referencedRelation: 'invoices';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'store_credit_entries_payment_id_fkey';
+						columns: ['payment_id'];
+						isOneToOne: false;
+						referencedRelation: 'payments';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'store_credit_entries_refund_id_fkey';
+						columns: ['refund_id'];
+						isOneToOne: false;
+						referencedRelation: 'refunds';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'store_credit_entries_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
 				];
 			};
 			stripe_webhook_events: {
@@ -1698,6 +2714,7 @@ export type Database = {
 					id: string;
 					last_name: string | null;
 					role: string | null;
+					shop_id: string | null;
 					timezone: string | null;
 					timezone_offset: number | null;
 					updated_at: string | null;
@@ -1710,6 +2727,7 @@ export type Database = {
 					id?: string;
 					last_name?: string | null;
 					role?: string | null;
+					shop_id?: string | null;
 					timezone?: string | null;
 					timezone_offset?: number | null;
 					updated_at?: string | null;
@@ -1722,16 +2740,170 @@ export type Database = {
 					id?: string;
 					last_name?: string | null;
 					role?: string | null;
+					shop_id?: string | null;
 					timezone?: string | null;
 					timezone_offset?: number | null;
 					updated_at?: string | null;
 				};
-				Relationships: [];
+				Relationships: [
+					{
+						foreignKeyName: 'users_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
+				];
+			};
+			waitlist_entries: {
+				Row: {
+					appointment_types: string[];
+					booked_appointment_id: string | null;
+					client_id: string;
+					created_at: string;
+					earliest_date: string;
+					id: string;
+					latest_date: string;
+					notes: string | null;
+					shop_id: string;
+					status: string;
+					updated_at: string;
+				};
+				Insert: {
+					appointment_types?: string[];
+					booked_appointment_id?: string | null;
+					client_id: string;
+					created_at?: string;
+					earliest_date: string;
+					id?: string;
+					latest_date: string;
+					notes?: string | null;
+					shop_id: string;
+					status?: string;
+					updated_at?: string;
+				};
+				Update: {
+					appointment_types?: string[];
+					booked_appointment_id?: string | null;
+					client_id?: string;
+					created_at?: string;
+					earliest_date?: string;
+					id?: string;
+					latest_date?: string;
+					notes?: string | null;
+					shop_id?: string;
+					status?: string;
+					updated_at?: string;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'waitlist_entries_booked_appointment_id_fkey';
+						columns: ['booked_appointment_id'];
+						isOneToOne: false;
+						referencedRelation: 'appointments';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'waitlist_entries_client_id_fkey';
+						columns: ['client_id'];
+						isOneToOne: false;
+						referencedRelation: 'clients';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'waitlist_entries_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
+				];
+			};
+			waitlist_offers: {
+				Row: {
+					appointment_id: string | null;
+					claimed_at: string | null;
+					created_at: string;
+					date: string;
+					end_time: string;
+					expires_at: string;
+					id: string;
+					shop_id: string;
+					source_appointment_id: string | null;
+					start_time: string;
+					status: string;
+					token: string;
+					type: string;
+					waitlist_entry_id: string;
+				};
+				Insert: {
+					appointment_id?: string | null;
+					claimed_at?: string | null;
+					created_at?: string;
+					date: string;
+					end_time: string;
+					expires_at: string;
+					id?: string;
+					shop_id: string;
+					source_appointment_id?: string | null;
+					start_time: string;
+					status?: string;
+					token: string;
+					type: string;
+					waitlist_entry_id: string;
+				};
+				Update: {
+					appointment_id?: string | null;
+					claimed_at?: string | null;
+					created_at?: string;
+					date?: string;
+					end_time?: string;
+					expires_at?: string;
+					id?: string;
+					shop_id?: string;
+					source_appointment_id?: string | null;
+					start_time?: string;
+					status?: string;
+					token?: string;
+					type?: string;
+					waitlist_entry_id?: string;
+				};
+				Relationships: [
+					{
+						foreignKeyName: 'waitlist_offers_appointment_id_fkey';
+						columns: ['appointment_id'];
+						isOneToOne: false;
+						referencedRelation: 'appointments';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'waitlist_offers_shop_id_fkey';
+						columns: ['shop_id'];
+						isOneToOne: false;
+						referencedRelation: 'shops';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'waitlist_offers_source_appointment_id_fkey';
+						columns: ['source_appointment_id'];
+						isOneToOne: false;
+						referencedRelation: 'appointments';
+						referencedColumns: ['id'];
+					},
+					{
+						foreignKeyName: 'waitlist_offers_waitlist_entry_id_fkey';
+						columns: ['waitlist_entry_id'];
+						isOneToOne: false;
+						referencedRelation: 'waitlist_entries';
+						referencedColumns: ['id'];
+					},
+				];
 			};
 		};
 		Views: {
 			garments_with_clients: {
 				Row: {
+					assigned_to: string | null;
 					client_first_name: string | null;
 					client_full_name: string | null;
 					client_id: string | null;
@@ -1832,6 +3004,22 @@ export type Database = {
 				Args: { p_client_id: string; p_user_id: string };
 				Returns: undefined;
 			};
+			book_appointment_slot: {
+				Args: {
+					p_shop_id: string;
+					p_client_id: string;
+					p_date: string;
+					p_start_time: string;
+					p_end_time: string;
+					p_start_at: string;
+					p_end_at: string;
+					p_type: string;
+					p_status: Database['public']['Enums']['appointment_status'];
+					p_notes?: string;
+					p_allow_overlap?: boolean;
+				};
+				Returns: Database['public']['Tables']['appointments']['Row'];
+			};
 			calculate_order_status: {
 				Args: { p_order_id: string };
 				Returns: Database['public']['Enums']['order_status'];
@@ -1927,16 +3115,18 @@ export type Database = {
 				};
 			};
 			create_order_with_payment_transaction: {
-				Args:
-					| { p_order_data: Json; p_payment_intent?: Json; p_shop_id: string }
-					| {
-							p_order_data: Json;
-							p_payment_intent?: Json;
-							p_shop_id: string;
-							p_user_id?: string;
-					  };
+				Args: {
+					p_order_data: Json;
+					p_payment_intent?: Json;
+					p_shop_id: string;
+					p_user_id?: string;
+				};
 				Returns: Json;
 			};
+			expire_store_credit: {
+				Args: { p_shop_id: string };
+				Returns: number;
+			};
 			generate_order_number: {
 				Args: { p_shop_id: string };
 				Returns: string;
@@ -2052,6 +3242,27 @@ export type Database = {
 				Args: { p_garment_id: string };
 				Returns: undefined;
 			};
+			merge_clients: {
+				Args: {
+					p_shop_id: string;
+					p_surviving_client_id: string;
+					p_merged_client_id: string;
+					p_user_id: string;
+				};
+				Returns: string;
+			};
+			move_overpayment_to_credit: {
+				Args: {
+					p_invoice_id: string;
+					p_amount_cents: number;
+					p_user_id: string;
+				};
+				Returns: {
+					payment_id: string;
+					refund_id: string;
+					amount_cents: number;
+				}[];
+			};
 			process_manual_payment: {
 				Args: {
 					p_amount_cents: number;
@@ -2068,10 +3279,37 @@ export type Database = {
 				Args: { p_refund_id: string; p_stripe_refund_data: Json };
 				Returns: undefined;
 			};
+			redeem_discount: {
+				Args: { p_discount_id: string };
+				Returns: boolean;
+			};
+			redeem_store_credit: {
+				Args: {
+					p_invoice_id: string;
+					p_payment_type: string;
+					p_amount_cents: number;
+					p_user_id: string;
+					p_gift_card_id?: string;
+					p_notes?: string;
+				};
+				Returns: string;
+			};
+			release_discount: {
+				Args: { p_discount_id: string };
+				Returns: undefined;
+			};
+			remove_installment_plan: {
+				Args: { p_invoice_id: string };
+				Returns: undefined;
+			};
 			restore_client: {
 				Args: { p_client_id: string };
 				Returns: undefined;
 			};
+			save_installment_plan: {
+				Args: { p_invoice_id: string; p_installments: Json };
+				Returns: undefined;
+			};
 			set_current_user_id: {
 				Args: { user_id: string };
 				Returns: undefined;
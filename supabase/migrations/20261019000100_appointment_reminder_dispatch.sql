@@ -0,0 +1,31 @@
+-- Migration: Appointment reminder dispatch
+-- Allows reminder emails to be logged and speeds up the reminder window scan
+
+-- Allow every email type the application sends (including appointment_reminder)
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS email_logs_email_type_check;
+
+ALTER TABLE email_logs ADD CONSTRAINT email_logs_email_type_check
+  CHECK (email_type IN (
+    'appointment_scheduled',
+    'appointment_rescheduled',
+    'appointment_canceled',
+    'appointment_no_show',
+    'appointment_rescheduled_seamstress',
+    'appointment_canceled_seamstress',
+    'appointment_reminder',
+    'payment_link',
+    'payment_received',
+    'invoice_sent',
+    'appointment_confirmation_request',
+    'appointment_confirmed'
+  ));
+
+-- Normalize legacy NULLs so the dispatcher only has to look for FALSE
+UPDATE appointments SET reminder_sent = FALSE WHERE reminder_sent IS NULL;
+
+-- Index for the reminder scan: upcoming, not-yet-reminded appointments per shop
+CREATE INDEX IF NOT EXISTS idx_appointments_reminder_due
+  ON appointments(shop_id, start_at)
+  WHERE reminder_sent = FALSE AND status IN ('pending', 'confirmed');
+
+COMMENT ON COLUMN appointments.reminder_sent IS 'Set by the appointment reminder dispatcher once the appointment_reminder email has been sent.';
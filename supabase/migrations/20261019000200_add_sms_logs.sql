@@ -0,0 +1,35 @@
+-- Migration: Add SMS logs
+-- Description: Record of every text message sent to clients, mirroring email_logs
+
+CREATE TABLE sms_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sms_type TEXT NOT NULL CHECK (sms_type IN (
+    'appointment_scheduled',
+    'appointment_rescheduled',
+    'appointment_canceled',
+    'appointment_reminder',
+    'garment_ready_for_pickup',
+    'payment_link'
+  )),
+  recipient_phone TEXT NOT NULL,
+  recipient_name TEXT NOT NULL,
+  body TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0 AND attempts <= 5),
+  last_error TEXT,
+  provider_message_id TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_by UUID NOT NULL REFERENCES public.users(id)
+);
+
+-- Indexes for sms_logs
+CREATE INDEX idx_sms_logs_status ON sms_logs(status);
+CREATE INDEX idx_sms_logs_created_at ON sms_logs(created_at DESC);
+CREATE INDEX idx_sms_logs_sms_type ON sms_logs(sms_type);
+CREATE INDEX idx_sms_logs_metadata_appointment ON sms_logs((metadata->>'appointment_id'))
+  WHERE metadata->>'appointment_id' IS NOT NULL;
+
+-- Like the email tables, security is enforced in server actions (Clerk auth)
+ALTER TABLE sms_logs DISABLE ROW LEVEL SECURITY;
@@ -0,0 +1,26 @@
+-- Migration: Ready for pickup notifications
+-- Allows garment_ready_for_pickup emails to be logged
+
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS email_logs_email_type_check;
+
+ALTER TABLE email_logs ADD CONSTRAINT email_logs_email_type_check
+  CHECK (email_type IN (
+    'appointment_scheduled',
+    'appointment_rescheduled',
+    'appointment_canceled',
+    'appointment_no_show',
+    'appointment_rescheduled_seamstress',
+    'appointment_canceled_seamstress',
+    'appointment_reminder',
+    'payment_link',
+    'payment_received',
+    'invoice_sent',
+    'appointment_confirmation_request',
+    'appointment_confirmed',
+    'garment_ready_for_pickup'
+  ));
+
+-- Dedupe lookups for pickup notifications filter on metadata
+CREATE INDEX IF NOT EXISTS idx_email_logs_garment_ready_metadata
+  ON email_logs USING GIN (metadata)
+  WHERE email_type = 'garment_ready_for_pickup';
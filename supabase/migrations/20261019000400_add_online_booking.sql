@@ -0,0 +1,14 @@
+-- Migration: Online booking
+-- Lets each shop publish a public /book/[slug] page for client self-service booking
+
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS booking_slug TEXT,
+  ADD COLUMN IF NOT EXISTS online_booking_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Slugs are part of a public URL: lowercase letters, digits and single hyphens
+ALTER TABLE shops ADD CONSTRAINT shops_booking_slug_format
+  CHECK (booking_slug IS NULL OR booking_slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$');
+
+CREATE UNIQUE INDEX IF NOT EXISTS shops_booking_slug_unique
+  ON shops(booking_slug)
+  WHERE booking_slug IS NOT NULL;
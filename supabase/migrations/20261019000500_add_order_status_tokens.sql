@@ -0,0 +1,24 @@
+-- Migration: Order status portal
+-- Revocable, expiring tokens that give a client read-only access to one order
+
+CREATE TABLE IF NOT EXISTS order_status_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token TEXT NOT NULL UNIQUE,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_by UUID NOT NULL REFERENCES public.users(id)
+);
+
+-- Indexes for order_status_tokens
+CREATE INDEX idx_order_status_tokens_token ON order_status_tokens(token);
+CREATE INDEX idx_order_status_tokens_order ON order_status_tokens(order_id);
+CREATE INDEX idx_order_status_tokens_active ON order_status_tokens(order_id, expires_at)
+  WHERE revoked_at IS NULL;
+
+-- Like the email tables, security is enforced in server actions (Clerk auth);
+-- the public portal reads through the service role after validating the token
+ALTER TABLE order_status_tokens DISABLE ROW LEVEL SECURITY;
+
@@ -0,0 +1,9 @@
+-- Migration: Calendar feed token
+-- Secret token for each shop's ICS subscription feed (/api/calendar/feed/[token])
+
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS calendar_feed_token TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS shops_calendar_feed_token_unique
+  ON shops(calendar_feed_token)
+  WHERE calendar_feed_token IS NOT NULL;
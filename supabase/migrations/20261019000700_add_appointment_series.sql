@@ -0,0 +1,29 @@
+-- Migration: Recurring appointments
+-- A series groups the occurrences created from one recurrence rule so they
+-- can be edited or canceled together
+
+CREATE TABLE IF NOT EXISTS appointment_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+  interval INTEGER NOT NULL DEFAULT 1 CHECK (interval BETWEEN 1 AND 52),
+  ends_on DATE,
+  occurrence_count INTEGER CHECK (occurrence_count BETWEEN 2 AND 52),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT appointment_series_has_end CHECK (
+    ends_on IS NOT NULL OR occurrence_count IS NOT NULL
+  )
+);
+
+CREATE INDEX idx_appointment_series_shop ON appointment_series(shop_id);
+
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES appointment_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_series
+  ON appointments(series_id, date)
+  WHERE series_id IS NOT NULL;
+
+-- Like the email tables, security is enforced in server actions (Clerk auth)
+ALTER TABLE appointment_series DISABLE ROW LEVEL SECURITY;
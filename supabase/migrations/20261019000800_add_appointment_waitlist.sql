@@ -0,0 +1,87 @@
+-- Migration: Appointment waitlist
+-- Clients waiting for an opening, and the claim-link offers sent to them when
+-- an appointment is canceled or declined
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  earliest_date DATE NOT NULL,
+  latest_date DATE NOT NULL,
+  -- Empty means any appointment type
+  appointment_types TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'booked', 'removed')),
+  booked_appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT waitlist_entries_date_range CHECK (latest_date >= earliest_date)
+);
+
+CREATE INDEX idx_waitlist_entries_shop_status
+  ON waitlist_entries(shop_id, status, earliest_date);
+
+CREATE TABLE IF NOT EXISTS waitlist_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token TEXT NOT NULL UNIQUE,
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  waitlist_entry_id UUID NOT NULL REFERENCES waitlist_entries(id) ON DELETE CASCADE,
+  source_appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  date DATE NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  type TEXT NOT NULL,
+  -- taken: another client claimed the slot first
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'claimed', 'taken', 'expired')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  claimed_at TIMESTAMPTZ,
+  appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- A freed slot is offered to each waitlisted client at most once
+CREATE UNIQUE INDEX idx_waitlist_offers_entry_source
+  ON waitlist_offers(waitlist_entry_id, source_appointment_id);
+
+CREATE INDEX idx_waitlist_offers_source_pending
+  ON waitlist_offers(source_appointment_id)
+  WHERE status = 'pending';
+
+-- Like the email tables, security is enforced in server actions (Clerk auth)
+-- and by the unguessable claim token
+ALTER TABLE waitlist_entries DISABLE ROW LEVEL SECURITY;
+ALTER TABLE waitlist_offers DISABLE ROW LEVEL SECURITY;
+
+-- Allow offer notifications to be logged
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS email_logs_email_type_check;
+
+ALTER TABLE email_logs ADD CONSTRAINT email_logs_email_type_check
+  CHECK (email_type IN (
+    'appointment_scheduled',
+    'appointment_rescheduled',
+    'appointment_canceled',
+    'appointment_no_show',
+    'appointment_rescheduled_seamstress',
+    'appointment_canceled_seamstress',
+    'appointment_reminder',
+    'payment_link',
+    'payment_received',
+    'invoice_sent',
+    'appointment_confirmation_request',
+    'appointment_confirmed',
+    'garment_ready_for_pickup',
+    'waitlist_slot_offer'
+  ));
+
+ALTER TABLE sms_logs DROP CONSTRAINT IF EXISTS sms_logs_sms_type_check;
+
+ALTER TABLE sms_logs ADD CONSTRAINT sms_logs_sms_type_check
+  CHECK (sms_type IN (
+    'appointment_scheduled',
+    'appointment_rescheduled',
+    'appointment_canceled',
+    'appointment_reminder',
+    'garment_ready_for_pickup',
+    'payment_link',
+    'waitlist_slot_offer'
+  ));
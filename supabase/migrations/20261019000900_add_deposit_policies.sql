@@ -0,0 +1,35 @@
+-- Migration: Deposit policies
+-- Shop-level deposit requirement collected at order creation, with optional
+-- per-service overrides. Work on a garment can't start until the order's
+-- deposit is paid unless the requirement is overridden (recorded in
+-- payment_audit_log with action 'deposit_override').
+
+ALTER TABLE shop_settings
+  ADD COLUMN IF NOT EXISTS deposit_type TEXT NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS deposit_fixed_cents INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS deposit_percent NUMERIC(5,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE shop_settings ADD CONSTRAINT shop_settings_deposit_type_check
+  CHECK (deposit_type IN ('none', 'fixed', 'percentage'));
+ALTER TABLE shop_settings ADD CONSTRAINT shop_settings_deposit_fixed_cents_check
+  CHECK (deposit_fixed_cents >= 0);
+ALTER TABLE shop_settings ADD CONSTRAINT shop_settings_deposit_percent_check
+  CHECK (deposit_percent >= 0 AND deposit_percent <= 100);
+
+-- NULL deposit_type means the service follows the shop policy
+ALTER TABLE services
+  ADD COLUMN IF NOT EXISTS deposit_type TEXT,
+  ADD COLUMN IF NOT EXISTS deposit_fixed_cents INTEGER,
+  ADD COLUMN IF NOT EXISTS deposit_percent NUMERIC(5,2);
+
+ALTER TABLE services ADD CONSTRAINT services_deposit_type_check
+  CHECK (deposit_type IS NULL OR deposit_type IN ('none', 'fixed', 'percentage'));
+ALTER TABLE services ADD CONSTRAINT services_deposit_fixed_cents_check
+  CHECK (deposit_fixed_cents IS NULL OR deposit_fixed_cents >= 0);
+ALTER TABLE services ADD CONSTRAINT services_deposit_percent_check
+  CHECK (deposit_percent IS NULL OR (deposit_percent >= 0 AND deposit_percent <= 100));
+
+-- Deposit overrides are looked up per order
+CREATE INDEX IF NOT EXISTS idx_payment_audit_log_deposit_override
+  ON payment_audit_log ((metadata->>'order_id'))
+  WHERE action = 'deposit_override';
@@ -0,0 +1,62 @@
+-- Migration: Discount codes
+-- Reusable discount definitions (percentage or fixed, for the whole order or
+-- one service) and the source/reason of the discount applied to each order
+
+CREATE TABLE IF NOT EXISTS discounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  percent NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (percent >= 0 AND percent <= 100),
+  amount_cents INTEGER NOT NULL DEFAULT 0 CHECK (amount_cents >= 0),
+  -- NULL applies to the whole order
+  service_id UUID REFERENCES services(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ,
+  -- NULL means unlimited
+  usage_limit INTEGER CHECK (usage_limit IS NULL OR usage_limit > 0),
+  times_used INTEGER NOT NULL DEFAULT 0 CHECK (times_used >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Codes are entered case-insensitively
+CREATE UNIQUE INDEX idx_discounts_shop_code
+  ON discounts(shop_id, upper(code));
+
+-- Security is enforced in server actions (Clerk auth)
+ALTER TABLE discounts DISABLE ROW LEVEL SECURITY;
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS discount_id UUID REFERENCES discounts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS discount_code TEXT,
+  ADD COLUMN IF NOT EXISTS discount_reason TEXT;
+
+-- Count a use of a discount, unless it is inactive, expired or used up.
+-- Returns false when the discount can't be redeemed.
+CREATE OR REPLACE FUNCTION redeem_discount(p_discount_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE discounts
+  SET times_used = times_used + 1,
+      updated_at = now()
+  WHERE id = p_discount_id
+    AND is_active
+    AND (expires_at IS NULL OR expires_at > now())
+    AND (usage_limit IS NULL OR times_used < usage_limit);
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Give back a use when a discount is removed from an order
+CREATE OR REPLACE FUNCTION release_discount(p_discount_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE discounts
+  SET times_used = GREATEST(times_used - 1, 0),
+      updated_at = now()
+  WHERE id = p_discount_id;
+END;
+$$ LANGUAGE plpgsql;
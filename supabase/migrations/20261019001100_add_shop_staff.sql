@@ -0,0 +1,133 @@
+-- Migration: Multi-staff shops
+-- A shop can have staff members besides its owner. users.shop_id is the shop
+-- a user works in (owners included) and users.role is their role in it:
+-- 'owner', 'seamstress' or 'front_desk'. Accounts from before this migration
+-- have role 'user' and are treated as owners of their own shop.
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS shop_id UUID REFERENCES shops(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_users_shop_id ON users(shop_id);
+
+-- Existing owners work in their own shop
+UPDATE users u
+SET shop_id = s.id,
+    role = 'owner'
+FROM shops s
+WHERE s.owner_user_id = u.id
+  AND u.shop_id IS NULL;
+
+CREATE TABLE IF NOT EXISTS staff_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('seamstress', 'front_desk')),
+  invited_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT (now() + INTERVAL '14 days'),
+  accepted_at TIMESTAMPTZ,
+  accepted_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One open invitation per email per shop
+CREATE UNIQUE INDEX idx_staff_invitations_open_email
+  ON staff_invitations(shop_id, lower(email))
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+-- Invitations are matched by email when the invited person signs up
+CREATE INDEX idx_staff_invitations_email
+  ON staff_invitations(lower(email))
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+-- Like the other shop tables, access is enforced in server actions (Clerk auth)
+ALTER TABLE staff_invitations DISABLE ROW LEVEL SECURITY;
+
+-- Work and appointments can be assigned to a staff member
+ALTER TABLE garments
+  ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE garment_services
+  ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_garments_assigned_to
+  ON garments(shop_id, assigned_to);
+CREATE INDEX IF NOT EXISTS idx_garment_services_assigned_to
+  ON garment_services(assigned_to);
+CREATE INDEX IF NOT EXISTS idx_appointments_assigned_to
+  ON appointments(shop_id, assigned_to);
+
+-- Expose the assignment for the garments board search
+CREATE OR REPLACE VIEW garments_with_clients AS
+SELECT
+    g.id,
+    g.order_id,
+    g.shop_id,
+    g.name,
+    g.stage,
+    g.photo_url,
+    g.image_cloud_id,
+    g.preset_icon_key,
+    g.preset_fill_color,
+    g.notes,
+    g.due_date,
+    g.event_date,
+    g.is_done,
+    g.created_at,
+    g.updated_at,
+    o.status AS order_status,
+    c.id AS client_id,
+    c.first_name AS client_first_name,
+    c.last_name AS client_last_name,
+    CASE
+        WHEN (c.id IS NOT NULL) THEN ((c.first_name || ' '::text) || c.last_name)
+        ELSE NULL::text
+    END AS client_full_name,
+    g.assigned_to
+FROM garments g
+LEFT JOIN orders o ON g.order_id = o.id
+LEFT JOIN clients c ON o.client_id = c.id;
+
+-- New users get their own shop unless they were invited to join one. The
+-- owner's membership is recorded on the user as well.
+CREATE OR REPLACE FUNCTION ensure_user_has_shop()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_shop_id UUID;
+BEGIN
+  IF NEW.shop_id IS NOT NULL
+    OR EXISTS (SELECT 1 FROM shops WHERE owner_user_id = NEW.id)
+    OR EXISTS (
+      SELECT 1 FROM staff_invitations
+      WHERE lower(email) = lower(NEW.email)
+        AND accepted_at IS NULL
+        AND revoked_at IS NULL
+        AND expires_at > NOW()
+    )
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO shops (
+    owner_user_id,
+    name,
+    email,
+    trial_countdown_enabled,
+    onboarding_completed,
+    trial_end_date
+  ) VALUES (
+    NEW.id,
+    COALESCE(NEW.first_name || ' ' || NEW.last_name || '''s Shop', NEW.email || '''s Shop', 'My Shop'),
+    NEW.email,
+    false,
+    false,
+    NOW() + INTERVAL '14 days'
+  )
+  RETURNING id INTO v_shop_id;
+
+  UPDATE users SET shop_id = v_shop_id, role = 'owner' WHERE id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,14 @@
+-- Migration: Estimated service durations
+-- Services can carry an estimated duration per unit so logged time
+-- (garment_service_time_entries) can be compared against it in the service
+-- time report. NULL means no estimate.
+
+ALTER TABLE services
+  ADD COLUMN IF NOT EXISTS estimated_minutes INTEGER;
+
+ALTER TABLE services ADD CONSTRAINT services_estimated_minutes_check
+  CHECK (estimated_minutes IS NULL OR estimated_minutes > 0);
+
+-- The report filters time entries by when they were logged
+CREATE INDEX IF NOT EXISTS idx_garment_service_time_entries_logged_at
+  ON garment_service_time_entries(logged_at);
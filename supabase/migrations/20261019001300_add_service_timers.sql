@@ -0,0 +1,24 @@
+-- Migration: Live service timers
+-- A running timer is an open entry on a garment service with its start time.
+-- Stopping it writes the garment_service_time_entries row and removes the
+-- timer. Each user has at most one running timer.
+
+CREATE TABLE IF NOT EXISTS garment_service_timers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES garment_services(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_garment_service_timers_service_id
+  ON garment_service_timers(service_id);
+
+-- Like the other shop tables, access is enforced in server actions (Clerk auth)
+ALTER TABLE garment_service_timers DISABLE ROW LEVEL SECURITY;
+
+-- Timers left running are stopped at this length
+ALTER TABLE shop_settings
+  ADD COLUMN IF NOT EXISTS max_timer_minutes INTEGER NOT NULL DEFAULT 480;
+
+ALTER TABLE shop_settings ADD CONSTRAINT shop_settings_max_timer_minutes_check
+  CHECK (max_timer_minutes > 0 AND max_timer_minutes <= 1440);
@@ -0,0 +1,202 @@
+-- Migration: Client measurements
+-- Dated measurement records per client, the shop's own measurement fields,
+-- and a copy of the measurements a garment was made to
+
+CREATE TABLE IF NOT EXISTS measurement_fields (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_measurement_fields_shop_label
+  ON measurement_fields(shop_id, lower(label));
+
+CREATE TABLE IF NOT EXISTS client_measurements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  measured_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  unit TEXT NOT NULL DEFAULT 'in' CHECK (unit IN ('in', 'cm')),
+  -- Field key (standard key or measurement_fields id) to value in the unit
+  "values" JSONB NOT NULL DEFAULT '{}'::JSONB,
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_measurements_client
+  ON client_measurements(client_id, measured_on DESC);
+
+-- Like the other shop tables, access is enforced in server actions (Clerk auth)
+ALTER TABLE measurement_fields DISABLE ROW LEVEL SECURITY;
+ALTER TABLE client_measurements DISABLE ROW LEVEL SECURITY;
+
+-- Labelled copy of the measurements taken when the garment was ordered, so
+-- later fittings and field changes don't alter it
+ALTER TABLE garments
+  ADD COLUMN IF NOT EXISTS measurement_snapshot JSONB;
+
+-- Order creation stores each garment's measurement snapshot. The old three and
+-- four argument versions are replaced by one with optional trailing arguments.
+DROP FUNCTION IF EXISTS create_order_with_payment_transaction(UUID, JSONB, JSONB);
+DROP FUNCTION IF EXISTS create_order_with_payment_transaction(UUID, JSONB, JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION create_order_with_payment_transaction(
+  p_shop_id UUID,
+  p_order_data JSONB,
+  p_payment_intent JSONB DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order_id UUID;
+  v_invoice_id UUID;
+  v_total_cents INTEGER := 0;
+  v_subtotal_cents INTEGER := 0;
+  v_tax_cents INTEGER;
+  v_garment JSONB;
+  v_garment_id UUID;
+  v_service JSONB;
+  v_line_items JSONB := '[]'::JSONB;
+  v_order_number TEXT;
+  v_invoice_result invoices;
+BEGIN
+  SELECT generate_order_number(p_shop_id) INTO v_order_number;
+
+  INSERT INTO orders (
+    shop_id,
+    client_id,
+    order_number,
+    status,
+    subtotal_cents,
+    discount_cents,
+    tax_cents,
+    total_cents
+  ) VALUES (
+    p_shop_id,
+    (p_order_data->>'clientId')::UUID,
+    v_order_number,
+    'new'::order_status,
+    0, -- Will update after calculating
+    (p_order_data->>'discountCents')::INTEGER,
+    0, -- Will update after calculating
+    0  -- Will update after calculating
+  ) RETURNING id INTO v_order_id;
+
+  -- Create garments and services
+  FOR v_garment IN SELECT * FROM jsonb_array_elements(p_order_data->'garments')
+  LOOP
+    INSERT INTO garments (
+      shop_id,
+      order_id,
+      name,
+      notes,
+      event_date,
+      due_date,
+      stage,
+      preset_icon_key,
+      preset_fill_color,
+      image_cloud_id,
+      photo_url,
+      measurement_snapshot
+    ) VALUES (
+      p_shop_id,
+      v_order_id,
+      v_garment->>'name',
+      v_garment->>'notes',
+      (v_garment->>'eventDate')::DATE,
+      (v_garment->>'dueDate')::DATE,
+      'New',
+      v_garment->>'presetIconKey',
+      v_garment->>'presetFillColor',
+      v_garment->>'imageCloudId',
+      v_garment->>'imageUrl',
+      v_garment->'measurementSnapshot'
+    ) RETURNING id INTO v_garment_id;
+
+    -- Insert services for this garment
+    FOR v_service IN SELECT * FROM jsonb_array_elements(v_garment->'services')
+    LOOP
+      INSERT INTO garment_services (
+        garment_id,
+        service_id,
+        name,
+        description,
+        quantity,
+        unit,
+        unit_price_cents
+      ) VALUES (
+        v_garment_id,
+        (v_service->>'serviceId')::UUID,
+        v_service->>'name',
+        v_service->>'description',
+        (v_service->>'quantity')::INTEGER,
+        v_service->>'unit',
+        (v_service->>'unitPriceCents')::INTEGER
+      );
+
+      -- Add to subtotal
+      v_subtotal_cents := v_subtotal_cents +
+        ((v_service->>'quantity')::INTEGER * (v_service->>'unitPriceCents')::INTEGER);
+
+      -- Build line item for invoice
+      v_line_items := v_line_items || jsonb_build_object(
+        'service_id', (SELECT id FROM garment_services WHERE garment_id = v_garment_id ORDER BY created_at DESC LIMIT 1),
+        'name', v_service->>'name',
+        'quantity', (v_service->>'quantity')::INTEGER,
+        'unit_price_cents', (v_service->>'unitPriceCents')::INTEGER,
+        'line_total_cents', ((v_service->>'quantity')::INTEGER * (v_service->>'unitPriceCents')::INTEGER)
+      );
+    END LOOP;
+  END LOOP;
+
+  -- Calculate totals
+  v_subtotal_cents := v_subtotal_cents - (p_order_data->>'discountCents')::INTEGER;
+  v_tax_cents := (v_subtotal_cents * (p_order_data->>'taxPercent')::NUMERIC / 100)::INTEGER;
+  v_total_cents := v_subtotal_cents + v_tax_cents;
+
+  UPDATE orders
+  SET
+    subtotal_cents = v_subtotal_cents,
+    tax_cents = v_tax_cents,
+    total_cents = v_total_cents
+  WHERE id = v_order_id;
+
+  -- Create invoice if payment intent exists
+  IF p_payment_intent IS NOT NULL THEN
+    SELECT * INTO v_invoice_result FROM create_invoice_with_number(
+      p_shop_id,
+      v_order_id,
+      (p_order_data->>'clientId')::UUID,
+      v_total_cents,
+      (p_payment_intent->>'depositAmount')::INTEGER,
+      v_line_items,
+      p_payment_intent->>'notes'
+    );
+    v_invoice_id := v_invoice_result.id;
+
+    -- Link services to invoice
+    UPDATE garment_services gs
+    SET invoice_id = v_invoice_id
+    FROM garments g
+    WHERE gs.garment_id = g.id
+    AND g.order_id = v_order_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', v_order_id,
+    'order_number', v_order_number,
+    'invoice', CASE
+      WHEN v_invoice_id IS NOT NULL THEN (
+        SELECT row_to_json(i) FROM invoices i WHERE i.id = v_invoice_id
+      )
+      ELSE NULL
+    END
+  );
+END;
+$$;
@@ -0,0 +1,39 @@
+-- Migration: Garment photo gallery
+-- Many photos per garment, tagged before / fitting / after. The cover photo is
+-- also kept in garments.image_cloud_id and photo_url, which the rest of the app
+-- displays.
+
+CREATE TABLE IF NOT EXISTS garment_photos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  garment_id UUID NOT NULL REFERENCES garments(id) ON DELETE CASCADE,
+  image_cloud_id TEXT NOT NULL,
+  photo_url TEXT NOT NULL,
+  tag TEXT NOT NULL DEFAULT 'before' CHECK (tag IN ('before', 'fitting', 'after')),
+  caption TEXT,
+  -- Gallery order, lowest first
+  position INTEGER NOT NULL DEFAULT 0,
+  is_cover BOOLEAN NOT NULL DEFAULT false,
+  taken_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_garment_photos_garment
+  ON garment_photos(garment_id, position);
+
+-- One cover per garment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_garment_photos_cover
+  ON garment_photos(garment_id) WHERE is_cover;
+
+-- Like the other shop tables, access is enforced in server actions (Clerk auth)
+ALTER TABLE garment_photos DISABLE ROW LEVEL SECURITY;
+
+-- Existing garment photos become the cover of their gallery
+INSERT INTO garment_photos (garment_id, image_cloud_id, photo_url, is_cover, taken_at)
+SELECT id, image_cloud_id, photo_url, true, COALESCE(updated_at, created_at, now())
+FROM garments
+WHERE image_cloud_id IS NOT NULL
+  AND photo_url IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM garment_photos p WHERE p.garment_id = garments.id
+  );
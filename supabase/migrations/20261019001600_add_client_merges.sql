@@ -0,0 +1,165 @@
+-- Migration: Client merges
+-- Folds a duplicate client into the record being kept. Orders, invoices (and
+-- so their payments), appointments, series, waitlist entries and measurements
+-- move to the kept client, the duplicate is archived, and the merge is recorded.
+
+CREATE TABLE IF NOT EXISTS client_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  surviving_client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  merged_client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  -- The duplicate as it was before the merge
+  merged_client JSONB NOT NULL,
+  -- Rows moved per table, e.g. {"orders": 2, "payments": 3}
+  moved_counts JSONB NOT NULL DEFAULT '{}'::JSONB,
+  merged_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  merged_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_merges_shop
+  ON client_merges(shop_id, merged_at DESC);
+CREATE INDEX IF NOT EXISTS idx_client_merges_surviving_client
+  ON client_merges(surviving_client_id);
+
+-- Like the other shop tables, access is enforced in server actions (Clerk auth)
+ALTER TABLE client_merges DISABLE ROW LEVEL SECURITY;
+
+-- Runs in one transaction: any exception rolls the whole merge back
+CREATE OR REPLACE FUNCTION merge_clients(
+  p_shop_id UUID,
+  p_surviving_client_id UUID,
+  p_merged_client_id UUID,
+  p_user_id UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_survivor clients%ROWTYPE;
+  v_duplicate clients%ROWTYPE;
+  v_balance_before BIGINT;
+  v_balance_after BIGINT;
+  v_orders INTEGER;
+  v_invoices INTEGER;
+  v_payments INTEGER;
+  v_appointments INTEGER;
+  v_series INTEGER;
+  v_waitlist INTEGER;
+  v_measurements INTEGER;
+  v_merge_id UUID;
+BEGIN
+  IF p_surviving_client_id = p_merged_client_id THEN
+    RAISE EXCEPTION 'A client cannot be merged into itself';
+  END IF;
+
+  -- Lock both records so nothing is added to the duplicate mid-merge
+  SELECT * INTO v_survivor FROM clients
+  WHERE id = p_surviving_client_id AND shop_id = p_shop_id
+  FOR UPDATE;
+
+  SELECT * INTO v_duplicate FROM clients
+  WHERE id = p_merged_client_id AND shop_id = p_shop_id
+  FOR UPDATE;
+
+  IF v_survivor.id IS NULL OR v_duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+
+  IF COALESCE(v_survivor.is_archived, FALSE) THEN
+    RAISE EXCEPTION 'The client being kept is archived';
+  END IF;
+
+  -- Balances are per order, so an invoice must belong to its order's client
+  IF EXISTS (
+    SELECT 1 FROM invoices i
+    JOIN orders o ON o.id = i.order_id
+    WHERE i.client_id IN (p_surviving_client_id, p_merged_client_id)
+      AND o.client_id IS DISTINCT FROM i.client_id
+  ) THEN
+    RAISE EXCEPTION 'An invoice does not match its order''s client';
+  END IF;
+
+  SELECT COALESCE(SUM(GREATEST(total_cents - COALESCE(paid_amount_cents, 0), 0)), 0)
+  INTO v_balance_before
+  FROM orders
+  WHERE shop_id = p_shop_id
+    AND client_id IN (p_surviving_client_id, p_merged_client_id);
+
+  SELECT COUNT(*) INTO v_payments
+  FROM payments p
+  JOIN invoices i ON i.id = p.invoice_id
+  WHERE i.client_id = p_merged_client_id;
+
+  UPDATE orders SET client_id = p_surviving_client_id, updated_at = now()
+  WHERE shop_id = p_shop_id AND client_id = p_merged_client_id;
+  GET DIAGNOSTICS v_orders = ROW_COUNT;
+
+  UPDATE invoices SET client_id = p_surviving_client_id, updated_at = now()
+  WHERE shop_id = p_shop_id AND client_id = p_merged_client_id;
+  GET DIAGNOSTICS v_invoices = ROW_COUNT;
+
+  UPDATE appointments SET client_id = p_surviving_client_id, updated_at = now()
+  WHERE shop_id = p_shop_id AND client_id = p_merged_client_id;
+  GET DIAGNOSTICS v_appointments = ROW_COUNT;
+
+  UPDATE appointment_series SET client_id = p_surviving_client_id
+  WHERE shop_id = p_shop_id AND client_id = p_merged_client_id;
+  GET DIAGNOSTICS v_series = ROW_COUNT;
+
+  UPDATE waitlist_entries SET client_id = p_surviving_client_id
+  WHERE shop_id = p_shop_id AND client_id = p_merged_client_id;
+  GET DIAGNOSTICS v_waitlist = ROW_COUNT;
+
+  UPDATE client_measurements SET client_id = p_surviving_client_id
+  WHERE shop_id = p_shop_id AND client_id = p_merged_client_id;
+  GET DIAGNOSTICS v_measurements = ROW_COUNT;
+
+  -- Moving records must not change what the client owes
+  SELECT COALESCE(SUM(GREATEST(total_cents - COALESCE(paid_amount_cents, 0), 0)), 0)
+  INTO v_balance_after
+  FROM orders
+  WHERE shop_id = p_shop_id AND client_id = p_surviving_client_id;
+
+  IF v_balance_after <> v_balance_before THEN
+    RAISE EXCEPTION 'Merging would change the outstanding balance (% to %)',
+      v_balance_before, v_balance_after;
+  END IF;
+
+  -- Keep details the survivor is missing
+  UPDATE clients SET
+    mailing_address = COALESCE(NULLIF(mailing_address, ''), v_duplicate.mailing_address),
+    notes = CASE
+      WHEN COALESCE(v_duplicate.notes, '') = '' THEN notes
+      WHEN COALESCE(notes, '') = '' THEN v_duplicate.notes
+      ELSE notes || E'\n\n' || v_duplicate.notes
+    END,
+    updated_at = now()
+  WHERE id = p_surviving_client_id;
+
+  IF NOT COALESCE(v_duplicate.is_archived, FALSE) THEN
+    PERFORM archive_client(p_merged_client_id, p_user_id);
+  END IF;
+
+  INSERT INTO client_merges (
+    shop_id, surviving_client_id, merged_client_id, merged_client,
+    moved_counts, merged_by
+  ) VALUES (
+    p_shop_id, p_surviving_client_id, p_merged_client_id, to_jsonb(v_duplicate),
+    jsonb_build_object(
+      'orders', v_orders,
+      'invoices', v_invoices,
+      'payments', v_payments,
+      'appointments', v_appointments,
+      'appointment_series', v_series,
+      'waitlist_entries', v_waitlist,
+      'client_measurements', v_measurements
+    ),
+    p_user_id
+  )
+  RETURNING id INTO v_merge_id;
+
+  RETURN v_merge_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_clients(UUID, UUID, UUID, UUID) TO authenticated;
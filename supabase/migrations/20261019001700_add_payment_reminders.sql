@@ -0,0 +1,92 @@
+-- Migration: Overdue payment reminders
+-- A shop's reminder schedule is a list of steps, each sent a number of days
+-- after an invoice became overdue (its due date passed, or a garment was
+-- picked up with money still owing). Each step carries its own editable
+-- email. Reminders stop once a payment is recorded on the invoice, and a
+-- client can be paused.
+
+ALTER TABLE shop_settings
+  ADD COLUMN IF NOT EXISTS payment_reminders_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS payment_reminder_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  days_after INTEGER NOT NULL CHECK (days_after > 0 AND days_after <= 365),
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT payment_reminder_steps_shop_days UNIQUE (shop_id, days_after)
+);
+
+CREATE TABLE IF NOT EXISTS payment_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  step_id UUID REFERENCES payment_reminder_steps(id) ON DELETE SET NULL,
+  -- Copied from the step so the history survives schedule edits
+  days_after INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'sending' CHECK (status IN ('sending', 'sent', 'failed')),
+  recipient_email TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  balance_cents INTEGER NOT NULL,
+  payment_link_url TEXT,
+  resend_id TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  sent_at TIMESTAMPTZ
+);
+
+-- Claims a step for an invoice so overlapping runs can't both send it;
+-- a failed attempt gives the claim back
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_reminders_invoice_step
+  ON payment_reminders(invoice_id, days_after)
+  WHERE status <> 'failed';
+
+CREATE INDEX IF NOT EXISTS idx_payment_reminders_invoice
+  ON payment_reminders(invoice_id, created_at DESC);
+
+-- Like the other shop tables, access is enforced in server actions (Clerk auth)
+ALTER TABLE payment_reminder_steps DISABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_reminders DISABLE ROW LEVEL SECURITY;
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS payment_reminders_stopped_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN invoices.payment_reminders_stopped_at IS 'Set when a payment is recorded; no further overdue reminders are sent for the invoice.';
+
+-- Clients the shop has asked not to chase; one row per paused client
+CREATE TABLE IF NOT EXISTS payment_reminder_pauses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT payment_reminder_pauses_client UNIQUE (client_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reminder_pauses_shop
+  ON payment_reminder_pauses(shop_id);
+
+ALTER TABLE payment_reminder_pauses DISABLE ROW LEVEL SECURITY;
+
+-- Allow reminder emails to be logged
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS email_logs_email_type_check;
+
+ALTER TABLE email_logs ADD CONSTRAINT email_logs_email_type_check
+  CHECK (email_type IN (
+    'appointment_scheduled',
+    'appointment_rescheduled',
+    'appointment_canceled',
+    'appointment_no_show',
+    'appointment_rescheduled_seamstress',
+    'appointment_canceled_seamstress',
+    'appointment_reminder',
+    'payment_link',
+    'payment_received',
+    'invoice_sent',
+    'appointment_confirmation_request',
+    'appointment_confirmed',
+    'garment_ready_for_pickup',
+    'waitlist_slot_offer',
+    'payment_reminder'
+  ));
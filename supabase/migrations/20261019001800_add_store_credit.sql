@@ -0,0 +1,237 @@
+-- Migration: Store credit and gift cards
+-- A ledger of credit a shop owes: per-client store credit (from overpayments,
+-- refunds or goodwill) and gift cards with codes. Issue entries add credit
+-- and track how much of it is left; apply entries spend it on an invoice
+-- (as a 'store_credit' or 'gift_card' payment); expire entries write off what
+-- was left when an issue entry passed its expiry date.
+
+CREATE TABLE IF NOT EXISTS gift_cards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  initial_amount_cents INTEGER NOT NULL CHECK (initial_amount_cents > 0),
+  -- Who the card was sold to or given to, when known
+  client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ,
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Codes are entered case-insensitively
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gift_cards_shop_code
+  ON gift_cards(shop_id, upper(code));
+
+CREATE TABLE IF NOT EXISTS store_credit_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  -- Exactly one of these says whose credit it is
+  client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+  gift_card_id UUID REFERENCES gift_cards(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('issue', 'apply', 'expire')),
+  -- Positive for issue entries, negative for apply and expire entries
+  amount_cents INTEGER NOT NULL,
+  -- Issue entries only: what hasn't been spent or expired yet
+  remaining_cents INTEGER CHECK (remaining_cents >= 0),
+  expires_at TIMESTAMPTZ,
+  reason TEXT,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  refund_id UUID REFERENCES refunds(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT store_credit_entries_owner CHECK (
+    (client_id IS NULL) <> (gift_card_id IS NULL)
+  ),
+  CONSTRAINT store_credit_entries_sign CHECK (
+    (entry_type = 'issue' AND amount_cents > 0 AND remaining_cents IS NOT NULL)
+    OR (entry_type <> 'issue' AND amount_cents < 0 AND remaining_cents IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_credit_entries_client
+  ON store_credit_entries(client_id, created_at DESC)
+  WHERE client_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_store_credit_entries_gift_card
+  ON store_credit_entries(gift_card_id, created_at DESC)
+  WHERE gift_card_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_store_credit_entries_expiring
+  ON store_credit_entries(shop_id, expires_at)
+  WHERE entry_type = 'issue' AND remaining_cents > 0;
+
+-- Like the other shop tables, access is enforced in server actions (Clerk auth)
+ALTER TABLE gift_cards DISABLE ROW LEVEL SECURITY;
+ALTER TABLE store_credit_entries DISABLE ROW LEVEL SECURITY;
+
+-- Credit and gift cards are ways to pay, and a refund can go back as credit
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_payment_method_check;
+ALTER TABLE payments ADD CONSTRAINT payments_payment_method_check
+  CHECK (payment_method IN (
+    'stripe', 'cash', 'external_pos', 'check', 'store_credit', 'gift_card'
+  ));
+
+ALTER TABLE refunds DROP CONSTRAINT IF EXISTS refunds_refund_method_check;
+ALTER TABLE refunds ADD CONSTRAINT refunds_refund_method_check
+  CHECK (refund_method IN ('stripe', 'cash', 'external_pos', 'other', 'store_credit'));
+
+ALTER TABLE payment_audit_logs DROP CONSTRAINT IF EXISTS payment_audit_logs_action_check;
+ALTER TABLE payment_audit_logs ADD CONSTRAINT payment_audit_logs_action_check
+  CHECK (action IN ('created', 'confirmed', 'cancelled', 'failed', 'completed', 'refunded'));
+
+-- Write off whatever is left on the shop's expired credit
+CREATE OR REPLACE FUNCTION expire_store_credit(p_shop_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_entry store_credit_entries%ROWTYPE;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_entry IN
+    SELECT * FROM store_credit_entries
+    WHERE shop_id = p_shop_id
+      AND entry_type = 'issue'
+      AND remaining_cents > 0
+      AND expires_at <= now()
+    FOR UPDATE
+  LOOP
+    INSERT INTO store_credit_entries (
+      shop_id, client_id, gift_card_id, entry_type, amount_cents, reason
+    ) VALUES (
+      v_entry.shop_id, v_entry.client_id, v_entry.gift_card_id, 'expire',
+      -v_entry.remaining_cents, 'Credit expired'
+    );
+
+    UPDATE store_credit_entries SET remaining_cents = 0 WHERE id = v_entry.id;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Pay an invoice from the client's store credit, or from a gift card when
+-- one is given. Spends the credit that expires soonest first. Runs in one
+-- transaction, so the payment and the ledger can't disagree.
+CREATE OR REPLACE FUNCTION redeem_store_credit(
+  p_invoice_id UUID,
+  p_payment_type TEXT,
+  p_amount_cents INTEGER,
+  p_user_id UUID,
+  p_gift_card_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_gift_card gift_cards%ROWTYPE;
+  v_method TEXT := CASE WHEN p_gift_card_id IS NULL THEN 'store_credit' ELSE 'gift_card' END;
+  v_entry store_credit_entries%ROWTYPE;
+  v_available INTEGER;
+  v_left INTEGER := p_amount_cents;
+  v_take INTEGER;
+  v_payment_id UUID;
+BEGIN
+  IF p_amount_cents <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF p_gift_card_id IS NOT NULL THEN
+    SELECT * INTO v_gift_card
+    FROM gift_cards
+    WHERE id = p_gift_card_id AND shop_id = v_invoice.shop_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Gift card not found';
+    END IF;
+  END IF;
+
+  PERFORM expire_store_credit(v_invoice.shop_id);
+
+  SELECT COALESCE(SUM(remaining_cents), 0) INTO v_available
+  FROM store_credit_entries
+  WHERE entry_type = 'issue'
+    AND remaining_cents > 0
+    AND (
+      (p_gift_card_id IS NULL AND client_id = v_invoice.client_id)
+      OR gift_card_id = p_gift_card_id
+    );
+
+  IF v_available < p_amount_cents THEN
+    RAISE EXCEPTION 'Not enough credit: % available', v_available;
+  END IF;
+
+  PERFORM process_manual_payment(
+    p_invoice_id,
+    p_payment_type,
+    v_method,
+    p_amount_cents,
+    v_gift_card.code,
+    p_notes,
+    p_user_id::TEXT
+  );
+
+  -- process_manual_payment doesn't return the row; it's the newest one
+  SELECT id INTO v_payment_id
+  FROM payments
+  WHERE invoice_id = p_invoice_id AND payment_method = v_method
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  FOR v_entry IN
+    SELECT * FROM store_credit_entries
+    WHERE entry_type = 'issue'
+      AND remaining_cents > 0
+      AND (
+        (p_gift_card_id IS NULL AND client_id = v_invoice.client_id)
+        OR gift_card_id = p_gift_card_id
+      )
+    ORDER BY expires_at ASC NULLS LAST, created_at ASC
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_left = 0;
+    v_take := LEAST(v_entry.remaining_cents, v_left);
+    UPDATE store_credit_entries
+    SET remaining_cents = remaining_cents - v_take
+    WHERE id = v_entry.id;
+    v_left := v_left - v_take;
+  END LOOP;
+
+  INSERT INTO store_credit_entries (
+    shop_id, client_id, gift_card_id, entry_type, amount_cents, reason,
+    invoice_id, payment_id, created_by
+  ) VALUES (
+    v_invoice.shop_id,
+    CASE WHEN p_gift_card_id IS NULL THEN v_invoice.client_id END,
+    p_gift_card_id,
+    'apply',
+    -p_amount_cents,
+    'Applied to invoice ' || v_invoice.invoice_number,
+    p_invoice_id,
+    v_payment_id,
+    p_user_id
+  );
+
+  RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A merged duplicate's credit belongs to the client that was kept
+CREATE OR REPLACE FUNCTION move_store_credit_on_client_merge()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE store_credit_entries
+  SET client_id = NEW.surviving_client_id
+  WHERE client_id = NEW.merged_client_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS client_merges_move_store_credit ON client_merges;
+CREATE TRIGGER client_merges_move_store_credit
+  AFTER INSERT ON client_merges
+  FOR EACH ROW
+  EXECUTE FUNCTION move_store_credit_on_client_merge();
@@ -0,0 +1,10 @@
+-- Migration: Tips on card payments
+-- A tip is charged along with a card payment but kept out of amount_cents,
+-- so invoice balances, refunds and service revenue never include it. The
+-- card is charged amount_cents + tip_cents.
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS tip_cents INTEGER NOT NULL DEFAULT 0
+    CHECK (tip_cents >= 0);
+
+COMMENT ON COLUMN payments.tip_cents IS 'Gratuity charged on top of amount_cents; not applied to the invoice';
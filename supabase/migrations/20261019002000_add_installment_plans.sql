@@ -0,0 +1,53 @@
+-- Migration: Installment plans
+-- An invoice can be split into installments, each with its own amount and
+-- due date. Payments aren't tied to a particular installment: what's been
+-- paid on the invoice covers installments in order, so whether each one is
+-- paid, due or late is worked out from the invoice's payments. Invoices with
+-- a plan have invoice_type 'installment'.
+
+CREATE TABLE IF NOT EXISTS invoice_installments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  sequence INTEGER NOT NULL CHECK (sequence > 0),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  due_date DATE NOT NULL,
+  -- When the upcoming-installment reminder went out (or is being sent)
+  reminder_sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT invoice_installments_invoice_sequence UNIQUE (invoice_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_installments_shop_due
+  ON invoice_installments(shop_id, due_date);
+
+-- Like the other shop tables, access is enforced in server actions (Clerk auth)
+ALTER TABLE invoice_installments DISABLE ROW LEVEL SECURITY;
+
+-- A payment link can be for a single installment rather than the whole balance
+ALTER TABLE payment_links
+  ADD COLUMN IF NOT EXISTS installment_id UUID
+    REFERENCES invoice_installments(id) ON DELETE SET NULL;
+
+-- Allow installment link and reminder emails to be logged
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS email_logs_email_type_check;
+
+ALTER TABLE email_logs ADD CONSTRAINT email_logs_email_type_check
+  CHECK (email_type IN (
+    'appointment_scheduled',
+    'appointment_rescheduled',
+    'appointment_canceled',
+    'appointment_no_show',
+    'appointment_rescheduled_seamstress',
+    'appointment_canceled_seamstress',
+    'appointment_reminder',
+    'payment_link',
+    'payment_received',
+    'invoice_sent',
+    'appointment_confirmation_request',
+    'appointment_confirmed',
+    'garment_ready_for_pickup',
+    'waitlist_slot_offer',
+    'payment_reminder',
+    'installment_reminder'
+  ));
@@ -0,0 +1,47 @@
+-- Migration: Book an appointment slot atomically
+-- Checking for a conflict and then inserting lets two bookings for the same
+-- time both pass the check. Bookings made by clients themselves (the public
+-- booking page and waitlist offers) go through this function instead, which
+-- serializes bookings for a shop and day with a transaction-level advisory
+-- lock before checking, so the second one sees the first and is refused.
+
+CREATE OR REPLACE FUNCTION book_appointment_slot(
+  p_shop_id UUID,
+  p_client_id UUID,
+  p_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_start_at TIMESTAMPTZ,
+  p_end_at TIMESTAMPTZ,
+  p_type TEXT,
+  p_status appointment_status,
+  p_notes TEXT DEFAULT NULL,
+  p_allow_overlap BOOLEAN DEFAULT FALSE
+)
+RETURNS appointments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_appointment appointments;
+BEGIN
+  PERFORM pg_advisory_xact_lock(
+    hashtextextended('book_appointment_slot:' || p_shop_id::TEXT || ':' || p_date::TEXT, 0)
+  );
+
+  IF NOT p_allow_overlap
+    AND check_appointment_conflict(p_shop_id, p_date, p_start_time, p_end_time) THEN
+    RAISE EXCEPTION 'Time slot conflict detected' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO appointments (
+    shop_id, client_id, date, start_time, end_time, start_at, end_at,
+    type, notes, status
+  ) VALUES (
+    p_shop_id, p_client_id, p_date, p_start_time, p_end_time, p_start_at,
+    p_end_at, p_type, p_notes, p_status
+  )
+  RETURNING * INTO v_appointment;
+
+  RETURN v_appointment;
+END;
+$$;
@@ -0,0 +1,174 @@
+-- Migration: Check both parts of the balance when merging clients
+-- merge_clients compared the owed total of both clients before the merge with
+-- the kept client's after it, but every order moves, so the two always
+-- matched. A client's outstanding balance is what their orders owe less their
+-- available store credit, and credit moves separately (in the
+-- client_merges_move_store_credit trigger). The merge now checks both parts
+-- once everything has moved, so credit left behind or dropped fails the merge.
+
+-- What the clients' orders still owe; overpaid orders count as nothing owed
+CREATE OR REPLACE FUNCTION client_owed_cents(p_shop_id UUID, p_client_ids UUID[])
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(SUM(GREATEST(total_cents - COALESCE(paid_amount_cents, 0), 0)), 0)
+  FROM orders
+  WHERE shop_id = p_shop_id AND client_id = ANY(p_client_ids);
+$$;
+
+-- Unspent, unexpired store credit issued to the clients
+CREATE OR REPLACE FUNCTION client_available_credit_cents(p_shop_id UUID, p_client_ids UUID[])
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(SUM(remaining_cents), 0)
+  FROM store_credit_entries
+  WHERE shop_id = p_shop_id
+    AND client_id = ANY(p_client_ids)
+    AND entry_type = 'issue'
+    AND (expires_at IS NULL OR expires_at > now());
+$$;
+
+CREATE OR REPLACE FUNCTION merge_clients(
+  p_shop_id UUID,
+  p_surviving_client_id UUID,
+  p_merged_client_id UUID,
+  p_user_id UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_survivor clients%ROWTYPE;
+  v_duplicate clients%ROWTYPE;
+  v_owed_before BIGINT;
+  v_owed_after BIGINT;
+  v_credit_before BIGINT;
+  v_credit_after BIGINT;
+  v_orders INTEGER;
+  v_invoices INTEGER;
+  v_payments INTEGER;
+  v_appointments INTEGER;
+  v_series INTEGER;
+  v_waitlist INTEGER;
+  v_measurements INTEGER;
+  v_merge_id UUID;
+BEGIN
+  IF p_surviving_client_id = p_merged_client_id THEN
+    RAISE EXCEPTION 'A client cannot be merged into itself';
+  END IF;
+
+  -- Lock both records so nothing is added to the duplicate mid-merge
+  SELECT * INTO v_survivor FROM clients
+  WHERE id = p_surviving_client_id AND shop_id = p_shop_id
+  FOR UPDATE;
+
+  SELECT * INTO v_duplicate FROM clients
+  WHERE id = p_merged_client_id AND shop_id = p_shop_id
+  FOR UPDATE;
+
+  IF v_survivor.id IS NULL OR v_duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+
+  IF COALESCE(v_survivor.is_archived, FALSE) THEN
+    RAISE EXCEPTION 'The client being kept is archived';
+  END IF;
+
+  -- Balances are per order, so an invoice must belong to its order's client
+  IF EXISTS (
+    SELECT 1 FROM invoices i
+    JOIN orders o ON o.id = i.order_id
+    WHERE i.client_id IN (p_surviving_client_id, p_merged_client_id)
+      AND o.client_id IS DISTINCT FROM i.client_id
+  ) THEN
+    RAISE EXCEPTION 'An invoice does not match its order''s client';
+  END IF;
+
+  v_owed_before := client_owed_cents(p_shop_id, ARRAY[p_surviving_client_id, p_merged_client_id]);
+  v_credit_before := client_available_credit_cents(p_shop_id, ARRAY[p_surviving_client_id, p_merged_client_id]);
+
+  SELECT COUNT(*) INTO v_payments
+  FROM payments p
+  JOIN invoices i ON i.id = p.invoice_id
+  WHERE i.client_id = p_merged_client_id;
+
+  UPDATE orders SET client_id = p_surviving_client_id, updated_at = now()
+  WHERE shop_id = p_shop_id AND client_id = p_merged_client_id;
+  GET DIAGNOSTICS v_orders = ROW_COUNT;
+
+  UPDATE invoices SET client_id = p_surviving_client_id, updated_at = now()
+  WHERE shop_id = p_shop_id AND client_id = p_merged_client_id;
+  GET DIAGNOSTICS v_invoices = ROW_COUNT;
+
+  UPDATE appointments SET client_id = p_surviving_client_id, updated_at = now()
+  WHERE shop_id = p_shop_id AND client_id = p_merged_client_id;
+  GET DIAGNOSTICS v_appointments = ROW_COUNT;
+
+  UPDATE appointment_series SET client_id = p_surviving_client_id
+  WHERE shop_id = p_shop_id AND client_id = p_merged_client_id;
+  GET DIAGNOSTICS v_series = ROW_COUNT;
+
+  UPDATE waitlist_entries SET client_id = p_surviving_client_id
+  WHERE shop_id = p_shop_id AND client_id = p_merged_client_id;
+  GET DIAGNOSTICS v_waitlist = ROW_COUNT;
+
+  UPDATE client_measurements SET client_id = p_surviving_client_id
+  WHERE shop_id = p_shop_id AND client_id = p_merged_client_id;
+  GET DIAGNOSTICS v_measurements = ROW_COUNT;
+
+  -- Keep details the survivor is missing
+  UPDATE clients SET
+    mailing_address = COALESCE(NULLIF(mailing_address, ''), v_duplicate.mailing_address),
+    notes = CASE
+      WHEN COALESCE(v_duplicate.notes, '') = '' THEN notes
+      WHEN COALESCE(notes, '') = '' THEN v_duplicate.notes
+      ELSE notes || E'\n\n' || v_duplicate.notes
+    END,
+    updated_at = now()
+  WHERE id = p_surviving_client_id;
+
+  IF NOT COALESCE(v_duplicate.is_archived, FALSE) THEN
+    PERFORM archive_client(p_merged_client_id, p_user_id);
+  END IF;
+
+  INSERT INTO client_merges (
+    shop_id, surviving_client_id, merged_client_id, merged_client,
+    moved_counts, merged_by
+  ) VALUES (
+    p_shop_id, p_surviving_client_id, p_merged_client_id, to_jsonb(v_duplicate),
+    jsonb_build_object(
+      'orders', v_orders,
+      'invoices', v_invoices,
+      'payments', v_payments,
+      'appointments', v_appointments,
+      'appointment_series', v_series,
+      'waitlist_entries', v_waitlist,
+      'client_measurements', v_measurements
+    ),
+    p_user_id
+  )
+  RETURNING id INTO v_merge_id;
+
+  -- The kept client must now owe, and hold in credit, what the two did
+  -- together. Store credit moves in a trigger on client_merges, so this runs
+  -- after the merge is recorded; raising here rolls all of it back.
+  v_owed_after := client_owed_cents(p_shop_id, ARRAY[p_surviving_client_id]);
+  v_credit_after := client_available_credit_cents(p_shop_id, ARRAY[p_surviving_client_id]);
+
+  IF v_owed_after <> v_owed_before THEN
+    RAISE EXCEPTION 'Merging would change the amount owed (% to %)',
+      v_owed_before, v_owed_after;
+  END IF;
+
+  IF v_credit_after <> v_credit_before THEN
+    RAISE EXCEPTION 'Merging would change the available store credit (% to %)',
+      v_credit_before, v_credit_after;
+  END IF;
+
+  RETURN v_merge_id;
+END;
+$$;
+
@@ -0,0 +1,8 @@
+-- Migration: Resume payment reminders after a partial payment
+-- Any payment used to end an invoice's reminder schedule for good, so paying
+-- a deposit or part of the balance meant the rest was never chased. A payment
+-- now only drops the steps that were already due; later steps still go out
+-- while money is owed. The column keeps its name and records the latest
+-- payment.
+
+COMMENT ON COLUMN invoices.payment_reminders_stopped_at IS 'When the latest payment was recorded; reminder steps already due by then are not sent.';
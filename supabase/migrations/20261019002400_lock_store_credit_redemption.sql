@@ -0,0 +1,147 @@
+-- Migration: Lock store credit while redeeming it
+-- redeem_store_credit summed the available credit without locking it, so two
+-- redemptions at once could both see enough and spend the same credit, with
+-- the second quietly taking less than it paid for. The credit rows are now
+-- locked before they're counted, the spend loop must cover the whole amount,
+-- and the invoice is locked so credit can't pay more than is due on it.
+
+-- Pay an invoice from the client's store credit, or from a gift card when
+-- one is given. Spends the credit that expires soonest first. Runs in one
+-- transaction, so the payment and the ledger can't disagree.
+CREATE OR REPLACE FUNCTION redeem_store_credit(
+  p_invoice_id UUID,
+  p_payment_type TEXT,
+  p_amount_cents INTEGER,
+  p_user_id UUID,
+  p_gift_card_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_gift_card gift_cards%ROWTYPE;
+  v_method TEXT := CASE WHEN p_gift_card_id IS NULL THEN 'store_credit' ELSE 'gift_card' END;
+  v_entry store_credit_entries%ROWTYPE;
+  v_available INTEGER;
+  v_due INTEGER;
+  v_left INTEGER := p_amount_cents;
+  v_take INTEGER;
+  v_payment_id UUID;
+BEGIN
+  IF p_amount_cents <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  -- Locked so two redemptions can't both fit under the same balance
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  SELECT v_invoice.amount_cents - COALESCE(
+    SUM(amount_cents - COALESCE(refunded_amount_cents, 0)), 0
+  )
+  INTO v_due
+  FROM payments
+  WHERE invoice_id = p_invoice_id
+    AND status IN ('completed', 'partially_refunded', 'refunded')
+    AND payment_type <> 'refund';
+
+  IF p_amount_cents > v_due THEN
+    RAISE EXCEPTION 'Amount is more than the % due', GREATEST(v_due, 0);
+  END IF;
+
+  IF p_gift_card_id IS NOT NULL THEN
+    SELECT * INTO v_gift_card
+    FROM gift_cards
+    WHERE id = p_gift_card_id AND shop_id = v_invoice.shop_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Gift card not found';
+    END IF;
+  END IF;
+
+  PERFORM expire_store_credit(v_invoice.shop_id);
+
+  -- Lock the credit before counting it, so a concurrent redemption waits
+  -- instead of spending the same cents
+  PERFORM 1
+  FROM store_credit_entries
+  WHERE entry_type = 'issue'
+    AND remaining_cents > 0
+    AND (
+      (p_gift_card_id IS NULL AND client_id = v_invoice.client_id)
+      OR gift_card_id = p_gift_card_id
+    )
+  FOR UPDATE;
+
+  SELECT COALESCE(SUM(remaining_cents), 0) INTO v_available
+  FROM store_credit_entries
+  WHERE entry_type = 'issue'
+    AND remaining_cents > 0
+    AND (
+      (p_gift_card_id IS NULL AND client_id = v_invoice.client_id)
+      OR gift_card_id = p_gift_card_id
+    );
+
+  IF v_available < p_amount_cents THEN
+    RAISE EXCEPTION 'Not enough credit: % available', v_available;
+  END IF;
+
+  PERFORM process_manual_payment(
+    p_invoice_id,
+    p_payment_type,
+    v_method,
+    p_amount_cents,
+    v_gift_card.code,
+    p_notes,
+    p_user_id::TEXT
+  );
+
+  -- process_manual_payment doesn't return the row; it's the newest one
+  SELECT id INTO v_payment_id
+  FROM payments
+  WHERE invoice_id = p_invoice_id AND payment_method = v_method
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  FOR v_entry IN
+    SELECT * FROM store_credit_entries
+    WHERE entry_type = 'issue'
+      AND remaining_cents > 0
+      AND (
+        (p_gift_card_id IS NULL AND client_id = v_invoice.client_id)
+        OR gift_card_id = p_gift_card_id
+      )
+    ORDER BY expires_at ASC NULLS LAST, created_at ASC
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_left = 0;
+    v_take := LEAST(v_entry.remaining_cents, v_left);
+    UPDATE store_credit_entries
+    SET remaining_cents = remaining_cents - v_take
+    WHERE id = v_entry.id;
+    v_left := v_left - v_take;
+  END LOOP;
+
+  IF v_left > 0 THEN
+    RAISE EXCEPTION 'Not enough credit: % short', v_left;
+  END IF;
+
+  INSERT INTO store_credit_entries (
+    shop_id, client_id, gift_card_id, entry_type, amount_cents, reason,
+    invoice_id, payment_id, created_by
+  ) VALUES (
+    v_invoice.shop_id,
+    CASE WHEN p_gift_card_id IS NULL THEN v_invoice.client_id END,
+    p_gift_card_id,
+    'apply',
+    -p_amount_cents,
+    'Applied to invoice ' || v_invoice.invoice_number,
+    p_invoice_id,
+    v_payment_id,
+    p_user_id
+  );
+
+  RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,107 @@
+-- Migration: Installment plan fixes
+-- Overdue reminders were tracked per invoice, so once installment 1 had been
+-- chased, a later late installment never got the same steps. Reminders now
+-- record which installment they were for, and each installment works through
+-- the schedule on its own.
+--
+-- Saving or removing a plan was several separate writes, so a failure part
+-- way could leave an invoice with no installments or with links to ones that
+-- no longer exist. Both now happen in one function each. A plan also replaces
+-- the invoice's due date, which is kept so removing the plan can put it back.
+
+ALTER TABLE payment_reminders
+  ADD COLUMN IF NOT EXISTS installment_id UUID
+    REFERENCES invoice_installments(id) ON DELETE SET NULL;
+
+-- Same claim as before, per installment; invoices without a plan have none
+DROP INDEX IF EXISTS idx_payment_reminders_invoice_step;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_reminders_invoice_installment_step
+  ON payment_reminders(invoice_id, installment_id, days_after)
+  NULLS NOT DISTINCT
+  WHERE status <> 'failed';
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS installment_original_due_date TIMESTAMPTZ;
+
+COMMENT ON COLUMN invoices.installment_original_due_date IS 'The due date the invoice had before its payment plan, restored if the plan is removed.';
+
+-- Replace an invoice's installments with p_installments, an array of
+-- {"amount_cents", "due_date"} in order. Links sent for the old installments
+-- are retired, and the invoice is due in full when its last installment is.
+CREATE OR REPLACE FUNCTION save_installment_plan(
+  p_invoice_id UUID,
+  p_installments JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  UPDATE payment_links SET status = 'expired'
+  WHERE invoice_id = p_invoice_id
+    AND status = 'active'
+    AND installment_id IS NOT NULL;
+
+  DELETE FROM invoice_installments WHERE invoice_id = p_invoice_id;
+
+  INSERT INTO invoice_installments (
+    shop_id, invoice_id, sequence, amount_cents, due_date
+  )
+  SELECT
+    v_invoice.shop_id,
+    p_invoice_id,
+    item.position::INTEGER,
+    (item.value->>'amount_cents')::INTEGER,
+    (item.value->>'due_date')::DATE
+  FROM jsonb_array_elements(p_installments) WITH ORDINALITY AS item(value, position);
+
+  UPDATE invoices SET
+    -- Only the first plan's invoice has the real original date
+    installment_original_due_date = CASE
+      WHEN v_invoice.invoice_type = 'installment' THEN installment_original_due_date
+      ELSE due_date
+    END,
+    invoice_type = 'installment',
+    due_date = (
+      SELECT MAX(due_date) FROM invoice_installments WHERE invoice_id = p_invoice_id
+    ),
+    updated_at = now()
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+-- Take an invoice off its payment plan and give it back its own due date
+CREATE OR REPLACE FUNCTION remove_installment_plan(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM 1 FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  UPDATE payment_links SET status = 'expired'
+  WHERE invoice_id = p_invoice_id
+    AND status = 'active'
+    AND installment_id IS NOT NULL;
+
+  DELETE FROM invoice_installments WHERE invoice_id = p_invoice_id;
+
+  UPDATE invoices SET
+    invoice_type = NULL,
+    due_date = installment_original_due_date,
+    installment_original_due_date = NULL,
+    updated_at = now()
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_installment_plan(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_installment_plan(UUID) TO authenticated;
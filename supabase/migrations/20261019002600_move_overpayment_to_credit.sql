@@ -0,0 +1,135 @@
+-- Migration: Move an invoice's overpayment to store credit in one step
+-- Moving an overpayment refunded one payment at a time from the app, for
+-- whatever amount the browser sent. A failure part way left some payments
+-- refunded and others not, and nothing stopped more than the overpayment
+-- being turned into credit. The function below works out the overpayment
+-- itself, refuses more than that, and refunds every payment it needs to in
+-- one transaction.
+
+-- Refund p_amount_cents of what the client overpaid on an invoice to their
+-- store credit, from the newest payments first. Returns one row per payment
+-- refunded, so each refund can be audited. Those columns share names with
+-- payments and refunds columns, so queries here read the table columns.
+CREATE OR REPLACE FUNCTION move_overpayment_to_credit(
+  p_invoice_id UUID,
+  p_amount_cents INTEGER,
+  p_user_id UUID
+)
+RETURNS TABLE (payment_id UUID, refund_id UUID, amount_cents INTEGER) AS $$
+#variable_conflict use_column
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_payment payments%ROWTYPE;
+  v_overpaid INTEGER;
+  v_left INTEGER := p_amount_cents;
+  v_take INTEGER;
+  v_refunded INTEGER;
+  v_refund_id UUID;
+  v_reason TEXT;
+BEGIN
+  IF p_amount_cents <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  -- Locked so a payment or another move can't change the overpayment
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  SELECT COALESCE(
+    SUM(p.amount_cents - COALESCE(p.refunded_amount_cents, 0)), 0
+  ) - v_invoice.amount_cents
+  INTO v_overpaid
+  FROM payments p
+  WHERE p.invoice_id = p_invoice_id
+    AND p.status IN ('completed', 'partially_refunded', 'refunded')
+    AND p.payment_type <> 'refund';
+
+  IF p_amount_cents > v_overpaid THEN
+    RAISE EXCEPTION 'Amount is more than the % overpaid', GREATEST(v_overpaid, 0);
+  END IF;
+
+  v_reason := 'Overpayment on invoice ' || v_invoice.invoice_number;
+
+  FOR v_payment IN
+    SELECT * FROM payments p
+    WHERE p.invoice_id = p_invoice_id
+      AND p.status IN ('completed', 'partially_refunded')
+      AND p.payment_type <> 'refund'
+      AND p.amount_cents > COALESCE(p.refunded_amount_cents, 0)
+    ORDER BY p.created_at DESC
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_left = 0;
+    v_take := LEAST(
+      v_payment.amount_cents - COALESCE(v_payment.refunded_amount_cents, 0),
+      v_left
+    );
+    v_refunded := COALESCE(v_payment.refunded_amount_cents, 0) + v_take;
+
+    INSERT INTO refunds (
+      payment_id, amount_cents, reason, refund_type, initiated_by,
+      merchant_notes, status, processed_at, refund_method
+    ) VALUES (
+      v_payment.id,
+      v_take,
+      v_reason,
+      CASE WHEN v_take = v_payment.amount_cents THEN 'full' ELSE 'partial' END,
+      p_user_id,
+      v_reason,
+      'succeeded',
+      now(),
+      'store_credit'
+    )
+    RETURNING id INTO v_refund_id;
+
+    UPDATE payments SET
+      status = CASE
+        WHEN v_refunded = v_payment.amount_cents THEN 'refunded'
+        ELSE 'partially_refunded'
+      END,
+      refunded_amount_cents = v_refunded,
+      refunded_at = now(),
+      refunded_by = p_user_id,
+      refund_reason = v_reason,
+      stripe_metadata = COALESCE(v_payment.stripe_metadata, '{}'::JSONB) || jsonb_build_object(
+        'manual_refund', true,
+        'refund_method', 'store_credit',
+        'refunded_amount_cents', v_refunded,
+        'last_refund_amount', v_take,
+        'refunded_at', now(),
+        'refund_reason', v_reason,
+        'refund_count', COALESCE((v_payment.stripe_metadata->>'refund_count')::INTEGER, 0) + 1
+      )
+    WHERE id = v_payment.id;
+
+    INSERT INTO store_credit_entries (
+      shop_id, client_id, entry_type, amount_cents, remaining_cents, reason,
+      invoice_id, payment_id, refund_id, created_by
+    ) VALUES (
+      v_invoice.shop_id,
+      v_invoice.client_id,
+      'issue',
+      v_take,
+      v_take,
+      v_reason,
+      p_invoice_id,
+      v_payment.id,
+      v_refund_id,
+      p_user_id
+    );
+
+    payment_id := v_payment.id;
+    refund_id := v_refund_id;
+    amount_cents := v_take;
+    RETURN NEXT;
+
+    v_left := v_left - v_take;
+  END LOOP;
+
+  IF v_left > 0 THEN
+    RAISE EXCEPTION 'Not enough paid on this invoice: % short', v_left;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,106 @@
+-- Migration: Keep installments, and their reminders, when a plan is saved
+-- Saving a plan deleted every installment and inserted new ones. Their
+-- reminders lost their installment_id, so several of them could end up as
+-- the same invoice-level step and break the unique index, which stopped the
+-- plan from being edited or removed. The new installments also had no
+-- reminders, so the ones already sent went out again.
+--
+-- Reminders for an installment now go with it when it is deleted, and saving
+-- a plan updates the installments it already has in place. Only the ones
+-- past the end of the new plan are deleted.
+
+ALTER TABLE payment_reminders
+  DROP CONSTRAINT IF EXISTS payment_reminders_installment_id_fkey;
+ALTER TABLE payment_reminders
+  ADD CONSTRAINT payment_reminders_installment_id_fkey
+    FOREIGN KEY (installment_id) REFERENCES invoice_installments(id) ON DELETE CASCADE;
+
+-- Set an invoice's installments to p_installments, an array of
+-- {"amount_cents", "due_date"} in order. Installment n keeps its id, and so
+-- its reminders, across saves. Links for an installment whose amount changed
+-- or that was dropped are retired, and the invoice is due in full when its
+-- last installment is.
+CREATE OR REPLACE FUNCTION save_installment_plan(
+  p_invoice_id UUID,
+  p_installments JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_item RECORD;
+  v_amount INTEGER;
+  v_due_date DATE;
+  v_current invoice_installments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  -- Installments past the end of the new plan
+  UPDATE payment_links SET status = 'expired'
+  WHERE invoice_id = p_invoice_id
+    AND status = 'active'
+    AND installment_id IN (
+      SELECT id FROM invoice_installments
+      WHERE invoice_id = p_invoice_id
+        AND sequence > jsonb_array_length(p_installments)
+    );
+
+  DELETE FROM invoice_installments
+  WHERE invoice_id = p_invoice_id
+    AND sequence > jsonb_array_length(p_installments);
+
+  FOR v_item IN
+    SELECT item.value, item.position::INTEGER AS sequence
+    FROM jsonb_array_elements(p_installments) WITH ORDINALITY AS item(value, position)
+  LOOP
+    v_amount := (v_item.value->>'amount_cents')::INTEGER;
+    v_due_date := (v_item.value->>'due_date')::DATE;
+
+    SELECT * INTO v_current
+    FROM invoice_installments
+    WHERE invoice_id = p_invoice_id AND sequence = v_item.sequence
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      INSERT INTO invoice_installments (
+        shop_id, invoice_id, sequence, amount_cents, due_date
+      ) VALUES (
+        v_invoice.shop_id, p_invoice_id, v_item.sequence, v_amount, v_due_date
+      );
+      CONTINUE;
+    END IF;
+
+    -- A link asks for the old amount
+    IF v_current.amount_cents <> v_amount THEN
+      UPDATE payment_links SET status = 'expired'
+      WHERE installment_id = v_current.id AND status = 'active';
+    END IF;
+
+    UPDATE invoice_installments SET
+      amount_cents = v_amount,
+      due_date = v_due_date,
+      -- The upcoming reminder was for the old date
+      reminder_sent_at = CASE
+        WHEN v_current.due_date = v_due_date THEN v_current.reminder_sent_at
+      END
+    WHERE id = v_current.id;
+  END LOOP;
+
+  UPDATE invoices SET
+    -- Only the first plan's invoice has the real original date
+    installment_original_due_date = CASE
+      WHEN v_invoice.invoice_type = 'installment' THEN installment_original_due_date
+      ELSE due_date
+    END,
+    invoice_type = 'installment',
+    due_date = (
+      SELECT MAX(due_date) FROM invoice_installments WHERE invoice_id = p_invoice_id
+    ),
+    updated_at = now()
+  WHERE id = p_invoice_id;
+END;
+$$;